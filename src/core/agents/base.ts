@@ -21,7 +21,6 @@ import { KeyManagementSystem } from '@veramo/kms-local';
 import { DIDResolverPlugin } from '@veramo/did-resolver';
 import { KeyDIDProvider } from '@veramo/did-provider-key';
 import { CheqdDIDProvider } from '@cheqd/did-provider-cheqd';
-import { Resolver } from 'did-resolver';
 import dotenv from 'dotenv';
 // import { DataSource } from 'typeorm';
 import { KeyStore } from '@veramo/data-store';
@@ -51,7 +50,7 @@ import {
   AgentContext,
   TrustStatusInfo,
   TrustStatus,
-  KeyManager as SDKKeyManager
+  VerifiablePresentation
 } from '../../types';
 
 // Define VeramoAgent type locally
@@ -68,18 +67,60 @@ type VeramoAgent = TAgent<
 import { createSecureStorage } from '../storage';
 import { SecureStorageImpl } from '../storage/secure-storage';
 
-import { DIDDocument } from 'did-resolver';
-import { createKeyManager } from '../key-management';
+import { DIDDocument, DIDResolutionResult } from 'did-resolver';
+import { createKeyManager, KeyManager as SDKKeyManager } from '../key-management';
 import { importKey, KeyImportExportFormat } from '../key-management/key-import-export';
 import crypto from 'crypto';
 import { dlrClient, DIDLinkedResourceClient } from '@/core/utils/dlr'
 import { CreateResourceParams, ResourceMetadata, UpdateResourceParams, ResourceListResult } from '@/core/resource/types'
+import { verifyJWT } from 'did-jwt';
+import {
+  PresentationOptions,
+  PresentationVerificationOptions,
+  PresentationVerificationResult,
+  PresentedCredentialResult
+} from '../presentation/types';
+import {
+  getPresentationJwt,
+  decodePresentationJwt,
+  checkPresentationBinding,
+  getEmbeddedCredentials
+} from '../presentation/utils';
+import { ProofJwtSigner } from '../oid4vci/types';
+import { DataIntegrityClient } from '../data-integrity/client';
+import { DataIntegritySigner, EDDSA_CRYPTOSUITES, EdDSACryptosuite } from '../data-integrity/types';
+import { StatusListService, DIDLinkedResourceStatusListPublisher, SecureStorageStatusListStore } from '../revocation/status-list-service';
+import { StatusListProvider } from '../revocation/status-list-provider';
+import { StatusListCache, SecureStorageSnapshotStore } from '../revocation/status-list-cache';
+import { DIDPeerPlugin, SecureStorageDIDPeerLongFormStore } from '../plugins/did-methods/did-peer-plugin';
+import { DIDJWKPlugin } from '../plugins/did-methods/did-jwk-plugin';
+import { DIDKeyPlugin } from '../plugins/did-methods/did-key-plugin';
+import { DIDWebPlugin } from '../plugins/did-methods/did-web-plugin';
+import { CachingDIDResolver, DIDResolveOptions } from '../did/resolver';
+import { DIDUrlDereferencer, DIDDereferencingOptions, DIDDereferencingResult } from '../did/dereferencer';
+import {
+  applyDIDDocumentUpdate,
+  rotateVerificationMethod,
+  DIDDocumentUpdate,
+  KeyRotationOptions,
+  SecureStorageDIDVersionStore
+} from '../did/lifecycle';
+import { KeyAlgorithm } from '../key-management/types';
+import { DIDCommMessenger } from '../didcomm/messenger';
+import { HttpDIDCommTransport } from '../didcomm/transports';
+import { DIDCommMessage, DIDCommMessageHandler, DIDCommSendOptions, DIDCommUnpackResult } from '../didcomm/types';
+import {
+  BitstringStatusListEntry,
+  StatusListPublisher,
+  StatusListRecord,
+  StatusPurpose
+} from '../revocation/types';
 
 dotenv.config();
 
 export let keyStore: KeyStore | MemoryKeyStore = new MemoryKeyStore();
 export const privateKeyStore = new MemoryPrivateKeyStore();
-const universalResolver = getUniversalResolverFor(['cheqd', 'key']);
+const universalResolver = getUniversalResolverFor(['cheqd']);
 
 export enum CheqdNetwork {
   Mainnet = "mainnet",
@@ -128,6 +169,43 @@ export abstract class BaseAgent implements OpenVerifiableAgent {
   >;
   protected plugins: Map<string, AgentPlugin> = new Map();
   protected dlr: DIDLinkedResourceClient = dlrClient;
+  protected statusLists?: StatusListService;
+  /** Publishes this agent's status lists; set by enableStatusLists() */
+  protected statusListPublisher: StatusListPublisher = new DIDLinkedResourceStatusListPublisher(this.dlr);
+  protected statusListProvider?: StatusListProvider;
+  /** Resolves peer DIDs locally and remembers numalgo 4 long forms in secure storage */
+  protected didPeer: DIDPeerPlugin;
+  protected didJwk: DIDJWKPlugin = new DIDJWKPlugin();
+  /** JsonWebKey2020 verification methods, which did-jwt verifies for every did:key key type */
+  protected didKey: DIDKeyPlugin = new DIDKeyPlugin({ publicKeyFormat: 'JsonWebKey2020' });
+  /** Hosts and updates did:web documents for keys of this agent's key manager */
+  protected didWeb: DIDWebPlugin;
+  /** Resolves every DID for this agent and Veramo; key, jwk and peer documents are derived from the DID and never expire */
+  protected didResolver: CachingDIDResolver = new CachingDIDResolver({
+    methods: {
+      cheqd: { resolver: universalResolver.cheqd, ttl: 60 * 1000, versioned: true },
+      web: { resolver: (...args) => this.didWeb.getResolver().web(...args), versioned: true },
+      key: { resolver: this.didKey.getResolver().key, ttl: Infinity },
+      jwk: { resolver: this.didJwk.getResolver().jwk, ttl: Infinity },
+      peer: { resolver: (...args) => this.didPeer.getResolver().peer(...args), ttl: Infinity }
+    }
+  });
+  protected didDereferencer: DIDUrlDereferencer = new DIDUrlDereferencer({ resolver: this.didResolver, resources: this.dlr });
+  /** DIDComm v2 for DIDs whose private keys are in secure storage under their verification method IDs, like pairwise DIDs */
+  protected messaging: DIDCommMessenger = new DIDCommMessenger({
+    resolveDID: async did => {
+      const result = await this.didResolver.resolve(did);
+      if (!result.didDocument) {
+        throw new Error(result.didResolutionMetadata.message || `${did} not found`);
+      }
+      return result.didDocument;
+    },
+    secrets: async kid => {
+      const key = await this.secureStorage.retrieveKey(kid);
+      return key ? JSON.parse(Buffer.from(key).toString('utf-8')) : null;
+    },
+    transports: [new HttpDIDCommTransport()]
+  });
   
   
   // Public accessor for the internal Veramo agent
@@ -158,12 +236,15 @@ export abstract class BaseAgent implements OpenVerifiableAgent {
     this.secureStorage = createSecureStorage(encryptionKey) as SecureStorageImpl;
     
     // Initialize the key manager
-    this.keyManager = createKeyManager({
+    const keyManager = createKeyManager({
       platform: RuntimePlatform.NODE,
       defaultAlgorithm: 'Ed25519' as any,
       hardwareBacked: false,
       requireBiometric: false
     });
+    this.keyManager = keyManager;
+    this.didWeb = new DIDWebPlugin({ keyManager, store: new SecureStorageDIDVersionStore(this.secureStorage) });
+    this.didPeer = new DIDPeerPlugin({ store: new SecureStorageDIDPeerLongFormStore(this.secureStorage) });
   }
 
   abstract getType(): string;
@@ -205,11 +286,13 @@ export abstract class BaseAgent implements OpenVerifiableAgent {
       
       // Ensure the issuer is a string (DID)
       const issuerDid = typeof credential.issuer === 'string' ? credential.issuer : credential.issuer.id;
+      const credentialStatus = await this.allocateCredentialStatus(issuerDid);
       
       const result = await this._veramoAgent.createVerifiableCredential({
         credential: {
           ...credential,
-          issuer: issuerDid
+          issuer: issuerDid,
+          ...(credentialStatus ? { credentialStatus } : {})
         },
         proofFormat: 'jwt'
       });
@@ -231,6 +314,7 @@ export abstract class BaseAgent implements OpenVerifiableAgent {
         return {
           ...credential,
           issuer: issuerDid, // Ensure issuer is always a string
+          ...(credentialStatus ? { credentialStatus } : {}),
           proof: { 
             type: 'JsonWebSignature2020',
             jwt: result.jwt || result 
@@ -459,6 +543,22 @@ export abstract class BaseAgent implements OpenVerifiableAgent {
 
       console.log('Found verification method:', verificationMethod);
 
+      if (EDDSA_CRYPTOSUITES.includes(proof.cryptosuite)) {
+        const result = await new DataIntegrityClient().verifyProof(credential, {
+          resolver: this.didResolver
+        });
+        return {
+          isValid: result.verified,
+          trustStatus: {
+            status: result.verified ? TrustStatus.TRUSTED : TrustStatus.UNTRUSTED,
+            lastChecked: new Date().toISOString(),
+            source: 'data-integrity'
+          },
+          validationErrors: result.errors,
+          warnings: []
+        };
+      }
+
       // For now, since we can't do cryptographic verification without the LD plugin,
       // we'll do a basic structural validation
       const isValid = this.validateCredentialStructure(credential);
@@ -516,6 +616,11 @@ export abstract class BaseAgent implements OpenVerifiableAgent {
       console.log('🔍 JWT Header:', header);
       console.log('🔍 JWT Payload:', payload);
 
+      // did:jwk keys (common for OID4VC wallets) are verified directly from the kid
+      if (typeof header.kid === 'string' && header.kid.startsWith('did:jwk:')) {
+        return await this.verifyDidJwkJWT(jwtCredential);
+      }
+
       // Extract issuer from payload
       const issuer = payload.iss;
       if (!issuer) {
@@ -623,6 +728,29 @@ export abstract class BaseAgent implements OpenVerifiableAgent {
 
 
 
+  /**
+   * Verify a JWT signed with a did:jwk key; the issuer, when given, must be that DID
+   */
+  private async verifyDidJwkJWT(jwt: string): Promise<ValidationResult> {
+    const result = await this.didJwk.verifyJWT(jwt);
+    const errors = result.error ? [result.error] : [];
+    if (result.verified && result.payload?.iss && result.payload.iss !== result.did) {
+      errors.push(`JWT issuer ${result.payload.iss} does not control key ${result.header?.kid}`);
+    }
+
+    const isValid = errors.length === 0;
+    return {
+      isValid,
+      trustStatus: {
+        status: isValid ? TrustStatus.TRUSTED : TrustStatus.UNTRUSTED,
+        lastChecked: new Date().toISOString(),
+        source: 'did-jwk'
+      },
+      validationErrors: errors,
+      warnings: []
+    };
+  }
+
   /**
    * Verify JWT signature using Ed25519
    */
@@ -691,8 +819,11 @@ export abstract class BaseAgent implements OpenVerifiableAgent {
       return false;
     }
 
-    // Check proof structure
-    if (!credential.proof || !credential.proof.type || !credential.proof.verificationMethod) {
+    // Check proof structure (JWT proofs carry the verification method in the JWT header)
+    if (!credential.proof || !credential.proof.type) {
+      return false;
+    }
+    if (typeof credential.proof.jwt !== 'string' && !credential.proof.verificationMethod) {
       return false;
     }
 
@@ -778,7 +909,7 @@ export abstract class BaseAgent implements OpenVerifiableAgent {
             // 'did:eth': new EthDIDProvider(),
           }
         }),
-        new DIDResolverPlugin({ resolver: new Resolver({ ...universalResolver }) }),
+        new DIDResolverPlugin({ resolver: this.didResolver }),
         new CredentialPlugin()
         // new CredentialIssuerLD({
         //   contextMaps: [LdDefaultContexts],
@@ -880,22 +1011,169 @@ export abstract class BaseAgent implements OpenVerifiableAgent {
     }
   }
 
-  async resolveDID(did: string): Promise<DIDDocument> {
+  async resolveDID(did: string, options?: DIDResolveOptions): Promise<DIDDocument> {
     try {
-      if (!this._veramoAgent) {
-        throw new Error('Agent not initialized');
-      }
-      const result = await this._veramoAgent.resolveDid({ didUrl: did });
+      const result = await this.resolveDIDWithMetadata(did, options);
       if (!result.didDocument) {
-        throw new Error('DID document not found');
+        throw new Error(result.didResolutionMetadata.message || 'DID document not found');
       }
-      return result.didDocument as DIDDocument;
+      return result.didDocument;
     } catch (err) {
       const error = err as Error;
       throw new Error(`Failed to resolve DID: ${error.message}`);
     }
   }
 
+  /**
+   * Resolve a DID with its resolution and document metadata (`deactivated`, `versionId`, `updated`, ...),
+   * optionally at a historical `versionTime` for verifying old credentials
+   */
+  async resolveDIDWithMetadata(did: string, options?: DIDResolveOptions): Promise<DIDResolutionResult> {
+    if (!this._veramoAgent) {
+      throw new Error('Agent not initialized');
+    }
+    return this.didResolver.resolve(did, options);
+  }
+
+  /**
+   * Dereference a DID URL: a verification method or service (`#key-1`), a service
+   * endpoint (`?service=files&relativeRef=/a.json`) or a DID-linked resource (`/resources/<id>`)
+   */
+  async dereferenceDIDUrl(didUrl: string, options?: DIDDereferencingOptions): Promise<DIDDereferencingResult> {
+    return this.didDereferencer.dereference(didUrl, { requestingDid: this.agentId, ...options });
+  }
+
+  /**
+   * The agent's DIDComm messenger, to add transports or mount as an HTTP endpoint
+   */
+  getMessenger(): DIDCommMessenger {
+    return this.messaging;
+  }
+
+  /**
+   * Send a DIDComm message to the service endpoints of its recipients; authcrypted from `message.from`
+   * unless `options.anonymous` is set
+   */
+  async sendMessage(message: DIDCommMessage, options?: DIDCommSendOptions): Promise<void> {
+    await this.messaging.send(message, options);
+  }
+
+  /**
+   * Unpack a received DIDComm message and pass it to the handler registered for its type
+   */
+  async receiveMessage(packed: string | Record<string, any>): Promise<DIDCommUnpackResult> {
+    return this.messaging.receive(packed);
+  }
+
+  onMessage(type: string, handler: DIDCommMessageHandler): void {
+    this.messaging.on(type, handler);
+  }
+
+  /**
+   * Add or remove verification methods and services of a DID this agent controls:
+   * did:cheqd through the Veramo cheqd provider, or a did:web hosted by this agent
+   */
+  async updateDID(did: string, update: DIDDocumentUpdate): Promise<DIDDocument> {
+    try {
+      const method = this.requireUpdatableMethod(did);
+      let document: DIDDocument;
+      if (method === 'web') {
+        document = await this.didWeb.updateDID(did, update);
+      } else {
+        document = applyDIDDocumentUpdate(await this.resolveDID(did, { noCache: true }), update);
+        await this.agent.cheqdUpdateIdentifier({ kms: 'local', document });
+      }
+      this.didResolver.invalidate(did);
+      return document;
+    } catch (err) {
+      throw new Error(`Failed to update DID: ${(err as Error).message}`);
+    }
+  }
+
+  /**
+   * Replace a key of a DID with a newly generated one that takes over its verification
+   * relationships; by default the first authentication key. The previous key stays in
+   * `verificationMethod` (unless `retainPreviousKey` is false) and in earlier versions, so
+   * credentials it signed remain verifiable.
+   */
+  async rotateDIDKey(
+    did: string,
+    options: KeyRotationOptions & { verificationMethodId?: string } = {}
+  ): Promise<DIDDocument> {
+    try {
+      const method = this.requireUpdatableMethod(did);
+      const current = await this.resolveDID(did, { noCache: true });
+      const absolute = (id: string) => (id.startsWith('#') ? `${did}${id}` : id);
+      const authentication = current.authentication?.[0];
+      const previousId = absolute(
+        options.verificationMethodId
+          || (typeof authentication === 'string' ? authentication : authentication?.id)
+          || current.verificationMethod?.[0]?.id
+          || ''
+      );
+      const previous = current.verificationMethod?.find(vm => absolute(vm.id) === previousId);
+      if (!previous) {
+        throw new Error(`Verification method ${previousId || '(none)'} not found in the DID document`);
+      }
+
+      let document: DIDDocument;
+      if (method === 'web') {
+        // did:web verification methods are named after their key manager keys
+        const previousKeyId = previousId.slice(did.length + 1);
+        const algorithms: Record<string, KeyAlgorithm> = { secp256k1: KeyAlgorithm.SECP256K1, 'P-256': KeyAlgorithm.P256 };
+        const newKeyId = await this.keyManager.generateKey(algorithms[previous.publicKeyJwk?.crv || ''] || KeyAlgorithm.ED25519);
+        document = await this.didWeb.rotateKey(did, previousKeyId, newKeyId, options);
+        await this.keyManager.deleteKey(previousKeyId);
+      } else {
+        const key = await this.agent.cheqdGenerateIdentityKeys({});
+        let index = (current.verificationMethod?.length || 0) + 1;
+        while (current.verificationMethod?.some(vm => absolute(vm.id) === `${did}#key-${index}`)) {
+          index++;
+        }
+        document = rotateVerificationMethod(current, previousId, {
+          id: `${did}#key-${index}`,
+          type: 'JsonWebKey2020',
+          controller: did,
+          publicKeyJwk: { kty: 'OKP', crv: 'Ed25519', x: Buffer.from(key.publicKeyHex, 'hex').toString('base64url') }
+        }, options);
+        // The new key co-signs the update and is imported into the local KMS
+        await this.agent.cheqdUpdateIdentifier({ kms: 'local', document, keys: [key] });
+      }
+      this.didResolver.invalidate(did);
+      return document;
+    } catch (err) {
+      throw new Error(`Failed to rotate DID key: ${(err as Error).message}`);
+    }
+  }
+
+  /**
+   * Deactivate a DID this agent controls. Earlier versions stay resolvable by `versionTime`.
+   */
+  async deactivateDID(did: string): Promise<void> {
+    try {
+      const method = this.requireUpdatableMethod(did);
+      if (method === 'web') {
+        await this.didWeb.deactivateDID(did);
+      } else {
+        await this.agent.cheqdDeactivateIdentifier({ kms: 'local', document: await this.resolveDID(did, { noCache: true }) });
+      }
+      this.didResolver.invalidate(did);
+    } catch (err) {
+      throw new Error(`Failed to deactivate DID: ${(err as Error).message}`);
+    }
+  }
+
+  private requireUpdatableMethod(did: string): 'cheqd' | 'web' {
+    if (!this._veramoAgent) {
+      throw new Error('Agent not initialized');
+    }
+    const method = did.split(':')[1];
+    if (method !== 'cheqd' && method !== 'web') {
+      throw new Error(`did:${method} documents cannot be updated`);
+    }
+    return method;
+  }
+
   async verifyCredential(credential: any): Promise<ValidationResult> {
     try {
       if (!this._veramoAgent) {
@@ -926,6 +1204,355 @@ export abstract class BaseAgent implements OpenVerifiableAgent {
     }
   }
 
+  /**
+   * Build a JWT signer backed by the key manager key of a managed DID
+   */
+  protected async createJwtSigner(did: string): Promise<ProofJwtSigner> {
+    const identifier = await this.agent.didManagerGet({ did });
+    const key = identifier.keys[0];
+    if (!key) {
+      throw new Error(`No key found for ${did}`);
+    }
+
+    const algorithms: Record<string, string> = { Ed25519: 'EdDSA', Secp256k1: 'ES256K', Secp256r1: 'ES256' };
+    const alg = algorithms[key.type];
+    if (!alg) {
+      throw new Error(`Unsupported key type for JWT signing: ${key.type}`);
+    }
+
+    const didDocument = await this.resolveDID(did);
+    const method = didDocument.verificationMethod?.find(vm => (vm as any).publicKeyHex === key.publicKeyHex)
+      || didDocument.verificationMethod?.[0];
+    const kid = method ? (method.id.startsWith('#') ? `${did}${method.id}` : method.id) : `${did}#${key.kid}`;
+
+    return {
+      kid,
+      alg,
+      sign: async (data: string | Uint8Array) =>
+        this.agent.keyManagerSign({
+          keyRef: key.kid,
+          data: typeof data === 'string' ? data : new TextDecoder().decode(data),
+          algorithm: alg,
+          encoding: 'utf-8'
+        })
+    };
+  }
+
+  /**
+   * Build a Data Integrity signer backed by the Ed25519 key manager key of a managed DID,
+   * using the DID document's assertion method for that key
+   */
+  protected async createDataIntegritySigner(did: string): Promise<DataIntegritySigner> {
+    const identifier = await this.agent.didManagerGet({ did });
+    const key = identifier.keys.find((k: { type: string }) => k.type === 'Ed25519');
+    if (!key) {
+      throw new Error(`No Ed25519 key found for ${did}`);
+    }
+
+    const didDocument = await this.resolveDID(did);
+    const absolute = (id: string) => (id.startsWith('#') ? `${did}${id}` : id);
+    const assertionMethods = (didDocument.assertionMethod || []).map(entry => absolute(typeof entry === 'string' ? entry : entry.id));
+    const candidates = (didDocument.verificationMethod || []).filter(vm => assertionMethods.includes(absolute(vm.id)));
+    const method = candidates.find(vm => (vm as any).publicKeyHex === key.publicKeyHex) || candidates[0];
+    if (!method) {
+      throw new Error(`No Ed25519 assertion method found in the DID document of ${did}`);
+    }
+
+    return {
+      verificationMethod: absolute(method.id),
+      sign: async (data: Uint8Array) => {
+        const signature: string = await this.agent.keyManagerSign({
+          keyRef: key.kid,
+          data: Buffer.from(data).toString('hex'),
+          algorithm: 'EdDSA',
+          encoding: 'base16'
+        });
+        return Buffer.from(signature, 'base64url');
+      }
+    };
+  }
+
+  /**
+   * Issue a credential secured with an EdDSA Data Integrity proof (`eddsa-rdfc-2022`
+   * by default) signed by the issuer DID's key
+   */
+  async issueDataIntegrityCredential(
+    template: CredentialTemplate,
+    options: { cryptosuite?: EdDSACryptosuite } = {}
+  ): Promise<VerifiableCredential> {
+    if (!template.type || !Array.isArray(template.type) || template.type.length === 0) {
+      throw new Error('Credential type is required and must be a non-empty array');
+    }
+    if (!template.credentialSubject || Object.keys(template.credentialSubject).length === 0) {
+      throw new Error('Credential subject is required and cannot be empty');
+    }
+
+    const issuerDid = typeof template.issuer === 'string' ? template.issuer : template.issuer.id;
+    const credential: VerifiableCredential = {
+      '@context': template['@context'] || ['https://www.w3.org/ns/credentials/v2'],
+      id: `urn:uuid:${crypto.randomUUID()}`,
+      type: template.type.includes('VerifiableCredential') ? template.type : ['VerifiableCredential', ...template.type],
+      issuer: issuerDid,
+      validFrom: template.validFrom || new Date().toISOString(),
+      ...(template.validUntil ? { validUntil: template.validUntil } : {}),
+      credentialSubject: template.credentialSubject
+    };
+
+    try {
+      const credentialStatus = await this.allocateCredentialStatus(issuerDid);
+      if (credentialStatus) {
+        credential.credentialStatus = credentialStatus;
+      }
+      return await new DataIntegrityClient().addProof(credential, {
+        cryptosuite: options.cryptosuite || 'eddsa-rdfc-2022',
+        signer: await this.createDataIntegritySigner(issuerDid)
+      });
+    } catch (err) {
+      const error = err as Error;
+      throw new Error(`Failed to issue credential: ${error.message}`);
+    }
+  }
+
+  /**
+   * Create Bitstring Status Lists signed by the issuer DID; credentials this agent issues
+   * for that DID afterwards get an entry in each list. Lists are published as DID-Linked
+   * Resources unless another publisher is given. Lists are kept in secure storage, so
+   * credentials can be revoked after a restart; the newest list of each purpose gets the
+   * entries of new credentials.
+   */
+  async enableStatusLists(options: {
+    issuer: string;
+    purposes?: StatusPurpose[];
+    length?: number;
+    publisher?: StatusListPublisher;
+  }): Promise<StatusListRecord[]> {
+    if (options.publisher) {
+      this.statusListPublisher = options.publisher;
+    }
+
+    const records: StatusListRecord[] = [];
+    for (const statusPurpose of options.purposes || ['revocation']) {
+      records.push(await this.getStatusListService().createList({ issuer: options.issuer, statusPurpose, length: options.length }));
+    }
+    return records;
+  }
+
+  /**
+   * Revoke a credential issued with a status list entry and re-publish the list
+   */
+  async revokeCredential(credential: VerifiableCredential): Promise<StatusListRecord> {
+    return this.getStatusListService().revoke(credential);
+  }
+
+  /**
+   * Suspend a credential issued with a suspension status list entry
+   */
+  async suspendCredential(credential: VerifiableCredential): Promise<StatusListRecord> {
+    return this.getStatusListService().suspend(credential);
+  }
+
+  /**
+   * Lift the suspension of a credential
+   */
+  async reinstateCredential(credential: VerifiableCredential): Promise<StatusListRecord> {
+    return this.getStatusListService().reinstate(credential);
+  }
+
+  /**
+   * Allocate entries in the active status lists of the issuer, if any
+   */
+  protected async allocateCredentialStatus(
+    issuerDid: string
+  ): Promise<BitstringStatusListEntry | BitstringStatusListEntry[] | undefined> {
+    const service = this.getStatusListService();
+    const active = new Map<StatusPurpose, StatusListRecord>();
+    for (const list of await service.listLists()) {
+      const current = active.get(list.statusPurpose);
+      if (list.issuer === issuerDid && (!current || list.created >= current.created)) {
+        active.set(list.statusPurpose, list);
+      }
+    }
+    if (active.size === 0) {
+      return undefined;
+    }
+
+    const entries: BitstringStatusListEntry[] = [];
+    for (const list of active.values()) {
+      entries.push(await service.allocateEntry(list.id));
+    }
+    return entries.length === 1 ? entries[0] : entries;
+  }
+
+  /**
+   * Status list checker backed by this agent's resolver. Fetched lists are cached and
+   * snapshotted to secure storage, so checks can run offline against the last known lists.
+   */
+  getStatusListProvider(): StatusListProvider {
+    if (!this.statusListProvider) {
+      this.statusListProvider = new StatusListProvider({
+        resolver: this.didResolver,
+        // Status list credentials may be DID-linked resources
+        cache: new StatusListCache({ store: new SecureStorageSnapshotStore(this.secureStorage), fetch: this.didDereferencer.fetch })
+      });
+    }
+    return this.statusListProvider;
+  }
+
+  private getStatusListService(): StatusListService {
+    if (!this.statusLists) {
+      this.statusLists = new StatusListService({
+        // Looked up on each call, as enableStatusLists() may name another publisher
+        publisher: {
+          reserve: list => this.statusListPublisher.reserve
+            ? this.statusListPublisher.reserve(list)
+            : Promise.reject(new Error('The status list publisher does not assign URLs')),
+          publish: (credential, list) => this.statusListPublisher.publish(credential, list)
+        },
+        signer: async credential => {
+          const issuer = typeof credential.issuer === 'string' ? credential.issuer : credential.issuer.id;
+          return new DataIntegrityClient().addProof(credential, {
+            cryptosuite: 'eddsa-rdfc-2022',
+            signer: await this.createDataIntegritySigner(issuer)
+          });
+        },
+        store: new SecureStorageStatusListStore(this.secureStorage)
+      });
+    }
+    return this.statusLists;
+  }
+
+  /**
+   * Create a JWT Verifiable Presentation wrapping the given credentials,
+   * signed by the holder DID and bound to the verifier's challenge and domain.
+   */
+  async createPresentation(
+    credentials: VerifiableCredential[],
+    options: PresentationOptions
+  ): Promise<VerifiablePresentation> {
+    try {
+      if (!this._veramoAgent) {
+        throw new Error('Agent not initialized');
+      }
+      if (!options.holder) {
+        throw new Error('Holder DID is required');
+      }
+      if (!options.challenge || !options.domain) {
+        throw new Error('Presentation challenge and domain are required');
+      }
+      if (credentials.length === 0) {
+        throw new Error('At least one credential is required');
+      }
+
+      // Embed JWT credentials in their compact form so the verifier can check the issuer signature
+      const verifiableCredential = credentials.map(credential =>
+        credential.proof && 'jwt' in credential.proof ? credential.proof.jwt : credential
+      );
+
+      const presentation: Record<string, any> = {
+        '@context': ['https://www.w3.org/2018/credentials/v1'],
+        type: ['VerifiablePresentation', ...(options.type || [])],
+        holder: options.holder,
+        verifiableCredential
+      };
+      if (options.expiresIn) {
+        presentation.expirationDate = new Date(Date.now() + options.expiresIn * 1000).toISOString();
+      }
+
+      return await this._veramoAgent.createVerifiablePresentation({
+        presentation: presentation as any,
+        proofFormat: 'jwt',
+        challenge: options.challenge,
+        domain: options.domain
+      });
+    } catch (err) {
+      const error = err as Error;
+      throw new Error(`Failed to create presentation: ${error.message}`);
+    }
+  }
+
+  /**
+   * Verify a JWT Verifiable Presentation: holder signature and binding (challenge,
+   * domain), that every embedded credential is about the holder, then each of them
+   * through verifyCredentialWithValidation.
+   */
+  async verifyPresentation(
+    presentation: VerifiablePresentation | string,
+    options: PresentationVerificationOptions
+  ): Promise<PresentationVerificationResult> {
+    const validationErrors: string[] = [];
+    const warnings: string[] = [];
+    const credentialResults: PresentedCredentialResult[] = [];
+    let holder: string | undefined;
+
+    try {
+      if (!this._veramoAgent) {
+        throw new Error('Agent not initialized');
+      }
+
+      const jwt = getPresentationJwt(presentation);
+      if (!jwt) {
+        throw new Error('Only JWT presentations are supported');
+      }
+
+      const { payload } = decodePresentationJwt(jwt);
+      holder = payload.iss;
+      validationErrors.push(...checkPresentationBinding(payload, options));
+
+      // Holder binding: the JWT must be signed by a key of the holder DID
+      try {
+        await verifyJWT(jwt, {
+          resolver: this.didResolver,
+          audience: options.domain
+        });
+      } catch (err) {
+        validationErrors.push(`Holder signature verification failed: ${(err as Error).message}`);
+      }
+
+      const credentials = getEmbeddedCredentials(payload.vp);
+
+      // Subject binding: a holder may only present credentials issued to them
+      if (!options.allowThirdPartyCredentials) {
+        for (const credential of credentials) {
+          if (credential.credentialSubject?.id !== holder) {
+            validationErrors.push(
+              `Credential ${credential.id} subject ${credential.credentialSubject?.id || '(none)'} is not the holder ${holder}`
+            );
+          }
+        }
+      }
+
+      if (options.verifyCredentials !== false) {
+        if (credentials.length === 0) {
+          validationErrors.push('Presentation contains no credentials');
+        }
+        for (const credential of credentials) {
+          const result = await this.verifyCredentialWithValidation(credential);
+          credentialResults.push({ credentialId: credential.id, result });
+          if (!result.isValid) {
+            validationErrors.push(`Credential ${credential.id} failed verification: ${result.validationErrors.join(', ')}`);
+          }
+          warnings.push(...result.warnings);
+        }
+      }
+    } catch (err) {
+      validationErrors.push((err as Error).message);
+    }
+
+    const isValid = validationErrors.length === 0;
+    return {
+      isValid,
+      holder,
+      credentialResults,
+      trustStatus: {
+        status: isValid ? TrustStatus.TRUSTED : TrustStatus.UNTRUSTED,
+        lastChecked: new Date().toISOString(),
+        source: 'presentation-verification'
+      },
+      validationErrors,
+      warnings
+    };
+  }
+
   protected findPluginByType(type: string): AgentPlugin | undefined {
     return Array.from(this.plugins.values()).find(p => p.type === type);
   }
@@ -14,8 +14,25 @@ import {
   AgentType,
   TrustStatus,
   DataIntegrityProof,
-  JwtProof
+  JwtProof,
+  VerifiablePresentation
 } from '../../types';
+import { PresentationVerificationOptions, PresentationVerificationResult } from '../presentation/types';
+import { getPresentationJwt, decodePresentationJwt, getEmbeddedCredentials } from '../presentation/utils';
+import { PresentationExchangeClient } from '../presentation-exchange/client';
+import { PresentationDefinition, PresentationSubmission } from '../presentation-exchange/types';
+import { OID4VCIIssuer } from '../oid4vci/issuer';
+import { IssuerOptions } from '../oid4vci/types';
+import { OID4VPVerifier } from '../oid4vp/verifier';
+import { VerifierOptions } from '../oid4vp/types';
+import { SdJwtVcClient } from '../sd-jwt/client';
+import { DataIntegrityClient } from '../data-integrity/client';
+import { EDDSA_CRYPTOSUITES, EdDSACryptosuite } from '../data-integrity/types';
+import { SdJwtVcVerificationResult } from '../sd-jwt/types';
+import { IssueCredentialProtocol } from '../didcomm/protocols/issue-credential';
+import { PresentProofProtocol } from '../didcomm/protocols/present-proof';
+import { SecureStorageExchangeRecordStore } from '../didcomm/protocols/store';
+import { StatusListError } from '../revocation/types';
 
 export interface ServiceAgentConfig {
   serviceId: string;
@@ -33,12 +50,17 @@ export interface ServiceAgentConfig {
 
 export interface ServiceVerificationOptions {
   checkRevocation?: boolean;
+  /** Check status lists against stored snapshots only, without fetching */
+  offlineRevocation?: boolean;
   checkTrustRegistry?: boolean;
   validateSchema?: boolean;
   validateSignature?: boolean;
   validateExpiry?: boolean;
 }
 
+export interface ServicePresentationVerificationOptions
+  extends PresentationVerificationOptions, ServiceVerificationOptions {}
+
 /**
  * Service Agent Implementation
  * Provides service-specific functionality for managing service credentials and API access
@@ -50,6 +72,11 @@ export class ServiceAgent extends BaseAgent {
   private serviceEndpoints: Map<string, string> = new Map();
   private apiKeys: Map<string, string> = new Map();
   private serviceCapabilities: string[] = [];
+  private presentationDefinitions: Map<string, PresentationDefinition> = new Map();
+  /** Issuer side of Issue Credential 3.0 over DIDComm; exchanges are kept in secure storage */
+  protected issueCredentialProtocol: IssueCredentialProtocol;
+  /** Verifier side of Present Proof 3.0 over DIDComm */
+  protected presentProofProtocol: PresentProofProtocol;
   public serviceConfig: any;
 
   constructor(config: ServiceAgentConfig) {
@@ -64,6 +91,26 @@ export class ServiceAgent extends BaseAgent {
       endpoint: config.serviceEndpoint || 'http://localhost',
       ...config
     };
+
+    const exchanges = new SecureStorageExchangeRecordStore(this.secureStorage);
+    this.issueCredentialProtocol = new IssueCredentialProtocol({
+      messenger: this.messaging,
+      store: exchanges,
+      issueCredential: async (template, record) => {
+        // Holders only take credentials from the DID they talk to, unless the offer named the issuer
+        const issuer = template.issuer || (record.myDid === this.serviceDID ? this.serviceDID : null);
+        if (!issuer) {
+          throw new Error('Name the issuer in the offer, or exchange messages from the service DID (createServiceDID()).');
+        }
+        return this.issueCredential({ ...template, issuer });
+      }
+    });
+    this.presentProofProtocol = new PresentProofProtocol({
+      messenger: this.messaging,
+      store: exchanges,
+      verifyPresentation: (presentation, submission, { challenge, domain, presentationDefinition }) =>
+        this.verifyPresentationAgainstDefinition(presentation, submission, presentationDefinition, { challenge, domain })
+    });
   }
 
   getType(): string {
@@ -95,53 +142,7 @@ export class ServiceAgent extends BaseAgent {
         return verificationResult;
       }
 
-      const validationErrors: string[] = [];
-      const warnings: string[] = [];
-
-      // Check revocation if enabled
-      if (options.checkRevocation && this.config.revocationEndpoint) {
-        try {
-          const revocationStatus = await this.checkRevocationStatus(credential);
-          if (revocationStatus.isRevoked) {
-            validationErrors.push(`Credential revoked: ${revocationStatus.reason}`);
-          }
-        } catch (err) {
-          warnings.push('Revocation check failed');
-        }
-      }
-
-      // Check trust registry if enabled
-      if (options.checkTrustRegistry && this.config.trustRegistryEndpoint) {
-        try {
-          const trustStatus = await this.checkTrustRegistry(credential.issuer as string);
-          if (!trustStatus.isTrusted) {
-            validationErrors.push(`Issuer not trusted: ${credential.issuer}`);
-          }
-        } catch (err) {
-          warnings.push('Trust registry check failed');
-        }
-      }
-
-      // Validate schema if enabled
-      if (options.validateSchema && this.config.schemaEndpoint) {
-        try {
-          const schemaValidation = await this.validateCredentialSchema(credential);
-          if (!schemaValidation.isValid) {
-            validationErrors.push(...schemaValidation.errors);
-          }
-        } catch (err) {
-          warnings.push('Schema validation failed');
-        }
-      }
-
-      // Check expiry if enabled
-      if (options.validateExpiry) {
-        const now = new Date();
-        const validUntil = new Date(credential.validUntil || '');
-        if (validUntil < now) {
-          validationErrors.push('Credential has expired');
-        }
-      }
+      const { validationErrors, warnings } = await this.runVerificationChecks(credential, options);
 
       return {
         isValid: validationErrors.length === 0,
@@ -168,7 +169,310 @@ export class ServiceAgent extends BaseAgent {
     }
   }
 
-  private async checkRevocationStatus(credential: VerifiableCredential): Promise<{ isRevoked: boolean; reason?: string }> {
+  /**
+   * Whether the check a verification option turns on can run here; trust registry
+   * and schema checks are skipped unless their endpoints are configured
+   */
+  supportsVerificationOption(option: keyof ServiceVerificationOptions): boolean {
+    switch (option) {
+      case 'checkTrustRegistry':
+        return !!this.config.trustRegistryEndpoint;
+      case 'validateSchema':
+        return !!this.config.schemaEndpoint;
+      default:
+        return true;
+    }
+  }
+
+  /**
+   * The optional checks of a credential whose proof verified: revocation, trust registry, schema and expiry
+   */
+  private async runVerificationChecks(
+    credential: VerifiableCredential,
+    options: ServiceVerificationOptions
+  ): Promise<{ validationErrors: string[]; warnings: string[] }> {
+    const validationErrors: string[] = [];
+    const warnings: string[] = [];
+
+    // Check revocation if enabled
+    if (options.checkRevocation && (credential.credentialStatus || this.config.revocationEndpoint)) {
+      try {
+        const revocationStatus = await this.checkRevocationStatus(credential, options.offlineRevocation);
+        if (revocationStatus.isRevoked) {
+          validationErrors.push(`Credential revoked: ${revocationStatus.reason}`);
+        } else if (revocationStatus.isSuspended) {
+          validationErrors.push('Credential is suspended');
+        }
+        if (revocationStatus.stale) {
+          warnings.push('Revocation checked against a stale status list snapshot');
+        }
+      } catch (err) {
+        // An unknown status is not a valid one: a list that fails to verify or
+        // cannot be fetched must not let a revoked credential through
+        validationErrors.push(
+          err instanceof StatusListError
+            ? `Credential status could not be verified (${err.code}): ${err.message}`
+            : `Revocation check failed: ${(err as Error).message}`
+        );
+      }
+    }
+
+    // Check trust registry if enabled
+    if (options.checkTrustRegistry && this.config.trustRegistryEndpoint) {
+      try {
+        const trustStatus = await this.checkTrustRegistry(credential.issuer as string);
+        if (!trustStatus.isTrusted) {
+          validationErrors.push(`Issuer not trusted: ${credential.issuer}`);
+        }
+      } catch (err) {
+        warnings.push('Trust registry check failed');
+      }
+    }
+
+    // Validate schema if enabled
+    if (options.validateSchema && this.config.schemaEndpoint) {
+      try {
+        const schemaValidation = await this.validateCredentialSchema(credential);
+        if (!schemaValidation.isValid) {
+          validationErrors.push(...schemaValidation.errors);
+        }
+      } catch (err) {
+        warnings.push('Schema validation failed');
+      }
+    }
+
+    // Check expiry if enabled
+    if (options.validateExpiry) {
+      const now = new Date();
+      const validUntil = new Date(credential.validUntil || '');
+      if (validUntil < now) {
+        validationErrors.push('Credential has expired');
+      }
+    }
+
+    return { validationErrors, warnings };
+  }
+
+  /**
+   * Verify a presentation received from a holder: holder binding, challenge and
+   * domain, each embedded credential, and the service's own validation rules.
+   */
+  async verifyExternalPresentation(
+    presentation: VerifiablePresentation | string,
+    options: ServicePresentationVerificationOptions
+  ): Promise<PresentationVerificationResult> {
+    const result = await this.verifyPresentation(presentation, options);
+    if (!result.isValid) {
+      return result;
+    }
+
+    const jwt = getPresentationJwt(presentation);
+    const credentials = jwt ? getEmbeddedCredentials(decodePresentationJwt(jwt).payload.vp) : [];
+    const validationErrors = [...result.validationErrors];
+    const warnings = [...result.warnings];
+
+    // The same checks as verifyExternalCredential; proofs were verified with the presentation
+    for (const credential of credentials) {
+      const fieldResult = await this.validateCredentialFields(credential);
+      const checks = await this.runVerificationChecks(credential, options);
+      const label = `Credential ${credential.id || 'without id'}`;
+      validationErrors.push(...fieldResult.validationErrors, ...checks.validationErrors.map(error => `${label}: ${error}`));
+      warnings.push(...checks.warnings.map(warning => `${label}: ${warning}`));
+    }
+
+    const isValid = validationErrors.length === 0;
+    return {
+      ...result,
+      isValid,
+      trustStatus: {
+        status: isValid ? TrustStatus.TRUSTED : TrustStatus.UNTRUSTED,
+        lastChecked: new Date().toISOString(),
+        source: 'service-verification'
+      },
+      validationErrors,
+      warnings
+    };
+  }
+
+  /**
+   * Register a presentation definition so submissions answering it can be validated later
+   */
+  async createPresentationDefinition(definition: PresentationDefinition): Promise<PresentationDefinition> {
+    const errors = new PresentationExchangeClient().validateDefinition(definition);
+    if (errors.length > 0) {
+      throw new Error(`Invalid presentation definition: ${errors.join('; ')}`);
+    }
+    this.presentationDefinitions.set(definition.id, definition);
+    return definition;
+  }
+
+  async getPresentationDefinition(id: string): Promise<PresentationDefinition | undefined> {
+    return this.presentationDefinitions.get(id);
+  }
+
+  /**
+   * Verify a presentation and check that its submission satisfies the
+   * presentation definition this service issued.
+   */
+  async verifyPresentationSubmission(
+    presentation: VerifiablePresentation | string,
+    submission: PresentationSubmission,
+    options: ServicePresentationVerificationOptions
+  ): Promise<PresentationVerificationResult> {
+    const definition = this.presentationDefinitions.get(submission.definition_id);
+    if (!definition) {
+      return {
+        isValid: false,
+        trustStatus: {
+          status: TrustStatus.UNTRUSTED,
+          lastChecked: new Date().toISOString(),
+          source: 'presentation-exchange'
+        },
+        validationErrors: [`Unknown presentation definition: ${submission.definition_id}`],
+        warnings: [],
+        credentialResults: []
+      };
+    }
+
+    return await this.verifyPresentationAgainstDefinition(presentation, submission, definition, options);
+  }
+
+  /**
+   * Create an OID4VP verifier that signs authorization requests with this service's DID
+   * and checks posted VP tokens with the given service verification options.
+   * Mount it with createOID4VPRouter() / mountPresentationVerifier() from the server.
+   */
+  async createPresentationVerifier(
+    options: Omit<VerifierOptions, 'clientId' | 'signer' | 'verifyPresentation'> & {
+      clientId?: string;
+      verificationOptions?: ServiceVerificationOptions;
+    }
+  ): Promise<OID4VPVerifier> {
+    const { verificationOptions, ...verifierOptions } = options;
+    const clientId = options.clientId || this.serviceDID;
+    if (!clientId) {
+      throw new Error('Service DID not created. Call createServiceDID() first or provide a clientId.');
+    }
+
+    return new OID4VPVerifier({
+      ...verifierOptions,
+      clientId,
+      signer: await this.createJwtSigner(clientId),
+      verifyPresentation: (presentation, submission, { challenge, domain, presentationDefinition }) =>
+        this.verifyPresentationAgainstDefinition(presentation, submission, presentationDefinition, {
+          ...verificationOptions,
+          challenge,
+          domain
+        })
+    });
+  }
+
+  private async verifyPresentationAgainstDefinition(
+    presentation: VerifiablePresentation | string,
+    submission: PresentationSubmission,
+    definition: PresentationDefinition,
+    options: ServicePresentationVerificationOptions
+  ): Promise<PresentationVerificationResult> {
+    const result = await this.verifyExternalPresentation(presentation, options);
+
+    const jwt = getPresentationJwt(presentation);
+    const vp = jwt ? decodePresentationJwt(jwt).payload.vp : (presentation as VerifiablePresentation);
+    const submissionResult = new PresentationExchangeClient().validateSubmission(definition, submission, vp);
+    const validationErrors = [...result.validationErrors, ...submissionResult.errors];
+
+    const isValid = result.isValid && submissionResult.isValid;
+    return {
+      ...result,
+      isValid,
+      trustStatus: {
+        status: isValid ? TrustStatus.TRUSTED : TrustStatus.UNTRUSTED,
+        lastChecked: new Date().toISOString(),
+        source: 'presentation-exchange'
+      },
+      validationErrors
+    };
+  }
+
+  /**
+   * Create an OID4VCI credential issuer that signs JWT VCs with this service's DID.
+   * Mount it with createOID4VCIRouter() / mountCredentialIssuer() from the server.
+   * The issuer DID must be managed by this agent's key manager (e.g. via importDID).
+   */
+  async createCredentialIssuer(
+    options: Omit<IssuerOptions, 'issuerDid' | 'issueCredential' | 'resolver'> & { issuerDid?: string }
+  ): Promise<OID4VCIIssuer> {
+    const issuerDid = options.issuerDid || this.serviceDID;
+    if (!issuerDid) {
+      throw new Error('Service DID not created. Call createServiceDID() first or provide an issuerDid.');
+    }
+
+    return new OID4VCIIssuer({
+      ...options,
+      issuerDid,
+      // Use the base agent's JWT issuance; this agent's issueCredential does not produce a JWT proof
+      issueCredential: template => super.issueCredential(template as CredentialTemplate),
+      resolver: this.didResolver
+    });
+  }
+
+  /**
+   * Issue an SD-JWT VC from a credential template. The listed `credentialSubject` claims
+   * (dot paths, e.g. `address.locality`) are made selectively disclosable, and the
+   * credential is bound to the holder DID's key when one is given.
+   * @returns the compact SD-JWT (`<issuer-jwt>~<disclosure>~...~`)
+   */
+  async issueSdJwtCredential(
+    template: CredentialTemplate,
+    options: { disclosable: string[]; holderDid?: string; vct?: string; decoys?: number }
+  ): Promise<string> {
+    const issuerDid = typeof template.issuer === 'string' ? template.issuer : template.issuer.id;
+    const { id: subjectId, ...subjectClaims } = template.credentialSubject;
+    const holderDid = options.holderDid || subjectId;
+
+    let holder: { kid: string } | undefined;
+    if (holderDid) {
+      const holderDocument = await this.resolveDID(holderDid);
+      const method = holderDocument.authentication?.[0] || holderDocument.verificationMethod?.[0]?.id;
+      const kid = typeof method === 'string' ? method : method?.id;
+      holder = { kid: kid ? (kid.startsWith('#') ? `${holderDid}${kid}` : kid) : holderDid };
+    }
+
+    return await new SdJwtVcClient().issue({
+      vct: options.vct || template.type[template.type.length - 1],
+      issuer: issuerDid,
+      claims: { ...subjectClaims, ...(subjectId ? { sub: subjectId } : {}) },
+      disclosable: options.disclosable,
+      holder,
+      validFrom: template.validFrom,
+      validUntil: template.validUntil,
+      decoys: options.decoys,
+      signer: await this.createJwtSigner(issuerDid)
+    });
+  }
+
+  /**
+   * Verify an SD-JWT VC presentation: issuer signature, disclosure digests and,
+   * when a nonce or audience is expected, the holder's key-binding JWT
+   */
+  async verifySdJwtPresentation(
+    sdJwt: string,
+    options: { nonce?: string; audience?: string; keyBindingMaxAge?: number } = {}
+  ): Promise<SdJwtVcVerificationResult> {
+    return await new SdJwtVcClient().verify(sdJwt, {
+      ...options,
+      resolver: this.didResolver
+    });
+  }
+
+  private async checkRevocationStatus(credential: VerifiableCredential, offline?: boolean): Promise<{
+    isRevoked: boolean;
+    isSuspended?: boolean;
+    stale?: boolean;
+    reason?: string;
+  }> {
+    if (credential.credentialStatus) {
+      return this.getStatusListProvider().getRevocationStatus(credential, { offline });
+    }
     // TODO: Implement revocation checking using revocationEndpoint
     return { isRevoked: false };
   }
@@ -237,13 +541,35 @@ export class ServiceAgent extends BaseAgent {
     };
   }
 
+  /**
+   * Issuer side of Issue Credential 3.0: offer credentials to holders and issue them on request
+   */
+  getIssueCredentialProtocol(): IssueCredentialProtocol {
+    return this.issueCredentialProtocol;
+  }
+
+  /**
+   * Verifier side of Present Proof 3.0: request presentations from holders and verify them
+   */
+  getPresentProofProtocol(): PresentProofProtocol {
+    return this.presentProofProtocol;
+  }
+
   getCapabilities(): string[] {
     return [
       'create-service-did',
       'issue-service-credentials',
       'manage-service-endpoints',
+      'didcomm-messaging',
+      'issue-credential-v3',
+      'present-proof-v3',
       'manage-api-keys',
       'verify-external-credentials',
+      'verify-presentations',
+      'presentation-exchange',
+      'oid4vci-issuance',
+      'oid4vp-verification',
+      'sd-jwt-vc',
       'external-verification',
       'trust-registry-query',
       'revocation-checking',
@@ -252,55 +578,37 @@ export class ServiceAgent extends BaseAgent {
   }
 
   async createDID(method: string, options?: CreateDIDOptions): Promise<IIdentifier> {
-    // Service-specific DID creation with service metadata
-    const didId = `did:${method}:${this.generateId()}`;
-    const keyId = `${didId}#key-1`;
-    
-    return {
-      did: didId,
-      controllerKeyId: keyId,
-      provider: `did:${method}`,
-      alias: options?.alias || `service-${this.serviceId}`,
-      keys: [{
-        kid: keyId,
-        type: 'Ed25519',
-        publicKeyHex: 'service-public-key',
-        kms: 'local',
-        meta: { 
-          algorithms: ['EdDSA'],
-          serviceId: this.serviceId,
-          serviceType: 'api'
-        }
-      }],
-      services: []
-    };
+    // Keys are held by the agent's key manager so the service can sign Data Integrity proofs
+    return await super.createDID(method, {
+      ...options,
+      alias: options?.alias || `service-${this.serviceId}`
+    });
   }
 
   async issueCredential(template: CredentialTemplate): Promise<VerifiableCredential> {
+    if (!template.type || !Array.isArray(template.type) || template.type.length === 0) {
+      throw new Error('Credential type is required and must be a non-empty array');
+    }
+
     // Service-specific credential issuance
     const credentialId = `urn:uuid:${this.generateId()}`;
+    const issuer = typeof template.issuer === 'string' ? template.issuer : template.issuer.id;
+    const credentialStatus = await this.allocateCredentialStatus(issuer);
     
-    return {
+    return await this.signServiceCredential({
       '@context': template['@context'] || ['https://www.w3.org/ns/credentials/v2'],
       id: credentialId,
-      type: ['VerifiableCredential', ...template.type],
-      issuer: typeof template.issuer === 'string' ? template.issuer : template.issuer.id,
+      type: ['VerifiableCredential', ...template.type.filter(type => type !== 'VerifiableCredential')],
+      issuer,
       validFrom: template.validFrom || new Date().toISOString(),
-      validUntil: template.validUntil,
+      ...(template.validUntil ? { validUntil: template.validUntil } : {}),
+      ...(credentialStatus ? { credentialStatus } : {}),
       credentialSubject: {
         ...template.credentialSubject,
         serviceId: this.serviceId,
         serviceType: 'api'
-      },
-      proof: {
-        type: 'DataIntegrityProof',
-        cryptosuite: 'eddsa-jcs-2022',
-        created: new Date().toISOString(),
-        verificationMethod: typeof template.issuer === 'string' ? template.issuer : template.issuer.id,
-        proofPurpose: 'assertionMethod',
-        proofValue: 'service-proof-value'
       }
-    };
+    });
   }
 
   async verifyCredential(credential: VerifiableCredential): Promise<ValidationResult> {
@@ -336,6 +644,13 @@ export class ServiceAgent extends BaseAgent {
         const dataIntegrityProof = credential.proof as DataIntegrityProof;
         if (!dataIntegrityProof.verificationMethod) {
           validationErrors.push('Missing verification method');
+        } else if (EDDSA_CRYPTOSUITES.includes(dataIntegrityProof.cryptosuite as EdDSACryptosuite)) {
+          const result = await new DataIntegrityClient().verifyProof(credential, {
+            resolver: this.didResolver
+          });
+          validationErrors.push(...result.errors);
+        } else {
+          warnings.push(`Proof signature not checked: unsupported cryptosuite ${dataIntegrityProof.cryptosuite}`);
         }
       } else if (credential.proof.type === 'JsonWebSignature2020') {
         const jwtProof = credential.proof as JwtProof;
@@ -442,22 +757,25 @@ export class ServiceAgent extends BaseAgent {
     // Create credential directly to avoid overriding serviceType
     const credentialId = `urn:uuid:${this.generateId()}`;
     
-    return {
+    return await this.signServiceCredential({
       '@context': ['https://www.w3.org/ns/credentials/v2'],
       id: credentialId,
       type: ['VerifiableCredential', ...template.type],
       issuer: typeof template.issuer === 'string' ? template.issuer : template.issuer.id,
       validFrom: new Date().toISOString(),
-      credentialSubject: template.credentialSubject,
-      proof: {
-        type: 'DataIntegrityProof',
-        cryptosuite: 'eddsa-jcs-2022',
-        created: new Date().toISOString(),
-        verificationMethod: typeof template.issuer === 'string' ? template.issuer : template.issuer.id,
-        proofPurpose: 'assertionMethod',
-        proofValue: 'service-proof-value'
-      }
-    };
+      credentialSubject: template.credentialSubject
+    });
+  }
+
+  /**
+   * Attach an `eddsa-jcs-2022` Data Integrity proof signed by the issuer DID's key
+   */
+  private async signServiceCredential(credential: VerifiableCredential): Promise<VerifiableCredential> {
+    const issuerDid = typeof credential.issuer === 'string' ? credential.issuer : credential.issuer.id;
+    return await new DataIntegrityClient().addProof(credential, {
+      cryptosuite: 'eddsa-jcs-2022',
+      signer: await this.createDataIntegritySigner(issuerDid)
+    });
   }
 
   async getServiceProfile(): Promise<any> {
@@ -10,8 +10,37 @@ import {
   ValidationResult,
   CredentialTemplate,
   CreateDIDOptions,
-  AgentType
+  AgentType,
+  VerifiablePresentation
 } from '../../types';
+import { PresentationOptions } from '../presentation/types';
+import { PresentationExchangeClient } from '../presentation-exchange/client';
+import { PresentationDefinition, PresentationExchangeEvaluation, PresentationSubmission } from '../presentation-exchange/types';
+import { OID4VCIClient, FetchLike } from '../oid4vci/client';
+import { OID4VPClient } from '../oid4vp/client';
+import { AuthorizationRequest } from '../oid4vp/types';
+import { getPresentationJwt } from '../presentation/utils';
+import { SdJwtVcClient } from '../sd-jwt/client';
+import { DIDPeerNumalgo } from '../plugins/did-methods/did-peer-plugin';
+import { DeviceManager } from '../device/manager';
+import { DevicePairingManager, DevicePairingInitiateOptions, DevicePairingRespondOptions } from '../device/pairing';
+import { DeviceSyncManager } from '../device/sync';
+import { MediationClient, MediationGrant, PickupStatus } from '../didcomm/mediation';
+import { WebSocketDIDCommTransport } from '../didcomm/transports';
+import { IssueCredentialProtocol } from '../didcomm/protocols/issue-credential';
+import { PresentProofProtocol } from '../didcomm/protocols/present-proof';
+import { SecureStorageExchangeRecordStore } from '../didcomm/protocols/store';
+import {
+  DeviceDIDOptions,
+  DeviceDIDResult,
+  DeviceInfo,
+  DevicePairingInvitation,
+  DevicePairingResult,
+  DevicePairingTransport,
+  DeviceRegistryEntry,
+  SasConfirmation
+} from '../device/types';
+import type { DIDDocument } from 'did-resolver';
 
 export interface UserAgentConfig {
   userId: string;
@@ -26,10 +55,60 @@ export interface DIDCreationResult {
   primaryDID: boolean;
 }
 
+export interface PairwiseDIDOptions {
+  /** Who the relationship is with, for the holder's own bookkeeping */
+  label?: string;
+  /** DIDComm endpoint to publish in the DID */
+  serviceEndpoint?: string;
+  /** Mediator routing keys for the endpoint */
+  routingKeys?: string[];
+  /** did:peer numalgo; defaults to 2 */
+  numalgo?: DIDPeerNumalgo;
+}
+
+export interface PairwiseDIDResult {
+  did: string;
+  /** Short form of a numalgo 4 DID */
+  shortFormDid?: string;
+  document: DIDDocument;
+  label?: string;
+  createdAt: string;
+}
+
+/** Mediation kept in secure storage, so a restarted agent keeps its mediator */
+interface MediationRecord {
+  /** Pairwise DID the agent talks to the mediator from */
+  did: string;
+  grant: MediationGrant;
+  /** DIDs registered with the mediator to receive forwarded messages */
+  mediatedDids: string[];
+}
+
+const MEDIATION_RECORD_KEY = 'didcomm-mediation:record';
+/** Pairwise DIDs kept in secure storage, so they are listed again after a restart */
+const PAIRWISE_DIDS_KEY = 'pairwise-dids:records';
+
+export interface AddDeviceResult extends DeviceDIDResult {
+  /** Attestation from the primary DID, when one is set */
+  attestation?: VerifiableCredential;
+}
+
 export class UserAgent extends BaseAgent {
   private userId: string;
   private primaryDID: string | null = null;
   private config: UserAgentConfig;
+  private pairwiseDIDs: Map<string, PairwiseDIDResult> = new Map();
+  private pairwiseDIDsLoaded?: Promise<void>;
+  /** The user's devices, each with its own did:key, attested by the primary DID */
+  protected devices: DeviceManager;
+  protected devicePairing: DevicePairingManager;
+  private deviceSync: Map<string, DeviceSyncManager> = new Map();
+  /** Holder side of Issue Credential 3.0 over DIDComm; exchanges are kept in secure storage */
+  protected issueCredentialProtocol: IssueCredentialProtocol;
+  /** Prover side of Present Proof 3.0 over DIDComm */
+  protected presentProofProtocol: PresentProofProtocol;
+  /** Mediator that receives DIDComm messages for this agent while it is offline */
+  private mediation: { client: MediationClient; record: MediationRecord } | null = null;
 
   constructor(userIdOrConfig: string | UserAgentConfig, encryptionKey?: string) {
     let config: UserAgentConfig;
@@ -51,6 +130,29 @@ export class UserAgent extends BaseAgent {
     );
     this.userId = config.userId;
     this.config = config;
+    this.devices = new DeviceManager({
+      keyManager: this.keyManager,
+      didKey: this.didKey,
+      issueCredential: template => this.signCredential(template, template.issuer),
+      storage: this.secureStorage
+    });
+    this.devicePairing = new DevicePairingManager({ devices: this.devices });
+
+    // Keeps connections to mediators open for live delivery; needs a global WebSocket
+    this.messaging.addTransport(new WebSocketDIDCommTransport({ receive: packed => this.messaging.receive(packed) }));
+    const exchanges = new SecureStorageExchangeRecordStore(this.secureStorage);
+    this.issueCredentialProtocol = new IssueCredentialProtocol({
+      messenger: this.messaging,
+      store: exchanges,
+      verifyCredential: credential => this.verifyCredential(credential),
+      acceptCredential: credential => this.storeCredential(credential)
+    });
+    // Pairwise DIDs are not managed by Veramo, so presentations are signed by the primary DID
+    this.presentProofProtocol = new PresentProofProtocol({
+      messenger: this.messaging,
+      store: exchanges,
+      createPresentation: (definition, binding) => this.createPresentationForDefinition(definition, binding)
+    });
   }
 
   getType(): string {
@@ -93,7 +195,231 @@ export class UserAgent extends BaseAgent {
     }
   }
 
-  async signCredential(credential: VerifiableCredential, issuerDID?: string): Promise<VerifiableCredential> {
+  /**
+   * Mint a fresh did:peer for a single relationship, with its own key agreement and
+   * authentication keys. Private keys are kept in secure storage under their
+   * verification method IDs, and the DID with its label next to them; nothing is published.
+   */
+  async createPairwiseDID(options: PairwiseDIDOptions = {}): Promise<PairwiseDIDResult> {
+    await this.loadPairwiseDIDs();
+    const created = await this.didPeer.createDID({
+      numalgo: options.numalgo,
+      services: options.serviceEndpoint ? [{ uri: options.serviceEndpoint, routingKeys: options.routingKeys }] : []
+    });
+
+    for (const key of created.keys) {
+      await this.secureStorage.storeKey(key.id, new Uint8Array(Buffer.from(JSON.stringify(key.privateKeyJwk), 'utf-8')));
+    }
+
+    const result: PairwiseDIDResult = {
+      did: created.did,
+      ...(created.shortFormDid ? { shortFormDid: created.shortFormDid } : {}),
+      document: created.document,
+      ...(options.label ? { label: options.label } : {}),
+      createdAt: new Date().toISOString()
+    };
+    this.pairwiseDIDs.set(result.did, result);
+    await this.secureStorage.storeKey(
+      PAIRWISE_DIDS_KEY,
+      new Uint8Array(Buffer.from(JSON.stringify(Array.from(this.pairwiseDIDs.values())), 'utf-8'))
+    );
+    return result;
+  }
+
+  async listPairwiseDIDs(): Promise<PairwiseDIDResult[]> {
+    await this.loadPairwiseDIDs();
+    return Array.from(this.pairwiseDIDs.values());
+  }
+
+  /**
+   * Read the pairwise DIDs kept in secure storage, once
+   */
+  private loadPairwiseDIDs(): Promise<void> {
+    if (!this.pairwiseDIDsLoaded) {
+      this.pairwiseDIDsLoaded = (async () => {
+        const stored = await this.secureStorage.retrieveKey(PAIRWISE_DIDS_KEY);
+        const records: PairwiseDIDResult[] = stored ? JSON.parse(Buffer.from(stored).toString('utf-8')) : [];
+        for (const record of records) {
+          this.pairwiseDIDs.set(record.did, record);
+        }
+      })().catch(err => {
+        this.pairwiseDIDsLoaded = undefined;
+        throw err;
+      });
+    }
+    return this.pairwiseDIDsLoaded;
+  }
+
+  /**
+   * Have a mediator receive DIDComm messages for this agent while it is offline, for agents
+   * without a stable inbound endpoint. A pairwise DID with the mediator asks it for mediation.
+   * The grant is kept in secure storage, so after a restart the same mediator is used again
+   * from the same DID, without asking it again.
+   */
+  async useMediator(mediatorDid: string): Promise<MediationGrant> {
+    if (this.mediation?.client.mediatorDid === mediatorDid) {
+      return this.mediation.record.grant;
+    }
+    const stored = await this.secureStorage.retrieveKey(MEDIATION_RECORD_KEY);
+    const previous: MediationRecord | null = stored ? JSON.parse(Buffer.from(stored).toString('utf-8')) : null;
+    if (previous?.grant.mediatorDid === mediatorDid) {
+      this.mediation = { client: new MediationClient({ messenger: this.messaging, did: previous.did, mediatorDid }), record: previous };
+      return previous.grant;
+    }
+
+    const { did } = await this.createPairwiseDID({ label: `mediator ${mediatorDid}` });
+    const client = new MediationClient({ messenger: this.messaging, did, mediatorDid });
+    const grant = await client.requestMediation();
+    this.mediation = { client, record: { did, grant, mediatedDids: [] } };
+    await this.saveMediation();
+    return grant;
+  }
+
+  /**
+   * DIDs registered with the mediator in use
+   */
+  listMediatedDIDs(): string[] {
+    return [...(this.mediation?.record.mediatedDids || [])];
+  }
+
+  /**
+   * Create a pairwise DID whose messages go to the mediator: its endpoint is the mediator's
+   * routing DID, and the DID is registered with the mediator to receive forwarded messages
+   */
+  async createMediatedDID(options: Pick<PairwiseDIDOptions, 'label' | 'numalgo'> = {}): Promise<PairwiseDIDResult> {
+    const { client, record } = this.requireMediation();
+    const result = await this.createPairwiseDID({ ...options, serviceEndpoint: record.grant.routingDids[0] || record.grant.mediatorDid });
+    const [update] = await client.updateKeylist({ add: [result.did] });
+    if (update?.result !== 'success') {
+      throw new Error(`Mediator did not register ${result.did}: ${update?.result || 'no answer'}`);
+    }
+    record.mediatedDids.push(result.did);
+    await this.saveMediation();
+    return result;
+  }
+
+  /**
+   * Collect messages the mediator kept while this agent was offline; they go to the message handlers
+   * @returns how many messages were collected
+   */
+  async pickupMessages(limit?: number): Promise<number> {
+    return this.requireMediation().client.pickup(limit);
+  }
+
+  /**
+   * Have the mediator push messages as they arrive, over a WebSocket to it
+   */
+  async setLiveDelivery(enabled: boolean): Promise<PickupStatus> {
+    return this.requireMediation().client.setLiveDelivery(enabled);
+  }
+
+  getMediationClient(): MediationClient | null {
+    return this.mediation?.client || null;
+  }
+
+  private requireMediation(): { client: MediationClient; record: MediationRecord } {
+    if (!this.mediation) {
+      throw new Error('No mediator in use. Call useMediator() first.');
+    }
+    return this.mediation;
+  }
+
+  private async saveMediation(): Promise<void> {
+    const record = this.requireMediation().record;
+    await this.secureStorage.storeKey(MEDIATION_RECORD_KEY, new Uint8Array(Buffer.from(JSON.stringify(record), 'utf-8')));
+  }
+
+  /**
+   * Give a device (phone, laptop, browser) its own DID and link it to the user with an
+   * attestation from the primary DID. Adding the same device again returns its existing DID.
+   * Device identifiers are fingerprinted with the wallet encryption key unless another is given.
+   */
+  async addDevice(
+    deviceInfo: DeviceInfo,
+    options: Partial<Omit<DeviceDIDOptions, 'deviceInfo'>> = {}
+  ): Promise<AddDeviceResult> {
+    const result = await this.devices.createDeviceDID({
+      method: 'composite',
+      encryptionKey: this.config.encryptionKey,
+      ...options,
+      deviceInfo
+    });
+    if (!this.primaryDID) {
+      return result;
+    }
+
+    const existing = this.devices.getDevice(result.did);
+    if (existing?.attestation && existing.controller === this.primaryDID) {
+      return { ...result, attestation: existing.attestation };
+    }
+    const attestation = await this.devices.issueAttestation(result.did, { issuer: this.primaryDID });
+    return { ...result, attestation };
+  }
+
+  listDevices(status?: DeviceRegistryEntry['status']): DeviceRegistryEntry[] {
+    return this.devices.listDevices({ status });
+  }
+
+  /**
+   * Remove a device, deleting its keys and forgetting any pairing or sync state of it
+   */
+  async removeDevice(did: string): Promise<void> {
+    await this.devices.removeDevice(did);
+    this.devicePairing.unpair(did);
+    this.deviceSync.delete(did);
+  }
+
+  /**
+   * Invite another device to pair with one of the user's devices; `qr` invitations come with a QR code to show
+   */
+  async createDevicePairingInvitation(
+    options: DevicePairingInitiateOptions
+  ): Promise<{ invitation: DevicePairingInvitation; qrCode?: string }> {
+    return this.devicePairing.createInvitation(options);
+  }
+
+  /**
+   * Complete a pairing this agent invited to, once the other device responds on the transport.
+   * `confirmSas` shows the short authentication string and resolves to whether the user confirmed it.
+   */
+  async completeDevicePairing(
+    pairingId: string,
+    transport: DevicePairingTransport,
+    confirmSas: SasConfirmation
+  ): Promise<DevicePairingResult> {
+    return this.devicePairing.initiate(pairingId, transport, confirmSas);
+  }
+
+  /**
+   * Pair with the device that issued a scanned or received invitation
+   */
+  async acceptDevicePairingInvitation(
+    invitation: DevicePairingInvitation | string,
+    transport: DevicePairingTransport,
+    options: DevicePairingRespondOptions,
+    confirmSas: SasConfirmation
+  ): Promise<DevicePairingResult> {
+    return this.devicePairing.respond(invitation, transport, options, confirmSas);
+  }
+
+  /**
+   * Sync of this agent's credentials and keys between one of the user's devices and the devices it is paired with
+   */
+  getDeviceSync(localDeviceDID: string): DeviceSyncManager {
+    let sync = this.deviceSync.get(localDeviceDID);
+    if (!sync) {
+      sync = new DeviceSyncManager({
+        localDeviceDID,
+        devices: this.devices,
+        pairing: this.devicePairing,
+        storage: this.secureStorage
+      });
+      this.deviceSync.set(localDeviceDID, sync);
+    }
+    return sync;
+  }
+
+  async signCredential(credential: CredentialTemplate, issuerDID?: string): Promise<VerifiableCredential> {
     const signingDID = issuerDID || this.primaryDID;
     if (!signingDID) {
       throw new Error('No signing DID available. Set a primary DID or provide an issuer DID.');
@@ -131,8 +457,17 @@ export class UserAgent extends BaseAgent {
       if (!this.agent) {
         throw new Error('Agent not initialized');
       }
-      // Use the agent's data store to retrieve credentials
-      const credentials = await this.agent.dataStoreORMGetVerifiableCredentials();
+      // Credentials held in secure storage, plus any in a Veramo data store if one is configured
+      const credentials = await this.listCredentials();
+      if (this.agent.availableMethods().includes('dataStoreORMGetVerifiableCredentials')) {
+        const stored = await this.agent.dataStoreORMGetVerifiableCredentials();
+        const knownIds = new Set(credentials.map(credential => credential.id));
+        for (const { verifiableCredential } of stored) {
+          if (!knownIds.has(verifiableCredential.id)) {
+            credentials.push(verifiableCredential as VerifiableCredential);
+          }
+        }
+      }
       return credentials;
     } catch (err) {
       const error = err as Error;
@@ -140,6 +475,177 @@ export class UserAgent extends BaseAgent {
     }
   }
 
+  /**
+   * Create a presentation signed by the given holder, defaulting to the primary DID
+   */
+  async createPresentation(
+    credentials: VerifiableCredential[],
+    options: PresentationOptions
+  ): Promise<VerifiablePresentation> {
+    const holder = options.holder || this.primaryDID;
+    if (!holder) {
+      throw new Error('No holder DID available. Set a primary DID or provide a holder DID.');
+    }
+    return await super.createPresentation(credentials, { ...options, holder });
+  }
+
+  /**
+   * Wrap credentials held in secure storage into a presentation for a verifier
+   */
+  async presentStoredCredentials(
+    credentialIds: string[],
+    options: PresentationOptions
+  ): Promise<VerifiablePresentation> {
+    const credentials: VerifiableCredential[] = [];
+    for (const credentialId of credentialIds) {
+      const credential = await this.getCredential(credentialId);
+      if (!credential) {
+        throw new Error(`Credential not found: ${credentialId}`);
+      }
+      credentials.push(credential);
+    }
+    return await this.createPresentation(credentials, options);
+  }
+
+  /**
+   * Find stored credentials that satisfy each input descriptor of a presentation definition
+   */
+  async evaluatePresentationDefinition(definition: PresentationDefinition): Promise<PresentationExchangeEvaluation> {
+    const credentials = await this.getStoredCredentials();
+    return new PresentationExchangeClient().evaluate(definition, credentials);
+  }
+
+  /**
+   * Answer a presentation definition with a presentation and its presentation submission.
+   * @param selection optional descriptor ID -> credential ID choices; the first candidate is used otherwise
+   */
+  async createPresentationForDefinition(
+    definition: PresentationDefinition,
+    options: PresentationOptions,
+    selection?: Record<string, string>
+  ): Promise<{ presentation: VerifiablePresentation; presentationSubmission: PresentationSubmission }> {
+    const client = new PresentationExchangeClient();
+    const evaluation = client.evaluate(definition, await this.getStoredCredentials());
+
+    let submission;
+    if (selection) {
+      const chosen: Record<string, VerifiableCredential> = {};
+      for (const [descriptorId, credentialId] of Object.entries(selection)) {
+        const match = evaluation.matches.find(m => m.descriptorId === descriptorId);
+        const credential = match?.candidates.find(c => c.id === credentialId);
+        if (!credential) {
+          throw new Error(`Credential ${credentialId} is not a candidate for input descriptor ${descriptorId}`);
+        }
+        chosen[descriptorId] = credential;
+      }
+      submission = client.createSubmission(definition, chosen);
+    } else {
+      submission = client.createSubmissionFromEvaluation(definition, evaluation);
+    }
+
+    const presentation = await this.createPresentation(submission.credentials, options);
+    return { presentation, presentationSubmission: submission.presentationSubmission };
+  }
+
+  /**
+   * Answer an OID4VP authorization request (`openid4vp://` URI): verify the request object,
+   * select matching credentials, and post the VP token to the verifier
+   * @returns the authorization request that was answered and the verifier's response
+   */
+  async respondToPresentationRequest(
+    requestUri: string,
+    options: { selection?: Record<string, string>; fetch?: FetchLike } = {}
+  ): Promise<{ request: AuthorizationRequest; response: Record<string, any> }> {
+    try {
+      const client = new OID4VPClient(this.didResolver, options.fetch);
+      const request = await client.parseAuthorizationRequest(requestUri);
+
+      const { presentation, presentationSubmission } = await this.createPresentationForDefinition(
+        request.presentation_definition,
+        { challenge: request.nonce, domain: request.client_id },
+        options.selection
+      );
+
+      const vpToken = getPresentationJwt(presentation) || presentation;
+      const response = await client.submitAuthorizationResponse(request, vpToken, presentationSubmission);
+      return { request, response };
+    } catch (err) {
+      const error = err as Error;
+      throw new Error(`Failed to respond to presentation request: ${error.message}`);
+    }
+  }
+
+  /**
+   * Store a received SD-JWT VC; the compact form is kept in the credential proof
+   */
+  async storeSdJwtCredential(sdJwt: string): Promise<VerifiableCredential> {
+    const credential = new SdJwtVcClient().toCredential(sdJwt);
+    await this.storeCredential(credential);
+    return credential;
+  }
+
+  /**
+   * Present a stored SD-JWT VC (by credential id) or a compact SD-JWT, revealing only
+   * the requested claims and binding the presentation to the verifier's nonce and audience
+   * with a key-binding JWT signed by the holder DID (the primary DID unless given)
+   */
+  async presentSdJwtCredential(
+    credentialIdOrSdJwt: string,
+    options: { disclose: string[]; nonce: string; audience: string; holderDid?: string }
+  ): Promise<string> {
+    let sdJwt = credentialIdOrSdJwt;
+    if (!sdJwt.includes('~')) {
+      const credential = await this.getCredential(credentialIdOrSdJwt);
+      const proof = credential?.proof as { sdJwt?: string } | undefined;
+      if (!proof?.sdJwt) {
+        throw new Error(`No SD-JWT credential found with id ${credentialIdOrSdJwt}`);
+      }
+      sdJwt = proof.sdJwt;
+    }
+
+    const client = new SdJwtVcClient();
+    const cnfKid: string | undefined = client.decode(sdJwt).payload.cnf?.kid;
+    const holderDid = options.holderDid || cnfKid?.split('#')[0] || this.primaryDID;
+    if (!holderDid) {
+      throw new Error('No holder DID available. Set a primary DID or provide a holder DID.');
+    }
+
+    const signer = await this.createJwtSigner(holderDid);
+    return await client.present(sdJwt, {
+      disclose: options.disclose,
+      keyBinding: { signer: cnfKid ? { ...signer, kid: cnfKid } : signer, nonce: options.nonce, audience: options.audience }
+    });
+  }
+
+  /**
+   * Redeem an OID4VCI credential offer (offer URI or credential transfer QR payload)
+   * and store the issued credential, bound to the primary DID unless another holder is given
+   */
+  async acceptCredentialOffer(
+    offer: string,
+    options: { txCode?: string; credentialConfigurationId?: string; holderDid?: string; fetch?: FetchLike } = {}
+  ): Promise<VerifiableCredential> {
+    const holderDid = options.holderDid || this.primaryDID;
+    if (!holderDid) {
+      throw new Error('No holder DID available. Set a primary DID or provide a holder DID.');
+    }
+
+    try {
+      const signer = await this.createJwtSigner(holderDid);
+      const received = await new OID4VCIClient(this.didResolver, options.fetch).acceptCredentialOffer(offer, {
+        signer,
+        txCode: options.txCode,
+        credentialConfigurationId: options.credentialConfigurationId
+      });
+
+      await this.storeCredential(received.credential);
+      return received.credential;
+    } catch (err) {
+      const error = err as Error;
+      throw new Error(`Failed to accept credential offer: ${error.message}`);
+    }
+  }
+
   async exportWallet(passphrase: string): Promise<string> {
     try {
       console.log(`Exporting wallet for user: ${this.agentId}`)
@@ -166,13 +672,40 @@ export class UserAgent extends BaseAgent {
     }
   }
 
+  /**
+   * Holder side of Issue Credential 3.0: propose credentials and answer offers from issuers
+   */
+  getIssueCredentialProtocol(): IssueCredentialProtocol {
+    return this.issueCredentialProtocol;
+  }
+
+  /**
+   * Prover side of Present Proof 3.0: answer presentation requests from verifiers
+   */
+  getPresentProofProtocol(): PresentProofProtocol {
+    return this.presentProofProtocol;
+  }
+
   getCapabilities(): string[] {
     return [
       'create-did',
       'import-did',
+      'pairwise-did',
+      'device-management',
+      'device-pairing',
+      'device-sync',
+      'didcomm-messaging',
+      'didcomm-mediation',
+      'issue-credential-v3',
+      'present-proof-v3',
       'issue-credential',
       'verify-credential',
       'store-credential',
+      'create-presentation',
+      'presentation-exchange',
+      'oid4vci-wallet',
+      'oid4vp-holder',
+      'sd-jwt-vc',
       'export-backup',
       'biometric-auth'
     ];
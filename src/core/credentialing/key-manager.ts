@@ -131,7 +131,8 @@ export class CredentialKeyManager {
   }
 
   /**
-   * Create a cross-device sync package with multiple credential bundles
+   * Create a cross-device sync package with multiple credential bundles.
+   * For incremental, encrypted sync between paired devices use DeviceSyncManager.
    */
   async createCrossDeviceSyncData(
     credentialIds: string[],
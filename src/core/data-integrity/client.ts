@@ -0,0 +1,302 @@
+/**
+ * Data Integrity Client
+ *
+ * Creates and verifies W3C Data Integrity proofs with the `eddsa-rdfc-2022`
+ * (RDF Dataset Canonicalization) and `eddsa-jcs-2022` (JSON Canonicalization
+ * Scheme) cryptosuites. JSON-LD processing only uses the offline document
+ * loader, so verification never fetches remote contexts.
+ */
+
+import crypto from 'crypto';
+import jsonld from 'jsonld';
+import canonicalize from 'canonicalize';
+import { base58btc } from 'multiformats/bases/base58';
+import type { DIDDocument, VerificationMethod } from 'did-resolver';
+import { CREDENTIALS_V2_URL } from './contexts/credentials-v2';
+import { DATA_INTEGRITY_V2_URL } from './contexts/data-integrity-v2';
+import { defaultDocumentLoader } from './document-loader';
+import {
+  CreateProofOptions,
+  DataIntegrityError,
+  DataIntegrityErrorCode,
+  DataIntegrityVerificationResult,
+  DocumentLoader,
+  EDDSA_CRYPTOSUITES,
+  EdDSACryptosuite,
+  EdDSAProof,
+  VerifyProofOptions
+} from './types';
+
+/** Multicodec prefix of an Ed25519 public key (0xed, varint encoded) */
+const ED25519_MULTICODEC_PREFIX = [0xed, 0x01];
+
+export class DataIntegrityClient {
+  private documentLoader: DocumentLoader;
+
+  constructor(options: { documentLoader?: DocumentLoader } = {}) {
+    this.documentLoader = options.documentLoader || defaultDocumentLoader;
+  }
+
+  /**
+   * Secure a document with an EdDSA Data Integrity proof
+   * @returns a copy of the document with the proof attached
+   */
+  async addProof<T extends Record<string, any>>(document: T, options: CreateProofOptions): Promise<T & { proof: EdDSAProof }> {
+    this.assertCryptosuite(options.cryptosuite);
+
+    const unsecured = structuredClone(document) as Record<string, any>;
+    delete unsecured.proof;
+    if (options.cryptosuite === 'eddsa-rdfc-2022') {
+      unsecured['@context'] = this.withDataIntegrityContext(unsecured['@context']);
+    }
+
+    const proof: Record<string, any> = {
+      // JCS proofs carry the document context, since no JSON-LD expansion binds them together
+      ...(options.cryptosuite === 'eddsa-jcs-2022' && unsecured['@context'] ? { '@context': unsecured['@context'] } : {}),
+      type: 'DataIntegrityProof',
+      cryptosuite: options.cryptosuite,
+      created: options.created || new Date().toISOString().replace(/\.\d{3}Z$/, 'Z'),
+      verificationMethod: options.signer.verificationMethod,
+      proofPurpose: options.proofPurpose || 'assertionMethod'
+    };
+    if (options.expires) {
+      proof.expires = options.expires;
+    }
+    if (options.challenge) {
+      proof.challenge = options.challenge;
+    }
+    if (options.domain) {
+      proof.domain = options.domain;
+    }
+
+    const hashData = await this.hashData(unsecured, proof, options.cryptosuite);
+    const signature = await options.signer.sign(hashData);
+    proof.proofValue = base58btc.encode(signature);
+
+    return { ...unsecured, proof } as T & { proof: EdDSAProof };
+  }
+
+  /**
+   * Verify the EdDSA Data Integrity proof(s) of a secured document against the
+   * verification method resolved from its controller DID
+   */
+  async verifyProof(document: Record<string, any>, options: VerifyProofOptions): Promise<DataIntegrityVerificationResult> {
+    const { proof, ...unsecured } = document;
+    if (!proof) {
+      return { verified: false, errors: ['Document has no proof'] };
+    }
+
+    const proofs: EdDSAProof[] = Array.isArray(proof) ? proof : [proof];
+    const errors: string[] = [];
+    for (const item of proofs) {
+      errors.push(...(await this.verifySingleProof(unsecured, item, options)));
+    }
+
+    return {
+      verified: errors.length === 0,
+      errors,
+      verificationMethod: proofs[0]?.verificationMethod,
+      cryptosuite: proofs[0]?.cryptosuite
+    };
+  }
+
+  /**
+   * Canonicalize a document with the transformation of the given cryptosuite
+   */
+  async canonicalize(document: Record<string, any>, cryptosuite: EdDSACryptosuite): Promise<string> {
+    if (cryptosuite === 'eddsa-jcs-2022') {
+      const serialized = canonicalize(document);
+      if (serialized === undefined) {
+        throw new DataIntegrityError(DataIntegrityErrorCode.CANONICALIZATION_FAILED, 'Document cannot be JCS canonicalized');
+      }
+      return serialized;
+    }
+
+    try {
+      return await jsonld.canonize(document, {
+        algorithm: 'RDFC-1.0',
+        format: 'application/n-quads',
+        documentLoader: this.documentLoader,
+        // Undefined terms would be silently dropped from the signed data
+        safe: true
+      });
+    } catch (err) {
+      const cause = (err as any)?.details?.cause;
+      if (cause instanceof DataIntegrityError) {
+        throw cause;
+      }
+      const event = (err as any)?.details?.event;
+      const detail = event ? ` (${event.code}: ${JSON.stringify(event.details)})` : '';
+      throw new DataIntegrityError(
+        DataIntegrityErrorCode.CANONICALIZATION_FAILED,
+        `RDF canonicalization failed: ${(err as Error).message}${detail}`
+      );
+    }
+  }
+
+  private async verifySingleProof(
+    unsecured: Record<string, any>,
+    proof: EdDSAProof,
+    options: VerifyProofOptions
+  ): Promise<string[]> {
+    const errors: string[] = [];
+    if (proof?.type !== 'DataIntegrityProof') {
+      return [`Unsupported proof type: ${proof?.type}`];
+    }
+    if (!EDDSA_CRYPTOSUITES.includes(proof.cryptosuite as EdDSACryptosuite)) {
+      return [`Unsupported cryptosuite: ${proof.cryptosuite}`];
+    }
+    if (!proof.proofValue || !proof.verificationMethod) {
+      return ['Proof is missing proofValue or verificationMethod'];
+    }
+
+    const expectedPurpose = options.expectedProofPurpose || 'assertionMethod';
+    if (proof.proofPurpose !== expectedPurpose) {
+      errors.push(`Proof purpose ${proof.proofPurpose} does not match expected ${expectedPurpose}`);
+    }
+    if (proof.created && Number.isNaN(Date.parse(proof.created))) {
+      errors.push('Proof created is not a valid dateTime');
+    }
+    if (proof.expires && Date.parse(proof.expires) < Date.now()) {
+      errors.push('Proof has expired');
+    }
+    if (proof['@context'] && !this.startsWithContext(unsecured['@context'], proof['@context'])) {
+      errors.push('Proof @context does not match the document @context');
+    }
+    if (options.challenge !== undefined && proof.challenge !== options.challenge) {
+      errors.push('Proof challenge does not match');
+    }
+    if (options.domain !== undefined && proof.domain !== options.domain) {
+      errors.push('Proof domain does not match');
+    }
+
+    let publicKey: crypto.KeyObject;
+    try {
+      publicKey = await this.resolvePublicKey(proof.verificationMethod, proof.proofPurpose, options);
+    } catch (err) {
+      return [...errors, (err as Error).message];
+    }
+
+    let signature: Uint8Array;
+    try {
+      signature = base58btc.decode(proof.proofValue);
+    } catch {
+      return [...errors, 'proofValue is not a base58btc multibase value'];
+    }
+
+    const proofConfig: Record<string, any> = { ...proof };
+    delete proofConfig.proofValue;
+    try {
+      const hashData = await this.hashData(unsecured, proofConfig, proof.cryptosuite as EdDSACryptosuite);
+      if (signature.length !== 64 || !crypto.verify(null, hashData, publicKey, signature)) {
+        errors.push('Proof signature is invalid');
+      }
+    } catch (err) {
+      errors.push((err as Error).message);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Hash the proof configuration and the transformed document, and concatenate them
+   * (proof configuration hash first), as the EdDSA cryptosuites specify
+   */
+  private async hashData(
+    unsecured: Record<string, any>,
+    proofConfig: Record<string, any>,
+    cryptosuite: EdDSACryptosuite
+  ): Promise<Uint8Array> {
+    const config = !proofConfig['@context'] && unsecured['@context']
+      ? { '@context': unsecured['@context'], ...proofConfig }
+      : proofConfig;
+
+    const [canonicalConfig, canonicalDocument] = await Promise.all([
+      this.canonicalize(config, cryptosuite),
+      this.canonicalize(unsecured, cryptosuite)
+    ]);
+
+    return Buffer.concat([
+      crypto.createHash('sha256').update(canonicalConfig, 'utf-8').digest(),
+      crypto.createHash('sha256').update(canonicalDocument, 'utf-8').digest()
+    ]);
+  }
+
+  private async resolvePublicKey(
+    verificationMethodId: string,
+    proofPurpose: string,
+    options: VerifyProofOptions
+  ): Promise<crypto.KeyObject> {
+    const invalid = (message: string) =>
+      new DataIntegrityError(DataIntegrityErrorCode.INVALID_VERIFICATION_METHOD, message);
+
+    const did = verificationMethodId.split('#')[0];
+    const { didDocument } = await options.resolver.resolve(did);
+    if (!didDocument) {
+      throw invalid(`Could not resolve ${did}`);
+    }
+
+    const absolute = (id: string) => (id.startsWith('#') ? `${did}${id}` : id);
+    const method = (didDocument.verificationMethod || []).find(vm => absolute(vm.id) === verificationMethodId);
+    if (!method) {
+      throw invalid(`Verification method ${verificationMethodId} not found in DID document`);
+    }
+
+    const relationship = (didDocument as DIDDocument & Record<string, any>)[proofPurpose] as (string | VerificationMethod)[] | undefined;
+    const authorized = (relationship || []).some(entry => absolute(typeof entry === 'string' ? entry : entry.id) === verificationMethodId);
+    if (!authorized) {
+      throw invalid(`Verification method ${verificationMethodId} is not authorized for ${proofPurpose}`);
+    }
+
+    return this.toEd25519PublicKey(method);
+  }
+
+  private toEd25519PublicKey(method: VerificationMethod): crypto.KeyObject {
+    let raw: Uint8Array | undefined;
+    if (method.publicKeyJwk) {
+      if (method.publicKeyJwk.kty !== 'OKP' || method.publicKeyJwk.crv !== 'Ed25519') {
+        throw new DataIntegrityError(DataIntegrityErrorCode.INVALID_VERIFICATION_METHOD, 'Verification method is not an Ed25519 key');
+      }
+      return crypto.createPublicKey({ key: method.publicKeyJwk as crypto.JsonWebKey, format: 'jwk' });
+    }
+    if (method.publicKeyMultibase) {
+      const decoded = base58btc.decode(method.publicKeyMultibase);
+      const hasPrefix = decoded[0] === ED25519_MULTICODEC_PREFIX[0] && decoded[1] === ED25519_MULTICODEC_PREFIX[1];
+      raw = hasPrefix ? decoded.slice(2) : undefined;
+    } else if (method.publicKeyBase58) {
+      raw = base58btc.baseDecode(method.publicKeyBase58);
+    }
+    if (!raw || raw.length !== 32) {
+      throw new DataIntegrityError(DataIntegrityErrorCode.INVALID_VERIFICATION_METHOD, 'Verification method is not an Ed25519 key');
+    }
+
+    return crypto.createPublicKey({
+      key: { kty: 'OKP', crv: 'Ed25519', x: Buffer.from(raw).toString('base64url') },
+      format: 'jwk'
+    });
+  }
+
+  /**
+   * VC 2.0 documents already define DataIntegrityProof; older ones need the Data Integrity context
+   */
+  private withDataIntegrityContext(context: any): any {
+    const contexts = context === undefined ? [] : Array.isArray(context) ? context : [context];
+    if (contexts.includes(CREDENTIALS_V2_URL) || contexts.includes(DATA_INTEGRITY_V2_URL)) {
+      return context;
+    }
+    return [...contexts, DATA_INTEGRITY_V2_URL];
+  }
+
+  private startsWithContext(documentContext: any, proofContext: any): boolean {
+    const toArray = (context: any) => (Array.isArray(context) ? context : [context]);
+    const expected = toArray(proofContext);
+    const actual = toArray(documentContext);
+    return expected.every((context, index) => JSON.stringify(context) === JSON.stringify(actual[index]));
+  }
+
+  private assertCryptosuite(cryptosuite: string): void {
+    if (!EDDSA_CRYPTOSUITES.includes(cryptosuite as EdDSACryptosuite)) {
+      throw new DataIntegrityError(DataIntegrityErrorCode.UNSUPPORTED_CRYPTOSUITE, `Unsupported cryptosuite: ${cryptosuite}`);
+    }
+  }
+}
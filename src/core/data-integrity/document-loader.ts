@@ -0,0 +1,45 @@
+/**
+ * Offline JSON-LD Document Loader
+ *
+ * Serves pinned copies of the VC, DID, Data Integrity and Multikey contexts.
+ * Any other URL is rejected, so canonicalization never reaches the network and
+ * a document cannot change meaning through a context fetched at verification time.
+ */
+
+import { CREDENTIALS_V1_URL, credentialsV1Context } from './contexts/credentials-v1';
+import { CREDENTIALS_V2_URL, credentialsV2Context } from './contexts/credentials-v2';
+import { DATA_INTEGRITY_V2_URL, dataIntegrityV2Context } from './contexts/data-integrity-v2';
+import { DID_V1_URL, didV1Context } from './contexts/did-v1';
+import { ED25519_2020_V1_URL, ed25519Signature2020V1Context } from './contexts/ed25519-2020-v1';
+import { MULTIKEY_V1_URL, multikeyV1Context } from './contexts/multikey-v1';
+import { DataIntegrityError, DataIntegrityErrorCode, DocumentLoader, DocumentLoaderOptions } from './types';
+
+export const PINNED_CONTEXTS: Readonly<Record<string, Record<string, any>>> = Object.freeze({
+  [CREDENTIALS_V1_URL]: credentialsV1Context,
+  [CREDENTIALS_V2_URL]: credentialsV2Context,
+  [DATA_INTEGRITY_V2_URL]: dataIntegrityV2Context,
+  [DID_V1_URL]: didV1Context,
+  [ED25519_2020_V1_URL]: ed25519Signature2020V1Context,
+  [MULTIKEY_V1_URL]: multikeyV1Context
+});
+
+/**
+ * Create a document loader over the pinned contexts plus any caller-supplied ones
+ */
+export function createDocumentLoader(options: DocumentLoaderOptions = {}): DocumentLoader {
+  const contexts = { ...PINNED_CONTEXTS, ...(options.contexts || {}) };
+
+  return async (url: string) => {
+    const document = contexts[url];
+    if (!document) {
+      throw new DataIntegrityError(
+        DataIntegrityErrorCode.CONTEXT_NOT_ALLOWED,
+        `JSON-LD context is not pinned and remote contexts are not allowed: ${url}`
+      );
+    }
+    // jsonld.js may cache and annotate documents; hand out a copy
+    return { contextUrl: null, documentUrl: url, document: structuredClone(document) };
+  };
+}
+
+export const defaultDocumentLoader: DocumentLoader = createDocumentLoader();
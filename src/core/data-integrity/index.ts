@@ -0,0 +1,32 @@
+/**
+ * Data Integrity Module - Barrel Export
+ *
+ * This module implements W3C Data Integrity proofs with the `eddsa-rdfc-2022`
+ * and `eddsa-jcs-2022` cryptosuites, backed by an offline document loader that
+ * serves pinned VC 2.0, DID and Data Integrity contexts.
+ *
+ * @example
+ * ```typescript
+ * const client = new DataIntegrityClient()
+ * const secured = await client.addProof(credential, { cryptosuite: 'eddsa-rdfc-2022', signer })
+ * const { verified } = await client.verifyProof(secured, { resolver })
+ * ```
+ */
+
+export { DataIntegrityClient } from './client.js';
+export { createDocumentLoader, defaultDocumentLoader, PINNED_CONTEXTS } from './document-loader.js';
+
+export { EDDSA_CRYPTOSUITES, DataIntegrityError, DataIntegrityErrorCode } from './types.js';
+
+export type {
+  EdDSACryptosuite,
+  EdDSAProof,
+  ProofPurposeValue,
+  RemoteDocument,
+  DocumentLoader,
+  DocumentLoaderOptions,
+  DataIntegritySigner,
+  CreateProofOptions,
+  VerifyProofOptions,
+  DataIntegrityVerificationResult
+} from './types.js';
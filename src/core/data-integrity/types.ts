@@ -0,0 +1,91 @@
+/**
+ * Data Integrity Types
+ *
+ * Data model for W3C Data Integrity proofs created with the EdDSA cryptosuites
+ * (`eddsa-rdfc-2022` and `eddsa-jcs-2022`).
+ */
+
+import type { Resolvable } from 'did-resolver';
+import { DataIntegrityProof } from '../../types';
+
+export type EdDSACryptosuite = 'eddsa-rdfc-2022' | 'eddsa-jcs-2022';
+
+export const EDDSA_CRYPTOSUITES: EdDSACryptosuite[] = ['eddsa-rdfc-2022', 'eddsa-jcs-2022'];
+
+export type ProofPurposeValue = DataIntegrityProof['proofPurpose'];
+
+export interface RemoteDocument {
+  contextUrl: string | null;
+  documentUrl: string;
+  document: Record<string, any>;
+}
+
+/** JSON-LD document loader, as accepted by jsonld.js */
+export type DocumentLoader = (url: string) => Promise<RemoteDocument>;
+
+export interface DocumentLoaderOptions {
+  /** Additional pinned contexts, keyed by URL */
+  contexts?: Record<string, Record<string, any>>;
+}
+
+/** Signs the proof hash with the Ed25519 key of a verification method */
+export interface DataIntegritySigner {
+  /** DID URL of the verification method */
+  verificationMethod: string;
+  sign(data: Uint8Array): Promise<Uint8Array>;
+}
+
+export interface CreateProofOptions {
+  cryptosuite: EdDSACryptosuite;
+  signer: DataIntegritySigner;
+  proofPurpose?: ProofPurposeValue;
+  /** Defaults to now */
+  created?: string;
+  expires?: string;
+  challenge?: string;
+  domain?: string;
+}
+
+export interface VerifyProofOptions {
+  /** Resolves the controller DID of the proof's verification method */
+  resolver: Resolvable;
+  expectedProofPurpose?: ProofPurposeValue;
+  challenge?: string;
+  domain?: string;
+}
+
+export interface DataIntegrityVerificationResult {
+  verified: boolean;
+  errors: string[];
+  verificationMethod?: string;
+  cryptosuite?: string;
+}
+
+/** A Data Integrity proof as produced by this module (optional properties included) */
+export type EdDSAProof = DataIntegrityProof & {
+  '@context'?: string | string[];
+  expires?: string;
+  challenge?: string;
+  domain?: string;
+};
+
+export enum DataIntegrityErrorCode {
+  UNSUPPORTED_CRYPTOSUITE = 'UNSUPPORTED_CRYPTOSUITE',
+  CONTEXT_NOT_ALLOWED = 'CONTEXT_NOT_ALLOWED',
+  CANONICALIZATION_FAILED = 'CANONICALIZATION_FAILED',
+  INVALID_PROOF = 'INVALID_PROOF',
+  INVALID_VERIFICATION_METHOD = 'INVALID_VERIFICATION_METHOD'
+}
+
+/**
+ * Data Integrity error carrying a machine readable code
+ */
+export class DataIntegrityError extends Error {
+  constructor(
+    public code: DataIntegrityErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'DataIntegrityError';
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Device Module - Barrel Export
+ *
+ * This module manages a user's devices as distinct identities linked to the
+ * user's primary DID by device attestation credentials.
+ *
+ * @example
+ * ```typescript
+ * const devices = new DeviceManager({ keyManager, issueCredential })
+ * const { did } = await devices.createDeviceDID({ method: 'hardware', deviceInfo })
+ * await devices.issueAttestation(did, { issuer: primaryDid })
+ *
+ * const pairing = new DevicePairingManager({ devices })
+ * const { invitation, qrCode } = await pairing.createInvitation({ localDeviceDID: did, method: 'qr', requireAuth: true, timeout: 120000 })
+ * const result = await pairing.initiate(invitation.pairingId, transport, sas => confirmWithUser(sas))
+ *
+ * const sync = new DeviceSyncManager({ localDeviceDID: did, devices, pairing, storage })
+ * await sync.syncTo(result.remoteDevice.did, chunk => sendToPeer(chunk))
+ * ```
+ */
+
+export { DeviceManager } from './manager.js';
+export { DevicePairingManager, BluetoothPairingTransport, parseDevicePairingInvitation } from './pairing.js';
+export type { DevicePairingInitiateOptions, DevicePairingRespondOptions, DevicePairingTokenPayload } from './pairing.js';
+export { DeviceSyncManager } from './sync.js';
+
+export type {
+  DeviceIdentifier,
+  DeviceCapabilities,
+  DeviceMetadata,
+  DeviceInfo,
+  DeviceDIDOptions,
+  DeviceDIDResult,
+  DeviceDiscoveryOptions,
+  DiscoveredDevice,
+  DevicePairingOptions,
+  DevicePairingResult,
+  DevicePairingInvitation,
+  DevicePairingMessage,
+  DevicePairingTransport,
+  SasConfirmation,
+  DevicePairingManagerOptions,
+  DeviceMessage,
+  DeviceCommunicationChannel,
+  DeviceKeyMapping,
+  KeySyncOptions,
+  KeySyncResult,
+  DeviceRegistryEntry,
+  DeviceAttestationTemplate,
+  DeviceManagerOptions,
+  DeviceAttestationOptions,
+  SyncItemKind,
+  VersionVector,
+  SyncChange,
+  SyncChangeSet,
+  SyncEnvelope,
+  SyncConflict,
+  SyncResult,
+  SyncReceipt,
+  SyncableStorage,
+  DeviceSyncManagerOptions
+} from './types.js';
@@ -0,0 +1,490 @@
+/**
+ * Device Manager
+ *
+ * Manages a user's devices (phone, laptop, browser, ...) as distinct but linked
+ * identities. Each device gets a did:key for a key held in the KeyManager; the
+ * DID is stable for a device because its key is derived from a seed kept in
+ * secure storage and a keyed hash of the device identifiers, which are never
+ * stored or disclosed themselves. A removed device gets a new key, and DID,
+ * when it is added again.
+ *
+ * The user's primary DID links a device to the user by issuing it a device
+ * attestation credential.
+ *
+ * @see architecture/0024-device-derived-did-generation.md
+ */
+
+import * as crypto from 'crypto';
+import { KeyAlgorithm } from '../key-management/types';
+import { DIDKeyPlugin } from '../plugins/did-methods/did-key-plugin';
+import { VerifiableCredential } from '../../types';
+import {
+  DeviceAttestationOptions,
+  DeviceAttestationTemplate,
+  DeviceDIDOptions,
+  DeviceDIDResult,
+  DeviceIdentifier,
+  DeviceInfo,
+  DeviceKeyMapping,
+  DeviceManagerOptions,
+  DeviceRegistryEntry
+} from './types';
+
+type DeviceKeyType = DeviceKeyMapping['keyType'];
+
+const IDENTIFIERS: Record<DeviceDIDOptions['method'], (keyof DeviceIdentifier)[]> = {
+  device: ['deviceId', 'platformId'],
+  bluetooth: ['bluetoothId'],
+  hardware: ['hardwareId'],
+  composite: ['bluetoothId', 'deviceId', 'hardwareId', 'platformId']
+};
+
+/** Master keys decrypt with the X25519 key agreement key their did:key derives */
+const DEFAULT_PERMISSIONS: Record<DeviceKeyType, DeviceKeyMapping['permissions']> = {
+  master: { sign: true, encrypt: false, decrypt: true, export: false, rotate: true },
+  session: { sign: true, encrypt: true, decrypt: true, export: false, rotate: false },
+  backup: { sign: false, encrypt: true, decrypt: true, export: true, rotate: false },
+  recovery: { sign: true, encrypt: false, decrypt: false, export: true, rotate: true }
+};
+
+const CREDENTIALS_CONTEXT = 'https://www.w3.org/ns/credentials/v2';
+/** PKCS#8 prefix of a raw 32 byte X25519 private key */
+const X25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b656e04220420', 'hex');
+/** PKCS#8 prefix of a raw 32 byte Ed25519 private key */
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+
+/** Secure storage key of the seed device keys are derived from; it is never synced */
+export const DEVICE_SEED_KEY = 'device-keys:seed';
+
+interface DeviceKeyState {
+  seed: Buffer;
+  /** Times a device was removed, by fingerprint; its next key is derived for the next generation */
+  generations: Record<string, number>;
+}
+
+/** Curves device keys can be derived on, with their group order */
+const DERIVABLE_EC_KEYS: Partial<Record<KeyAlgorithm, { crv: string; namedCurve: string; order: bigint }>> = {
+  [KeyAlgorithm.SECP256K1]: {
+    crv: 'secp256k1',
+    namedCurve: 'secp256k1',
+    order: BigInt('0xfffffffffffffffffffffffffffffffebaaedce6af48a03bbfd25e8cd0364141')
+  },
+  [KeyAlgorithm.P256]: {
+    crv: 'P-256',
+    namedCurve: 'prime256v1',
+    order: BigInt('0xffffffff00000000ffffffffffffffffbce6faada7179e84f3b9cac2fc632551')
+  }
+};
+
+export class DeviceManager {
+  private devices: Map<string, DeviceRegistryEntry> = new Map();
+  /** Fingerprint to device DID */
+  private fingerprints: Map<string, string> = new Map();
+  private keyMappings: Map<string, DeviceKeyMapping[]> = new Map();
+  private didKey: DIDKeyPlugin;
+  private keyState?: Promise<DeviceKeyState>;
+
+  constructor(private options: DeviceManagerOptions) {
+    this.didKey = options.didKey || new DIDKeyPlugin();
+  }
+
+  /**
+   * Create the DID of a device, or return the existing one when the device
+   * (the same identifiers under the same method, namespace and key) is already registered
+   */
+  async createDeviceDID(options: DeviceDIDOptions): Promise<DeviceDIDResult> {
+    const fingerprint = this.fingerprint(options);
+    const existing = this.fingerprints.get(fingerprint);
+    if (existing) {
+      const entry = this.devices.get(existing)!;
+      if (entry.status === 'blocked') {
+        throw new Error(`Device ${existing} is blocked`);
+      }
+      entry.lastSeen = new Date().toISOString();
+      return {
+        did: entry.did,
+        document: await this.didKey.resolveDID(entry.did),
+        keyId: this.getMasterKeyMapping(entry.did).keyId,
+        deviceInfo: entry.deviceInfo,
+        createdAt: entry.registeredAt
+      };
+    }
+
+    const keyId = await this.options.keyManager.importKey(
+      await this.deriveKey(options.keyAlgorithm || KeyAlgorithm.ED25519, fingerprint),
+      'pem'
+    );
+    const { did, document } = await this.didKey.createDIDFromPublicKeyJwk(await this.options.keyManager.getPublicKeyJwk(keyId));
+
+    const now = new Date().toISOString();
+    // Identifiers stay on the device; only their fingerprint is kept
+    const deviceInfo = {
+      ...options.deviceInfo,
+      identifiers: { timestamp: options.deviceInfo.identifiers.timestamp },
+      did
+    };
+    this.devices.set(did, {
+      did,
+      deviceInfo,
+      registeredAt: now,
+      lastSeen: now,
+      status: 'active',
+      associatedKeys: [keyId],
+      trustLevel: 'verified',
+      fingerprint,
+      ...(options.includeDeviceMetadata ? { disclosedMetadata: { ...options.deviceInfo.metadata } } : {})
+    });
+    this.fingerprints.set(fingerprint, did);
+    this.keyMappings.set(did, []);
+    this.addKeyMapping(did, keyId, 'master');
+
+    return { did, document, keyId, deviceInfo, createdAt: now };
+  }
+
+  getDevice(did: string): DeviceRegistryEntry | undefined {
+    return this.devices.get(did);
+  }
+
+  /**
+   * What other devices may learn about a device: its DID, platform, capabilities and disclosed metadata
+   */
+  getPublicDeviceInfo(did: string): DeviceInfo {
+    const entry = this.requireDevice(did);
+    return { ...entry.deviceInfo, metadata: { ...entry.disclosedMetadata } };
+  }
+
+  /**
+   * Register a device of another agent, e.g. after pairing with it. It has no keys here.
+   */
+  registerRemoteDevice(deviceInfo: DeviceInfo, trustLevel: DeviceRegistryEntry['trustLevel'] = 'unknown'): DeviceRegistryEntry {
+    const did = deviceInfo.did;
+    if (!did) {
+      throw new Error('A remote device needs a DID');
+    }
+
+    const now = new Date().toISOString();
+    const existing = this.devices.get(did);
+    if (existing) {
+      if (existing.status === 'blocked') {
+        throw new Error(`Device ${did} is blocked`);
+      }
+      if (existing.fingerprint) {
+        throw new Error(`Device ${did} is a local device`);
+      }
+      existing.deviceInfo = { ...deviceInfo, identifiers: { timestamp: deviceInfo.identifiers.timestamp } };
+      existing.lastSeen = now;
+      existing.trustLevel = existing.trustLevel === 'trusted' ? 'trusted' : trustLevel;
+      return existing;
+    }
+
+    const entry: DeviceRegistryEntry = {
+      did,
+      deviceInfo: { ...deviceInfo, identifiers: { timestamp: deviceInfo.identifiers.timestamp } },
+      registeredAt: now,
+      lastSeen: now,
+      status: 'active',
+      associatedKeys: [],
+      trustLevel
+    };
+    this.devices.set(did, entry);
+    this.keyMappings.set(did, []);
+    return entry;
+  }
+
+  listDevices(filter: { status?: DeviceRegistryEntry['status']; controller?: string } = {}): DeviceRegistryEntry[] {
+    return Array.from(this.devices.values()).filter(entry =>
+      (!filter.status || entry.status === filter.status) && (!filter.controller || entry.controller === filter.controller)
+    );
+  }
+
+  /**
+   * Mark a device as seen, e.g. when it authenticates
+   */
+  touchDevice(did: string): void {
+    this.requireDevice(did).lastSeen = new Date().toISOString();
+  }
+
+  /**
+   * Change the status of a device. Blocked devices are distrusted and cannot be re-registered.
+   */
+  setDeviceStatus(did: string, status: DeviceRegistryEntry['status']): void {
+    const entry = this.requireDevice(did);
+    entry.status = status;
+    if (status === 'blocked') {
+      entry.trustLevel = 'blocked';
+    } else if (entry.trustLevel === 'blocked') {
+      entry.trustLevel = entry.attestation ? 'trusted' : 'verified';
+    }
+  }
+
+  /**
+   * Remove a device from the registry, deleting its keys unless `keepKeys` is set
+   */
+  async removeDevice(did: string, options: { keepKeys?: boolean } = {}): Promise<void> {
+    const entry = this.requireDevice(did);
+    if (!options.keepKeys) {
+      for (const mapping of this.keyMappings.get(did) || []) {
+        await this.options.keyManager.deleteKey(mapping.keyId);
+      }
+    }
+    this.devices.delete(did);
+    this.keyMappings.delete(did);
+    if (entry.fingerprint) {
+      this.fingerprints.delete(entry.fingerprint);
+      const state = await this.getKeyState();
+      state.generations[entry.fingerprint] = (state.generations[entry.fingerprint] || 0) + 1;
+      await this.saveKeyState(state);
+    }
+  }
+
+  /**
+   * Issue a device attestation credential from the user's DID, linking the device to the user.
+   * Only metadata disclosed with `includeDeviceMetadata` is included, never device identifiers.
+   */
+  async issueAttestation(did: string, options: DeviceAttestationOptions): Promise<VerifiableCredential> {
+    if (!this.options.issueCredential) {
+      throw new Error('An issueCredential function is required to issue device attestations');
+    }
+    const entry = this.requireDevice(did);
+    if (entry.status !== 'active') {
+      throw new Error(`Device ${did} is ${entry.status}`);
+    }
+
+    const template: DeviceAttestationTemplate = {
+      '@context': [CREDENTIALS_CONTEXT],
+      type: ['VerifiableCredential', 'DeviceAttestationCredential'],
+      issuer: options.issuer,
+      validFrom: new Date().toISOString(),
+      ...(options.validUntil ? { validUntil: options.validUntil } : {}),
+      credentialSubject: {
+        id: did,
+        controller: options.issuer,
+        platform: entry.deviceInfo.platform,
+        capabilities: entry.deviceInfo.capabilities,
+        ...(entry.disclosedMetadata ? { metadata: entry.disclosedMetadata } : {})
+      }
+    };
+    const attestation = await this.options.issueCredential(template);
+
+    entry.controller = options.issuer;
+    entry.attestation = attestation;
+    if (entry.trustLevel !== 'blocked') {
+      entry.trustLevel = 'trusted';
+    }
+    return attestation;
+  }
+
+  /**
+   * Map a KeyManager key to a device, with the default permissions of its key type unless given
+   */
+  addKeyMapping(
+    did: string,
+    keyId: string,
+    keyType: DeviceKeyType,
+    options: { permissions?: Partial<DeviceKeyMapping['permissions']>; metadata?: Record<string, any> } = {}
+  ): DeviceKeyMapping {
+    const entry = this.requireDevice(did);
+    const mappings = this.keyMappings.get(did)!;
+    if (mappings.some(mapping => mapping.keyId === keyId)) {
+      throw new Error(`Key ${keyId} is already mapped to device ${did}`);
+    }
+    if (keyType === 'master' && mappings.some(mapping => mapping.keyType === 'master')) {
+      throw new Error(`Device ${did} already has a master key`);
+    }
+
+    const now = new Date().toISOString();
+    const mapping: DeviceKeyMapping = {
+      deviceDID: did,
+      keyId,
+      keyType,
+      permissions: { ...DEFAULT_PERMISSIONS[keyType], ...options.permissions },
+      createdAt: now,
+      lastUsed: now,
+      ...(options.metadata ? { metadata: options.metadata } : {})
+    };
+    mappings.push(mapping);
+    if (!entry.associatedKeys.includes(keyId)) {
+      entry.associatedKeys.push(keyId);
+    }
+    return mapping;
+  }
+
+  /**
+   * Remove a key mapping; the master key of a device cannot be unmapped
+   */
+  removeKeyMapping(did: string, keyId: string): void {
+    const entry = this.requireDevice(did);
+    const mappings = this.keyMappings.get(did)!;
+    const mapping = mappings.find(item => item.keyId === keyId);
+    if (!mapping) {
+      throw new Error(`Key ${keyId} is not mapped to device ${did}`);
+    }
+    if (mapping.keyType === 'master') {
+      throw new Error(`The master key of device ${did} cannot be unmapped`);
+    }
+    this.keyMappings.set(did, mappings.filter(item => item !== mapping));
+    entry.associatedKeys = entry.associatedKeys.filter(id => id !== keyId);
+  }
+
+  getKeyMappings(did: string): DeviceKeyMapping[] {
+    return [...(this.keyMappings.get(did) || [])];
+  }
+
+  /**
+   * The device that a key is mapped to
+   */
+  findDeviceByKey(keyId: string): DeviceRegistryEntry | undefined {
+    for (const [did, mappings] of this.keyMappings) {
+      if (mappings.some(mapping => mapping.keyId === keyId)) {
+        return this.devices.get(did);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Sign with a device key (the master key unless a key ID is given); the key must have the sign permission
+   */
+  async sign(did: string, data: Uint8Array, keyId?: string): Promise<Uint8Array> {
+    const entry = this.requireDevice(did);
+    if (entry.status !== 'active') {
+      throw new Error(`Device ${did} is ${entry.status}`);
+    }
+    const mapping = keyId
+      ? this.keyMappings.get(did)!.find(item => item.keyId === keyId)
+      : this.getMasterKeyMapping(did);
+    if (!mapping) {
+      throw new Error(`Key ${keyId} is not mapped to device ${did}`);
+    }
+    if (!mapping.permissions.sign) {
+      throw new Error(`Key ${mapping.keyId} of device ${did} may not sign`);
+    }
+
+    const signature = await this.options.keyManager.sign(mapping.keyId, data);
+    mapping.lastUsed = new Date().toISOString();
+    entry.lastSeen = mapping.lastUsed;
+    return signature;
+  }
+
+  /**
+   * X25519 key agreement between the key agreement key of a device's did:key, derived from its
+   * Ed25519 master key, and another public key
+   */
+  async deriveSharedSecret(did: string, publicKeyJwk: JsonWebKey): Promise<Uint8Array> {
+    const entry = this.requireDevice(did);
+    if (entry.status !== 'active') {
+      throw new Error(`Device ${did} is ${entry.status}`);
+    }
+    const mapping = this.getMasterKeyMapping(did);
+    if (!mapping.permissions.decrypt) {
+      throw new Error(`Key ${mapping.keyId} of device ${did} may not decrypt`);
+    }
+
+    const jwk = JSON.parse(await this.options.keyManager.exportKey(mapping.keyId, 'jwk'));
+    if (jwk.crv !== 'Ed25519') {
+      throw new Error(`Device ${did} has no Ed25519 master key for key agreement`);
+    }
+    // The X25519 private key is the first half of SHA-512 of the Ed25519 seed (RFC 8032), clamped by X25519
+    const scalar = crypto.createHash('sha512').update(Buffer.from(jwk.d, 'base64url')).digest().subarray(0, 32);
+    const privateKey = crypto.createPrivateKey({ key: Buffer.concat([X25519_PKCS8_PREFIX, scalar]), format: 'der', type: 'pkcs8' });
+    const publicKey = crypto.createPublicKey({ key: { kty: 'OKP', crv: 'X25519', x: publicKeyJwk.x }, format: 'jwk' });
+
+    mapping.lastUsed = new Date().toISOString();
+    return new Uint8Array(crypto.diffieHellman({ privateKey, publicKey }));
+  }
+
+  private getMasterKeyMapping(did: string): DeviceKeyMapping {
+    const mapping = this.keyMappings.get(did)?.find(item => item.keyType === 'master');
+    if (!mapping) {
+      throw new Error(`Device ${did} has no master key`);
+    }
+    return mapping;
+  }
+
+  private requireDevice(did: string): DeviceRegistryEntry {
+    const entry = this.devices.get(did);
+    if (!entry) {
+      throw new Error(`Device ${did} is not registered`);
+    }
+    return entry;
+  }
+
+  /**
+   * Private key (PKCS#8 PEM) of a device, derived with HKDF from the seed and the device fingerprint
+   */
+  private async deriveKey(algorithm: KeyAlgorithm, fingerprint: string): Promise<string> {
+    const { seed, generations } = await this.getKeyState();
+    const info = `device-key:${algorithm}` + (generations[fingerprint] ? `:${generations[fingerprint]}` : '');
+    const derive = (length: number) =>
+      Buffer.from(crypto.hkdfSync('sha256', seed, Buffer.from(fingerprint, 'hex'), info, length));
+
+    if (algorithm === KeyAlgorithm.ED25519) {
+      return crypto.createPrivateKey({ key: Buffer.concat([ED25519_PKCS8_PREFIX, derive(32)]), format: 'der', type: 'pkcs8' })
+        .export({ type: 'pkcs8', format: 'pem' }) as string;
+    }
+    const curve = DERIVABLE_EC_KEYS[algorithm];
+    if (!curve) {
+      throw new Error(`Device keys cannot be ${algorithm} keys`);
+    }
+    // 16 bytes more than the order, so the reduction is not noticeably biased (FIPS 186-5 A.2.1)
+    const scalar = BigInt('0x' + derive(48).toString('hex')) % (curve.order - 1n) + 1n;
+    const d = Buffer.from(scalar.toString(16).padStart(64, '0'), 'hex');
+    const ecdh = crypto.createECDH(curve.namedCurve);
+    ecdh.setPrivateKey(d);
+    const point = ecdh.getPublicKey();
+    const jwk = {
+      kty: 'EC',
+      crv: curve.crv,
+      d: d.toString('base64url'),
+      x: point.subarray(1, 33).toString('base64url'),
+      y: point.subarray(33).toString('base64url')
+    };
+    return crypto.createPrivateKey({ key: jwk, format: 'jwk' }).export({ type: 'pkcs8', format: 'pem' }) as string;
+  }
+
+  /**
+   * The seed and key generations kept in storage; the seed is created on first use
+   */
+  private getKeyState(): Promise<DeviceKeyState> {
+    if (!this.keyState) {
+      this.keyState = (async () => {
+        const data = await this.options.storage?.retrieveKey(DEVICE_SEED_KEY);
+        if (data) {
+          const stored = JSON.parse(Buffer.from(data).toString('utf-8'));
+          return { seed: Buffer.from(stored.seed, 'base64url'), generations: stored.generations };
+        }
+        const state = { seed: crypto.randomBytes(32), generations: {} };
+        await this.saveKeyState(state);
+        return state;
+      })().catch(err => {
+        this.keyState = undefined;
+        throw err;
+      });
+    }
+    return this.keyState;
+  }
+
+  private async saveKeyState(state: DeviceKeyState): Promise<void> {
+    const stored = { seed: state.seed.toString('base64url'), generations: state.generations };
+    await this.options.storage?.storeKey(DEVICE_SEED_KEY, new Uint8Array(Buffer.from(JSON.stringify(stored), 'utf-8')));
+  }
+
+  /**
+   * SHA-256 of the identifiers used by the method, keyed with `encryptionKey` when given
+   */
+  private fingerprint(options: DeviceDIDOptions): string {
+    const identifiers = options.deviceInfo.identifiers;
+    const values = IDENTIFIERS[options.method]
+      .filter(name => identifiers[name])
+      .map(name => `${name}=${String(identifiers[name]).trim().toLowerCase()}`);
+    if (values.length === 0) {
+      throw new Error(`No ${IDENTIFIERS[options.method].join(' or ')} identifier for the ${options.method} method`);
+    }
+
+    const input = [options.namespace || '', options.method, options.keyAlgorithm || KeyAlgorithm.ED25519, ...values].join('\n');
+    const hash = options.encryptionKey
+      ? crypto.createHmac('sha256', options.encryptionKey)
+      : crypto.createHash('sha256');
+    return hash.update(input).digest('hex');
+  }
+}
@@ -0,0 +1,447 @@
+/**
+ * Device Pairing
+ *
+ * Pairs two devices over an invitation (QR code or Bluetooth) followed by four
+ * messages on a transport, in the style of Bluetooth numeric comparison:
+ *
+ * 1. Invitation: initiator DID and ephemeral X25519 key
+ * 2. Response: responder device, ephemeral key and a commitment to its nonce
+ * 3. Nonce: initiator device and nonce, signed by the initiating device
+ * 4. Reveal: responder nonce, opening the commitment, signed by the responding device
+ *
+ * Both devices then show a 6 digit short authentication string (SAS) derived
+ * from both keys and nonces. The commitment keeps a man in the middle from
+ * choosing a nonce that yields the same SAS, so matching strings confirmed by
+ * the users authenticate the exchange. Each device then exchanges its
+ * confirmation, derives the shared secret from the X25519 agreement, and signs
+ * a pairing token for the other device.
+ *
+ * Device DIDs must be Ed25519 did:keys, as created by the DeviceManager.
+ */
+
+import * as crypto from 'crypto';
+import { createJWS, decodeJWT, verifyJWS } from 'did-jwt';
+import { DIDKeyPlugin } from '../plugins/did-methods/did-key-plugin';
+import { BluetoothManager, DataTransferOptions } from '../../utils/bluetooth';
+import { createDevicePairingQR } from '../../utils/qr-code';
+import {
+  DeviceInfo,
+  DevicePairingInvitation,
+  DevicePairingManagerOptions,
+  DevicePairingMessage,
+  DevicePairingOptions,
+  DevicePairingResult,
+  DevicePairingTransport,
+  SasConfirmation
+} from './types';
+
+export type DevicePairingInitiateOptions = Omit<DevicePairingOptions, 'remoteDeviceDID'> & {
+  /** Only accept a response from this device */
+  remoteDeviceDID?: string;
+};
+
+export type DevicePairingRespondOptions = Pick<DevicePairingOptions, 'localDeviceDID'> &
+  Partial<Pick<DevicePairingOptions, 'requireAuth' | 'timeout'>>;
+
+export interface DevicePairingTokenPayload {
+  iss: string;
+  sub: string;
+  jti: string;
+  iat: number;
+  exp: number;
+  /** SHA-256 of the pairing transcript, shared by both tokens of a pairing */
+  transcript: string;
+}
+
+interface PairingSession {
+  pairingId: string;
+  options: DevicePairingInitiateOptions;
+  ephemeralKey: crypto.KeyObject;
+  invitation: DevicePairingInvitation;
+  expiresAt: number;
+}
+
+interface Handshake {
+  pairingId: string;
+  method: DevicePairingOptions['method'];
+  localDID: string;
+  remoteDevice: DeviceInfo;
+  ephemeralKey: crypto.KeyObject;
+  remoteEphemeralKey: string;
+  transcript: Buffer;
+  initiatorNonce: Buffer;
+  responderNonce: Buffer;
+  requireAuth: boolean;
+  expiresAt: number;
+}
+
+const DEFAULT_TIMEOUT = 2 * 60 * 1000;
+const DEFAULT_PAIRING_TTL = 30 * 24 * 60 * 60 * 1000;
+const NONCE_LENGTH = 16;
+const HKDF_INFO = 'open-verifiable device pairing';
+
+export class DevicePairingManager {
+  private sessions: Map<string, PairingSession> = new Map();
+  private pairings: Map<string, DevicePairingResult> = new Map();
+  /** JsonWebKey2020 documents, which did-jwt verifies pairing tokens against */
+  private didKey = new DIDKeyPlugin({ publicKeyFormat: 'JsonWebKey2020' });
+
+  constructor(private options: DevicePairingManagerOptions) {}
+
+  /**
+   * Start pairing: an invitation with a fresh ephemeral key, as a QR code for the `qr` method
+   */
+  async createInvitation(options: DevicePairingInitiateOptions): Promise<{ invitation: DevicePairingInvitation; qrCode?: string }> {
+    const device = this.requirePairableDevice(options.localDeviceDID);
+    const { privateKey } = crypto.generateKeyPairSync('x25519');
+    const expiresAt = Date.now() + (options.timeout || DEFAULT_TIMEOUT);
+
+    const invitation: DevicePairingInvitation = {
+      type: 'device-pairing',
+      pairingId: crypto.randomUUID(),
+      deviceId: options.localDeviceDID,
+      deviceName: device.metadata.name || 'Device',
+      capabilities: Object.entries(device.capabilities).filter(([, supported]) => supported).map(([name]) => name),
+      ephemeralKey: publicKeyOf(privateKey),
+      method: options.method,
+      expiresAt: new Date(expiresAt).toISOString()
+    };
+    this.sessions.set(invitation.pairingId, { pairingId: invitation.pairingId, options, ephemeralKey: privateKey, invitation, expiresAt });
+
+    if (options.method === 'qr') {
+      return { invitation, qrCode: await createDevicePairingQR(invitation) };
+    }
+    return { invitation };
+  }
+
+  /**
+   * Run the initiator side of a pairing once the invitation has been delivered
+   */
+  async initiate(pairingId: string, transport: DevicePairingTransport, confirmSas: SasConfirmation): Promise<DevicePairingResult> {
+    const session = this.sessions.get(pairingId);
+    if (!session) {
+      throw new Error(`Unknown pairing ${pairingId}`);
+    }
+    this.sessions.delete(pairingId);
+    const localDID = session.options.localDeviceDID;
+
+    const response = await receive(transport, 'device-pairing-response', pairingId, session.expiresAt);
+    const remoteDID = response.device.did;
+    if (!remoteDID || (session.options.remoteDeviceDID && remoteDID !== session.options.remoteDeviceDID)) {
+      throw new Error(`Unexpected pairing response from ${remoteDID}`);
+    }
+    this.checkRemoteDevice(remoteDID);
+
+    const transcript = transcriptHash(pairingId, localDID, remoteDID, session.invitation.ephemeralKey, response.ephemeralKey);
+    const initiatorNonce = crypto.randomBytes(NONCE_LENGTH);
+    await transport.send({
+      type: 'device-pairing-nonce',
+      pairingId,
+      device: this.options.devices.getPublicDeviceInfo(localDID),
+      nonce: initiatorNonce.toString('base64url'),
+      signature: await this.signTranscript(localDID, 'initiator', transcript)
+    });
+
+    const reveal = await receive(transport, 'device-pairing-reveal', pairingId, session.expiresAt);
+    const responderNonce = Buffer.from(reveal.nonce, 'base64url');
+    if (!crypto.timingSafeEqual(commitmentOf(responderNonce, transcript), Buffer.from(response.commitment, 'base64url'))) {
+      throw new Error('Pairing commitment does not match the revealed nonce');
+    }
+    await this.verifyTranscript(remoteDID, 'responder', transcript, reveal.signature);
+
+    return this.complete(transport, confirmSas, {
+      pairingId,
+      method: session.options.method,
+      localDID,
+      remoteDevice: response.device,
+      ephemeralKey: session.ephemeralKey,
+      remoteEphemeralKey: response.ephemeralKey,
+      transcript,
+      initiatorNonce,
+      responderNonce,
+      requireAuth: session.options.requireAuth,
+      expiresAt: session.expiresAt
+    });
+  }
+
+  /**
+   * Run the responder side of a pairing for a scanned or received invitation
+   */
+  async respond(
+    invitation: DevicePairingInvitation | string,
+    transport: DevicePairingTransport,
+    options: DevicePairingRespondOptions,
+    confirmSas: SasConfirmation
+  ): Promise<DevicePairingResult> {
+    const received = typeof invitation === 'string' ? parseDevicePairingInvitation(invitation) : invitation;
+    const { pairingId, deviceId: remoteDID } = received;
+    const expiresAt = Math.min(Date.parse(received.expiresAt), Date.now() + (options.timeout || DEFAULT_TIMEOUT));
+    if (!(expiresAt > Date.now())) {
+      throw new Error(`Pairing invitation ${pairingId} has expired`);
+    }
+    this.requirePairableDevice(options.localDeviceDID);
+    this.checkRemoteDevice(remoteDID);
+
+    const { privateKey } = crypto.generateKeyPairSync('x25519');
+    const ephemeralKey = publicKeyOf(privateKey);
+    const transcript = transcriptHash(pairingId, remoteDID, options.localDeviceDID, received.ephemeralKey, ephemeralKey);
+    const responderNonce = crypto.randomBytes(NONCE_LENGTH);
+    await transport.send({
+      type: 'device-pairing-response',
+      pairingId,
+      device: this.options.devices.getPublicDeviceInfo(options.localDeviceDID),
+      ephemeralKey,
+      commitment: commitmentOf(responderNonce, transcript).toString('base64url')
+    });
+
+    const nonce = await receive(transport, 'device-pairing-nonce', pairingId, expiresAt);
+    if (nonce.device.did !== remoteDID) {
+      throw new Error(`Pairing nonce is not from ${remoteDID}`);
+    }
+    await this.verifyTranscript(remoteDID, 'initiator', transcript, nonce.signature);
+
+    await transport.send({
+      type: 'device-pairing-reveal',
+      pairingId,
+      nonce: responderNonce.toString('base64url'),
+      signature: await this.signTranscript(options.localDeviceDID, 'responder', transcript)
+    });
+
+    return this.complete(transport, confirmSas, {
+      pairingId,
+      method: received.method,
+      localDID: options.localDeviceDID,
+      remoteDevice: nonce.device,
+      ephemeralKey: privateKey,
+      remoteEphemeralKey: received.ephemeralKey,
+      transcript,
+      initiatorNonce: Buffer.from(nonce.nonce, 'base64url'),
+      responderNonce,
+      requireAuth: options.requireAuth ?? true,
+      expiresAt
+    });
+  }
+
+  /**
+   * The current pairing with a remote device
+   */
+  getPairing(remoteDeviceDID: string): DevicePairingResult | undefined {
+    const pairing = this.pairings.get(remoteDeviceDID);
+    if (pairing && Date.parse(pairing.expiresAt) <= Date.now()) {
+      this.pairings.delete(remoteDeviceDID);
+      return undefined;
+    }
+    return pairing;
+  }
+
+  listPairings(): DevicePairingResult[] {
+    return Array.from(this.pairings.keys())
+      .map(did => this.getPairing(did))
+      .filter((pairing): pairing is DevicePairingResult => !!pairing);
+  }
+
+  /**
+   * Forget a pairing, e.g. when the remote device is removed
+   */
+  unpair(remoteDeviceDID: string): void {
+    this.pairings.delete(remoteDeviceDID);
+  }
+
+  /**
+   * Verify a pairing token signed by another device: its signature, expiry and subject
+   */
+  async verifyPairingToken(token: string, options: { subject?: string } = {}): Promise<DevicePairingTokenPayload> {
+    const { payload } = decodeJWT(token) as unknown as { payload: DevicePairingTokenPayload };
+    if (!payload.iss || !isEd25519DIDKey(payload.iss)) {
+      throw new Error('Pairing token issuer must be an Ed25519 did:key');
+    }
+    const document = await this.didKey.resolveDID(payload.iss);
+    verifyJWS(token, document.verificationMethod!);
+
+    if (!payload.exp || payload.exp * 1000 <= Date.now()) {
+      throw new Error('Pairing token has expired');
+    }
+    if (options.subject && payload.sub !== options.subject) {
+      throw new Error(`Pairing token is not for ${options.subject}`);
+    }
+    return payload;
+  }
+
+  private async complete(transport: DevicePairingTransport, confirmSas: SasConfirmation, handshake: Handshake): Promise<DevicePairingResult> {
+    const { pairingId, localDID, remoteDevice } = handshake;
+    const sas = shortAuthenticationString(handshake.transcript, handshake.initiatorNonce, handshake.responderNonce);
+    const localDevice = this.options.devices.getPublicDeviceInfo(localDID);
+
+    let paired = true;
+    if (handshake.requireAuth !== false) {
+      const confirmed = await confirmSas(sas);
+      await transport.send({ type: 'device-pairing-confirm', pairingId, confirmed });
+      const remote = await receive(transport, 'device-pairing-confirm', pairingId, handshake.expiresAt);
+      paired = confirmed && remote.confirmed;
+    }
+    if (!paired) {
+      return { localDevice, remoteDevice, sharedSecret: new Uint8Array(), pairingToken: '', expiresAt: new Date().toISOString(), status: 'failed', pairingId, sas };
+    }
+
+    const agreement = crypto.diffieHellman({
+      privateKey: handshake.ephemeralKey,
+      publicKey: crypto.createPublicKey({ key: { kty: 'OKP', crv: 'X25519', x: handshake.remoteEphemeralKey }, format: 'jwk' })
+    });
+    const sharedSecret = new Uint8Array(crypto.hkdfSync(
+      'sha256',
+      agreement,
+      Buffer.concat([handshake.initiatorNonce, handshake.responderNonce]),
+      Buffer.concat([Buffer.from(HKDF_INFO), handshake.transcript]),
+      32
+    ));
+
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const expiresAt = issuedAt + Math.floor((this.options.pairingTtl ?? DEFAULT_PAIRING_TTL) / 1000);
+    const payload: DevicePairingTokenPayload = {
+      iss: localDID,
+      sub: remoteDevice.did!,
+      jti: pairingId,
+      iat: issuedAt,
+      exp: expiresAt,
+      transcript: handshake.transcript.toString('base64url')
+    };
+    const kid = (await this.didKey.resolveDID(localDID)).verificationMethod![0].id;
+    const pairingToken = await createJWS(payload, data => this.signBase64url(localDID, data), { alg: 'EdDSA', typ: 'JWT', kid });
+
+    const result: DevicePairingResult = {
+      localDevice,
+      remoteDevice,
+      sharedSecret,
+      pairingToken,
+      expiresAt: new Date(expiresAt * 1000).toISOString(),
+      status: 'paired',
+      pairingId,
+      sas
+    };
+    this.options.devices.registerRemoteDevice(remoteDevice, 'verified');
+    this.pairings.set(remoteDevice.did!, result);
+    return result;
+  }
+
+  private requirePairableDevice(did: string): DeviceInfo {
+    const entry = this.options.devices.getDevice(did);
+    if (!entry?.fingerprint) {
+      throw new Error(`Device ${did} is not a local device`);
+    }
+    if (entry.status !== 'active') {
+      throw new Error(`Device ${did} is ${entry.status}`);
+    }
+    if (!isEd25519DIDKey(did)) {
+      throw new Error(`Device ${did} needs an Ed25519 key to pair`);
+    }
+    return this.options.devices.getPublicDeviceInfo(did);
+  }
+
+  private checkRemoteDevice(did: string): void {
+    if (!isEd25519DIDKey(did)) {
+      throw new Error(`Remote device ${did} is not an Ed25519 did:key`);
+    }
+    if (this.options.devices.getDevice(did)?.status === 'blocked') {
+      throw new Error(`Device ${did} is blocked`);
+    }
+  }
+
+  private async signTranscript(did: string, role: 'initiator' | 'responder', transcript: Buffer): Promise<string> {
+    return this.signBase64url(did, Buffer.concat([Buffer.from(`${role}:`), transcript]));
+  }
+
+  private async verifyTranscript(did: string, role: 'initiator' | 'responder', transcript: Buffer, signature: string): Promise<void> {
+    const data = Buffer.concat([Buffer.from(`${role}:`), transcript]);
+    if (!(await this.didKey.verifySignature(did, data, Buffer.from(signature, 'base64url')))) {
+      throw new Error(`Invalid pairing signature of ${did}`);
+    }
+  }
+
+  private async signBase64url(did: string, data: string | Uint8Array): Promise<string> {
+    const bytes = typeof data === 'string' ? Buffer.from(data) : data;
+    return Buffer.from(await this.options.devices.sign(did, bytes)).toString('base64url');
+  }
+}
+
+/**
+ * Carries pairing messages as JSON over a Bluetooth connection
+ */
+export class BluetoothPairingTransport implements DevicePairingTransport {
+  constructor(
+    private bluetooth: BluetoothManager,
+    private deviceId: string,
+    private options: DataTransferOptions = {}
+  ) {}
+
+  async send(message: DevicePairingMessage): Promise<void> {
+    const result = await this.bluetooth.sendData(this.deviceId, JSON.stringify(message), this.options);
+    if (!result.success) {
+      throw new Error(`Failed to send pairing message: ${result.error}`);
+    }
+  }
+
+  async receive(): Promise<DevicePairingMessage> {
+    return JSON.parse(await this.bluetooth.receiveData(this.deviceId, this.options));
+  }
+}
+
+/**
+ * Parse the text of a pairing QR code
+ */
+export function parseDevicePairingInvitation(text: string): DevicePairingInvitation {
+  let invitation: DevicePairingInvitation;
+  try {
+    invitation = JSON.parse(text);
+  } catch {
+    throw new Error('Pairing invitation is not JSON');
+  }
+  if (invitation.type !== 'device-pairing' || !invitation.pairingId || !invitation.deviceId || !invitation.ephemeralKey || !invitation.expiresAt) {
+    throw new Error('Not a device pairing invitation');
+  }
+  return invitation;
+}
+
+async function receive<T extends DevicePairingMessage['type']>(
+  transport: DevicePairingTransport,
+  type: T,
+  pairingId: string,
+  expiresAt: number
+): Promise<Extract<DevicePairingMessage, { type: T }>> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Pairing ${pairingId} timed out`)), Math.max(expiresAt - Date.now(), 0));
+  });
+  try {
+    const message = await Promise.race([transport.receive(), timeout]);
+    if (message.type !== type || message.pairingId !== pairingId) {
+      throw new Error(`Expected ${type} for pairing ${pairingId}, got ${message.type}`);
+    }
+    return message as Extract<DevicePairingMessage, { type: T }>;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+function publicKeyOf(privateKey: crypto.KeyObject): string {
+  return crypto.createPublicKey(privateKey).export({ format: 'jwk' }).x!;
+}
+
+function transcriptHash(pairingId: string, initiatorDID: string, responderDID: string, initiatorKey: string, responderKey: string): Buffer {
+  return crypto.createHash('sha256').update(JSON.stringify([pairingId, initiatorDID, responderDID, initiatorKey, responderKey])).digest();
+}
+
+function commitmentOf(nonce: Buffer, transcript: Buffer): Buffer {
+  return crypto.createHmac('sha256', nonce).update(transcript).digest();
+}
+
+/**
+ * Six decimal digits from the transcript and both nonces
+ */
+function shortAuthenticationString(transcript: Buffer, initiatorNonce: Buffer, responderNonce: Buffer): string {
+  const digest = crypto.createHash('sha256').update(Buffer.concat([transcript, initiatorNonce, responderNonce])).digest();
+  return String(digest.readUInt32BE(0) % 1_000_000).padStart(6, '0');
+}
+
+function isEd25519DIDKey(did: string): boolean {
+  return did.startsWith('did:key:z6Mk');
+}
@@ -0,0 +1,588 @@
+/**
+ * Device Sync
+ *
+ * Keeps credentials and keys in sync between paired devices of a user.
+ *
+ * Every device keeps a journal of the items in its storage with a version
+ * vector per item, found by comparing the storage to the journal before each
+ * sync: new or changed items count as a change by this device, and items gone
+ * from storage become tombstones, so deletes propagate. A peer is sent the
+ * journal entries changed since the sequence number it last acknowledged.
+ *
+ * Change sets are split into chunks, each encrypted to the key agreement key of
+ * the peer's did:key (ECDH-ES with an ephemeral X25519 key, A256GCM). The key
+ * is derived with HKDF salted with the pairing secret, so only the paired
+ * device could have sent a chunk. Chunks may arrive in any order and a broken
+ * transfer is resumed by sending only the chunks the receiver still misses; a
+ * change set is applied once complete.
+ *
+ * Items changed on both devices since they last synced are reported as
+ * conflicts and keep the local state until resolved.
+ *
+ * The journal, peer cursors and conflicts are kept in the synced storage under
+ * a prefix of their own, which is not synced, so a restarted device neither
+ * resends everything nor mistakes old items for new changes. The seed of the
+ * device keys stays on the device as well.
+ */
+
+import * as crypto from 'crypto';
+import { DIDKeyPlugin } from '../plugins/did-methods/did-key-plugin';
+import { DEVICE_SEED_KEY } from './manager';
+import { VerifiableCredential } from '../../types';
+import {
+  DevicePairingResult,
+  DeviceSyncManagerOptions,
+  SyncChange,
+  SyncChangeSet,
+  SyncConflict,
+  SyncEnvelope,
+  SyncItemKind,
+  SyncReceipt,
+  SyncResult,
+  VersionVector
+} from './types';
+
+interface JournalEntry {
+  kind: SyncItemKind;
+  id: string;
+  version: VersionVector;
+  deleted: boolean;
+  /** SHA-256 of the item, to find changes in storage */
+  hash?: string;
+  updatedAt: string;
+  /** Journal sequence number of the last change */
+  sequence: number;
+}
+
+interface SyncEnvelopeHeader {
+  alg: 'ECDH-ES+HKDF';
+  enc: 'A256GCM';
+  typ: 'device-sync+json';
+  epk: JsonWebKey;
+  /** Key agreement key of the recipient */
+  kid: string;
+  /** Sending device */
+  skid: string;
+  transferId: string;
+  index: number;
+  total: number;
+}
+
+interface OutgoingTransfer {
+  transferId: string;
+  sequence: number;
+  chunks: SyncEnvelope[];
+  delivered: Set<number>;
+}
+
+interface IncomingTransfer {
+  from: string;
+  pieces: (string | undefined)[];
+}
+
+/** What a device remembers of its syncs across restarts */
+interface SyncState {
+  sequence: number;
+  journal: JournalEntry[];
+  cursors: Record<string, number>;
+  conflicts: SyncConflict[];
+}
+
+const DEFAULT_CHUNK_SIZE = 64 * 1024;
+/** Completed transfers remembered to answer repeated chunks */
+const MAX_COMPLETED_TRANSFERS = 100;
+
+export class DeviceSyncManager {
+  private journal: Map<string, JournalEntry> = new Map();
+  private sequence = 0;
+  /** Peer DID to the journal sequence number it acknowledged */
+  private cursors: Map<string, number> = new Map();
+  /** Peer DID to the transfer it has not acknowledged yet */
+  private outgoing: Map<string, OutgoingTransfer> = new Map();
+  private incoming: Map<string, IncomingTransfer> = new Map();
+  private completed: Map<string, SyncReceipt> = new Map();
+  private conflicts: Map<string, SyncConflict> = new Map();
+  /** JsonWebKey2020 documents, for the key agreement JWK of peers */
+  private didKey = new DIDKeyPlugin({ publicKeyFormat: 'JsonWebKey2020' });
+  private statePrefix: string;
+  private loaded?: Promise<void>;
+
+  constructor(private options: DeviceSyncManagerOptions) {
+    this.statePrefix = options.statePrefix || 'device-sync:';
+  }
+
+  /**
+   * Encrypted chunks of the changes since the peer last acknowledged a sync. An unacknowledged
+   * transfer to the peer is resumed instead: only its undelivered chunks are returned.
+   */
+  async createTransfer(peerDID: string): Promise<{ transferId: string; chunks: SyncEnvelope[] }> {
+    const pairing = this.requirePairing(peerDID);
+    const pending = this.outgoing.get(peerDID);
+    if (pending) {
+      return { transferId: pending.transferId, chunks: pending.chunks.filter((_, index) => !pending.delivered.has(index)) };
+    }
+
+    await this.load();
+    await this.refresh();
+    await this.save();
+    const since = this.cursors.get(peerDID) ?? 0;
+    const changed = Array.from(this.journal.values()).filter(entry => entry.sequence > since && this.includes(entry.kind, entry.id));
+    const transferId = crypto.randomUUID();
+    if (changed.length === 0) {
+      return { transferId, chunks: [] };
+    }
+
+    const changeSet: SyncChangeSet = {
+      syncId: transferId,
+      from: this.options.localDeviceDID,
+      to: peerDID,
+      sequence: this.sequence,
+      changes: await this.readChanges(changed)
+    };
+    const plaintext = JSON.stringify(changeSet);
+    const chunkSize = this.options.chunkSize || DEFAULT_CHUNK_SIZE;
+    const total = Math.ceil(plaintext.length / chunkSize);
+    const chunks: SyncEnvelope[] = [];
+    for (let index = 0; index < total; index++) {
+      const piece = plaintext.slice(index * chunkSize, (index + 1) * chunkSize);
+      chunks.push(await this.encrypt(peerDID, pairing, { transferId, index, total }, piece));
+    }
+
+    this.outgoing.set(peerDID, { transferId, sequence: changeSet.sequence, chunks, delivered: new Set() });
+    return { transferId, chunks };
+  }
+
+  /**
+   * Record the receipt of a chunk; an acknowledgement completes the transfer and moves the peer's cursor
+   */
+  async handleReceipt(peerDID: string, receipt: SyncReceipt): Promise<void> {
+    const pending = this.outgoing.get(peerDID);
+    if (!pending || pending.transferId !== receipt.transferId) {
+      return;
+    }
+    pending.chunks.forEach((_, index) => {
+      if (!receipt.missing.includes(index)) {
+        pending.delivered.add(index);
+      }
+    });
+    if (receipt.ack) {
+      await this.load();
+      this.cursors.set(peerDID, Math.max(this.cursors.get(peerDID) ?? 0, receipt.ack.sequence));
+      this.outgoing.delete(peerDID);
+      await this.save();
+    }
+  }
+
+  /**
+   * Send the changes for a peer through `deliver`, which hands a chunk to the peer's `receiveChunk`.
+   * If delivery fails, calling this again resumes the transfer.
+   * @returns the last receipt, with the peer's sync result; undefined when there was nothing to send
+   */
+  async syncTo(peerDID: string, deliver: (chunk: SyncEnvelope) => Promise<SyncReceipt>): Promise<SyncReceipt | undefined> {
+    const { chunks } = await this.createTransfer(peerDID);
+    let receipt: SyncReceipt | undefined;
+    for (const chunk of chunks) {
+      receipt = await deliver(chunk);
+      await this.handleReceipt(peerDID, receipt);
+    }
+    return receipt;
+  }
+
+  /**
+   * Decrypt a chunk from a paired device; the change set is applied once all of its chunks arrived
+   */
+  async receiveChunk(envelope: SyncEnvelope): Promise<SyncReceipt> {
+    const header = decodeHeader(envelope);
+    const done = this.completed.get(header.transferId);
+    if (done) {
+      return done;
+    }
+
+    const plaintext = await this.decrypt(envelope, header);
+    let transfer = this.incoming.get(header.transferId);
+    if (!transfer) {
+      transfer = { from: header.skid, pieces: new Array(header.total).fill(undefined) };
+      this.incoming.set(header.transferId, transfer);
+    }
+    if (transfer.from !== header.skid || transfer.pieces.length !== header.total || header.index < 0 || header.index >= header.total) {
+      throw new Error(`Chunk ${header.index} does not belong to transfer ${header.transferId}`);
+    }
+    transfer.pieces[header.index] = plaintext;
+
+    const missing = missingIndices(transfer);
+    if (missing.length > 0) {
+      return { transferId: header.transferId, missing };
+    }
+
+    this.incoming.delete(header.transferId);
+    const changeSet: SyncChangeSet = JSON.parse(transfer.pieces.join(''));
+    if (changeSet.from !== header.skid || changeSet.to !== this.options.localDeviceDID) {
+      throw new Error(`Change set of transfer ${header.transferId} is not from ${header.skid} to this device`);
+    }
+    await this.load();
+    const result = await this.applyChangeSet(changeSet);
+    await this.save();
+    const receipt: SyncReceipt = {
+      transferId: header.transferId,
+      missing: [],
+      result,
+      ack: { transferId: header.transferId, sequence: changeSet.sequence }
+    };
+    this.completed.set(header.transferId, receipt);
+    if (this.completed.size > MAX_COMPLETED_TRANSFERS) {
+      this.completed.delete(this.completed.keys().next().value!);
+    }
+    return receipt;
+  }
+
+  /**
+   * Chunks still missing from an incoming transfer, to tell the sender when resuming
+   */
+  getTransferState(transferId: string): SyncReceipt | undefined {
+    const done = this.completed.get(transferId);
+    if (done) {
+      return done;
+    }
+    const transfer = this.incoming.get(transferId);
+    return transfer ? { transferId, missing: missingIndices(transfer) } : undefined;
+  }
+
+  async getConflicts(): Promise<SyncConflict[]> {
+    await this.load();
+    return Array.from(this.conflicts.values());
+  }
+
+  /**
+   * Resolve a conflict by keeping the local or the remote state. The result is a new change
+   * that supersedes both sides, so it reaches the other device on the next sync.
+   */
+  async resolveConflict(kind: SyncItemKind, id: string, keep: 'local' | 'remote'): Promise<void> {
+    await this.load();
+    const key = journalKey(kind, id);
+    const conflict = this.conflicts.get(key);
+    if (!conflict) {
+      throw new Error(`No conflict for ${kind} ${id}`);
+    }
+
+    const version = mergeVersions(conflict.local.version, conflict.remote.version);
+    version[this.options.localDeviceDID] = (version[this.options.localDeviceDID] || 0) + 1;
+    const chosen = keep === 'local' ? conflict.local : conflict.remote;
+    if (keep === 'remote') {
+      await this.write(chosen);
+    }
+    this.record({ ...chosen, version, updatedAt: new Date().toISOString() });
+    this.conflicts.delete(key);
+    await this.save();
+  }
+
+  /**
+   * Read the sync state this device kept, once
+   */
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        const data = await this.options.storage.retrieveKey(this.stateKey());
+        if (!data) {
+          return;
+        }
+        const state: SyncState = JSON.parse(Buffer.from(data).toString('utf-8'));
+        this.sequence = state.sequence;
+        this.journal = new Map(state.journal.map(entry => [journalKey(entry.kind, entry.id), entry]));
+        this.cursors = new Map(Object.entries(state.cursors));
+        this.conflicts = new Map(state.conflicts.map(conflict => [journalKey(conflict.kind, conflict.id), conflict]));
+      })().catch(err => {
+        this.loaded = undefined;
+        throw err;
+      });
+    }
+    return this.loaded;
+  }
+
+  private async save(): Promise<void> {
+    const state: SyncState = {
+      sequence: this.sequence,
+      journal: Array.from(this.journal.values()),
+      cursors: Object.fromEntries(this.cursors),
+      conflicts: Array.from(this.conflicts.values())
+    };
+    await this.options.storage.storeKey(this.stateKey(), new Uint8Array(Buffer.from(JSON.stringify(state), 'utf-8')));
+  }
+
+  private stateKey(): string {
+    return this.statePrefix + this.options.localDeviceDID;
+  }
+
+  /**
+   * Bring the journal up to date with the storage: new and changed items are changes by this device,
+   * items gone from storage become tombstones
+   */
+  private async refresh(): Promise<void> {
+    const present = new Set<string>();
+    const observe = (kind: SyncItemKind, id: string, hash: string) => {
+      const key = journalKey(kind, id);
+      present.add(key);
+      const entry = this.journal.get(key);
+      if (!entry || entry.deleted || entry.hash !== hash) {
+        this.recordLocalChange(kind, id, entry, { deleted: false, hash });
+      }
+    };
+
+    for (const credential of await this.options.storage.listCredentials()) {
+      if (credential.id) {
+        observe('credential', credential.id, hashOf(JSON.stringify(credential)));
+      }
+    }
+    for (const keyId of await this.options.storage.listKeys()) {
+      if (keyId.startsWith(this.statePrefix) || keyId === DEVICE_SEED_KEY) {
+        continue;
+      }
+      const key = await this.options.storage.retrieveKey(keyId);
+      if (key) {
+        observe('key', keyId, hashOf(key));
+      }
+    }
+
+    for (const [key, entry] of this.journal) {
+      if (!entry.deleted && !present.has(key)) {
+        this.recordLocalChange(entry.kind, entry.id, entry, { deleted: true });
+      }
+    }
+  }
+
+  private async applyChangeSet(changeSet: SyncChangeSet): Promise<SyncResult> {
+    await this.refresh();
+    const result: SyncResult = { syncId: changeSet.syncId, from: changeSet.from, applied: 0, deleted: 0, skipped: 0, conflicts: [] };
+
+    for (const change of changeSet.changes) {
+      const key = journalKey(change.kind, change.id);
+      const local = this.journal.get(key);
+      const order = compareVersions(change.version, local?.version || {});
+      if (!this.includes(change.kind, change.id) || order === 'equal' || order === 'before') {
+        result.skipped++;
+        continue;
+      }
+
+      if (order === 'after') {
+        await this.write(change);
+        this.record(change);
+        this.conflicts.delete(key);
+        if (change.deleted) {
+          result.deleted++;
+        } else {
+          result.applied++;
+        }
+        continue;
+      }
+
+      // Concurrent changes that agree are merged rather than reported
+      const remoteHash = change.deleted ? undefined : hashOf(change.kind === 'key' ? Buffer.from(change.data, 'base64url') : JSON.stringify(change.data));
+      if (local!.deleted === change.deleted && local!.hash === remoteHash) {
+        this.journal.set(key, { ...local!, version: mergeVersions(local!.version, change.version) });
+        result.skipped++;
+        continue;
+      }
+
+      const conflict: SyncConflict = {
+        kind: change.kind,
+        id: change.id,
+        local: (await this.readChanges([local!]))[0],
+        remote: change,
+        detectedAt: new Date().toISOString()
+      };
+      this.conflicts.set(key, conflict);
+      result.conflicts.push(conflict);
+    }
+    return result;
+  }
+
+  private recordLocalChange(kind: SyncItemKind, id: string, previous: JournalEntry | undefined, state: { deleted: boolean; hash?: string }): void {
+    const version = { ...previous?.version };
+    version[this.options.localDeviceDID] = (version[this.options.localDeviceDID] || 0) + 1;
+    this.journal.set(journalKey(kind, id), {
+      kind,
+      id,
+      version,
+      deleted: state.deleted,
+      hash: state.hash,
+      updatedAt: new Date().toISOString(),
+      sequence: ++this.sequence
+    });
+  }
+
+  /**
+   * Journal an applied change under a new sequence number, so it is passed on to other devices
+   */
+  private record(change: SyncChange): void {
+    this.journal.set(journalKey(change.kind, change.id), {
+      kind: change.kind,
+      id: change.id,
+      version: { ...change.version },
+      deleted: change.deleted,
+      hash: change.deleted ? undefined : hashOf(change.kind === 'key' ? Buffer.from(change.data, 'base64url') : JSON.stringify(change.data)),
+      updatedAt: change.updatedAt,
+      sequence: ++this.sequence
+    });
+  }
+
+  private async write(change: SyncChange): Promise<void> {
+    const storage = this.options.storage;
+    if (change.kind === 'credential') {
+      if (change.deleted) {
+        await storage.deleteCredential(change.id);
+      } else {
+        await storage.storeCredential(change.id, change.data as VerifiableCredential);
+      }
+    } else if (change.deleted) {
+      await storage.deleteKey(change.id);
+    } else {
+      await storage.storeKey(change.id, new Uint8Array(Buffer.from(change.data, 'base64url')));
+    }
+  }
+
+  private async readChanges(entries: JournalEntry[]): Promise<SyncChange[]> {
+    const credentials = new Map((await this.options.storage.listCredentials()).map(credential => [credential.id, credential]));
+    const changes: SyncChange[] = [];
+    for (const entry of entries) {
+      const change: SyncChange = { kind: entry.kind, id: entry.id, version: entry.version, deleted: entry.deleted, updatedAt: entry.updatedAt };
+      if (!entry.deleted) {
+        change.data = entry.kind === 'credential'
+          ? credentials.get(entry.id)
+          : Buffer.from((await this.options.storage.retrieveKey(entry.id))!).toString('base64url');
+      }
+      changes.push(change);
+    }
+    return changes;
+  }
+
+  private includes(kind: SyncItemKind, id: string): boolean {
+    return !this.options.include || this.options.include(kind, id);
+  }
+
+  private requirePairing(peerDID: string): DevicePairingResult {
+    const pairing = this.options.pairing.getPairing(peerDID);
+    if (!pairing || pairing.status !== 'paired') {
+      throw new Error(`Device ${peerDID} is not paired with this device`);
+    }
+    if (this.options.devices.getDevice(peerDID)?.status === 'blocked') {
+      throw new Error(`Device ${peerDID} is blocked`);
+    }
+    return pairing;
+  }
+
+  private async encrypt(
+    peerDID: string,
+    pairing: DevicePairingResult,
+    position: { transferId: string; index: number; total: number },
+    plaintext: string
+  ): Promise<SyncEnvelope> {
+    const document = await this.didKey.resolveDID(peerDID);
+    const keyAgreementId = document.keyAgreement?.[0];
+    const recipientKey = document.verificationMethod?.find(method => method.id === keyAgreementId);
+    if (!recipientKey?.publicKeyJwk) {
+      throw new Error(`Device ${peerDID} has no key agreement key`);
+    }
+
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('x25519');
+    const agreement = crypto.diffieHellman({
+      privateKey,
+      publicKey: crypto.createPublicKey({ key: recipientKey.publicKeyJwk as crypto.JsonWebKey, format: 'jwk' })
+    });
+    const header: SyncEnvelopeHeader = {
+      alg: 'ECDH-ES+HKDF',
+      enc: 'A256GCM',
+      typ: 'device-sync+json',
+      epk: publicKey.export({ format: 'jwk' }),
+      kid: recipientKey.id,
+      skid: this.options.localDeviceDID,
+      ...position
+    };
+    const protectedHeader = Buffer.from(JSON.stringify(header)).toString('base64url');
+
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', contentKey(agreement, pairing, protectedHeader), iv);
+    cipher.setAAD(Buffer.from(protectedHeader));
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+    return {
+      protected: protectedHeader,
+      iv: iv.toString('base64url'),
+      ciphertext: ciphertext.toString('base64url'),
+      tag: cipher.getAuthTag().toString('base64url')
+    };
+  }
+
+  private async decrypt(envelope: SyncEnvelope, header: SyncEnvelopeHeader): Promise<string> {
+    if (header.kid.split('#')[0] !== this.options.localDeviceDID) {
+      throw new Error(`Sync chunk is for ${header.kid.split('#')[0]}, not this device`);
+    }
+    const pairing = this.requirePairing(header.skid);
+    const agreement = await this.options.devices.deriveSharedSecret(this.options.localDeviceDID, header.epk);
+
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', contentKey(agreement, pairing, envelope.protected), Buffer.from(envelope.iv, 'base64url'));
+      decipher.setAAD(Buffer.from(envelope.protected));
+      decipher.setAuthTag(Buffer.from(envelope.tag, 'base64url'));
+      return Buffer.concat([decipher.update(Buffer.from(envelope.ciphertext, 'base64url')), decipher.final()]).toString('utf-8');
+    } catch {
+      throw new Error(`Could not decrypt chunk ${header.index} of transfer ${header.transferId} from ${header.skid}`);
+    }
+  }
+}
+
+function decodeHeader(envelope: SyncEnvelope): SyncEnvelopeHeader {
+  let header: SyncEnvelopeHeader;
+  try {
+    header = JSON.parse(Buffer.from(envelope.protected, 'base64url').toString('utf-8'));
+  } catch {
+    throw new Error('Invalid sync envelope header');
+  }
+  if (header.alg !== 'ECDH-ES+HKDF' || header.enc !== 'A256GCM' || !header.epk || !header.kid || !header.skid || !header.transferId) {
+    throw new Error('Unsupported sync envelope');
+  }
+  return header;
+}
+
+/**
+ * AES-256 key from the X25519 agreement, salted with the pairing secret and bound to the header
+ */
+function contentKey(agreement: Uint8Array, pairing: DevicePairingResult, protectedHeader: string): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', agreement, pairing.sharedSecret, Buffer.from(protectedHeader), 32));
+}
+
+function missingIndices(transfer: IncomingTransfer): number[] {
+  return transfer.pieces.flatMap((piece, index) => (piece === undefined ? [index] : []));
+}
+
+function journalKey(kind: SyncItemKind, id: string): string {
+  return `${kind}:${id}`;
+}
+
+function hashOf(data: string | Uint8Array): string {
+  return crypto.createHash('sha256').update(data).digest('base64url');
+}
+
+/**
+ * Order of version `a` relative to version `b`
+ */
+function compareVersions(a: VersionVector, b: VersionVector): 'equal' | 'before' | 'after' | 'concurrent' {
+  let after = false;
+  let before = false;
+  for (const device of new Set([...Object.keys(a), ...Object.keys(b)])) {
+    if ((a[device] || 0) > (b[device] || 0)) {
+      after = true;
+    } else if ((a[device] || 0) < (b[device] || 0)) {
+      before = true;
+    }
+  }
+  if (after && before) {
+    return 'concurrent';
+  }
+  return after ? 'after' : before ? 'before' : 'equal';
+}
+
+function mergeVersions(a: VersionVector, b: VersionVector): VersionVector {
+  const merged: VersionVector = { ...a };
+  for (const [device, count] of Object.entries(b)) {
+    merged[device] = Math.max(merged[device] || 0, count);
+  }
+  return merged;
+}
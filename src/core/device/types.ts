@@ -5,8 +5,12 @@
  * such as Bluetooth MAC addresses, hardware IDs, and platform-specific identifiers.
  */
 
-import { RuntimePlatform } from '../../types';
+import { RuntimePlatform, SecureStorage, VerifiableCredential } from '../../types';
 import { KeyAlgorithm } from '../key-management/types';
+import type { KeyManager } from '../key-management/manager';
+import type { DIDKeyPlugin } from '../plugins/did-methods/did-key-plugin';
+import type { DeviceManager } from './manager';
+import type { DevicePairingManager } from './pairing';
 
 /**
  * Device identifier types
@@ -221,6 +225,89 @@ export interface DevicePairingResult {
   
   /** Pairing status */
   status: 'paired' | 'pending' | 'failed';
+  
+  /** Pairing session ID */
+  pairingId?: string;
+  
+  /** Short authentication string the users compared */
+  sas?: string;
+}
+
+/**
+ * Pairing invitation, shown as a QR code or sent over Bluetooth
+ */
+export interface DevicePairingInvitation {
+  type: 'device-pairing';
+  pairingId: string;
+  
+  /** DID of the inviting device */
+  deviceId: string;
+  deviceName: string;
+  capabilities: string[];
+  bluetoothService?: string;
+  
+  /** Ephemeral X25519 public key (base64url) */
+  ephemeralKey: string;
+  method: DevicePairingOptions['method'];
+  expiresAt: string;
+}
+
+/**
+ * Messages exchanged after the invitation
+ */
+export type DevicePairingMessage =
+  | {
+      /** Responder key and its commitment to the responder nonce */
+      type: 'device-pairing-response';
+      pairingId: string;
+      device: DeviceInfo;
+      ephemeralKey: string;
+      commitment: string;
+    }
+  | {
+      /** Initiator nonce and device, signed by the initiating device */
+      type: 'device-pairing-nonce';
+      pairingId: string;
+      device: DeviceInfo;
+      nonce: string;
+      signature: string;
+    }
+  | {
+      /** Responder nonce, opening the commitment, signed by the responding device */
+      type: 'device-pairing-reveal';
+      pairingId: string;
+      nonce: string;
+      signature: string;
+    }
+  | {
+      /** Whether the user confirmed that the short authentication strings match */
+      type: 'device-pairing-confirm';
+      pairingId: string;
+      confirmed: boolean;
+    };
+
+/**
+ * Carries pairing messages between the two devices
+ */
+export interface DevicePairingTransport {
+  send(message: DevicePairingMessage): Promise<void>;
+  receive(): Promise<DevicePairingMessage>;
+}
+
+/**
+ * Shows the short authentication string to the user and resolves to whether it matches the other device
+ */
+export type SasConfirmation = (sas: string) => Promise<boolean>;
+
+/**
+ * Device pairing manager options
+ */
+export interface DevicePairingManagerOptions {
+  /** Registry of the local devices, which sign pairing messages and tokens */
+  devices: DeviceManager;
+  
+  /** Lifetime of a pairing in milliseconds; defaults to 30 days */
+  pairingTtl?: number;
 }
 
 /**
@@ -387,4 +474,183 @@ export interface DeviceRegistryEntry {
   
   /** Trust level */
   trustLevel: 'trusted' | 'verified' | 'unknown' | 'blocked';
+  
+  /** Keyed hash of the identifiers the DID was derived from; the identifiers themselves are not kept */
+  fingerprint?: string;
+  
+  /** DID of the user the device belongs to, once attested */
+  controller?: string;
+  
+  /** Device attestation credential issued by the controller */
+  attestation?: VerifiableCredential;
+  
+  /** Device metadata that may be disclosed in attestations */
+  disclosedMetadata?: DeviceMetadata;
+}
+
+/**
+ * Unsigned device attestation credential
+ */
+export interface DeviceAttestationTemplate {
+  '@context': string[];
+  type: string[];
+  issuer: string;
+  validFrom: string;
+  validUntil?: string;
+  credentialSubject: {
+    id: string;
+    controller: string;
+    platform: RuntimePlatform;
+    capabilities: DeviceCapabilities;
+    [key: string]: any;
+  };
+}
+
+/**
+ * Kind of item kept in sync across devices
+ */
+export type SyncItemKind = 'credential' | 'key';
+
+/**
+ * Version vector: device DID to the number of changes that device made to an item
+ */
+export type VersionVector = Record<string, number>;
+
+/**
+ * Latest state of a credential or key, or a tombstone when it was deleted
+ */
+export interface SyncChange {
+  kind: SyncItemKind;
+  id: string;
+  version: VersionVector;
+  deleted: boolean;
+  
+  /** The credential, or the key bytes as base64url; absent from tombstones */
+  data?: any;
+  
+  updatedAt: string;
+}
+
+/**
+ * Changes of a device since the last sync with a peer
+ */
+export interface SyncChangeSet {
+  syncId: string;
+  from: string;
+  to: string;
+  
+  /** Journal sequence number of the sender the changes run to */
+  sequence: number;
+  changes: SyncChange[];
+}
+
+/**
+ * Chunk of an encrypted change set, in JWE JSON serialization.
+ * The protected header carries the transfer ID and chunk index, and the ephemeral key.
+ */
+export interface SyncEnvelope {
+  protected: string;
+  iv: string;
+  ciphertext: string;
+  tag: string;
+}
+
+/**
+ * Item changed on both devices since they last synced
+ */
+export interface SyncConflict {
+  kind: SyncItemKind;
+  id: string;
+  local: SyncChange;
+  remote: SyncChange;
+  detectedAt: string;
+}
+
+export interface SyncResult {
+  syncId: string;
+  from: string;
+  applied: number;
+  deleted: number;
+  
+  /** Changes the device already had */
+  skipped: number;
+  conflicts: SyncConflict[];
+}
+
+/**
+ * Receiver's answer to a chunk; `result` and `ack` are set once the transfer is complete
+ */
+export interface SyncReceipt {
+  transferId: string;
+  
+  /** Chunk indices still to be received */
+  missing: number[];
+  result?: SyncResult;
+  ack?: { transferId: string; sequence: number };
+}
+
+/**
+ * Storage kept in sync, e.g. the agent's secure storage
+ */
+export interface SyncableStorage {
+  listCredentials(): Promise<VerifiableCredential[]>;
+  storeCredential(credentialId: string, credential: VerifiableCredential): Promise<void>;
+  deleteCredential(credentialId: string): Promise<void>;
+  listKeys(): Promise<string[]>;
+  retrieveKey(keyId: string): Promise<Uint8Array | null>;
+  storeKey(keyId: string, key: Uint8Array): Promise<void>;
+  deleteKey(keyId: string): Promise<void>;
+}
+
+/**
+ * Device sync manager options
+ */
+export interface DeviceSyncManagerOptions {
+  /** The device this manager syncs for */
+  localDeviceDID: string;
+  devices: DeviceManager;
+  
+  /** Only paired devices are synced with */
+  pairing: DevicePairingManager;
+  storage: SyncableStorage;
+  
+  /** Items to sync; everything by default */
+  include?: (kind: SyncItemKind, id: string) => boolean;
+  
+  /** Plaintext characters per chunk; defaults to 64 KiB */
+  chunkSize?: number;
+  
+  /** Storage key prefix of the sync state, which is not synced; defaults to `device-sync:` */
+  statePrefix?: string;
+}
+
+/**
+ * Device manager options
+ */
+export interface DeviceManagerOptions {
+  /** Holds the device keys */
+  keyManager: KeyManager;
+  
+  /** Builds device DIDs and documents; defaults to Multikey documents */
+  didKey?: DIDKeyPlugin;
+  
+  /** Signs attestation credentials as the issuer (normally the user's primary DID) */
+  issueCredential?: (template: DeviceAttestationTemplate) => Promise<VerifiableCredential>;
+  
+  /**
+   * Keeps the seed device keys are derived from, so a device gets the same DID after a
+   * restart; without it the seed, and so the DIDs, only last as long as the manager
+   */
+  storage?: SecureStorage;
+}
+
+/**
+ * Device attestation options
+ */
+export interface DeviceAttestationOptions {
+  /** Issuing DID, the user's primary DID */
+  issuer: string;
+  
+  /** Expiry of the attestation */
+  validUntil?: string;
 } 
\ No newline at end of file
@@ -0,0 +1,263 @@
+/**
+ * DID URL Dereferencer
+ *
+ * Dereferences DID URLs on top of DID resolution:
+ *
+ * - `did:example:123` returns the DID document
+ * - `did:example:123#key-1` returns the verification method or service with that id
+ * - `did:example:123?service=files&relativeRef=/a.json` returns the service endpoint URL
+ * - `did:cheqd:testnet:<id>/resources/<uuid>` returns a DID-linked resource, and
+ *   `.../resources/<uuid>/metadata` its metadata; `?resourceName=...&resourceType=...`
+ *   selects the latest matching resource
+ *
+ * `versionTime`/`versionId` in the query are passed on to the resolver.
+ *
+ * @see https://w3c-ccg.github.io/did-resolution/#dereferencing
+ * @see https://docs.cheqd.io/product/advanced/did-linked-resources
+ */
+
+import { parse } from 'did-resolver';
+import type { DIDDocument, ParsedDID, Resolvable, Service, VerificationMethod } from 'did-resolver';
+import type { DIDLinkedResourceClient } from '../resource/resource-client.js';
+import type { ResourceMetadata } from '../resource/types.js';
+
+export interface DIDDereferencingOptions {
+  /** DID requesting a resource, for private and shared DID-linked resources */
+  requestingDid?: string;
+}
+
+export interface DIDDereferencingMetadata {
+  contentType?: string;
+  error?: string;
+  message?: string;
+  [key: string]: any;
+}
+
+export interface DIDDereferencingResult {
+  dereferencingMetadata: DIDDereferencingMetadata;
+  /** DID document, verification method, service, endpoint URL or resource content */
+  contentStream: any;
+  /** Document metadata for DID documents and their parts, resource metadata for resources */
+  contentMetadata: Record<string, any>;
+}
+
+export interface DIDUrlDereferencerOptions {
+  resolver: Resolvable;
+  /** Source of DID-linked resources; resource paths cannot be dereferenced without it */
+  resources?: DIDLinkedResourceClient;
+}
+
+const DID_CONTENT_TYPE = 'application/did+json';
+const URI_LIST_CONTENT_TYPE = 'text/uri-list';
+const VERSION_PARAMETERS = ['versionTime', 'versionId'];
+
+export class DIDUrlDereferencer {
+  constructor(private options: DIDUrlDereferencerOptions) {}
+
+  /**
+   * Dereference a DID URL. Errors are reported in `dereferencingMetadata.error`:
+   * `invalidDidUrl`, `notFound`, or the DID resolution error.
+   */
+  async dereference(didUrl: string, options: DIDDereferencingOptions = {}): Promise<DIDDereferencingResult> {
+    const parsed = parse(didUrl);
+    if (!parsed) {
+      return errorResult('invalidDidUrl', `Invalid DID URL: ${didUrl}`);
+    }
+
+    const query = new URLSearchParams(parsed.query || '');
+    const resourcePath = /^\/resources(?:\/([^/]+)(\/metadata)?)?\/?$/.exec(parsed.path || '');
+    if (resourcePath || query.has('resourceName') || query.has('resourceType') || query.has('resourceId')) {
+      return this.dereferenceResource(parsed, query, resourcePath?.[1] || query.get('resourceId'), !!resourcePath?.[2], options);
+    }
+    if (parsed.path) {
+      return errorResult('notFound', `Path ${parsed.path} cannot be dereferenced for did:${parsed.method}`);
+    }
+
+    const versionQuery = VERSION_PARAMETERS.filter(name => query.has(name)).map(name => `${name}=${query.get(name)}`).join('&');
+    const resolution = await this.options.resolver.resolve(versionQuery ? `${parsed.did}?${versionQuery}` : parsed.did);
+    const document = resolution.didDocument;
+    if (!document) {
+      return errorResult(resolution.didResolutionMetadata.error || 'notFound', resolution.didResolutionMetadata.message || `Could not resolve ${parsed.did}`);
+    }
+
+    const service = query.get('service');
+    if (service) {
+      return this.dereferenceService(parsed, document, service, query.get('relativeRef'), resolution.didDocumentMetadata);
+    }
+
+    if (parsed.fragment) {
+      const fragment = findFragment(document, parsed.did, parsed.fragment);
+      if (!fragment) {
+        return errorResult('notFound', `${parsed.did}#${parsed.fragment} is not in the DID document`);
+      }
+      return {
+        dereferencingMetadata: { contentType: DID_CONTENT_TYPE },
+        contentStream: fragment,
+        contentMetadata: resolution.didDocumentMetadata
+      };
+    }
+
+    return {
+      dereferencingMetadata: { contentType: DID_CONTENT_TYPE },
+      contentStream: document,
+      contentMetadata: resolution.didDocumentMetadata
+    };
+  }
+
+  /**
+   * Dereference a verification method ID, e.g. a proof's `verificationMethod` or a JWT `kid`
+   */
+  async dereferenceVerificationMethod(didUrl: string): Promise<VerificationMethod> {
+    const result = await this.dereference(didUrl);
+    if (result.dereferencingMetadata.error) {
+      throw new Error(`Failed to dereference ${didUrl}: ${result.dereferencingMetadata.message || result.dereferencingMetadata.error}`);
+    }
+    if (!result.contentStream?.controller || result.contentStream.serviceEndpoint) {
+      throw new Error(`${didUrl} is not a verification method`);
+    }
+    return result.contentStream as VerificationMethod;
+  }
+
+  /**
+   * A fetch that dereferences `did:` URLs and passes any other URL to the global fetch,
+   * so HTTP and DID URL references (e.g. status list credentials) load the same way.
+   * Service endpoint URLs are followed.
+   */
+  fetch = async (url: string, init?: RequestInit): Promise<Response> => {
+    if (!url.startsWith('did:')) {
+      return fetch(url, init);
+    }
+
+    const result = await this.dereference(url);
+    const { error, message, contentType } = result.dereferencingMetadata;
+    if (error) {
+      return new Response(message || error, { status: error === 'notFound' ? 404 : 400 });
+    }
+    if (contentType === URI_LIST_CONTENT_TYPE) {
+      return fetch(result.contentStream, init);
+    }
+
+    const body = typeof result.contentStream === 'string' ? result.contentStream : JSON.stringify(result.contentStream);
+    return new Response(body, { status: 200, headers: { 'Content-Type': contentType || 'application/json' } });
+  };
+
+  private dereferenceService(
+    parsed: ParsedDID,
+    document: DIDDocument,
+    serviceId: string,
+    relativeRef: string | null,
+    documentMetadata: Record<string, any>
+  ): DIDDereferencingResult {
+    const service = (document.service || []).find(item => matchesId(item.id, parsed.did, serviceId));
+    const endpoint = service && serviceEndpointUrl(service);
+    if (!endpoint) {
+      return errorResult('notFound', `No service ${serviceId} with a URL endpoint in the DID document of ${parsed.did}`);
+    }
+
+    let url: string;
+    try {
+      // RFC 3986 reference resolution against the endpoint
+      url = relativeRef ? new URL(relativeRef, endpoint).toString() : endpoint;
+    } catch {
+      return errorResult('invalidDidUrl', `Invalid relativeRef ${relativeRef} for ${endpoint}`);
+    }
+
+    return {
+      dereferencingMetadata: { contentType: URI_LIST_CONTENT_TYPE },
+      contentStream: parsed.fragment ? `${url}#${parsed.fragment}` : url,
+      contentMetadata: documentMetadata
+    };
+  }
+
+  private async dereferenceResource(
+    parsed: ParsedDID,
+    query: URLSearchParams,
+    resourceId: string | null,
+    metadataOnly: boolean,
+    options: DIDDereferencingOptions
+  ): Promise<DIDDereferencingResult> {
+    const client = this.options.resources;
+    if (!client) {
+      return errorResult('notFound', 'DID-linked resources are not available');
+    }
+
+    let id = resourceId;
+    if (!id && (query.has('resourceName') || query.has('resourceType'))) {
+      id = await this.findResourceId(client, parsed.did, query);
+    }
+    if (!id) {
+      return errorResult(parsed.path ? 'notFound' : 'invalidDidUrl', `No resource of ${parsed.did} matches ${parsed.didUrl}`);
+    }
+
+    const resource = options.requestingDid
+      ? await client.getResource(options.requestingDid, id)
+      : await client.getPublicResource(id);
+    if (!resource || resource.did !== parsed.did) {
+      return errorResult('notFound', `Resource ${id} of ${parsed.did} not found`);
+    }
+
+    const { data, ...metadata } = resource;
+    if (metadataOnly) {
+      return { dereferencingMetadata: { contentType: 'application/json' }, contentStream: metadata, contentMetadata: metadata };
+    }
+    return {
+      dereferencingMetadata: { contentType: typeof data === 'string' ? 'text/plain' : 'application/json' },
+      contentStream: data,
+      contentMetadata: metadata
+    };
+  }
+
+  /**
+   * Latest resource of a DID matching `resourceName`, `resourceType` and `resourceVersion`,
+   * created at or before `resourceVersionTime` when given
+   */
+  private async findResourceId(client: DIDLinkedResourceClient, did: string, query: URLSearchParams): Promise<string | null> {
+    const versionTime = query.has('resourceVersionTime') ? Date.parse(query.get('resourceVersionTime')!) : Infinity;
+    const matches = (resource: ResourceMetadata) =>
+      (!query.has('resourceName') || resource.name === query.get('resourceName')) &&
+      (!query.has('resourceType') || resource.type === query.get('resourceType')) &&
+      (!query.has('resourceVersion') || resource.version === query.get('resourceVersion')) &&
+      Date.parse(resource.createdAt) <= versionTime;
+
+    // listResources returns the newest first
+    const { resources } = await client.listResources(did, { limit: Number.MAX_SAFE_INTEGER });
+    return resources.find(matches)?.resourceId || null;
+  }
+}
+
+function errorResult(error: string, message: string): DIDDereferencingResult {
+  return {
+    dereferencingMetadata: { error, message },
+    contentStream: null,
+    contentMetadata: {}
+  };
+}
+
+function matchesId(id: string, did: string, target: string): boolean {
+  const absolute = id.startsWith('#') ? `${did}${id}` : id;
+  return absolute === `${did}#${target}` || absolute === target;
+}
+
+/**
+ * Verification methods are searched in `verificationMethod` and embedded in the relationships
+ */
+function findFragment(document: DIDDocument, did: string, fragment: string): VerificationMethod | Service | undefined {
+  const relationships = ['authentication', 'assertionMethod', 'keyAgreement', 'capabilityInvocation', 'capabilityDelegation'] as const;
+  const embedded = relationships.flatMap(name => (document[name] || []).filter((entry): entry is VerificationMethod => typeof entry !== 'string'));
+  const candidates: (VerificationMethod | Service)[] = [...(document.verificationMethod || []), ...embedded, ...(document.service || [])];
+
+  return candidates.find(item => matchesId(item.id, did, fragment));
+}
+
+function serviceEndpointUrl(service: Service): string | undefined {
+  const endpoints = Array.isArray(service.serviceEndpoint) ? service.serviceEndpoint : [service.serviceEndpoint];
+  for (const endpoint of endpoints) {
+    if (typeof endpoint === 'string') {
+      return endpoint;
+    }
+    if (endpoint && typeof endpoint === 'object' && typeof (endpoint as Record<string, any>).uri === 'string') {
+      return (endpoint as Record<string, any>).uri;
+    }
+  }
+  return undefined;
+}
@@ -3,4 +3,7 @@
  * Based on ADR-0015: DID Core Architecture and Purpose
  */
 
-export * from './did-importer.js'; 
\ No newline at end of file
+export * from './did-importer.js'; 
+export * from './resolver.js';
+export * from './dereferencer.js';
+export * from './lifecycle.js';
\ No newline at end of file
@@ -0,0 +1,297 @@
+/**
+ * DID Document Lifecycle
+ *
+ * Document-level operations behind DID updates: adding and removing
+ * verification methods and services, rotating a key, and a version history
+ * for methods whose registry keeps none (did:cheqd keeps its own on ledger).
+ *
+ * A rotated key is kept in `verificationMethod` without any verification
+ * relationship, so signatures made with it can still be checked against the
+ * current document while the key can no longer be used for new proofs.
+ *
+ * Version times are XML datetimes without fractions of a second, as DID Core
+ * asks of `created` and `updated`, so they compare with `versionTime` queries.
+ */
+
+import type { DIDDocument, DIDDocumentMetadata, Service, VerificationMethod } from 'did-resolver';
+import type { SecureStorage } from '../../types';
+
+export type VerificationRelationship =
+  | 'authentication'
+  | 'assertionMethod'
+  | 'keyAgreement'
+  | 'capabilityInvocation'
+  | 'capabilityDelegation';
+
+export interface DIDDocumentUpdate {
+  /** Verification methods to add, with their relationships; defaults to authentication and assertionMethod */
+  addVerificationMethods?: { method: VerificationMethod; relationships?: VerificationRelationship[] }[];
+  /** IDs (absolute or `#fragment`) of verification methods to remove from the document */
+  removeVerificationMethods?: string[];
+  addServices?: Service[];
+  /** IDs (absolute or `#fragment`) of services to remove */
+  removeServices?: string[];
+}
+
+export interface KeyRotationOptions {
+  /** Keep the replaced key in `verificationMethod`, without relationships; defaults to true */
+  retainPreviousKey?: boolean;
+}
+
+export interface DIDDocumentVersion {
+  versionId: string;
+  document: DIDDocument;
+  /** When this version was recorded */
+  updated: string;
+  deactivated: boolean;
+}
+
+/**
+ * Keeps the versions of DID documents between restarts
+ */
+export interface DIDVersionStore {
+  /** The versions of each DID, oldest first */
+  list(): Promise<DIDDocumentVersion[][]>;
+  save(did: string, versions: DIDDocumentVersion[]): Promise<void>;
+  delete(did: string): Promise<void>;
+}
+
+const RELATIONSHIPS: VerificationRelationship[] = [
+  'authentication',
+  'assertionMethod',
+  'keyAgreement',
+  'capabilityInvocation',
+  'capabilityDelegation'
+];
+const DEFAULT_RELATIONSHIPS: VerificationRelationship[] = ['authentication', 'assertionMethod'];
+
+/**
+ * Apply an update to a DID document, returning a new document. Removals apply
+ * before additions; removed verification methods are dropped from every relationship.
+ */
+export function applyDIDDocumentUpdate(document: DIDDocument, update: DIDDocumentUpdate): DIDDocument {
+  const did = document.id;
+  const absolute = (id: string) => (id.startsWith('#') ? `${did}${id}` : id);
+  const result: DIDDocument = structuredClone(document);
+
+  const removedMethods = new Set((update.removeVerificationMethods || []).map(absolute));
+  for (const id of removedMethods) {
+    if (!(result.verificationMethod || []).some(method => absolute(method.id) === id)) {
+      throw new Error(`Verification method ${id} is not in the DID document of ${did}`);
+    }
+  }
+  result.verificationMethod = (result.verificationMethod || []).filter(method => !removedMethods.has(absolute(method.id)));
+  for (const relationship of RELATIONSHIPS) {
+    const entries = result[relationship]?.filter(entry => !removedMethods.has(absolute(typeof entry === 'string' ? entry : entry.id)));
+    setRelationship(result, relationship, entries);
+  }
+
+  for (const { method, relationships = DEFAULT_RELATIONSHIPS } of update.addVerificationMethods || []) {
+    const id = absolute(method.id);
+    if (result.verificationMethod.some(existing => absolute(existing.id) === id)) {
+      throw new Error(`Verification method ${id} is already in the DID document of ${did}`);
+    }
+    result.verificationMethod.push({ ...method, id, controller: method.controller || did });
+    for (const relationship of relationships) {
+      setRelationship(result, relationship, [...(result[relationship] || []), id]);
+    }
+  }
+
+  const removedServices = new Set((update.removeServices || []).map(absolute));
+  const services = (result.service || []).filter(service => !removedServices.has(absolute(service.id)));
+  for (const service of update.addServices || []) {
+    const id = absolute(service.id);
+    if (services.some(existing => absolute(existing.id) === id)) {
+      throw new Error(`Service ${id} is already in the DID document of ${did}`);
+    }
+    services.push({ ...service, id });
+  }
+  if (services.length > 0) {
+    result.service = services;
+  } else {
+    delete result.service;
+  }
+
+  return result;
+}
+
+/**
+ * Replace a verification method with a new key that takes over all of its relationships
+ */
+export function rotateVerificationMethod(
+  document: DIDDocument,
+  previousId: string,
+  method: VerificationMethod,
+  options: KeyRotationOptions = {}
+): DIDDocument {
+  const did = document.id;
+  const absolute = (id: string) => (id.startsWith('#') ? `${did}${id}` : id);
+  const previous = (document.verificationMethod || []).find(existing => absolute(existing.id) === absolute(previousId));
+  if (!previous) {
+    throw new Error(`Verification method ${previousId} is not in the DID document of ${did}`);
+  }
+
+  const relationships = RELATIONSHIPS.filter(relationship =>
+    (document[relationship] || []).some(entry => absolute(typeof entry === 'string' ? entry : entry.id) === absolute(previousId))
+  );
+  const rotated = applyDIDDocumentUpdate(document, {
+    removeVerificationMethods: [previousId],
+    addVerificationMethods: [{ method, relationships }]
+  });
+
+  if (options.retainPreviousKey !== false) {
+    rotated.verificationMethod!.push({ ...previous, id: absolute(previous.id) });
+  }
+  return rotated;
+}
+
+/**
+ * Versions of DID documents, for methods whose registry does not keep history (e.g. did:web).
+ * With a store, versions survive restarts once `load()` has read them back.
+ */
+export class DIDVersionHistory {
+  private versions: Map<string, DIDDocumentVersion[]> = new Map();
+  private loaded?: Promise<void>;
+
+  constructor(private store?: DIDVersionStore) {}
+
+  /**
+   * Read the versions kept in the store, once
+   */
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        for (const versions of (await this.store?.list()) || []) {
+          if (versions.length > 0) {
+            this.versions.set(versions[0].document.id, versions);
+          }
+        }
+      })().catch(err => {
+        this.loaded = undefined;
+        throw err;
+      });
+    }
+    return this.loaded;
+  }
+
+  /**
+   * Record a new version of a document; versions are numbered from 1
+   */
+  async record(document: DIDDocument, options: { deactivated?: boolean } = {}): Promise<DIDDocumentVersion> {
+    await this.load();
+    const versions = this.versions.get(document.id) || [];
+    const version: DIDDocumentVersion = {
+      versionId: String(versions.length + 1),
+      document: structuredClone(document),
+      updated: new Date().toISOString().replace(/\.\d{3}Z$/, 'Z'),
+      deactivated: options.deactivated ?? false
+    };
+    this.versions.set(document.id, [...versions, version]);
+    await this.store?.save(document.id, this.versions.get(document.id)!);
+    return version;
+  }
+
+  /**
+   * The DIDs with recorded versions
+   */
+  dids(): string[] {
+    return Array.from(this.versions.keys());
+  }
+
+  list(did: string): DIDDocumentVersion[] {
+    return [...(this.versions.get(did) || [])];
+  }
+
+  latest(did: string): DIDDocumentVersion | undefined {
+    return this.versions.get(did)?.at(-1);
+  }
+
+  /**
+   * A version by ID, or the version that was current at `versionTime`; the latest version by default
+   */
+  get(did: string, options: { versionId?: string; versionTime?: string } = {}): DIDDocumentVersion | undefined {
+    const versions = this.versions.get(did) || [];
+    if (options.versionId) {
+      return versions.find(version => version.versionId === options.versionId);
+    }
+    if (options.versionTime) {
+      const time = Date.parse(options.versionTime);
+      return [...versions].reverse().find(version => Date.parse(version.updated) <= time);
+    }
+    return versions.at(-1);
+  }
+
+  /**
+   * DID document metadata of a version, per DID Core
+   */
+  metadata(did: string, versionId: string): DIDDocumentMetadata {
+    const versions = this.versions.get(did) || [];
+    const index = versions.findIndex(version => version.versionId === versionId);
+    if (index < 0) {
+      return {};
+    }
+    const next = versions[index + 1];
+    return {
+      created: versions[0].updated,
+      ...(index > 0 ? { updated: versions[index].updated } : {}),
+      versionId,
+      ...(versions[index].deactivated ? { deactivated: true } : {}),
+      ...(next ? { nextUpdate: next.updated, nextVersionId: next.versionId } : {})
+    };
+  }
+
+  async delete(did: string): Promise<void> {
+    await this.load();
+    this.versions.delete(did);
+    await this.store?.delete(did);
+  }
+}
+
+/**
+ * Keeps DID document versions in an agent's encrypted secure storage
+ */
+export class SecureStorageDIDVersionStore implements DIDVersionStore {
+  constructor(
+    private storage: SecureStorage,
+    private prefix = 'did-versions:'
+  ) {}
+
+  async list(): Promise<DIDDocumentVersion[][]> {
+    const versions = await Promise.all((await this.index()).map(did => this.read(this.prefix + 'did:' + did)));
+    return versions.filter((list): list is DIDDocumentVersion[] => list !== null);
+  }
+
+  async save(did: string, versions: DIDDocumentVersion[]): Promise<void> {
+    await this.write(this.prefix + 'did:' + did, versions);
+    const index = await this.index();
+    if (!index.includes(did)) {
+      await this.write(this.prefix + 'index', [...index, did]);
+    }
+  }
+
+  async delete(did: string): Promise<void> {
+    await this.storage.deleteKey(this.prefix + 'did:' + did);
+    await this.write(this.prefix + 'index', (await this.index()).filter(id => id !== did));
+  }
+
+  private async index(): Promise<string[]> {
+    return (await this.read(this.prefix + 'index')) || [];
+  }
+
+  private async read(key: string): Promise<any> {
+    const data = await this.storage.retrieveKey(key);
+    return data ? JSON.parse(Buffer.from(data).toString('utf-8')) : null;
+  }
+
+  private async write(key: string, value: unknown): Promise<void> {
+    await this.storage.storeKey(key, new Uint8Array(Buffer.from(JSON.stringify(value), 'utf-8')));
+  }
+}
+
+function setRelationship(document: DIDDocument, relationship: VerificationRelationship, entries?: (string | VerificationMethod)[]): void {
+  if (entries && entries.length > 0) {
+    document[relationship] = entries;
+  } else {
+    delete document[relationship];
+  }
+}
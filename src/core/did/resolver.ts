@@ -0,0 +1,224 @@
+/**
+ * Caching DID Resolver
+ *
+ * Routes resolution by DID method to the registered method resolvers (the DID
+ * method plugins and the cheqd resolver) and caches the results. Each method
+ * has its own TTL; `notFound` results are cached briefly so that unknown DIDs
+ * do not hit the network on every call, and other errors are not cached.
+ *
+ * For methods that keep a version history (e.g. did:cheqd), `versionTime` and
+ * `versionId` are forwarded so old credentials can be verified against the
+ * document that was current when they were issued.
+ *
+ * Implements did-resolver's `Resolvable`, so it can back Veramo's
+ * `DIDResolverPlugin` and anything else that takes a resolver.
+ */
+
+import { parse } from 'did-resolver';
+import type {
+  DIDResolutionOptions,
+  DIDResolutionResult,
+  DIDResolver,
+  ParsedDID,
+  Resolvable
+} from 'did-resolver';
+
+export interface DIDMethodRegistration {
+  resolver: DIDResolver;
+  /** Cache lifetime of resolved documents in milliseconds; `Infinity` for methods whose documents never change */
+  ttl?: number;
+  /** The method keeps a version history and accepts `versionTime`/`versionId` */
+  versioned?: boolean;
+}
+
+export interface CachingDIDResolverOptions {
+  /** Method name (without `did:`) to resolver */
+  methods?: Record<string, DIDResolver | DIDMethodRegistration>;
+  /** Cache lifetime when the method sets none; defaults to 5 minutes */
+  defaultTtl?: number;
+  /** Cache lifetime of `notFound` results; defaults to 30 seconds */
+  negativeTtl?: number;
+  /** Oldest entries are evicted beyond this; defaults to 1000 */
+  maxEntries?: number;
+}
+
+export interface DIDResolveOptions extends DIDResolutionOptions {
+  /** Resolve the document as it was at this time */
+  versionTime?: string | Date;
+  /** Resolve a specific version of the document */
+  versionId?: string;
+  /** Bypass the cache; the fresh result still replaces the cached one */
+  noCache?: boolean;
+}
+
+interface CacheEntry {
+  result: DIDResolutionResult;
+  expiresAt: number;
+}
+
+const DEFAULT_TTL = 5 * 60 * 1000;
+const DEFAULT_NEGATIVE_TTL = 30 * 1000;
+const DEFAULT_MAX_ENTRIES = 1000;
+
+export class CachingDIDResolver implements Resolvable {
+  private methods: Map<string, DIDMethodRegistration> = new Map();
+  private cache: Map<string, CacheEntry> = new Map();
+  private inflight: Map<string, Promise<DIDResolutionResult>> = new Map();
+  private defaultTtl: number;
+  private negativeTtl: number;
+  private maxEntries: number;
+
+  constructor(options: CachingDIDResolverOptions = {}) {
+    this.defaultTtl = options.defaultTtl ?? DEFAULT_TTL;
+    this.negativeTtl = options.negativeTtl ?? DEFAULT_NEGATIVE_TTL;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+
+    for (const [method, registration] of Object.entries(options.methods || {})) {
+      this.registerMethod(method, registration);
+    }
+  }
+
+  /**
+   * Register (or replace) the resolver of a DID method. Cached results of the method are dropped.
+   */
+  registerMethod(method: string, registration: DIDResolver | DIDMethodRegistration): void {
+    this.methods.set(method, typeof registration === 'function' ? { resolver: registration } : registration);
+    this.invalidate(`did:${method}:`);
+  }
+
+  /**
+   * Methods that can be resolved
+   */
+  getMethods(): string[] {
+    return Array.from(this.methods.keys());
+  }
+
+  /**
+   * Resolve a DID or DID URL. The result is for the DID; fragments, paths and
+   * queries other than `versionTime`/`versionId` are ignored.
+   */
+  async resolve(didUrl: string, options: DIDResolveOptions = {}): Promise<DIDResolutionResult> {
+    const parsed = parse(didUrl);
+    if (!parsed) {
+      return errorResult('invalidDid', `Invalid DID: ${didUrl}`);
+    }
+
+    const registration = this.methods.get(parsed.method);
+    if (!registration) {
+      return errorResult('unsupportedDidMethod', `DID method ${parsed.method} is not supported`);
+    }
+
+    let version: { versionTime?: string; versionId?: string };
+    try {
+      version = registration.versioned ? this.versionParameters(parsed, options) : {};
+    } catch (err) {
+      return errorResult('invalidOptions', (err as Error).message);
+    }
+
+    // Colons are left as is, as resolvers expect `versionTime=2023-01-01T10:00:00Z`
+    const query = Object.entries(version).map(([name, value]) => `${name}=${encodeURIComponent(value!).replace(/%3A/g, ':')}`).join('&');
+    const key = query ? `${parsed.did}?${query}` : parsed.did;
+
+    const cached = this.cache.get(key);
+    if (!options.noCache && cached && Date.now() < cached.expiresAt) {
+      return clone(cached.result);
+    }
+
+    // Concurrent resolutions of the same DID share one request
+    let pending = this.inflight.get(key);
+    if (!pending) {
+      pending = this.resolveWithMethod(key, registration, options).finally(() => this.inflight.delete(key));
+      this.inflight.set(key, pending);
+    }
+    return clone(await pending);
+  }
+
+  /**
+   * Drop cached results: of one DID (all versions), of every DID starting with a prefix, or everything
+   */
+  invalidate(didOrPrefix?: string): void {
+    if (!didOrPrefix) {
+      this.cache.clear();
+      return;
+    }
+    for (const key of Array.from(this.cache.keys())) {
+      if (key === didOrPrefix || key.startsWith(didOrPrefix.endsWith(':') ? didOrPrefix : `${didOrPrefix}?`)) {
+        this.cache.delete(key);
+      }
+    }
+  }
+
+  /**
+   * A did-resolver method map of the registered methods, e.g. for `new Resolver({ ...resolver.getResolver() })`
+   */
+  getResolver(): Record<string, DIDResolver> {
+    return Object.fromEntries(
+      this.getMethods().map(method => [method, (_did: string, parsed: ParsedDID, _resolver: Resolvable, options: DIDResolutionOptions) => this.resolve(parsed.didUrl, options)])
+    );
+  }
+
+  private async resolveWithMethod(key: string, registration: DIDMethodRegistration, options: DIDResolutionOptions): Promise<DIDResolutionResult> {
+    // The key is the DID plus the version query, which method resolvers like the universal resolver forward
+    const params = new URLSearchParams(parse(key)!.query || '');
+
+    let result: DIDResolutionResult;
+    try {
+      result = await registration.resolver(key, parse(key)!, this, options);
+    } catch (err) {
+      return errorResult('internalError', (err as Error).message);
+    }
+
+    const error = result.didResolutionMetadata?.error;
+    if (!error && result.didDocument) {
+      // A version pinned by id or by a past time never changes
+      const versionTime = params.get('versionTime');
+      const historical = params.has('versionId') || (versionTime && Date.parse(versionTime) < Date.now());
+      this.store(key, result, historical ? Infinity : registration.ttl ?? this.defaultTtl);
+    } else if (error === 'notFound') {
+      this.store(key, result, this.negativeTtl);
+    }
+    return result;
+  }
+
+  private store(key: string, result: DIDResolutionResult, ttl: number): void {
+    if (ttl <= 0) {
+      return;
+    }
+    this.cache.delete(key);
+    this.cache.set(key, { result, expiresAt: Date.now() + ttl });
+    if (this.cache.size > this.maxEntries) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+  }
+
+  /**
+   * Version parameters from the options or the DID URL query, with `versionTime` as an XML datetime in UTC
+   */
+  private versionParameters(parsed: ParsedDID, options: DIDResolveOptions): { versionTime?: string; versionId?: string } {
+    const params = new URLSearchParams(parsed.query || '');
+    const versionId = options.versionId ?? params.get('versionId') ?? undefined;
+    const requestedTime = options.versionTime ?? params.get('versionTime') ?? undefined;
+    if (requestedTime === undefined) {
+      return versionId ? { versionId } : {};
+    }
+
+    const time = new Date(requestedTime);
+    if (Number.isNaN(time.getTime())) {
+      throw new Error(`Invalid versionTime: ${String(requestedTime)}`);
+    }
+    const versionTime = time.toISOString().replace(/\.\d{3}Z$/, 'Z');
+    return versionId ? { versionTime, versionId } : { versionTime };
+  }
+}
+
+function errorResult(error: string, message: string): DIDResolutionResult {
+  return {
+    didResolutionMetadata: { error, message },
+    didDocument: null,
+    didDocumentMetadata: {}
+  };
+}
+
+function clone(result: DIDResolutionResult): DIDResolutionResult {
+  return structuredClone(result);
+}
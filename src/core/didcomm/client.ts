@@ -0,0 +1,247 @@
+/**
+ * DIDComm v2 Client
+ *
+ * Packs and unpacks messages with keys from resolved DID documents: key
+ * agreement keys to encrypt to and from, authentication keys to sign with.
+ * Private keys come from a secret resolver, by verification method ID.
+ */
+
+import type { DIDDocument, VerificationMethod } from 'did-resolver';
+import {
+  decodeProtectedHeader,
+  decryptJWE,
+  encryptJWE,
+  GeneralJWE,
+  GeneralJWS,
+  PrivateKey,
+  PublicKey,
+  publicKeyJwkOf,
+  recipientsDigest,
+  signJWS,
+  verifyJWSSignature
+} from './crypto';
+import { assertDIDCommMessage } from './messages';
+import {
+  DIDCOMM_ENCRYPTED_MEDIA_TYPE,
+  DIDCOMM_SIGNED_MEDIA_TYPE,
+  DIDCommClientOptions,
+  DIDCommError,
+  DIDCommErrorCode,
+  DIDCommMessage,
+  DIDCommPackOptions,
+  DIDCommUnpackMetadata,
+  DIDCommUnpackResult
+} from './types';
+
+type Relationship = 'keyAgreement' | 'authentication';
+
+/** anoncrypt(authcrypt(signed(plaintext))) is the deepest nesting DIDComm allows */
+const MAX_ENVELOPES = 3;
+
+export class DIDCommClient {
+  constructor(private options: DIDCommClientOptions) {}
+
+  packPlaintext(message: DIDCommMessage): string {
+    assertDIDCommMessage(message);
+    return JSON.stringify(message);
+  }
+
+  /**
+   * Sign with an authentication key of the sender, which must be the message's `from`
+   */
+  async packSigned(message: DIDCommMessage, signFrom: string): Promise<string> {
+    assertDIDCommMessage(message);
+    assertSender(message, signFrom);
+    const signer = await this.findPrivateKey(signFrom, 'authentication');
+    return JSON.stringify(signJWS(Buffer.from(JSON.stringify(message)), signer, DIDCOMM_SIGNED_MEDIA_TYPE));
+  }
+
+  /**
+   * Encrypt to the key agreement keys of `to` (DIDs or key IDs): authcrypt from `options.from`,
+   * anoncrypt without it
+   */
+  async packEncrypted(message: DIDCommMessage, to: string | string[], options: DIDCommPackOptions = {}): Promise<string> {
+    assertDIDCommMessage(message);
+    const recipients = await this.findRecipientKeys(Array.isArray(to) ? to : [to]);
+    const enc = options.enc || 'A256CBC-HS512';
+
+    let payload = options.signFrom ? await this.packSigned(message, options.signFrom) : JSON.stringify(message);
+    if (options.from) {
+      assertSender(message, options.from);
+      const sender = await this.findPrivateKey(options.from, 'keyAgreement');
+      payload = JSON.stringify(encryptJWE(Buffer.from(payload), recipients, { typ: DIDCOMM_ENCRYPTED_MEDIA_TYPE, enc, sender }));
+      if (!options.protectSender) {
+        return payload;
+      }
+    }
+    return JSON.stringify(encryptJWE(Buffer.from(payload), recipients, { typ: DIDCOMM_ENCRYPTED_MEDIA_TYPE, enc }));
+  }
+
+  /**
+   * Open every envelope around a message, checking that the keys that authcrypted or signed it
+   * belong to its `from` and that it is addressed to the key it was decrypted with
+   */
+  async unpack(packed: string | Record<string, any>): Promise<DIDCommUnpackResult> {
+    const metadata: DIDCommUnpackMetadata = { encrypted: false, authenticated: false, nonRepudiation: false, anonymousSender: false };
+    let current = typeof packed === 'string' ? parseJSON(packed) : packed;
+    let anoncrypted = false;
+
+    for (let depth = 0; isJWE(current) || isJWS(current); depth++) {
+      if (depth === MAX_ENVELOPES) {
+        throw new DIDCommError(DIDCommErrorCode.MALFORMED, 'Too many nested envelopes');
+      }
+
+      if (isJWE(current)) {
+        const header = decodeProtectedHeader(current.protected);
+        if (header.apv !== recipientsDigest(current.recipients.map(recipient => recipient.header?.kid))) {
+          throw new DIDCommError(DIDCommErrorCode.MALFORMED, 'apv does not match the recipients');
+        }
+        const recipient = await this.findOwnRecipientKey(current);
+        let plaintext: Uint8Array;
+        if (header.alg === 'ECDH-1PU+A256KW') {
+          const skid = header.skid || (header.apu && Buffer.from(header.apu, 'base64url').toString('utf-8'));
+          if (!skid || (header.apu && Buffer.from(header.apu, 'base64url').toString('utf-8') !== skid)) {
+            throw new DIDCommError(DIDCommErrorCode.MALFORMED, 'Authcrypted message without a matching skid and apu');
+          }
+          const sender = await this.findPublicKey(skid, 'keyAgreement');
+          plaintext = decryptJWE(current, recipient, sender.publicKeyJwk);
+          metadata.authenticated = true;
+          metadata.encryptedFrom = skid;
+          metadata.anonymousSender = anoncrypted;
+        } else {
+          plaintext = decryptJWE(current, recipient);
+          anoncrypted = true;
+          metadata.anonymousSender = !metadata.encryptedFrom;
+        }
+        metadata.encrypted = true;
+        metadata.encryptedTo = metadata.encryptedTo || recipient.kid;
+        current = parseJSON(Buffer.from(plaintext).toString('utf-8'));
+        continue;
+      }
+
+      const jws = current as GeneralJWS;
+      const signature = jws.signatures[0];
+      const kid = signature.header?.kid || decodeProtectedHeader(signature.protected).kid;
+      if (!kid) {
+        throw new DIDCommError(DIDCommErrorCode.MALFORMED, 'Signed message without a key ID');
+      }
+      const signer = await this.findPublicKey(kid, 'authentication');
+      if (!verifyJWSSignature(jws, signature, signer.publicKeyJwk)) {
+        throw new DIDCommError(DIDCommErrorCode.INVALID_SIGNATURE, `Invalid signature by ${kid}`);
+      }
+      metadata.authenticated = true;
+      metadata.nonRepudiation = true;
+      metadata.signFrom = kid;
+      metadata.signedMessage = JSON.stringify(jws);
+      current = parseJSON(Buffer.from(jws.payload, 'base64url').toString('utf-8'));
+    }
+
+    assertDIDCommMessage(current);
+    const message = current as DIDCommMessage;
+    for (const kid of [metadata.encryptedFrom, metadata.signFrom]) {
+      if (kid && message.from !== didOf(kid)) {
+        throw new DIDCommError(DIDCommErrorCode.SENDER_MISMATCH, `Message from ${message.from} was packed by ${kid}`);
+      }
+    }
+    if (metadata.encryptedTo && message.to && !message.to.includes(didOf(metadata.encryptedTo))) {
+      throw new DIDCommError(DIDCommErrorCode.MALFORMED, `Message is not addressed to ${didOf(metadata.encryptedTo)}`);
+    }
+    if (message.expires_time && message.expires_time * 1000 < Date.now()) {
+      throw new DIDCommError(DIDCommErrorCode.EXPIRED, `Message ${message.id} expired`);
+    }
+    return { message, metadata };
+  }
+
+  /**
+   * Key agreement keys of the recipients; a DID stands for all of its keys
+   */
+  private async findRecipientKeys(to: string[]): Promise<PublicKey[]> {
+    const keys: PublicKey[] = [];
+    for (const recipient of to) {
+      const methods = await this.findMethods(recipient, 'keyAgreement');
+      keys.push(...methods.map(method => ({ kid: method.id, publicKeyJwk: publicKeyJwkOf(method) })));
+    }
+    return keys;
+  }
+
+  private async findPublicKey(kid: string, relationship: Relationship): Promise<PublicKey> {
+    const [method] = await this.findMethods(kid, relationship);
+    return { kid: method.id, publicKeyJwk: publicKeyJwkOf(method) };
+  }
+
+  /**
+   * The first key of a DID we hold the private key of, or the given key
+   */
+  private async findPrivateKey(didOrKid: string, relationship: Relationship): Promise<PrivateKey> {
+    for (const method of await this.findMethods(didOrKid, relationship)) {
+      const privateKeyJwk = await this.options.secrets(method.id);
+      if (privateKeyJwk) {
+        return { kid: method.id, privateKeyJwk };
+      }
+    }
+    throw new DIDCommError(DIDCommErrorCode.KEY_NOT_FOUND, `No private ${relationship} key of ${didOrKid}`);
+  }
+
+  private async findOwnRecipientKey(jwe: GeneralJWE): Promise<PrivateKey> {
+    for (const { header } of jwe.recipients) {
+      const privateKeyJwk = header?.kid ? await this.options.secrets(header.kid) : null;
+      if (privateKeyJwk) {
+        return { kid: header.kid, privateKeyJwk };
+      }
+    }
+    throw new DIDCommError(DIDCommErrorCode.KEY_NOT_FOUND, 'Message is not encrypted to any key of ours');
+  }
+
+  /**
+   * Verification methods of a DID for a relationship, or the one a key ID refers to
+   */
+  private async findMethods(didOrKid: string, relationship: Relationship): Promise<VerificationMethod[]> {
+    const did = didOf(didOrKid);
+    let document: DIDDocument;
+    try {
+      document = await this.options.resolveDID(did);
+    } catch (error) {
+      throw new DIDCommError(DIDCommErrorCode.KEY_NOT_FOUND, `Could not resolve ${did}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const absolute = (id: string) => (id.startsWith('#') ? `${did}${id}` : id);
+    const methods = (document[relationship] || []).map(entry => {
+      const method = typeof entry === 'string'
+        ? document.verificationMethod?.find(candidate => absolute(candidate.id) === absolute(entry))
+        : entry;
+      return method ? { ...method, id: absolute(method.id) } : undefined;
+    }).filter((method): method is VerificationMethod => !!method);
+
+    const selected = didOrKid.includes('#') ? methods.filter(method => method.id === absolute(didOrKid)) : methods;
+    if (selected.length === 0) {
+      throw new DIDCommError(DIDCommErrorCode.KEY_NOT_FOUND, `${didOrKid} has no ${relationship} key`);
+    }
+    return selected;
+  }
+}
+
+export function didOf(didOrKid: string): string {
+  return didOrKid.split('#')[0];
+}
+
+function assertSender(message: DIDCommMessage, sender: string): void {
+  if (message.from !== didOf(sender)) {
+    throw new DIDCommError(DIDCommErrorCode.SENDER_MISMATCH, `Message from ${message.from} cannot be packed by ${sender}`);
+  }
+}
+
+function isJWE(value: any): value is GeneralJWE {
+  return typeof value?.protected === 'string' && typeof value.ciphertext === 'string' && Array.isArray(value.recipients);
+}
+
+function isJWS(value: any): value is GeneralJWS {
+  return typeof value?.payload === 'string' && Array.isArray(value.signatures) && value.signatures.length > 0;
+}
+
+function parseJSON(text: string): any {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new DIDCommError(DIDCommErrorCode.MALFORMED, 'Packed message is not JSON');
+  }
+}
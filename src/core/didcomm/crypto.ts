@@ -0,0 +1,319 @@
+/**
+ * DIDComm v2 Envelopes
+ *
+ * JWE and JWS in general JSON serialization as DIDComm uses them:
+ *
+ * - anoncrypt: ECDH-ES+A256KW with one ephemeral X25519 key for all recipients
+ * - authcrypt: ECDH-1PU+A256KW, where the sender's static key also enters the key
+ *   agreement and the KDF is bound to the content's authentication tag
+ * - signed: EdDSA, ES256 or ES256K with the signer's key ID in the unprotected header
+ *
+ * @see https://identity.foundation/didcomm-messaging/spec/v2.1/#message-encryption
+ * @see https://datatracker.ietf.org/doc/html/draft-madden-jose-ecdh-1pu-04
+ */
+
+import * as crypto from 'crypto';
+import { base58btc } from 'multiformats/bases/base58';
+import type { VerificationMethod } from 'did-resolver';
+import { DIDCommContentEncryption, DIDCommError, DIDCommErrorCode } from './types';
+
+export interface GeneralJWE {
+  protected: string;
+  recipients: { header: { kid: string }; encrypted_key: string }[];
+  iv: string;
+  ciphertext: string;
+  tag: string;
+}
+
+export interface GeneralJWS {
+  payload: string;
+  signatures: { protected: string; signature: string; header?: { kid?: string } }[];
+}
+
+/** Public key of a verification method */
+export interface PublicKey {
+  kid: string;
+  publicKeyJwk: JsonWebKey;
+}
+
+/** Key pair we hold the private key of */
+export interface PrivateKey {
+  kid: string;
+  privateKeyJwk: JsonWebKey;
+}
+
+export type KeyAgreementAlgorithm = 'ECDH-ES+A256KW' | 'ECDH-1PU+A256KW';
+export type SignatureAlgorithm = 'EdDSA' | 'ES256' | 'ES256K';
+
+/** Multicodec varint prefixes of multibase keys */
+const MULTICODEC_KEYS: Record<string, { crv: string; kty: string }> = {
+  ec01: { kty: 'OKP', crv: 'X25519' },
+  ed01: { kty: 'OKP', crv: 'Ed25519' }
+};
+/** Base58 key types of older verification method types */
+const BASE58_KEY_TYPES: Record<string, string> = {
+  X25519KeyAgreementKey2019: 'X25519',
+  Ed25519VerificationKey2018: 'Ed25519'
+};
+/** Initial value of AES key wrap (RFC 3394) */
+const KEY_WRAP_IV = Buffer.from('A6A6A6A6A6A6A6A6', 'hex');
+
+/**
+ * Public JWK of a verification method given as JWK, multikey or base58 key
+ */
+export function publicKeyJwkOf(method: VerificationMethod): JsonWebKey {
+  if (method.publicKeyJwk) {
+    const { kty, crv, x, y } = method.publicKeyJwk as JsonWebKey;
+    return { kty, crv, x, ...(y ? { y } : {}) };
+  }
+  if (method.publicKeyMultibase) {
+    const bytes = base58btc.decode(method.publicKeyMultibase);
+    const key = MULTICODEC_KEYS[Buffer.from(bytes.slice(0, 2)).toString('hex')];
+    if (key && bytes.length === 34) {
+      return { ...key, x: Buffer.from(bytes.slice(2)).toString('base64url') };
+    }
+  }
+  if (method.publicKeyBase58 && BASE58_KEY_TYPES[method.type]) {
+    return { kty: 'OKP', crv: BASE58_KEY_TYPES[method.type], x: Buffer.from(base58btc.baseDecode(method.publicKeyBase58)).toString('base64url') };
+  }
+  throw new DIDCommError(DIDCommErrorCode.UNSUPPORTED, `Unsupported key in verification method ${method.id}`);
+}
+
+export function decodeProtectedHeader(encoded: string): Record<string, any> {
+  try {
+    return JSON.parse(Buffer.from(encoded, 'base64url').toString('utf-8'));
+  } catch {
+    throw new DIDCommError(DIDCommErrorCode.MALFORMED, 'Invalid protected header');
+  }
+}
+
+/**
+ * Encrypt to every recipient key; with a sender key the message is authcrypted
+ */
+export function encryptJWE(
+  plaintext: Uint8Array,
+  recipients: PublicKey[],
+  options: { typ: string; enc: DIDCommContentEncryption; sender?: PrivateKey }
+): GeneralJWE {
+  for (const key of [...recipients.map(recipient => recipient.publicKeyJwk), ...(options.sender ? [options.sender.privateKeyJwk] : [])]) {
+    assertX25519(key);
+  }
+  if (options.sender && options.enc !== 'A256CBC-HS512') {
+    throw new DIDCommError(DIDCommErrorCode.UNSUPPORTED, 'Authcrypt requires A256CBC-HS512 content encryption');
+  }
+
+  const ephemeral = crypto.generateKeyPairSync('x25519');
+  const { kty, crv, x } = ephemeral.publicKey.export({ format: 'jwk' });
+  const alg: KeyAgreementAlgorithm = options.sender ? 'ECDH-1PU+A256KW' : 'ECDH-ES+A256KW';
+  const header = {
+    typ: options.typ,
+    alg,
+    enc: options.enc,
+    epk: { kty, crv, x },
+    apv: recipientsDigest(recipients.map(recipient => recipient.kid)),
+    ...(options.sender ? { skid: options.sender.kid, apu: Buffer.from(options.sender.kid).toString('base64url') } : {})
+  };
+  const protectedHeader = Buffer.from(JSON.stringify(header)).toString('base64url');
+
+  const cek = crypto.randomBytes(options.enc === 'A256CBC-HS512' ? 64 : 32);
+  const { iv, ciphertext, tag } = encryptContent(options.enc, cek, plaintext, Buffer.from(protectedHeader));
+
+  return {
+    protected: protectedHeader,
+    recipients: recipients.map(recipient => {
+      const publicKey = toPublicKey(recipient.publicKeyJwk);
+      const agreement = options.sender
+        ? Buffer.concat([
+          crypto.diffieHellman({ privateKey: ephemeral.privateKey, publicKey }),
+          crypto.diffieHellman({ privateKey: toPrivateKey(options.sender.privateKeyJwk), publicKey })
+        ])
+        : crypto.diffieHellman({ privateKey: ephemeral.privateKey, publicKey });
+      const kek = concatKdf(agreement, alg, header.apu, header.apv, options.sender ? tag : undefined);
+      const wrap = crypto.createCipheriv('id-aes256-wrap', kek, KEY_WRAP_IV);
+      return {
+        header: { kid: recipient.kid },
+        encrypted_key: Buffer.concat([wrap.update(cek), wrap.final()]).toString('base64url')
+      };
+    }),
+    iv: iv.toString('base64url'),
+    ciphertext: ciphertext.toString('base64url'),
+    tag: tag.toString('base64url')
+  };
+}
+
+/**
+ * Decrypt with one of our recipient keys; authcrypted messages need the sender's public key
+ */
+export function decryptJWE(jwe: GeneralJWE, recipient: PrivateKey, senderPublicKeyJwk?: JsonWebKey): Uint8Array {
+  const header = decodeProtectedHeader(jwe.protected);
+  if (header.alg !== 'ECDH-ES+A256KW' && header.alg !== 'ECDH-1PU+A256KW') {
+    throw new DIDCommError(DIDCommErrorCode.UNSUPPORTED, `Unsupported key agreement algorithm ${header.alg}`);
+  }
+  if (header.enc !== 'A256CBC-HS512' && header.enc !== 'A256GCM') {
+    throw new DIDCommError(DIDCommErrorCode.UNSUPPORTED, `Unsupported content encryption ${header.enc}`);
+  }
+  if (header.alg === 'ECDH-1PU+A256KW' && !senderPublicKeyJwk) {
+    throw new DIDCommError(DIDCommErrorCode.KEY_NOT_FOUND, 'Authcrypted message needs the sender key');
+  }
+  const entry = jwe.recipients.find(candidate => candidate.header?.kid === recipient.kid);
+  if (!entry) {
+    throw new DIDCommError(DIDCommErrorCode.KEY_NOT_FOUND, `Message is not encrypted to ${recipient.kid}`);
+  }
+
+  try {
+    assertX25519(header.epk);
+    const privateKey = toPrivateKey(recipient.privateKeyJwk);
+    const ephemeral = crypto.diffieHellman({ privateKey, publicKey: toPublicKey(header.epk) });
+    const agreement = header.alg === 'ECDH-1PU+A256KW'
+      ? Buffer.concat([ephemeral, crypto.diffieHellman({ privateKey, publicKey: toPublicKey(senderPublicKeyJwk!) })])
+      : ephemeral;
+    const tag = Buffer.from(jwe.tag, 'base64url');
+    const kek = concatKdf(agreement, header.alg, header.apu, header.apv, header.alg === 'ECDH-1PU+A256KW' ? tag : undefined);
+    const unwrap = crypto.createDecipheriv('id-aes256-wrap', kek, KEY_WRAP_IV);
+    const cek = Buffer.concat([unwrap.update(Buffer.from(entry.encrypted_key, 'base64url')), unwrap.final()]);
+    return decryptContent(header.enc, cek, {
+      iv: Buffer.from(jwe.iv, 'base64url'),
+      ciphertext: Buffer.from(jwe.ciphertext, 'base64url'),
+      tag
+    }, Buffer.from(jwe.protected));
+  } catch (error) {
+    if (error instanceof DIDCommError) {
+      throw error;
+    }
+    throw new DIDCommError(DIDCommErrorCode.DECRYPTION_FAILED, `Could not decrypt message for ${recipient.kid}`);
+  }
+}
+
+/**
+ * `apv` of a message: SHA-256 of the sorted recipient key IDs joined with dots
+ */
+export function recipientsDigest(kids: string[]): string {
+  return crypto.createHash('sha256').update([...kids].sort().join('.')).digest('base64url');
+}
+
+export function signJWS(payload: Uint8Array, signer: PrivateKey, typ: string): GeneralJWS {
+  const alg = signatureAlgorithmOf(signer.privateKeyJwk);
+  const protectedHeader = Buffer.from(JSON.stringify({ typ, alg })).toString('base64url');
+  const encodedPayload = Buffer.from(payload).toString('base64url');
+  const input = Buffer.from(`${protectedHeader}.${encodedPayload}`);
+  const key = toPrivateKey(signer.privateKeyJwk);
+  const signature = alg === 'EdDSA'
+    ? crypto.sign(null, input, key)
+    : crypto.sign('sha256', input, { key, dsaEncoding: 'ieee-p1363' });
+  return {
+    payload: encodedPayload,
+    signatures: [{ protected: protectedHeader, signature: signature.toString('base64url'), header: { kid: signer.kid } }]
+  };
+}
+
+export function verifyJWSSignature(jws: GeneralJWS, signature: GeneralJWS['signatures'][number], publicKeyJwk: JsonWebKey): boolean {
+  const header = decodeProtectedHeader(signature.protected);
+  if (header.alg !== signatureAlgorithmOf(publicKeyJwk)) {
+    return false;
+  }
+  const input = Buffer.from(`${signature.protected}.${jws.payload}`);
+  const key = toPublicKey(publicKeyJwk);
+  const bytes = Buffer.from(signature.signature, 'base64url');
+  return header.alg === 'EdDSA'
+    ? crypto.verify(null, input, key, bytes)
+    : crypto.verify('sha256', input, { key, dsaEncoding: 'ieee-p1363' }, bytes);
+}
+
+export function signatureAlgorithmOf(jwk: JsonWebKey): SignatureAlgorithm {
+  if (jwk.kty === 'OKP' && jwk.crv === 'Ed25519') {
+    return 'EdDSA';
+  }
+  if (jwk.kty === 'EC' && jwk.crv === 'P-256') {
+    return 'ES256';
+  }
+  if (jwk.kty === 'EC' && jwk.crv === 'secp256k1') {
+    return 'ES256K';
+  }
+  throw new DIDCommError(DIDCommErrorCode.UNSUPPORTED, `Unsupported signing key ${jwk.kty} ${jwk.crv}`);
+}
+
+function assertX25519(jwk: JsonWebKey): void {
+  if (jwk?.kty !== 'OKP' || jwk.crv !== 'X25519') {
+    throw new DIDCommError(DIDCommErrorCode.UNSUPPORTED, `Unsupported key agreement key ${jwk?.kty} ${jwk?.crv}`);
+  }
+}
+
+function toPublicKey(jwk: JsonWebKey): crypto.KeyObject {
+  const publicJwk = { ...jwk };
+  delete publicJwk.d;
+  return crypto.createPublicKey({ key: publicJwk as crypto.JsonWebKey, format: 'jwk' });
+}
+
+function toPrivateKey(jwk: JsonWebKey): crypto.KeyObject {
+  return crypto.createPrivateKey({ key: jwk as crypto.JsonWebKey, format: 'jwk' });
+}
+
+/**
+ * Concat KDF (NIST SP 800-56A) for a 256-bit key wrapping key; ECDH-1PU appends the tag to SuppPubInfo
+ */
+function concatKdf(agreement: Buffer, alg: string, apu?: string, apv?: string, tag?: Buffer): Buffer {
+  const lengthPrefixed = (data: Buffer) => Buffer.concat([uint32(data.length), data]);
+  return crypto.createHash('sha256').update(Buffer.concat([
+    uint32(1),
+    agreement,
+    lengthPrefixed(Buffer.from(alg)),
+    lengthPrefixed(apu ? Buffer.from(apu, 'base64url') : Buffer.alloc(0)),
+    lengthPrefixed(apv ? Buffer.from(apv, 'base64url') : Buffer.alloc(0)),
+    uint32(256),
+    ...(tag ? [lengthPrefixed(tag)] : [])
+  ])).digest();
+}
+
+function uint32(value: number): Buffer {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32BE(value);
+  return buffer;
+}
+
+function encryptContent(
+  enc: DIDCommContentEncryption,
+  cek: Buffer,
+  plaintext: Uint8Array,
+  aad: Buffer
+): { iv: Buffer; ciphertext: Buffer; tag: Buffer } {
+  if (enc === 'A256GCM') {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', cek, iv);
+    cipher.setAAD(aad);
+    const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return { iv, ciphertext, tag: cipher.getAuthTag() };
+  }
+
+  // AES_CBC_HMAC_SHA2 (RFC 7518, section 5.2)
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv('aes-256-cbc', cek.subarray(32), iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, ciphertext, tag: cbcHmacTag(cek.subarray(0, 32), aad, iv, ciphertext) };
+}
+
+function decryptContent(
+  enc: DIDCommContentEncryption,
+  cek: Buffer,
+  { iv, ciphertext, tag }: { iv: Buffer; ciphertext: Buffer; tag: Buffer },
+  aad: Buffer
+): Uint8Array {
+  if (enc === 'A256GCM') {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', cek, iv);
+    decipher.setAAD(aad);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  }
+
+  const expected = cbcHmacTag(cek.subarray(0, 32), aad, iv, ciphertext);
+  if (expected.length !== tag.length || !crypto.timingSafeEqual(expected, tag)) {
+    throw new Error('Authentication tag mismatch');
+  }
+  const decipher = crypto.createDecipheriv('aes-256-cbc', cek.subarray(32), iv);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+function cbcHmacTag(macKey: Buffer, aad: Buffer, iv: Buffer, ciphertext: Buffer): Buffer {
+  const aadBits = Buffer.alloc(8);
+  aadBits.writeBigUInt64BE(BigInt(aad.length * 8));
+  return crypto.createHmac('sha512', macKey).update(Buffer.concat([aad, iv, ciphertext, aadBits])).digest().subarray(0, 32);
+}
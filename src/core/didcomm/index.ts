@@ -0,0 +1,77 @@
+/**
+ * DIDComm Module - Barrel Export
+ *
+ * This module implements DIDComm Messaging v2: plaintext, signed and
+ * encrypted (anoncrypt and authcrypt) messages with threads and attachments,
+ * sent between agents over pluggable transports.
+ *
+ * @example
+ * ```typescript
+ * const messenger = new DIDCommMessenger({ resolveDID, secrets, transports: [new HttpDIDCommTransport()] })
+ * messenger.on('https://didcomm.org/trust-ping/2.0/ping', async (message, { reply }) => {
+ *   await reply('https://didcomm.org/trust-ping/2.0/ping-response', {})
+ * })
+ * await messenger.send(createDIDCommMessage({ type: 'https://didcomm.org/trust-ping/2.0/ping', from: alice, to: bob }))
+ * ```
+ */
+
+export { DIDCommClient } from './client.js';
+export { DIDCommMessenger } from './messenger.js';
+export {
+  HttpDIDCommTransport,
+  WebSocketDIDCommTransport,
+  BluetoothDIDCommTransport,
+  InMemoryDIDCommTransport
+} from './transports.js';
+export type { WebSocketLike, WebSocketDIDCommTransportOptions } from './transports.js';
+export {
+  MediationClient,
+  COORDINATE_MEDIATION_PROTOCOL,
+  MESSAGE_PICKUP_PROTOCOL,
+  MediationMessageType,
+  PickupMessageType
+} from './mediation.js';
+export type {
+  MediationGrant,
+  KeylistAction,
+  KeylistUpdateResult,
+  PickupStatus,
+  MediationClientOptions
+} from './mediation.js';
+export {
+  createDIDCommMessage,
+  createDIDCommReply,
+  createDIDCommAttachment,
+  getDIDCommAttachmentData
+} from './messages.js';
+export type { CreateMessageOptions } from './messages.js';
+
+export {
+  DIDCOMM_PLAIN_MEDIA_TYPE,
+  DIDCOMM_SIGNED_MEDIA_TYPE,
+  DIDCOMM_ENCRYPTED_MEDIA_TYPE,
+  DIDCOMM_V2_PROFILE,
+  DIDCOMM_FORWARD_TYPE,
+  DIDCommError,
+  DIDCommErrorCode
+} from './types.js';
+
+export type {
+  DIDCommAttachmentData,
+  DIDCommAttachment,
+  DIDCommMessage,
+  DIDCommContentEncryption,
+  DIDCommPackOptions,
+  DIDCommUnpackMetadata,
+  DIDCommUnpackResult,
+  DIDCommSecretResolver,
+  DIDCommClientOptions,
+  DIDCommTransport,
+  DIDCommSession,
+  DIDCommMessageContext,
+  DIDCommMessageHandler,
+  DIDCommMessengerOptions,
+  DIDCommSendOptions
+} from './types.js';
+
+export * from './protocols/index.js';
@@ -0,0 +1,247 @@
+/**
+ * DIDComm Mediation Client
+ *
+ * For agents without a stable inbound endpoint, like mobile wallets: a mediator
+ * receives messages for them while they are offline. The client asks a
+ * mediator for mediation (Coordinate Mediation 3.0), registers the DIDs it
+ * receives messages for in the mediator's keylist, and collects queued
+ * messages (Message Pickup 3.0), either on request or live over a WebSocket.
+ *
+ * Requests ask for `return_route: all`, so the mediator answers on the same
+ * connection.
+ *
+ * @see https://didcomm.org/coordinate-mediation/3.0/
+ * @see https://didcomm.org/messagepickup/3.0/
+ */
+
+import { createDIDCommMessage, getDIDCommAttachmentData } from './messages';
+import type { DIDCommMessenger } from './messenger';
+import { PROBLEM_REPORT_TYPE } from './protocols/types';
+import { DIDCommError, DIDCommErrorCode, DIDCommMessage, DIDCommMessageContext } from './types';
+
+export const COORDINATE_MEDIATION_PROTOCOL = 'https://didcomm.org/coordinate-mediation/3.0';
+export const MESSAGE_PICKUP_PROTOCOL = 'https://didcomm.org/messagepickup/3.0';
+
+export const MediationMessageType = {
+  MEDIATE_REQUEST: `${COORDINATE_MEDIATION_PROTOCOL}/mediate-request`,
+  MEDIATE_GRANT: `${COORDINATE_MEDIATION_PROTOCOL}/mediate-grant`,
+  MEDIATE_DENY: `${COORDINATE_MEDIATION_PROTOCOL}/mediate-deny`,
+  RECIPIENT_UPDATE: `${COORDINATE_MEDIATION_PROTOCOL}/recipient-update`,
+  RECIPIENT_UPDATE_RESPONSE: `${COORDINATE_MEDIATION_PROTOCOL}/recipient-update-response`,
+  RECIPIENT_QUERY: `${COORDINATE_MEDIATION_PROTOCOL}/recipient-query`,
+  RECIPIENT: `${COORDINATE_MEDIATION_PROTOCOL}/recipient`
+} as const;
+
+export const PickupMessageType = {
+  STATUS_REQUEST: `${MESSAGE_PICKUP_PROTOCOL}/status-request`,
+  STATUS: `${MESSAGE_PICKUP_PROTOCOL}/status`,
+  DELIVERY_REQUEST: `${MESSAGE_PICKUP_PROTOCOL}/delivery-request`,
+  DELIVERY: `${MESSAGE_PICKUP_PROTOCOL}/delivery`,
+  MESSAGES_RECEIVED: `${MESSAGE_PICKUP_PROTOCOL}/messages-received`,
+  LIVE_DELIVERY_CHANGE: `${MESSAGE_PICKUP_PROTOCOL}/live-delivery-change`
+} as const;
+
+export interface MediationGrant {
+  mediatorDid: string;
+  /** DIDs to route through: the endpoint (or routing key) of DIDs that receive messages here */
+  routingDids: string[];
+}
+
+export type KeylistAction = 'add' | 'remove';
+
+export interface KeylistUpdateResult {
+  recipientDid: string;
+  action: KeylistAction;
+  result: 'success' | 'no_change' | 'client_error' | 'server_error';
+}
+
+export interface PickupStatus {
+  recipientDid?: string;
+  messageCount: number;
+  liveDelivery: boolean;
+}
+
+export interface MediationClientOptions {
+  messenger: DIDCommMessenger;
+  /** Our DID in the relationship with the mediator; needs no endpoint */
+  did: string;
+  mediatorDid: string;
+  /** Milliseconds to wait for the mediator's answer (default: 30000) */
+  timeout?: number;
+  /** Called with messages picked up that could not be unpacked; they are acknowledged anyway */
+  onUndeliverable?: (error: Error, messageId: string) => void;
+}
+
+interface PendingRequest {
+  resolve: (message: DIDCommMessage) => void;
+  reject: (error: Error) => void;
+}
+
+export class MediationClient {
+  private pending: Map<string, PendingRequest> = new Map();
+
+  constructor(private options: MediationClientOptions) {
+    const messenger = options.messenger;
+    for (const type of [
+      MediationMessageType.MEDIATE_GRANT,
+      MediationMessageType.MEDIATE_DENY,
+      MediationMessageType.RECIPIENT_UPDATE_RESPONSE,
+      MediationMessageType.RECIPIENT,
+      PickupMessageType.STATUS,
+      PROBLEM_REPORT_TYPE
+    ]) {
+      messenger.on(type, async (message, context) => this.answer(message, context));
+    }
+    messenger.on(PickupMessageType.DELIVERY, async (message, context) => {
+      if (!this.fromMediator(message, context)) {
+        return;
+      }
+      await this.receiveDelivery(message);
+      this.answer(message, context);
+    });
+  }
+
+  get mediatorDid(): string {
+    return this.options.mediatorDid;
+  }
+
+  /**
+   * Ask the mediator to mediate for us
+   */
+  async requestMediation(): Promise<MediationGrant> {
+    const answer = await this.request(MediationMessageType.MEDIATE_REQUEST, {});
+    if (answer.type !== MediationMessageType.MEDIATE_GRANT) {
+      throw new DIDCommError(DIDCommErrorCode.REJECTED, `${this.options.mediatorDid} denied mediation`);
+    }
+    return { mediatorDid: this.options.mediatorDid, routingDids: answer.body.routing_did || [] };
+  }
+
+  /**
+   * Add or remove DIDs the mediator accepts forwarded messages for
+   */
+  async updateKeylist(updates: { add?: string[]; remove?: string[] }): Promise<KeylistUpdateResult[]> {
+    const answer = await this.request(MediationMessageType.RECIPIENT_UPDATE, {
+      updates: [
+        ...(updates.add || []).map(did => ({ recipient_did: did, action: 'add' })),
+        ...(updates.remove || []).map(did => ({ recipient_did: did, action: 'remove' }))
+      ]
+    });
+    return (answer.body.updated || []).map((update: any) => ({
+      recipientDid: update.recipient_did,
+      action: update.action,
+      result: update.result
+    }));
+  }
+
+  /**
+   * DIDs the mediator accepts forwarded messages for
+   */
+  async queryKeylist(): Promise<string[]> {
+    const answer = await this.request(MediationMessageType.RECIPIENT_QUERY, {});
+    return (answer.body.dids || []).map((entry: { recipient_did: string }) => entry.recipient_did);
+  }
+
+  /**
+   * Messages waiting at the mediator, for one DID or all of ours
+   */
+  async getStatus(recipientDid?: string): Promise<PickupStatus> {
+    return statusOf(await this.request(PickupMessageType.STATUS_REQUEST, recipientDid ? { recipient_did: recipientDid } : {}));
+  }
+
+  /**
+   * Collect up to `limit` waiting messages, pass them to the messenger and acknowledge them
+   * @returns how many messages were collected
+   */
+  async pickup(limit = 10, recipientDid?: string): Promise<number> {
+    const answer = await this.request(PickupMessageType.DELIVERY_REQUEST, {
+      limit,
+      ...(recipientDid ? { recipient_did: recipientDid } : {})
+    });
+    return answer.type === PickupMessageType.DELIVERY ? answer.attachments?.length || 0 : 0;
+  }
+
+  /**
+   * Have messages pushed as they arrive, while the connection to the mediator stays open;
+   * needs a WebSocket endpoint of the mediator
+   */
+  async setLiveDelivery(enabled: boolean): Promise<PickupStatus> {
+    return statusOf(await this.request(PickupMessageType.LIVE_DELIVERY_CHANGE, { live_delivery: enabled }));
+  }
+
+  private async request(type: string, body: Record<string, any>): Promise<DIDCommMessage> {
+    const message: DIDCommMessage = {
+      ...createDIDCommMessage({ type, from: this.options.did, to: this.options.mediatorDid, body }),
+      return_route: 'all'
+    };
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const answer = new Promise<DIDCommMessage>((resolve, reject) => {
+      this.pending.set(message.id, { resolve, reject });
+      timer = setTimeout(
+        () => reject(new DIDCommError(DIDCommErrorCode.TIMEOUT, `${this.options.mediatorDid} did not answer ${type}`)),
+        this.options.timeout ?? 30000
+      );
+    });
+    // The answer may come back before the send returns, e.g. in an HTTP response
+    answer.catch(() => undefined);
+    try {
+      await this.options.messenger.send(message);
+      return await answer;
+    } finally {
+      clearTimeout(timer);
+      this.pending.delete(message.id);
+    }
+  }
+
+  private answer(message: DIDCommMessage, context: DIDCommMessageContext): void {
+    if (!this.fromMediator(message, context)) {
+      return;
+    }
+    if (message.type === PROBLEM_REPORT_TYPE) {
+      const request = message.pthid ? this.pending.get(message.pthid) : undefined;
+      request?.reject(new DIDCommError(DIDCommErrorCode.REJECTED, `${message.body.code}: ${message.body.comment || 'request failed'}`));
+      return;
+    }
+    const request = message.thid ? this.pending.get(message.thid) : undefined;
+    request?.resolve(message);
+  }
+
+  /**
+   * Receive the messages of a delivery, then tell the mediator it can drop them
+   */
+  private async receiveDelivery(delivery: DIDCommMessage): Promise<void> {
+    const ids: string[] = [];
+    for (const attachment of delivery.attachments || []) {
+      const data = getDIDCommAttachmentData(attachment);
+      const packed = data instanceof Uint8Array ? Buffer.from(data).toString('utf-8') : JSON.stringify(data);
+      try {
+        await this.options.messenger.receive(packed);
+      } catch (error) {
+        this.options.onUndeliverable?.(error instanceof Error ? error : new Error(String(error)), attachment.id!);
+      }
+      ids.push(attachment.id!);
+    }
+    if (ids.length) {
+      await this.options.messenger.send({
+        ...createDIDCommMessage({
+          type: PickupMessageType.MESSAGES_RECEIVED,
+          from: this.options.did,
+          to: this.options.mediatorDid,
+          body: { message_id_list: ids }
+        }),
+        return_route: 'all'
+      });
+    }
+  }
+
+  private fromMediator(message: DIDCommMessage, context: DIDCommMessageContext): boolean {
+    return context.metadata.authenticated && message.from === this.options.mediatorDid;
+  }
+}
+
+function statusOf(answer: DIDCommMessage): PickupStatus {
+  return {
+    ...(answer.body.recipient_did ? { recipientDid: answer.body.recipient_did } : {}),
+    messageCount: answer.body.message_count || 0,
+    liveDelivery: answer.body.live_delivery === true
+  };
+}
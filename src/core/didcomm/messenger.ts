@@ -0,0 +1,292 @@
+/**
+ * DIDComm v2 Messenger
+ *
+ * Sends messages to the DIDCommMessaging service endpoints of their recipients
+ * over the transport for each endpoint's URI scheme, and dispatches received
+ * messages to handlers by message type. Messages sent, and authenticated ones
+ * received, are kept per thread for a bounded number of recently active threads.
+ *
+ * Endpoints with routing keys, or a mediator's DID as URI, get the message
+ * wrapped in a Routing 2.0 forward for each mediator on the way. Senders that
+ * ask for `return_route: all` are answered over the connection their message
+ * arrived on for as long as it stays open.
+ */
+
+import type { Service } from 'did-resolver';
+import { DIDCommClient, didOf } from './client';
+import { createDIDCommAttachment, createDIDCommMessage, createDIDCommReply } from './messages';
+import {
+  DIDCOMM_FORWARD_TYPE,
+  DIDCOMM_V2_PROFILE,
+  DIDCommAttachment,
+  DIDCommError,
+  DIDCommErrorCode,
+  DIDCommMessage,
+  DIDCommMessageContext,
+  DIDCommMessageHandler,
+  DIDCommMessengerOptions,
+  DIDCommSendOptions,
+  DIDCommSession,
+  DIDCommTransport,
+  DIDCommUnpackResult
+} from './types';
+
+interface ServiceEndpoint {
+  uri: string;
+  accept?: string[];
+  routingKeys?: string[];
+}
+
+/**
+ * Where to deliver a message: a transport endpoint and the mediators to forward through, outermost first
+ */
+interface Route {
+  uri: string;
+  hops: string[];
+}
+
+interface Thread {
+  messages: DIDCommMessage[];
+  updatedAt: number;
+}
+
+export class DIDCommMessenger {
+  readonly client: DIDCommClient;
+  private transports: Map<string, DIDCommTransport> = new Map();
+  private handlers: Map<string, DIDCommMessageHandler[]> = new Map();
+  /** Threads by thid, least recently active first */
+  private threads: Map<string, Thread> = new Map();
+  /** Open connections to answer senders over, by sender DID */
+  private sessions: Map<string, DIDCommSession> = new Map();
+
+  constructor(private options: DIDCommMessengerOptions) {
+    this.client = new DIDCommClient(options);
+    for (const transport of options.transports || []) {
+      this.addTransport(transport);
+    }
+  }
+
+  /**
+   * Use a transport for its URI schemes, replacing any transport registered for them
+   */
+  addTransport(transport: DIDCommTransport): void {
+    for (const scheme of transport.schemes) {
+      this.transports.set(scheme, transport);
+    }
+  }
+
+  /**
+   * Handle received messages of a type; handlers of a type run in the order they were added
+   */
+  on(type: string, handler: DIDCommMessageHandler): void {
+    this.handlers.set(type, [...(this.handlers.get(type) || []), handler]);
+  }
+
+  /**
+   * Remove a handler, or all handlers of a type
+   */
+  off(type: string, handler?: DIDCommMessageHandler): void {
+    const remaining = handler ? (this.handlers.get(type) || []).filter(existing => existing !== handler) : [];
+    if (remaining.length) {
+      this.handlers.set(type, remaining);
+    } else {
+      this.handlers.delete(type);
+    }
+  }
+
+  /**
+   * Pack a message for each recipient and deliver it over an open session with the recipient,
+   * or else to the first of the recipient's endpoints that takes it. Messages with a sender are
+   * authcrypted unless `anonymous` is set. A packed message an endpoint answers with on the same
+   * connection is received right away.
+   */
+  async send(message: DIDCommMessage, options: DIDCommSendOptions = {}): Promise<void> {
+    if (!message.to?.length) {
+      throw new DIDCommError(DIDCommErrorCode.MALFORMED, `Message ${message.id} has no recipients`);
+    }
+
+    this.record(message);
+    for (const recipient of message.to) {
+      const packed = await this.client.packEncrypted(message, recipient, {
+        ...options,
+        from: options.anonymous ? undefined : message.from
+      });
+
+      const session = this.sessions.get(didOf(recipient));
+      if (session) {
+        try {
+          await session.send(packed);
+          continue;
+        } catch {
+          this.sessions.delete(didOf(recipient));
+        }
+      }
+
+      const errors: string[] = [];
+      let response: string | void | undefined;
+      let delivered = false;
+      for (const route of await this.findRoutes(recipient)) {
+        const transport = this.transports.get(route.uri.split(':')[0]);
+        if (!transport) {
+          errors.push(`no transport for ${route.uri}`);
+          continue;
+        }
+        try {
+          response = await transport.send(route.uri, await this.forward(packed, recipient, route.hops));
+          delivered = true;
+          break;
+        } catch (error) {
+          errors.push(`${route.uri}: ${error instanceof Error ? error.message : error}`);
+        }
+      }
+      if (!delivered) {
+        throw new DIDCommError(DIDCommErrorCode.NO_ENDPOINT, `Could not deliver message ${message.id} to ${recipient}: ${errors.join('; ')}`);
+      }
+      if (response) {
+        await this.receive(response);
+      }
+    }
+  }
+
+  /**
+   * Unpack a message and pass it to the handlers for its type, if any.
+   * When it arrived on a `session` and asks for `return_route: all`, messages to its sender
+   * go over the session until it is closed.
+   */
+  async receive(packed: string | Record<string, any>, session?: DIDCommSession): Promise<DIDCommUnpackResult> {
+    const result = await this.client.unpack(packed);
+    const { message, metadata } = result;
+    // Forwards are only routed, and anyone can send anonymous messages: neither makes history
+    if (metadata.authenticated && message.type !== DIDCOMM_FORWARD_TYPE) {
+      this.record(message);
+    }
+    if (session && message.return_route === 'all' && message.from && metadata.authenticated) {
+      this.sessions.set(message.from, session);
+    }
+
+    const context: DIDCommMessageContext = {
+      metadata,
+      reply: async (type: string, body: Record<string, any>, attachments?: DIDCommAttachment[]) => {
+        const from = metadata.encryptedTo ? didOf(metadata.encryptedTo) : message.to?.[0];
+        await this.send(createDIDCommReply(message, { type, body, attachments, from }), {
+          anonymous: !metadata.encryptedFrom,
+          ...(metadata.nonRepudiation && from ? { signFrom: from } : {})
+        });
+      }
+    };
+    for (const handler of this.handlers.get(message.type) || []) {
+      await handler(message, context);
+    }
+    return result;
+  }
+
+  /**
+   * The open session messages to a DID go over, if any
+   */
+  getSession(did: string): DIDCommSession | undefined {
+    return this.sessions.get(didOf(did));
+  }
+
+  /**
+   * Stop sending over a session, e.g. when its connection closed
+   */
+  closeSession(session: DIDCommSession): void {
+    for (const [did, existing] of this.sessions) {
+      if (existing === session) {
+        this.sessions.delete(did);
+      }
+    }
+  }
+
+  /**
+   * Messages sent and received in a thread, oldest first
+   */
+  getThread(thid: string): DIDCommMessage[] {
+    this.pruneThreads();
+    return [...(this.threads.get(thid)?.messages || [])];
+  }
+
+  private record(message: DIDCommMessage): void {
+    const thid = message.thid || message.id;
+    const thread = this.threads.get(thid) || { messages: [], updatedAt: 0 };
+    if (!thread.messages.some(existing => existing.id === message.id)) {
+      thread.messages.push(message);
+    }
+    thread.updatedAt = Date.now();
+    // Re-insert so the map stays ordered by last activity
+    this.threads.delete(thid);
+    this.threads.set(thid, thread);
+    this.pruneThreads();
+  }
+
+  /**
+   * Forget expired threads, then the least recently active ones over the limit
+   */
+  private pruneThreads(): void {
+    const expiredBefore = Date.now() - (this.options.threadTtl ?? 60 * 60 * 1000);
+    const maxThreads = this.options.maxThreads ?? 100;
+    for (const [thid, thread] of this.threads) {
+      if (thread.updatedAt >= expiredBefore && this.threads.size <= maxThreads) {
+        break;
+      }
+      this.threads.delete(thid);
+    }
+  }
+
+  /**
+   * DIDComm v2 endpoints of a DID, in the order of its services
+   */
+  private async findEndpoints(did: string): Promise<ServiceEndpoint[]> {
+    const document = await this.options.resolveDID(didOf(did));
+    const services = (document.service || []).filter((service: Service) => service.type === 'DIDCommMessaging');
+    const endpoints = services
+      .flatMap(service => (Array.isArray(service.serviceEndpoint) ? service.serviceEndpoint : [service.serviceEndpoint]))
+      .map(endpoint => (typeof endpoint === 'string' ? { uri: endpoint } : endpoint) as ServiceEndpoint)
+      .filter(endpoint => endpoint?.uri && (!endpoint.accept || endpoint.accept.includes(DIDCOMM_V2_PROFILE)));
+
+    if (endpoints.length === 0) {
+      throw new DIDCommError(DIDCommErrorCode.NO_ENDPOINT, `${did} has no DIDComm v2 service endpoint`);
+    }
+    return endpoints;
+  }
+
+  /**
+   * Routes to a DID's endpoints; an endpoint that is a mediator's DID is reached through the
+   * mediator's own endpoints, with the mediator as the outermost hop
+   */
+  private async findRoutes(did: string): Promise<Route[]> {
+    const routes: Route[] = [];
+    for (const endpoint of await this.findEndpoints(did)) {
+      const hops = endpoint.routingKeys || [];
+      if (!endpoint.uri.startsWith('did:')) {
+        routes.push({ uri: endpoint.uri, hops });
+        continue;
+      }
+      for (const mediatorEndpoint of await this.findEndpoints(endpoint.uri)) {
+        if (mediatorEndpoint.uri.startsWith('did:') || mediatorEndpoint.routingKeys?.length) {
+          throw new DIDCommError(DIDCommErrorCode.UNSUPPORTED, `Mediator ${endpoint.uri} is itself routed through ${mediatorEndpoint.uri}`);
+        }
+        routes.push({ uri: mediatorEndpoint.uri, hops: [endpoint.uri, ...hops] });
+      }
+    }
+    return routes;
+  }
+
+  /**
+   * Wrap a packed message in an anoncrypted forward for each hop, innermost for the last hop
+   */
+  private async forward(packed: string, recipient: string, hops: string[]): Promise<string> {
+    let next = recipient;
+    for (const hop of [...hops].reverse()) {
+      const forward = createDIDCommMessage({
+        type: DIDCOMM_FORWARD_TYPE,
+        to: didOf(hop),
+        body: { next },
+        attachments: [createDIDCommAttachment(JSON.parse(packed))]
+      });
+      packed = await this.client.packEncrypted(forward, hop);
+      next = hop;
+    }
+    return packed;
+  }
+}
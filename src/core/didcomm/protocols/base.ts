@@ -0,0 +1,190 @@
+/**
+ * DIDComm Exchange Protocol Base
+ *
+ * State handling shared by multi-step protocols: records persisted per thread,
+ * messages sent within the thread, checks that a received message fits the
+ * exchange, and problem reports that abandon it.
+ */
+
+import { didOf } from '../client';
+import { createDIDCommMessage } from '../messages';
+import { DIDCommAttachment, DIDCommMessage, DIDCommMessageContext } from '../types';
+import {
+  ExchangeProtocolError,
+  ExchangeProtocolOptions,
+  ExchangeRecord,
+  PROBLEM_REPORT_TYPE,
+  ProblemReport,
+  ProblemReportCode
+} from './types';
+
+export abstract class ExchangeProtocol<R extends ExchangeRecord> {
+  protected abstract readonly protocol: R['protocol'];
+
+  constructor(protected options: ExchangeProtocolOptions<R>) {
+    options.messenger.on(PROBLEM_REPORT_TYPE, (message, context) => this.handleProblemReport(message, context));
+  }
+
+  async getRecord(id: string): Promise<R | null> {
+    const record = await this.options.store.get(id);
+    return record?.protocol === this.protocol ? (record as R) : null;
+  }
+
+  async listRecords(): Promise<R[]> {
+    return (await this.options.store.list()).filter((record): record is R => record.protocol === this.protocol);
+  }
+
+  /**
+   * Give up on an exchange, telling the other party why
+   */
+  async abandon(id: string, comment?: string): Promise<R> {
+    const record = await this.requireRecord(id);
+    if (record.state === 'done' || record.state === 'abandoned') {
+      throw new Error(`Exchange ${id} is already ${record.state}`);
+    }
+    return this.fail(record, { code: ProblemReportCode.ABANDONED, comment });
+  }
+
+  protected async requireRecord(id: string, role?: R['role'], states?: R['state'][]): Promise<R> {
+    const record = await this.getRecord(id);
+    if (!record) {
+      throw new Error(`Exchange ${id} not found`);
+    }
+    if ((role && record.role !== role) || (states && !states.includes(record.state))) {
+      throw new Error(`Exchange ${id} is ${record.state} as ${record.role}; expected ${states?.join(' or ') || record.state} as ${role}`);
+    }
+    return record;
+  }
+
+  protected newRecord(fields: Omit<R, 'protocol' | 'createdAt' | 'updatedAt'>): R {
+    const now = new Date().toISOString();
+    return { ...fields, protocol: this.protocol, createdAt: now, updatedAt: now } as R;
+  }
+
+  /**
+   * Persist changes to a record before anything else happens in the exchange
+   */
+  protected async update(record: R, changes: Partial<R> = {}): Promise<R> {
+    const updated = { ...record, ...changes, updatedAt: new Date().toISOString() };
+    await this.options.store.save(updated);
+    this.options.onStateChanged?.(updated);
+    return updated;
+  }
+
+  /**
+   * Send a message in the exchange's thread; `first` starts the thread, so the record takes its ID
+   */
+  protected async send(
+    record: Pick<R, 'id' | 'myDid' | 'theirDid'>,
+    type: string,
+    body: Record<string, any>,
+    attachments?: DIDCommAttachment[],
+    first = false
+  ): Promise<void> {
+    const message = createDIDCommMessage({ type, from: record.myDid, to: record.theirDid, body, attachments });
+    await this.options.messenger.send(first ? { ...message, id: record.id } : { ...message, thid: record.id });
+  }
+
+  /**
+   * Register a handler; failures that abandon the exchange are answered with a problem report
+   */
+  protected handle(type: string, handler: (message: DIDCommMessage, context: DIDCommMessageContext) => Promise<void>): void {
+    this.options.messenger.on(type, async (message, context) => {
+      try {
+        await handler(message, context);
+      } catch (error) {
+        if (!(error instanceof ExchangeProtocolError)) {
+          throw error;
+        }
+        await this.reject(message, context, { code: error.code, comment: error.message });
+      }
+    });
+  }
+
+  /**
+   * The record of the exchange a received message continues, checked against who sent it
+   * and the states the message may arrive in
+   */
+  protected async continueRecord(
+    message: DIDCommMessage,
+    context: DIDCommMessageContext,
+    role: R['role'],
+    states: R['state'][]
+  ): Promise<R> {
+    const record = message.thid ? await this.getRecord(message.thid) : null;
+    if (!record || !this.fromParty(record, message, context)) {
+      throw new ExchangeProtocolError(ProblemReportCode.UNEXPECTED_MESSAGE, `${message.type} does not continue a known exchange`);
+    }
+    if (record.role !== role || !states.includes(record.state)) {
+      throw new ExchangeProtocolError(ProblemReportCode.UNEXPECTED_MESSAGE, `${message.type} is not expected in state ${record.state}`);
+    }
+    return record;
+  }
+
+  /**
+   * Record of the exchange a received message continues, or a new one started by it;
+   * `states` are the states of an existing record the message may arrive in
+   */
+  protected async startOrContinueRecord(
+    message: DIDCommMessage,
+    context: DIDCommMessageContext,
+    role: R['role'],
+    states: R['state'][],
+    fields: Partial<R>
+  ): Promise<R> {
+    const thid = message.thid || message.id;
+    if (await this.options.store.get(thid)) {
+      return this.continueRecord({ ...message, thid }, context, role, states);
+    }
+    if (!message.from || !context.metadata.authenticated) {
+      throw new ExchangeProtocolError(ProblemReportCode.UNEXPECTED_MESSAGE, `${message.type} must come from an authenticated sender`);
+    }
+    return this.newRecord({ ...fields, id: thid, role, myDid: this.recipientOf(message, context), theirDid: message.from } as any);
+  }
+
+  /**
+   * Abandon an exchange and send the other party a problem report
+   */
+  protected async fail(record: R, report: ProblemReport): Promise<R> {
+    const abandoned = await this.update(record, { state: 'abandoned', error: report } as Partial<R>);
+    await this.sendProblemReport(record.myDid, record.theirDid, record.id, report);
+    return abandoned;
+  }
+
+  private async reject(message: DIDCommMessage, context: DIDCommMessageContext, report: ProblemReport): Promise<void> {
+    const thid = message.thid || message.id;
+    const record = await this.getRecord(thid);
+    if (record && this.fromParty(record, message, context)) {
+      if (record.state !== 'done' && record.state !== 'abandoned') {
+        await this.fail(record, report);
+      }
+      return;
+    }
+    if (message.from) {
+      await this.sendProblemReport(this.recipientOf(message, context), message.from, thid, report);
+    }
+  }
+
+  private async handleProblemReport(message: DIDCommMessage, context: DIDCommMessageContext): Promise<void> {
+    const record = message.pthid ? await this.getRecord(message.pthid) : null;
+    if (!record || !this.fromParty(record, message, context) || record.state === 'abandoned') {
+      return;
+    }
+    await this.update(record, {
+      state: 'abandoned',
+      error: { code: message.body.code, ...(message.body.comment ? { comment: message.body.comment } : {}) }
+    } as Partial<R>);
+  }
+
+  private async sendProblemReport(from: string, to: string, pthid: string, report: ProblemReport): Promise<void> {
+    await this.options.messenger.send(createDIDCommMessage({ type: PROBLEM_REPORT_TYPE, from, to, pthid, body: report }));
+  }
+
+  private fromParty(record: R, message: DIDCommMessage, context: DIDCommMessageContext): boolean {
+    return context.metadata.authenticated && message.from === record.theirDid;
+  }
+
+  private recipientOf(message: DIDCommMessage, context: DIDCommMessageContext): string {
+    return context.metadata.encryptedTo ? didOf(context.metadata.encryptedTo) : message.to![0];
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * DIDComm Protocols - Barrel Export
+ *
+ * Issue Credential 3.0 and Present Proof 3.0 over DIDComm v2, with exchange
+ * records persisted per thread.
+ */
+
+export { ExchangeProtocol } from './base.js';
+export { IssueCredentialProtocol } from './issue-credential.js';
+export type { ProposeCredentialOptions, OfferCredentialOptions } from './issue-credential.js';
+export { PresentProofProtocol } from './present-proof.js';
+export type { ProposePresentationOptions, RequestPresentationOptions } from './present-proof.js';
+export { InMemoryExchangeRecordStore, SecureStorageExchangeRecordStore } from './store.js';
+
+export {
+  ISSUE_CREDENTIAL_PROTOCOL,
+  PRESENT_PROOF_PROTOCOL,
+  PROBLEM_REPORT_TYPE,
+  IssueCredentialMessageType,
+  PresentProofMessageType,
+  CREDENTIAL_DETAIL_FORMAT,
+  CREDENTIAL_FORMAT,
+  PRESENTATION_DEFINITION_FORMAT,
+  PRESENTATION_SUBMISSION_FORMAT,
+  ProblemReportCode,
+  ExchangeProtocolError
+} from './types.js';
+
+export type {
+  ProblemReport,
+  CredentialPreview,
+  CredentialDetail,
+  CredentialExchangeRole,
+  CredentialExchangeState,
+  CredentialExchangeRecord,
+  PresentationExchangeRole,
+  PresentationExchangeState,
+  PresentationExchangeRecord,
+  ExchangeRecord,
+  ExchangeRecordStore,
+  ExchangeProtocolOptions,
+  IssueCredentialProtocolOptions,
+  PresentProofProtocolOptions,
+  ExchangeParties
+} from './types.js';
@@ -0,0 +1,277 @@
+/**
+ * Issue Credential 3.0
+ *
+ * Holder and issuer sides of credential issuance over DIDComm:
+ * propose (holder) -> offer (issuer) -> request (holder) -> issue (issuer) -> ack (holder).
+ * An exchange may start at the proposal or the offer. Credentials use the
+ * `aries/ld-proof-vc-detail@v1.0` and `aries/ld-proof-vc@v1.0` attachment formats.
+ *
+ * @see https://github.com/decentralized-identity/waci-didcomm/tree/main/issue_credential
+ */
+
+import * as crypto from 'crypto';
+import { isDeepStrictEqual } from 'util';
+import { VerifiableCredential } from '../../../types';
+import { createDIDCommAttachment, getDIDCommAttachmentData } from '../messages';
+import { DIDCommMessage } from '../types';
+import { ExchangeProtocol } from './base';
+import {
+  CREDENTIAL_DETAIL_FORMAT,
+  CREDENTIAL_FORMAT,
+  CredentialDetail,
+  CredentialExchangeRecord,
+  CredentialPreview,
+  ExchangeParties,
+  ExchangeProtocolError,
+  ISSUE_CREDENTIAL_PROTOCOL,
+  IssueCredentialMessageType,
+  IssueCredentialProtocolOptions,
+  ProblemReportCode
+} from './types';
+
+export interface ProposeCredentialOptions extends ExchangeParties {
+  credential?: CredentialDetail;
+  preview?: CredentialPreview;
+}
+
+export type OfferCredentialOptions =
+  | { recordId: string; credential?: CredentialDetail; preview?: CredentialPreview; comment?: string }
+  | (ExchangeParties & { credential: CredentialDetail; preview?: CredentialPreview });
+
+export class IssueCredentialProtocol extends ExchangeProtocol<CredentialExchangeRecord> {
+  protected readonly protocol = ISSUE_CREDENTIAL_PROTOCOL;
+
+  constructor(protected options: IssueCredentialProtocolOptions) {
+    super(options);
+    this.handle(IssueCredentialMessageType.PROPOSE, async (message, context) => {
+      const record = await this.startOrContinueRecord(message, context, 'issuer', [], { state: 'proposal-received' });
+      await this.update(record, { ...this.termsOf(message, false), state: 'proposal-received' });
+    });
+    this.handle(IssueCredentialMessageType.OFFER, async (message, context) => {
+      const record = await this.startOrContinueRecord(message, context, 'holder', ['proposal-sent'], { state: 'offer-received' });
+      const terms = this.termsOf(message, true);
+      const offered = await this.update(record, { ...terms, offeredDetail: terms.credentialDetail, state: 'offer-received' });
+      if (this.options.autoAccept) {
+        await this.requestCredential(offered.id);
+      }
+    });
+    this.handle(IssueCredentialMessageType.REQUEST, async (message, context) => {
+      const record = await this.continueRecord(message, context, 'issuer', ['offer-sent']);
+      const requested = await this.update(record, { ...this.termsOf(message, true), state: 'request-received' });
+      if (this.options.autoAccept) {
+        await this.issue(requested.id);
+      }
+    });
+    this.handle(IssueCredentialMessageType.ISSUE, async (message, context) => {
+      const record = await this.continueRecord(message, context, 'holder', ['request-sent']);
+      await this.receiveCredential(record, message);
+    });
+    this.handle(IssueCredentialMessageType.ACK, async (message, context) => {
+      const record = await this.continueRecord(message, context, 'issuer', ['credential-issued']);
+      await this.update(record, { state: 'done' });
+    });
+  }
+
+  /**
+   * Holder: ask an issuer for a credential
+   */
+  async proposeCredential(options: ProposeCredentialOptions): Promise<CredentialExchangeRecord> {
+    const record = await this.update(
+      this.newRecord({
+        id: crypto.randomUUID(),
+        role: 'holder',
+        state: 'proposal-sent',
+        myDid: options.from,
+        theirDid: options.to,
+        goalCode: options.goalCode,
+        comment: options.comment,
+        credentialPreview: options.preview,
+        credentialDetail: options.credential
+      })
+    );
+    await this.send(record, IssueCredentialMessageType.PROPOSE, this.body(record), this.detailAttachments(options.credential), true);
+    return record;
+  }
+
+  /**
+   * Issuer: offer a credential, answering a proposal (`recordId`) or starting an exchange
+   */
+  async offerCredential(options: OfferCredentialOptions): Promise<CredentialExchangeRecord> {
+    let record: CredentialExchangeRecord;
+    let first = false;
+    if ('recordId' in options) {
+      const proposed = await this.requireRecord(options.recordId, 'issuer', ['proposal-received']);
+      const detail = options.credential || proposed.credentialDetail;
+      if (!detail) {
+        throw new Error(`Proposal ${proposed.id} has no credential to offer; provide one`);
+      }
+      record = {
+        ...proposed,
+        credentialDetail: detail,
+        credentialPreview: options.preview || proposed.credentialPreview,
+        comment: options.comment
+      };
+    } else {
+      first = true;
+      record = this.newRecord({
+        id: crypto.randomUUID(),
+        role: 'issuer',
+        state: 'offer-sent',
+        myDid: options.from,
+        theirDid: options.to,
+        goalCode: options.goalCode,
+        comment: options.comment,
+        credentialPreview: options.preview,
+        credentialDetail: options.credential
+      });
+    }
+
+    record = await this.update(record, { state: 'offer-sent', offeredDetail: record.credentialDetail });
+    await this.send(
+      record,
+      IssueCredentialMessageType.OFFER,
+      { ...this.body(record), ...(record.credentialPreview ? { credential_preview: record.credentialPreview } : {}) },
+      this.detailAttachments(record.credentialDetail),
+      first
+    );
+    return record;
+  }
+
+  /**
+   * Holder: accept an offer, asking for the credential to be issued to this exchange's DID
+   */
+  async requestCredential(recordId: string): Promise<CredentialExchangeRecord> {
+    const offered = await this.requireRecord(recordId, 'holder', ['offer-received']);
+    const detail = offered.offeredDetail!;
+    const requested: CredentialDetail = {
+      ...detail,
+      credential: { ...detail.credential, credentialSubject: { ...detail.credential.credentialSubject, id: offered.myDid } }
+    };
+    const record = await this.update(offered, { state: 'request-sent', credentialDetail: requested });
+    await this.send(record, IssueCredentialMessageType.REQUEST, this.body(record), this.detailAttachments(requested));
+    return record;
+  }
+
+  /**
+   * Issuer: issue the offered credential to the subject the holder requested it for
+   */
+  async issue(recordId: string): Promise<CredentialExchangeRecord> {
+    const requested = await this.requireRecord(recordId, 'issuer', ['request-received']);
+    const offered = requested.offeredDetail!.credential;
+    const subjectId = requested.credentialDetail?.credential.credentialSubject.id;
+
+    let credential: VerifiableCredential;
+    try {
+      if (!this.options.issueCredential) {
+        throw new Error('No credential issuer configured');
+      }
+      credential = await this.options.issueCredential(
+        { ...offered, credentialSubject: { ...offered.credentialSubject, ...(subjectId ? { id: subjectId } : {}) } },
+        requested
+      );
+    } catch (error) {
+      const comment = error instanceof Error ? error.message : String(error);
+      await this.fail(requested, { code: ProblemReportCode.ISSUANCE_FAILED, comment });
+      throw new ExchangeProtocolError(ProblemReportCode.ISSUANCE_FAILED, `Could not issue credential for ${recordId}: ${comment}`);
+    }
+
+    const record = await this.update(requested, { state: 'credential-issued', credential });
+    await this.send(record, IssueCredentialMessageType.ISSUE, this.body(record), [
+      createDIDCommAttachment(credential, { format: CREDENTIAL_FORMAT, media_type: 'application/ld+json' })
+    ]);
+    return record;
+  }
+
+  private async receiveCredential(requested: CredentialExchangeRecord, message: DIDCommMessage): Promise<void> {
+    const attachment = message.attachments?.find(candidate => candidate.format === CREDENTIAL_FORMAT);
+    const credential = attachment ? (getDIDCommAttachmentData(attachment) as VerifiableCredential) : undefined;
+    if (!credential?.credentialSubject) {
+      throw new ExchangeProtocolError(ProblemReportCode.REJECTED, `Issued credential is missing or not in the ${CREDENTIAL_FORMAT} format`);
+    }
+    const subjectId = requested.credentialDetail?.credential.credentialSubject.id;
+    if (subjectId && credential.credentialSubject.id !== subjectId) {
+      throw new ExchangeProtocolError(ProblemReportCode.REJECTED, `Credential was issued to ${credential.credentialSubject.id}, not ${subjectId}`);
+    }
+    const problem = await this.checkIssued(credential, requested);
+    if (problem) {
+      throw new ExchangeProtocolError(ProblemReportCode.REJECTED, problem);
+    }
+    try {
+      await this.options.acceptCredential?.(credential, requested);
+    } catch (error) {
+      throw new ExchangeProtocolError(ProblemReportCode.REJECTED, error instanceof Error ? error.message : String(error));
+    }
+
+    const record = await this.update(requested, { state: 'credential-received', credential });
+    await this.send(record, IssueCredentialMessageType.ACK, { status: 'OK' });
+    await this.update(record, { state: 'done' });
+  }
+
+  /**
+   * Why an issued credential is not the one offered: another issuer than the exchange's DID (or the
+   * issuer the offer named), other types or claims, or a proof that does not verify
+   */
+  private async checkIssued(credential: VerifiableCredential, requested: CredentialExchangeRecord): Promise<string | undefined> {
+    const offered = requested.offeredDetail!.credential;
+    const expectedIssuer = offered.issuer ? issuerOf(offered.issuer) : requested.theirDid;
+    if (issuerOf(credential.issuer) !== expectedIssuer) {
+      return `Credential was issued by ${issuerOf(credential.issuer)}, not ${expectedIssuer}`;
+    }
+    const types = ([] as string[]).concat(credential.type || []);
+    const missingTypes = ([] as string[]).concat(offered.type || []).filter(type => !types.includes(type));
+    if (missingTypes.length) {
+      return `Credential is not of the offered types ${missingTypes.join(', ')}`;
+    }
+    if (!isDeepStrictEqual(claimsOf(credential.credentialSubject), claimsOf(offered.credentialSubject))) {
+      return 'Credential claims differ from the offer';
+    }
+    if (this.options.verifyCredential) {
+      const result = await this.options.verifyCredential(credential);
+      if (!result.isValid) {
+        return `Credential does not verify: ${result.validationErrors.join(', ') || 'invalid proof'}`;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Terms a proposal, offer or request carries
+   */
+  private termsOf(message: DIDCommMessage, required: boolean): Partial<CredentialExchangeRecord> {
+    const attachment = message.attachments?.find(candidate => candidate.format === CREDENTIAL_DETAIL_FORMAT);
+    const detail = attachment ? (getDIDCommAttachmentData(attachment) as CredentialDetail) : undefined;
+    if ((required || attachment) && !detail?.credential?.credentialSubject) {
+      throw new ExchangeProtocolError(ProblemReportCode.REJECTED, `${message.type} needs a credential in the ${CREDENTIAL_DETAIL_FORMAT} format`);
+    }
+    return {
+      ...(detail ? { credentialDetail: detail } : {}),
+      ...(message.body.credential_preview ? { credentialPreview: message.body.credential_preview } : {}),
+      ...(message.body.goal_code ? { goalCode: message.body.goal_code } : {}),
+      ...(message.body.comment ? { comment: message.body.comment } : {})
+    };
+  }
+
+  private body(record: CredentialExchangeRecord): Record<string, any> {
+    return {
+      ...(record.goalCode ? { goal_code: record.goalCode } : {}),
+      ...(record.comment ? { comment: record.comment } : {})
+    };
+  }
+
+  private detailAttachments(detail?: CredentialDetail) {
+    return detail ? [createDIDCommAttachment(detail, { format: CREDENTIAL_DETAIL_FORMAT })] : undefined;
+  }
+}
+
+function issuerOf(issuer: VerifiableCredential['issuer'] | undefined): string | undefined {
+  return typeof issuer === 'string' ? issuer : issuer?.id;
+}
+
+/**
+ * Subject claims apart from the subject ID, which the holder sets in its request
+ */
+function claimsOf(subject: Record<string, any>): Record<string, any> {
+  const claims = { ...subject };
+  delete claims.id;
+  return claims;
+}
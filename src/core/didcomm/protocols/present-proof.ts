@@ -0,0 +1,262 @@
+/**
+ * Present Proof 3.0
+ *
+ * Prover and verifier sides of presentations over DIDComm:
+ * propose (prover) -> request (verifier) -> presentation (prover) -> ack (verifier).
+ * An exchange may start at the proposal or the request. Requests carry a DIF
+ * presentation definition with a challenge and domain; presentations carry the
+ * verifiable presentation with its presentation submission.
+ *
+ * @see https://github.com/decentralized-identity/waci-didcomm/tree/main/present_proof
+ */
+
+import * as crypto from 'crypto';
+import { VerifiablePresentation } from '../../../types';
+import { PresentationDefinition } from '../../presentation-exchange/types';
+import { createDIDCommAttachment, getDIDCommAttachmentData } from '../messages';
+import { DIDCommMessage } from '../types';
+import { ExchangeProtocol } from './base';
+import {
+  ExchangeParties,
+  ExchangeProtocolError,
+  PRESENT_PROOF_PROTOCOL,
+  PRESENTATION_DEFINITION_FORMAT,
+  PRESENTATION_SUBMISSION_FORMAT,
+  PresentationExchangeRecord,
+  PresentProofMessageType,
+  PresentProofProtocolOptions,
+  ProblemReportCode
+} from './types';
+
+export interface ProposePresentationOptions extends ExchangeParties {
+  presentationDefinition?: PresentationDefinition;
+}
+
+export type RequestPresentationOptions = { challenge?: string; domain?: string } & (
+  | { recordId: string; presentationDefinition?: PresentationDefinition; comment?: string }
+  | (ExchangeParties & { presentationDefinition: PresentationDefinition })
+);
+
+export class PresentProofProtocol extends ExchangeProtocol<PresentationExchangeRecord> {
+  protected readonly protocol = PRESENT_PROOF_PROTOCOL;
+
+  constructor(protected options: PresentProofProtocolOptions) {
+    super(options);
+    this.handle(PresentProofMessageType.PROPOSE, async (message, context) => {
+      const record = await this.startOrContinueRecord(message, context, 'verifier', [], { state: 'proposal-received' });
+      const definition = this.definitionOf(message, false);
+      await this.update(record, {
+        ...this.commentsOf(message),
+        ...(definition ? { presentationDefinition: definition.presentation_definition } : {}),
+        state: 'proposal-received'
+      });
+    });
+    this.handle(PresentProofMessageType.REQUEST, async (message, context) => {
+      const record = await this.startOrContinueRecord(message, context, 'prover', ['proposal-sent'], { state: 'request-received' });
+      const { presentation_definition, options: binding } = this.definitionOf(message, true)!;
+      const requested = await this.update(record, {
+        ...this.commentsOf(message),
+        presentationDefinition: presentation_definition,
+        challenge: binding?.challenge,
+        domain: binding?.domain,
+        willConfirm: message.body.will_confirm === true,
+        state: 'request-received'
+      });
+      if (this.options.autoAccept) {
+        await this.sendPresentation(requested.id);
+      }
+    });
+    this.handle(PresentProofMessageType.PRESENTATION, async (message, context) => {
+      const record = await this.continueRecord(message, context, 'verifier', ['request-sent']);
+      await this.verify(record, message);
+    });
+    this.handle(PresentProofMessageType.ACK, async (message, context) => {
+      const record = await this.continueRecord(message, context, 'prover', ['presentation-sent']);
+      await this.update(record, { state: 'done' });
+    });
+  }
+
+  /**
+   * Prover: offer to present, optionally with the definition the prover can satisfy
+   */
+  async proposePresentation(options: ProposePresentationOptions): Promise<PresentationExchangeRecord> {
+    const record = await this.update(
+      this.newRecord({
+        id: crypto.randomUUID(),
+        role: 'prover',
+        state: 'proposal-sent',
+        myDid: options.from,
+        theirDid: options.to,
+        goalCode: options.goalCode,
+        comment: options.comment,
+        presentationDefinition: options.presentationDefinition
+      })
+    );
+    const attachments = options.presentationDefinition
+      ? [createDIDCommAttachment({ presentation_definition: options.presentationDefinition }, { format: PRESENTATION_DEFINITION_FORMAT })]
+      : undefined;
+    await this.send(record, PresentProofMessageType.PROPOSE, this.body(record), attachments, true);
+    return record;
+  }
+
+  /**
+   * Verifier: request a presentation, answering a proposal (`recordId`) or starting an exchange.
+   * The challenge defaults to a random value and the domain to the verifier's DID.
+   */
+  async requestPresentation(options: RequestPresentationOptions): Promise<PresentationExchangeRecord> {
+    let record: PresentationExchangeRecord;
+    let first = false;
+    if ('recordId' in options) {
+      const proposed = await this.requireRecord(options.recordId, 'verifier', ['proposal-received']);
+      const definition = options.presentationDefinition || proposed.presentationDefinition;
+      if (!definition) {
+        throw new Error(`Proposal ${proposed.id} has no presentation definition to request; provide one`);
+      }
+      record = { ...proposed, presentationDefinition: definition, comment: options.comment };
+    } else {
+      first = true;
+      record = this.newRecord({
+        id: crypto.randomUUID(),
+        role: 'verifier',
+        state: 'request-sent',
+        myDid: options.from,
+        theirDid: options.to,
+        goalCode: options.goalCode,
+        comment: options.comment,
+        presentationDefinition: options.presentationDefinition
+      });
+    }
+
+    record = await this.update(record, {
+      state: 'request-sent',
+      challenge: options.challenge || crypto.randomUUID(),
+      domain: options.domain || record.myDid,
+      willConfirm: true
+    });
+    await this.send(
+      record,
+      PresentProofMessageType.REQUEST,
+      { ...this.body(record), will_confirm: true },
+      [
+        createDIDCommAttachment(
+          { options: { challenge: record.challenge, domain: record.domain }, presentation_definition: record.presentationDefinition },
+          { format: PRESENTATION_DEFINITION_FORMAT }
+        )
+      ],
+      first
+    );
+    return record;
+  }
+
+  /**
+   * Prover: answer the request with a presentation bound to its challenge and domain
+   */
+  async sendPresentation(recordId: string): Promise<PresentationExchangeRecord> {
+    const requested = await this.requireRecord(recordId, 'prover', ['request-received']);
+
+    let result;
+    try {
+      if (!this.options.createPresentation) {
+        throw new Error('No presentation creator configured');
+      }
+      result = await this.options.createPresentation(
+        requested.presentationDefinition!,
+        { challenge: requested.challenge!, domain: requested.domain! },
+        requested
+      );
+    } catch (error) {
+      const comment = error instanceof Error ? error.message : String(error);
+      await this.fail(requested, { code: ProblemReportCode.REJECTED, comment });
+      throw new ExchangeProtocolError(ProblemReportCode.REJECTED, `Could not present for ${recordId}: ${comment}`);
+    }
+
+    const record = await this.update(requested, {
+      state: 'presentation-sent',
+      presentation: result.presentation,
+      presentationSubmission: result.presentationSubmission
+    });
+    await this.send(record, PresentProofMessageType.PRESENTATION, this.body(record), [
+      createDIDCommAttachment(
+        { ...result.presentation, presentation_submission: result.presentationSubmission },
+        { format: PRESENTATION_SUBMISSION_FORMAT, media_type: 'application/ld+json' }
+      )
+    ]);
+    return record.willConfirm ? record : this.update(record, { state: 'done' });
+  }
+
+  private async verify(requested: PresentationExchangeRecord, message: DIDCommMessage): Promise<void> {
+    const attachment = message.attachments?.find(candidate => candidate.format === PRESENTATION_SUBMISSION_FORMAT);
+    const data = attachment ? getDIDCommAttachmentData(attachment) : undefined;
+    if (!data?.presentation_submission) {
+      throw new ExchangeProtocolError(
+        ProblemReportCode.INVALID_PRESENTATION,
+        `Presentation is missing or not in the ${PRESENTATION_SUBMISSION_FORMAT} format`
+      );
+    }
+    const { presentation_submission: presentationSubmission, ...presentation } = data;
+
+    let errors: string[];
+    try {
+      if (!this.options.verifyPresentation) {
+        throw new Error('No presentation verifier configured');
+      }
+      const result = await this.options.verifyPresentation(presentation as VerifiablePresentation, presentationSubmission, {
+        challenge: requested.challenge!,
+        domain: requested.domain!,
+        presentationDefinition: requested.presentationDefinition!
+      });
+      errors = result.isValid ? [] : [...result.validationErrors];
+      if (!result.isValid && errors.length === 0) {
+        errors.push('Presentation is not valid');
+      }
+    } catch (error) {
+      errors = [error instanceof Error ? error.message : String(error)];
+    }
+
+    const record = await this.update(requested, {
+      state: 'presentation-received',
+      presentation: presentation as VerifiablePresentation,
+      presentationSubmission,
+      verified: errors.length === 0,
+      verificationErrors: errors
+    });
+    if (errors.length) {
+      await this.fail(record, { code: ProblemReportCode.INVALID_PRESENTATION, comment: errors.join('; ') });
+      return;
+    }
+    await this.send(record, PresentProofMessageType.ACK, { status: 'OK' });
+    await this.update(record, { state: 'done' });
+  }
+
+  /**
+   * The presentation definition attachment of a proposal or request
+   */
+  private definitionOf(
+    message: DIDCommMessage,
+    required: boolean
+  ): { presentation_definition: PresentationDefinition; options?: { challenge?: string; domain?: string } } | undefined {
+    const attachment = message.attachments?.find(candidate => candidate.format === PRESENTATION_DEFINITION_FORMAT);
+    const data = attachment ? getDIDCommAttachmentData(attachment) : undefined;
+    if ((required || attachment) && !data?.presentation_definition?.input_descriptors) {
+      throw new ExchangeProtocolError(
+        ProblemReportCode.REJECTED,
+        `${message.type} needs a presentation definition in the ${PRESENTATION_DEFINITION_FORMAT} format`
+      );
+    }
+    return data;
+  }
+
+  private commentsOf(message: DIDCommMessage): Partial<PresentationExchangeRecord> {
+    return {
+      ...(message.body.goal_code ? { goalCode: message.body.goal_code } : {}),
+      ...(message.body.comment ? { comment: message.body.comment } : {})
+    };
+  }
+
+  private body(record: PresentationExchangeRecord): Record<string, any> {
+    return {
+      ...(record.goalCode ? { goal_code: record.goalCode } : {}),
+      ...(record.comment ? { comment: record.comment } : {})
+    };
+  }
+}
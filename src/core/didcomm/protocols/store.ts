@@ -0,0 +1,75 @@
+/**
+ * Exchange Record Stores
+ *
+ * Keep the state of protocol exchanges, in memory or in the agent's secure
+ * storage so exchanges survive restarts.
+ */
+
+import { SecureStorage } from '../../../types';
+import { ExchangeRecord, ExchangeRecordStore } from './types';
+
+export class InMemoryExchangeRecordStore implements ExchangeRecordStore {
+  private records: Map<string, ExchangeRecord> = new Map();
+
+  async get(id: string): Promise<ExchangeRecord | null> {
+    const record = this.records.get(id);
+    return record ? structuredClone(record) : null;
+  }
+
+  async save(record: ExchangeRecord): Promise<void> {
+    this.records.set(record.id, structuredClone(record));
+  }
+
+  async delete(id: string): Promise<void> {
+    this.records.delete(id);
+  }
+
+  async list(): Promise<ExchangeRecord[]> {
+    return Array.from(this.records.values(), record => structuredClone(record));
+  }
+}
+
+/**
+ * Records as JSON in secure storage, with an index of record IDs under `<prefix>index`
+ */
+export class SecureStorageExchangeRecordStore implements ExchangeRecordStore {
+  constructor(
+    private storage: SecureStorage,
+    private prefix = 'didcomm-exchange:'
+  ) {}
+
+  async get(id: string): Promise<ExchangeRecord | null> {
+    return this.read(this.prefix + 'record:' + id);
+  }
+
+  async save(record: ExchangeRecord): Promise<void> {
+    await this.write(this.prefix + 'record:' + record.id, record);
+    const index = await this.index();
+    if (!index.includes(record.id)) {
+      await this.write(this.prefix + 'index', [...index, record.id]);
+    }
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.storage.deleteKey(this.prefix + 'record:' + id);
+    await this.write(this.prefix + 'index', (await this.index()).filter(existing => existing !== id));
+  }
+
+  async list(): Promise<ExchangeRecord[]> {
+    const records = await Promise.all((await this.index()).map(id => this.get(id)));
+    return records.filter((record): record is ExchangeRecord => record !== null);
+  }
+
+  private async index(): Promise<string[]> {
+    return (await this.read(this.prefix + 'index')) || [];
+  }
+
+  private async read(key: string): Promise<any> {
+    const data = await this.storage.retrieveKey(key);
+    return data ? JSON.parse(Buffer.from(data).toString('utf-8')) : null;
+  }
+
+  private async write(key: string, value: unknown): Promise<void> {
+    await this.storage.storeKey(key, new Uint8Array(Buffer.from(JSON.stringify(value), 'utf-8')));
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * DIDComm Protocol Types
+ *
+ * Messages, states and persisted records of the Issue Credential 3.0 and
+ * Present Proof 3.0 protocols. A record holds the state of one exchange (one
+ * DIDComm thread) for one side of it, so an exchange can continue after the
+ * agent restarts.
+ *
+ * @see https://didcomm.org/issue-credential/3.0/
+ * @see https://didcomm.org/present-proof/3.0/
+ */
+
+import { CredentialTemplate, ValidationResult, VerifiableCredential, VerifiablePresentation } from '../../../types';
+import { PresentationDefinition, PresentationSubmission } from '../../presentation-exchange/types';
+import { PresentationVerificationResult } from '../../presentation/types';
+import type { DIDCommMessenger } from '../messenger';
+
+export const ISSUE_CREDENTIAL_PROTOCOL = 'https://didcomm.org/issue-credential/3.0';
+export const PRESENT_PROOF_PROTOCOL = 'https://didcomm.org/present-proof/3.0';
+export const PROBLEM_REPORT_TYPE = 'https://didcomm.org/report-problem/2.0/problem-report';
+
+export const IssueCredentialMessageType = {
+  PROPOSE: `${ISSUE_CREDENTIAL_PROTOCOL}/propose-credential`,
+  OFFER: `${ISSUE_CREDENTIAL_PROTOCOL}/offer-credential`,
+  REQUEST: `${ISSUE_CREDENTIAL_PROTOCOL}/request-credential`,
+  ISSUE: `${ISSUE_CREDENTIAL_PROTOCOL}/issue-credential`,
+  ACK: `${ISSUE_CREDENTIAL_PROTOCOL}/ack`
+} as const;
+
+export const PresentProofMessageType = {
+  PROPOSE: `${PRESENT_PROOF_PROTOCOL}/propose-presentation`,
+  REQUEST: `${PRESENT_PROOF_PROTOCOL}/request-presentation`,
+  PRESENTATION: `${PRESENT_PROOF_PROTOCOL}/presentation`,
+  ACK: `${PRESENT_PROOF_PROTOCOL}/ack`
+} as const;
+
+/** Attachment formats */
+export const CREDENTIAL_DETAIL_FORMAT = 'aries/ld-proof-vc-detail@v1.0';
+export const CREDENTIAL_FORMAT = 'aries/ld-proof-vc@v1.0';
+export const PRESENTATION_DEFINITION_FORMAT = 'dif/presentation-exchange/definitions@v1.0';
+export const PRESENTATION_SUBMISSION_FORMAT = 'dif/presentation-exchange/submission@v1.0';
+
+/**
+ * Problem report codes: `e` (error) `p` (abandons the protocol), then what went wrong
+ */
+export enum ProblemReportCode {
+  UNEXPECTED_MESSAGE = 'e.p.msg.unexpected',
+  REJECTED = 'e.p.req.rejected',
+  ISSUANCE_FAILED = 'e.p.xfer.issuance-failed',
+  INVALID_PRESENTATION = 'e.p.trust.invalid-presentation',
+  ABANDONED = 'e.p.req.abandoned'
+}
+
+export interface ProblemReport {
+  code: ProblemReportCode | string;
+  comment?: string;
+}
+
+/**
+ * Attribute preview of an offered credential, for the holder to decide on
+ */
+export interface CredentialPreview {
+  type: `${typeof ISSUE_CREDENTIAL_PROTOCOL}/credential-credential`;
+  body: {
+    attributes: { name: string; value: string; media_type?: string }[];
+  };
+}
+
+/**
+ * The credential to issue and how to secure it (`aries/ld-proof-vc-detail@v1.0`)
+ */
+export interface CredentialDetail {
+  credential: Omit<CredentialTemplate, 'issuer'> & { issuer?: CredentialTemplate['issuer'] };
+  options?: { proofType?: string; [option: string]: any };
+}
+
+export type CredentialExchangeRole = 'issuer' | 'holder';
+
+export type CredentialExchangeState =
+  | 'proposal-sent'
+  | 'proposal-received'
+  | 'offer-sent'
+  | 'offer-received'
+  | 'request-sent'
+  | 'request-received'
+  | 'credential-issued'
+  | 'credential-received'
+  | 'done'
+  | 'abandoned';
+
+interface ExchangeRecordBase {
+  /** Thread ID of the exchange */
+  id: string;
+  /** Our DID in the exchange */
+  myDid: string;
+  /** The other party's DID */
+  theirDid: string;
+  goalCode?: string;
+  comment?: string;
+  /** Why the exchange was abandoned */
+  error?: ProblemReport;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CredentialExchangeRecord extends ExchangeRecordBase {
+  protocol: typeof ISSUE_CREDENTIAL_PROTOCOL;
+  role: CredentialExchangeRole;
+  state: CredentialExchangeState;
+  credentialPreview?: CredentialPreview;
+  /** Terms last proposed, offered or requested */
+  credentialDetail?: CredentialDetail;
+  /** The issuer's offer, which a request may not change */
+  offeredDetail?: CredentialDetail;
+  credential?: VerifiableCredential;
+}
+
+export type PresentationExchangeRole = 'verifier' | 'prover';
+
+export type PresentationExchangeState =
+  | 'proposal-sent'
+  | 'proposal-received'
+  | 'request-sent'
+  | 'request-received'
+  | 'presentation-sent'
+  | 'presentation-received'
+  | 'done'
+  | 'abandoned';
+
+export interface PresentationExchangeRecord extends ExchangeRecordBase {
+  protocol: typeof PRESENT_PROOF_PROTOCOL;
+  role: PresentationExchangeRole;
+  state: PresentationExchangeState;
+  presentationDefinition?: PresentationDefinition;
+  challenge?: string;
+  domain?: string;
+  /** The verifier acknowledges the presentation */
+  willConfirm?: boolean;
+  presentation?: VerifiablePresentation;
+  presentationSubmission?: PresentationSubmission;
+  /** Verifier's verdict on the presentation */
+  verified?: boolean;
+  verificationErrors?: string[];
+}
+
+export type ExchangeRecord = CredentialExchangeRecord | PresentationExchangeRecord;
+
+/**
+ * Persists exchange records, by thread ID
+ */
+export interface ExchangeRecordStore {
+  get(id: string): Promise<ExchangeRecord | null>;
+  save(record: ExchangeRecord): Promise<void>;
+  delete(id: string): Promise<void>;
+  list(): Promise<ExchangeRecord[]>;
+}
+
+export interface ExchangeProtocolOptions<R extends ExchangeRecord> {
+  messenger: DIDCommMessenger;
+  store: ExchangeRecordStore;
+  /** Continue exchanges without waiting for the application where the protocol allows */
+  autoAccept?: boolean;
+  onStateChanged?: (record: R) => void;
+}
+
+export interface IssueCredentialProtocolOptions extends ExchangeProtocolOptions<CredentialExchangeRecord> {
+  /**
+   * Issuer: sign the credential for an accepted request; the issuer is unset unless the offer named one.
+   * Holders only accept credentials issued by the exchange's DID or by the issuer the offer named.
+   */
+  issueCredential?: (template: CredentialDetail['credential'], record: CredentialExchangeRecord) => Promise<VerifiableCredential>;
+  /** Holder: check the proof of a received credential before it is accepted */
+  verifyCredential?: (credential: VerifiableCredential) => Promise<ValidationResult>;
+  /** Holder: keep a received credential that matches the offer; throw to reject it */
+  acceptCredential?: (credential: VerifiableCredential, record: CredentialExchangeRecord) => Promise<void>;
+}
+
+export interface PresentProofProtocolOptions extends ExchangeProtocolOptions<PresentationExchangeRecord> {
+  /** Prover: answer a presentation definition */
+  createPresentation?: (
+    definition: PresentationDefinition,
+    binding: { challenge: string; domain: string },
+    record: PresentationExchangeRecord
+  ) => Promise<{ presentation: VerifiablePresentation; presentationSubmission: PresentationSubmission }>;
+  /** Verifier: check a presentation against the request */
+  verifyPresentation?: (
+    presentation: VerifiablePresentation,
+    submission: PresentationSubmission,
+    binding: { challenge: string; domain: string; presentationDefinition: PresentationDefinition }
+  ) => Promise<PresentationVerificationResult>;
+}
+
+/**
+ * Parties of a new exchange
+ */
+export interface ExchangeParties {
+  /** Our DID, with key agreement keys in the messenger's secrets */
+  from: string;
+  to: string;
+  goalCode?: string;
+  comment?: string;
+}
+
+/**
+ * An exchange cannot continue; the other party gets a problem report with the code
+ */
+export class ExchangeProtocolError extends Error {
+  constructor(
+    public code: ProblemReportCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ExchangeProtocolError';
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * DIDComm v2 Transports
+ *
+ * - HTTP(S): packed messages are POSTed to the endpoint; a DIDComm response body is
+ *   an answer on the same connection
+ * - WebSocket: `ws(s)://` endpoints over a connection kept open, so the other side
+ *   can push messages, e.g. a mediator delivering live
+ * - Bluetooth: `bluetooth://<device ID>` endpoints over a connected BluetoothManager
+ * - In-memory: `memory://<name>` endpoints within one process, for tests and
+ *   agents running side by side
+ */
+
+import { BluetoothManager, DataTransferOptions } from '../../utils/bluetooth';
+import { FetchLike } from '../oid4vci/client';
+import { DIDCOMM_ENCRYPTED_MEDIA_TYPE, DIDCommError, DIDCommErrorCode, DIDCommTransport } from './types';
+
+export class HttpDIDCommTransport implements DIDCommTransport {
+  readonly schemes = ['http', 'https'];
+  private fetch: FetchLike;
+
+  constructor(fetchImpl?: FetchLike) {
+    this.fetch = fetchImpl || ((url, init) => fetch(url, init));
+  }
+
+  async send(endpoint: string, packed: string): Promise<string | void> {
+    const response = await this.fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': DIDCOMM_ENCRYPTED_MEDIA_TYPE },
+      body: packed
+    });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    if (response.headers.get('content-type')?.includes('application/didcomm')) {
+      return await response.text();
+    }
+  }
+}
+
+/**
+ * The part of the WebSocket API the transport uses; browsers, React Native and the `ws` package provide it
+ */
+export interface WebSocketLike {
+  readonly readyState: number;
+  send(data: string): void;
+  close(): void;
+  addEventListener(type: 'open' | 'message' | 'close' | 'error', listener: (event: any) => void): void;
+}
+
+export interface WebSocketDIDCommTransportOptions {
+  /** Gets packed messages the other side sends, e.g. `packed => messenger.receive(packed)` */
+  receive: (packed: string) => Promise<unknown>;
+  /** Opens a connection; defaults to the global WebSocket */
+  connect?: (url: string) => WebSocketLike;
+  /** Called when a received message could not be processed */
+  onError?: (error: Error) => void;
+}
+
+const WEBSOCKET_OPEN = 1;
+
+export class WebSocketDIDCommTransport implements DIDCommTransport {
+  readonly schemes = ['ws', 'wss'];
+  private sockets: Map<string, Promise<WebSocketLike>> = new Map();
+
+  constructor(private options: WebSocketDIDCommTransportOptions) {}
+
+  async send(endpoint: string, packed: string): Promise<void> {
+    const socket = await this.open(endpoint);
+    socket.send(packed);
+  }
+
+  /**
+   * Close the connection to an endpoint, or all connections
+   */
+  close(endpoint?: string): void {
+    for (const [url, socket] of this.sockets) {
+      if (!endpoint || url === endpoint) {
+        this.sockets.delete(url);
+        socket.then(open => open.close(), () => undefined);
+      }
+    }
+  }
+
+  private async open(endpoint: string): Promise<WebSocketLike> {
+    let opening = this.sockets.get(endpoint);
+    if (!opening) {
+      opening = this.connect(endpoint);
+      this.sockets.set(endpoint, opening);
+    }
+    const socket = await opening.catch(error => {
+      if (this.sockets.get(endpoint) === opening) {
+        this.sockets.delete(endpoint);
+      }
+      throw error;
+    });
+    if (socket.readyState !== WEBSOCKET_OPEN) {
+      this.sockets.delete(endpoint);
+      throw new Error(`WebSocket connection to ${endpoint} is not open`);
+    }
+    return socket;
+  }
+
+  private connect(endpoint: string): Promise<WebSocketLike> {
+    const opening = new Promise<WebSocketLike>((resolve, reject) => {
+      const socket = (this.options.connect || (url => new WebSocket(url)))(endpoint);
+      socket.addEventListener('open', () => resolve(socket));
+      socket.addEventListener('error', () => reject(new Error(`WebSocket connection to ${endpoint} failed`)));
+      socket.addEventListener('close', () => {
+        if (this.sockets.get(endpoint) === opening) {
+          this.sockets.delete(endpoint);
+        }
+        reject(new Error(`WebSocket connection to ${endpoint} closed`));
+      });
+      socket.addEventListener('message', event => {
+        this.options.receive(String(event.data)).catch(error => this.options.onError?.(error));
+      });
+    });
+    return opening;
+  }
+}
+
+export class BluetoothDIDCommTransport implements DIDCommTransport {
+  readonly schemes = ['bluetooth'];
+
+  constructor(
+    private bluetooth: BluetoothManager,
+    private options: DataTransferOptions = {}
+  ) {}
+
+  async send(endpoint: string, packed: string): Promise<void> {
+    const result = await this.bluetooth.sendData(deviceIdOf(endpoint), packed, this.options);
+    if (!result.success) {
+      throw new Error(`Bluetooth transfer failed: ${result.error}`);
+    }
+  }
+
+  /**
+   * Wait for the next packed message from a connected device, to pass to `DIDCommMessenger.receive`
+   */
+  async receive(endpoint: string): Promise<string> {
+    return this.bluetooth.receiveData(deviceIdOf(endpoint), this.options);
+  }
+}
+
+export class InMemoryDIDCommTransport implements DIDCommTransport {
+  readonly schemes = ['memory'];
+  private endpoints: Map<string, (packed: string) => Promise<void>> = new Map();
+
+  /**
+   * Deliver messages sent to `endpoint` to a receiver, e.g. `packed => messenger.receive(packed)`
+   */
+  listen(endpoint: string, receiver: (packed: string) => Promise<unknown>): void {
+    this.endpoints.set(endpoint, async packed => {
+      await receiver(packed);
+    });
+  }
+
+  close(endpoint: string): void {
+    this.endpoints.delete(endpoint);
+  }
+
+  async send(endpoint: string, packed: string): Promise<void> {
+    const receiver = this.endpoints.get(endpoint);
+    if (!receiver) {
+      throw new DIDCommError(DIDCommErrorCode.NO_ENDPOINT, `Nothing listens on ${endpoint}`);
+    }
+    await receiver(packed);
+  }
+}
+
+function deviceIdOf(endpoint: string): string {
+  return endpoint.replace(/^bluetooth:\/\//, '');
+}
@@ -0,0 +1,185 @@
+/**
+ * DIDComm v2 Types
+ *
+ * Plaintext messages with threading and attachments, the signed (JWS) and
+ * encrypted (JWE) envelopes they travel in, and the transports that carry
+ * packed messages between agents.
+ *
+ * @see https://identity.foundation/didcomm-messaging/spec/v2.1/
+ */
+
+import type { DIDDocument } from 'did-resolver';
+
+export const DIDCOMM_PLAIN_MEDIA_TYPE = 'application/didcomm-plain+json';
+export const DIDCOMM_SIGNED_MEDIA_TYPE = 'application/didcomm-signed+json';
+export const DIDCOMM_ENCRYPTED_MEDIA_TYPE = 'application/didcomm-encrypted+json';
+/** `accept` value of DIDCommMessaging services that take DIDComm v2 */
+export const DIDCOMM_V2_PROFILE = 'didcomm/v2';
+/** Routing 2.0 forward message, which mediators unwrap and pass on to `body.next` */
+export const DIDCOMM_FORWARD_TYPE = 'https://didcomm.org/routing/2.0/forward';
+
+/**
+ * Attachment content: inline base64 or JSON, or links to fetch it from with its hash
+ */
+export interface DIDCommAttachmentData {
+  base64?: string;
+  json?: any;
+  links?: string[];
+  /** Multihash of the content, required with `links` */
+  hash?: string;
+  /** JWS over the content */
+  jws?: any;
+}
+
+export interface DIDCommAttachment {
+  id?: string;
+  description?: string;
+  filename?: string;
+  media_type?: string;
+  /** Format of the attached data, e.g. a credential format identifier */
+  format?: string;
+  lastmod_time?: number;
+  byte_count?: number;
+  data: DIDCommAttachmentData;
+}
+
+/**
+ * Plaintext DIDComm message; times are seconds since the epoch
+ */
+export interface DIDCommMessage {
+  id: string;
+  /** Message type URI, e.g. `https://didcomm.org/trust-ping/2.0/ping` */
+  type: string;
+  typ?: typeof DIDCOMM_PLAIN_MEDIA_TYPE;
+  from?: string;
+  to?: string[];
+  /** Thread the message belongs to; the ID of the first message of the thread */
+  thid?: string;
+  /** Thread the thread of this message was started from */
+  pthid?: string;
+  created_time?: number;
+  expires_time?: number;
+  body: Record<string, any>;
+  attachments?: DIDCommAttachment[];
+  /** `all`: answer over the connection this message arrived on, for senders without an endpoint */
+  return_route?: 'all' | 'none';
+  /** Extension headers */
+  [header: string]: any;
+}
+
+export type DIDCommContentEncryption = 'A256CBC-HS512' | 'A256GCM';
+
+export interface DIDCommPackOptions {
+  /** DID or key ID to sign with (sign, then encrypt) */
+  signFrom?: string;
+  /** DID or key ID to authcrypt from; anoncrypt when omitted */
+  from?: string;
+  /** Anoncrypt the authcrypted message so intermediaries do not learn the sender */
+  protectSender?: boolean;
+  /** Defaults to A256CBC-HS512, which authcrypt requires */
+  enc?: DIDCommContentEncryption;
+}
+
+export interface DIDCommUnpackMetadata {
+  encrypted: boolean;
+  /** The sender is known to the recipient: authcrypt or signed */
+  authenticated: boolean;
+  /** Signed, so the sender is provable to third parties */
+  nonRepudiation: boolean;
+  /** Anoncrypt outside authcrypt */
+  anonymousSender: boolean;
+  /** Key that authcrypted the message */
+  encryptedFrom?: string;
+  /** Key of ours the message was decrypted with */
+  encryptedTo?: string;
+  /** Key that signed the message */
+  signFrom?: string;
+  /** The signed envelope, to keep as proof of what the sender said */
+  signedMessage?: string;
+}
+
+export interface DIDCommUnpackResult {
+  message: DIDCommMessage;
+  metadata: DIDCommUnpackMetadata;
+}
+
+/**
+ * Private JWK of a key agreement or authentication key, by verification method ID;
+ * null when the key is not ours
+ */
+export type DIDCommSecretResolver = (kid: string) => Promise<JsonWebKey | null>;
+
+export interface DIDCommClientOptions {
+  resolveDID: (did: string) => Promise<DIDDocument>;
+  secrets: DIDCommSecretResolver;
+}
+
+/**
+ * Carries packed messages to service endpoints with one of its URI schemes
+ */
+export interface DIDCommTransport {
+  /** URI schemes without the colon, e.g. `['http', 'https']` */
+  readonly schemes: string[];
+  /**
+   * Deliver a packed message; resolves to a packed message the endpoint answered with
+   * on the same connection, if any
+   */
+  send(endpoint: string, packed: string): Promise<string | void>;
+}
+
+/**
+ * A connection a packed message arrived on, to answer its sender over
+ */
+export interface DIDCommSession {
+  /** Stays open across messages, like a WebSocket; an HTTP request carries one answer */
+  readonly persistent: boolean;
+  send(packed: string): Promise<void>;
+}
+
+export interface DIDCommMessageContext {
+  metadata: DIDCommUnpackMetadata;
+  /** Answer in the message's thread, packed the way the message was */
+  reply(type: string, body: Record<string, any>, attachments?: DIDCommAttachment[]): Promise<void>;
+}
+
+export type DIDCommMessageHandler = (message: DIDCommMessage, context: DIDCommMessageContext) => Promise<void>;
+
+export interface DIDCommMessengerOptions extends DIDCommClientOptions {
+  transports?: DIDCommTransport[];
+  /** Most threads kept for getThread, least recently active dropped first; 0 keeps none (default: 100) */
+  maxThreads?: number;
+  /** Milliseconds a thread is kept after its last message (default: 1 hour) */
+  threadTtl?: number;
+}
+
+export interface DIDCommSendOptions extends Omit<DIDCommPackOptions, 'from'> {
+  /** Anoncrypt even though the message has a sender */
+  anonymous?: boolean;
+}
+
+export enum DIDCommErrorCode {
+  MALFORMED = 'malformed',
+  UNSUPPORTED = 'unsupported',
+  KEY_NOT_FOUND = 'key_not_found',
+  DECRYPTION_FAILED = 'decryption_failed',
+  INVALID_SIGNATURE = 'invalid_signature',
+  SENDER_MISMATCH = 'sender_mismatch',
+  EXPIRED = 'expired',
+  NO_ENDPOINT = 'no_endpoint',
+  /** The other party declined a request or answered it with a problem report */
+  REJECTED = 'rejected',
+  TIMEOUT = 'timeout'
+}
+
+/**
+ * Failure to pack, unpack or deliver a DIDComm message
+ */
+export class DIDCommError extends Error {
+  constructor(
+    public code: DIDCommErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'DIDCommError';
+  }
+}
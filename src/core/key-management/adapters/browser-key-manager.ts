@@ -57,6 +57,7 @@ export class BrowserKeyManager implements PlatformKeyManager {
         ) as CryptoKeyPair;
         break;
       case KeyAlgorithm.SECP256K1:
+      case KeyAlgorithm.P256:
         keyPair = await crypto.subtle.generateKey(
           {
             name: 'ECDSA',
@@ -300,6 +301,7 @@ export class BrowserKeyManager implements PlatformKeyManager {
       case KeyAlgorithm.ED25519:
         return 'Ed25519';
       case KeyAlgorithm.SECP256K1:
+      case KeyAlgorithm.P256:
         return 'ECDSA';
       case KeyAlgorithm.RSA_2048:
       case KeyAlgorithm.RSA_4096:
@@ -2,12 +2,14 @@
  * Node.js Key Manager Adapter
  * 
  * Platform-specific key management implementation for Node.js
- * Uses Node.js crypto module for cryptographic operations
+ * Uses Node.js crypto module for cryptographic operations, and the BBS
+ * libraries for BLS12-381 keys
  */
 
-import { randomBytes, createHash, createSign, createVerify } from 'crypto';
+import { randomBytes, createHash, createSign, createVerify, createPrivateKey, createPublicKey, sign as signOneShot, verify as verifyOneShot } from 'crypto';
 import { promisify } from 'util';
 import { generateKeyPair as nodeGenerateKeyPair } from 'crypto';
+import * as Bls12381Multikey from '@digitalbazaar/bls12-381-multikey';
 import {
   PlatformKeyManager,
   KeyManagerOptions,
@@ -30,13 +32,20 @@ import { RuntimePlatform } from '../../../types';
 
 const generateKeyPairAsync = promisify(nodeGenerateKeyPair);
 
+/** PEM key pair, or for BLS12-381 keys the multibase encoded Multikey pair */
+interface StoredKeyPair {
+  privateKey: string;
+  publicKey: string;
+  algorithm?: KeyAlgorithm;
+}
+
 /**
  * Node.js Key Manager Implementation
  */
 export class NodeKeyManager implements PlatformKeyManager {
   public platform: RuntimePlatform = RuntimePlatform.NODE;
   private options: KeyManagerOptions;
-  private keyStore: Map<string, { privateKey: string; publicKey: string }> = new Map();
+  private keyStore: Map<string, StoredKeyPair> = new Map();
 
   constructor(options: KeyManagerOptions) {
     this.options = options;
@@ -49,7 +58,7 @@ export class NodeKeyManager implements PlatformKeyManager {
   async generateKey(options: KeyGenerationOptions): Promise<KeyGenerationResult> {
     const keyId = `key-${randomBytes(16).toString('hex')}`;
     
-    let keyPair: { publicKey: string; privateKey: string };
+    let keyPair: StoredKeyPair;
     
     switch (options.algorithm) {
       case KeyAlgorithm.ED25519:
@@ -65,6 +74,13 @@ export class NodeKeyManager implements PlatformKeyManager {
           privateKeyEncoding: { type: 'sec1', format: 'pem' }
         });
         break;
+      case KeyAlgorithm.P256:
+        keyPair = await generateKeyPairAsync('ec', {
+          namedCurve: 'prime256v1',
+          publicKeyEncoding: { type: 'spki', format: 'pem' },
+          privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+        });
+        break;
       case KeyAlgorithm.RSA_2048:
         keyPair = await generateKeyPairAsync('rsa', {
           modulusLength: 2048,
@@ -81,6 +97,18 @@ export class NodeKeyManager implements PlatformKeyManager {
           privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
         });
         break;
+      case KeyAlgorithm.BLS12_381: {
+        const blsKeyPair = await Bls12381Multikey.generateBbsKeyPair({
+          algorithm: Bls12381Multikey.ALGORITHMS.BBS_BLS12381_SHA256
+        });
+        const exported = await blsKeyPair.export({ publicKey: true, secretKey: true, includeContext: false });
+        keyPair = {
+          privateKey: exported.secretKeyMultibase,
+          publicKey: exported.publicKeyMultibase,
+          algorithm: KeyAlgorithm.BLS12_381
+        };
+        break;
+      }
       default:
         throw new Error(`Unsupported algorithm: ${options.algorithm}`);
     }
@@ -113,7 +141,7 @@ export class NodeKeyManager implements PlatformKeyManager {
     // For simplicity, we'll assume PEM format
     // In a real implementation, you'd detect the format and handle JWK
     const privateKey = keyData;
-    const publicKey = ''; // Would need to derive from private key
+    const publicKey = createPublicKey(privateKey).export({ type: 'spki', format: 'pem' }) as string;
 
     // Store the imported key
     this.keyStore.set(keyId, { privateKey, publicKey });
@@ -146,13 +174,26 @@ export class NodeKeyManager implements PlatformKeyManager {
 
     let data: string;
     
+    if (keyPair.algorithm === KeyAlgorithm.BLS12_381) {
+      if (options.format !== KeyFormat.JWK) {
+        throw new Error(`BLS12-381 keys can only be exported as JWK, not ${options.format}`);
+      }
+      const blsKeyPair = await Bls12381Multikey.from({
+        publicKeyMultibase: keyPair.publicKey,
+        ...(options.includePrivateKey === false ? {} : { secretKeyMultibase: keyPair.privateKey })
+      });
+      data = JSON.stringify(await Bls12381Multikey.toJwk({ keyPair: blsKeyPair, secretKey: options.includePrivateKey !== false }));
+      return { keyId, format: options.format, data };
+    }
+
     switch (options.format) {
       case KeyFormat.PEM:
         data = keyPair.privateKey;
         break;
       case KeyFormat.JWK:
-        // Convert PEM to JWK (simplified)
-        data = JSON.stringify({ kty: 'EC', crv: 'P-256' });
+        data = JSON.stringify(options.includePrivateKey === false
+          ? createPublicKey(keyPair.privateKey).export({ format: 'jwk' })
+          : createPrivateKey(keyPair.privateKey).export({ format: 'jwk' }));
         break;
       case KeyFormat.RAW:
         data = Buffer.from(keyPair.privateKey).toString('base64');
@@ -181,6 +222,30 @@ export class NodeKeyManager implements PlatformKeyManager {
       throw new Error(`Key not found: ${keyId}`);
     }
 
+    // BBS signs the header and messages CBOR-encoded in `data`, as bbs-2023 signers do
+    if (keyPair.algorithm === KeyAlgorithm.BLS12_381) {
+      const blsKeyPair = await Bls12381Multikey.from({
+        publicKeyMultibase: keyPair.publicKey,
+        secretKeyMultibase: keyPair.privateKey
+      });
+      return {
+        keyId,
+        signature: new Uint8Array(await blsKeyPair.signer().sign({ data })),
+        algorithm: Bls12381Multikey.ALGORITHMS.BBS_BLS12381_SHA256,
+        timestamp: new Date().toISOString()
+      };
+    }
+
+    // EdDSA signs the message itself, without a separate digest
+    if (isEdDSAKey(keyPair.publicKey)) {
+      return {
+        keyId,
+        signature: new Uint8Array(signOneShot(null, Buffer.from(data), keyPair.privateKey)),
+        algorithm: 'EdDSA',
+        timestamp: new Date().toISOString()
+      };
+    }
+
     const algorithm = options?.algorithm || 'sha256';
     const sign = createSign(algorithm);
     sign.update(Buffer.from(data));
@@ -200,14 +265,29 @@ export class NodeKeyManager implements PlatformKeyManager {
       throw new Error(`Key not found: ${keyId}`);
     }
 
-    const algorithm = options?.algorithm || 'sha256';
-    const verify = createVerify(algorithm);
-    verify.update(Buffer.from(data));
+    if (keyPair.algorithm === KeyAlgorithm.BLS12_381) {
+      return {
+        keyId,
+        isValid: false,
+        algorithm: Bls12381Multikey.ALGORITHMS.BBS_BLS12381_SHA256,
+        timestamp: new Date().toISOString(),
+        error: 'BBS signatures are verified as bbs-2023 proofs'
+      };
+    }
+
+    const eddsa = isEdDSAKey(keyPair.publicKey);
+    const algorithm = eddsa ? 'EdDSA' : options?.algorithm || 'sha256';
     
     let isValid: boolean;
     
     try {
-      isValid = verify.verify(keyPair.publicKey, Buffer.from(signature));
+      if (eddsa) {
+        isValid = verifyOneShot(null, Buffer.from(data), keyPair.publicKey, Buffer.from(signature));
+      } else {
+        const verify = createVerify(algorithm);
+        verify.update(Buffer.from(data));
+        isValid = verify.verify(keyPair.publicKey, Buffer.from(signature));
+      }
     } catch (error) {
       return {
         keyId,
@@ -242,4 +322,9 @@ export class NodeKeyManager implements PlatformKeyManager {
     // This is a simplified implementation
     // In a real implementation, you'd update stored metadata
   }
-} 
\ No newline at end of file
+} 
+
+function isEdDSAKey(publicKey: string): boolean {
+  const type = createPublicKey(publicKey).asymmetricKeyType;
+  return type === 'ed25519' || type === 'ed448';
+}
\ No newline at end of file
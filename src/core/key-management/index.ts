@@ -26,7 +26,9 @@ export type {
   KeyVerifyOptions,
   KeyMetadata,
   KeyFormat,
-  KeyUsage
+  KeyUsage,
+  KeyRotationResult,
+  KeyRotationListener
 } from './types'
 
 // Re-export enums as values
@@ -27,6 +27,7 @@ import {
   VerificationResult,
   KeyStatistics,
   KeyRotationResult,
+  KeyRotationListener,
   KeyBackupData,
   PlatformKeyManager
 } from './types';
@@ -52,6 +53,9 @@ import {
   KeyExportResult as KeyExportFormatResult
 } from './key-import-export';
 
+/** JWK members that carry private key material (RFC 7518) */
+const PRIVATE_JWK_MEMBERS = ['d', 'p', 'q', 'dp', 'dq', 'qi', 'oth', 'k'];
+
 /**
  * Main Key Manager Implementation
  * Provides unified key management capabilities across platforms
@@ -60,6 +64,7 @@ export class KeyManager implements SDKKeyManager {
   private platformManager: PlatformKeyManager;
   private options: KeyManagerOptions;
   private keyStore: Map<string, KeyMetadata> = new Map();
+  private rotationListeners: KeyRotationListener[] = [];
 
   constructor(options: KeyManagerOptions = {}) {
     this.options = {
@@ -170,6 +175,21 @@ export class KeyManager implements SDKKeyManager {
     return result.data;
   }
 
+  /**
+   * Export the public half of a key as a JWK, e.g. for publishing in a DID document
+   */
+  async getPublicKeyJwk(keyId: string): Promise<JsonWebKey> {
+    const result = await this.platformManager.exportKey(keyId, {
+      format: KeyFormat.JWK,
+      includePrivateKey: false
+    });
+    // Platforms that cannot export public-only keys return the private JWK
+    const jwk: JsonWebKey = JSON.parse(result.data);
+    return Object.fromEntries(
+      Object.entries(jwk).filter(([member]) => !PRIVATE_JWK_MEMBERS.includes(member))
+    ) as JsonWebKey;
+  }
+
   /**
    * Import a key from various formats (base64, mnemonic, hex, etc.)
    */
@@ -301,7 +321,7 @@ export class KeyManager implements SDKKeyManager {
    */
   async generateKeyPair(algorithm: KeyAlgorithm = KeyAlgorithm.ED25519): Promise<KeyPair> {
     const keyId = await this.generateKey(algorithm);
-    const publicKey = await this.exportKey(keyId, KeyFormat.JWK);
+    const publicKey = JSON.stringify(await this.getPublicKeyJwk(keyId));
     const privateKey = await this.exportKey(keyId, KeyFormat.JWK);
     const metadata = this.keyStore.get(keyId)!;
 
@@ -343,7 +363,19 @@ export class KeyManager implements SDKKeyManager {
   }
 
   /**
-   * Rotate a key
+   * Register a listener for key rotations, e.g. to update the DID documents that publish the key.
+   * Returns a function that removes the listener.
+   */
+  onKeyRotated(listener: KeyRotationListener): () => void {
+    this.rotationListeners.push(listener);
+    return () => {
+      this.rotationListeners = this.rotationListeners.filter(registered => registered !== listener);
+    };
+  }
+
+  /**
+   * Rotate a key. Rotation listeners run before the old key is deleted; if one
+   * fails, the new key is discarded and the old key is kept.
    */
   async rotateKey(keyId: string, newAlgorithm?: KeyAlgorithm): Promise<KeyRotationResult> {
     const metadata = this.keyStore.get(keyId);
@@ -351,23 +383,32 @@ export class KeyManager implements SDKKeyManager {
       throw new Error(`Key not found: ${keyId}`);
     }
 
+    let newKeyId = '';
     try {
       // Generate new key
-      const newKeyId = await this.generateKey(
+      newKeyId = await this.generateKey(
         newAlgorithm || metadata.algorithm,
         { description: `Rotated from ${keyId}` }
       );
 
-      // Delete old key
-      await this.deleteKey(keyId);
-
-      return {
+      const result: KeyRotationResult = {
         oldKeyId: keyId,
         newKeyId,
         rotated: true,
         timestamp: new Date().toISOString()
       };
+      for (const listener of this.rotationListeners) {
+        await listener(result);
+      }
+
+      // Delete old key
+      await this.deleteKey(keyId);
+
+      return result;
     } catch (error) {
+      if (newKeyId && this.keyStore.has(newKeyId)) {
+        await this.deleteKey(newKeyId);
+      }
       return {
         oldKeyId: keyId,
         newKeyId: '',
@@ -389,10 +430,12 @@ export class KeyManager implements SDKKeyManager {
       byAlgorithm: {
         [KeyAlgorithm.ED25519]: 0,
         [KeyAlgorithm.SECP256K1]: 0,
+        [KeyAlgorithm.P256]: 0,
         [KeyAlgorithm.RSA_2048]: 0,
         [KeyAlgorithm.RSA_4096]: 0,
         [KeyAlgorithm.AES_256]: 0,
-        [KeyAlgorithm.HMAC_SHA256]: 0
+        [KeyAlgorithm.HMAC_SHA256]: 0,
+        [KeyAlgorithm.BLS12_381]: 0
       },
       byUsage: {
         [KeyUsage.SIGN]: 0,
@@ -13,10 +13,13 @@ import { RuntimePlatform } from '../../types';
 export enum KeyAlgorithm {
   ED25519 = 'Ed25519',
   SECP256K1 = 'secp256k1',
+  P256 = 'P-256',
   RSA_2048 = 'RSA-2048',
   RSA_4096 = 'RSA-4096',
   AES_256 = 'AES-256',
-  HMAC_SHA256 = 'HMAC-SHA256'
+  HMAC_SHA256 = 'HMAC-SHA256',
+  /** BLS12-381 G2 keys for BBS signatures (bbs-2023) */
+  BLS12_381 = 'BLS12-381'
 }
 
 /**
@@ -219,6 +222,11 @@ export interface KeyRotationResult {
   error?: string;
 }
 
+/**
+ * Called after a key is rotated, before the previous key is deleted
+ */
+export type KeyRotationListener = (result: KeyRotationResult) => void | Promise<void>;
+
 /**
  * Key backup data
  */
@@ -220,6 +220,13 @@ export function getAlgorithmInfo(algorithm: KeyAlgorithm): {
         signatureSize: 64,
         supportedFormats: [KeyFormat.JWK, KeyFormat.PEM, KeyFormat.RAW]
       };
+    case KeyAlgorithm.P256:
+      return {
+        name: 'P-256',
+        keySize: 32,
+        signatureSize: 64,
+        supportedFormats: [KeyFormat.JWK, KeyFormat.PEM, KeyFormat.RAW]
+      };
     case KeyAlgorithm.RSA_2048:
       return {
         name: 'RSA-2048',
@@ -248,6 +255,13 @@ export function getAlgorithmInfo(algorithm: KeyAlgorithm): {
         signatureSize: 32,
         supportedFormats: [KeyFormat.RAW, KeyFormat.BASE64, KeyFormat.HEX]
       };
+    case KeyAlgorithm.BLS12_381:
+      return {
+        name: 'BLS12-381',
+        keySize: 32,
+        signatureSize: 80, // BBS signature; the G2 public key is 96 bytes
+        supportedFormats: [KeyFormat.JWK, KeyFormat.RAW]
+      };
     default:
       throw new Error(`Unknown algorithm: ${algorithm}`);
   }
@@ -263,12 +277,14 @@ export function validateKeyUsage(usage: KeyUsage[], algorithm: KeyAlgorithm): bo
   switch (algorithm) {
     case KeyAlgorithm.ED25519:
     case KeyAlgorithm.SECP256K1:
+    case KeyAlgorithm.P256:
     case KeyAlgorithm.RSA_2048:
     case KeyAlgorithm.RSA_4096:
       return usage.every(u => [KeyUsage.SIGN, KeyUsage.VERIFY].includes(u));
     case KeyAlgorithm.AES_256:
       return usage.every(u => [KeyUsage.ENCRYPT, KeyUsage.DECRYPT, KeyUsage.WRAP_KEY, KeyUsage.UNWRAP_KEY].includes(u));
     case KeyAlgorithm.HMAC_SHA256:
+    case KeyAlgorithm.BLS12_381:
       return usage.every(u => [KeyUsage.SIGN, KeyUsage.VERIFY].includes(u));
     default:
       return false;
@@ -0,0 +1,200 @@
+/**
+ * OID4VCI Wallet Client
+ *
+ * Implements the wallet side of the OID4VCI pre-authorized code flow:
+ * resolve the credential offer, discover issuer metadata, redeem the
+ * pre-authorized code and request the credential with a proof of possession.
+ */
+
+import { verifyJWT } from 'did-jwt';
+import type { Resolvable } from 'did-resolver';
+import { VerifiableCredential } from '../../types';
+import { normalizeEmbeddedCredential } from '../presentation/utils';
+import {
+  AuthorizationServerMetadata,
+  CredentialIssuerMetadata,
+  CredentialOffer,
+  CredentialRequest,
+  CredentialResponse,
+  OID4VCIError,
+  OID4VCIErrorCode,
+  PRE_AUTHORIZED_CODE_GRANT,
+  ProofJwtSigner,
+  ReceivedCredential,
+  TokenResponse
+} from './types';
+import { createProofJwt, parseCredentialOfferInput } from './utils';
+
+export type FetchLike = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface AcceptOfferOptions {
+  signer: ProofJwtSigner;
+  /** Transaction code communicated out of band, when the offer requires one */
+  txCode?: string;
+  /** Credential configuration to request; defaults to the first one offered */
+  credentialConfigurationId?: string;
+}
+
+export class OID4VCIClient {
+  private fetch: FetchLike;
+
+  constructor(private resolver: Resolvable, fetchImpl?: FetchLike) {
+    this.fetch = fetchImpl || ((url, init) => fetch(url, init));
+  }
+
+  /**
+   * Resolve an offer URI, offer JSON or credential transfer QR payload to a credential offer
+   */
+  async resolveCredentialOffer(input: string): Promise<CredentialOffer> {
+    const { offer, offerUri } = parseCredentialOfferInput(input);
+    if (offer) {
+      return offer;
+    }
+    return await this.getJson<CredentialOffer>(offerUri!);
+  }
+
+  async getIssuerMetadata(credentialIssuer: string): Promise<CredentialIssuerMetadata> {
+    return await this.getJson<CredentialIssuerMetadata>(
+      `${credentialIssuer.replace(/\/$/, '')}/.well-known/openid-credential-issuer`
+    );
+  }
+
+  async getAuthorizationServerMetadata(authorizationServer: string): Promise<AuthorizationServerMetadata> {
+    return await this.getJson<AuthorizationServerMetadata>(
+      `${authorizationServer.replace(/\/$/, '')}/.well-known/oauth-authorization-server`
+    );
+  }
+
+  /**
+   * Run the full pre-authorized code flow for an offer and return the received credential
+   */
+  async acceptCredentialOffer(input: string, options: AcceptOfferOptions): Promise<ReceivedCredential> {
+    const offer = await this.resolveCredentialOffer(input);
+    const grant = offer.grants?.[PRE_AUTHORIZED_CODE_GRANT];
+    if (!grant) {
+      throw new Error('Credential offer does not contain a pre-authorized code grant');
+    }
+    if (grant.tx_code && !options.txCode) {
+      throw new Error('Credential offer requires a transaction code');
+    }
+
+    const configurationId = options.credentialConfigurationId || offer.credential_configuration_ids[0];
+    if (!offer.credential_configuration_ids.includes(configurationId)) {
+      throw new Error(`Credential configuration ${configurationId} was not offered`);
+    }
+
+    const metadata = await this.getIssuerMetadata(offer.credential_issuer);
+    if (metadata.credential_issuer !== offer.credential_issuer) {
+      throw new Error(`Issuer metadata is for ${metadata.credential_issuer}, not ${offer.credential_issuer}`);
+    }
+    const configuration = metadata.credential_configurations_supported?.[configurationId];
+    if (!configuration) {
+      throw new Error(`Issuer does not support credential configuration ${configurationId}`);
+    }
+
+    const authorizationServer = metadata.authorization_servers?.[0] || offer.credential_issuer;
+    const { token_endpoint } = await this.getAuthorizationServerMetadata(authorizationServer);
+
+    const tokenParams = new URLSearchParams({
+      grant_type: PRE_AUTHORIZED_CODE_GRANT,
+      'pre-authorized_code': grant['pre-authorized_code']
+    });
+    if (options.txCode) {
+      tokenParams.set('tx_code', options.txCode);
+    }
+    const token = await this.postJson<TokenResponse>(token_endpoint, tokenParams.toString(), {
+      'Content-Type': 'application/x-www-form-urlencoded'
+    });
+
+    const request: CredentialRequest = {
+      format: configuration.format,
+      credential_definition: { type: configuration.credential_definition.type },
+      proof: {
+        proof_type: 'jwt',
+        jwt: await createProofJwt(options.signer, { audience: metadata.credential_issuer, nonce: token.c_nonce })
+      }
+    };
+
+    let response: CredentialResponse;
+    try {
+      response = await this.requestCredential(metadata.credential_endpoint, token.access_token, request);
+    } catch (err) {
+      // Retry once with the fresh nonce supplied by the issuer
+      const freshNonce = err instanceof OID4VCIError && err.code === OID4VCIErrorCode.INVALID_NONCE && err.details.c_nonce;
+      if (!freshNonce) {
+        throw err;
+      }
+      request.proof!.jwt = await createProofJwt(options.signer, { audience: metadata.credential_issuer, nonce: freshNonce });
+      response = await this.requestCredential(metadata.credential_endpoint, token.access_token, request);
+    }
+
+    const jwt = response.credential ?? (response as any).credentials?.[0]?.credential;
+    if (typeof jwt !== 'string') {
+      throw new Error('Credential response does not contain a JWT credential');
+    }
+
+    return {
+      credential: await this.verifyReceivedCredential(jwt, options.signer.kid.split('#')[0]),
+      jwt,
+      credentialIssuer: metadata.credential_issuer,
+      credentialConfigurationId: configurationId
+    };
+  }
+
+  /**
+   * Check the issuer signature of a received JWT VC and that it was issued to the holder
+   */
+  private async verifyReceivedCredential(jwt: string, holderDid: string): Promise<VerifiableCredential> {
+    let verified;
+    try {
+      verified = await verifyJWT(jwt, { resolver: this.resolver });
+    } catch (err) {
+      throw new Error(`Received credential failed verification: ${(err as Error).message}`);
+    }
+
+    const { issuer, payload } = verified;
+    const vcIssuer = (payload as any).vc?.issuer;
+    const claimedIssuer = typeof vcIssuer === 'object' ? vcIssuer?.id : vcIssuer;
+    if (claimedIssuer && claimedIssuer !== issuer) {
+      throw new Error(`Received credential names issuer ${claimedIssuer} but is signed by ${issuer}`);
+    }
+    const credential = normalizeEmbeddedCredential(jwt);
+    if (credential.credentialSubject.id !== holderDid) {
+      throw new Error(`Received credential was issued to ${credential.credentialSubject.id}, not ${holderDid}`);
+    }
+    return credential;
+  }
+
+  private async requestCredential(
+    endpoint: string,
+    accessToken: string,
+    request: CredentialRequest
+  ): Promise<CredentialResponse> {
+    return await this.postJson<CredentialResponse>(endpoint, JSON.stringify(request), {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${accessToken}`
+    });
+  }
+
+  private async getJson<T>(url: string): Promise<T> {
+    const response = await this.fetch(url, { headers: { Accept: 'application/json' } });
+    return await this.readResponse<T>(url, response);
+  }
+
+  private async postJson<T>(url: string, body: string, headers: Record<string, string>): Promise<T> {
+    const response = await this.fetch(url, { method: 'POST', headers, body });
+    return await this.readResponse<T>(url, response);
+  }
+
+  private async readResponse<T>(url: string, response: Response): Promise<T> {
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      if (body?.error) {
+        const { error, error_description, ...details } = body;
+        throw new OID4VCIError(error, error_description || error, response.status, details);
+      }
+      throw new Error(`Request to ${url} failed with status ${response.status}`);
+    }
+    return body as T;
+  }
+}
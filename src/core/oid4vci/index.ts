@@ -0,0 +1,50 @@
+/**
+ * OID4VCI Module - Barrel Export
+ *
+ * This module implements OpenID for Verifiable Credential Issuance using the
+ * pre-authorized code flow, for both the issuer and the wallet side.
+ *
+ * @example
+ * ```typescript
+ * const issuer = await serviceAgent.createCredentialIssuer({ credentialIssuer, credentialConfigurations })
+ * app.use(createOID4VCIRouter(issuer))
+ * const { offerUri } = issuer.createCredentialOffer({ credentialConfigurationId, claims })
+ * const credential = await userAgent.acceptCredentialOffer(offerUri)
+ * ```
+ */
+
+export { OID4VCIIssuer } from './issuer.js';
+export { OID4VCIClient } from './client.js';
+export type { FetchLike, AcceptOfferOptions } from './client.js';
+export {
+  createCredentialOfferUri,
+  parseCredentialOfferInput,
+  createProofJwt,
+  verifyProofJwt,
+  resolveVerificationMethods
+} from './utils.js';
+
+export {
+  PRE_AUTHORIZED_CODE_GRANT,
+  CREDENTIAL_OFFER_SCHEME,
+  PROOF_JWT_TYPE,
+  OID4VCIError,
+  OID4VCIErrorCode
+} from './types.js';
+
+export type {
+  TxCodeDefinition,
+  CredentialOffer,
+  CredentialConfiguration,
+  CredentialIssuerMetadata,
+  AuthorizationServerMetadata,
+  TokenRequest,
+  TokenResponse,
+  CredentialRequest,
+  CredentialResponse,
+  IssuerOptions,
+  CreateOfferOptions,
+  CreatedCredentialOffer,
+  ProofJwtSigner,
+  ReceivedCredential
+} from './types.js';
@@ -0,0 +1,307 @@
+/**
+ * OID4VCI Credential Issuer
+ *
+ * Implements the issuer side of the OID4VCI pre-authorized code flow:
+ * credential offers, issuer / authorization server metadata, the token
+ * endpoint and the credential endpoint with proof-of-possession checks.
+ * Protocol state (codes, tokens, nonces) is held in memory and pruned once expired.
+ */
+
+import crypto from 'crypto';
+import {
+  AuthorizationServerMetadata,
+  CreateOfferOptions,
+  CreatedCredentialOffer,
+  CredentialIssuerMetadata,
+  CredentialOffer,
+  CredentialRequest,
+  CredentialResponse,
+  IssuerOptions,
+  OID4VCIError,
+  OID4VCIErrorCode,
+  PRE_AUTHORIZED_CODE_GRANT,
+  TokenRequest,
+  TokenResponse
+} from './types';
+import { createCredentialOfferUri, verifyProofJwt } from './utils';
+
+interface PendingOffer {
+  offer: CredentialOffer;
+  options: CreateOfferOptions;
+  expiresAt: number;
+  /** Wrong transaction codes presented so far */
+  failedAttempts: number;
+  /** ID the offer is served under when published by reference */
+  referenceId?: string;
+}
+
+interface IssuedToken {
+  offer: PendingOffer;
+  expiresAt: number;
+  cNonce: string;
+  cNonceExpiresAt: number;
+}
+
+export class OID4VCIIssuer {
+  private options: Required<
+    Pick<IssuerOptions, 'preAuthorizedCodeTtl' | 'accessTokenTtl' | 'nonceTtl' | 'proofMaxAge' | 'maxTxCodeAttempts'>
+  > &
+    IssuerOptions;
+  private offers: Map<string, PendingOffer> = new Map();
+  /** Offers published by reference, by ID; they are served as long as their code is valid */
+  private offersById: Map<string, PendingOffer> = new Map();
+  private tokens: Map<string, IssuedToken> = new Map();
+
+  constructor(options: IssuerOptions) {
+    this.options = {
+      preAuthorizedCodeTtl: 600,
+      accessTokenTtl: 300,
+      nonceTtl: 300,
+      proofMaxAge: 300,
+      maxTxCodeAttempts: 3,
+      ...options,
+      credentialIssuer: options.credentialIssuer.replace(/\/$/, '')
+    };
+  }
+
+  get credentialIssuer(): string {
+    return this.options.credentialIssuer;
+  }
+
+  getIssuerMetadata(): CredentialIssuerMetadata {
+    return {
+      credential_issuer: this.credentialIssuer,
+      credential_endpoint: `${this.credentialIssuer}/credential`,
+      authorization_servers: [this.credentialIssuer],
+      credential_configurations_supported: this.options.credentialConfigurations,
+      ...(this.options.display ? { display: this.options.display } : {})
+    };
+  }
+
+  getAuthorizationServerMetadata(): AuthorizationServerMetadata {
+    return {
+      issuer: this.credentialIssuer,
+      token_endpoint: `${this.credentialIssuer}/token`,
+      grant_types_supported: [PRE_AUTHORIZED_CODE_GRANT],
+      'pre-authorized_grant_anonymous_access_supported': true
+    };
+  }
+
+  /**
+   * Create a pre-authorized credential offer for the given claims
+   */
+  createCredentialOffer(options: CreateOfferOptions): CreatedCredentialOffer {
+    if (!this.options.credentialConfigurations[options.credentialConfigurationId]) {
+      throw new Error(`Unknown credential configuration: ${options.credentialConfigurationId}`);
+    }
+    this.prune();
+
+    const preAuthorizedCode = crypto.randomBytes(32).toString('base64url');
+    const grant: NonNullable<CredentialOffer['grants']>[typeof PRE_AUTHORIZED_CODE_GRANT] = {
+      'pre-authorized_code': preAuthorizedCode
+    };
+    if (options.txCode) {
+      grant.tx_code = {
+        input_mode: /^\d+$/.test(options.txCode) ? 'numeric' : 'text',
+        length: options.txCode.length,
+        ...(options.txCodeDescription ? { description: options.txCodeDescription } : {})
+      };
+    }
+
+    const offer: CredentialOffer = {
+      credential_issuer: this.credentialIssuer,
+      credential_configuration_ids: [options.credentialConfigurationId],
+      grants: { [PRE_AUTHORIZED_CODE_GRANT]: grant }
+    };
+
+    this.offers.set(preAuthorizedCode, {
+      offer,
+      options,
+      expiresAt: Date.now() + this.options.preAuthorizedCodeTtl * 1000,
+      failedAttempts: 0
+    });
+
+    return { offer, offerUri: createCredentialOfferUri(offer), preAuthorizedCode };
+  }
+
+  /**
+   * Publish an offer by reference; the returned URI points at `/credential-offer/:id`
+   */
+  createCredentialOfferByReference(options: CreateOfferOptions): CreatedCredentialOffer {
+    const created = this.createCredentialOffer(options);
+    const id = crypto.randomUUID();
+    const pending = this.offers.get(created.preAuthorizedCode)!;
+    pending.referenceId = id;
+    this.offersById.set(id, pending);
+    const reference = `${this.credentialIssuer}/credential-offer/${id}`;
+    return {
+      ...created,
+      offerUri: `openid-credential-offer://?credential_offer_uri=${encodeURIComponent(reference)}`
+    };
+  }
+
+  getCredentialOffer(id: string): CredentialOffer | undefined {
+    this.prune();
+    return this.offersById.get(id)?.offer;
+  }
+
+  /**
+   * Token endpoint: exchange a pre-authorized code (and transaction code) for an access token
+   */
+  async handleTokenRequest(request: TokenRequest): Promise<TokenResponse> {
+    if (request.grant_type !== PRE_AUTHORIZED_CODE_GRANT) {
+      throw new OID4VCIError(OID4VCIErrorCode.UNSUPPORTED_GRANT_TYPE, `Unsupported grant type: ${request.grant_type}`);
+    }
+
+    this.prune();
+    const code = request['pre-authorized_code'];
+    const pending = code ? this.offers.get(code) : undefined;
+    if (!pending) {
+      throw new OID4VCIError(OID4VCIErrorCode.INVALID_GRANT, 'Pre-authorized code is invalid or expired');
+    }
+    if (pending.options.txCode && request.tx_code !== pending.options.txCode) {
+      // Transaction codes are short, so guessing one must not be possible
+      pending.failedAttempts++;
+      if (pending.failedAttempts >= this.options.maxTxCodeAttempts) {
+        this.removeOffer(code);
+        throw new OID4VCIError(OID4VCIErrorCode.INVALID_GRANT, 'Transaction code is invalid; too many attempts, the pre-authorized code is no longer valid');
+      }
+      throw new OID4VCIError(OID4VCIErrorCode.INVALID_GRANT, 'Transaction code is invalid');
+    }
+
+    // Pre-authorized codes are single use
+    this.removeOffer(code);
+
+    const accessToken = crypto.randomBytes(32).toString('base64url');
+    const cNonce = crypto.randomBytes(16).toString('base64url');
+    this.tokens.set(accessToken, {
+      offer: pending,
+      expiresAt: Date.now() + this.options.accessTokenTtl * 1000,
+      cNonce,
+      cNonceExpiresAt: Date.now() + this.options.nonceTtl * 1000
+    });
+
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: this.options.accessTokenTtl,
+      c_nonce: cNonce,
+      c_nonce_expires_in: this.options.nonceTtl
+    };
+  }
+
+  /**
+   * Credential endpoint: verify the access token and proof of possession, then issue
+   * a JWT VC bound to the holder DID
+   */
+  async handleCredentialRequest(accessToken: string | undefined, request: CredentialRequest): Promise<CredentialResponse> {
+    this.prune();
+    const token = accessToken ? this.tokens.get(accessToken) : undefined;
+    if (!token || token.expiresAt < Date.now()) {
+      throw new OID4VCIError(OID4VCIErrorCode.INVALID_TOKEN, 'Access token is invalid or expired', 401);
+    }
+
+    const configurationId = token.offer.options.credentialConfigurationId;
+    const configuration = this.options.credentialConfigurations[configurationId];
+    this.checkRequestedCredential(request, configurationId);
+
+    if (!request.proof || request.proof.proof_type !== 'jwt' || !request.proof.jwt) {
+      throw new OID4VCIError(OID4VCIErrorCode.INVALID_PROOF, 'A jwt proof of possession is required');
+    }
+    if (token.cNonceExpiresAt < Date.now()) {
+      throw this.nonceError(token, 'c_nonce has expired');
+    }
+
+    let holderDid: string;
+    try {
+      holderDid = await verifyProofJwt(request.proof.jwt, {
+        resolver: this.options.resolver,
+        audience: this.credentialIssuer,
+        nonce: token.cNonce,
+        maxAge: this.options.proofMaxAge
+      });
+    } catch (err) {
+      if (err instanceof OID4VCIError && err.code === OID4VCIErrorCode.INVALID_NONCE) {
+        throw this.nonceError(token, err.message);
+      }
+      throw err;
+    }
+
+    // One credential per access token: the token is spent before issuance, so a
+    // concurrent request with the same token and proof finds it gone
+    if (!this.tokens.delete(accessToken!)) {
+      throw new OID4VCIError(OID4VCIErrorCode.INVALID_TOKEN, 'Access token is invalid or expired', 401);
+    }
+
+    const credential = await this.options.issueCredential({
+      '@context': configuration.credential_definition['@context'] || ['https://www.w3.org/2018/credentials/v1'],
+      type: [...configuration.credential_definition.type],
+      issuer: this.options.issuerDid,
+      credentialSubject: { ...token.offer.options.claims, id: holderDid },
+      validUntil: token.offer.options.validUntil
+    });
+
+    const jwt = (credential.proof as any)?.jwt;
+    if (typeof jwt !== 'string') {
+      throw new Error('Issued credential is not a JWT VC');
+    }
+
+    // No c_nonce: the token is spent, so there is no follow-up request to make with it
+    return { credential: jwt };
+  }
+
+  private removeOffer(code: string): void {
+    const referenceId = this.offers.get(code)?.referenceId;
+    this.offers.delete(code);
+    if (referenceId) {
+      this.offersById.delete(referenceId);
+    }
+  }
+
+  /**
+   * Forget expired offers, codes and tokens
+   */
+  private prune(): void {
+    const now = Date.now();
+    for (const [code, pending] of this.offers) {
+      if (pending.expiresAt < now) {
+        this.removeOffer(code);
+      }
+    }
+    for (const [accessToken, token] of this.tokens) {
+      if (token.expiresAt < now) {
+        this.tokens.delete(accessToken);
+      }
+    }
+  }
+
+  private checkRequestedCredential(request: CredentialRequest, configurationId: string): void {
+    if (request.credential_configuration_id) {
+      if (request.credential_configuration_id !== configurationId) {
+        throw new OID4VCIError(OID4VCIErrorCode.UNSUPPORTED_CREDENTIAL_TYPE, 'Credential configuration was not offered');
+      }
+      return;
+    }
+
+    const configuration = this.options.credentialConfigurations[configurationId];
+    if (request.format !== configuration.format) {
+      throw new OID4VCIError(OID4VCIErrorCode.UNSUPPORTED_CREDENTIAL_FORMAT, `Unsupported credential format: ${request.format}`);
+    }
+    const requestedTypes = request.credential_definition?.type || [];
+    if (!configuration.credential_definition.type.every(type => requestedTypes.includes(type))) {
+      throw new OID4VCIError(OID4VCIErrorCode.UNSUPPORTED_CREDENTIAL_TYPE, 'Requested credential type was not offered');
+    }
+  }
+
+  /**
+   * Nonce errors carry a fresh c_nonce so the wallet can retry with a new proof
+   */
+  private nonceError(token: IssuedToken, message: string): OID4VCIError {
+    token.cNonce = crypto.randomBytes(16).toString('base64url');
+    token.cNonceExpiresAt = Date.now() + this.options.nonceTtl * 1000;
+    return new OID4VCIError(OID4VCIErrorCode.INVALID_NONCE, message, 400, {
+      c_nonce: token.cNonce,
+      c_nonce_expires_in: this.options.nonceTtl
+    });
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * OID4VCI Types
+ *
+ * Data model for OpenID for Verifiable Credential Issuance (pre-authorized
+ * code flow): credential offers, issuer metadata, token and credential
+ * requests/responses.
+ */
+
+import type { Resolvable } from 'did-resolver';
+import { CredentialSubject, VerifiableCredential } from '../../types';
+
+export const PRE_AUTHORIZED_CODE_GRANT = 'urn:ietf:params:oauth:grant-type:pre-authorized_code';
+export const CREDENTIAL_OFFER_SCHEME = 'openid-credential-offer://';
+export const PROOF_JWT_TYPE = 'openid4vci-proof+jwt';
+
+export interface TxCodeDefinition {
+  input_mode?: 'numeric' | 'text';
+  length?: number;
+  description?: string;
+}
+
+export interface CredentialOffer {
+  credential_issuer: string;
+  credential_configuration_ids: string[];
+  grants?: {
+    [PRE_AUTHORIZED_CODE_GRANT]?: {
+      'pre-authorized_code': string;
+      tx_code?: TxCodeDefinition;
+    };
+    authorization_code?: {
+      issuer_state?: string;
+    };
+  };
+}
+
+export interface CredentialConfiguration {
+  format: 'jwt_vc_json' | string;
+  scope?: string;
+  cryptographic_binding_methods_supported?: string[];
+  credential_signing_alg_values_supported?: string[];
+  proof_types_supported?: Record<string, { proof_signing_alg_values_supported: string[] }>;
+  credential_definition: {
+    '@context'?: string[];
+    type: string[];
+  };
+  display?: Array<{ name: string; locale?: string }>;
+}
+
+export interface CredentialIssuerMetadata {
+  credential_issuer: string;
+  credential_endpoint: string;
+  authorization_servers?: string[];
+  credential_configurations_supported: Record<string, CredentialConfiguration>;
+  display?: Array<{ name: string; locale?: string }>;
+}
+
+export interface AuthorizationServerMetadata {
+  issuer: string;
+  token_endpoint: string;
+  grant_types_supported: string[];
+  'pre-authorized_grant_anonymous_access_supported'?: boolean;
+}
+
+export interface TokenRequest {
+  grant_type: string;
+  'pre-authorized_code': string;
+  tx_code?: string;
+}
+
+export interface TokenResponse {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  c_nonce: string;
+  c_nonce_expires_in: number;
+  authorization_details?: any[];
+}
+
+export interface CredentialRequest {
+  format?: string;
+  credential_configuration_id?: string;
+  credential_definition?: { type: string[] };
+  proof?: {
+    proof_type: 'jwt';
+    jwt: string;
+  };
+}
+
+export interface CredentialResponse {
+  credential: string;
+  c_nonce?: string;
+  c_nonce_expires_in?: number;
+}
+
+export interface IssuerOptions {
+  /** Public HTTPS base URL of the credential issuer (also the proof JWT audience) */
+  credentialIssuer: string;
+  /** DID used as the credential issuer */
+  issuerDid: string;
+  credentialConfigurations: Record<string, CredentialConfiguration>;
+  /** Signs a credential template as a JWT VC (normally the service agent's issueCredential) */
+  issueCredential: (template: {
+    '@context': string[];
+    type: string[];
+    issuer: string;
+    credentialSubject: CredentialSubject;
+    validUntil?: string;
+  }) => Promise<VerifiableCredential>;
+  /** Resolves holder DIDs referenced by proof JWTs */
+  resolver: Resolvable;
+  display?: Array<{ name: string; locale?: string }>;
+  preAuthorizedCodeTtl?: number;
+  accessTokenTtl?: number;
+  nonceTtl?: number;
+  /** Allowed clock skew / age for proof JWT `iat`, in seconds */
+  proofMaxAge?: number;
+  /** Wrong transaction codes after which the pre-authorized code is invalidated (default: 3) */
+  maxTxCodeAttempts?: number;
+}
+
+export interface CreateOfferOptions {
+  credentialConfigurationId: string;
+  /** Claims placed in credentialSubject; the holder DID is added as `id` on issuance */
+  claims: Record<string, any>;
+  /** Optional transaction code the holder must present at the token endpoint */
+  txCode?: string;
+  txCodeDescription?: string;
+  validUntil?: string;
+}
+
+export interface CreatedCredentialOffer {
+  offer: CredentialOffer;
+  /** `openid-credential-offer://` URI carrying the offer by value */
+  offerUri: string;
+  preAuthorizedCode: string;
+}
+
+export interface ProofJwtSigner {
+  /** DID URL of the holder key, placed in the proof JWT `kid` header */
+  kid: string;
+  alg: string;
+  sign: (data: string | Uint8Array) => Promise<string>;
+}
+
+export interface ReceivedCredential {
+  credential: VerifiableCredential;
+  /** Compact JWT as returned by the credential endpoint */
+  jwt: string;
+  credentialIssuer: string;
+  credentialConfigurationId: string;
+}
+
+export enum OID4VCIErrorCode {
+  INVALID_REQUEST = 'invalid_request',
+  INVALID_GRANT = 'invalid_grant',
+  UNSUPPORTED_GRANT_TYPE = 'unsupported_grant_type',
+  INVALID_TOKEN = 'invalid_token',
+  INVALID_PROOF = 'invalid_proof',
+  INVALID_NONCE = 'invalid_nonce',
+  UNSUPPORTED_CREDENTIAL_FORMAT = 'unsupported_credential_format',
+  UNSUPPORTED_CREDENTIAL_TYPE = 'unsupported_credential_type'
+}
+
+/**
+ * OID4VCI protocol error, carrying the OAuth error code and HTTP status
+ */
+export class OID4VCIError extends Error {
+  constructor(
+    public code: OID4VCIErrorCode,
+    message: string,
+    public status: number = 400,
+    /** Extra response members, e.g. a fresh c_nonce for invalid_nonce */
+    public details: Record<string, any> = {}
+  ) {
+    super(message);
+    this.name = 'OID4VCIError';
+  }
+
+  toResponse(): { error: string; error_description: string; [key: string]: any } {
+    return { error: this.code, error_description: this.message, ...this.details };
+  }
+}
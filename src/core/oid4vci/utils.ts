@@ -0,0 +1,152 @@
+/**
+ * OID4VCI Utilities
+ *
+ * Credential offer URI encoding/parsing and proof-of-possession JWT
+ * creation/verification.
+ */
+
+import { createJWS, decodeJWT, verifyJWS } from 'did-jwt';
+import type { Resolvable, VerificationMethod } from 'did-resolver';
+import {
+  CREDENTIAL_OFFER_SCHEME,
+  CredentialOffer,
+  OID4VCIError,
+  OID4VCIErrorCode,
+  PROOF_JWT_TYPE,
+  ProofJwtSigner
+} from './types';
+
+/**
+ * Encode a credential offer by value as an `openid-credential-offer://` URI
+ */
+export function createCredentialOfferUri(offer: CredentialOffer): string {
+  return `${CREDENTIAL_OFFER_SCHEME}?credential_offer=${encodeURIComponent(JSON.stringify(offer))}`;
+}
+
+/**
+ * Parse a credential offer from an offer URI, a raw offer JSON, or a
+ * credential transfer QR payload carrying a `credentialOffer` URI.
+ * @returns the offer by value, or the `credential_offer_uri` to fetch it from
+ */
+export function parseCredentialOfferInput(input: string): { offer?: CredentialOffer; offerUri?: string } {
+  const trimmed = input.trim();
+
+  if (trimmed.startsWith('{')) {
+    const data = JSON.parse(trimmed);
+    if (data.credential_issuer) {
+      return { offer: data as CredentialOffer };
+    }
+    if (typeof data.credentialOffer === 'string') {
+      return parseCredentialOfferInput(data.credentialOffer);
+    }
+    throw new Error('QR payload does not contain a credential offer');
+  }
+
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    throw new Error('Invalid credential offer URI');
+  }
+
+  const byValue = url.searchParams.get('credential_offer');
+  if (byValue) {
+    return { offer: JSON.parse(byValue) as CredentialOffer };
+  }
+  const byReference = url.searchParams.get('credential_offer_uri');
+  if (byReference) {
+    return { offerUri: byReference };
+  }
+  throw new Error('Credential offer URI has neither credential_offer nor credential_offer_uri');
+}
+
+/**
+ * Create the proof-of-possession JWT sent with a credential request
+ */
+export async function createProofJwt(
+  signer: ProofJwtSigner,
+  options: { audience: string; nonce?: string; clientId?: string }
+): Promise<string> {
+  const payload: Record<string, any> = {
+    aud: options.audience,
+    iat: Math.floor(Date.now() / 1000)
+  };
+  if (options.nonce) {
+    payload.nonce = options.nonce;
+  }
+  // iss is omitted for anonymous pre-authorized code access
+  if (options.clientId) {
+    payload.iss = options.clientId;
+  }
+
+  // did-jwt types `typ` as 'JWT' only
+  const header: Record<string, any> = { alg: signer.alg, typ: PROOF_JWT_TYPE, kid: signer.kid };
+  return createJWS(payload, signer.sign, header);
+}
+
+/**
+ * Resolve the verification methods a DID URL refers to: the matching method for a
+ * `did#fragment` URL, or every method of the DID document for a bare DID
+ */
+export async function resolveVerificationMethods(resolver: Resolvable, didUrl: string): Promise<VerificationMethod[]> {
+  const did = didUrl.split('#')[0];
+  const resolution = await resolver.resolve(did);
+  const methods: VerificationMethod[] = (resolution.didDocument?.verificationMethod || []).map(method => ({
+    ...method,
+    id: method.id.startsWith('#') ? `${did}${method.id}` : method.id
+  }));
+  return didUrl.includes('#') ? methods.filter(method => method.id === didUrl) : methods;
+}
+
+/**
+ * Verify a proof-of-possession JWT: header type, holder key signature (resolved
+ * from the `kid` DID URL), audience, nonce and freshness.
+ * @returns the holder DID the credential should be bound to
+ */
+export async function verifyProofJwt(
+  jwt: string,
+  options: { resolver: Resolvable; audience: string; nonce: string; maxAge: number }
+): Promise<string> {
+  const invalidProof = (message: string) => new OID4VCIError(OID4VCIErrorCode.INVALID_PROOF, message);
+
+  let decoded;
+  try {
+    decoded = decodeJWT(jwt);
+  } catch {
+    throw invalidProof('Proof is not a valid JWT');
+  }
+  const { header, payload } = decoded;
+
+  if ((header.typ as string) !== PROOF_JWT_TYPE) {
+    throw invalidProof(`Proof JWT typ must be ${PROOF_JWT_TYPE}`);
+  }
+  if (!header.kid || !header.kid.startsWith('did:')) {
+    throw invalidProof('Proof JWT kid must be a DID URL');
+  }
+
+  const holderDid = header.kid.split('#')[0];
+  const keys = await resolveVerificationMethods(options.resolver, header.kid);
+  if (keys.length === 0) {
+    throw invalidProof(`No verification method found for ${header.kid}`);
+  }
+
+  try {
+    verifyJWS(jwt, keys);
+  } catch {
+    throw invalidProof('Proof JWT signature is invalid');
+  }
+
+  const audience = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+  if (!audience.includes(options.audience)) {
+    throw invalidProof('Proof JWT audience does not match the credential issuer');
+  }
+  if ((payload as any).nonce !== options.nonce) {
+    throw new OID4VCIError(OID4VCIErrorCode.INVALID_NONCE, 'Proof JWT nonce does not match c_nonce');
+  }
+  const now = Math.floor(Date.now() / 1000);
+  if (!payload.iat || Math.abs(now - payload.iat) > options.maxAge) {
+    throw invalidProof('Proof JWT iat is missing or outside the allowed window');
+  }
+
+  return holderDid;
+}
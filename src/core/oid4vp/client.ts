@@ -0,0 +1,111 @@
+/**
+ * OID4VP Holder Client
+ *
+ * Implements the holder side of OpenID for Verifiable Presentations: parse
+ * `openid4vp://` URIs, fetch and verify the signed request object, and post
+ * the VP token back to the verifier's `direct_post` response endpoint.
+ */
+
+import { verifyJWT } from 'did-jwt';
+import type { Resolvable } from 'did-resolver';
+import { VerifiablePresentation } from '../../types';
+import { PresentationSubmission } from '../presentation-exchange/types';
+import { FetchLike } from '../oid4vci/client';
+import { AuthorizationRequest, OID4VPError, OID4VPErrorCode, SELF_ISSUED_AUDIENCE } from './types';
+
+export class OID4VPClient {
+  private fetch: FetchLike;
+
+  constructor(private resolver: Resolvable, fetchImpl?: FetchLike) {
+    this.fetch = fetchImpl || ((url, init) => fetch(url, init));
+  }
+
+  /**
+   * Resolve an `openid4vp://` URI to a verified authorization request
+   */
+  async parseAuthorizationRequest(uri: string): Promise<AuthorizationRequest> {
+    let params: URLSearchParams;
+    try {
+      params = new URL(uri.trim()).searchParams;
+    } catch {
+      throw new OID4VPError(OID4VPErrorCode.INVALID_REQUEST, 'Invalid authorization request URI');
+    }
+
+    const clientId = params.get('client_id');
+    let requestObject = params.get('request');
+    const requestUri = params.get('request_uri');
+
+    if (!requestObject && requestUri) {
+      const response = await this.fetch(requestUri, { headers: { Accept: 'application/oauth-authz-req+jwt' } });
+      if (!response.ok) {
+        throw new OID4VPError(OID4VPErrorCode.INVALID_REQUEST, `Failed to fetch request object: ${response.status}`);
+      }
+      requestObject = (await response.text()).trim();
+    }
+    if (!requestObject) {
+      throw new OID4VPError(OID4VPErrorCode.INVALID_REQUEST, 'Authorization request must carry a signed request object');
+    }
+
+    return await this.verifyRequestObject(requestObject, clientId);
+  }
+
+  /**
+   * Verify a request object signed by the verifier DID and check its parameters
+   */
+  async verifyRequestObject(requestObject: string, expectedClientId?: string | null): Promise<AuthorizationRequest> {
+    let payload: Record<string, any>;
+    try {
+      ({ payload } = await verifyJWT(requestObject, { resolver: this.resolver, audience: SELF_ISSUED_AUDIENCE }));
+    } catch (err) {
+      const error = err as Error;
+      throw new OID4VPError(OID4VPErrorCode.INVALID_REQUEST_OBJECT, `Request object verification failed: ${error.message}`);
+    }
+
+    const request = payload as AuthorizationRequest & { iss?: string };
+    if (!request.client_id || request.client_id !== request.iss) {
+      throw new OID4VPError(OID4VPErrorCode.INVALID_CLIENT, 'Request object client_id must be the signing DID');
+    }
+    if (expectedClientId && expectedClientId !== request.client_id) {
+      throw new OID4VPError(OID4VPErrorCode.INVALID_CLIENT, 'client_id does not match the request object');
+    }
+    if (request.response_type !== 'vp_token' || request.response_mode !== 'direct_post' || !request.response_uri) {
+      throw new OID4VPError(OID4VPErrorCode.INVALID_REQUEST, 'Only vp_token requests with direct_post response mode are supported');
+    }
+    if (!request.nonce || !request.state || !request.presentation_definition) {
+      throw new OID4VPError(OID4VPErrorCode.INVALID_REQUEST, 'Request is missing nonce, state or presentation_definition');
+    }
+
+    return request;
+  }
+
+  /**
+   * Post the VP token and presentation submission to the verifier's response_uri
+   * @returns the verifier's response body (may contain a redirect_uri)
+   */
+  async submitAuthorizationResponse(
+    request: AuthorizationRequest,
+    vpToken: string | VerifiablePresentation,
+    presentationSubmission: PresentationSubmission
+  ): Promise<Record<string, any>> {
+    const body = new URLSearchParams({
+      vp_token: typeof vpToken === 'string' ? vpToken : JSON.stringify(vpToken),
+      presentation_submission: JSON.stringify(presentationSubmission),
+      state: request.state
+    });
+
+    const response = await this.fetch(request.response_uri, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: body.toString()
+    });
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new OID4VPError(
+        result.error || OID4VPErrorCode.INVALID_REQUEST,
+        result.error_description || `Verifier rejected the response with status ${response.status}`,
+        response.status
+      );
+    }
+    return result;
+  }
+}
@@ -0,0 +1,37 @@
+/**
+ * OID4VP Module - Barrel Export
+ *
+ * This module implements OpenID for Verifiable Presentations with signed
+ * request objects and the `direct_post` response mode, for both the verifier
+ * and the holder side.
+ *
+ * @example
+ * ```typescript
+ * const verifier = await serviceAgent.createPresentationVerifier({ baseUrl })
+ * app.use('/oid4vp', createOID4VPRouter(verifier))
+ * const { requestUri, state } = await verifier.createAuthorizationRequest({ presentationDefinition })
+ * await userAgent.respondToPresentationRequest(requestUri)
+ * verifier.getSession(state)?.status // 'verified'
+ * ```
+ */
+
+export { OID4VPVerifier } from './verifier.js';
+export { OID4VPClient } from './client.js';
+
+export {
+  AUTHORIZATION_REQUEST_SCHEME,
+  REQUEST_OBJECT_TYPE,
+  SELF_ISSUED_AUDIENCE,
+  OID4VPError,
+  OID4VPErrorCode
+} from './types.js';
+
+export type {
+  AuthorizationRequest,
+  AuthorizationResponse,
+  VerifierOptions,
+  CreateAuthorizationRequestOptions,
+  CreatedAuthorizationRequest,
+  AuthorizationSessionStatus,
+  AuthorizationSession
+} from './types.js';
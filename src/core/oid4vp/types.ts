@@ -0,0 +1,105 @@
+/**
+ * OID4VP Types
+ *
+ * Data model for OpenID for Verifiable Presentations: signed authorization
+ * request objects carrying a presentation definition, and `direct_post`
+ * authorization responses carrying the VP token.
+ */
+
+import { VerifiablePresentation } from '../../types';
+import { PresentationDefinition, PresentationSubmission } from '../presentation-exchange/types';
+import { PresentationVerificationResult } from '../presentation/types';
+import { ProofJwtSigner } from '../oid4vci/types';
+
+export const AUTHORIZATION_REQUEST_SCHEME = 'openid4vp://';
+export const REQUEST_OBJECT_TYPE = 'oauth-authz-req+jwt';
+export const SELF_ISSUED_AUDIENCE = 'https://self-issued.me/v2';
+
+export interface AuthorizationRequest {
+  response_type: 'vp_token';
+  client_id: string;
+  client_id_scheme?: 'did' | string;
+  response_mode: 'direct_post';
+  response_uri: string;
+  nonce: string;
+  state: string;
+  presentation_definition: PresentationDefinition;
+  client_metadata?: Record<string, any>;
+}
+
+export interface AuthorizationResponse {
+  vp_token: string | VerifiablePresentation;
+  presentation_submission: PresentationSubmission;
+  state: string;
+}
+
+export interface VerifierOptions {
+  /** Public base URL the verifier endpoints are mounted at */
+  baseUrl: string;
+  /** Verifier DID; used as client_id and request object issuer */
+  clientId: string;
+  /** Signs request objects with a key of the verifier DID */
+  signer: ProofJwtSigner;
+  /** Verifies a VP token against the session nonce, client_id and presentation definition */
+  verifyPresentation: (
+    presentation: string | VerifiablePresentation,
+    submission: PresentationSubmission,
+    binding: { challenge: string; domain: string; presentationDefinition: PresentationDefinition }
+  ) => Promise<PresentationVerificationResult>;
+  clientMetadata?: Record<string, any>;
+  /** Lifetime of an authorization request, in seconds */
+  requestTtl?: number;
+  /** Seconds a session can still be looked up after its request expired, e.g. to poll the result (default: 600) */
+  sessionRetention?: number;
+}
+
+export interface CreateAuthorizationRequestOptions {
+  presentationDefinition: PresentationDefinition;
+  /** Pass the request object by value instead of via request_uri */
+  byValue?: boolean;
+}
+
+export interface CreatedAuthorizationRequest {
+  /** `openid4vp://` URI to render as a QR code or deep link */
+  requestUri: string;
+  requestObject: string;
+  state: string;
+  nonce: string;
+}
+
+export type AuthorizationSessionStatus = 'pending' | 'submitted' | 'verified' | 'failed' | 'expired';
+
+export interface AuthorizationSession {
+  state: string;
+  status: AuthorizationSessionStatus;
+  request: AuthorizationRequest;
+  requestObject: string;
+  expiresAt: number;
+  result?: PresentationVerificationResult;
+}
+
+export enum OID4VPErrorCode {
+  INVALID_REQUEST = 'invalid_request',
+  INVALID_REQUEST_OBJECT = 'invalid_request_object',
+  INVALID_CLIENT = 'invalid_client',
+  ACCESS_DENIED = 'access_denied',
+  VP_FORMATS_NOT_SUPPORTED = 'vp_formats_not_supported'
+}
+
+/**
+ * OID4VP protocol error, carrying the OAuth error code and HTTP status
+ */
+export class OID4VPError extends Error {
+  constructor(
+    public code: OID4VPErrorCode,
+    message: string,
+    public status: number = 400
+  ) {
+    super(message);
+    this.name = 'OID4VPError';
+  }
+
+  toResponse(): { error: string; error_description: string } {
+    return { error: this.code, error_description: this.message };
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * OID4VP Verifier
+ *
+ * Implements the verifier side of OpenID for Verifiable Presentations with the
+ * `direct_post` response mode: signed request objects served by reference, and
+ * verification of the posted VP token against the session nonce and definition.
+ * Sessions are held in memory, keyed by `state`, and dropped some time after
+ * their request expired.
+ */
+
+import crypto from 'crypto';
+import { createJWS } from 'did-jwt';
+import {
+  AUTHORIZATION_REQUEST_SCHEME,
+  AuthorizationRequest,
+  AuthorizationSession,
+  CreateAuthorizationRequestOptions,
+  CreatedAuthorizationRequest,
+  OID4VPError,
+  OID4VPErrorCode,
+  REQUEST_OBJECT_TYPE,
+  SELF_ISSUED_AUDIENCE,
+  VerifierOptions
+} from './types';
+import { PresentationSubmission } from '../presentation-exchange/types';
+import { PresentationVerificationResult } from '../presentation/types';
+
+export class OID4VPVerifier {
+  private options: VerifierOptions & { requestTtl: number; sessionRetention: number };
+  private sessions: Map<string, AuthorizationSession> = new Map();
+
+  constructor(options: VerifierOptions) {
+    this.options = {
+      requestTtl: 300,
+      sessionRetention: 600,
+      ...options,
+      baseUrl: options.baseUrl.replace(/\/$/, '')
+    };
+  }
+
+  get responseUri(): string {
+    return `${this.options.baseUrl}/response`;
+  }
+
+  /**
+   * Create a signed authorization request for a presentation definition
+   */
+  async createAuthorizationRequest(options: CreateAuthorizationRequestOptions): Promise<CreatedAuthorizationRequest> {
+    this.prune();
+    const state = crypto.randomBytes(16).toString('base64url');
+    const nonce = crypto.randomBytes(16).toString('base64url');
+
+    const request: AuthorizationRequest = {
+      response_type: 'vp_token',
+      client_id: this.options.clientId,
+      client_id_scheme: 'did',
+      response_mode: 'direct_post',
+      response_uri: this.responseUri,
+      nonce,
+      state,
+      presentation_definition: options.presentationDefinition,
+      ...(this.options.clientMetadata ? { client_metadata: this.options.clientMetadata } : {})
+    };
+
+    const now = Math.floor(Date.now() / 1000);
+    const { signer } = this.options;
+    // did-jwt types `typ` as 'JWT' only
+    const header: Record<string, any> = { alg: signer.alg, typ: REQUEST_OBJECT_TYPE, kid: signer.kid };
+    const requestObject = await createJWS(
+      { ...request, iss: this.options.clientId, aud: SELF_ISSUED_AUDIENCE, iat: now, exp: now + this.options.requestTtl },
+      signer.sign,
+      header
+    );
+
+    this.sessions.set(state, {
+      state,
+      status: 'pending',
+      request,
+      requestObject,
+      expiresAt: Date.now() + this.options.requestTtl * 1000
+    });
+
+    const params = new URLSearchParams({ client_id: this.options.clientId });
+    if (options.byValue) {
+      params.set('request', requestObject);
+    } else {
+      params.set('request_uri', `${this.options.baseUrl}/request/${state}`);
+    }
+
+    return { requestUri: `${AUTHORIZATION_REQUEST_SCHEME}?${params.toString()}`, requestObject, state, nonce };
+  }
+
+  /**
+   * Return the signed request object for a pending session (served at request_uri)
+   */
+  getRequestObject(state: string): string | undefined {
+    const session = this.getSession(state);
+    return session?.status === 'pending' ? session.requestObject : undefined;
+  }
+
+  getSession(state: string): AuthorizationSession | undefined {
+    this.prune();
+    const session = this.sessions.get(state);
+    if (session && session.status === 'pending' && session.expiresAt < Date.now()) {
+      session.status = 'expired';
+    }
+    return session;
+  }
+
+  /**
+   * Handle a `direct_post` authorization response and verify its VP token
+   */
+  async handleAuthorizationResponse(body: Record<string, any>): Promise<PresentationVerificationResult> {
+    const session = body.state ? this.getSession(body.state) : undefined;
+    if (!session) {
+      throw new OID4VPError(OID4VPErrorCode.INVALID_REQUEST, 'Unknown or missing state');
+    }
+    if (session.status !== 'pending') {
+      throw new OID4VPError(OID4VPErrorCode.INVALID_REQUEST, `Authorization request is ${session.status}`);
+    }
+    if (body.error) {
+      session.status = 'failed';
+      throw new OID4VPError(OID4VPErrorCode.ACCESS_DENIED, body.error_description || body.error);
+    }
+    if (!body.vp_token || !body.presentation_submission) {
+      throw new OID4VPError(OID4VPErrorCode.INVALID_REQUEST, 'vp_token and presentation_submission are required');
+    }
+
+    let submission: PresentationSubmission;
+    let vpToken = body.vp_token;
+    try {
+      submission = typeof body.presentation_submission === 'string'
+        ? JSON.parse(body.presentation_submission)
+        : body.presentation_submission;
+      // Form-encoded LDP presentations arrive as JSON strings
+      if (typeof vpToken === 'string' && vpToken.trim().startsWith('{')) {
+        vpToken = JSON.parse(vpToken);
+      }
+    } catch {
+      throw new OID4VPError(OID4VPErrorCode.INVALID_REQUEST, 'Malformed presentation_submission or vp_token');
+    }
+
+    if (submission.definition_id !== session.request.presentation_definition.id) {
+      session.status = 'failed';
+      throw new OID4VPError(OID4VPErrorCode.INVALID_REQUEST, 'presentation_submission does not answer this request');
+    }
+
+    // Responses are single use, whatever the verification outcome
+    session.status = 'submitted';
+    const result = await this.options.verifyPresentation(vpToken, submission, {
+      challenge: session.request.nonce,
+      domain: session.request.client_id,
+      presentationDefinition: session.request.presentation_definition
+    });
+    session.status = result.isValid ? 'verified' : 'failed';
+    session.result = result;
+    return result;
+  }
+
+  /**
+   * Forget sessions whose request expired longer than the retention ago
+   */
+  private prune(): void {
+    const cutoff = Date.now() - this.options.sessionRetention * 1000;
+    for (const [state, session] of this.sessions) {
+      if (session.expiresAt < cutoff) {
+        this.sessions.delete(state);
+      }
+    }
+  }
+}
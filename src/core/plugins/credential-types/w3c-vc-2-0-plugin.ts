@@ -15,6 +15,7 @@ import type {
   ValidationResult,
   PluginMetadata 
 } from '../interfaces.js';
+import { SdJwtVcClient } from '../../sd-jwt/client.js';
 
 export interface W3CVC20PluginConfig {
   /** Default proof type to use */
@@ -314,12 +315,18 @@ export class W3CVC20Plugin extends BasePlugin {
   /**
    * Export credential to different formats
    */
-  async exportCredential(credential: any, format: 'json' | 'jwt' | 'cbor' = 'json'): Promise<string> {
+  async exportCredential(credential: any, format: 'json' | 'jwt' | 'cbor' | 'sd-jwt' = 'json'): Promise<string> {
     switch (format) {
       case 'json':
         return JSON.stringify(credential, null, 2);
       case 'jwt':
         return await this.convertToJWT(credential);
+      case 'sd-jwt':
+        // SD-JWT VCs can only be re-signed by their issuer; export the original compact form
+        if (typeof credential?.proof?.sdJwt !== 'string') {
+          throw new Error('Credential was not issued as an SD-JWT VC');
+        }
+        return credential.proof.sdJwt;
       case 'cbor':
         return await this.convertToCBOR(credential);
       default:
@@ -330,12 +337,15 @@ export class W3CVC20Plugin extends BasePlugin {
   /**
    * Import credential from different formats
    */
-  async importCredential(data: string, format: 'json' | 'jwt' | 'cbor' = 'json'): Promise<any> {
+  async importCredential(data: string, format: 'json' | 'jwt' | 'cbor' | 'sd-jwt' = 'json'): Promise<any> {
     switch (format) {
       case 'json':
         return JSON.parse(data);
       case 'jwt':
         return await this.convertFromJWT(data);
+      case 'sd-jwt':
+        // Decoded without verification, like the JWT import
+        return new SdJwtVcClient().toCredential(data);
       case 'cbor':
         return await this.convertFromCBOR(data);
       default:
@@ -0,0 +1,344 @@
+/**
+ * BBS Cryptographic Suite Plugin (bbs-2023)
+ *
+ * Implements the `bbs-2023` Data Integrity cryptosuite over BLS12-381 keys,
+ * which are generated and kept in a KeyManager and sign by key ID.
+ * Issuers create a base proof over a credential; holders derive proofs from it
+ * that reveal only chosen JSON pointers. Each derived proof is a fresh
+ * zero-knowledge proof, so two presentations of the same credential cannot be
+ * linked through their proof values.
+ *
+ * JSON-LD processing uses the offline document loader of the Data Integrity
+ * module; verification methods are dereferenced through a DID resolver, or
+ * locally for BLS12-381 `did:key` identifiers.
+ */
+
+import { DataIntegrityProof } from '@digitalbazaar/data-integrity';
+import * as Bls12381Multikey from '@digitalbazaar/bls12-381-multikey';
+import {
+  createDiscloseCryptosuite,
+  createSignCryptosuite,
+  createVerifyCryptosuite
+} from '@digitalbazaar/bbs-2023-cryptosuite';
+import jsigs from 'jsonld-signatures';
+import type { DIDDocument, Resolvable } from 'did-resolver';
+import { BasePlugin } from '../base-plugin.js';
+import type { PluginContext, ValidationResult } from '../interfaces.js';
+import { createDocumentLoader } from '../../data-integrity/document-loader.js';
+import { DID_V1_URL } from '../../data-integrity/contexts/did-v1.js';
+import { MULTIKEY_V1_URL } from '../../data-integrity/contexts/multikey-v1.js';
+import type {
+  DataIntegrityVerificationResult,
+  DocumentLoader,
+  RemoteDocument
+} from '../../data-integrity/types.js';
+import { createKeyManager, type KeyManager } from '../../key-management/manager.js';
+import { KeyAlgorithm } from '../../key-management/types.js';
+
+const { purposes: { AssertionProofPurpose } } = jsigs;
+
+export const BBS_2023_CRYPTOSUITE = 'bbs-2023';
+
+/** Multibase prefix of a base58btc encoded BLS12-381 G2 public key (multicodec 0xeb) */
+const BLS12_381_G2_MULTIBASE_PREFIX = 'zUC7';
+
+export interface Bbs2023PluginConfig {
+  /** Additional JSON-LD contexts to pin, keyed by URL */
+  contexts?: Record<string, Record<string, any>>;
+  /** Holds the BLS12-381 secret keys (default: an in-memory Node key manager) */
+  keyManager?: KeyManager;
+}
+
+export interface Bbs2023KeyPair {
+  /** DID URL of the verification method */
+  id: string;
+  /** DID that controls the key */
+  controller: string;
+  algorithm: KeyAlgorithm.BLS12_381;
+  /** Multibase encoded BLS12-381 G2 public key */
+  publicKeyMultibase: string;
+  /** ID of the secret key in the plugin's KeyManager */
+  keyId: string;
+}
+
+export interface Bbs2023GenerateKeyOptions {
+  /** Controlling DID; defaults to the `did:key` of the generated key */
+  controller?: string;
+}
+
+export interface Bbs2023BaseProofOptions {
+  keyPair: Bbs2023KeyPair;
+  /** JSON pointers that every derived proof must reveal, e.g. `/issuer` */
+  mandatoryPointers?: string[];
+}
+
+export interface Bbs2023DeriveOptions {
+  /** JSON pointers the holder chooses to reveal, in addition to the mandatory ones */
+  selectivePointers: string[];
+  /** Verifier supplied bytes (e.g. a nonce) bound into the derived proof */
+  presentationHeader?: Uint8Array;
+}
+
+export interface Bbs2023VerifyOptions {
+  /** Resolves the controller DID of the proof's verification method */
+  resolver?: Resolvable;
+}
+
+/** A Multikey verification method as published in a controller's DID document */
+export interface Bbs2023VerificationMethod {
+  id: string;
+  type: 'Multikey';
+  controller: string;
+  publicKeyMultibase: string;
+}
+
+export class Bbs2023Plugin extends BasePlugin {
+  private cryptoConfig: Bbs2023PluginConfig;
+  private contextLoader: DocumentLoader;
+  private keyManager: KeyManager;
+
+  constructor(config: Bbs2023PluginConfig = {}) {
+    super(
+      'bbs-2023-plugin',
+      'BBS Cryptographic Suite Plugin',
+      '1.0.0',
+      'regular',
+      'crypto-suite',
+      {
+        name: 'Open Verifiable',
+        did: 'did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK',
+        email: 'plugins@open-verifiable.org'
+      },
+      [
+        'bbs-2023:generate',
+        'bbs-2023:sign',
+        'bbs-2023:derive',
+        'bbs-2023:verify'
+      ],
+      {
+        description: 'bbs-2023 Data Integrity cryptosuite with unlinkable selective disclosure',
+        config
+      }
+    );
+
+    this.cryptoConfig = { ...config };
+    this.contextLoader = createDocumentLoader({ contexts: this.cryptoConfig.contexts });
+    this.keyManager = config.keyManager || createKeyManager();
+  }
+
+  protected async onInitialize(_context: PluginContext): Promise<void> {
+    // BBS operations run in-process; nothing to register
+  }
+
+  protected async onCleanup(): Promise<void> {
+    // No bbs-2023 specific resources to release
+  }
+
+  protected async onValidateConfig(config: any): Promise<ValidationResult> {
+    const errors: string[] = [];
+
+    if (config?.contexts !== undefined && (typeof config.contexts !== 'object' || config.contexts === null)) {
+      errors.push('contexts must be an object of JSON-LD contexts keyed by URL');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings: []
+    };
+  }
+
+  /**
+   * Generate a BLS12-381 G2 key pair for BBS signatures in the KeyManager; the secret key stays there
+   */
+  async generateKeyPair(options: Bbs2023GenerateKeyOptions = {}): Promise<Bbs2023KeyPair> {
+    const keyId = await this.keyManager.generateKey(KeyAlgorithm.BLS12_381, {
+      tags: ['bbs-2023'],
+      description: 'BBS signing key'
+    });
+    const publicKey = await Bls12381Multikey.fromJwk({ jwk: await this.keyManager.getPublicKeyJwk(keyId) });
+    const controller = options.controller || `did:key:${publicKey.publicKeyMultibase}`;
+
+    return {
+      id: `${controller}#${publicKey.publicKeyMultibase}`,
+      controller,
+      algorithm: KeyAlgorithm.BLS12_381,
+      publicKeyMultibase: publicKey.publicKeyMultibase,
+      keyId
+    };
+  }
+
+  /**
+   * The verification method to publish under the controller's `assertionMethod`
+   */
+  getVerificationMethod(keyPair: Bbs2023KeyPair): Bbs2023VerificationMethod {
+    return {
+      id: keyPair.id,
+      type: 'Multikey',
+      controller: keyPair.controller,
+      publicKeyMultibase: keyPair.publicKeyMultibase
+    };
+  }
+
+  /**
+   * Issuer: secure a credential with a bbs-2023 base proof
+   * @returns a copy of the credential with the base proof attached
+   */
+  async createBaseProof<T extends Record<string, any>>(
+    credential: T,
+    options: Bbs2023BaseProofOptions
+  ): Promise<T & { proof: Record<string, any> }> {
+    const { keyPair } = options;
+    const publicKey = await Bls12381Multikey.from({ publicKeyMultibase: keyPair.publicKeyMultibase });
+    // The cryptosuite passes the CBOR-encoded BBS header and messages to `sign`
+    const signer = {
+      id: keyPair.id,
+      algorithm: Bls12381Multikey.ALGORITHMS.BBS_BLS12381_SHA256,
+      publicKey: publicKey.publicKey,
+      sign: ({ data }: { data: Uint8Array }) => this.keyManager.sign(keyPair.keyId, data)
+    };
+    const suite = new DataIntegrityProof({
+      signer,
+      cryptosuite: createSignCryptosuite({ mandatoryPointers: options.mandatoryPointers || [] })
+    });
+
+    return jsigs.sign(structuredClone(credential), {
+      suite,
+      purpose: new AssertionProofPurpose(),
+      documentLoader: this.contextLoader
+    });
+  }
+
+  /**
+   * Holder: derive a proof that reveals only the mandatory and selected JSON pointers
+   * @returns the reduced credential with the derived proof attached
+   */
+  async deriveProof<T extends Record<string, any>>(
+    secured: T,
+    options: Bbs2023DeriveOptions
+  ): Promise<Record<string, any>> {
+    if (!secured.proof || secured.proof.cryptosuite !== BBS_2023_CRYPTOSUITE) {
+      throw new Error('Credential does not carry a bbs-2023 base proof');
+    }
+
+    const suite = new DataIntegrityProof({
+      cryptosuite: createDiscloseCryptosuite({
+        selectivePointers: options.selectivePointers,
+        presentationHeader: options.presentationHeader
+      })
+    });
+
+    return jsigs.derive(structuredClone(secured), {
+      suite,
+      purpose: new AssertionProofPurpose(),
+      documentLoader: this.contextLoader
+    });
+  }
+
+  /**
+   * Verifier: verify a derived bbs-2023 proof
+   */
+  async verifyProof(
+    derived: Record<string, any>,
+    options: Bbs2023VerifyOptions = {}
+  ): Promise<DataIntegrityVerificationResult> {
+    const proof = Array.isArray(derived.proof) ? derived.proof[0] : derived.proof;
+    if (!proof) {
+      return { verified: false, errors: ['Document has no proof'] };
+    }
+
+    const suite = new DataIntegrityProof({ cryptosuite: createVerifyCryptosuite() });
+    const result = await jsigs.verify(structuredClone(derived), {
+      suite,
+      purpose: new AssertionProofPurpose(),
+      documentLoader: this.createVerificationLoader(options.resolver)
+    });
+
+    return {
+      verified: result.verified,
+      errors: result.verified ? [] : this.collectErrors(result.error),
+      verificationMethod: proof.verificationMethod,
+      cryptosuite: proof.cryptosuite
+    };
+  }
+
+  /**
+   * Get bbs-2023 algorithm information
+   */
+  getAlgorithmInfo(): {
+    name: string;
+    keySize: number;
+    signatureSize: number;
+    securityLevel: string;
+    performance: string;
+  } {
+    return {
+      name: 'BBS-BLS12-381-SHA-256',
+      keySize: 256,
+      signatureSize: 80,
+      securityLevel: '128-bit',
+      performance: 'medium'
+    };
+  }
+
+  // Private helper methods
+
+  /**
+   * Serve pinned contexts, and DID documents and verification methods of the proof's controller
+   */
+  private createVerificationLoader(resolver?: Resolvable): DocumentLoader {
+    return async (url: string): Promise<RemoteDocument> => {
+      if (!url.startsWith('did:')) {
+        return this.contextLoader(url);
+      }
+
+      const [did, fragment] = url.split('#');
+      const didDocument = await this.resolveDidDocument(did, resolver);
+      if (!fragment) {
+        return { contextUrl: null, documentUrl: url, document: didDocument };
+      }
+
+      const method = (didDocument.verificationMethod || []).find(
+        vm => vm.id === url || (vm.id.startsWith('#') && `${did}${vm.id}` === url)
+      );
+      if (!method) {
+        throw new Error(`Verification method ${url} not found in DID document`);
+      }
+      return {
+        contextUrl: null,
+        documentUrl: url,
+        document: { '@context': MULTIKEY_V1_URL, ...method, id: url }
+      };
+    };
+  }
+
+  private async resolveDidDocument(did: string, resolver?: Resolvable): Promise<DIDDocument> {
+    const multibase = did.startsWith('did:key:') ? did.slice('did:key:'.length) : undefined;
+    if (multibase?.startsWith(BLS12_381_G2_MULTIBASE_PREFIX)) {
+      const vmId = `${did}#${multibase}`;
+      return {
+        '@context': [DID_V1_URL, MULTIKEY_V1_URL],
+        id: did,
+        verificationMethod: [{ id: vmId, type: 'Multikey', controller: did, publicKeyMultibase: multibase }],
+        assertionMethod: [vmId]
+      };
+    }
+
+    if (!resolver) {
+      throw new Error(`No DID resolver available for ${did}`);
+    }
+    const { didDocument } = await resolver.resolve(did);
+    if (!didDocument) {
+      throw new Error(`Could not resolve ${did}`);
+    }
+    return didDocument;
+  }
+
+  private collectErrors(error: any): string[] {
+    if (!error) {
+      return ['Proof verification failed'];
+    }
+    const errors: any[] = error.errors || [error];
+    return errors.map(err => (err?.message as string) || String(err));
+  }
+}
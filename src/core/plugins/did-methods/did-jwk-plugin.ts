@@ -0,0 +1,264 @@
+/**
+ * DID:jwk Plugin
+ *
+ * Implements the did:jwk method: the DID is the base64url encoded public JWK,
+ * so its document is synthesized from the identifier without any lookup.
+ * Many OID4VC wallets use did:jwk as their holder identifier.
+ *
+ * Besides resolution the plugin signs compact JWTs with the private JWK and
+ * verifies JWTs whose `kid` is a did:jwk URL.
+ *
+ * @see https://github.com/quartzjer/did-jwk/blob/main/spec.md
+ */
+
+import crypto from 'crypto';
+import type { DIDDocument, DIDResolutionResult, DIDResolver, JsonWebKey as DIDJsonWebKey } from 'did-resolver';
+import { BasePlugin } from '../base-plugin.js';
+import type { PluginContext, ValidationResult } from '../interfaces.js';
+
+export interface DIDJWKCreateResult {
+  did: string;
+  /** DID URL of the key, for the JWT `kid` header */
+  kid: string;
+  document: DIDDocument;
+}
+
+/** Signs JWTs as a did:jwk; the same shape as the OID4VCI proof signer */
+export interface DIDJWKSigner {
+  kid: string;
+  alg: string;
+  sign: (data: string | Uint8Array) => Promise<string>;
+}
+
+export interface DIDJWKVerificationResult {
+  verified: boolean;
+  did?: string;
+  header?: Record<string, any>;
+  payload?: Record<string, any>;
+  error?: string;
+}
+
+const DID_CONTEXT = 'https://www.w3.org/ns/did/v1';
+const JWS_2020_CONTEXT = 'https://w3id.org/security/suites/jws-2020/v1';
+
+/** JWK members that carry private key material (RFC 7518) */
+const PRIVATE_JWK_MEMBERS = ['d', 'p', 'q', 'dp', 'dq', 'qi', 'oth', 'k'];
+
+/** JWS algorithm per key type and curve, with its Node.js digest (null for EdDSA) */
+const JWS_ALGORITHMS: Record<string, { alg: string; digest: string | null }> = {
+  'OKP:Ed25519': { alg: 'EdDSA', digest: null },
+  'EC:P-256': { alg: 'ES256', digest: 'sha256' },
+  'EC:secp256k1': { alg: 'ES256K', digest: 'sha256' },
+  'EC:P-384': { alg: 'ES384', digest: 'sha384' },
+  RSA: { alg: 'RS256', digest: 'sha256' }
+};
+
+export class DIDJWKPlugin extends BasePlugin {
+  constructor() {
+    super(
+      'did-jwk-plugin',
+      'DID:jwk Plugin',
+      '1.0.0',
+      'regular',
+      'did-method',
+      {
+        name: 'Open Verifiable',
+        did: 'did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK',
+        email: 'plugins@open-verifiable.org'
+      },
+      [
+        'did:jwk:create',
+        'did:jwk:resolve',
+        'did:jwk:sign',
+        'did:jwk:verify'
+      ],
+      {
+        description: 'DID:jwk method implementation with JWT signing and verification'
+      }
+    );
+  }
+
+  protected async onInitialize(_context: PluginContext): Promise<void> {
+    // did:jwk needs no registry; nothing to register
+  }
+
+  protected async onCleanup(): Promise<void> {
+    // No did:jwk specific resources to release
+  }
+
+  protected async onValidateConfig(_config: any): Promise<ValidationResult> {
+    return { isValid: true, errors: [], warnings: [] };
+  }
+
+  /**
+   * Derive the did:jwk of a key, e.g. the `publicKey` of `KeyManager.generateKeyPair`.
+   * Private members of the JWK are dropped.
+   */
+  createDID(jwk: JsonWebKey | string): DIDJWKCreateResult {
+    const publicJwk = toPublicJwk(typeof jwk === 'string' ? JSON.parse(jwk) : jwk);
+    if (!publicJwk.kty) {
+      throw new Error('Not a JWK: kty is missing');
+    }
+
+    const did = `did:jwk:${Buffer.from(JSON.stringify(publicJwk), 'utf-8').toString('base64url')}`;
+    return { did, kid: `${did}#0`, document: buildDocument(did, publicJwk) };
+  }
+
+  /**
+   * Resolve a did:jwk to the document synthesized from its key
+   */
+  async resolveDID(did: string): Promise<DIDResolutionResult> {
+    try {
+      const base = did.split('#')[0];
+      return {
+        didResolutionMetadata: { contentType: 'application/did+json' },
+        didDocument: buildDocument(base, decodeDidJwk(base)),
+        didDocumentMetadata: {}
+      };
+    } catch (err) {
+      return {
+        didResolutionMetadata: { error: 'invalidDid', message: (err as Error).message },
+        didDocument: null,
+        didDocumentMetadata: {}
+      };
+    }
+  }
+
+  /**
+   * A did-resolver method map, e.g. `new Resolver({ ...plugin.getResolver() })`
+   */
+  getResolver(): { jwk: DIDResolver } {
+    return { jwk: async did => this.resolveDID(did) };
+  }
+
+  /**
+   * Create a JWT signer for the did:jwk of a private JWK
+   */
+  createSigner(privateJwk: JsonWebKey | string): DIDJWKSigner {
+    const jwk: JsonWebKey = typeof privateJwk === 'string' ? JSON.parse(privateJwk) : privateJwk;
+    if (!jwk.d) {
+      throw new Error('A private JWK is required to sign');
+    }
+    const { alg, digest } = jwsAlgorithm(jwk);
+    const key = crypto.createPrivateKey({ key: jwk as crypto.JsonWebKey, format: 'jwk' });
+
+    return {
+      kid: this.createDID(jwk).kid,
+      alg,
+      sign: async data => crypto.sign(digest, Buffer.from(data), { key, dsaEncoding: 'ieee-p1363' }).toString('base64url')
+    };
+  }
+
+  /**
+   * Verify a compact JWT signed by the did:jwk in its `kid` header. Checks the
+   * signature, the algorithm against the key type, and `exp`/`nbf` when present.
+   */
+  async verifyJWT(jwt: string): Promise<DIDJWKVerificationResult> {
+    const parts = jwt.split('.');
+    if (parts.length !== 3) {
+      return { verified: false, error: 'Invalid JWT format' };
+    }
+
+    let header: Record<string, any>;
+    let payload: Record<string, any>;
+    try {
+      header = JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf-8'));
+      payload = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf-8'));
+    } catch {
+      return { verified: false, error: 'Invalid JWT encoding' };
+    }
+
+    const [did, fragment] = String(header.kid || '').split('#');
+    if (!did.startsWith('did:jwk:') || (fragment !== undefined && fragment !== '0')) {
+      return { verified: false, header, payload, error: 'JWT kid is not a did:jwk key' };
+    }
+
+    try {
+      const jwk = decodeDidJwk(did);
+      const { alg, digest } = jwsAlgorithm(jwk);
+      if (header.alg !== alg) {
+        return { verified: false, did, header, payload, error: `JWT alg ${header.alg} does not match the ${alg} key` };
+      }
+
+      const key = crypto.createPublicKey({ key: jwk as crypto.JsonWebKey, format: 'jwk' });
+      const valid = crypto.verify(
+        digest,
+        Buffer.from(`${parts[0]}.${parts[1]}`),
+        { key, dsaEncoding: 'ieee-p1363' },
+        Buffer.from(parts[2], 'base64url')
+      );
+      if (!valid) {
+        return { verified: false, did, header, payload, error: 'JWT signature is invalid' };
+      }
+    } catch (err) {
+      return { verified: false, did, header, payload, error: (err as Error).message };
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (typeof payload.exp === 'number' && payload.exp < now) {
+      return { verified: false, did, header, payload, error: 'JWT has expired' };
+    }
+    if (typeof payload.nbf === 'number' && payload.nbf > now) {
+      return { verified: false, did, header, payload, error: 'JWT is not yet valid' };
+    }
+
+    return { verified: true, did, header, payload };
+  }
+}
+
+function toPublicJwk(jwk: JsonWebKey): JsonWebKey {
+  return Object.fromEntries(
+    Object.entries(jwk).filter(([member]) => !PRIVATE_JWK_MEMBERS.includes(member) && member !== 'key_ops' && member !== 'ext')
+  ) as JsonWebKey;
+}
+
+function decodeDidJwk(did: string): JsonWebKey {
+  const match = /^did:jwk:([A-Za-z0-9_-]+)$/.exec(did);
+  if (!match) {
+    throw new Error(`Invalid did:jwk identifier: ${did}`);
+  }
+
+  let jwk: JsonWebKey;
+  try {
+    jwk = JSON.parse(Buffer.from(match[1], 'base64url').toString('utf-8'));
+  } catch {
+    throw new Error('did:jwk does not encode a JSON object');
+  }
+  if (!jwk || typeof jwk !== 'object' || !jwk.kty) {
+    throw new Error('did:jwk does not encode a JWK');
+  }
+  if (PRIVATE_JWK_MEMBERS.some(member => member in jwk)) {
+    throw new Error('did:jwk must not contain private key material');
+  }
+  return jwk;
+}
+
+function jwsAlgorithm(jwk: JsonWebKey): { alg: string; digest: string | null } {
+  const algorithm = JWS_ALGORITHMS[jwk.kty === 'RSA' ? 'RSA' : `${jwk.kty}:${jwk.crv}`];
+  if (!algorithm) {
+    throw new Error(`Unsupported JWK key type ${jwk.kty}${jwk.crv ? ` ${jwk.crv}` : ''}`);
+  }
+  return algorithm;
+}
+
+/**
+ * Keys marked `use: enc` are only for key agreement, `use: sig` only for signing
+ */
+function buildDocument(did: string, jwk: JsonWebKey): DIDDocument {
+  const kid = `${did}#0`;
+  const signing = jwk.use !== 'enc' && jwk.crv !== 'X25519';
+  const encryption = jwk.use !== 'sig' && (jwk.kty === 'RSA' || jwk.kty === 'EC' || jwk.crv === 'X25519');
+
+  return {
+    '@context': [DID_CONTEXT, JWS_2020_CONTEXT],
+    id: did,
+    verificationMethod: [{ id: kid, type: 'JsonWebKey2020', controller: did, publicKeyJwk: jwk as DIDJsonWebKey }],
+    ...(signing ? {
+      assertionMethod: [kid],
+      authentication: [kid],
+      capabilityInvocation: [kid],
+      capabilityDelegation: [kid]
+    } : {}),
+    ...(encryption ? { keyAgreement: [kid] } : {})
+  };
+}
@@ -1,58 +1,103 @@
 /**
  * DID:key Plugin
- * 
+ *
  * Implements the DID:key method for decentralized identifiers.
  * This plugin provides DID:key creation, resolution, and verification capabilities.
- * 
+ *
  * DID:key is a simple, self-contained DID method that uses cryptographic keys
  * directly in the DID identifier, making it suitable for local and offline use.
+ * The identifier is the base58btc multibase encoding of the multicodec-prefixed
+ * public key; elliptic curve keys are encoded in compressed form.
+ *
+ * @see https://w3c-ccg.github.io/did-method-key/
  */
 
+import crypto from 'crypto';
+import { base58btc } from 'multiformats/bases/base58';
+import type { DIDDocument, DIDResolutionResult, DIDResolver, VerificationMethod } from 'did-resolver';
 import { BasePlugin } from '../base-plugin.js';
-import type { 
-  PluginContext, 
-  PluginAuthor, 
-  ValidationResult,
-  PluginMetadata 
+import type {
+  PluginContext,
+  ValidationResult
 } from '../interfaces.js';
 
+export type DIDKeyAlgorithm = 'Ed25519' | 'X25519' | 'Secp256k1' | 'P-256' | 'P-384';
+
+/** Verification method representation: `publicKeyMultibase` or `publicKeyJwk` */
+export type DIDKeyPublicKeyFormat = 'Multikey' | 'JsonWebKey2020';
+
 export interface DIDKeyPluginConfig {
   /** Default key algorithm to use */
-  defaultAlgorithm?: 'Ed25519' | 'Secp256k1' | 'RSA';
+  defaultAlgorithm?: DIDKeyAlgorithm;
   /** Whether to enable key rotation */
   enableKeyRotation?: boolean;
   /** Key rotation interval in days */
   keyRotationInterval?: number;
   /** Whether to validate DID format */
   validateFormat?: boolean;
+  /** Verification method representation in resolved documents */
+  publicKeyFormat?: DIDKeyPublicKeyFormat;
+  /** Add an X25519 `keyAgreement` key derived from Ed25519 keys */
+  enableEncryptionKeyDerivation?: boolean;
 }
 
 export interface DIDKeyCreateOptions {
   /** Key algorithm to use */
-  algorithm?: 'Ed25519' | 'Secp256k1' | 'RSA';
-  /** Key size for RSA */
-  keySize?: 2048 | 4096;
+  algorithm?: DIDKeyAlgorithm;
   /** Whether to include private key in result */
   includePrivateKey?: boolean;
-  /** Custom key ID */
-  keyId?: string;
+}
+
+export interface DIDKeyResolveOptions {
+  publicKeyFormat?: DIDKeyPublicKeyFormat;
+  enableEncryptionKeyDerivation?: boolean;
 }
 
 export interface DIDKeyCreateResult {
   /** The created DID */
   did: string;
   /** DID document */
-  document: any;
-  /** Private key (if requested) */
+  document: DIDDocument;
+  /** Private key as a JWK string (if requested) */
   privateKey?: string;
-  /** Public key */
+  /** Multibase encoded public key, the method-specific identifier */
   publicKey: string;
-  /** Key ID */
+  /** Verification method ID of the key */
   keyId: string;
   /** Creation timestamp */
   createdAt: string;
 }
 
+interface KeyType {
+  algorithm: DIDKeyAlgorithm;
+  /** Unsigned varint multicodec prefix */
+  codec: number[];
+  /** Encoded public key length in bytes */
+  length: number;
+  /** JWK key type and curve */
+  kty: 'OKP' | 'EC';
+  crv: string;
+  /** Node.js curve name for EC keys */
+  namedCurve?: string;
+  /** Signature digest; null for EdDSA, undefined for key agreement keys */
+  digest?: string | null;
+}
+
+const KEY_TYPES: KeyType[] = [
+  { algorithm: 'Ed25519', codec: [0xed, 0x01], length: 32, kty: 'OKP', crv: 'Ed25519', digest: null },
+  { algorithm: 'X25519', codec: [0xec, 0x01], length: 32, kty: 'OKP', crv: 'X25519' },
+  { algorithm: 'Secp256k1', codec: [0xe7, 0x01], length: 33, kty: 'EC', crv: 'secp256k1', namedCurve: 'secp256k1', digest: 'sha256' },
+  { algorithm: 'P-256', codec: [0x80, 0x24], length: 33, kty: 'EC', crv: 'P-256', namedCurve: 'prime256v1', digest: 'sha256' },
+  { algorithm: 'P-384', codec: [0x81, 0x24], length: 49, kty: 'EC', crv: 'P-384', namedCurve: 'secp384r1', digest: 'sha384' }
+];
+
+const DID_CONTEXT = 'https://www.w3.org/ns/did/v1';
+const MULTIKEY_CONTEXT = 'https://w3id.org/security/multikey/v1';
+const JWS_2020_CONTEXT = 'https://w3id.org/security/suites/jws-2020/v1';
+
+/** Field prime of Curve25519, for the Ed25519 to X25519 public key conversion */
+const CURVE25519_P = (1n << 255n) - 19n;
+
 export class DIDKeyPlugin extends BasePlugin {
   private didKeyConfig: DIDKeyPluginConfig;
 
@@ -70,7 +115,7 @@ export class DIDKeyPlugin extends BasePlugin {
       },
       [
         'did:key:create',
-        'did:key:resolve', 
+        'did:key:resolve',
         'did:key:verify',
         'did:key:rotate',
         'did:key:export',
@@ -87,6 +132,8 @@ export class DIDKeyPlugin extends BasePlugin {
       enableKeyRotation: false,
       keyRotationInterval: 365,
       validateFormat: true,
+      publicKeyFormat: 'Multikey',
+      enableEncryptionKeyDerivation: true,
       ...config
     };
   }
@@ -94,7 +141,7 @@ export class DIDKeyPlugin extends BasePlugin {
   protected async onInitialize(context: PluginContext): Promise<void> {
     // Initialize DID:key capabilities
     await this.validateDIDKeySupport();
-    
+
     // Register DID:key method with the agent
     if (context.apis?.did) {
       await this.registerDIDMethod(context);
@@ -108,9 +155,14 @@ export class DIDKeyPlugin extends BasePlugin {
   protected async onValidateConfig(config: any): Promise<ValidationResult> {
     const errors: string[] = [];
     const warnings: string[] = [];
+    const algorithms = KEY_TYPES.map(type => type.algorithm);
+
+    if (config.defaultAlgorithm && !algorithms.includes(config.defaultAlgorithm)) {
+      errors.push(`Invalid defaultAlgorithm. Must be one of: ${algorithms.join(', ')}`);
+    }
 
-    if (config.defaultAlgorithm && !['Ed25519', 'Secp256k1', 'RSA'].includes(config.defaultAlgorithm)) {
-      errors.push('Invalid defaultAlgorithm. Must be one of: Ed25519, Secp256k1, RSA');
+    if (config.publicKeyFormat && !['Multikey', 'JsonWebKey2020'].includes(config.publicKeyFormat)) {
+      errors.push('Invalid publicKeyFormat. Must be one of: Multikey, JsonWebKey2020');
     }
 
     if (config.keyRotationInterval && (config.keyRotationInterval < 1 || config.keyRotationInterval > 3650)) {
@@ -129,63 +181,81 @@ export class DIDKeyPlugin extends BasePlugin {
    */
   async createDID(options: DIDKeyCreateOptions = {}): Promise<DIDKeyCreateResult> {
     const algorithm = options.algorithm || this.didKeyConfig.defaultAlgorithm || 'Ed25519';
-    const keyId = options.keyId || this.generateKeyId();
+    const privateKey = this.generatePrivateKey(algorithm);
 
-    // Generate key pair
-    const keyPair = await this.generateKeyPair(algorithm, options.keySize);
-    
-    // Create DID from public key
-    const did = this.createDIDFromPublicKey(keyPair.publicKey, algorithm);
-    
-    // Create DID document
-    const document = this.createDIDDocument(did, keyPair.publicKey, keyId, algorithm);
-
-    return {
-      did,
-      document,
-      privateKey: options.includePrivateKey ? keyPair.privateKey : undefined,
-      publicKey: keyPair.publicKey,
-      keyId,
-      createdAt: new Date().toISOString()
-    };
+    return this.toCreateResult(privateKey, algorithm, options.includePrivateKey);
   }
 
   /**
    * Resolve a DID:key to its document
    */
-  async resolveDID(did: string): Promise<any> {
+  async resolveDID(did: string, options: DIDKeyResolveOptions = {}): Promise<DIDDocument> {
     if (!this.isValidDIDKey(did)) {
       throw new Error('Invalid DID:key format');
     }
 
-    // Extract public key from DID
-    const publicKey = this.extractPublicKeyFromDID(did);
-    const algorithm = this.detectAlgorithmFromDID(did);
-    const keyId = this.generateKeyId();
+    const { keyType, publicKey } = this.decodeDID(did);
+    return this.createDIDDocument(did, keyType, publicKey, {
+      publicKeyFormat: options.publicKeyFormat || this.didKeyConfig.publicKeyFormat!,
+      enableEncryptionKeyDerivation: options.enableEncryptionKeyDerivation ?? this.didKeyConfig.enableEncryptionKeyDerivation!
+    });
+  }
 
-    return this.createDIDDocument(did, publicKey, keyId, algorithm);
+  /**
+   * A did-resolver method map, e.g. `new Resolver({ ...plugin.getResolver() })`
+   */
+  getResolver(): { key: DIDResolver } {
+    return {
+      key: async (did): Promise<DIDResolutionResult> => {
+        try {
+          return {
+            didResolutionMetadata: { contentType: 'application/did+json' },
+            didDocument: await this.resolveDID(did),
+            didDocumentMetadata: {}
+          };
+        } catch (err) {
+          return {
+            didResolutionMetadata: { error: 'invalidDid', message: (err as Error).message },
+            didDocument: null,
+            didDocumentMetadata: {}
+          };
+        }
+      }
+    };
   }
 
   /**
-   * Verify a DID:key signature
+   * Verify a DID:key signature (EdDSA, or ECDSA with a raw r||s signature)
    */
   async verifySignature(did: string, data: Uint8Array, signature: Uint8Array): Promise<boolean> {
     try {
-      const publicKey = this.extractPublicKeyFromDID(did);
-      const algorithm = this.detectAlgorithmFromDID(did);
-      
-      return await this.verifyWithAlgorithm(data, signature, publicKey, algorithm);
-    } catch (error) {
+      const { keyType, publicKey } = this.decodeDID(did);
+      if (keyType.digest === undefined) {
+        return false;
+      }
+      const key = crypto.createPublicKey({ key: this.publicKeyToJWK(publicKey, keyType), format: 'jwk' });
+
+      return crypto.verify(keyType.digest, data, { key, dsaEncoding: 'ieee-p1363' }, signature);
+    } catch {
       return false;
     }
   }
 
   /**
    * Sign data with a DID:key
+   * @param privateKey - private JWK (JSON string) of the DID's key
    */
   async signWithDID(did: string, data: Uint8Array, privateKey: string): Promise<Uint8Array> {
-    const algorithm = this.detectAlgorithmFromDID(did);
-    return await this.signWithAlgorithm(data, privateKey, algorithm);
+    const { keyType } = this.decodeDID(did);
+    if (keyType.digest === undefined) {
+      throw new Error(`${keyType.algorithm} keys cannot sign`);
+    }
+    const key = crypto.createPrivateKey({ key: JSON.parse(privateKey), format: 'jwk' });
+    if (this.createDIDFromPublicKey(this.encodePublicKey(key, keyType), keyType) !== did) {
+      throw new Error('Private key does not belong to this DID');
+    }
+
+    return new Uint8Array(crypto.sign(keyType.digest, data, { key, dsaEncoding: 'ieee-p1363' }));
   }
 
   /**
@@ -196,55 +266,74 @@ export class DIDKeyPlugin extends BasePlugin {
       throw new Error('Key rotation is not enabled');
     }
 
-    const algorithm = this.detectAlgorithmFromDID(did);
-    const keyPair = await this.importKeyPair(newPrivateKey, algorithm);
-    const newDID = this.createDIDFromPublicKey(keyPair.publicKey, algorithm);
-    const keyId = this.generateKeyId();
-
-    return {
-      did: newDID,
-      document: this.createDIDDocument(newDID, keyPair.publicKey, keyId, algorithm),
-      publicKey: keyPair.publicKey,
-      keyId,
-      createdAt: new Date().toISOString()
-    };
+    const { keyType } = this.decodeDID(did);
+    const privateKey = crypto.createPrivateKey({ key: JSON.parse(newPrivateKey), format: 'jwk' });
+    return this.toCreateResult(privateKey, keyType.algorithm, false);
   }
 
   /**
    * Export DID:key to different formats
    */
   async exportDID(did: string, format: 'jwk' | 'pem' | 'hex' = 'jwk'): Promise<string> {
-    const publicKey = this.extractPublicKeyFromDID(did);
-    return await this.exportPublicKey(publicKey, format);
+    const { keyType, publicKey } = this.decodeDID(did);
+
+    switch (format) {
+      case 'jwk':
+        return JSON.stringify(this.publicKeyToJWK(publicKey, keyType));
+      case 'pem':
+        return crypto.createPublicKey({ key: this.publicKeyToJWK(publicKey, keyType), format: 'jwk' })
+          .export({ type: 'spki', format: 'pem' }) as string;
+      case 'hex':
+        return Buffer.from(publicKey).toString('hex');
+      default:
+        throw new Error(`Unsupported export format: ${format}`);
+    }
   }
 
   /**
-   * Import DID:key from different formats
+   * Import DID:key from a private key (JWK JSON, PKCS#8/SEC1 PEM, or hex of the raw private key)
    */
   async importDID(keyData: string, format: 'jwk' | 'pem' | 'hex', algorithm: string): Promise<DIDKeyCreateResult> {
-    const keyPair = await this.importKeyPair(keyData, algorithm);
-    const did = this.createDIDFromPublicKey(keyPair.publicKey, algorithm);
-    const keyId = this.generateKeyId();
+    const keyType = this.getKeyType(algorithm as DIDKeyAlgorithm);
+    let privateKey: crypto.KeyObject;
+
+    switch (format) {
+      case 'jwk':
+        privateKey = crypto.createPrivateKey({ key: JSON.parse(keyData), format: 'jwk' });
+        break;
+      case 'pem':
+        privateKey = crypto.createPrivateKey(keyData);
+        break;
+      case 'hex':
+        privateKey = this.privateKeyFromHex(keyData, keyType);
+        break;
+      default:
+        throw new Error(`Unsupported import format: ${format}`);
+    }
 
-    return {
-      did,
-      document: this.createDIDDocument(did, keyPair.publicKey, keyId, algorithm),
-      privateKey: keyPair.privateKey,
-      publicKey: keyPair.publicKey,
-      keyId,
-      createdAt: new Date().toISOString()
-    };
+    return this.toCreateResult(privateKey, keyType.algorithm, true);
+  }
+
+  /**
+   * DID:key of an existing public key, e.g. a key held by a KeyManager
+   */
+  async createDIDFromPublicKeyJwk(jwk: JsonWebKey): Promise<DIDKeyCreateResult> {
+    const keyType = KEY_TYPES.find(type => type.kty === jwk.kty && type.crv === jwk.crv);
+    if (!keyType) {
+      throw new Error(`Unsupported public key: ${jwk.kty} ${jwk.crv}`);
+    }
+    const publicKey = crypto.createPublicKey({ key: { kty: jwk.kty, crv: jwk.crv, x: jwk.x, ...(jwk.y ? { y: jwk.y } : {}) }, format: 'jwk' });
+
+    return this.toCreateResult(publicKey, keyType.algorithm, false);
   }
 
   // Private helper methods
 
   private async validateDIDKeySupport(): Promise<void> {
     // Validate that the required cryptographic algorithms are available
-    const algorithms = ['Ed25519', 'Secp256k1'];
-    
-    for (const algorithm of algorithms) {
-      if (!this.isAlgorithmSupported(algorithm)) {
-        throw new Error(`Algorithm ${algorithm} is not supported in this environment`);
+    for (const keyType of KEY_TYPES) {
+      if (!this.isAlgorithmSupported(keyType)) {
+        throw new Error(`Algorithm ${keyType.algorithm} is not supported in this environment`);
       }
     }
   }
@@ -257,128 +346,231 @@ export class DIDKeyPlugin extends BasePlugin {
     }
   }
 
-  private async generateKeyPair(algorithm: string, keySize?: number): Promise<{ publicKey: string; privateKey: string }> {
-    // This would use the agent's key management system
-    // For now, return a mock implementation
-    const keyId = this.generateKeyId();
-    
+  private toCreateResult(key: crypto.KeyObject, algorithm: DIDKeyAlgorithm, includePrivateKey?: boolean): DIDKeyCreateResult {
+    const keyType = this.getKeyType(algorithm);
+    const publicKey = this.encodePublicKey(key, keyType);
+    const did = this.createDIDFromPublicKey(publicKey, keyType);
+    const document = this.createDIDDocument(did, keyType, publicKey, {
+      publicKeyFormat: this.didKeyConfig.publicKeyFormat!,
+      enableEncryptionKeyDerivation: this.didKeyConfig.enableEncryptionKeyDerivation!
+    });
+
     return {
-      publicKey: `mock-public-key-${keyId}`,
-      privateKey: `mock-private-key-${keyId}`
+      did,
+      document,
+      privateKey: includePrivateKey ? JSON.stringify(key.export({ format: 'jwk' })) : undefined,
+      publicKey: did.slice('did:key:'.length),
+      keyId: document.verificationMethod![0].id,
+      createdAt: new Date().toISOString()
     };
   }
 
-  private createDIDFromPublicKey(publicKey: string, algorithm: string): string {
-    // Create DID:key format: did:key:z<multibase-encoded-public-key>
-    const encoded = this.encodePublicKey(publicKey, algorithm);
-    return `did:key:z${encoded}`;
+  private generatePrivateKey(algorithm: DIDKeyAlgorithm): crypto.KeyObject {
+    const keyType = this.getKeyType(algorithm);
+    if (keyType.namedCurve) {
+      return crypto.generateKeyPairSync('ec', { namedCurve: keyType.namedCurve }).privateKey;
+    }
+    return crypto.generateKeyPairSync(algorithm === 'Ed25519' ? 'ed25519' : 'x25519' as 'ed25519').privateKey;
   }
 
-  private createDIDDocument(did: string, publicKey: string, keyId: string, algorithm: string): any {
-    return {
-      '@context': ['https://www.w3.org/ns/did/v1'],
+  private privateKeyFromHex(hex: string, keyType: KeyType): crypto.KeyObject {
+    const d = Buffer.from(hex, 'hex');
+    if (keyType.namedCurve) {
+      const ecdh = crypto.createECDH(keyType.namedCurve);
+      ecdh.setPrivateKey(d);
+      const point = ecdh.getPublicKey();
+      const size = (point.length - 1) / 2;
+      return crypto.createPrivateKey({
+        key: {
+          kty: 'EC',
+          crv: keyType.crv,
+          d: d.toString('base64url'),
+          x: point.subarray(1, 1 + size).toString('base64url'),
+          y: point.subarray(1 + size).toString('base64url')
+        },
+        format: 'jwk'
+      });
+    }
+
+    // PKCS#8 wrapping of a raw 32 byte OKP private key
+    const oid = keyType.algorithm === 'Ed25519' ? '2b6570' : '2b656e';
+    return crypto.createPrivateKey({
+      key: Buffer.concat([Buffer.from(`302e020100300506032b${oid.slice(2)}04220420`, 'hex'), d]),
+      format: 'der',
+      type: 'pkcs8'
+    });
+  }
+
+  private createDIDFromPublicKey(publicKey: Uint8Array, keyType: KeyType): string {
+    // Create DID:key format: did:key:z<base58btc(multicodec || public key)>
+    return `did:key:${base58btc.encode(Uint8Array.from([...keyType.codec, ...publicKey]))}`;
+  }
+
+  private createDIDDocument(
+    did: string,
+    keyType: KeyType,
+    publicKey: Uint8Array,
+    options: Required<DIDKeyResolveOptions>
+  ): DIDDocument {
+    const fingerprint = did.slice('did:key:'.length);
+    const method = this.createVerificationMethod(did, fingerprint, keyType, publicKey, options.publicKeyFormat);
+    const context = [DID_CONTEXT, options.publicKeyFormat === 'JsonWebKey2020' ? JWS_2020_CONTEXT : MULTIKEY_CONTEXT];
+
+    // X25519 keys can only be used for key agreement
+    if (keyType.algorithm === 'X25519') {
+      return { '@context': context, id: did, verificationMethod: [method], keyAgreement: [method.id] };
+    }
+
+    const document: DIDDocument = {
+      '@context': context,
       id: did,
-      verificationMethod: [{
-        id: `${did}#${keyId}`,
-        type: this.getVerificationMethodType(algorithm),
-        controller: did,
-        publicKeyJwk: this.publicKeyToJWK(publicKey, algorithm)
-      }],
-      authentication: [`${did}#${keyId}`],
-      assertionMethod: [`${did}#${keyId}`],
-      capabilityDelegation: [`${did}#${keyId}`],
-      capabilityInvocation: [`${did}#${keyId}`]
+      verificationMethod: [method],
+      authentication: [method.id],
+      assertionMethod: [method.id],
+      capabilityDelegation: [method.id],
+      capabilityInvocation: [method.id]
     };
+
+    if (keyType.algorithm === 'Ed25519' && options.enableEncryptionKeyDerivation) {
+      const x25519 = this.getKeyType('X25519');
+      const encryptionKey = this.ed25519ToX25519(publicKey);
+      const encryptionFingerprint = base58btc.encode(Uint8Array.from([...x25519.codec, ...encryptionKey]));
+      const keyAgreement = this.createVerificationMethod(did, encryptionFingerprint, x25519, encryptionKey, options.publicKeyFormat);
+      document.verificationMethod!.push(keyAgreement);
+      document.keyAgreement = [keyAgreement.id];
+    }
+
+    return document;
+  }
+
+  private createVerificationMethod(
+    did: string,
+    fingerprint: string,
+    keyType: KeyType,
+    publicKey: Uint8Array,
+    format: DIDKeyPublicKeyFormat
+  ): VerificationMethod {
+    const base = { id: `${did}#${fingerprint}`, controller: did };
+    return format === 'JsonWebKey2020'
+      ? { ...base, type: 'JsonWebKey2020', publicKeyJwk: this.publicKeyToJWK(publicKey, keyType) as VerificationMethod['publicKeyJwk'] }
+      : { ...base, type: 'Multikey', publicKeyMultibase: fingerprint };
   }
 
   private isValidDIDKey(did: string): boolean {
     if (!this.didKeyConfig.validateFormat) return true;
-    
+
     const pattern = /^did:key:z[1-9A-HJ-NP-Za-km-z]+$/;
     return pattern.test(did);
   }
 
-  private extractPublicKeyFromDID(did: string): string {
+  /**
+   * Decode the multicodec key type and public key of a DID:key
+   */
+  private decodeDID(did: string): { keyType: KeyType; publicKey: Uint8Array } {
     const prefix = 'did:key:z';
     if (!did.startsWith(prefix)) {
       throw new Error('Invalid DID:key format');
     }
-    
-    const encoded = did.substring(prefix.length);
-    return this.decodePublicKey(encoded);
-  }
 
-  private detectAlgorithmFromDID(did: string): string {
-    // Detect algorithm from the multibase prefix
-    const prefix = 'did:key:z';
-    const encoded = did.substring(prefix.length);
-    
-    // This is a simplified detection - in practice, you'd decode the multibase
-    // and check the multicodec prefix
-    if (encoded.startsWith('6Mk')) return 'Ed25519';
-    if (encoded.startsWith('6L')) return 'Secp256k1';
-    if (encoded.startsWith('6R')) return 'RSA';
-    
-    return 'Ed25519'; // Default
-  }
+    let bytes: Uint8Array;
+    try {
+      bytes = base58btc.decode(did.slice('did:key:'.length).split('#')[0]);
+    } catch {
+      throw new Error('Invalid DID:key encoding');
+    }
 
-  private generateKeyId(): string {
-    return `key-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-  }
+    const keyType = KEY_TYPES.find(type => type.codec.every((byte, i) => bytes[i] === byte));
+    if (!keyType) {
+      throw new Error('Unsupported DID:key multicodec');
+    }
+    const publicKey = bytes.slice(keyType.codec.length);
+    if (publicKey.length !== keyType.length) {
+      throw new Error(`Invalid ${keyType.algorithm} public key length ${publicKey.length}`);
+    }
+    if (keyType.namedCurve) {
+      // Throws for points that are not on the curve
+      crypto.ECDH.convertKey(Buffer.from(publicKey), keyType.namedCurve, undefined, undefined, 'uncompressed');
+    }
 
-  private encodePublicKey(publicKey: string, algorithm: string): string {
-    // Mock implementation - in practice, this would use multibase encoding
-    return `6Mk${publicKey.substring(0, 10)}`;
+    return { keyType, publicKey };
   }
 
-  private decodePublicKey(encoded: string): string {
-    // Mock implementation - in practice, this would decode multibase
-    return `decoded-${encoded}`;
+  private getKeyType(algorithm: DIDKeyAlgorithm): KeyType {
+    const keyType = KEY_TYPES.find(type => type.algorithm === algorithm);
+    if (!keyType) {
+      throw new Error(`Unsupported DID:key algorithm: ${algorithm}`);
+    }
+    return keyType;
   }
 
-  private getVerificationMethodType(algorithm: string): string {
-    switch (algorithm) {
-      case 'Ed25519': return 'Ed25519VerificationKey2020';
-      case 'Secp256k1': return 'EcdsaSecp256k1VerificationKey2019';
-      case 'RSA': return 'RsaVerificationKey2018';
-      default: return 'Ed25519VerificationKey2020';
+  /**
+   * Raw public key bytes as encoded in the DID; EC keys are compressed
+   */
+  private encodePublicKey(key: crypto.KeyObject, keyType: KeyType): Uint8Array {
+    const jwk = (key.type === 'public' ? key : crypto.createPublicKey(key)).export({ format: 'jwk' });
+    const x = Buffer.from(jwk.x!, 'base64url');
+    if (keyType.kty === 'OKP') {
+      return new Uint8Array(x);
     }
+
+    const y = Buffer.from(jwk.y!, 'base64url');
+    return Uint8Array.from([y[y.length - 1] & 1 ? 0x03 : 0x02, ...x]);
   }
 
-  private publicKeyToJWK(publicKey: string, algorithm: string): any {
-    // Mock implementation - in practice, this would convert to JWK format
+  private publicKeyToJWK(publicKey: Uint8Array, keyType: KeyType): crypto.JsonWebKey {
+    if (keyType.kty === 'OKP') {
+      return { kty: 'OKP', crv: keyType.crv, x: Buffer.from(publicKey).toString('base64url') };
+    }
+
+    const point = crypto.ECDH.convertKey(Buffer.from(publicKey), keyType.namedCurve!, undefined, undefined, 'uncompressed') as Buffer;
+    const size = (point.length - 1) / 2;
     return {
-      kty: algorithm === 'RSA' ? 'RSA' : 'EC',
-      crv: algorithm === 'Ed25519' ? 'Ed25519' : 'secp256k1',
-      x: publicKey
+      kty: 'EC',
+      crv: keyType.crv,
+      x: point.subarray(1, 1 + size).toString('base64url'),
+      y: point.subarray(1 + size).toString('base64url')
     };
   }
 
-  private isAlgorithmSupported(algorithm: string): boolean {
-    // Mock implementation - in practice, this would check crypto support
-    return ['Ed25519', 'Secp256k1', 'RSA'].includes(algorithm);
-  }
-
-  private async verifyWithAlgorithm(data: Uint8Array, signature: Uint8Array, publicKey: string, algorithm: string): Promise<boolean> {
-    // Mock implementation - in practice, this would verify the signature
-    return true;
+  /**
+   * Convert an Ed25519 public key to its X25519 counterpart: u = (1 + y) / (1 - y) mod p
+   */
+  private ed25519ToX25519(publicKey: Uint8Array): Uint8Array {
+    const bytes = Uint8Array.from(publicKey);
+    bytes[31] &= 0x7f; // drop the sign bit of x
+    const y = this.bytesToBigIntLE(bytes);
+    const u = ((1n + y) * this.modPow((CURVE25519_P + 1n - y) % CURVE25519_P, CURVE25519_P - 2n)) % CURVE25519_P;
+
+    const out = new Uint8Array(32);
+    let value = u;
+    for (let i = 0; i < 32; i++) {
+      out[i] = Number(value & 0xffn);
+      value >>= 8n;
+    }
+    return out;
   }
 
-  private async signWithAlgorithm(data: Uint8Array, privateKey: string, algorithm: string): Promise<Uint8Array> {
-    // Mock implementation - in practice, this would sign the data
-    return new Uint8Array(32);
+  private bytesToBigIntLE(bytes: Uint8Array): bigint {
+    let value = 0n;
+    for (let i = bytes.length - 1; i >= 0; i--) {
+      value = (value << 8n) | BigInt(bytes[i]);
+    }
+    return value;
   }
 
-  private async importKeyPair(keyData: string, algorithm: string): Promise<{ publicKey: string; privateKey: string }> {
-    // Mock implementation - in practice, this would import the key pair
-    return {
-      publicKey: `imported-public-${keyData.substring(0, 10)}`,
-      privateKey: keyData
-    };
+  private modPow(base: bigint, exponent: bigint): bigint {
+    let result = 1n;
+    let b = base % CURVE25519_P;
+    let e = exponent;
+    while (e > 0n) {
+      if (e & 1n) result = (result * b) % CURVE25519_P;
+      b = (b * b) % CURVE25519_P;
+      e >>= 1n;
+    }
+    return result;
   }
 
-  private async exportPublicKey(publicKey: string, format: string): Promise<string> {
-    // Mock implementation - in practice, this would export in the requested format
-    return `exported-${format}-${publicKey}`;
+  private isAlgorithmSupported(keyType: KeyType): boolean {
+    return !keyType.namedCurve || crypto.getCurves().includes(keyType.namedCurve);
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,450 @@
+/**
+ * DID:peer Plugin
+ *
+ * Implements did:peer numalgo 2 and 4 for pairwise relationships: each
+ * connection gets its own DID carrying key agreement and authentication keys
+ * and a DIDComm service endpoint. Peer DIDs are self-describing and resolve
+ * locally, so nothing is published to a ledger.
+ *
+ * - numalgo 2 packs each key and service into the DID itself.
+ * - numalgo 4 embeds a whole input document (long form) and can be shortened to
+ *   its hash once the other party has seen the long form. With a `store`, long
+ *   forms seen survive restarts.
+ *
+ * @see https://identity.foundation/peer-did-method-spec/
+ */
+
+import crypto from 'crypto';
+import { base58btc } from 'multiformats/bases/base58';
+import type { DIDDocument, DIDResolutionResult, DIDResolver, Service, VerificationMethod } from 'did-resolver';
+import { BasePlugin } from '../base-plugin.js';
+import type { PluginContext, ValidationResult } from '../interfaces.js';
+import type { SecureStorage } from '../../../types/index.js';
+
+export type DIDPeerNumalgo = 2 | 4;
+
+/**
+ * Keeps the long forms of numalgo 4 DIDs between restarts
+ */
+export interface DIDPeerLongFormStore {
+  list(): Promise<string[]>;
+  save(longForm: string): Promise<void>;
+}
+
+export interface DIDPeerPluginConfig {
+  /** Keeps long forms, so short forms seen before a restart still resolve */
+  store?: DIDPeerLongFormStore;
+}
+
+export interface DIDPeerServiceOptions {
+  /** DIDComm endpoint URI, or a DID of a mediator */
+  uri: string;
+  routingKeys?: string[];
+  /** Defaults to `['didcomm/v2']` */
+  accept?: string[];
+}
+
+export interface DIDPeerCreateOptions {
+  /** Defaults to 2 */
+  numalgo?: DIDPeerNumalgo;
+  /** Multibase Ed25519 public keys; one is generated when omitted */
+  authenticationKeys?: string[];
+  /** Multibase X25519 public keys; one is generated when omitted */
+  keyAgreementKeys?: string[];
+  /** DIDComm messaging endpoints */
+  services?: DIDPeerServiceOptions[];
+}
+
+/** A generated key; keep the private JWK in the agent's secure storage */
+export interface DIDPeerKeyPair {
+  /** Verification method ID in the resolved document */
+  id: string;
+  purpose: 'authentication' | 'keyAgreement';
+  publicKeyMultibase: string;
+  privateKeyJwk: JsonWebKey;
+}
+
+export interface DIDPeerCreateResult {
+  did: string;
+  /** Short form of a numalgo 4 DID, usable once the peer has resolved the long form */
+  shortFormDid?: string;
+  document: DIDDocument;
+  /** Keys generated for this DID */
+  keys: DIDPeerKeyPair[];
+}
+
+const DID_CONTEXT = 'https://www.w3.org/ns/did/v1';
+const MULTIKEY_CONTEXT = 'https://w3id.org/security/multikey/v1';
+
+/** Multicodec varint prefixes */
+const ED25519_PUB = [0xed, 0x01];
+const X25519_PUB = [0xec, 0x01];
+const JSON_CODEC = [0x80, 0x04];
+const SHA2_256_MULTIHASH = [0x12, 0x20];
+
+/** numalgo 2 purpose codes */
+const PURPOSE_KEY_AGREEMENT = 'E';
+const PURPOSE_AUTHENTICATION = 'V';
+const PURPOSE_SERVICE = 'S';
+
+const SERVICE_ABBREVIATIONS: Record<string, string> = {
+  type: 't',
+  serviceEndpoint: 's',
+  routingKeys: 'r',
+  accept: 'a',
+  DIDCommMessaging: 'dm'
+};
+const SERVICE_EXPANSIONS = Object.fromEntries(Object.entries(SERVICE_ABBREVIATIONS).map(([long, short]) => [short, long]));
+
+export class DIDPeerPlugin extends BasePlugin {
+  /** Long forms of numalgo 4 DIDs seen so far, keyed by short form */
+  private longForms: Map<string, string> = new Map();
+  private didPeerConfig: DIDPeerPluginConfig;
+  private loaded?: Promise<void>;
+
+  constructor(config: DIDPeerPluginConfig = {}) {
+    super(
+      'did-peer-plugin',
+      'DID:peer Plugin',
+      '1.0.0',
+      'regular',
+      'did-method',
+      {
+        name: 'Open Verifiable',
+        did: 'did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK',
+        email: 'plugins@open-verifiable.org'
+      },
+      [
+        'did:peer:create',
+        'did:peer:resolve'
+      ],
+      {
+        description: 'DID:peer (numalgo 2 and 4) for pairwise relationships'
+      }
+    );
+    this.didPeerConfig = config;
+  }
+
+  protected async onInitialize(_context: PluginContext): Promise<void> {
+    // Peer DIDs resolve in-process; nothing to register
+  }
+
+  protected async onCleanup(): Promise<void> {
+    this.longForms.clear();
+    this.loaded = undefined;
+  }
+
+  protected async onValidateConfig(_config: any): Promise<ValidationResult> {
+    return { isValid: true, errors: [], warnings: [] };
+  }
+
+  /**
+   * Create a peer DID, generating an Ed25519 authentication key and an X25519
+   * key agreement key unless public keys are given
+   */
+  async createDID(options: DIDPeerCreateOptions = {}): Promise<DIDPeerCreateResult> {
+    const generated: Omit<DIDPeerKeyPair, 'id'>[] = [];
+    const generate = (purpose: DIDPeerKeyPair['purpose']) => {
+      const key = generateKey(purpose === 'authentication' ? 'ed25519' : 'x25519');
+      generated.push({ purpose, ...key });
+      return key.publicKeyMultibase;
+    };
+
+    const keyAgreementKeys = options.keyAgreementKeys || [generate('keyAgreement')];
+    const authenticationKeys = options.authenticationKeys || [generate('authentication')];
+    const services = (options.services || []).map(service => ({
+      type: 'DIDCommMessaging',
+      serviceEndpoint: {
+        uri: service.uri,
+        accept: service.accept || ['didcomm/v2'],
+        ...(service.routingKeys?.length ? { routingKeys: service.routingKeys } : {})
+      }
+    }));
+
+    const numalgo = options.numalgo ?? 2;
+    let did: string;
+    let shortFormDid: string | undefined;
+    if (numalgo === 2) {
+      did = [
+        'did:peer:2',
+        ...keyAgreementKeys.map(key => PURPOSE_KEY_AGREEMENT + key),
+        ...authenticationKeys.map(key => PURPOSE_AUTHENTICATION + key),
+        ...services.map(service => PURPOSE_SERVICE + encodeService(service))
+      ].join('.');
+    } else if (numalgo === 4) {
+      const keys = [...keyAgreementKeys, ...authenticationKeys];
+      const reference = (key: string) => `#key-${keys.indexOf(key) + 1}`;
+      const input = {
+        '@context': [DID_CONTEXT, MULTIKEY_CONTEXT],
+        verificationMethod: keys.map(key => ({ id: reference(key), type: 'Multikey', publicKeyMultibase: key })),
+        keyAgreement: keyAgreementKeys.map(reference),
+        authentication: authenticationKeys.map(reference),
+        assertionMethod: authenticationKeys.map(reference),
+        ...(services.length ? { service: services.map((service, i) => ({ id: serviceId(i), ...service })) } : {})
+      };
+      const encoded = base58btc.encode(Uint8Array.from([...JSON_CODEC, ...Buffer.from(JSON.stringify(input), 'utf-8')]));
+      shortFormDid = `did:peer:4${hashEncodedDocument(encoded)}`;
+      did = `${shortFormDid}:${encoded}`;
+      await this.remember(did);
+    } else {
+      throw new Error(`Unsupported did:peer numalgo ${numalgo}`);
+    }
+
+    const document = this.buildDocument(did);
+    const keyIds = new Map(document.verificationMethod!.map(method => [method.publicKeyMultibase, method.id]));
+    return {
+      did,
+      ...(shortFormDid ? { shortFormDid } : {}),
+      document,
+      keys: generated.map(key => ({ id: keyIds.get(key.publicKeyMultibase)!, ...key }))
+    };
+  }
+
+  /**
+   * Resolve a peer DID locally. Short-form numalgo 4 DIDs resolve only after their
+   * long form was created or resolved through this plugin.
+   */
+  async resolveDID(did: string): Promise<DIDResolutionResult> {
+    await this.load();
+    const id = did.split('#')[0];
+    let didDocument: DIDDocument;
+    try {
+      didDocument = this.buildDocument(id);
+    } catch (err) {
+      const message = (err as Error).message;
+      return {
+        didResolutionMetadata: { error: message.startsWith('Unknown') ? 'notFound' : 'invalidDid', message },
+        didDocument: null,
+        didDocumentMetadata: {}
+      };
+    }
+
+    if (id.startsWith('did:peer:4') && id.split(':').length === 4) {
+      await this.remember(id);
+    }
+    return {
+      didResolutionMetadata: { contentType: 'application/did+json' },
+      didDocument,
+      didDocumentMetadata: {}
+    };
+  }
+
+  /**
+   * A did-resolver method map, e.g. `new Resolver({ ...plugin.getResolver() })`
+   */
+  getResolver(): { peer: DIDResolver } {
+    return { peer: async did => this.resolveDID(did) };
+  }
+
+  /**
+   * Read the long forms kept in the store, once
+   */
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        for (const longForm of (await this.didPeerConfig.store?.list()) || []) {
+          this.longForms.set(shortFormOf(longForm), longForm);
+        }
+      })().catch(err => {
+        this.loaded = undefined;
+        throw err;
+      });
+    }
+    return this.loaded;
+  }
+
+  /**
+   * Keep the long form of a numalgo 4 DID, in the store too when it is new
+   */
+  private async remember(longForm: string): Promise<void> {
+    const shortForm = shortFormOf(longForm);
+    if (this.longForms.get(shortForm) !== longForm) {
+      this.longForms.set(shortForm, longForm);
+      await this.didPeerConfig.store?.save(longForm);
+    }
+  }
+
+  private buildDocument(did: string): DIDDocument {
+    if (did.startsWith('did:peer:2.')) {
+      return this.buildNumalgo2Document(did);
+    }
+    if (did.startsWith('did:peer:4')) {
+      return this.buildNumalgo4Document(did);
+    }
+    throw new Error(`Unsupported peer DID: ${did}`);
+  }
+
+  private buildNumalgo2Document(did: string): DIDDocument {
+    const verificationMethod: VerificationMethod[] = [];
+    const keyAgreement: string[] = [];
+    const authentication: string[] = [];
+    const service: Service[] = [];
+
+    for (const element of did.slice('did:peer:2.'.length).split('.')) {
+      const purpose = element[0];
+      const value = element.slice(1);
+      if (purpose === PURPOSE_SERVICE) {
+        service.push({ ...decodeService(value), id: `${did}${serviceId(service.length)}` } as Service);
+        continue;
+      }
+      if (purpose !== PURPOSE_KEY_AGREEMENT && purpose !== PURPOSE_AUTHENTICATION) {
+        throw new Error(`Unsupported did:peer:2 purpose code ${purpose}`);
+      }
+      assertMultikey(value, purpose === PURPOSE_KEY_AGREEMENT ? X25519_PUB : ED25519_PUB);
+
+      const id = `${did}#key-${verificationMethod.length + 1}`;
+      verificationMethod.push({ id, type: 'Multikey', controller: did, publicKeyMultibase: value });
+      (purpose === PURPOSE_KEY_AGREEMENT ? keyAgreement : authentication).push(id);
+    }
+
+    return {
+      '@context': [DID_CONTEXT, MULTIKEY_CONTEXT],
+      id: did,
+      verificationMethod,
+      keyAgreement,
+      authentication,
+      assertionMethod: authentication,
+      ...(service.length ? { service } : {})
+    };
+  }
+
+  private buildNumalgo4Document(did: string): DIDDocument {
+    const [hash, encoded] = did.slice('did:peer:4'.length).split(':');
+    const shortForm = `did:peer:4${hash}`;
+    const longForm = encoded ? did : this.longForms.get(shortForm);
+    if (!longForm) {
+      throw new Error(`Unknown short-form peer DID ${did}; resolve its long form first`);
+    }
+
+    const encodedDocument = longForm.split(':')[3];
+    if (hashEncodedDocument(encodedDocument) !== hash) {
+      throw new Error('did:peer:4 hash does not match the encoded document');
+    }
+    const bytes = base58btc.decode(encodedDocument);
+    if (bytes[0] !== JSON_CODEC[0] || bytes[1] !== JSON_CODEC[1]) {
+      throw new Error('did:peer:4 document is not multicodec JSON');
+    }
+
+    // Contextualize the input document for the form being resolved
+    const input = JSON.parse(Buffer.from(bytes.slice(2)).toString('utf-8'));
+    const absolute = (id: string) => (id.startsWith('#') ? `${did}${id}` : id);
+    const relationship = (refs?: Array<string | VerificationMethod>) =>
+      refs?.map(ref => (typeof ref === 'string' ? absolute(ref) : { ...ref, id: absolute(ref.id) }));
+
+    return {
+      ...input,
+      id: did,
+      alsoKnownAs: [encoded ? shortForm : longForm],
+      verificationMethod: input.verificationMethod?.map((method: VerificationMethod) => ({
+        ...method,
+        id: absolute(method.id),
+        controller: method.controller || did
+      })),
+      keyAgreement: relationship(input.keyAgreement),
+      authentication: relationship(input.authentication),
+      assertionMethod: relationship(input.assertionMethod),
+      ...(input.service ? { service: input.service.map((item: Service) => ({ ...item, id: absolute(item.id) })) } : {})
+    };
+  }
+}
+
+/**
+ * Long forms as JSON in secure storage, with an index of short forms under `<prefix>index`
+ */
+export class SecureStorageDIDPeerLongFormStore implements DIDPeerLongFormStore {
+  constructor(
+    private storage: SecureStorage,
+    private prefix = 'did-peer:'
+  ) {}
+
+  async list(): Promise<string[]> {
+    const longForms = await Promise.all((await this.index()).map(shortForm => this.read(this.prefix + 'long-form:' + shortForm)));
+    return longForms.filter((longForm): longForm is string => typeof longForm === 'string');
+  }
+
+  async save(longForm: string): Promise<void> {
+    const shortForm = shortFormOf(longForm);
+    await this.write(this.prefix + 'long-form:' + shortForm, longForm);
+    const index = await this.index();
+    if (!index.includes(shortForm)) {
+      await this.write(this.prefix + 'index', [...index, shortForm]);
+    }
+  }
+
+  private async index(): Promise<string[]> {
+    return (await this.read(this.prefix + 'index')) || [];
+  }
+
+  private async read(key: string): Promise<any> {
+    const data = await this.storage.retrieveKey(key);
+    return data ? JSON.parse(Buffer.from(data).toString('utf-8')) : null;
+  }
+
+  private async write(key: string, value: unknown): Promise<void> {
+    await this.storage.storeKey(key, new Uint8Array(Buffer.from(JSON.stringify(value), 'utf-8')));
+  }
+}
+
+function generateKey(type: 'ed25519' | 'x25519'): { publicKeyMultibase: string; privateKeyJwk: JsonWebKey } {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync(type as 'ed25519');
+  const raw = Buffer.from(publicKey.export({ format: 'jwk' }).x as string, 'base64url');
+  return {
+    publicKeyMultibase: base58btc.encode(Uint8Array.from([...(type === 'ed25519' ? ED25519_PUB : X25519_PUB), ...raw])),
+    privateKeyJwk: privateKey.export({ format: 'jwk' })
+  };
+}
+
+function assertMultikey(value: string, codec: number[]): void {
+  let bytes: Uint8Array;
+  try {
+    bytes = base58btc.decode(value);
+  } catch {
+    throw new Error(`Invalid multibase key ${value}`);
+  }
+  if (bytes.length !== 34 || bytes[0] !== codec[0] || bytes[1] !== codec[1]) {
+    throw new Error(`Key ${value} is not a ${codec === X25519_PUB ? 'X25519' : 'Ed25519'} multikey`);
+  }
+}
+
+/** `did:peer:4<hash>` of a long-form `did:peer:4<hash>:<document>` */
+function shortFormOf(longForm: string): string {
+  return longForm.split(':').slice(0, 3).join(':');
+}
+
+function hashEncodedDocument(encoded: string): string {
+  const digest = crypto.createHash('sha256').update(encoded, 'utf-8').digest();
+  return base58btc.encode(Uint8Array.from([...SHA2_256_MULTIHASH, ...digest]));
+}
+
+/** Service IDs: `#service`, then `#service-1`, `#service-2`, ... */
+function serviceId(index: number): string {
+  return index === 0 ? '#service' : `#service-${index}`;
+}
+
+function encodeService(service: Record<string, any>): string {
+  return Buffer.from(JSON.stringify(transformKeys(service, SERVICE_ABBREVIATIONS)), 'utf-8').toString('base64url');
+}
+
+function decodeService(encoded: string): Record<string, any> {
+  const service = transformKeys(JSON.parse(Buffer.from(encoded, 'base64url').toString('utf-8')), SERVICE_EXPANSIONS);
+  // Legacy encodings put the URI directly in `s`
+  if (typeof service.serviceEndpoint === 'string') {
+    const { serviceEndpoint, routingKeys, accept, ...rest } = service;
+    return { ...rest, serviceEndpoint: { uri: serviceEndpoint, ...(routingKeys ? { routingKeys } : {}), ...(accept ? { accept } : {}) } };
+  }
+  return service;
+}
+
+/** Rename object keys and the service type value through an abbreviation table */
+function transformKeys(value: any, table: Record<string, string>): any {
+  if (Array.isArray(value)) {
+    return value.map(item => transformKeys(item, table));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [
+      table[key] || key,
+      key === 'type' || key === 't' ? table[item as string] || item : transformKeys(item, table)
+    ]));
+  }
+  return value;
+}
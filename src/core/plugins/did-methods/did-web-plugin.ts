@@ -0,0 +1,411 @@
+/**
+ * DID:web Plugin
+ *
+ * Implements the did:web method: domain-anchored identifiers whose DID document
+ * is served over HTTPS at `/.well-known/did.json` (bare domain) or
+ * `/<path>/did.json`.
+ *
+ * The plugin builds `did.json` documents from keys held in a `KeyManager`, keeps
+ * the documents this host serves, and resolves did:web identifiers through a
+ * pluggable fetcher.
+ *
+ * Hosted documents can be updated and deactivated. Every change is kept as a
+ * version, served for `?versionId=` and `?versionTime=` requests with the
+ * version in the `ETag` and its time in `Last-Modified`; deactivated documents
+ * are served with `410 Gone`. Documents follow `KeyManager.rotateKey`. With a
+ * `store`, versions survive restarts and the latest version of each DID is
+ * served again once the plugin has loaded them.
+ *
+ * @see https://w3c-ccg.github.io/did-method-web/
+ */
+
+import { parse } from 'did-resolver';
+import type { DIDDocument, DIDResolutionResult, DIDResolver, Service, VerificationMethod } from 'did-resolver';
+import { BasePlugin } from '../base-plugin.js';
+import type { PluginContext, ValidationResult } from '../interfaces.js';
+import type { KeyManager } from '../../key-management/manager.js';
+import type { KeyRotationResult } from '../../key-management/types.js';
+import {
+  DIDVersionHistory,
+  applyDIDDocumentUpdate,
+  rotateVerificationMethod
+} from '../../did/lifecycle.js';
+import type { DIDDocumentUpdate, DIDDocumentVersion, DIDVersionStore, KeyRotationOptions } from '../../did/lifecycle.js';
+
+export type DIDWebFetch = (url: string, init?: RequestInit) => Promise<Response>;
+
+export interface DIDWebPluginConfig {
+  /** Holds the keys published in created documents */
+  keyManager?: KeyManager;
+  /** Fetches DID documents during resolution; defaults to the global fetch */
+  fetch?: DIDWebFetch;
+  /** Keeps the versions of hosted documents between restarts */
+  store?: DIDVersionStore;
+}
+
+export interface DIDWebCreateOptions {
+  /** Host name, e.g. `issuer.example.com` */
+  domain: string;
+  /** Port, when not the HTTPS default */
+  port?: number;
+  /** Optional path, e.g. `users/alice` or `['users', 'alice']` */
+  path?: string | string[];
+  /** KeyManager key IDs to publish as verification methods */
+  keyIds: string[];
+  /** Service endpoints to publish */
+  services?: Service[];
+}
+
+export interface DIDWebCreateResult {
+  did: string;
+  document: DIDDocument;
+  /** HTTPS URL the document must be served at */
+  url: string;
+  /** Path of `url`, for mounting behind the Express server */
+  path: string;
+}
+
+const DID_CONTEXT = 'https://www.w3.org/ns/did/v1';
+const JWS_2020_CONTEXT = 'https://w3id.org/security/suites/jws-2020/v1';
+const HOST_PATTERN = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*$/;
+
+/**
+ * Build the did:web identifier for a domain, optional port and path
+ */
+export function createDidWeb(domain: string, options: { port?: number; path?: string | string[] } = {}): string {
+  const host = domain.toLowerCase();
+  if (!HOST_PATTERN.test(host)) {
+    throw new Error(`Invalid did:web domain: ${domain}`);
+  }
+  if (options.port !== undefined && (!Number.isInteger(options.port) || options.port < 1 || options.port > 65535)) {
+    throw new Error(`Invalid did:web port: ${options.port}`);
+  }
+
+  const segments = (Array.isArray(options.path) ? options.path : (options.path || '').split('/'))
+    .filter(segment => segment.length > 0)
+    .map(segment => encodeURIComponent(segment));
+  const authority = options.port ? `${host}%3A${options.port}` : host;
+  return ['did:web', authority, ...segments].join(':');
+}
+
+/**
+ * The HTTPS URL of a did:web DID document
+ */
+export function didWebToUrl(did: string): string {
+  const match = /^did:web:([^:#?/]+)((?::[^:#?/]+)*)$/.exec(did);
+  if (!match) {
+    throw new Error(`Invalid did:web identifier: ${did}`);
+  }
+
+  const authority = decodeURIComponent(match[1]);
+  const [host, port] = authority.split(':');
+  if (!HOST_PATTERN.test(host) || (port !== undefined && !/^\d{1,5}$/.test(port))) {
+    throw new Error(`Invalid did:web identifier: ${did}`);
+  }
+
+  const segments = match[2].split(':').filter(Boolean).map(segment => encodeURIComponent(decodeURIComponent(segment)));
+  const path = segments.length > 0 ? `/${segments.join('/')}/did.json` : '/.well-known/did.json';
+  return `https://${authority}${path}`;
+}
+
+export class DIDWebPlugin extends BasePlugin {
+  private didWebConfig: DIDWebPluginConfig;
+  /** Documents served by this host, keyed by request path */
+  private hostedDocuments: Map<string, DIDDocument> = new Map();
+  private history: DIDVersionHistory;
+  private loaded?: Promise<void>;
+
+  constructor(config: DIDWebPluginConfig = {}) {
+    super(
+      'did-web-plugin',
+      'DID:web Plugin',
+      '1.0.0',
+      'regular',
+      'did-method',
+      {
+        name: 'Open Verifiable',
+        did: 'did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK',
+        email: 'plugins@open-verifiable.org'
+      },
+      [
+        'did:web:create',
+        'did:web:resolve',
+        'did:web:host',
+        'did:web:update',
+        'did:web:deactivate'
+      ],
+      {
+        description: 'DID:web method implementation for domain-anchored identifiers',
+        config
+      }
+    );
+
+    this.didWebConfig = { ...config };
+    this.history = new DIDVersionHistory(config.store);
+    config.keyManager?.onKeyRotated(result => this.followKeyRotation(result));
+  }
+
+  protected async onInitialize(_context: PluginContext): Promise<void> {
+    // Documents are built and resolved in-process; nothing to register
+  }
+
+  protected async onCleanup(): Promise<void> {
+    this.hostedDocuments.clear();
+  }
+
+  protected async onValidateConfig(config: any): Promise<ValidationResult> {
+    const errors: string[] = [];
+
+    if (config?.fetch !== undefined && typeof config.fetch !== 'function') {
+      errors.push('fetch must be a function');
+    }
+
+    return {
+      isValid: errors.length === 0,
+      errors,
+      warnings: []
+    };
+  }
+
+  /**
+   * Create a did:web DID document publishing the given KeyManager keys, and host it
+   */
+  async createDID(options: DIDWebCreateOptions): Promise<DIDWebCreateResult> {
+    const keyManager = this.didWebConfig.keyManager;
+    if (!keyManager) {
+      throw new Error('A KeyManager is required to create did:web documents');
+    }
+    if (options.keyIds.length === 0) {
+      throw new Error('At least one key is required');
+    }
+
+    const did = createDidWeb(options.domain, options);
+    const verificationMethod: VerificationMethod[] = [];
+    for (const keyId of options.keyIds) {
+      verificationMethod.push({
+        id: `${did}#${keyId}`,
+        type: 'JsonWebKey2020',
+        controller: did,
+        publicKeyJwk: await keyManager.getPublicKeyJwk(keyId) as VerificationMethod['publicKeyJwk']
+      });
+    }
+    const references = verificationMethod.map(method => method.id);
+
+    const document: DIDDocument = {
+      '@context': [DID_CONTEXT, JWS_2020_CONTEXT],
+      id: did,
+      verificationMethod,
+      authentication: references,
+      assertionMethod: references,
+      ...(options.services?.length ? { service: options.services } : {})
+    };
+
+    const url = didWebToUrl(did);
+    await this.hostDocument(document);
+    return { did, document, url, path: new URL(url).pathname };
+  }
+
+  /**
+   * Serve a did:web document from this host; replaces any document at the same path as a new version
+   */
+  async hostDocument(document: DIDDocument): Promise<DIDDocumentVersion> {
+    await this.load();
+    this.hostedDocuments.set(new URL(didWebToUrl(document.id)).pathname, document);
+    return this.history.record(document);
+  }
+
+  /**
+   * Stop serving the document of a DID, including its earlier versions
+   */
+  async removeDocument(did: string): Promise<boolean> {
+    await this.load();
+    await this.history.delete(did);
+    return this.hostedDocuments.delete(new URL(didWebToUrl(did)).pathname);
+  }
+
+  /**
+   * Add or remove verification methods and services of a hosted document
+   */
+  async updateDID(did: string, update: DIDDocumentUpdate): Promise<DIDDocument> {
+    const document = applyDIDDocumentUpdate(await this.requireActiveDocument(did), update);
+    await this.hostDocument(document);
+    return document;
+  }
+
+  /**
+   * Replace the verification method of one KeyManager key with another key,
+   * which takes over its verification relationships
+   */
+  async rotateKey(did: string, previousKeyId: string, newKeyId: string, options?: KeyRotationOptions): Promise<DIDDocument> {
+    const keyManager = this.didWebConfig.keyManager;
+    if (!keyManager) {
+      throw new Error('A KeyManager is required to rotate did:web keys');
+    }
+
+    const method: VerificationMethod = {
+      id: `${did}#${newKeyId}`,
+      type: 'JsonWebKey2020',
+      controller: did,
+      publicKeyJwk: await keyManager.getPublicKeyJwk(newKeyId) as VerificationMethod['publicKeyJwk']
+    };
+    const document = rotateVerificationMethod(await this.requireActiveDocument(did), `${did}#${previousKeyId}`, method, options);
+    await this.hostDocument(document);
+    return document;
+  }
+
+  /**
+   * Deactivate a hosted DID; its document is then served with `410 Gone`
+   */
+  async deactivateDID(did: string): Promise<void> {
+    await this.history.record(await this.requireActiveDocument(did), { deactivated: true });
+  }
+
+  /**
+   * Versions of a hosted document, oldest first
+   */
+  async getVersions(did: string): Promise<DIDDocumentVersion[]> {
+    await this.load();
+    return this.history.list(did);
+  }
+
+  /**
+   * The hosted document for a request path such as `/.well-known/did.json`
+   */
+  async getHostedDocument(path: string): Promise<DIDDocument | undefined> {
+    await this.load();
+    return this.hostedDocuments.get(path);
+  }
+
+  /**
+   * A version of the hosted document for a request path: by `versionId`, current at `versionTime`, or the latest
+   */
+  async getHostedVersion(
+    path: string,
+    options: { versionId?: string; versionTime?: string } = {}
+  ): Promise<DIDDocumentVersion | undefined> {
+    await this.load();
+    const document = this.hostedDocuments.get(path);
+    return document && this.history.get(document.id, options);
+  }
+
+  async listHostedDocuments(): Promise<DIDDocument[]> {
+    await this.load();
+    return Array.from(this.hostedDocuments.values());
+  }
+
+  /**
+   * Resolve a did:web identifier by fetching its DID document. `versionId` and
+   * `versionTime` in the DID URL query are sent along to the host.
+   */
+  async resolveDID(did: string): Promise<DIDResolutionResult> {
+    const parsed = parse(did);
+    let url: string;
+    try {
+      url = didWebToUrl(parsed?.did || did);
+    } catch (err) {
+      return this.resolutionError('invalidDid', (err as Error).message);
+    }
+
+    const query = new URLSearchParams(parsed?.query || '');
+    const versionQuery = new URLSearchParams(
+      ['versionId', 'versionTime'].filter(name => query.has(name)).map(name => [name, query.get(name)!])
+    ).toString();
+    if (versionQuery) {
+      url = `${url}?${versionQuery}`;
+    }
+
+    // Network failures and server errors say nothing about the DID, so they are
+    // reported as `internalError`, which resolvers do not cache; 404 is `notFound`
+    let res: Response;
+    try {
+      res = await (this.didWebConfig.fetch || fetch)(url, { headers: { Accept: 'application/did+json, application/json' } });
+    } catch (err) {
+      return this.resolutionError('internalError', `Failed to fetch ${url}: ${(err as Error).message}`);
+    }
+    if (res.status >= 500) {
+      return this.resolutionError('internalError', `Fetching ${url} returned HTTP ${res.status}`);
+    }
+    if (!res.ok && res.status !== 410) {
+      return this.resolutionError('notFound', `Fetching ${url} returned HTTP ${res.status}`);
+    }
+
+    let document: DIDDocument;
+    try {
+      document = await res.json();
+    } catch (err) {
+      return this.resolutionError('notFound', `Failed to read ${url}: ${(err as Error).message}`);
+    }
+
+    if (document?.id !== parsed?.did) {
+      return this.resolutionError('invalidDidDocument', `Document at ${url} does not describe ${did}`);
+    }
+
+    const etag = res.headers?.get('etag');
+    const lastModified = Date.parse(res.headers?.get('last-modified') || '');
+    return {
+      didResolutionMetadata: { contentType: 'application/did+json' },
+      didDocument: document,
+      didDocumentMetadata: {
+        ...(etag ? { versionId: etag.replace(/^W\//, '').replace(/"/g, '') } : {}),
+        ...(Number.isNaN(lastModified) ? {} : { updated: new Date(lastModified).toISOString() }),
+        ...(res.status === 410 ? { deactivated: true } : {})
+      }
+    };
+  }
+
+  /**
+   * A did-resolver method map, e.g. `new Resolver({ ...plugin.getResolver() })`
+   */
+  getResolver(): { web: DIDResolver } {
+    return { web: async (_did, parsed) => this.resolveDID(parsed.didUrl) };
+  }
+
+  /**
+   * Move hosted documents that publish a rotated KeyManager key to the new key
+   */
+  private async followKeyRotation(result: KeyRotationResult): Promise<void> {
+    for (const document of await this.listHostedDocuments()) {
+      const publishesKey = (document.verificationMethod || []).some(method => method.id === `${document.id}#${result.oldKeyId}`);
+      if (publishesKey && !this.history.latest(document.id)?.deactivated) {
+        await this.rotateKey(document.id, result.oldKeyId, result.newKeyId);
+      }
+    }
+  }
+
+  /**
+   * Read the stored versions once, serving the latest version of each DID again
+   */
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.history.load().then(() => {
+        for (const did of this.history.dids()) {
+          this.hostedDocuments.set(new URL(didWebToUrl(did)).pathname, this.history.latest(did)!.document);
+        }
+      }).catch(err => {
+        this.loaded = undefined;
+        throw err;
+      });
+    }
+    return this.loaded;
+  }
+
+  private async requireActiveDocument(did: string): Promise<DIDDocument> {
+    await this.load();
+    const document = this.hostedDocuments.get(new URL(didWebToUrl(did)).pathname);
+    if (!document || document.id !== did) {
+      throw new Error(`${did} is not hosted here`);
+    }
+    if (this.history.latest(did)?.deactivated) {
+      throw new Error(`${did} is deactivated`);
+    }
+    return document;
+  }
+
+  private resolutionError(error: string, message: string): DIDResolutionResult {
+    return {
+      didResolutionMetadata: { error, message },
+      didDocument: null,
+      didDocumentMetadata: {}
+    };
+  }
+}
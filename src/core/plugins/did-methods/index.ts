@@ -10,10 +10,38 @@ export { DIDKeyPlugin } from './did-key-plugin.js';
 export type { 
   DIDKeyPluginConfig, 
   DIDKeyCreateOptions, 
-  DIDKeyCreateResult 
+  DIDKeyCreateResult,
+  DIDKeyAlgorithm,
+  DIDKeyPublicKeyFormat,
+  DIDKeyResolveOptions
 } from './did-key-plugin.js';
 
+export { DIDWebPlugin, createDidWeb, didWebToUrl } from './did-web-plugin.js';
+export type {
+  DIDWebPluginConfig,
+  DIDWebCreateOptions,
+  DIDWebCreateResult,
+  DIDWebFetch
+} from './did-web-plugin.js';
+
+export { DIDPeerPlugin, SecureStorageDIDPeerLongFormStore } from './did-peer-plugin.js';
+export type {
+  DIDPeerNumalgo,
+  DIDPeerPluginConfig,
+  DIDPeerLongFormStore,
+  DIDPeerServiceOptions,
+  DIDPeerCreateOptions,
+  DIDPeerKeyPair,
+  DIDPeerCreateResult
+} from './did-peer-plugin.js';
+
+export { DIDJWKPlugin } from './did-jwk-plugin.js';
+export type {
+  DIDJWKCreateResult,
+  DIDJWKSigner,
+  DIDJWKVerificationResult
+} from './did-jwk-plugin.js';
+
 // Future DID method plugins will be exported here:
-// export { DIDWebPlugin } from './did-web-plugin.js';
 // export { DIDCheqdPlugin } from './did-cheqd-plugin.js';
 // export { DIDIonPlugin } from './did-ion-plugin.js'; 
\ No newline at end of file
@@ -0,0 +1,407 @@
+/**
+ * Presentation Exchange Client
+ *
+ * Evaluates DIF Presentation Exchange v2 presentation definitions against a
+ * set of credentials, builds presentation submissions for the holder, and
+ * validates submissions on the verifier side.
+ */
+
+import Ajv, { type ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+import { decodeJWT } from 'did-jwt';
+import crypto from 'crypto';
+import { VerifiableCredential, VerifiablePresentation } from '../../types';
+import { normalizeEmbeddedCredential } from '../presentation/utils';
+import { parseJsonPath, queryJsonPath } from './utils/json-path';
+import {
+  ConstraintField,
+  DescriptorMapEntry,
+  DescriptorMatch,
+  InputDescriptor,
+  PresentationDefinition,
+  PresentationExchangeEvaluation,
+  PresentationSubmission,
+  SubmissionRequirement,
+  SubmissionResult,
+  SubmissionValidationResult
+} from './types';
+
+export class PresentationExchangeClient {
+  private ajv: Ajv;
+  private filterCache = new Map<string, ValidateFunction>();
+
+  constructor() {
+    this.ajv = new Ajv({ allErrors: true, strict: false });
+    addFormats(this.ajv);
+  }
+
+  /**
+   * Find candidate credentials for every input descriptor of a definition
+   */
+  evaluate(definition: PresentationDefinition, credentials: VerifiableCredential[]): PresentationExchangeEvaluation {
+    const errors = this.validateDefinition(definition);
+    if (errors.length > 0) {
+      return { definitionId: definition?.id, matches: [], satisfiable: false, errors };
+    }
+
+    const matches: DescriptorMatch[] = definition.input_descriptors.map(descriptor => {
+      const candidates: VerifiableCredential[] = [];
+      const rejections: string[] = [];
+
+      for (const credential of credentials) {
+        const descriptorErrors = this.evaluateDescriptor(descriptor, credential);
+        if (descriptorErrors.length === 0) {
+          candidates.push(credential);
+        } else {
+          rejections.push(`${credential.id || 'credential'}: ${descriptorErrors.join('; ')}`);
+        }
+      }
+
+      return { descriptorId: descriptor.id, candidates, errors: candidates.length > 0 ? [] : rejections };
+    });
+
+    const satisfied = new Set(matches.filter(m => m.candidates.length > 0).map(m => m.descriptorId));
+    const requirementErrors = this.checkRequirements(definition, satisfied);
+
+    return {
+      definitionId: definition.id,
+      matches,
+      satisfiable: requirementErrors.length === 0,
+      errors: requirementErrors
+    };
+  }
+
+  /**
+   * Check a single credential against an input descriptor's constraints
+   * @returns list of unmet constraints (empty when the credential matches)
+   */
+  evaluateDescriptor(descriptor: InputDescriptor, credential: VerifiableCredential): string[] {
+    const errors: string[] = [];
+    const documents = this.getEvaluationDocuments(credential);
+
+    for (const field of descriptor.constraints?.fields || []) {
+      if (!this.matchField(field, documents) && !field.optional) {
+        errors.push(`field ${field.id || field.path.join(' | ')} not satisfied`);
+      }
+    }
+
+    if (descriptor.constraints?.subject_is_issuer === 'required') {
+      const issuer = typeof credential.issuer === 'string' ? credential.issuer : (credential.issuer as any)?.id;
+      const subjects = Array.isArray(credential.credentialSubject)
+        ? credential.credentialSubject
+        : [credential.credentialSubject];
+      if (!subjects.some((subject: any) => subject?.id === issuer)) {
+        errors.push('subject is not the issuer');
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Build a presentation submission from the holder's chosen credential per descriptor
+   * @param selection descriptor ID -> credential to submit
+   */
+  createSubmission(
+    definition: PresentationDefinition,
+    selection: Record<string, VerifiableCredential>
+  ): SubmissionResult {
+    const credentials: VerifiableCredential[] = [];
+    const descriptorMap: DescriptorMapEntry[] = [];
+
+    for (const descriptor of definition.input_descriptors) {
+      const credential = selection[descriptor.id];
+      if (!credential) {
+        continue;
+      }
+
+      const errors = this.evaluateDescriptor(descriptor, credential);
+      if (errors.length > 0) {
+        throw new Error(`Credential does not satisfy input descriptor ${descriptor.id}: ${errors.join('; ')}`);
+      }
+
+      let index = credentials.indexOf(credential);
+      if (index === -1) {
+        index = credentials.push(credential) - 1;
+      }
+
+      descriptorMap.push({
+        id: descriptor.id,
+        format: this.getCredentialFormat(credential),
+        path: `$.verifiableCredential[${index}]`
+      });
+    }
+
+    const requirementErrors = this.checkRequirements(definition, new Set(descriptorMap.map(entry => entry.id)), true);
+    if (requirementErrors.length > 0) {
+      throw new Error(`Selection does not satisfy the presentation definition: ${requirementErrors.join('; ')}`);
+    }
+
+    return {
+      presentationSubmission: {
+        id: crypto.randomUUID(),
+        definition_id: definition.id,
+        descriptor_map: descriptorMap
+      },
+      credentials
+    };
+  }
+
+  /**
+   * Pick the first candidate for every matched descriptor and build a submission
+   */
+  createSubmissionFromEvaluation(
+    definition: PresentationDefinition,
+    evaluation: PresentationExchangeEvaluation
+  ): SubmissionResult {
+    if (!evaluation.satisfiable) {
+      throw new Error(`Presentation definition cannot be satisfied: ${evaluation.errors.join('; ')}`);
+    }
+
+    const selection: Record<string, VerifiableCredential> = {};
+    for (const match of evaluation.matches) {
+      if (match.candidates.length > 0) {
+        selection[match.descriptorId] = match.candidates[0];
+      }
+    }
+    return this.createSubmission(definition, selection);
+  }
+
+  /**
+   * Validate a presentation submission against the definition it answers
+   * @param presentation the presentation (object or decoded `vp` claim) holding the credentials
+   */
+  validateSubmission(
+    definition: PresentationDefinition,
+    submission: PresentationSubmission,
+    presentation: VerifiablePresentation | Record<string, any>
+  ): SubmissionValidationResult {
+    const errors: string[] = [];
+    const fulfilled = new Set<string>();
+
+    if (submission.definition_id !== definition.id) {
+      errors.push(`Submission references definition ${submission.definition_id}, expected ${definition.id}`);
+      return { isValid: false, errors, fulfilledDescriptors: [] };
+    }
+
+    for (const entry of submission.descriptor_map || []) {
+      const descriptor = definition.input_descriptors.find(d => d.id === entry.id);
+      if (!descriptor) {
+        errors.push(`Descriptor map entry ${entry.id} does not match any input descriptor`);
+        continue;
+      }
+
+      const resolved = this.resolveDescriptorEntry(entry, presentation);
+      if (!resolved) {
+        errors.push(`Descriptor map entry ${entry.id} path ${entry.path} does not resolve to a credential`);
+        continue;
+      }
+
+      const descriptorErrors = this.evaluateDescriptor(descriptor, normalizeEmbeddedCredential(resolved));
+      if (descriptorErrors.length > 0) {
+        errors.push(`Credential for ${entry.id} does not satisfy the input descriptor: ${descriptorErrors.join('; ')}`);
+        continue;
+      }
+
+      fulfilled.add(entry.id);
+    }
+
+    errors.push(...this.checkRequirements(definition, fulfilled, true));
+
+    return { isValid: errors.length === 0, errors, fulfilledDescriptors: Array.from(fulfilled) };
+  }
+
+  /**
+   * Check the structural validity of a presentation definition
+   */
+  validateDefinition(definition: PresentationDefinition): string[] {
+    const errors: string[] = [];
+
+    if (!definition?.id) {
+      errors.push('Presentation definition is missing an id');
+    }
+    if (!Array.isArray(definition?.input_descriptors) || definition.input_descriptors.length === 0) {
+      errors.push('Presentation definition must contain at least one input descriptor');
+      return errors;
+    }
+
+    const ids = new Set<string>();
+    for (const descriptor of definition.input_descriptors) {
+      if (!descriptor.id) {
+        errors.push('Input descriptor is missing an id');
+      } else if (ids.has(descriptor.id)) {
+        errors.push(`Duplicate input descriptor id: ${descriptor.id}`);
+      }
+      ids.add(descriptor.id);
+
+      for (const field of descriptor.constraints?.fields || []) {
+        if (!Array.isArray(field.path) || field.path.length === 0) {
+          errors.push(`Input descriptor ${descriptor.id} has a field without a path`);
+          continue;
+        }
+        for (const path of field.path) {
+          try {
+            parseJsonPath(path);
+          } catch (err) {
+            errors.push(`Input descriptor ${descriptor.id} has an unsupported path: ${(err as Error).message}`);
+          }
+        }
+      }
+    }
+
+    const groups = new Set(definition.input_descriptors.flatMap(d => d.group || []));
+    const checkGroups = (requirements: SubmissionRequirement[]) => {
+      for (const requirement of requirements) {
+        if (requirement.from && !groups.has(requirement.from)) {
+          errors.push(`Submission requirement references unknown group: ${requirement.from}`);
+        }
+        if (!requirement.from && !requirement.from_nested) {
+          errors.push('Submission requirement must have either from or from_nested');
+        }
+        if (requirement.from_nested) {
+          checkGroups(requirement.from_nested);
+        }
+      }
+    };
+    checkGroups(definition.submission_requirements || []);
+
+    return errors;
+  }
+
+  private matchField(field: ConstraintField, documents: Record<string, any>[]): boolean {
+    const validate = field.filter ? this.getFilterValidator(field.filter) : null;
+
+    for (const path of field.path) {
+      for (const document of documents) {
+        const values = queryJsonPath(document, path);
+        if (values.length === 0) {
+          continue;
+        }
+        if (!validate || values.some(value => validate(value))) {
+          return true;
+        }
+      }
+    }
+
+    return false;
+  }
+
+  private getFilterValidator(filter: Record<string, any>): ValidateFunction {
+    const key = JSON.stringify(filter);
+    let validator = this.filterCache.get(key);
+    if (!validator) {
+      validator = this.ajv.compile(filter);
+      this.filterCache.set(key, validator);
+    }
+    return validator;
+  }
+
+  /**
+   * JWT credentials are matched against both the SDK shape and the raw JWT payload,
+   * so definitions may use either `$.credentialSubject.x` or `$.vc.credentialSubject.x`
+   */
+  private getEvaluationDocuments(credential: VerifiableCredential): Record<string, any>[] {
+    const documents: Record<string, any>[] = [credential];
+    const jwt = (credential.proof as any)?.jwt;
+    if (typeof jwt === 'string') {
+      try {
+        documents.push(decodeJWT(jwt).payload);
+      } catch {
+        // Malformed JWT proofs are matched against the credential object only
+      }
+    }
+    return documents;
+  }
+
+  private getCredentialFormat(credential: VerifiableCredential): string {
+    const proof = credential.proof as any;
+    if (typeof proof?.sdJwt === 'string') {
+      return 'vc+sd-jwt';
+    }
+    return typeof proof?.jwt === 'string' ? 'jwt_vc' : 'ldp_vc';
+  }
+
+  private resolveDescriptorEntry(entry: DescriptorMapEntry, document: any): any {
+    const [value] = queryJsonPath(document, entry.path);
+    if (value === undefined) {
+      return undefined;
+    }
+    if (!entry.path_nested) {
+      return value;
+    }
+
+    let nestedDocument = value;
+    if (typeof value === 'string') {
+      try {
+        nestedDocument = decodeJWT(value).payload;
+      } catch {
+        return undefined;
+      }
+    }
+    return this.resolveDescriptorEntry(entry.path_nested, nestedDocument);
+  }
+
+  /**
+   * Check that a set of satisfied descriptors meets the submission requirements.
+   * Without submission requirements every input descriptor must be satisfied.
+   * @param isSubmission also enforce `count` and `max` upper bounds (a holder may hold more
+   *   candidates than a definition allows, but may not submit more)
+   */
+  private checkRequirements(definition: PresentationDefinition, satisfied: Set<string>, isSubmission = false): string[] {
+    if (!definition.submission_requirements || definition.submission_requirements.length === 0) {
+      return definition.input_descriptors
+        .filter(descriptor => !satisfied.has(descriptor.id))
+        .map(descriptor => `No credential satisfies input descriptor ${descriptor.id}`);
+    }
+
+    const errors: string[] = [];
+    for (const requirement of definition.submission_requirements) {
+      const error = this.checkRequirement(requirement, definition, satisfied, isSubmission);
+      if (error) {
+        errors.push(error);
+      }
+    }
+    return errors;
+  }
+
+  private checkRequirement(
+    requirement: SubmissionRequirement,
+    definition: PresentationDefinition,
+    satisfied: Set<string>,
+    isSubmission: boolean
+  ): string | null {
+    const label = requirement.name || requirement.from || 'nested requirement';
+    let total: number;
+    let met: number;
+
+    if (requirement.from_nested) {
+      total = requirement.from_nested.length;
+      met = requirement.from_nested.filter(nested => !this.checkRequirement(nested, definition, satisfied, isSubmission)).length;
+    } else {
+      const members = definition.input_descriptors.filter(d => d.group?.includes(requirement.from!));
+      total = members.length;
+      met = members.filter(d => satisfied.has(d.id)).length;
+    }
+
+    if (requirement.rule === 'all') {
+      return met === total ? null : `Submission requirement ${label} needs all ${total}, got ${met}`;
+    }
+
+    if (requirement.count !== undefined && met < requirement.count) {
+      return `Submission requirement ${label} needs ${requirement.count}, got ${met}`;
+    }
+    if (requirement.min !== undefined && met < requirement.min) {
+      return `Submission requirement ${label} needs at least ${requirement.min}, got ${met}`;
+    }
+    if (requirement.count === undefined && requirement.min === undefined && met < 1) {
+      return `Submission requirement ${label} needs at least 1, got 0`;
+    }
+    if (isSubmission && requirement.count !== undefined && met > requirement.count) {
+      return `Submission requirement ${label} allows ${requirement.count}, got ${met}`;
+    }
+    if (isSubmission && requirement.max !== undefined && met > requirement.max) {
+      return `Submission requirement ${label} allows at most ${requirement.max}, got ${met}`;
+    }
+    return null;
+  }
+}
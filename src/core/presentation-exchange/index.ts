@@ -0,0 +1,33 @@
+/**
+ * Presentation Exchange Module - Barrel Export
+ *
+ * This module implements DIF Presentation Exchange v2: matching wallet
+ * credentials against a verifier's presentation definition, building the
+ * presentation submission, and validating submissions on the verifier side.
+ *
+ * @example
+ * ```typescript
+ * const evaluation = await userAgent.evaluatePresentationDefinition(definition)
+ * const { presentation, presentationSubmission } = await userAgent.createPresentationForDefinition(definition, { challenge, domain })
+ * const result = await serviceAgent.verifyPresentationSubmission(presentation, presentationSubmission, { challenge, domain })
+ * ```
+ */
+
+export { PresentationExchangeClient } from './client.js';
+export { queryJsonPath, parseJsonPath } from './utils/json-path.js';
+
+export type {
+  ClaimFormatDesignation,
+  FieldFilter,
+  ConstraintField,
+  Constraints,
+  InputDescriptor,
+  SubmissionRequirement,
+  PresentationDefinition,
+  DescriptorMapEntry,
+  PresentationSubmission,
+  DescriptorMatch,
+  PresentationExchangeEvaluation,
+  SubmissionResult,
+  SubmissionValidationResult
+} from './types.js';
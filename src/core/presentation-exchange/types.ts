@@ -0,0 +1,108 @@
+/**
+ * Presentation Exchange Types
+ *
+ * Data model for DIF Presentation Exchange v2: presentation definitions issued
+ * by verifiers, and presentation submissions returned by holders.
+ */
+
+import { VerifiableCredential } from '../../types';
+
+export type ClaimFormatDesignation = 'jwt_vc' | 'jwt_vp' | 'ldp_vc' | 'ldp_vp' | 'vc+sd-jwt' | string;
+
+export interface FieldFilter {
+  /** JSON Schema the resolved value must satisfy */
+  [keyword: string]: any;
+}
+
+export interface ConstraintField {
+  id?: string;
+  /** JSONPath expressions, evaluated in order until one resolves */
+  path: string[];
+  purpose?: string;
+  name?: string;
+  filter?: FieldFilter;
+  optional?: boolean;
+  predicate?: 'required' | 'preferred';
+  intent_to_retain?: boolean;
+}
+
+export interface Constraints {
+  limit_disclosure?: 'required' | 'preferred';
+  subject_is_issuer?: 'required' | 'preferred';
+  fields?: ConstraintField[];
+}
+
+export interface InputDescriptor {
+  id: string;
+  name?: string;
+  purpose?: string;
+  group?: string[];
+  format?: Record<ClaimFormatDesignation, any>;
+  constraints?: Constraints;
+}
+
+export interface SubmissionRequirement {
+  name?: string;
+  purpose?: string;
+  rule: 'all' | 'pick';
+  count?: number;
+  min?: number;
+  max?: number;
+  /** Group name referenced by input descriptors */
+  from?: string;
+  /** Nested requirements (mutually exclusive with `from`) */
+  from_nested?: SubmissionRequirement[];
+}
+
+export interface PresentationDefinition {
+  id: string;
+  name?: string;
+  purpose?: string;
+  format?: Record<ClaimFormatDesignation, any>;
+  input_descriptors: InputDescriptor[];
+  submission_requirements?: SubmissionRequirement[];
+}
+
+export interface DescriptorMapEntry {
+  id: string;
+  format: ClaimFormatDesignation;
+  path: string;
+  path_nested?: DescriptorMapEntry;
+}
+
+export interface PresentationSubmission {
+  id: string;
+  definition_id: string;
+  descriptor_map: DescriptorMapEntry[];
+}
+
+/**
+ * Candidate credentials found for a single input descriptor
+ */
+export interface DescriptorMatch {
+  descriptorId: string;
+  candidates: VerifiableCredential[];
+  /** Reasons credentials were rejected (only populated when there are no candidates) */
+  errors: string[];
+}
+
+export interface PresentationExchangeEvaluation {
+  definitionId: string;
+  matches: DescriptorMatch[];
+  /** Whether the candidate set can satisfy the definition's submission requirements */
+  satisfiable: boolean;
+  errors: string[];
+}
+
+export interface SubmissionResult {
+  presentationSubmission: PresentationSubmission;
+  /** Credentials in descriptor_map order, ready to embed in a presentation */
+  credentials: VerifiableCredential[];
+}
+
+export interface SubmissionValidationResult {
+  isValid: boolean;
+  errors: string[];
+  /** Input descriptor IDs satisfied by the submission */
+  fulfilledDescriptors: string[];
+}
@@ -0,0 +1,252 @@
+/**
+ * Minimal JSONPath evaluator
+ *
+ * Supports the subset used by Presentation Exchange definitions:
+ * `$`, `.name`, `['name']`, `[n]`, `[*]`, `.*`, recursive descent `..name`
+ * and filters on a single relative path, either an existence test such as
+ * `[?(@.id)]` or a comparison with a literal such as `[?(@.type == 'Email')]`
+ * (`==`, `!=`, `<`, `<=`, `>`, `>=`; string, number, boolean or null literals).
+ */
+
+type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+type PathSegment =
+  | { kind: 'child'; name: string }
+  | { kind: 'index'; index: number }
+  | { kind: 'wildcard' }
+  | { kind: 'descendant'; name: string | '*' }
+  | { kind: 'filter'; path: PathSegment[]; operator?: ComparisonOperator; value?: unknown };
+
+const OPERATORS: ComparisonOperator[] = ['==', '!=', '<=', '>=', '<', '>'];
+
+/**
+ * Index of the `]` closing the bracket opened at `start`, skipping quoted strings and nested brackets
+ */
+function findClosingBracket(path: string, start: number): number {
+  let depth = 0;
+  let quote: string | null = null;
+
+  for (let i = start; i < path.length; i++) {
+    const char = path[i];
+    if (quote) {
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === '[' || char === '(') {
+      depth++;
+    } else if (char === ']' || char === ')') {
+      depth--;
+      if (depth === 0) {
+        return char === ']' ? i : -1;
+      }
+    }
+  }
+
+  return -1;
+}
+
+function parseLiteral(literal: string, path: string): unknown {
+  if (/^'.*'$/.test(literal)) {
+    return literal.slice(1, -1);
+  }
+  try {
+    const value = JSON.parse(literal);
+    if (value === null || ['string', 'number', 'boolean'].includes(typeof value)) {
+      return value;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error(`Unsupported JSONPath filter literal ${literal}: ${path}`);
+}
+
+function parseFilter(expression: string, path: string): PathSegment {
+  let inner = expression.trim();
+  if (inner.startsWith('(') && inner.endsWith(')')) {
+    inner = inner.slice(1, -1).trim();
+  }
+
+  // Split at the first operator outside quoted strings
+  let quote: string | null = null;
+  for (let i = 0; i < inner.length; i++) {
+    const char = inner[i];
+    if (quote) {
+      quote = char === quote ? null : quote;
+      continue;
+    }
+    if (char === "'" || char === '"') {
+      quote = char;
+      continue;
+    }
+    const operator = OPERATORS.find(op => inner.startsWith(op, i));
+    if (operator) {
+      return {
+        kind: 'filter',
+        path: parseRelativePath(inner.slice(0, i).trim(), path),
+        operator,
+        value: parseLiteral(inner.slice(i + operator.length).trim(), path)
+      };
+    }
+  }
+
+  return { kind: 'filter', path: parseRelativePath(inner, path) };
+}
+
+function parseRelativePath(relative: string, path: string): PathSegment[] {
+  if (!relative.startsWith('@')) {
+    throw new Error(`Unsupported JSONPath filter [?${relative}] (must test a path starting with @): ${path}`);
+  }
+  return parseJsonPath(`$${relative.slice(1)}`);
+}
+
+/**
+ * Parse a JSONPath expression into segments
+ */
+export function parseJsonPath(path: string): PathSegment[] {
+  if (!path.startsWith('$')) {
+    throw new Error(`Invalid JSONPath (must start with $): ${path}`);
+  }
+
+  const segments: PathSegment[] = [];
+  let i = 1;
+
+  while (i < path.length) {
+    const char = path[i];
+
+    if (char === '.') {
+      const recursive = path[i + 1] === '.';
+      i += recursive ? 2 : 1;
+      const match = /^(\*|[A-Za-z0-9_$@-]+)/.exec(path.slice(i));
+      if (!match) {
+        throw new Error(`Invalid JSONPath segment at position ${i}: ${path}`);
+      }
+      const name = match[1];
+      i += name.length;
+      if (recursive) {
+        segments.push({ kind: 'descendant', name });
+      } else if (name === '*') {
+        segments.push({ kind: 'wildcard' });
+      } else {
+        segments.push({ kind: 'child', name });
+      }
+    } else if (char === '[') {
+      const end = findClosingBracket(path, i);
+      if (end === -1) {
+        throw new Error(`Unterminated bracket in JSONPath: ${path}`);
+      }
+      const inner = path.slice(i + 1, end).trim();
+      i = end + 1;
+      if (inner === '*') {
+        segments.push({ kind: 'wildcard' });
+      } else if (/^-?\d+$/.test(inner)) {
+        segments.push({ kind: 'index', index: parseInt(inner, 10) });
+      } else if (/^(['"]).*\1$/.test(inner)) {
+        segments.push({ kind: 'child', name: inner.slice(1, -1) });
+      } else if (inner.startsWith('?')) {
+        segments.push(parseFilter(inner.slice(1), path));
+      } else {
+        throw new Error(`Unsupported JSONPath selector [${inner}]: ${path}`);
+      }
+    } else {
+      throw new Error(`Invalid JSONPath character '${char}' at position ${i}: ${path}`);
+    }
+  }
+
+  return segments;
+}
+
+function collectDescendants(value: any, name: string | '*', results: any[]): void {
+  if (value === null || typeof value !== 'object') {
+    return;
+  }
+  for (const [key, child] of Object.entries(value)) {
+    if (name === '*' || key === name) {
+      results.push(child);
+    }
+    collectDescendants(child, name, results);
+  }
+}
+
+function compare(left: any, operator: ComparisonOperator, right: any): boolean {
+  if (operator === '==') {
+    return left === right;
+  }
+  if (operator === '!=') {
+    return left !== right;
+  }
+  // Ordering only applies to two numbers or two strings
+  if (typeof left !== typeof right || (typeof left !== 'number' && typeof left !== 'string')) {
+    return false;
+  }
+  switch (operator) {
+    case '<':
+      return left < right;
+    case '<=':
+      return left <= right;
+    case '>':
+      return left > right;
+    case '>=':
+      return left >= right;
+  }
+}
+
+function matchesFilter(value: any, filter: Extract<PathSegment, { kind: 'filter' }>): boolean {
+  const values = evaluateSegments(value, filter.path);
+  if (!filter.operator) {
+    return values.length > 0;
+  }
+  return values.some(candidate => compare(candidate, filter.operator!, filter.value));
+}
+
+function evaluateSegments(document: any, segments: PathSegment[]): any[] {
+  let current: any[] = [document];
+
+  for (const segment of segments) {
+    const next: any[] = [];
+    for (const value of current) {
+      if (value === null || value === undefined) {
+        continue;
+      }
+      switch (segment.kind) {
+        case 'child':
+          if (typeof value === 'object' && segment.name in value) {
+            next.push(value[segment.name]);
+          }
+          break;
+        case 'index':
+          if (Array.isArray(value)) {
+            const index = segment.index < 0 ? value.length + segment.index : segment.index;
+            if (index >= 0 && index < value.length) {
+              next.push(value[index]);
+            }
+          }
+          break;
+        case 'wildcard':
+          if (typeof value === 'object') {
+            next.push(...Object.values(value));
+          }
+          break;
+        case 'descendant':
+          collectDescendants(value, segment.name, next);
+          break;
+        case 'filter':
+          if (typeof value === 'object') {
+            next.push(...Object.values(value).filter(child => matchesFilter(child, segment)));
+          }
+          break;
+      }
+    }
+    current = next;
+  }
+
+  return current;
+}
+
+/**
+ * Evaluate a JSONPath expression and return every matching value
+ */
+export function queryJsonPath(document: any, path: string): any[] {
+  return evaluateSegments(document, parseJsonPath(path));
+}
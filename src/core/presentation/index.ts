@@ -0,0 +1,28 @@
+/**
+ * Presentation Module - Barrel Export
+ *
+ * This module provides helpers for creating and verifying W3C Verifiable
+ * Presentations bound to a verifier challenge and domain.
+ *
+ * @example
+ * ```typescript
+ * const vp = await userAgent.createPresentation([credential], { challenge, domain })
+ * const result = await serviceAgent.verifyPresentation(vp, { challenge, domain })
+ * ```
+ */
+
+export {
+  getPresentationJwt,
+  decodePresentationJwt,
+  checkPresentationBinding,
+  normalizeEmbeddedCredential,
+  getEmbeddedCredentials
+} from './utils.js';
+
+export type {
+  PresentationOptions,
+  PresentationVerificationOptions,
+  PresentationVerificationResult,
+  PresentedCredentialResult,
+  PresentationJwtPayload
+} from './types.js';
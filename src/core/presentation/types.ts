@@ -0,0 +1,66 @@
+/**
+ * Verifiable Presentation Types
+ *
+ * Defines options and results for creating and verifying W3C Verifiable
+ * Presentations bound to a verifier challenge and domain.
+ */
+
+import { ValidationResult } from '../../types';
+
+export interface PresentationOptions {
+  /** Holder DID that signs the presentation (defaults to the agent's primary DID where available) */
+  holder?: string;
+  /** Verifier-supplied nonce the presentation is bound to */
+  challenge: string;
+  /** Verifier domain (audience) the presentation is bound to */
+  domain: string;
+  /** Additional presentation types besides VerifiablePresentation */
+  type?: string[];
+  /** Presentation lifetime in seconds */
+  expiresIn?: number;
+}
+
+export interface PresentationVerificationOptions {
+  /** Challenge the verifier issued to the holder */
+  challenge: string;
+  /** Domain the verifier expects the presentation to be bound to */
+  domain: string;
+  /** Expected holder DID (optional) */
+  holder?: string;
+  /** Whether to verify each embedded credential (default: true) */
+  verifyCredentials?: boolean;
+  /** Accept embedded credentials whose subject is not the holder (default: false) */
+  allowThirdPartyCredentials?: boolean;
+}
+
+export interface PresentedCredentialResult {
+  credentialId: string;
+  result: ValidationResult;
+}
+
+export interface PresentationVerificationResult extends ValidationResult {
+  /** Holder DID that signed the presentation */
+  holder?: string;
+  /** Per-credential verification results */
+  credentialResults: PresentedCredentialResult[];
+}
+
+/**
+ * Claims carried by a JWT encoded presentation (VC-JWT)
+ */
+export interface PresentationJwtPayload {
+  iss: string;
+  aud?: string | string[];
+  nonce?: string;
+  iat?: number;
+  nbf?: number;
+  exp?: number;
+  jti?: string;
+  vp: {
+    '@context'?: string[];
+    type?: string[];
+    verifiableCredential?: Array<string | Record<string, any>>;
+    [key: string]: any;
+  };
+  [key: string]: any;
+}
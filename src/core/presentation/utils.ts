@@ -0,0 +1,117 @@
+/**
+ * Verifiable Presentation Utilities
+ *
+ * Helpers for decoding JWT presentations, checking verifier binding
+ * (challenge / domain / holder) and normalizing embedded credentials.
+ */
+
+import { decodeJWT } from 'did-jwt';
+import { VerifiableCredential, VerifiablePresentation } from '../../types';
+import { PresentationJwtPayload, PresentationVerificationOptions } from './types';
+
+/**
+ * Extract the JWT from a presentation object or return the input if it is already a JWT
+ */
+export function getPresentationJwt(presentation: VerifiablePresentation | string): string | null {
+  if (typeof presentation === 'string') {
+    return presentation;
+  }
+  const proof = (presentation as any)?.proof;
+  if (proof && typeof proof.jwt === 'string') {
+    return proof.jwt;
+  }
+  return null;
+}
+
+/**
+ * Decode a JWT encoded presentation without verifying its signature
+ */
+export function decodePresentationJwt(jwt: string): { header: Record<string, any>; payload: PresentationJwtPayload } {
+  const decoded = decodeJWT(jwt);
+  const payload = decoded.payload as PresentationJwtPayload;
+  if (!payload.vp) {
+    throw new Error('JWT does not contain a verifiable presentation (missing vp claim)');
+  }
+  return { header: decoded.header, payload };
+}
+
+/**
+ * Check that a decoded presentation is bound to the expected challenge, domain and holder
+ * @returns list of binding errors (empty when the binding is valid)
+ */
+export function checkPresentationBinding(
+  payload: PresentationJwtPayload,
+  options: PresentationVerificationOptions
+): string[] {
+  const errors: string[] = [];
+
+  if (!payload.iss) {
+    errors.push('Presentation has no holder (iss)');
+  } else if (options.holder && payload.iss !== options.holder) {
+    errors.push(`Presentation holder mismatch: expected ${options.holder}, got ${payload.iss}`);
+  }
+
+  if (payload.vp?.holder && payload.iss && payload.vp.holder !== payload.iss) {
+    errors.push('Presentation holder does not match the signing DID');
+  }
+
+  if (payload.nonce !== options.challenge) {
+    errors.push('Presentation challenge (nonce) does not match');
+  }
+
+  const audience = payload.aud === undefined ? [] : Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+  if (!audience.includes(options.domain)) {
+    errors.push('Presentation domain (aud) does not match');
+  }
+
+  if (payload.exp && Date.now() > payload.exp * 1000) {
+    errors.push('Presentation has expired');
+  }
+
+  return errors;
+}
+
+/**
+ * Normalize an embedded credential (object or VC-JWT string) into the SDK credential shape
+ */
+export function normalizeEmbeddedCredential(entry: string | Record<string, any>): VerifiableCredential {
+  if (typeof entry !== 'string') {
+    return entry as VerifiableCredential;
+  }
+
+  const { payload } = decodeJWT(entry);
+  const vc = (payload as any).vc || {};
+  const credentialSubject = { ...(vc.credentialSubject || {}) };
+  if (payload.sub && !credentialSubject.id) {
+    credentialSubject.id = payload.sub;
+  }
+
+  return {
+    ...vc,
+    '@context': vc['@context'] || ['https://www.w3.org/2018/credentials/v1'],
+    id: vc.id || (payload as any).jti || '',
+    type: vc.type || ['VerifiableCredential'],
+    issuer: payload.iss || vc.issuer,
+    validFrom: vc.validFrom || (payload.nbf ? new Date(payload.nbf * 1000).toISOString() : new Date().toISOString()),
+    validUntil: vc.validUntil || (payload.exp ? new Date(payload.exp * 1000).toISOString() : undefined),
+    credentialSubject,
+    proof: {
+      type: 'JsonWebSignature2020',
+      jwt: entry
+    }
+  };
+}
+
+/**
+ * Return the embedded credentials of a presentation, normalized to the SDK shape
+ */
+export function getEmbeddedCredentials(
+  presentation: VerifiablePresentation | PresentationJwtPayload['vp']
+): VerifiableCredential[] {
+  const embedded = (presentation as any)?.verifiableCredential;
+  if (!embedded) {
+    return [];
+  }
+  const list = Array.isArray(embedded) ? embedded : [embedded];
+  return list.map(normalizeEmbeddedCredential);
+}
@@ -177,6 +177,7 @@ export class DIDLinkedResourceClientImpl implements DIDLinkedResourceClient {
         resourceUrl: `${this.options.endpoint}/resources/${resourceId}`,
         createdAt: new Date().toISOString(),
         metadata: params.metadata,
+        data: resourceData,
         visibility: params.visibility || ResourceVisibility.PRIVATE, // Default to private
         sharedWith: params.sharedWith
       };
@@ -221,6 +222,7 @@ export class DIDLinkedResourceClientImpl implements DIDLinkedResourceClient {
       const updatedResource: ResourceMetadata = {
         ...existingResource,
         ...updates,
+        ...(resourceData !== undefined ? { data: resourceData } : {}),
         updatedAt: new Date().toISOString(),
         metadata: {
           ...existingResource.metadata,
@@ -54,6 +54,8 @@ export interface ResourceMetadata {
   updatedAt?: string;
   /** Additional metadata */
   metadata?: Record<string, any>;
+  /** Resource content */
+  data?: any;
   /** Resource visibility level */
   visibility: ResourceVisibility;
   /** For SHARED visibility, list of DIDs that can access this resource */
@@ -0,0 +1,81 @@
+/**
+ * Bitstring Status List encoding
+ *
+ * Bits are numbered from the left: index 0 is the most significant bit of the
+ * first byte. `encodedList` is the GZIP-compressed bitstring, base64url encoded
+ * without padding and prefixed with the `u` multibase header.
+ *
+ * @see https://www.w3.org/TR/vc-bitstring-status-list/
+ */
+
+import { gunzipSync, gzipSync } from 'zlib';
+
+/** Minimum list length (16KB of bits), so a single index does not identify its holder */
+export const MIN_STATUS_LIST_LENGTH = 131072;
+
+/** Multibase header for base64url without padding */
+const BASE64URL_MULTIBASE_PREFIX = 'u';
+
+/**
+ * Create an all-zero bitstring of the given length in bits
+ */
+export function createBitstring(length: number): Uint8Array {
+  if (!Number.isInteger(length) || length <= 0 || length % 8 !== 0) {
+    throw new Error('Bitstring length must be a positive multiple of 8');
+  }
+  return new Uint8Array(length / 8);
+}
+
+/**
+ * Read the bit at the given index
+ */
+export function getBit(bitstring: Uint8Array, index: number): boolean {
+  assertIndex(bitstring, index);
+  return (bitstring[index >> 3] & (0x80 >> (index & 7))) !== 0;
+}
+
+/**
+ * Set or clear the bit at the given index
+ */
+export function setBit(bitstring: Uint8Array, index: number, value: boolean): void {
+  assertIndex(bitstring, index);
+  const mask = 0x80 >> (index & 7);
+  bitstring[index >> 3] = value ? bitstring[index >> 3] | mask : bitstring[index >> 3] & ~mask;
+}
+
+/**
+ * Compress and encode a bitstring as a Bitstring Status List `encodedList`
+ */
+export function encodeBitstring(bitstring: Uint8Array): string {
+  return BASE64URL_MULTIBASE_PREFIX + Buffer.from(gzipSync(bitstring)).toString('base64url');
+}
+
+/**
+ * Decode and decompress a Bitstring Status List `encodedList`. Lists without the
+ * multibase header (Status List 2021) are read as plain base64url.
+ */
+export function decodeBitstring(encodedList: string): Uint8Array {
+  const encoded = encodedList.startsWith(BASE64URL_MULTIBASE_PREFIX) ? encodedList.slice(1) : encodedList;
+  const compressed = Buffer.from(encoded.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, ''), 'base64url');
+  return new Uint8Array(gunzipSync(compressed));
+}
+
+/**
+ * Read the `statusSize`-bit status value of entry `index`, most significant bit first
+ */
+export function getStatusValue(bitstring: Uint8Array, index: number, statusSize = 1): number {
+  if (!Number.isInteger(statusSize) || statusSize < 1 || statusSize > 8) {
+    throw new RangeError(`Unsupported statusSize ${statusSize}`);
+  }
+  let value = 0;
+  for (let bit = 0; bit < statusSize; bit++) {
+    value = (value << 1) | (getBit(bitstring, index * statusSize + bit) ? 1 : 0);
+  }
+  return value;
+}
+
+function assertIndex(bitstring: Uint8Array, index: number): void {
+  if (!Number.isInteger(index) || index < 0 || index >= bitstring.length * 8) {
+    throw new RangeError(`Status list index ${index} is out of range`);
+  }
+}
@@ -7,6 +7,8 @@
  * @implements ADR-0003: Credential Revocation Checking
  */
 
+import type { BitstringStatusPurpose } from './types';
+
 export interface RevocationMetadata {
   issuerDID: string;
   revokedDate: string;
@@ -28,6 +30,18 @@ export interface RevocationStatus {
   lastChecked: string;
   source: string;
   metadata?: RevocationMetadata;
+  /** Set when a `suspension` status list entry is set */
+  isSuspended?: boolean;
+  /** Status list purpose that determined the status */
+  statusPurpose?: BitstringStatusPurpose;
+  /** Message of a `message` purpose entry, or of a multi-bit status */
+  statusMessage?: string;
+  /** Checked against stored status list snapshots without fetching */
+  offline?: boolean;
+  /** A status list used was past its freshness lifetime */
+  stale?: boolean;
+  /** When the oldest status list used was fetched */
+  statusListFetchedAt?: string;
 }
 
 export interface ValidationResult {
@@ -57,6 +71,8 @@ export interface RevocationProvider {
   checkRevocation(credentialId: string): Promise<boolean>;
   getMetadata(credentialId: string): Promise<RevocationMetadata | null>;
   isAvailable(): Promise<boolean>;
+  /** Full status of a credential, for providers that read its `credentialStatus` */
+  getRevocationStatus?(credential: any): Promise<RevocationStatus>;
 }
 
 export interface BatchRevocationResult {
@@ -202,20 +218,47 @@ export class RevocationClient {
     }
 
     // Check revocation status
-    const revocationStatus = await this.checkRevocationStatus(credential.id);
+    let revocationStatus = await this.checkRevocationStatus(credential.id);
+    if (!revocationStatus.isRevoked && credential.credentialStatus) {
+      revocationStatus = await this.checkCredentialStatus(credential, revocationStatus, errors);
+    }
     
     if (revocationStatus.isRevoked) {
       warnings.push('Credential has been revoked');
     }
+    if (revocationStatus.isSuspended) {
+      warnings.push('Credential is suspended');
+    }
 
     return {
-      isValid: errors.length === 0 && !revocationStatus.isRevoked,
+      isValid: errors.length === 0 && !revocationStatus.isRevoked && !revocationStatus.isSuspended,
       revocationStatus,
       validationErrors: errors,
       warnings
     };
   }
 
+  /**
+   * Read the credential's own status entries through providers that support them
+   */
+  private async checkCredentialStatus(
+    credential: any,
+    fallback: RevocationStatus,
+    errors: string[]
+  ): Promise<RevocationStatus> {
+    for (const [providerName, provider] of this.providers) {
+      if (!provider.getRevocationStatus || !(await provider.isAvailable())) {
+        continue;
+      }
+      try {
+        return await provider.getRevocationStatus(credential);
+      } catch (error) {
+        errors.push(`Status check with ${providerName} failed: ${(error as Error).message}`);
+      }
+    }
+    return fallback;
+  }
+
   /**
    * Import revocation list
    */
@@ -16,6 +16,23 @@
 // Re-export the main client class
 export { RevocationClient } from './client'
 
+// Issuer-side Bitstring Status List management
+export { StatusListService, DIDLinkedResourceStatusListPublisher, SecureStorageStatusListStore } from './status-list-service'
+export { MIN_STATUS_LIST_LENGTH } from './bitstring'
+
+// Verifier-side Bitstring Status List checks
+export { StatusListProvider } from './status-list-provider'
+export type { StatusListProviderOptions, StatusCheckOptions } from './status-list-provider'
+export { StatusListCache, SecureStorageSnapshotStore } from './status-list-cache'
+export type {
+  StatusListFetch,
+  StatusListSnapshot,
+  StatusListSnapshotStore,
+  StatusListCacheOptions,
+  CachedStatusList
+} from './status-list-cache'
+export { StatusListError, StatusListErrorCode } from './types'
+
 // Re-export public types and interfaces
 export type {
   RevocationMetadata,
@@ -23,5 +40,17 @@ export type {
   RevocationStatus,
   ValidationResult,
   RevocationList,
-  RevocationProvider
+  RevocationProvider,
+  StatusPurpose,
+  BitstringStatusPurpose,
+  StatusMessage,
+  BitstringStatusListEntry,
+  BitstringStatusResult,
+  StatusListRecord,
+  StatusListSigner,
+  StatusListPublisher,
+  StatusListServiceOptions,
+  StatusListStore,
+  StoredStatusList,
+  CreateStatusListOptions
 } from './types' 
\ No newline at end of file
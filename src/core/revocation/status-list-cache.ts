@@ -0,0 +1,227 @@
+/**
+ * Status List Cache
+ *
+ * Caches status list credentials by URL so that checking many credentials
+ * against the same list costs one request. Freshness follows the list
+ * credential's `ttl` and `validUntil` and the response's `Cache-Control`;
+ * expired entries are revalidated with `If-None-Match` when the server sent an
+ * `ETag`. Snapshots can be persisted so status checks keep working offline.
+ */
+
+import type { SecureStorage } from '../../types';
+import { StatusListError, StatusListErrorCode } from './types';
+
+export type StatusListFetch = (url: string, init?: RequestInit) => Promise<Response>;
+
+/** Last known copy of a status list credential */
+export interface StatusListSnapshot {
+  url: string;
+  /** Response body as received: a JSON credential or a compact JWT */
+  body: string;
+  etag?: string;
+  /** When the list was last fetched or revalidated */
+  fetchedAt: string;
+  /** When the snapshot stops being fresh */
+  expiresAt: string;
+}
+
+export interface StatusListSnapshotStore {
+  get(url: string): Promise<StatusListSnapshot | null>;
+  set(snapshot: StatusListSnapshot): Promise<void>;
+  delete(url: string): Promise<void>;
+}
+
+export interface StatusListCacheOptions {
+  /** Persists snapshots for offline use; snapshots are kept in memory only by default */
+  store?: StatusListSnapshotStore;
+  /** Freshness in milliseconds when neither the list nor the response sets one; defaults to 5 minutes */
+  defaultTtl?: number;
+  /** Defaults to the global fetch */
+  fetch?: StatusListFetch;
+}
+
+export interface CachedStatusList {
+  body: string;
+  fetchedAt: string;
+  /** The snapshot is past its freshness lifetime (offline reads only) */
+  stale: boolean;
+}
+
+const DEFAULT_TTL = 5 * 60 * 1000;
+
+export class StatusListCache {
+  private snapshots: Map<string, StatusListSnapshot> = new Map();
+  private inflight: Map<string, Promise<StatusListSnapshot>> = new Map();
+  private defaultTtl: number;
+
+  constructor(private options: StatusListCacheOptions = {}) {
+    this.defaultTtl = options.defaultTtl ?? DEFAULT_TTL;
+  }
+
+  /**
+   * Get a status list credential, fetching or revalidating it when the cached copy is not fresh.
+   * Offline reads return the last known snapshot without touching the network.
+   */
+  async get(url: string, options: { offline?: boolean } = {}): Promise<CachedStatusList> {
+    const snapshot = await this.getSnapshot(url);
+
+    if (options.offline) {
+      if (!snapshot) {
+        throw new StatusListError(
+          StatusListErrorCode.STATUS_RETRIEVAL_ERROR,
+          `No stored snapshot of status list ${url} is available offline`
+        );
+      }
+      return { body: snapshot.body, fetchedAt: snapshot.fetchedAt, stale: Date.now() >= Date.parse(snapshot.expiresAt) };
+    }
+
+    if (snapshot && Date.now() < Date.parse(snapshot.expiresAt)) {
+      return { body: snapshot.body, fetchedAt: snapshot.fetchedAt, stale: false };
+    }
+
+    // Concurrent checks against the same list share one request
+    let pending = this.inflight.get(url);
+    if (!pending) {
+      pending = this.fetchSnapshot(url, snapshot).finally(() => this.inflight.delete(url));
+      this.inflight.set(url, pending);
+    }
+    const fresh = await pending;
+    return { body: fresh.body, fetchedAt: fresh.fetchedAt, stale: false };
+  }
+
+  /**
+   * Last known snapshot of a list, from memory or the persistent store
+   */
+  async getSnapshot(url: string): Promise<StatusListSnapshot | null> {
+    const cached = this.snapshots.get(url);
+    if (cached) {
+      return cached;
+    }
+    const stored = await this.options.store?.get(url);
+    if (stored) {
+      this.snapshots.set(url, stored);
+    }
+    return stored || null;
+  }
+
+  /**
+   * Drop one list, or every list, from the cache and the persistent store
+   */
+  async clear(url?: string): Promise<void> {
+    const urls = url ? [url] : Array.from(this.snapshots.keys());
+    for (const item of urls) {
+      this.snapshots.delete(item);
+      await this.options.store?.delete(item);
+    }
+  }
+
+  private async fetchSnapshot(url: string, previous: StatusListSnapshot | null): Promise<StatusListSnapshot> {
+    const headers: Record<string, string> = {};
+    if (previous?.etag) {
+      headers['If-None-Match'] = previous.etag;
+    }
+
+    let res: Response;
+    try {
+      res = await (this.options.fetch || fetch)(url, { headers });
+    } catch (err) {
+      throw new StatusListError(
+        StatusListErrorCode.STATUS_RETRIEVAL_ERROR,
+        `Failed to fetch status list credential ${url}: ${(err as Error).message}`
+      );
+    }
+
+    let body: string;
+    if (res.status === 304 && previous) {
+      body = previous.body;
+    } else if (res.ok) {
+      body = (await res.text()).trim();
+    } else {
+      throw new StatusListError(
+        StatusListErrorCode.STATUS_RETRIEVAL_ERROR,
+        `Failed to fetch status list credential ${url}: HTTP ${res.status}`
+      );
+    }
+
+    const fetchedAt = Date.now();
+    const cacheControl = res.headers?.get('cache-control') || '';
+    const snapshot: StatusListSnapshot = {
+      url,
+      body,
+      etag: res.headers?.get('etag') || previous?.etag || undefined,
+      fetchedAt: new Date(fetchedAt).toISOString(),
+      expiresAt: new Date(this.computeExpiry(body, cacheControl, fetchedAt)).toISOString()
+    };
+
+    if (/\bno-store\b/i.test(cacheControl)) {
+      await this.clear(url);
+    } else {
+      this.snapshots.set(url, snapshot);
+      await this.options.store?.set(snapshot);
+    }
+    return snapshot;
+  }
+
+  /**
+   * The earliest of: Cache-Control max-age (or the list's `ttl`, else the default TTL)
+   * and the list credential's `validUntil`
+   */
+  private computeExpiry(body: string, cacheControl: string, fetchedAt: number): number {
+    const credential = this.parseCredential(body);
+    const maxAge = /\bmax-age=(\d+)/i.exec(cacheControl);
+    const listTtl = Number(credential?.credentialSubject?.ttl);
+
+    let ttl = this.defaultTtl;
+    if (/\bno-cache\b/i.test(cacheControl)) {
+      ttl = 0;
+    } else if (maxAge) {
+      ttl = Number(maxAge[1]) * 1000;
+    } else if (Number.isFinite(listTtl) && listTtl >= 0) {
+      ttl = listTtl;
+    }
+
+    const validUntil = Date.parse(credential?.validUntil || credential?.expirationDate || '');
+    return Number.isNaN(validUntil) ? fetchedAt + ttl : Math.min(fetchedAt + ttl, validUntil);
+  }
+
+  /**
+   * Read caching hints from the credential without verifying it
+   */
+  private parseCredential(body: string): Record<string, any> | undefined {
+    try {
+      if (body.startsWith('{')) {
+        return JSON.parse(body);
+      }
+      const payload = JSON.parse(Buffer.from(body.split('.')[1], 'base64url').toString('utf-8'));
+      return {
+        ...(payload.vc || {}),
+        validUntil: payload.vc?.validUntil || (payload.exp ? new Date(payload.exp * 1000).toISOString() : undefined)
+      };
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Persists status list snapshots in an agent's encrypted secure storage
+ */
+export class SecureStorageSnapshotStore implements StatusListSnapshotStore {
+  constructor(
+    private storage: SecureStorage,
+    private prefix = 'status-list-snapshot:'
+  ) {}
+
+  async get(url: string): Promise<StatusListSnapshot | null> {
+    const data = await this.storage.retrieveKey(this.prefix + url);
+    return data ? JSON.parse(Buffer.from(data).toString('utf-8')) : null;
+  }
+
+  async set(snapshot: StatusListSnapshot): Promise<void> {
+    await this.storage.storeKey(this.prefix + snapshot.url, new Uint8Array(Buffer.from(JSON.stringify(snapshot), 'utf-8')));
+  }
+
+  async delete(url: string): Promise<void> {
+    await this.storage.deleteKey(this.prefix + url);
+  }
+}
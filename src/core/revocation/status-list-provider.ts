@@ -1,77 +1,339 @@
-import type { RevocationProvider, RevocationMetadata } from './client';
+import type { Resolvable } from 'did-resolver';
+import { Resolver } from 'did-resolver';
+import { getDidKeyResolver } from '@veramo/did-provider-key';
+import { verifyJWT } from 'did-jwt';
+import type { RevocationProvider, RevocationMetadata, RevocationStatus } from './client';
+import { DataIntegrityClient } from '../data-integrity/client';
+import { EDDSA_CRYPTOSUITES, EdDSACryptosuite } from '../data-integrity/types';
+import { decodeBitstring, getStatusValue } from './bitstring';
+import { StatusListCache, StatusListFetch } from './status-list-cache';
+import {
+  BitstringStatusListEntry,
+  BitstringStatusResult,
+  StatusListError,
+  StatusListErrorCode
+} from './types';
+
+export interface StatusListProviderOptions {
+  /** Resolves the issuer DID of status list credentials; defaults to did:key only */
+  resolver?: Resolvable;
+  /** Defaults to the global fetch; ignored when a cache is given */
+  fetch?: StatusListFetch;
+  /** Defaults to an in-memory cache */
+  cache?: StatusListCache;
+  /** Check against stored snapshots only, never fetching */
+  offline?: boolean;
+}
+
+export interface StatusCheckOptions {
+  /** Overrides the provider's offline mode for this check */
+  offline?: boolean;
+}
+
+interface VerifiedStatusList {
+  issuer: string;
+  validFrom?: string;
+  validUntil?: string;
+  credentialSubject: Record<string, any>;
+}
+
+interface LoadedStatusList extends VerifiedStatusList {
+  fetchedAt: string;
+  stale: boolean;
+}
 
 /**
- * StatusListProvider for W3C Status List 2021/2022
- * Checks revocation status using status list credentials (bitstring/encoded)
+ * StatusListProvider for W3C Bitstring Status List v1.0
+ * Reads credential status from signed, GZIP-compressed status list credentials.
+ * Single-bit Status List 2021 lists, without the multibase header, are read as well.
  */
 export class StatusListProvider implements RevocationProvider {
   name = 'status-list';
-  description = 'W3C Status List 2021/2022 provider';
+  description = 'W3C Bitstring Status List v1.0 provider';
+
+  private resolver: Resolvable;
+  private cache: StatusListCache;
+  private offline: boolean;
+  /** Verified list credentials, reused while the cached body is unchanged */
+  private verified: Map<string, { body: string; list: VerifiedStatusList }> = new Map();
+
+  constructor(options: StatusListProviderOptions = {}) {
+    this.resolver = options.resolver || new Resolver({ ...getDidKeyResolver() });
+    this.cache = options.cache || new StatusListCache({ fetch: options.fetch });
+    this.offline = options.offline ?? false;
+  }
 
   async isAvailable(): Promise<boolean> {
     return true; // Always available if fetch is available
   }
 
   /**
-   * Checks revocation status for a credential using its status list entry
-   * @param credentialOrId - The credential object (must have .status) or just the credentialId (unsupported)
+   * Checks whether a credential is revoked through its `revocation` status entries
+   * @param credentialOrId - The credential object (must have credentialStatus) or just the credentialId (unsupported)
    */
   async checkRevocation(credentialOrId: any): Promise<boolean> {
-    // Accepts either the credential object or the credentialId (if only id, cannot check)
+    const status = await this.getRevocationStatus(this.requireCredential(credentialOrId));
+    return status.isRevoked;
+  }
+
+  /**
+   * Returns revocation metadata for revoked or suspended credentials
+   */
+  async getMetadata(credentialOrId: any): Promise<RevocationMetadata | null> {
     const credential = typeof credentialOrId === 'object' ? credentialOrId : null;
-    if (!credential || !credential.status) {
-      throw new Error('StatusListProvider requires the full credential with a status property');
-    }
-    const status = credential.status;
-    // Support both array and object for status
-    const statusEntry = Array.isArray(status)
-      ? status.find((s) => s.statusListCredential && s.statusListIndex)
-      : status;
-    if (!statusEntry || !statusEntry.statusListCredential || statusEntry.statusListIndex == null) {
-      throw new Error('Credential missing statusListCredential or statusListIndex');
+    if (!credential) {
+      return null;
     }
-    const listUrl = statusEntry.statusListCredential;
-    const index = parseInt(statusEntry.statusListIndex, 10);
-    if (isNaN(index)) throw new Error('Invalid statusListIndex');
+    const status = await this.getRevocationStatus(credential);
+    return status.metadata || null;
+  }
+
+  /**
+   * Status of a credential across all of its status list entries
+   */
+  async getRevocationStatus(credential: any, options: StatusCheckOptions = {}): Promise<RevocationStatus> {
+    const offline = options.offline ?? this.offline;
+    const results = await this.checkStatus(credential, { offline });
+    const revoked = results.find(result => result.statusPurpose === 'revocation' && result.status !== 0);
+    const suspended = results.find(result => result.statusPurpose === 'suspension' && result.status !== 0);
+    const message = results.find(result => result.message !== undefined);
+    const decisive = revoked || suspended || message;
 
-    // Fetch the status list VC
-    const res = await fetch(listUrl);
-    if (!res.ok) throw new Error(`Failed to fetch status list VC: ${res.status}`);
-    const statusListVc = await res.json();
+    const status: RevocationStatus = {
+      isRevoked: !!revoked,
+      isSuspended: !!suspended,
+      lastChecked: new Date().toISOString(),
+      source: this.name,
+      statusPurpose: decisive?.statusPurpose,
+      statusMessage: message?.message,
+      offline,
+      stale: results.some(result => result.stale),
+      statusListFetchedAt: results.map(result => result.listFetchedAt!).sort()[0]
+    };
+    if (revoked || suspended) {
+      status.revokedDate = decisive!.listValidFrom;
+      status.reason = revoked ? 'revoked' : 'suspended';
+      status.metadata = {
+        issuerDID: this.issuerOf(credential),
+        revokedDate: decisive!.listValidFrom || status.lastChecked,
+        reason: status.reason,
+        source: decisive!.statusListCredential,
+        lastChecked: status.lastChecked
+      };
+    }
+    return status;
+  }
 
-    // Find the encoded bitstring
-    const encodedList = statusListVc.credentialSubject?.encodedList;
-    if (!encodedList) throw new Error('Status list VC missing credentialSubject.encodedList');
+  /**
+   * Reads every status list entry of a credential, verifying each status list credential
+   */
+  async checkStatus(credential: any, options: StatusCheckOptions = {}): Promise<BitstringStatusResult[]> {
+    const entries = this.getEntries(this.requireCredential(credential));
+    const issuer = this.issuerOf(credential);
+    const offline = options.offline ?? this.offline;
+    const lists = new Map<string, Promise<LoadedStatusList>>();
 
-    // Decode the bitstring (base64 or base64url)
-    const bitstring = this.decodeStatusList(encodedList);
-    // Check the bit at the given index
-    const isRevoked = bitstring[index] === '1';
-    return isRevoked;
+    const results: BitstringStatusResult[] = [];
+    for (const entry of entries) {
+      if (!lists.has(entry.statusListCredential)) {
+        lists.set(entry.statusListCredential, this.loadStatusList(entry.statusListCredential, offline));
+      }
+      const list = await lists.get(entry.statusListCredential)!;
+      results.push(this.readEntry(entry, list, issuer));
+    }
+    return results;
   }
 
   /**
-   * Optionally returns revocation metadata (not implemented)
+   * Drop cached status lists, e.g. after an issuer announced an update
    */
-  async getMetadata(credentialOrId: any): Promise<RevocationMetadata | null> {
-    return null; // Could be extended to return more info
+  async clearCache(url?: string): Promise<void> {
+    await this.cache.clear(url);
+    if (url) {
+      this.verified.delete(url);
+    } else {
+      this.verified.clear();
+    }
+  }
+
+  private readEntry(entry: BitstringStatusListEntry, list: LoadedStatusList, issuer: string): BitstringStatusResult {
+    if (list.issuer !== issuer) {
+      throw new StatusListError(
+        StatusListErrorCode.STATUS_VERIFICATION_ERROR,
+        `Status list ${entry.statusListCredential} is issued by ${list.issuer}, not by the credential issuer ${issuer}`
+      );
+    }
+
+    const listPurposes = this.toArray<string>(list.credentialSubject.statusPurpose);
+    if (entry.statusPurpose && !listPurposes.includes(entry.statusPurpose)) {
+      throw new StatusListError(
+        StatusListErrorCode.STATUS_VERIFICATION_ERROR,
+        `Status list purpose ${listPurposes.join(', ')} does not match entry purpose ${entry.statusPurpose}`
+      );
+    }
+
+    const index = Number(entry.statusListIndex);
+    if (!/^\d+$/.test(String(entry.statusListIndex))) {
+      throw new StatusListError(StatusListErrorCode.MALFORMED_VALUE_ERROR, 'Invalid statusListIndex');
+    }
+    const statusSize = entry.statusSize ?? 1;
+    if (!Number.isInteger(statusSize) || statusSize < 1) {
+      throw new StatusListError(StatusListErrorCode.MALFORMED_VALUE_ERROR, `Invalid statusSize ${entry.statusSize}`);
+    }
+    if (statusSize > 1 && !Array.isArray(entry.statusMessage)) {
+      throw new StatusListError(StatusListErrorCode.MALFORMED_VALUE_ERROR, 'statusMessage is required when statusSize is greater than 1');
+    }
+
+    let bitstring: Uint8Array;
+    try {
+      bitstring = decodeBitstring(list.credentialSubject.encodedList);
+    } catch {
+      throw new StatusListError(StatusListErrorCode.STATUS_VERIFICATION_ERROR, 'encodedList is not a GZIP-compressed bitstring');
+    }
+    if ((index + 1) * statusSize > bitstring.length * 8) {
+      throw new StatusListError(
+        StatusListErrorCode.STATUS_LIST_LENGTH_ERROR,
+        `Status list ${entry.statusListCredential} is too short for index ${index}`
+      );
+    }
+
+    const status = getStatusValue(bitstring, index, statusSize);
+    const message = entry.statusMessage?.find(candidate => parseInt(candidate.status, 16) === status)?.message;
+
+    return {
+      statusPurpose: entry.statusPurpose || listPurposes[0] as BitstringStatusResult['statusPurpose'],
+      statusListCredential: entry.statusListCredential,
+      statusListIndex: index,
+      status,
+      ...(message !== undefined ? { message } : {}),
+      listValidFrom: list.validFrom,
+      listFetchedAt: list.fetchedAt,
+      stale: list.stale
+    };
   }
 
   /**
-   * Decodes a base64/base64url-encoded status list bitstring to a string of 0s and 1s
+   * Get a status list credential through the cache, verify it unless this body was
+   * verified before, and check its validity period
    */
-  private decodeStatusList(encoded: string): string {
-    // Normalize base64url to base64
-    const b64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
-    // Decode to binary
-    const binary = typeof Buffer !== 'undefined'
-      ? Buffer.from(b64, 'base64')
-      : Uint8Array.from(atob(b64), c => c.charCodeAt(0));
-    // Convert to bitstring
-    let bits = '';
-    for (let i = 0; i < binary.length; i++) {
-      bits += binary[i].toString(2).padStart(8, '0');
-    }
-    return bits;
-  }
-} 
\ No newline at end of file
+  private async loadStatusList(url: string, offline: boolean): Promise<LoadedStatusList> {
+    const { body, fetchedAt, stale } = await this.cache.get(url, { offline });
+
+    let verified = this.verified.get(url);
+    if (!verified || verified.body !== body) {
+      verified = { body, list: await this.verifyStatusList(url, body) };
+      this.verified.set(url, verified);
+    }
+
+    const { validFrom, validUntil } = verified.list;
+    const now = Date.now();
+    if (validFrom && Date.parse(validFrom) > now) {
+      throw new StatusListError(StatusListErrorCode.STATUS_VERIFICATION_ERROR, 'Status list credential is not yet valid');
+    }
+    if (validUntil && Date.parse(validUntil) < now) {
+      throw new StatusListError(StatusListErrorCode.STATUS_VERIFICATION_ERROR, 'Status list credential has expired');
+    }
+
+    return { ...verified.list, fetchedAt, stale };
+  }
+
+  /**
+   * Check a status list credential's proof, type and identifier
+   */
+  private async verifyStatusList(url: string, body: string): Promise<VerifiedStatusList> {
+    const verified = body.startsWith('{') ? await this.verifySecuredCredential(body) : await this.verifyJwtCredential(body);
+    const { credential, issuer } = verified;
+    const invalid = (message: string) => new StatusListError(StatusListErrorCode.STATUS_VERIFICATION_ERROR, message);
+
+    const types = this.toArray<string>(credential.type);
+    if (!types.includes('BitstringStatusListCredential') && !types.includes('StatusList2021Credential')) {
+      throw invalid(`${url} is not a status list credential`);
+    }
+    if (credential.id && credential.id !== url) {
+      throw invalid(`Status list credential id ${credential.id} does not match ${url}`);
+    }
+    if (!credential.credentialSubject?.encodedList) {
+      throw invalid('Status list credential is missing credentialSubject.encodedList');
+    }
+
+    return {
+      issuer,
+      validFrom: credential.validFrom || credential.issuanceDate,
+      validUntil: credential.validUntil || credential.expirationDate,
+      credentialSubject: credential.credentialSubject
+    };
+  }
+
+  private async verifySecuredCredential(body: string): Promise<{ credential: Record<string, any>; issuer: string }> {
+    const invalid = (message: string) => new StatusListError(StatusListErrorCode.STATUS_VERIFICATION_ERROR, message);
+    let credential: Record<string, any>;
+    try {
+      credential = JSON.parse(body);
+    } catch {
+      throw invalid('Status list credential is not valid JSON');
+    }
+
+    const proof = Array.isArray(credential.proof) ? credential.proof[0] : credential.proof;
+    if (proof?.jwt) {
+      return this.verifyJwtCredential(proof.jwt);
+    }
+    if (proof?.type !== 'DataIntegrityProof' || !EDDSA_CRYPTOSUITES.includes(proof.cryptosuite as EdDSACryptosuite)) {
+      throw invalid(`Unsupported status list credential proof: ${proof?.cryptosuite || proof?.type || 'none'}`);
+    }
+
+    const result = await new DataIntegrityClient().verifyProof(credential, { resolver: this.resolver });
+    if (!result.verified) {
+      throw invalid(`Status list credential proof is invalid: ${result.errors.join('; ')}`);
+    }
+    const issuer = this.issuerOf(credential);
+    if (proof.verificationMethod.split('#')[0] !== issuer) {
+      throw invalid('Status list credential is not signed by its issuer');
+    }
+    return { credential, issuer };
+  }
+
+  private async verifyJwtCredential(jwt: string): Promise<{ credential: Record<string, any>; issuer: string }> {
+    try {
+      const { payload, issuer } = await verifyJWT(jwt, { resolver: this.resolver, policies: { aud: false } });
+      const credential = { ...(payload.vc || {}) } as Record<string, any>;
+      credential.id = credential.id || payload.jti;
+      credential.validFrom = credential.validFrom || (payload.nbf ? new Date(payload.nbf * 1000).toISOString() : undefined);
+      credential.validUntil = credential.validUntil || (payload.exp ? new Date(payload.exp * 1000).toISOString() : undefined);
+      return { credential, issuer };
+    } catch (err) {
+      throw new StatusListError(
+        StatusListErrorCode.STATUS_VERIFICATION_ERROR,
+        `Status list credential JWT is invalid: ${(err as Error).message}`
+      );
+    }
+  }
+
+  private getEntries(credential: any): BitstringStatusListEntry[] {
+    // `status` is accepted for credentials written before VC 2.0 named the property
+    const status = credential.credentialStatus ?? credential.status;
+    const entries = this.toArray<BitstringStatusListEntry>(status).filter(entry => entry?.statusListCredential && entry.statusListIndex != null);
+    if (entries.length === 0) {
+      throw new Error('Credential missing statusListCredential or statusListIndex');
+    }
+    return entries;
+  }
+
+  private requireCredential(credentialOrId: any): any {
+    const credential = typeof credentialOrId === 'object' ? credentialOrId : null;
+    if (!credential || !(credential.credentialStatus || credential.status)) {
+      throw new Error('StatusListProvider requires the full credential with a credentialStatus property');
+    }
+    return credential;
+  }
+
+  private toArray<T>(value: T | T[] | undefined): T[] {
+    if (value === undefined || value === null) {
+      return [];
+    }
+    return Array.isArray(value) ? value : [value];
+  }
+
+  private issuerOf(credential: any): string {
+    return typeof credential.issuer === 'string' ? credential.issuer : credential.issuer?.id;
+  }
+}
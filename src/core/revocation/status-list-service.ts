@@ -0,0 +1,359 @@
+/**
+ * Bitstring Status List Service
+ *
+ * Issuer-side management of W3C Bitstring Status Lists: creates status list
+ * credentials, hands out random indices to newly issued credentials, flips bits
+ * to revoke or suspend them, and re-publishes the signed list after each change.
+ * Lists, their bits and the indices handed out are kept in a StatusListStore,
+ * e.g. the agent's secure storage, and read back when the service is first used.
+ *
+ * @see https://www.w3.org/TR/vc-bitstring-status-list/
+ */
+
+import crypto from 'crypto';
+import type { SecureStorage, VerifiableCredential_2_0 } from '../../types';
+import type { DIDLinkedResourceClient } from '../resource/resource-client';
+import { ResourceVisibility } from '../resource/types';
+import { createBitstring, decodeBitstring, encodeBitstring, getBit, MIN_STATUS_LIST_LENGTH, setBit } from './bitstring';
+import {
+  BitstringStatusListEntry,
+  CreateStatusListOptions,
+  StatusListError,
+  StatusListErrorCode,
+  StatusListPublisher,
+  StatusListRecord,
+  StatusListServiceOptions,
+  StatusListStore,
+  StatusPurpose,
+  StoredStatusList
+} from './types';
+
+const STATUS_LIST_CONTEXT = 'https://www.w3.org/ns/credentials/v2';
+
+interface ManagedStatusList {
+  record: StatusListRecord;
+  bitstring: Uint8Array;
+  allocated: Set<number>;
+}
+
+export class StatusListService {
+  private lists: Map<string, ManagedStatusList> = new Map();
+  private loaded?: Promise<void>;
+
+  constructor(private options: StatusListServiceOptions) {}
+
+  /**
+   * Create, sign and publish an empty status list
+   */
+  async createList(options: CreateStatusListOptions): Promise<StatusListRecord> {
+    const length = options.length ?? MIN_STATUS_LIST_LENGTH;
+    if (!Number.isInteger(length) || length <= 0 || length % 8 !== 0) {
+      throw new StatusListError(StatusListErrorCode.INVALID_OPTIONS, 'Status list length must be a positive multiple of 8');
+    }
+
+    await this.load();
+    const id = crypto.randomUUID();
+    const now = new Date().toISOString();
+    const record: StatusListRecord = {
+      id,
+      issuer: options.issuer,
+      url: '',
+      statusPurpose: options.statusPurpose || 'revocation',
+      length,
+      allocated: 0,
+      created: now,
+      updated: now
+    };
+
+    record.url = options.url
+      || (await this.options.publisher?.reserve?.(record))
+      || (this.options.baseUrl ? `${this.options.baseUrl.replace(/\/$/, '')}/${id}` : '');
+    if (!record.url) {
+      throw new StatusListError(
+        StatusListErrorCode.INVALID_OPTIONS,
+        'A status list needs a url, a baseUrl, or a publisher that reserves URLs'
+      );
+    }
+
+    const list: ManagedStatusList = { record, bitstring: createBitstring(length), allocated: new Set() };
+    this.lists.set(id, list);
+    await this.publish(list);
+    await this.save(list);
+
+    return { ...list.record };
+  }
+
+  /**
+   * Allocate an unused random index in the list for a newly issued credential
+   */
+  async allocateEntry(listId: string): Promise<BitstringStatusListEntry> {
+    await this.load();
+    const list = this.getManagedList(listId);
+    if (list.allocated.size >= list.record.length) {
+      throw new StatusListError(StatusListErrorCode.LIST_FULL, `Status list ${listId} has no free indices`);
+    }
+
+    // Random allocation keeps issuance order from being readable off the list
+    let index: number;
+    do {
+      index = crypto.randomInt(list.record.length);
+    } while (list.allocated.has(index));
+
+    list.allocated.add(index);
+    list.record.allocated = list.allocated.size;
+    await this.save(list);
+
+    return {
+      id: `${list.record.url}#${index}`,
+      type: 'BitstringStatusListEntry',
+      statusPurpose: list.record.statusPurpose,
+      statusListIndex: String(index),
+      statusListCredential: list.record.url
+    };
+  }
+
+  /**
+   * Revoke a credential; revocation cannot be undone
+   */
+  async revoke(credentialOrEntry: VerifiableCredential_2_0 | BitstringStatusListEntry): Promise<StatusListRecord> {
+    return this.updateStatus(credentialOrEntry, 'revocation', true);
+  }
+
+  /**
+   * Suspend a credential until it is reinstated
+   */
+  async suspend(credentialOrEntry: VerifiableCredential_2_0 | BitstringStatusListEntry): Promise<StatusListRecord> {
+    return this.updateStatus(credentialOrEntry, 'suspension', true);
+  }
+
+  /**
+   * Lift the suspension of a credential
+   */
+  async reinstate(credentialOrEntry: VerifiableCredential_2_0 | BitstringStatusListEntry): Promise<StatusListRecord> {
+    return this.updateStatus(credentialOrEntry, 'suspension', false);
+  }
+
+  /**
+   * Current value of the bit behind a status entry
+   */
+  async getStatus(entry: BitstringStatusListEntry): Promise<boolean> {
+    await this.load();
+    const { list, index } = this.locate(entry);
+    return getBit(list.bitstring, index);
+  }
+
+  async getList(listId: string): Promise<StatusListRecord | undefined> {
+    await this.load();
+    const list = this.lists.get(listId);
+    return list ? { ...list.record } : undefined;
+  }
+
+  async listLists(): Promise<StatusListRecord[]> {
+    await this.load();
+    return Array.from(this.lists.values()).map(list => ({ ...list.record }));
+  }
+
+  private async updateStatus(
+    credentialOrEntry: VerifiableCredential_2_0 | BitstringStatusListEntry,
+    statusPurpose: StatusPurpose,
+    value: boolean
+  ): Promise<StatusListRecord> {
+    await this.load();
+    const entry = this.findEntry(credentialOrEntry, statusPurpose);
+    const { list, index } = this.locate(entry);
+    if (statusPurpose === 'revocation' && !value && getBit(list.bitstring, index)) {
+      throw new StatusListError(StatusListErrorCode.IRREVERSIBLE_STATUS, 'A revoked credential cannot be reinstated');
+    }
+    if (getBit(list.bitstring, index) === value) {
+      return { ...list.record };
+    }
+
+    setBit(list.bitstring, index, value);
+    await this.publish(list);
+    await this.save(list);
+    return { ...list.record };
+  }
+
+  /**
+   * Read the lists kept in the store, once
+   */
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        for (const stored of (await this.options.store?.list()) || []) {
+          const allocations = decodeBitstring(stored.encodedAllocations);
+          const allocated = new Set<number>();
+          for (let index = 0; index < stored.record.length; index++) {
+            if (getBit(allocations, index)) {
+              allocated.add(index);
+            }
+          }
+          this.lists.set(stored.record.id, { record: stored.record, bitstring: decodeBitstring(stored.encodedList), allocated });
+        }
+      })().catch(err => {
+        this.loaded = undefined;
+        throw err;
+      });
+    }
+    return this.loaded;
+  }
+
+  private async save(list: ManagedStatusList): Promise<void> {
+    if (!this.options.store) {
+      return;
+    }
+    const allocations = createBitstring(list.record.length);
+    list.allocated.forEach(index => setBit(allocations, index, true));
+    await this.options.store.save({
+      record: { ...list.record },
+      encodedList: encodeBitstring(list.bitstring),
+      encodedAllocations: encodeBitstring(allocations)
+    });
+  }
+
+  /**
+   * Pick the status entry for the purpose from a credential, when given one
+   */
+  private findEntry(
+    credentialOrEntry: VerifiableCredential_2_0 | BitstringStatusListEntry,
+    statusPurpose: StatusPurpose
+  ): BitstringStatusListEntry {
+    const candidates: BitstringStatusListEntry[] = credentialOrEntry.type === 'BitstringStatusListEntry'
+      ? [credentialOrEntry as BitstringStatusListEntry]
+      : this.toEntries((credentialOrEntry as VerifiableCredential_2_0).credentialStatus);
+
+    const entry = candidates.find(
+      candidate => candidate?.type === 'BitstringStatusListEntry'
+        && candidate.statusPurpose === statusPurpose
+        && this.findListByUrl(candidate.statusListCredential)
+    );
+    if (!entry) {
+      throw new StatusListError(
+        StatusListErrorCode.STATUS_ENTRY_NOT_FOUND,
+        `No ${statusPurpose} entry in a status list managed by this service`
+      );
+    }
+    return entry;
+  }
+
+  private toEntries(credentialStatus: unknown): BitstringStatusListEntry[] {
+    if (!credentialStatus) {
+      return [];
+    }
+    return (Array.isArray(credentialStatus) ? credentialStatus : [credentialStatus]) as BitstringStatusListEntry[];
+  }
+
+  private locate(entry: BitstringStatusListEntry): { list: ManagedStatusList; index: number } {
+    const list = this.findListByUrl(entry.statusListCredential);
+    if (!list) {
+      throw new StatusListError(StatusListErrorCode.LIST_NOT_FOUND, `Unknown status list ${entry.statusListCredential}`);
+    }
+    const index = Number(entry.statusListIndex);
+    if (!/^\d+$/.test(entry.statusListIndex) || index >= list.record.length) {
+      throw new StatusListError(StatusListErrorCode.INVALID_INDEX, `Invalid statusListIndex ${entry.statusListIndex}`);
+    }
+    return { list, index };
+  }
+
+  private findListByUrl(url: string): ManagedStatusList | undefined {
+    return Array.from(this.lists.values()).find(list => list.record.url === url);
+  }
+
+  private getManagedList(listId: string): ManagedStatusList {
+    const list = this.lists.get(listId);
+    if (!list) {
+      throw new StatusListError(StatusListErrorCode.LIST_NOT_FOUND, `Unknown status list ${listId}`);
+    }
+    return list;
+  }
+
+  /**
+   * Re-encode, sign and publish the status list credential
+   */
+  private async publish(list: ManagedStatusList): Promise<void> {
+    const now = new Date().toISOString();
+    const unsigned: VerifiableCredential_2_0 = {
+      '@context': [STATUS_LIST_CONTEXT],
+      id: list.record.url,
+      type: ['VerifiableCredential', 'BitstringStatusListCredential'],
+      issuer: list.record.issuer,
+      validFrom: now,
+      credentialSubject: {
+        id: `${list.record.url}#list`,
+        type: 'BitstringStatusList',
+        statusPurpose: list.record.statusPurpose,
+        encodedList: encodeBitstring(list.bitstring)
+      }
+    };
+
+    const credential = await this.options.signer(unsigned);
+    await this.options.publisher?.publish(credential, { ...list.record });
+
+    list.record.credential = credential;
+    list.record.updated = now;
+  }
+}
+
+/**
+ * Keeps status lists in an agent's encrypted secure storage
+ */
+export class SecureStorageStatusListStore implements StatusListStore {
+  constructor(
+    private storage: SecureStorage,
+    private prefix = 'status-list:'
+  ) {}
+
+  async list(): Promise<StoredStatusList[]> {
+    const lists = await Promise.all((await this.index()).map(id => this.read(this.prefix + 'list:' + id)));
+    return lists.filter((list): list is StoredStatusList => list !== null);
+  }
+
+  async save(list: StoredStatusList): Promise<void> {
+    await this.write(this.prefix + 'list:' + list.record.id, list);
+    const index = await this.index();
+    if (!index.includes(list.record.id)) {
+      await this.write(this.prefix + 'index', [...index, list.record.id]);
+    }
+  }
+
+  private async index(): Promise<string[]> {
+    return (await this.read(this.prefix + 'index')) || [];
+  }
+
+  private async read(key: string): Promise<any> {
+    const data = await this.storage.retrieveKey(key);
+    return data ? JSON.parse(Buffer.from(data).toString('utf-8')) : null;
+  }
+
+  private async write(key: string, value: unknown): Promise<void> {
+    await this.storage.storeKey(key, new Uint8Array(Buffer.from(JSON.stringify(value), 'utf-8')));
+  }
+}
+
+/**
+ * Publishes status list credentials as public DID-Linked Resources of the issuer DID.
+ * The resource is found again from the list URL, which ends in `/resources/<resourceId>`.
+ */
+export class DIDLinkedResourceStatusListPublisher implements StatusListPublisher {
+  constructor(private client: DIDLinkedResourceClient) {}
+
+  async reserve(list: StatusListRecord): Promise<string> {
+    const resource = await this.client.createResource({
+      did: list.issuer,
+      name: `status-list-${list.id}`,
+      type: 'BitstringStatusListCredential',
+      data: {},
+      visibility: ResourceVisibility.PUBLIC,
+      metadata: { statusPurpose: list.statusPurpose }
+    });
+    return resource.resourceUrl;
+  }
+
+  async publish(credential: VerifiableCredential_2_0, list: StatusListRecord): Promise<void> {
+    const resourceId = /\/resources\/([^/?#]+)$/.exec(list.url)?.[1];
+    if (!resourceId) {
+      throw new StatusListError(StatusListErrorCode.LIST_NOT_FOUND, `No DID-Linked Resource reserved for status list ${list.id}`);
+    }
+    await this.client.updateResource(list.issuer, resourceId, { data: credential });
+  }
+}
@@ -27,6 +27,18 @@ export interface RevocationStatus {
   lastChecked: string
   source: string
   metadata?: RevocationMetadata
+  /** Set when a `suspension` status list entry is set */
+  isSuspended?: boolean
+  /** Status list purpose that determined the status */
+  statusPurpose?: BitstringStatusPurpose
+  /** Message of a `message` purpose entry, or of a multi-bit status */
+  statusMessage?: string
+  /** Checked against stored status list snapshots without fetching */
+  offline?: boolean
+  /** A status list used was past its freshness lifetime */
+  stale?: boolean
+  /** When the oldest status list used was fetched */
+  statusListFetchedAt?: string
 }
 
 export interface ValidationResult {
@@ -56,4 +68,161 @@ export interface RevocationProvider {
   checkRevocation(credentialId: string): Promise<boolean>
   getMetadata(credentialId: string): Promise<RevocationMetadata | null>
   isAvailable(): Promise<boolean>
-} 
\ No newline at end of file
+  /** Full status of a credential, for providers that read its `credentialStatus` */
+  getRevocationStatus?(credential: VerifiableCredential_2_0): Promise<RevocationStatus>
+}
+
+/**
+ * Purposes a single-bit Bitstring Status List entry can serve
+ */
+export type StatusPurpose = 'revocation' | 'suspension'
+
+/**
+ * Purposes defined by Bitstring Status List v1.0
+ */
+export type BitstringStatusPurpose = StatusPurpose | 'message' | 'refresh'
+
+/**
+ * Meaning of one status value of a multi-bit entry, e.g. `{ status: '0x2', message: 'pending' }`
+ */
+export interface StatusMessage {
+  status: string
+  message: string
+}
+
+/**
+ * `credentialStatus` entry pointing at a bit in a Bitstring Status List credential
+ */
+export interface BitstringStatusListEntry {
+  id?: string
+  type: 'BitstringStatusListEntry'
+  statusPurpose: BitstringStatusPurpose
+  /** Entry position, as a base-10 string */
+  statusListIndex: string
+  /** URL of the status list credential */
+  statusListCredential: string
+  /** Bits per entry; defaults to 1 */
+  statusSize?: number
+  /** Required when statusSize is greater than 1 */
+  statusMessage?: StatusMessage[]
+  statusReference?: string | string[]
+}
+
+/**
+ * Status read for one `credentialStatus` entry from a verified status list credential
+ */
+export interface BitstringStatusResult {
+  statusPurpose: BitstringStatusPurpose
+  statusListCredential: string
+  statusListIndex: number
+  /** Status value; for single-bit entries 1 means the status is set */
+  status: number
+  /** Message for the status value, when the entry defines status messages */
+  message?: string
+  /** `validFrom` of the status list credential */
+  listValidFrom?: string
+  /** When the status list credential was fetched or last revalidated */
+  listFetchedAt?: string
+  /** The status list was past its freshness lifetime (offline checks only) */
+  stale?: boolean
+}
+
+/**
+ * Issuer-side view of a managed status list
+ */
+export interface StatusListRecord {
+  /** Local identifier of the list */
+  id: string
+  issuer: string
+  /** URL the status list credential is published at; also its credential id */
+  url: string
+  statusPurpose: StatusPurpose
+  /** Number of entries (bits) in the list */
+  length: number
+  /** Number of indices handed out to credentials */
+  allocated: number
+  created: string
+  updated: string
+  /** Latest signed status list credential */
+  credential?: VerifiableCredential_2_0
+}
+
+/**
+ * Signs an unsigned status list credential, e.g. with a Data Integrity proof
+ */
+export type StatusListSigner = (credential: VerifiableCredential_2_0) => Promise<VerifiableCredential_2_0>
+
+/**
+ * Makes signed status list credentials available to verifiers
+ */
+export interface StatusListPublisher {
+  /** Reserve the URL a new list will be served from, when the publisher assigns URLs */
+  reserve?(list: StatusListRecord): Promise<string>
+  /** Publish, or re-publish, the signed status list credential */
+  publish(credential: VerifiableCredential_2_0, list: StatusListRecord): Promise<void>
+}
+
+/**
+ * A managed status list as the issuer keeps it between restarts
+ */
+export interface StoredStatusList {
+  record: StatusListRecord
+  /** The status bits, GZIP-compressed and multibase-encoded like `encodedList` */
+  encodedList: string
+  /** One bit per index handed out to a credential, encoded the same way */
+  encodedAllocations: string
+}
+
+/**
+ * Keeps the issuer's status lists, so indices are not handed out twice after a restart
+ */
+export interface StatusListStore {
+  list(): Promise<StoredStatusList[]>
+  save(list: StoredStatusList): Promise<void>
+}
+
+export interface StatusListServiceOptions {
+  signer: StatusListSigner
+  publisher?: StatusListPublisher
+  /** Lists are published at `${baseUrl}/${listId}` unless a URL is given or reserved */
+  baseUrl?: string
+  /** Where lists are kept; without one they only live as long as the service */
+  store?: StatusListStore
+}
+
+export interface CreateStatusListOptions {
+  issuer: string
+  /** Defaults to `revocation` */
+  statusPurpose?: StatusPurpose
+  /** Number of entries; defaults to the 131,072 minimum that provides group privacy */
+  length?: number
+  /** Explicit URL for the status list credential */
+  url?: string
+}
+
+export enum StatusListErrorCode {
+  INVALID_OPTIONS = 'INVALID_OPTIONS',
+  LIST_NOT_FOUND = 'LIST_NOT_FOUND',
+  LIST_FULL = 'LIST_FULL',
+  INVALID_INDEX = 'INVALID_INDEX',
+  STATUS_ENTRY_NOT_FOUND = 'STATUS_ENTRY_NOT_FOUND',
+  IRREVERSIBLE_STATUS = 'IRREVERSIBLE_STATUS',
+  // Verifier-side errors, as named by Bitstring Status List v1.0
+  STATUS_RETRIEVAL_ERROR = 'STATUS_RETRIEVAL_ERROR',
+  STATUS_VERIFICATION_ERROR = 'STATUS_VERIFICATION_ERROR',
+  STATUS_LIST_LENGTH_ERROR = 'STATUS_LIST_LENGTH_ERROR',
+  MALFORMED_VALUE_ERROR = 'MALFORMED_VALUE_ERROR'
+}
+
+/**
+ * Status list error carrying a machine readable code
+ */
+export class StatusListError extends Error {
+  constructor(
+    public code: StatusListErrorCode,
+    message: string
+  ) {
+    super(message)
+    this.name = 'StatusListError'
+  }
+}
\ No newline at end of file
@@ -0,0 +1,338 @@
+/**
+ * SD-JWT VC Client
+ *
+ * Issues SD-JWT VCs with selectively disclosable claims, builds holder
+ * presentations with a key-binding JWT, and verifies them on the verifier side.
+ */
+
+import crypto from 'crypto';
+import { createJWS, decodeJWT, verifyJWS } from 'did-jwt';
+import type { VerificationMethod } from 'did-resolver';
+import { CredentialSubject, VerifiableCredential } from '../../types';
+import { resolveVerificationMethods } from '../oid4vci/utils';
+import {
+  Disclosure,
+  IssueSdJwtVcOptions,
+  KB_JWT_TYPE,
+  PresentSdJwtVcOptions,
+  SD_ALG,
+  SD_JWT_VC_TYPE,
+  SdJwtVcVerificationResult,
+  VerifySdJwtVcOptions
+} from './types';
+import {
+  createDisclosure,
+  decodeDisclosure,
+  parseSdJwt,
+  reconstructClaims,
+  sdDigest,
+  serializeSdJwt
+} from './utils';
+
+/** Registered JWT claims that must never be selectively disclosable */
+const NON_DISCLOSABLE_CLAIMS = ['iss', 'nbf', 'exp', 'iat', 'cnf', 'vct', 'status', '_sd', '_sd_alg'];
+
+export class SdJwtVcClient {
+  /**
+   * Issue an SD-JWT VC; the returned compact form carries every disclosure
+   */
+  async issue(options: IssueSdJwtVcOptions): Promise<string> {
+    const claims = JSON.parse(JSON.stringify(options.claims));
+    const disclosures: Disclosure[] = [];
+
+    // Deepest paths first so parent disclosures embed their children's digests
+    const paths = [...new Set(options.disclosable)].sort((a, b) => b.split('.').length - a.split('.').length);
+    for (const path of paths) {
+      const segments = path.split('.');
+      const name = segments.pop()!;
+      if (NON_DISCLOSABLE_CLAIMS.includes(name) && segments.length === 0) {
+        throw new Error(`Claim ${name} cannot be selectively disclosable`);
+      }
+
+      const parent = segments.reduce((node: any, key) => (node && typeof node === 'object' ? node[key] : undefined), claims);
+      if (!parent || typeof parent !== 'object' || !(name in parent)) {
+        throw new Error(`Disclosable claim not found: ${path}`);
+      }
+
+      const disclosure = createDisclosure(name, parent[name]);
+      delete parent[name];
+      parent._sd = [...(parent._sd || []), disclosure.digest];
+      disclosures.push(disclosure);
+    }
+
+    if (options.decoys) {
+      this.addDecoys(claims, options.decoys);
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const payload: Record<string, any> = {
+      ...claims,
+      iss: options.issuer,
+      iat: now,
+      vct: options.vct,
+      _sd_alg: SD_ALG
+    };
+    if (options.validFrom) {
+      payload.nbf = Math.floor(new Date(options.validFrom).getTime() / 1000);
+    }
+    if (options.validUntil) {
+      payload.exp = Math.floor(new Date(options.validUntil).getTime() / 1000);
+    }
+    if (options.holder) {
+      payload.cnf = options.holder;
+    }
+
+    // did-jwt types `typ` as 'JWT' only
+    const header: Record<string, any> = { alg: options.signer.alg, typ: SD_JWT_VC_TYPE, kid: options.signer.kid };
+    const issuerJwt = await createJWS(payload, options.signer.sign, header);
+
+    return serializeSdJwt({ issuerJwt, disclosures: disclosures.map(d => d.encoded) });
+  }
+
+  /**
+   * Decode an SD-JWT VC without verifying it (holder view of the stored credential)
+   */
+  decode(sdJwt: string): { payload: Record<string, any>; claims: Record<string, any>; disclosurePaths: string[] } {
+    const { issuerJwt, disclosures } = parseSdJwt(sdJwt);
+    const { payload } = decodeJWT(issuerJwt);
+    const { claims, pathsByDigest } = reconstructClaims(payload, disclosures.map(decodeDisclosure));
+    return { payload, claims, disclosurePaths: Array.from(pathsByDigest.values()) };
+  }
+
+  /**
+   * Build a presentation revealing only the requested claims, with an optional key-binding JWT
+   */
+  async present(sdJwt: string, options: PresentSdJwtVcOptions): Promise<string> {
+    const { issuerJwt, disclosures: encoded } = parseSdJwt(sdJwt);
+    const { payload } = decodeJWT(issuerJwt);
+    const disclosures = encoded.map(decodeDisclosure);
+    const { pathsByDigest } = reconstructClaims(payload, disclosures);
+
+    const isRelated = (disclosurePath: string, requested: string) =>
+      disclosurePath === requested ||
+      disclosurePath.startsWith(`${requested}.`) ||
+      disclosurePath.startsWith(`${requested}[`) ||
+      requested.startsWith(`${disclosurePath}.`) ||
+      requested.startsWith(`${disclosurePath}[`);
+
+    for (const requested of options.disclose) {
+      if (![...pathsByDigest.values()].some(path => isRelated(path, requested))) {
+        throw new Error(`No disclosure available for claim ${requested}`);
+      }
+    }
+
+    const selected = disclosures
+      .filter(disclosure => options.disclose.some(requested => isRelated(pathsByDigest.get(disclosure.digest)!, requested)))
+      .map(disclosure => disclosure.encoded);
+
+    const presentation = serializeSdJwt({ issuerJwt, disclosures: selected });
+    if (!options.keyBinding) {
+      if (payload.cnf) {
+        throw new Error('Credential is holder-bound; a key-binding JWT is required');
+      }
+      return presentation;
+    }
+
+    const { signer, nonce, audience } = options.keyBinding;
+    const header: Record<string, any> = { alg: signer.alg, typ: KB_JWT_TYPE, kid: signer.kid };
+    const kbJwt = await createJWS(
+      { iat: Math.floor(Date.now() / 1000), aud: audience, nonce, sd_hash: sdDigest(presentation) },
+      signer.sign,
+      header
+    );
+    return presentation + kbJwt;
+  }
+
+  /**
+   * Verify an SD-JWT VC presentation: issuer signature, `_sd_alg`, disclosure digests,
+   * validity period and (when requested or present) the key-binding JWT
+   */
+  async verify(sdJwt: string, options: VerifySdJwtVcOptions): Promise<SdJwtVcVerificationResult> {
+    const errors: string[] = [];
+    const result: SdJwtVcVerificationResult = {
+      isValid: false,
+      errors,
+      claims: {},
+      disclosedClaims: [],
+      keyBindingVerified: false
+    };
+
+    let parts;
+    let header: Record<string, any>;
+    let payload: Record<string, any>;
+    try {
+      parts = parseSdJwt(sdJwt);
+      ({ header, payload } = decodeJWT(parts.issuerJwt));
+    } catch (err) {
+      errors.push(`Malformed SD-JWT: ${(err as Error).message}`);
+      return result;
+    }
+    result.issuer = payload.iss;
+    result.vct = payload.vct;
+
+    if (header.typ !== SD_JWT_VC_TYPE && header.typ !== 'dc+sd-jwt') {
+      errors.push(`Unexpected SD-JWT VC typ: ${header.typ}`);
+    }
+    if (payload._sd_alg !== undefined && payload._sd_alg !== SD_ALG) {
+      errors.push(`Unsupported _sd_alg: ${payload._sd_alg}`);
+    }
+    if (!payload.iss || !payload.vct) {
+      errors.push('SD-JWT VC must contain iss and vct claims');
+    }
+
+    // Issuer signature: a kid must name a key of the issuer DID itself
+    if (payload.iss) {
+      const kid: string | undefined = header.kid?.startsWith('#') ? `${payload.iss}${header.kid}` : header.kid;
+      if (kid && kid.split('#')[0] !== payload.iss) {
+        errors.push(`Issuer key ${kid} does not belong to ${payload.iss}`);
+      } else {
+        const issuerKeys = await resolveVerificationMethods(options.resolver, kid || payload.iss).catch(
+          () => [] as VerificationMethod[]
+        );
+        if (!this.checkSignature(parts.issuerJwt, issuerKeys)) {
+          errors.push('Issuer signature is invalid');
+        }
+      }
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    if (payload.exp && payload.exp < now) {
+      errors.push('SD-JWT VC has expired');
+    }
+    if (payload.nbf && payload.nbf > now) {
+      errors.push('SD-JWT VC is not yet valid');
+    }
+
+    // Disclosures
+    try {
+      if (new Set(parts.disclosures).size !== parts.disclosures.length) {
+        throw new Error('Duplicate disclosures');
+      }
+      const { claims, disclosedPaths } = reconstructClaims(payload, parts.disclosures.map(decodeDisclosure));
+      result.claims = claims;
+      result.disclosedClaims = disclosedPaths;
+    } catch (err) {
+      errors.push(`Invalid disclosures: ${(err as Error).message}`);
+    }
+
+    // Key binding: a holder-bound credential is only presented by the holder
+    const keyBindingRequired = !!payload.cnf || options.nonce !== undefined || options.audience !== undefined;
+    if (parts.kbJwt) {
+      const kbErrors = await this.verifyKeyBinding(parts, payload, options);
+      errors.push(...kbErrors);
+      result.keyBindingVerified = kbErrors.length === 0;
+    } else if (keyBindingRequired) {
+      errors.push('Key-binding JWT is required');
+    }
+
+    result.isValid = errors.length === 0;
+    return result;
+  }
+
+  /**
+   * Convert a stored SD-JWT VC to the SDK credential shape, with every claim the holder can disclose
+   */
+  toCredential(sdJwt: string): VerifiableCredential {
+    const { payload, claims } = this.decode(sdJwt);
+    const { iss, iat, nbf, exp, vct, cnf, status, sub, jti, ...subjectClaims } = claims;
+    const credentialSubject = { ...subjectClaims } as CredentialSubject;
+    if (sub || cnf?.kid) {
+      credentialSubject.id = sub || cnf.kid.split('#')[0];
+    }
+
+    return {
+      '@context': ['https://www.w3.org/ns/credentials/v2'],
+      id: jti || `urn:sd-jwt:${sdDigest(parseSdJwt(sdJwt).issuerJwt)}`,
+      type: ['VerifiableCredential', vct],
+      issuer: iss,
+      validFrom: new Date((nbf || iat || payload.iat) * 1000).toISOString(),
+      validUntil: exp ? new Date(exp * 1000).toISOString() : undefined,
+      credentialSubject,
+      ...(status ? { credentialStatus: status } : {}),
+      proof: { type: 'SdJwtVc', sdJwt }
+    };
+  }
+
+  private async verifyKeyBinding(
+    parts: { issuerJwt: string; disclosures: string[]; kbJwt?: string },
+    payload: Record<string, any>,
+    options: VerifySdJwtVcOptions
+  ): Promise<string[]> {
+    const errors: string[] = [];
+    let kbHeader: Record<string, any>;
+    let kbPayload: Record<string, any>;
+    try {
+      ({ header: kbHeader, payload: kbPayload } = decodeJWT(parts.kbJwt!));
+    } catch {
+      return ['Key-binding JWT is malformed'];
+    }
+
+    if (kbHeader.typ !== KB_JWT_TYPE) {
+      errors.push(`Key-binding JWT typ must be ${KB_JWT_TYPE}`);
+    }
+
+    let holderKeys: VerificationMethod[] = [];
+    if (payload.cnf?.jwk) {
+      holderKeys = [{ id: '#cnf', type: 'JsonWebKey2020', controller: payload.iss, publicKeyJwk: payload.cnf.jwk }];
+    } else if (payload.cnf?.kid) {
+      holderKeys = await resolveVerificationMethods(options.resolver, payload.cnf.kid).catch(() => []);
+    }
+    if (!payload.cnf) {
+      errors.push('Credential has no cnf claim to verify the key-binding JWT against');
+    } else if (holderKeys.length === 0) {
+      errors.push('No holder key found for the cnf claim');
+    } else if (!this.checkSignature(parts.kbJwt!, holderKeys)) {
+      errors.push('Key-binding JWT signature is invalid');
+    }
+
+    if (options.nonce !== undefined && kbPayload.nonce !== options.nonce) {
+      errors.push('Key-binding JWT nonce does not match');
+    }
+    if (options.audience !== undefined && kbPayload.aud !== options.audience) {
+      errors.push('Key-binding JWT audience does not match');
+    }
+    const maxAge = options.keyBindingMaxAge ?? 300;
+    if (!kbPayload.iat || Math.abs(Math.floor(Date.now() / 1000) - kbPayload.iat) > maxAge) {
+      errors.push('Key-binding JWT iat is missing or outside the allowed window');
+    }
+    if (kbPayload.sd_hash !== sdDigest(serializeSdJwt({ issuerJwt: parts.issuerJwt, disclosures: parts.disclosures }))) {
+      errors.push('Key-binding JWT sd_hash does not match the presentation');
+    }
+
+    return errors;
+  }
+
+  private checkSignature(jwt: string, keys: VerificationMethod[]): boolean {
+    if (keys.length === 0) {
+      return false;
+    }
+    try {
+      verifyJWS(jwt, keys);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private addDecoys(node: any, count: number): void {
+    if (Array.isArray(node)) {
+      node.forEach(child => this.addDecoys(child, count));
+      return;
+    }
+    if (!node || typeof node !== 'object') {
+      return;
+    }
+    for (const [key, child] of Object.entries(node)) {
+      if (key !== '_sd') {
+        this.addDecoys(child, count);
+      }
+    }
+    if (Array.isArray(node._sd)) {
+      for (let i = 0; i < count; i++) {
+        node._sd.push(sdDigest(crypto.randomBytes(16).toString('base64url')));
+      }
+      // Sorting hides the original claim order
+      node._sd.sort();
+    }
+  }
+}
@@ -0,0 +1,36 @@
+/**
+ * SD-JWT VC Module - Barrel Export
+ *
+ * This module implements SD-JWT based Verifiable Credentials: issuer-chosen
+ * selectively disclosable claims, holder presentations with a key-binding JWT,
+ * and verification of digests, `_sd_alg`, key binding and the issuer signature.
+ *
+ * @example
+ * ```typescript
+ * const sdJwt = await serviceAgent.issueSdJwtCredential(template, { disclosable: ['email'], holderDid })
+ * const presentation = await userAgent.presentSdJwtCredential(sdJwt, { disclose: ['email'], nonce, audience })
+ * const result = await serviceAgent.verifySdJwtPresentation(presentation, { nonce, audience })
+ * ```
+ */
+
+export { SdJwtVcClient } from './client.js';
+
+export {
+  createDisclosure,
+  decodeDisclosure,
+  parseSdJwt,
+  serializeSdJwt,
+  reconstructClaims,
+  sdDigest
+} from './utils.js';
+
+export { SD_JWT_VC_TYPE, KB_JWT_TYPE, SD_ALG } from './types.js';
+
+export type {
+  Disclosure,
+  SdJwtParts,
+  IssueSdJwtVcOptions,
+  PresentSdJwtVcOptions,
+  VerifySdJwtVcOptions,
+  SdJwtVcVerificationResult
+} from './types.js';
@@ -0,0 +1,79 @@
+/**
+ * SD-JWT VC Types
+ *
+ * Data model for SD-JWT based Verifiable Credentials: selectively disclosable
+ * claims, holder key binding and verification results.
+ */
+
+import type { Resolvable } from 'did-resolver';
+import { ProofJwtSigner } from '../oid4vci/types';
+
+export const SD_JWT_VC_TYPE = 'vc+sd-jwt';
+export const KB_JWT_TYPE = 'kb+jwt';
+export const SD_ALG = 'sha-256';
+
+export interface Disclosure {
+  /** base64url encoded `[salt, name, value]` array */
+  encoded: string;
+  salt: string;
+  /** Claim name; undefined for array element disclosures */
+  name?: string;
+  value: any;
+  digest: string;
+}
+
+export interface SdJwtParts {
+  issuerJwt: string;
+  disclosures: string[];
+  kbJwt?: string;
+}
+
+export interface IssueSdJwtVcOptions {
+  /** Credential type (`vct` claim) */
+  vct: string;
+  /** Issuer DID (`iss` claim) */
+  issuer: string;
+  claims: Record<string, any>;
+  /** Dot separated claim paths to make selectively disclosable, e.g. `address.locality` */
+  disclosable: string[];
+  /** Holder key for key binding: a DID URL or a public JWK */
+  holder?: { kid: string } | { jwk: Record<string, any> };
+  validFrom?: string;
+  validUntil?: string;
+  /** Number of decoy digests added to each `_sd` array */
+  decoys?: number;
+  signer: ProofJwtSigner;
+}
+
+export interface PresentSdJwtVcOptions {
+  /** Claim paths to reveal; disclosures for parent objects are included automatically */
+  disclose: string[];
+  /** Key binding: required when the credential carries a `cnf` claim */
+  keyBinding?: {
+    signer: ProofJwtSigner;
+    nonce: string;
+    audience: string;
+  };
+}
+
+export interface VerifySdJwtVcOptions {
+  /** Resolves the issuer DID (and holder DID URL in `cnf.kid`) */
+  resolver: Resolvable;
+  /** Expected KB-JWT nonce and audience; key binding is required when set or when the credential has `cnf` */
+  nonce?: string;
+  audience?: string;
+  /** Maximum KB-JWT age in seconds */
+  keyBindingMaxAge?: number;
+}
+
+export interface SdJwtVcVerificationResult {
+  isValid: boolean;
+  errors: string[];
+  issuer?: string;
+  vct?: string;
+  /** Issuer-signed claims with the revealed disclosures applied */
+  claims: Record<string, any>;
+  /** Paths of the claims revealed through disclosures */
+  disclosedClaims: string[];
+  keyBindingVerified: boolean;
+}
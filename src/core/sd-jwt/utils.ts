@@ -0,0 +1,145 @@
+/**
+ * SD-JWT Utilities
+ *
+ * Disclosure encoding, digests, compact serialization and claim
+ * reconstruction for Selective Disclosure JWTs.
+ */
+
+import crypto from 'crypto';
+import { Disclosure, SdJwtParts } from './types';
+
+/**
+ * base64url SHA-256 digest of an ASCII string (disclosures, sd_hash input)
+ */
+export function sdDigest(input: string): string {
+  return crypto.createHash('sha256').update(input, 'ascii').digest('base64url');
+}
+
+/**
+ * Create a disclosure for an object property
+ */
+export function createDisclosure(name: string, value: any): Disclosure {
+  const salt = crypto.randomBytes(16).toString('base64url');
+  const encoded = Buffer.from(JSON.stringify([salt, name, value])).toString('base64url');
+  return { encoded, salt, name, value, digest: sdDigest(encoded) };
+}
+
+/**
+ * Decode a base64url disclosure into its salt, name and value
+ */
+export function decodeDisclosure(encoded: string): Disclosure {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf-8'));
+  } catch {
+    throw new Error('Disclosure is not valid base64url encoded JSON');
+  }
+  if (!Array.isArray(parsed) || (parsed.length !== 3 && parsed.length !== 2) || typeof parsed[0] !== 'string') {
+    throw new Error('Disclosure must be a [salt, name, value] or [salt, value] array');
+  }
+
+  return parsed.length === 3
+    ? { encoded, salt: parsed[0], name: parsed[1], value: parsed[2], digest: sdDigest(encoded) }
+    : { encoded, salt: parsed[0], value: parsed[1], digest: sdDigest(encoded) };
+}
+
+/**
+ * Split a compact SD-JWT (`<jwt>~<disclosure>~...~[<kb-jwt>]`)
+ */
+export function parseSdJwt(sdJwt: string): SdJwtParts {
+  const parts = sdJwt.trim().split('~');
+  if (parts.length < 2) {
+    throw new Error('Invalid SD-JWT: missing ~ separator');
+  }
+  const issuerJwt = parts[0];
+  const kbJwt = parts[parts.length - 1] || undefined;
+  const disclosures = parts.slice(1, -1).filter(Boolean);
+  return { issuerJwt, disclosures, kbJwt };
+}
+
+/**
+ * Serialize an SD-JWT; without a KB-JWT the output ends with `~`
+ */
+export function serializeSdJwt(parts: SdJwtParts): string {
+  return [parts.issuerJwt, ...parts.disclosures].join('~') + '~' + (parts.kbJwt || '');
+}
+
+/**
+ * Apply disclosures to an issuer-signed payload, replacing `_sd` digests with the
+ * disclosed claims. Throws on digests that are referenced twice or unknown disclosures.
+ * @returns the reconstructed claims, the dot-paths that were disclosed and the path of each disclosure digest
+ */
+export function reconstructClaims(
+  payload: Record<string, any>,
+  disclosures: Disclosure[]
+): { claims: Record<string, any>; disclosedPaths: string[]; pathsByDigest: Map<string, string> } {
+  const byDigest = new Map(disclosures.map(disclosure => [disclosure.digest, disclosure]));
+  const used = new Set<string>();
+  const disclosedPaths: string[] = [];
+  const pathsByDigest = new Map<string, string>();
+
+  const processValue = (value: any, path: string): any => {
+    if (Array.isArray(value)) {
+      const result: any[] = [];
+      for (const element of value) {
+        if (element && typeof element === 'object' && !Array.isArray(element) && Object.keys(element).length === 1 && '...' in element) {
+          const disclosure = byDigest.get(element['...']);
+          if (disclosure) {
+            markUsed(disclosure.digest);
+            disclosedPaths.push(`${path}[${result.length}]`);
+            pathsByDigest.set(disclosure.digest, `${path}[${result.length}]`);
+            result.push(processValue(disclosure.value, `${path}[${result.length}]`));
+          }
+        } else {
+          result.push(processValue(element, `${path}[${result.length}]`));
+        }
+      }
+      return result;
+    }
+
+    if (!value || typeof value !== 'object') {
+      return value;
+    }
+
+    const result: Record<string, any> = {};
+    for (const [key, child] of Object.entries(value)) {
+      if (key !== '_sd' && key !== '_sd_alg') {
+        result[key] = processValue(child, path ? `${path}.${key}` : key);
+      }
+    }
+
+    for (const digest of (value._sd as string[]) || []) {
+      const disclosure = byDigest.get(digest);
+      if (!disclosure) {
+        continue; // undisclosed claim or decoy
+      }
+      markUsed(digest);
+      if (disclosure.name === undefined) {
+        throw new Error('Array element disclosure referenced from an _sd array');
+      }
+      if (disclosure.name in result || disclosure.name === '_sd' || disclosure.name === '...') {
+        throw new Error(`Disclosed claim ${disclosure.name} conflicts with an existing claim`);
+      }
+      const claimPath = path ? `${path}.${disclosure.name}` : disclosure.name;
+      disclosedPaths.push(claimPath);
+      pathsByDigest.set(digest, claimPath);
+      result[disclosure.name] = processValue(disclosure.value, claimPath);
+    }
+    return result;
+  };
+
+  const markUsed = (digest: string) => {
+    if (used.has(digest)) {
+      throw new Error('Digest referenced more than once');
+    }
+    used.add(digest);
+  };
+
+  const claims = processValue(payload, '');
+  const unused = disclosures.filter(disclosure => !used.has(disclosure.digest));
+  if (unused.length > 0) {
+    throw new Error(`${unused.length} disclosure(s) are not referenced by the issuer-signed JWT`);
+  }
+
+  return { claims, disclosedPaths, pathsByDigest };
+}
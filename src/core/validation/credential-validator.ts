@@ -8,7 +8,7 @@
 import { ValidationClient } from './client'
 import { TrustRegistryClient } from '../trust-registry'
 import { RevocationClient } from '../revocation/client'
-import { Resolver } from 'did-resolver'
+import type { Resolvable } from 'did-resolver'
 import { 
   VerifiableCredential_2_0, 
   ValidationOptions,
@@ -29,12 +29,13 @@ export class CredentialValidator {
   private validationClient: ValidationClient
   private trustRegistry: TrustRegistryClient
   private revocationClient: RevocationClient
-  private didResolver: Resolver
+  private didResolver: Resolvable
 
   constructor(
     trustRegistry: TrustRegistryClient,
     revocationClient: RevocationClient,
-    didResolver: Resolver
+    /** Resolves DIDs; pass the agent's CachingDIDResolver so lookups share its cache */
+    didResolver: Resolvable
   ) {
     this.trustRegistry = trustRegistry
     this.revocationClient = revocationClient
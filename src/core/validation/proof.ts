@@ -2,10 +2,12 @@
  * Proof validation functionality for Verifiable Credentials
  */
 
-import { Resolver, DIDDocument, VerificationMethod } from 'did-resolver';
+import { Resolvable, DIDDocument, VerificationMethod } from 'did-resolver';
 import { verifyJWS } from 'did-jwt';
 import { Ed25519Signature2020 } from '@digitalbazaar/ed25519-signature-2020';
 import { DataIntegrityProof } from '@digitalbazaar/data-integrity';
+import { DataIntegrityClient } from '../data-integrity/client';
+import { EDDSA_CRYPTOSUITES, EdDSACryptosuite } from '../data-integrity/types';
 import { 
   VerifiableCredential_2_0, 
   JwtProof,
@@ -23,7 +25,7 @@ function hasType(proof: any): proof is { type: string } {
 export async function validateProof(
   credential: VerifiableCredential_2_0,
   proof: JwtProof | DataIntegrityProofType,
-  resolver: Resolver
+  resolver: Resolvable
 ): Promise<void> {
   try {
     // Resolve the issuer DID to get verification methods
@@ -58,7 +60,11 @@ export async function validateProof(
     if ((hasType(proof) && proof.type === 'JsonWebSignature2020') || (proof as any).jwt) {
       await validateJwtProof(credential, proof as JwtProof, verificationMethod);
     } else if (hasType(proof) && proof.type === 'DataIntegrityProof') {
-      await validateDataIntegrityProof(credential, proof as DataIntegrityProofType, verificationMethod);
+      if (EDDSA_CRYPTOSUITES.includes((proof as DataIntegrityProofType).cryptosuite as EdDSACryptosuite)) {
+        await validateEdDSAProof(credential, resolver);
+      } else {
+        await validateDataIntegrityProof(credential, proof as DataIntegrityProofType, verificationMethod);
+      }
     } else {
       const proofType = (proof as any).type || 'unknown';
       throw new Error(`Unsupported proof type: ${proofType}`);
@@ -132,4 +138,17 @@ async function validateDataIntegrityProof(
   }
 }
 
-export { validateJwtProof, validateDataIntegrityProof }; 
\ No newline at end of file
+/**
+ * Verify an `eddsa-rdfc-2022` / `eddsa-jcs-2022` proof, canonicalizing with the offline context loader
+ */
+async function validateEdDSAProof(
+  credential: VerifiableCredential_2_0,
+  resolver: Resolvable
+): Promise<void> {
+  const result = await new DataIntegrityClient().verifyProof(credential, { resolver });
+  if (!result.verified) {
+    throw new Error(`Data Integrity proof verification failed: ${result.errors.join('; ')}`);
+  }
+}
+
+export { validateJwtProof, validateDataIntegrityProof, validateEdDSAProof }; 
\ No newline at end of file
@@ -26,8 +26,16 @@ export * from './core/config.js';
 export * from './core/did/index.js';
 export * from './core/storage/index.js';
 export * from './core/resource/index.js';
+export * from './core/presentation/index.js';
+export * from './core/presentation-exchange/index.js';
+export * from './core/oid4vci/index.js';
+export * from './core/oid4vp/index.js';
+export * from './core/sd-jwt/index.js';
+export * from './core/data-integrity/index.js';
 export * from './core/universal-credential/index.js';
 export * from './core/package-signer/index.js';
+export * from './core/device/index.js';
+export * from './core/didcomm/index.js';
 // Plugin system exports (namespace to avoid top-level name collisions)
 export * as Plugins from './core/plugins/index.js';
 
@@ -51,6 +59,35 @@ export type {
   FallbackMethod
 } from './core/biometric/types.js';
 
+// Bitstring Status List management (explicit exports to avoid conflicts)
+export {
+  StatusListService,
+  DIDLinkedResourceStatusListPublisher,
+  StatusListProvider,
+  StatusListCache,
+  SecureStorageSnapshotStore,
+  StatusListError,
+  StatusListErrorCode,
+  MIN_STATUS_LIST_LENGTH
+} from './core/revocation/index.js';
+export type {
+  StatusPurpose,
+  BitstringStatusPurpose,
+  StatusMessage,
+  BitstringStatusListEntry,
+  BitstringStatusResult,
+  StatusListProviderOptions,
+  StatusCheckOptions,
+  StatusListSnapshot,
+  StatusListSnapshotStore,
+  StatusListCacheOptions,
+  StatusListRecord,
+  StatusListSigner,
+  StatusListPublisher,
+  StatusListServiceOptions,
+  CreateStatusListOptions
+} from './core/revocation/index.js';
+
 // Types
 export * from './types/index.js';
 
@@ -1,8 +1,19 @@
-import express, { Request, Response } from 'express'
+import express, { NextFunction, Request, RequestHandler, Response } from 'express'
 import cors from 'cors'
 import path from 'path'
 import { fileURLToPath } from 'url'
 import { generateQRCode } from '../utils/qr-code.js'
+import { createOID4VCIRouter } from './oid4vci-router.js'
+import { createOID4VPRouter } from './oid4vp-router.js'
+import { createDIDWebRouter } from './did-web-router.js'
+import { attachDIDCommWebSocket, createDIDCommRouter } from './didcomm-router.js'
+import { createVCAPIRouter, VCAPIAgent, VCAPIRouterOptions } from './vc-api-router.js'
+import { Authorize, loopbackOnly, ServerAuth, ServerAuthOptions } from './auth.js'
+import type { OID4VCIIssuer } from '../core/oid4vci/issuer.js'
+import type { OID4VPVerifier } from '../core/oid4vp/verifier.js'
+import type { DIDWebPlugin } from '../core/plugins/did-methods/did-web-plugin.js'
+import type { DIDCommMessenger } from '../core/didcomm/messenger.js'
+import type { DIDCommMediator } from './didcomm-mediator.js'
 // import { createBluetoothServer } from './bluetooth-server.js'
 
 const __filename = fileURLToPath(import.meta.url)
@@ -11,13 +22,23 @@ const __dirname = path.dirname(__filename)
 const app = express()
 const PORT = process.env.PORT || 8080
 
+// Protected routes name their scopes here; until enableAuth() is called they
+// only answer requests from this host. Protocol endpoints (OID4VCI, OID4VP,
+// did:web, DIDComm) authenticate their callers themselves and stay public, as do
+// the demo pages and the /api/qr route they call from phones, which is only
+// rate limited per address.
+let auth: ServerAuth | undefined
+const authorize: Authorize = (...scopes) => (req: Request, res: Response, next: NextFunction) =>
+  (auth ? auth.authorize : loopbackOnly)(...scopes)(req, res, next)
+const throttle: RequestHandler = (req, res, next) => (auth ? auth.throttle(req, res, next) : next())
+
 // Middleware
 app.use(cors())
 app.use(express.json())
 app.use(express.static(path.join(__dirname, '../../test-results')))
 
 // Initialize Bluetooth simulator
-// const bluetoothServer = createBluetoothServer(app)
+// const bluetoothServer = createBluetoothServer(app, authorize)
 
 // Routes
 app.get('/', (req: Request, res: Response) => {
@@ -328,7 +349,7 @@ app.get('/mobile', (req: Request, res: Response) => {
 })
 
 // API route to generate QR codes
-app.get('/api/qr', async (req: Request, res: Response) => {
+app.get('/api/qr', throttle, async (req: Request, res: Response) => {
   try {
     const data = req.query.data as string
     if (!data) {
@@ -355,8 +376,57 @@ app.get('/health', (req: Request, res: Response) => {
   })
 })
 
+// Require OAuth2 access tokens (bearer or DPoP-bound) or ServiceAgent API keys on
+// the protected routes, with per-client rate limits. Clients get tokens with the
+// client credentials grant at tokenPath.
+export function enableAuth(options: ServerAuthOptions, tokenPath = '/oauth/token'): ServerAuth {
+  auth = new ServerAuth(options)
+  app.use(tokenPath, auth.createTokenRouter())
+  return auth
+}
+
+// Mount an OID4VCI credential issuer (e.g. from serviceAgent.createCredentialIssuer()).
+// The issuer's credentialIssuer URL must point at this base path.
+export function mountCredentialIssuer(issuer: OID4VCIIssuer, basePath = '/oid4vci') {
+  app.use(basePath, createOID4VCIRouter(issuer))
+}
+
+// Mount an OID4VP verifier (e.g. from serviceAgent.createPresentationVerifier()).
+// The verifier's baseUrl must point at this base path.
+export function mountPresentationVerifier(verifier: OID4VPVerifier, basePath = '/oid4vp') {
+  app.use(basePath, createOID4VPRouter(verifier))
+}
+
+// Serve the did:web documents of a DIDWebPlugin. did:web paths are absolute,
+// so this host must be the DID's domain and the router is mounted at the root.
+export function mountDIDWebDocuments(plugin: DIDWebPlugin) {
+  app.use(createDIDWebRouter(plugin))
+}
+
+// Receive DIDComm messages for an agent (e.g. agent.getMessenger()). The agent's
+// DIDCommMessaging service endpoint must point at this base path.
+export function mountDIDCommEndpoint(messenger: DIDCommMessenger, basePath = '/didcomm') {
+  app.use(basePath, createDIDCommRouter(messenger))
+}
+
+// Run a DIDComm mediator: HTTP at the base path and WebSocket (for live delivery)
+// at <basePath>/ws. The mediator DID's DIDCommMessaging service should list both,
+// the WebSocket first. Use instead of mountDIDCommEndpoint() for the same messenger.
+export function mountDIDCommMediator(mediator: DIDCommMediator, basePath = '/didcomm') {
+  app.use(basePath, createDIDCommRouter(mediator.messenger))
+  attachDIDCommWebSocket(server, mediator.messenger, `${basePath}/ws`)
+}
+
+// Expose a ServiceAgent (or anything with its issue/verify/status methods) through
+// the W3C VC-API. options.baseUrl must point at this base path; exchange
+// transactions are announced under it. Issuer and verifier routes need the
+// credentials:* and presentations:verify scopes; exchange routes are throttled per address.
+export function mountVCAPI(agent: VCAPIAgent, options: VCAPIRouterOptions, basePath = '/') {
+  app.use(basePath, createVCAPIRouter(agent, { authorize, throttle, ...options }))
+}
+
 // Start server
-app.listen(PORT, () => {
+const server = app.listen(PORT, () => {
   console.log(`🚀 Server running on port ${PORT}`)
   console.log(`📱 Mobile demo: http://localhost:${PORT}/mobile`)
   console.log(`🔗 Main page: http://localhost:${PORT}/`)
@@ -0,0 +1,434 @@
+// Authentication and authorization for the HTTP server
+// Clients authenticate with OAuth2 access tokens from the client credentials
+// grant (RFC 6749 §4.4), sent as bearer tokens or bound to a key with DPoP
+// (RFC 9449), or with API keys a ServiceAgent minted with generateAPIKey().
+// Each route names the scopes it needs, and every client is rate limited.
+// Addresses that keep failing to authenticate are locked out for a while, so
+// secrets and API keys cannot be guessed. Wrong client secrets lock out the
+// client ID only from the address that sent them, so nobody else can lock a
+// client out.
+// Until auth is configured, protected routes only answer loopback clients.
+
+import * as crypto from 'crypto'
+import express, { NextFunction, Request, RequestHandler, Response, Router } from 'express'
+import type { ServiceAgent } from '../core/agents/service-agent.js'
+
+export interface AuthClient {
+  clientId: string
+  clientSecret: string
+  /** Scopes the client may be granted */
+  scopes: string[]
+  /** Only accept DPoP-bound tokens for this client */
+  requireDPoP?: boolean
+  /** Requests per rate limit window, instead of the server default */
+  rateLimit?: number
+}
+
+export interface ServerAuthOptions {
+  clients?: AuthClient[]
+  /** Accept API keys a ServiceAgent minted, with the scopes of the service each key was minted for */
+  apiKeys?: {
+    agent: Pick<ServiceAgent, 'validateServiceAccess'>
+    services: Record<string, string[]>
+  }
+  /** Seconds an access token is valid (default: 300) */
+  accessTokenTtl?: number
+  /** Seconds a DPoP proof is accepted after its iat (default: 300) */
+  dpopMaxAge?: number
+  /** Requests per client and window (default: 60 per minute) */
+  rateLimit?: { limit: number; windowMs: number }
+  /** Failed authentications per address, or per client ID from one address, and window before it is locked out (default: 10 per 15 minutes) */
+  failureLimit?: { limit: number; windowMs: number }
+  /** Public origin of the server, to check DPoP htu behind a proxy; defaults to the request's */
+  origin?: string
+}
+
+/** Middleware requiring all of the given scopes */
+export type Authorize = (...scopes: string[]) => RequestHandler
+
+export interface AuthContext {
+  /** The OAuth client ID, or `api-key:<service>` */
+  clientId: string
+  scopes: string[]
+  method: 'bearer' | 'dpop' | 'api-key'
+}
+
+export enum AuthErrorCode {
+  INVALID_CLIENT = 'invalid_client',
+  INVALID_SCOPE = 'invalid_scope',
+  UNSUPPORTED_GRANT_TYPE = 'unsupported_grant_type',
+  INVALID_TOKEN = 'invalid_token',
+  INVALID_DPOP_PROOF = 'invalid_dpop_proof',
+  INSUFFICIENT_SCOPE = 'insufficient_scope',
+  RATE_LIMITED = 'rate_limited'
+}
+
+export class AuthError extends Error {
+  constructor(
+    public code: AuthErrorCode,
+    message: string,
+    public status: number = 401
+  ) {
+    super(message)
+    this.name = 'AuthError'
+  }
+
+  toResponse(): { error: string; error_description: string } {
+    return { error: this.code, error_description: this.message }
+  }
+}
+
+interface RateWindow {
+  start: number
+  count: number
+}
+
+interface AccessToken {
+  clientId: string
+  scopes: string[]
+  expiresAt: number
+  /** JWK thumbprint of the DPoP key the token is bound to */
+  jkt?: string
+}
+
+/** The key type and curve each DPoP alg must be used with */
+const DPOP_KEYS: Record<string, { kty: string; crv: string }> = {
+  EdDSA: { kty: 'OKP', crv: 'Ed25519' },
+  ES256: { kty: 'EC', crv: 'P-256' }
+}
+const DEFAULT_RATE_LIMIT = { limit: 60, windowMs: 60000 }
+const LOOPBACK_ADDRESSES = ['127.0.0.1', '::1', '::ffff:127.0.0.1']
+const DEFAULT_FAILURE_LIMIT = { limit: 10, windowMs: 15 * 60 * 1000 }
+
+/**
+ * Used while auth is not configured: protected routes only answer requests from this host
+ */
+export const loopbackOnly: Authorize = () => (req: Request, res: Response, next: NextFunction) => {
+  if (!LOOPBACK_ADDRESSES.includes(req.socket.remoteAddress || '')) {
+    return res.status(403).json({ error: 'access_denied', error_description: 'Authentication is not configured; only local requests are served' })
+  }
+  next()
+}
+
+export class ServerAuth {
+  private clients: Map<string, AuthClient>
+  private tokens: Map<string, AccessToken> = new Map()
+  /** DPoP proof IDs seen, until their proofs expire */
+  private proofIds: Map<string, number> = new Map()
+  private windows: Map<string, RateWindow> = new Map()
+  /** Failed authentications per `address:<ip>` and `client:<client_id>@<ip>` */
+  private failures: Map<string, RateWindow> = new Map()
+
+  constructor(private options: ServerAuthOptions = {}) {
+    this.clients = new Map((options.clients || []).map(client => [client.clientId, client]))
+  }
+
+  /**
+   * Token endpoint for the client credentials grant; client secrets go in HTTP Basic or the form body
+   */
+  createTokenRouter(): Router {
+    const router = express.Router()
+    router.use(express.urlencoded({ extended: false }))
+    router.use(express.json())
+
+    router.post('/', async (req: Request, res: Response) => {
+      try {
+        res.set('Cache-Control', 'no-store')
+        res.json(await this.handleTokenRequest(req, res))
+      } catch (error) {
+        this.sendError(res, error, 'Basic')
+      }
+    })
+
+    return router
+  }
+
+  authorize: Authorize = (...scopes) => async (req: Request, res: Response, next: NextFunction) => {
+    const address = `address:${addressOf(req)}`
+    try {
+      this.checkFailures(res, [address])
+      const auth = await this.authenticate(req)
+      const missing = scopes.filter(scope => !auth.scopes.includes(scope))
+      if (missing.length) {
+        throw new AuthError(AuthErrorCode.INSUFFICIENT_SCOPE, `Missing scopes: ${missing.join(' ')}`, 403)
+      }
+      this.limit(res, auth.clientId)
+      res.locals.auth = auth
+      next()
+    } catch (error) {
+      // Unknown tokens and API keys count as guesses; a missing token does not
+      if (error instanceof AuthError && error.code === AuthErrorCode.INVALID_TOKEN && (req.get('Authorization') || req.get('X-API-Key'))) {
+        this.recordFailure([address])
+      }
+      this.sendError(res, error, req.get('Authorization')?.startsWith('DPoP ') ? 'DPoP' : 'Bearer')
+    }
+  }
+
+  /**
+   * Per-address rate limit for public routes, which have no client to count against
+   */
+  throttle: RequestHandler = (req: Request, res: Response, next: NextFunction) => {
+    try {
+      this.limit(res, `address:${addressOf(req)}`)
+      next()
+    } catch (error) {
+      this.sendError(res, error, 'Bearer')
+    }
+  }
+
+  async authenticate(req: Request): Promise<AuthContext> {
+    const authorization = req.get('Authorization') || ''
+    const apiKey = req.get('X-API-Key')
+
+    if (authorization.startsWith('Bearer ')) {
+      const token = this.findToken(authorization.slice(7))
+      if (token.jkt) {
+        throw new AuthError(AuthErrorCode.INVALID_TOKEN, 'The access token is DPoP-bound; send it with a DPoP proof')
+      }
+      return { clientId: token.clientId, scopes: token.scopes, method: 'bearer' }
+    }
+    if (authorization.startsWith('DPoP ')) {
+      const accessToken = authorization.slice(5)
+      const token = this.findToken(accessToken)
+      const jkt = this.verifyProof(req, accessToken)
+      if (!token.jkt || token.jkt !== jkt) {
+        throw new AuthError(AuthErrorCode.INVALID_TOKEN, 'The access token is not bound to the DPoP proof key')
+      }
+      return { clientId: token.clientId, scopes: token.scopes, method: 'dpop' }
+    }
+    if (apiKey && this.options.apiKeys) {
+      for (const [service, scopes] of Object.entries(this.options.apiKeys.services)) {
+        if (await this.options.apiKeys.agent.validateServiceAccess(apiKey, service)) {
+          return { clientId: `api-key:${service}`, scopes, method: 'api-key' }
+        }
+      }
+      throw new AuthError(AuthErrorCode.INVALID_TOKEN, 'Unknown or revoked API key')
+    }
+    throw new AuthError(AuthErrorCode.INVALID_TOKEN, 'Authentication required')
+  }
+
+  private async handleTokenRequest(req: Request, res: Response) {
+    const client = this.authenticateClient(req, res)
+    if (req.body?.grant_type !== 'client_credentials') {
+      throw new AuthError(AuthErrorCode.UNSUPPORTED_GRANT_TYPE, 'Only the client_credentials grant is supported', 400)
+    }
+    const requested = typeof req.body.scope === 'string' ? req.body.scope.split(' ').filter(Boolean) : client.scopes
+    const denied = requested.filter((scope: string) => !client.scopes.includes(scope))
+    if (denied.length) {
+      throw new AuthError(AuthErrorCode.INVALID_SCOPE, `Scopes not allowed for ${client.clientId}: ${denied.join(' ')}`, 400)
+    }
+    const jkt = req.get('DPoP') ? this.verifyProof(req) : undefined
+    if (client.requireDPoP && !jkt) {
+      throw new AuthError(AuthErrorCode.INVALID_DPOP_PROOF, `${client.clientId} must bind its tokens with DPoP`, 400)
+    }
+    this.limit(res, client.clientId)
+
+    const ttl = this.options.accessTokenTtl ?? 300
+    const accessToken = crypto.randomBytes(32).toString('base64url')
+    this.prune()
+    this.tokens.set(accessToken, { clientId: client.clientId, scopes: requested, expiresAt: Date.now() + ttl * 1000, jkt })
+    return { access_token: accessToken, token_type: jkt ? 'DPoP' : 'Bearer', expires_in: ttl, scope: requested.join(' ') }
+  }
+
+  private authenticateClient(req: Request, res: Response): AuthClient {
+    let clientId: string | undefined = req.body?.client_id
+    let clientSecret: string | undefined = req.body?.client_secret
+    const authorization = req.get('Authorization') || ''
+    if (authorization.startsWith('Basic ')) {
+      const credentials = Buffer.from(authorization.slice(6), 'base64').toString('utf-8')
+      const separator = credentials.indexOf(':')
+      try {
+        clientId = decodeURIComponent(credentials.slice(0, separator))
+        clientSecret = decodeURIComponent(credentials.slice(separator + 1))
+      } catch {
+        throw new AuthError(AuthErrorCode.INVALID_CLIENT, 'Malformed client credentials')
+      }
+    }
+    const address = addressOf(req)
+    const keys = [`address:${address}`, ...(typeof clientId === 'string' ? [`client:${clientId}@${address}`] : [])]
+    this.checkFailures(res, keys)
+    const client = typeof clientId === 'string' ? this.clients.get(clientId) : undefined
+    if (!client || typeof clientSecret !== 'string' || !secretsMatch(clientSecret, client.clientSecret)) {
+      this.recordFailure(keys)
+      throw new AuthError(AuthErrorCode.INVALID_CLIENT, 'Client authentication failed')
+    }
+    return client
+  }
+
+  private findToken(accessToken: string): AccessToken {
+    const token = this.tokens.get(accessToken)
+    if (!token || token.expiresAt < Date.now()) {
+      throw new AuthError(AuthErrorCode.INVALID_TOKEN, 'Unknown or expired access token')
+    }
+    return token
+  }
+
+  /**
+   * Check the DPoP proof of a request, and its binding to the access token if one is presented
+   * @returns the JWK thumbprint of the proof key
+   */
+  private verifyProof(req: Request, accessToken?: string): string {
+    const fail = (message: string): never => {
+      throw new AuthError(AuthErrorCode.INVALID_DPOP_PROOF, message, accessToken ? 401 : 400)
+    }
+    const proof = req.get('DPoP') || fail('DPoP proof missing')
+    const [encodedHeader, encodedPayload, signature] = proof.split('.')
+    let header: any
+    let payload: any
+    try {
+      header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString('utf-8'))
+      payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf-8'))
+    } catch {
+      return fail('DPoP proof is not a JWT')
+    }
+    if (header.typ !== 'dpop+jwt' || !Object.hasOwn(DPOP_KEYS, header.alg) || !header.jwk || header.jwk.d) {
+      fail('DPoP proof needs typ dpop+jwt, an EdDSA or ES256 alg and a public jwk')
+    }
+    if (header.jwk.kty !== DPOP_KEYS[header.alg].kty || header.jwk.crv !== DPOP_KEYS[header.alg].crv) {
+      fail(`DPoP proofs with ${header.alg} need a ${DPOP_KEYS[header.alg].crv} jwk`)
+    }
+    let valid = false
+    try {
+      const key = crypto.createPublicKey({ key: header.jwk, format: 'jwk' })
+      const input = Buffer.from(`${encodedHeader}.${encodedPayload}`)
+      const bytes = Buffer.from(signature || '', 'base64url')
+      valid = header.alg === 'EdDSA'
+        ? crypto.verify(null, input, key, bytes)
+        : crypto.verify('sha256', input, { key, dsaEncoding: 'ieee-p1363' }, bytes)
+    } catch {
+      valid = false
+    }
+    if (!valid) {
+      fail('DPoP proof signature is invalid')
+    }
+
+    const origin = this.options.origin?.replace(/\/$/, '') || `${req.protocol}://${req.get('host')}`
+    const url = `${origin}${req.baseUrl}${req.path}`.replace(/\/$/, '')
+    if (payload.htm !== req.method || String(payload.htu).replace(/\/$/, '') !== url) {
+      fail('DPoP proof is for another request')
+    }
+    const now = Math.floor(Date.now() / 1000)
+    const maxAge = this.options.dpopMaxAge ?? 300
+    if (typeof payload.iat !== 'number' || payload.iat > now + 60 || payload.iat < now - maxAge) {
+      fail('DPoP proof is expired or not yet valid')
+    }
+    if (accessToken && payload.ath !== crypto.createHash('sha256').update(accessToken).digest('base64url')) {
+      fail('DPoP proof is for another access token')
+    }
+    const jkt = thumbprintOf(header.jwk)
+    const proofId = `${jkt}:${payload.jti}`
+    if (typeof payload.jti !== 'string' || this.proofIds.has(proofId)) {
+      fail('DPoP proof was already used')
+    }
+    this.prune()
+    this.proofIds.set(proofId, (payload.iat + maxAge) * 1000)
+    return jkt
+  }
+
+  /**
+   * Count a request against the client's window; throws once the window's requests are used up
+   */
+  private limit(res: Response, clientId: string): void {
+    const { limit: defaultLimit, windowMs } = this.options.rateLimit || DEFAULT_RATE_LIMIT
+    const limit = this.clients.get(clientId)?.rateLimit ?? defaultLimit
+    this.prune()
+    const window = countIn(this.windows, clientId, windowMs)
+    const reset = Math.ceil((window.start + windowMs - Date.now()) / 1000)
+    res.set({ 'RateLimit-Limit': String(limit), 'RateLimit-Remaining': String(Math.max(0, limit - window.count)), 'RateLimit-Reset': String(reset) })
+    if (window.count > limit) {
+      res.set('Retry-After', String(reset))
+      throw new AuthError(AuthErrorCode.RATE_LIMITED, `Rate limit of ${limit} requests exceeded`, 429)
+    }
+  }
+
+  /**
+   * Refuse the request while its address or client is locked out after failed authentications
+   */
+  private checkFailures(res: Response, keys: string[]): void {
+    const { limit, windowMs } = this.options.failureLimit || DEFAULT_FAILURE_LIMIT
+    const now = Date.now()
+    for (const key of keys) {
+      const window = this.failures.get(key)
+      if (window && window.start + windowMs > now && window.count >= limit) {
+        res.set('Retry-After', String(Math.ceil((window.start + windowMs - now) / 1000)))
+        throw new AuthError(AuthErrorCode.RATE_LIMITED, 'Too many failed authentication attempts', 429)
+      }
+    }
+  }
+
+  private recordFailure(keys: string[]): void {
+    const { windowMs } = this.options.failureLimit || DEFAULT_FAILURE_LIMIT
+    this.prune()
+    keys.forEach(key => countIn(this.failures, key, windowMs))
+  }
+
+  private prune(): void {
+    const now = Date.now()
+    const { windowMs } = this.options.failureLimit || DEFAULT_FAILURE_LIMIT
+    for (const [key, window] of this.failures) {
+      if (window.start + windowMs <= now) {
+        this.failures.delete(key)
+      }
+    }
+    const rateWindowMs = (this.options.rateLimit || DEFAULT_RATE_LIMIT).windowMs
+    for (const [key, window] of this.windows) {
+      if (window.start + rateWindowMs <= now) {
+        this.windows.delete(key)
+      }
+    }
+    for (const [accessToken, token] of this.tokens) {
+      if (token.expiresAt < now) {
+        this.tokens.delete(accessToken)
+      }
+    }
+    for (const [proofId, expiresAt] of this.proofIds) {
+      if (expiresAt < now) {
+        this.proofIds.delete(proofId)
+      }
+    }
+  }
+
+  private sendError(res: Response, error: unknown, scheme: 'Basic' | 'Bearer' | 'DPoP') {
+    if (error instanceof AuthError) {
+      if (error.status === 401) {
+        res.set('WWW-Authenticate', scheme === 'Basic' ? 'Basic' : `${scheme} error="${error.code}"`)
+      }
+      return res.status(error.status).json(error.toResponse())
+    }
+    res.status(500).json({ error: 'server_error', error_description: error instanceof Error ? error.message : 'Unknown error' })
+  }
+}
+
+/**
+ * Count a hit in the key's fixed window, starting a new window once the last one ended
+ */
+function countIn(windows: Map<string, RateWindow>, key: string, windowMs: number): RateWindow {
+  const now = Date.now()
+  let window = windows.get(key)
+  if (!window || window.start + windowMs <= now) {
+    window = { start: now, count: 0 }
+    windows.set(key, window)
+  }
+  window.count++
+  return window
+}
+
+function addressOf(req: Request): string {
+  return req.ip || req.socket.remoteAddress || 'unknown'
+}
+
+function secretsMatch(given: string, expected: string): boolean {
+  const digest = (secret: string) => crypto.createHash('sha256').update(secret).digest()
+  return crypto.timingSafeEqual(digest(given), digest(expected))
+}
+
+/**
+ * JWK thumbprint (RFC 7638) of an EC or OKP public key
+ */
+function thumbprintOf(jwk: Record<string, string>): string {
+  if (jwk.kty !== 'EC' && jwk.kty !== 'OKP') {
+    throw new AuthError(AuthErrorCode.INVALID_DPOP_PROOF, `Unsupported DPoP key type: ${jwk.kty}`, 400)
+  }
+  const members = jwk.kty === 'EC' ? { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y } : { crv: jwk.crv, kty: jwk.kty, x: jwk.x }
+  return crypto.createHash('sha256').update(JSON.stringify(members)).digest('base64url')
+}
@@ -1,6 +1,8 @@
 // Bluetooth coordination server for Web Bluetooth API
 // This server coordinates between devices using Web Bluetooth API
 
+import { Authorize, loopbackOnly } from './auth.js';
+
 export class BluetoothServer {
   private connectedDevices: Map<string, any> = new Map();
   private isActive = false;
@@ -124,15 +126,15 @@ export class BluetoothServer {
   }
 }
 
-// Create HTTP endpoints for Web Bluetooth coordination
-export function createBluetoothServer(app: any) {
+// Create HTTP endpoints for Web Bluetooth coordination; all of them need the bluetooth scope
+export function createBluetoothServer(app: any, authorize: Authorize = loopbackOnly) {
   const bluetoothServer = new BluetoothServer();
   
   // Start the coordination service
   bluetoothServer.startService();
 
   // Get available Bluetooth devices
-  app.get('/api/bluetooth/devices', (req: any, res: any) => {
+  app.get('/api/bluetooth/devices', authorize('bluetooth'), (req: any, res: any) => {
     const devices = bluetoothServer.getConnectedDevices();
     res.json({
       devices: devices.map(device => ({
@@ -148,7 +150,7 @@ export function createBluetoothServer(app: any) {
   });
 
   // Connect to a Bluetooth device
-  app.post('/api/bluetooth/connect', async (req: any, res: any) => {
+  app.post('/api/bluetooth/connect', authorize('bluetooth'), async (req: any, res: any) => {
     try {
       const { deviceId, deviceInfo } = req.body;
       const result = await bluetoothServer.handleConnection(deviceId, deviceInfo || {});
@@ -159,7 +161,7 @@ export function createBluetoothServer(app: any) {
   });
 
   // Send data via Bluetooth
-  app.post('/api/bluetooth/send', async (req: any, res: any) => {
+  app.post('/api/bluetooth/send', authorize('bluetooth'), async (req: any, res: any) => {
     try {
       const { deviceId, data } = req.body;
       const result = await bluetoothServer.sendData(deviceId, data);
@@ -170,7 +172,7 @@ export function createBluetoothServer(app: any) {
   });
 
   // Receive data via Bluetooth
-  app.post('/api/bluetooth/receive', async (req: any, res: any) => {
+  app.post('/api/bluetooth/receive', authorize('bluetooth'), async (req: any, res: any) => {
     try {
       const { deviceId } = req.body;
       const result = await bluetoothServer.receiveData(deviceId);
@@ -181,7 +183,7 @@ export function createBluetoothServer(app: any) {
   });
 
   // Disconnect from a Bluetooth device
-  app.post('/api/bluetooth/disconnect', (req: any, res: any) => {
+  app.post('/api/bluetooth/disconnect', authorize('bluetooth'), (req: any, res: any) => {
     try {
       const { deviceId } = req.body;
       const success = bluetoothServer.disconnectDevice(deviceId);
@@ -192,7 +194,7 @@ export function createBluetoothServer(app: any) {
   });
 
   // Get Bluetooth server status
-  app.get('/api/bluetooth/status', (req: any, res: any) => {
+  app.get('/api/bluetooth/status', authorize('bluetooth'), (req: any, res: any) => {
     res.json(bluetoothServer.getServiceStatus());
   });
 
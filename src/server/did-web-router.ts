@@ -0,0 +1,33 @@
+// did:web document hosting
+// Serves the DID documents hosted by a DIDWebPlugin at /.well-known/did.json
+// and /<path>/did.json; mount it at the root of the domain.
+// Earlier versions are served for ?versionId= and ?versionTime=, with the version
+// in the ETag and its time in Last-Modified; deactivated DIDs answer 410 Gone
+
+import express, { Request, Response, Router } from 'express'
+import { DIDWebPlugin } from '../core/plugins/did-methods/did-web-plugin.js'
+
+export function createDIDWebRouter(plugin: DIDWebPlugin): Router {
+  const router = express.Router()
+
+  router.get(/\/did\.json$/, async (req: Request, res: Response) => {
+    const versionId = typeof req.query.versionId === 'string' ? req.query.versionId : undefined
+    const versionTime = typeof req.query.versionTime === 'string' ? req.query.versionTime : undefined
+    if (versionTime && Number.isNaN(Date.parse(versionTime))) {
+      return res.status(400).json({ error: 'invalidOptions', error_description: 'versionTime must be a date-time' })
+    }
+
+    const version = await plugin.getHostedVersion(req.path, { versionId, versionTime })
+    if (!version) {
+      return res.status(404).json({ error: 'notFound', error_description: 'No DID document at this path' })
+    }
+    res
+      .status(version.deactivated ? 410 : 200)
+      .set('ETag', `"${version.versionId}"`)
+      .set('Last-Modified', new Date(version.updated).toUTCString())
+      .type('application/did+json')
+      .send(JSON.stringify(version.document))
+  })
+
+  return router
+}
@@ -0,0 +1,312 @@
+// DIDComm mediator
+// Mediates for agents without a stable inbound endpoint, like mobile wallets:
+// grants mediation (Coordinate Mediation 3.0), keeps the DIDs each client
+// receives messages for, queues Routing 2.0 forward messages sent to those DIDs,
+// and hands them out on request or live over a WebSocket (Message Pickup 3.0).
+// Answers go back over the connection a request arrived on (`return_route: all`),
+// so mount the messenger with createDIDCommRouter() and attachDIDCommWebSocket().
+// Anyone may forward, so each recipient's queue is capped in messages and bytes,
+// and messages nobody picked up expire.
+
+import * as crypto from 'crypto'
+import { didOf } from '../core/didcomm/client.js'
+import { MediationMessageType, PickupMessageType } from '../core/didcomm/mediation.js'
+import { createDIDCommAttachment, createDIDCommMessage, getDIDCommAttachmentData } from '../core/didcomm/messages.js'
+import type { DIDCommMessenger } from '../core/didcomm/messenger.js'
+import { PROBLEM_REPORT_TYPE } from '../core/didcomm/protocols/types.js'
+import { DIDCOMM_FORWARD_TYPE, DIDCommError, DIDCommErrorCode, DIDCommMessage, DIDCommMessageContext } from '../core/didcomm/types.js'
+
+export interface MediationRecord {
+  clientDid: string
+  /** DIDs (or key IDs) the client receives forwarded messages for */
+  recipientDids: string[]
+  createdAt: string
+}
+
+export interface QueuedMessage {
+  id: string
+  recipientDid: string
+  /** The packed message that was forwarded */
+  packed: string
+  receivedAt: string
+}
+
+export interface MediatorStore {
+  getMediation(clientDid: string): Promise<MediationRecord | null>
+  saveMediation(record: MediationRecord): Promise<void>
+  /** The mediation a recipient DID is registered with */
+  findMediation(recipientDid: string): Promise<MediationRecord | null>
+  enqueue(message: QueuedMessage): Promise<void>
+  /** Oldest first */
+  listQueued(recipientDids: string[], limit?: number): Promise<QueuedMessage[]>
+  removeQueued(recipientDids: string[], ids: string[]): Promise<void>
+  /** Drop messages received before the given time */
+  removeQueuedBefore(receivedAt: string): Promise<void>
+}
+
+export class InMemoryMediatorStore implements MediatorStore {
+  private mediations: Map<string, MediationRecord> = new Map()
+  private queue: QueuedMessage[] = []
+
+  async getMediation(clientDid: string): Promise<MediationRecord | null> {
+    const record = this.mediations.get(clientDid)
+    return record ? { ...record, recipientDids: [...record.recipientDids] } : null
+  }
+
+  async saveMediation(record: MediationRecord): Promise<void> {
+    this.mediations.set(record.clientDid, { ...record, recipientDids: [...record.recipientDids] })
+  }
+
+  async findMediation(recipientDid: string): Promise<MediationRecord | null> {
+    const record = [...this.mediations.values()].find(candidate => candidate.recipientDids.includes(recipientDid))
+    return record ? this.getMediation(record.clientDid) : null
+  }
+
+  async enqueue(message: QueuedMessage): Promise<void> {
+    this.queue.push(message)
+  }
+
+  async listQueued(recipientDids: string[], limit?: number): Promise<QueuedMessage[]> {
+    return this.queue.filter(message => recipientDids.includes(message.recipientDid)).slice(0, limit)
+  }
+
+  async removeQueued(recipientDids: string[], ids: string[]): Promise<void> {
+    this.queue = this.queue.filter(message => !(ids.includes(message.id) && recipientDids.includes(message.recipientDid)))
+  }
+
+  async removeQueuedBefore(receivedAt: string): Promise<void> {
+    this.queue = this.queue.filter(message => message.receivedAt >= receivedAt)
+  }
+}
+
+export interface DIDCommMediatorOptions {
+  /** Best created with `maxThreads: 0`: the mediator never reads thread history */
+  messenger: DIDCommMessenger
+  /** The mediator's DID, with key agreement keys in the messenger's secrets */
+  did: string
+  store?: MediatorStore
+  /** Whether to mediate for a DID; everyone is granted by default */
+  grantMediation?: (clientDid: string) => Promise<boolean>
+  /** Most messages per delivery (default: 10) */
+  deliveryLimit?: number
+  /** Most messages and bytes queued per recipient DID; further forwards are refused (default: 100 messages, 5 MiB) */
+  queueLimit?: { messages: number; bytes: number }
+  /** Milliseconds a queued message is kept for pickup (default: 3 days) */
+  messageTtl?: number
+}
+
+export class DIDCommMediator {
+  readonly messenger: DIDCommMessenger
+  private store: MediatorStore
+  /** Clients that asked for live delivery */
+  private live: Set<string> = new Set()
+
+  constructor(private options: DIDCommMediatorOptions) {
+    this.messenger = options.messenger
+    this.store = options.store || new InMemoryMediatorStore()
+
+    this.handle(MediationMessageType.MEDIATE_REQUEST, (message, context) => this.mediate(message, context), false)
+    this.handle(MediationMessageType.RECIPIENT_UPDATE, (message, context, mediation) => this.updateRecipients(message, context, mediation))
+    this.handle(MediationMessageType.RECIPIENT_QUERY, (_message, context, mediation) =>
+      context.reply(MediationMessageType.RECIPIENT, { dids: mediation.recipientDids.map(did => ({ recipient_did: did })) })
+    )
+    this.handle(PickupMessageType.STATUS_REQUEST, (message, context, mediation) => this.replyStatus(message, context, mediation))
+    this.handle(PickupMessageType.DELIVERY_REQUEST, (message, context, mediation) => this.deliver(message, context, mediation))
+    this.handle(PickupMessageType.MESSAGES_RECEIVED, async (message, context, mediation) => {
+      const ids = Array.isArray(message.body.message_id_list) ? message.body.message_id_list : []
+      await this.store.removeQueued(mediation.recipientDids, ids)
+      await this.replyStatus(message, context, mediation)
+    })
+    this.handle(PickupMessageType.LIVE_DELIVERY_CHANGE, (message, context, mediation) => this.changeLiveDelivery(message, context, mediation))
+    this.messenger.on(DIDCOMM_FORWARD_TYPE, message => this.forward(message))
+  }
+
+  get did(): string {
+    return this.options.did
+  }
+
+  /**
+   * Handle a request from a client; all but mediation requests need granted mediation
+   */
+  private handle(
+    type: string,
+    handler: (message: DIDCommMessage, context: DIDCommMessageContext, mediation: MediationRecord) => Promise<void>,
+    requireMediation = true
+  ): void {
+    this.messenger.on(type, async (message, context) => {
+      if (!message.from || !context.metadata.authenticated) {
+        return
+      }
+      const mediation = await this.store.getMediation(message.from)
+      if (requireMediation && !mediation) {
+        return this.reportProblem(message, 'e.p.req.not-granted', `Mediation was not granted to ${message.from}`)
+      }
+      await handler(message, context, mediation!)
+    })
+  }
+
+  private async mediate(message: DIDCommMessage, context: DIDCommMessageContext): Promise<void> {
+    const clientDid = message.from!
+    if (!(await this.store.getMediation(clientDid))) {
+      if (this.options.grantMediation && !(await this.options.grantMediation(clientDid))) {
+        return context.reply(MediationMessageType.MEDIATE_DENY, {})
+      }
+      await this.store.saveMediation({ clientDid, recipientDids: [], createdAt: new Date().toISOString() })
+    }
+    await context.reply(MediationMessageType.MEDIATE_GRANT, { routing_did: [this.options.did] })
+  }
+
+  private async updateRecipients(message: DIDCommMessage, context: DIDCommMessageContext, mediation: MediationRecord): Promise<void> {
+    const updated = []
+    for (const update of Array.isArray(message.body.updates) ? message.body.updates : []) {
+      const { recipient_did: recipientDid, action } = update || {}
+      let result: string
+      if (typeof recipientDid !== 'string' || !recipientDid.startsWith('did:') || (action !== 'add' && action !== 'remove')) {
+        result = 'client_error'
+      } else if (action === 'add') {
+        const owner = mediation.recipientDids.includes(recipientDid) ? mediation : await this.store.findMediation(recipientDid)
+        result = owner ? (owner.clientDid === mediation.clientDid ? 'no_change' : 'client_error') : 'success'
+        if (result === 'success') {
+          mediation.recipientDids.push(recipientDid)
+        }
+      } else {
+        result = mediation.recipientDids.includes(recipientDid) ? 'success' : 'no_change'
+        mediation.recipientDids = mediation.recipientDids.filter(did => did !== recipientDid)
+      }
+      updated.push({ recipient_did: recipientDid, action, result })
+    }
+    await this.store.saveMediation(mediation)
+    await context.reply(MediationMessageType.RECIPIENT_UPDATE_RESPONSE, { updated })
+  }
+
+  /**
+   * Queue a forwarded message for its recipient, and push it if the client takes live delivery
+   */
+  private async forward(message: DIDCommMessage): Promise<void> {
+    const next = message.body.next
+    const attachment = message.attachments?.[0]
+    if (typeof next !== 'string' || !attachment) {
+      throw new DIDCommError(DIDCommErrorCode.MALFORMED, 'Forward message needs body.next and an attached message')
+    }
+    const mediation = (await this.store.findMediation(next)) || (await this.store.findMediation(didOf(next)))
+    if (!mediation) {
+      throw new DIDCommError(DIDCommErrorCode.NO_ENDPOINT, `${next} is not mediated here`)
+    }
+
+    const data = getDIDCommAttachmentData(attachment)
+    const recipientDid = mediation.recipientDids.includes(next) ? next : didOf(next)
+    const packed = data instanceof Uint8Array ? Buffer.from(data).toString('utf-8') : JSON.stringify(data)
+    const { messages, bytes } = this.options.queueLimit || { messages: 100, bytes: 5 * 1024 * 1024 }
+    const queued = await this.listQueued([recipientDid])
+    const queuedBytes = queued.reduce((total, message) => total + Buffer.byteLength(message.packed), Buffer.byteLength(packed))
+    if (queued.length >= messages || queuedBytes > bytes) {
+      throw new DIDCommError(DIDCommErrorCode.REJECTED, `The queue for ${recipientDid} is full`)
+    }
+    await this.store.enqueue({ id: crypto.randomUUID(), recipientDid, packed, receivedAt: new Date().toISOString() })
+    if (this.live.has(mediation.clientDid)) {
+      await this.pushQueued(mediation)
+    }
+  }
+
+  private async deliver(message: DIDCommMessage, context: DIDCommMessageContext, mediation: MediationRecord): Promise<void> {
+    const recipients = this.recipientsOf(message, mediation)
+    const queued = await this.listQueued(recipients, this.limitOf(message.body.limit))
+    if (!queued.length) {
+      return this.replyStatus(message, context, mediation)
+    }
+    await context.reply(
+      PickupMessageType.DELIVERY,
+      message.body.recipient_did ? { recipient_did: message.body.recipient_did } : {},
+      queued.map(attachmentOf)
+    )
+  }
+
+  private async changeLiveDelivery(message: DIDCommMessage, context: DIDCommMessageContext, mediation: MediationRecord): Promise<void> {
+    if (message.body.live_delivery !== true) {
+      this.live.delete(mediation.clientDid)
+      return this.replyStatus(message, context, mediation)
+    }
+    if (!this.messenger.getSession(mediation.clientDid)?.persistent) {
+      return this.reportProblem(message, 'e.m.live-mode-not-supported', 'Live delivery needs a WebSocket connection')
+    }
+    this.live.add(mediation.clientDid)
+    await this.replyStatus(message, context, mediation)
+    await this.pushQueued(mediation)
+  }
+
+  /**
+   * Push queued messages to a client over its open connection; they stay queued until acknowledged
+   */
+  private async pushQueued(mediation: MediationRecord): Promise<void> {
+    if (!this.messenger.getSession(mediation.clientDid)?.persistent) {
+      this.live.delete(mediation.clientDid)
+      return
+    }
+    const queued = await this.listQueued(mediation.recipientDids, this.limitOf())
+    if (!queued.length) {
+      return
+    }
+    try {
+      await this.messenger.send(
+        createDIDCommMessage({
+          type: PickupMessageType.DELIVERY,
+          from: this.options.did,
+          to: mediation.clientDid,
+          attachments: queued.map(attachmentOf)
+        })
+      )
+    } catch {
+      this.live.delete(mediation.clientDid)
+    }
+  }
+
+  private async replyStatus(message: DIDCommMessage, context: DIDCommMessageContext, mediation: MediationRecord): Promise<void> {
+    const queued = await this.listQueued(this.recipientsOf(message, mediation))
+    await context.reply(PickupMessageType.STATUS, {
+      ...(message.body.recipient_did ? { recipient_did: message.body.recipient_did } : {}),
+      message_count: queued.length,
+      live_delivery: this.live.has(mediation.clientDid),
+      ...(queued.length
+        ? {
+            oldest_received_time: Math.floor(Date.parse(queued[0].receivedAt) / 1000),
+            newest_received_time: Math.floor(Date.parse(queued[queued.length - 1].receivedAt) / 1000)
+          }
+        : {})
+    })
+  }
+
+  /**
+   * Queued messages that have not expired yet
+   */
+  private async listQueued(recipientDids: string[], limit?: number): Promise<QueuedMessage[]> {
+    const ttl = this.options.messageTtl ?? 3 * 24 * 60 * 60 * 1000
+    await this.store.removeQueuedBefore(new Date(Date.now() - ttl).toISOString())
+    return this.store.listQueued(recipientDids, limit)
+  }
+
+  private async reportProblem(message: DIDCommMessage, code: string, comment: string): Promise<void> {
+    await this.messenger.send(
+      createDIDCommMessage({
+        type: PROBLEM_REPORT_TYPE,
+        from: this.options.did,
+        to: message.from,
+        pthid: message.thid || message.id,
+        body: { code, comment }
+      })
+    )
+  }
+
+  private recipientsOf(message: DIDCommMessage, mediation: MediationRecord): string[] {
+    const recipientDid = message.body.recipient_did
+    return recipientDid ? mediation.recipientDids.filter(did => did === recipientDid) : mediation.recipientDids
+  }
+
+  private limitOf(limit?: unknown): number {
+    const max = this.options.deliveryLimit || 10
+    return typeof limit === 'number' && limit > 0 ? Math.min(limit, max) : max
+  }
+}
+
+function attachmentOf(queued: QueuedMessage) {
+  return { ...createDIDCommAttachment(JSON.parse(queued.packed)), id: queued.id }
+}
@@ -0,0 +1,69 @@
+// DIDComm v2 HTTP and WebSocket endpoints
+// Receives packed messages POSTed by other agents and hands them to a
+// DIDCommMessenger; answers 202 once the message was processed, or 200 with
+// a packed answer when the sender asked for `return_route: all`.
+// Over a WebSocket every frame is a packed message, and the connection stays
+// open for answers and messages pushed to the sender, like live delivery.
+
+import express, { Request, Response, Router } from 'express'
+import type { Server } from 'http'
+import { WebSocketServer } from 'ws'
+import { DIDCommMessenger } from '../core/didcomm/messenger.js'
+import { DIDCOMM_ENCRYPTED_MEDIA_TYPE, DIDCommError, DIDCommSession } from '../core/didcomm/types.js'
+
+export function createDIDCommRouter(messenger: DIDCommMessenger): Router {
+  const router = express.Router()
+
+  router.use(express.text({ type: ['application/didcomm-encrypted+json', 'application/didcomm-signed+json', 'application/didcomm-plain+json', 'application/json'], limit: '10mb' }))
+
+  router.post('/', async (req: Request, res: Response) => {
+    if (typeof req.body !== 'string' || !req.body) {
+      return res.status(415).json({ error: 'unsupported_media_type', error_description: 'Expected a packed DIDComm message' })
+    }
+    // The response carries one answer; later messages to the sender go to its endpoints
+    let answer: string | undefined
+    const session: DIDCommSession = {
+      persistent: false,
+      send: async packed => {
+        if (answer !== undefined || res.headersSent) {
+          throw new Error('The HTTP response already carries an answer')
+        }
+        answer = packed
+      }
+    }
+    try {
+      await messenger.receive(req.body, session)
+      if (answer !== undefined) {
+        return res.status(200).type(DIDCOMM_ENCRYPTED_MEDIA_TYPE).send(answer)
+      }
+      res.status(202).end()
+    } catch (error) {
+      if (error instanceof DIDCommError) {
+        return res.status(400).json({ error: error.code, error_description: error.message })
+      }
+      res.status(500).json({ error: 'server_error', error_description: error instanceof Error ? error.message : 'Unknown error' })
+    } finally {
+      messenger.closeSession(session)
+    }
+  })
+
+  return router
+}
+
+export function attachDIDCommWebSocket(server: Server, messenger: DIDCommMessenger, path = '/didcomm/ws'): WebSocketServer {
+  const wss = new WebSocketServer({ server, path })
+
+  wss.on('connection', socket => {
+    const session: DIDCommSession = {
+      persistent: true,
+      send: packed => new Promise((resolve, reject) => socket.send(packed, error => (error ? reject(error) : resolve())))
+    }
+    socket.on('message', data => {
+      // Messages that cannot be unpacked have no one to answer to; drop them
+      messenger.receive(data.toString(), session).catch(() => undefined)
+    })
+    socket.on('close', () => messenger.closeSession(session))
+  })
+
+  return wss
+}
@@ -0,0 +1,61 @@
+// OID4VCI credential issuer endpoints
+// Exposes issuer metadata, credential offers by reference, the token endpoint
+// and the credential endpoint for an OID4VCIIssuer
+
+import express, { Request, Response, Router } from 'express'
+import { OID4VCIIssuer } from '../core/oid4vci/issuer.js'
+import { OID4VCIError } from '../core/oid4vci/types.js'
+
+function sendError(res: Response, error: unknown) {
+  if (error instanceof OID4VCIError) {
+    if (error.status === 401) {
+      res.set('WWW-Authenticate', `Bearer error="${error.code}"`)
+    }
+    return res.status(error.status).json(error.toResponse())
+  }
+  res.status(500).json({ error: 'server_error', error_description: error instanceof Error ? error.message : 'Unknown error' })
+}
+
+export function createOID4VCIRouter(issuer: OID4VCIIssuer): Router {
+  const router = express.Router()
+
+  router.use(express.json())
+  router.use(express.urlencoded({ extended: false }))
+
+  router.get('/.well-known/openid-credential-issuer', (req: Request, res: Response) => {
+    res.json(issuer.getIssuerMetadata())
+  })
+
+  router.get('/.well-known/oauth-authorization-server', (req: Request, res: Response) => {
+    res.json(issuer.getAuthorizationServerMetadata())
+  })
+
+  router.get('/credential-offer/:id', (req: Request, res: Response) => {
+    const offer = issuer.getCredentialOffer(req.params.id)
+    if (!offer) {
+      return res.status(404).json({ error: 'not_found', error_description: 'Unknown credential offer' })
+    }
+    res.json(offer)
+  })
+
+  router.post('/token', async (req: Request, res: Response) => {
+    try {
+      res.set('Cache-Control', 'no-store')
+      res.json(await issuer.handleTokenRequest(req.body))
+    } catch (error) {
+      sendError(res, error)
+    }
+  })
+
+  router.post('/credential', async (req: Request, res: Response) => {
+    try {
+      const authorization = req.get('Authorization') || ''
+      const accessToken = authorization.startsWith('Bearer ') ? authorization.slice(7) : undefined
+      res.json(await issuer.handleCredentialRequest(accessToken, req.body))
+    } catch (error) {
+      sendError(res, error)
+    }
+  })
+
+  return router
+}
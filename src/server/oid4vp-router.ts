@@ -0,0 +1,51 @@
+// OID4VP verifier endpoints
+// Serves signed request objects by reference and receives direct_post
+// authorization responses for an OID4VPVerifier
+
+import express, { Request, Response, Router } from 'express'
+import { OID4VPVerifier } from '../core/oid4vp/verifier.js'
+import { OID4VPError, OID4VPErrorCode } from '../core/oid4vp/types.js'
+
+export function createOID4VPRouter(verifier: OID4VPVerifier): Router {
+  const router = express.Router()
+
+  router.use(express.json())
+  router.use(express.urlencoded({ extended: false }))
+
+  router.get('/request/:state', (req: Request, res: Response) => {
+    const requestObject = verifier.getRequestObject(req.params.state)
+    if (!requestObject) {
+      return res.status(404).json({ error: OID4VPErrorCode.INVALID_REQUEST, error_description: 'Unknown or expired request' })
+    }
+    res.type('application/oauth-authz-req+jwt').send(requestObject)
+  })
+
+  router.post('/response', async (req: Request, res: Response) => {
+    try {
+      const result = await verifier.handleAuthorizationResponse(req.body)
+      if (!result.isValid) {
+        return res.status(400).json({
+          error: OID4VPErrorCode.INVALID_REQUEST,
+          error_description: result.validationErrors.join('; ') || 'Presentation verification failed'
+        })
+      }
+      res.json({})
+    } catch (error) {
+      if (error instanceof OID4VPError) {
+        return res.status(error.status).json(error.toResponse())
+      }
+      res.status(500).json({ error: 'server_error', error_description: error instanceof Error ? error.message : 'Unknown error' })
+    }
+  })
+
+  // Lets the verifier front end poll for the outcome of a request
+  router.get('/status/:state', (req: Request, res: Response) => {
+    const session = verifier.getSession(req.params.state)
+    if (!session) {
+      return res.status(404).json({ error: 'not_found' })
+    }
+    res.json({ state: session.state, status: session.status })
+  })
+
+  return router
+}
@@ -0,0 +1,328 @@
+// W3C VC-API endpoints
+// Issuer, verifier and holder exchange endpoints of the Verifiable Credentials API,
+// backed by a ServiceAgent, so services in other languages can use the agent over
+// HTTP. Request bodies are checked against the schemas in vc-api-schemas.ts.
+// Issuer and verifier routes need scopes; exchanges are for wallets, which hold
+// no client credentials, so the unguessable transaction ID is their capability.
+// Starting exchanges is throttled and each exchange has a cap on open transactions.
+// https://w3c-ccg.github.io/vc-api/
+
+import * as crypto from 'crypto'
+import express, { NextFunction, Request, RequestHandler, Response, Router } from 'express'
+import Ajv from 'ajv'
+import addFormats from 'ajv-formats'
+import type { ServiceAgent, ServiceVerificationOptions } from '../core/agents/service-agent.js'
+import type { PresentationVerificationResult } from '../core/presentation/types.js'
+import { StatusListError } from '../core/revocation/types.js'
+import type { CredentialTemplate, ValidationResult, VerifiableCredential, VerifiablePresentation } from '../types/index.js'
+import { Authorize, loopbackOnly } from './auth.js'
+import {
+  issueCredentialRequestSchema,
+  participateInExchangeRequestSchema,
+  updateStatusRequestSchema,
+  verifyCredentialRequestSchema,
+  verifyPresentationRequestSchema
+} from './vc-api-schemas.js'
+
+/** The parts of a ServiceAgent the endpoints use */
+export type VCAPIAgent = Pick<
+  ServiceAgent,
+  | 'getServiceDID'
+  | 'issueCredential'
+  | 'verifyExternalCredential'
+  | 'verifyExternalPresentation'
+  | 'storeCredential'
+  | 'getCredential'
+  | 'revokeCredential'
+  | 'suspendCredential'
+  | 'reinstateCredential'
+  | 'supportsVerificationOption'
+>
+
+export interface VCAPIExchange {
+  /** Queries of the verifiable presentation request, e.g. `{ type: 'DIDAuthentication' }` */
+  query: Record<string, any>[]
+  /** Credentials to issue to the holder once its presentation verified; without it the exchange only verifies */
+  issue?: (presentation: VerifiablePresentation | string, result: PresentationVerificationResult) => Promise<CredentialTemplate[]>
+}
+
+export interface VCAPIRouterOptions {
+  /** Public URL the router is mounted at; exchange endpoints are announced under it */
+  baseUrl: string
+  /** Exchanges holders can take part in, by exchange ID */
+  exchanges?: Record<string, VCAPIExchange>
+  /** Milliseconds an exchange transaction stays open (default: 15 minutes) */
+  transactionTtl?: number
+  /** Scope checks for the issuer and verifier routes (default: local requests only) */
+  authorize?: Authorize
+  /** Rate limit for the public exchange routes, e.g. ServerAuth.throttle (default: none) */
+  throttle?: RequestHandler
+  /** Open transactions per exchange before new ones are refused (default: 100) */
+  maxOpenTransactions?: number
+}
+
+interface ExchangeTransaction {
+  id: string
+  exchangeId: string
+  challenge: string
+  /** `active` while the holder's presentation is being verified and answered */
+  state: 'pending' | 'active' | 'complete' | 'failed'
+  expiresAt: number
+  errors?: string[]
+}
+
+// Optional checks a verify request can ask for, and the verification option each turns on
+const CHECK_OPTIONS: Record<string, keyof ServiceVerificationOptions> = {
+  credentialStatus: 'checkRevocation',
+  expiration: 'validateExpiry',
+  credentialSchema: 'validateSchema',
+  trustRegistry: 'checkTrustRegistry'
+}
+
+const ajv = new Ajv({ allErrors: true, strict: false })
+addFormats(ajv)
+
+function validate(schema: object) {
+  const check = ajv.compile(schema)
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!check(req.body)) {
+      return res.status(400).json({ error: 'invalid_request', error_description: ajv.errorsText(check.errors) })
+    }
+    next()
+  }
+}
+
+class UnsupportedCheckError extends Error {
+  constructor(checks: string[]) {
+    super(`Unsupported checks: ${checks.join(', ')}`)
+  }
+}
+
+function sendError(res: Response, error: unknown) {
+  if (error instanceof UnsupportedCheckError) {
+    return res.status(400).json({ error: 'invalid_request', error_description: error.message })
+  }
+  if (error instanceof StatusListError) {
+    return res.status(400).json({ error: error.code, error_description: error.message })
+  }
+  res.status(500).json({ error: 'server_error', error_description: error instanceof Error ? error.message : 'Unknown error' })
+}
+
+/**
+ * Verification options for the requested checks; checks the agent cannot run are refused, not skipped
+ */
+function verificationOptions(agent: VCAPIAgent, checks: string[] = []): ServiceVerificationOptions {
+  const unsupported = checks.filter(
+    check => check !== 'proof' && (!CHECK_OPTIONS[check] || !agent.supportsVerificationOption(CHECK_OPTIONS[check]))
+  )
+  if (unsupported.length) {
+    throw new UnsupportedCheckError(unsupported)
+  }
+  return Object.fromEntries(checks.filter(check => CHECK_OPTIONS[check]).map(check => [CHECK_OPTIONS[check], true]))
+}
+
+function verificationResponse(result: ValidationResult, checks: string[] = []) {
+  return {
+    verified: result.isValid,
+    checks: ['proof', ...checks.filter(check => check !== 'proof')],
+    warnings: result.warnings,
+    errors: result.validationErrors
+  }
+}
+
+export function createVCAPIRouter(agent: VCAPIAgent, options: VCAPIRouterOptions): Router {
+  const router = express.Router()
+  const exchanges = options.exchanges || {}
+  const transactions: Map<string, ExchangeTransaction> = new Map()
+  const baseUrl = options.baseUrl.replace(/\/$/, '')
+  const domain = new URL(baseUrl).host
+  const authorize = options.authorize || loopbackOnly
+  const throttle: RequestHandler = options.throttle || ((req, res, next) => next())
+  const maxOpenTransactions = options.maxOpenTransactions ?? 100
+
+  router.use(express.json({ limit: '1mb' }))
+
+  const issue = async (template: CredentialTemplate): Promise<VerifiableCredential> => {
+    const issuer = template.issuer || (await agent.getServiceDID())
+    if (!issuer) {
+      throw new Error('The credential names no issuer and the service has no DID')
+    }
+    const credential = await agent.issueCredential({ ...template, issuer })
+    // Kept to look the status entries up when the status is updated
+    if (credential.credentialStatus) {
+      await agent.storeCredential(credential)
+    }
+    return credential
+  }
+
+  const pruneTransactions = () => {
+    const now = Date.now()
+    for (const [id, transaction] of transactions) {
+      if (transaction.expiresAt < now) {
+        transactions.delete(id)
+      }
+    }
+  }
+
+  const findTransaction = (req: Request): ExchangeTransaction | undefined => {
+    pruneTransactions()
+    const transaction = transactions.get(req.params.transactionId)
+    return transaction?.exchangeId === req.params.exchangeId ? transaction : undefined
+  }
+
+  router.post('/credentials/issue', authorize('credentials:issue'), validate(issueCredentialRequestSchema), async (req: Request, res: Response) => {
+    try {
+      res.status(201).json({ verifiableCredential: await issue(req.body.credential) })
+    } catch (error) {
+      sendError(res, error)
+    }
+  })
+
+  router.post('/credentials/verify', authorize('credentials:verify'), validate(verifyCredentialRequestSchema), async (req: Request, res: Response) => {
+    try {
+      const checks = req.body.options?.checks
+      const result = await agent.verifyExternalCredential(req.body.verifiableCredential, verificationOptions(agent, checks))
+      res.status(result.isValid ? 200 : 400).json(verificationResponse(result, checks))
+    } catch (error) {
+      sendError(res, error)
+    }
+  })
+
+  router.post('/presentations/verify', authorize('presentations:verify'), validate(verifyPresentationRequestSchema), async (req: Request, res: Response) => {
+    try {
+      const { challenge, domain: expectedDomain, checks } = req.body.options
+      const result = await agent.verifyExternalPresentation(req.body.verifiablePresentation, {
+        ...verificationOptions(agent, checks),
+        challenge,
+        domain: expectedDomain
+      })
+      res.status(result.isValid ? 200 : 400).json({ ...verificationResponse(result, checks), holder: result.holder })
+    } catch (error) {
+      sendError(res, error)
+    }
+  })
+
+  router.post('/credentials/status', authorize('credentials:status'), validate(updateStatusRequestSchema), async (req: Request, res: Response) => {
+    try {
+      const credential = await agent.getCredential(req.body.credentialId)
+      if (!credential?.credentialStatus) {
+        return res.status(404).json({ error: 'not_found', error_description: 'No credential with a status entry was issued under that ID' })
+      }
+      for (const { status } of req.body.credentialStatus) {
+        if (status === 'revoked') {
+          await agent.revokeCredential(credential)
+        } else if (status === 'suspended') {
+          await agent.suspendCredential(credential)
+        } else {
+          await agent.reinstateCredential(credential)
+        }
+      }
+      res.json({})
+    } catch (error) {
+      sendError(res, error)
+    }
+  })
+
+  router.get('/exchanges', (req: Request, res: Response) => {
+    res.json({ exchanges: Object.keys(exchanges) })
+  })
+
+  // Starts a transaction: the holder gets a presentation request and where to answer it
+  router.post('/exchanges/:exchangeId', throttle, (req: Request, res: Response) => {
+    const exchange = exchanges[req.params.exchangeId]
+    if (!exchange) {
+      return res.status(404).json({ error: 'not_found', error_description: 'Unknown exchange' })
+    }
+    pruneTransactions()
+    const open = Array.from(transactions.values()).filter(
+      transaction => transaction.exchangeId === req.params.exchangeId && ['pending', 'active'].includes(transaction.state)
+    )
+    if (open.length >= maxOpenTransactions) {
+      return res.status(503).json({ error: 'temporarily_unavailable', error_description: 'Too many open transactions for this exchange' })
+    }
+    const transaction: ExchangeTransaction = {
+      id: crypto.randomUUID(),
+      exchangeId: req.params.exchangeId,
+      challenge: crypto.randomUUID(),
+      state: 'pending',
+      expiresAt: Date.now() + (options.transactionTtl ?? 15 * 60 * 1000)
+    }
+    transactions.set(transaction.id, transaction)
+    res.json({
+      verifiablePresentationRequest: {
+        query: exchange.query,
+        challenge: transaction.challenge,
+        domain,
+        interact: {
+          service: [
+            {
+              type: 'UnmediatedPresentationService2021',
+              serviceEndpoint: `${baseUrl}/exchanges/${encodeURIComponent(transaction.exchangeId)}/${transaction.id}`
+            }
+          ]
+        }
+      }
+    })
+  })
+
+  // The holder answers with its presentation and gets the exchange's credentials, if any
+  router.put('/exchanges/:exchangeId/:transactionId', throttle, validate(participateInExchangeRequestSchema), async (req: Request, res: Response) => {
+    const transaction = findTransaction(req)
+    if (!transaction) {
+      return res.status(404).json({ error: 'not_found', error_description: 'Unknown or expired exchange transaction' })
+    }
+    if (transaction.state !== 'pending') {
+      return res.status(409).json({ error: 'invalid_state', error_description: `The transaction is already ${transaction.state}` })
+    }
+    // Claimed before the first await, so a concurrent answer gets the 409 above
+    transaction.state = 'active'
+    try {
+      const presentation = req.body.verifiablePresentation
+      const result = await agent.verifyExternalPresentation(presentation, { challenge: transaction.challenge, domain })
+      if (!result.isValid) {
+        // The challenge is spent either way
+        transaction.state = 'failed'
+        transaction.errors = result.validationErrors
+        return res.status(400).json(verificationResponse(result))
+      }
+
+      const templates = (await exchanges[transaction.exchangeId].issue?.(presentation, result)) || []
+      const credentials: VerifiableCredential[] = []
+      for (const template of templates) {
+        credentials.push(await issue(template))
+      }
+      transaction.state = 'complete'
+      res.json(
+        credentials.length
+          ? {
+              verifiablePresentation: {
+                '@context': ['https://www.w3.org/ns/credentials/v2'],
+                type: ['VerifiablePresentation'],
+                verifiableCredential: credentials
+              }
+            }
+          : {}
+      )
+    } catch (error) {
+      transaction.state = 'failed'
+      transaction.errors = [error instanceof Error ? error.message : 'Unknown error']
+      sendError(res, error)
+    }
+  })
+
+  // Lets the party that started the exchange poll for its outcome
+  router.get('/exchanges/:exchangeId/:transactionId', (req: Request, res: Response) => {
+    const transaction = findTransaction(req)
+    if (!transaction) {
+      return res.status(404).json({ error: 'not_found', error_description: 'Unknown or expired exchange transaction' })
+    }
+    res.json({
+      exchangeId: transaction.exchangeId,
+      transactionId: transaction.id,
+      state: transaction.state,
+      ...(transaction.errors ? { errors: transaction.errors } : {})
+    })
+  })
+
+  return router
+}
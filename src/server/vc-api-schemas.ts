@@ -0,0 +1,112 @@
+// JSON schemas of the VC-API request bodies
+// Only the shape the endpoints rely on is checked; credentials and presentations
+// are verified by the agent.
+// https://w3c-ccg.github.io/vc-api/
+
+const context = {
+  type: 'array',
+  minItems: 1,
+  items: { anyOf: [{ type: 'string' }, { type: 'object' }] }
+}
+
+const type = {
+  anyOf: [{ type: 'string' }, { type: 'array', minItems: 1, items: { type: 'string' } }]
+}
+
+const issuer = {
+  anyOf: [{ type: 'string' }, { type: 'object', required: ['id'], properties: { id: { type: 'string' } } }]
+}
+
+const checks = { type: 'array', items: { type: 'string' } }
+
+const verifiableCredential = {
+  type: 'object',
+  required: ['@context', 'type', 'issuer', 'credentialSubject', 'proof'],
+  properties: {
+    '@context': context,
+    type,
+    issuer,
+    credentialSubject: { type: 'object' },
+    proof: { anyOf: [{ type: 'object' }, { type: 'array' }] }
+  }
+}
+
+// Enveloped presentations (VC-JWT) are posted as their compact string
+const verifiablePresentation = {
+  anyOf: [
+    { type: 'string', minLength: 1 },
+    {
+      type: 'object',
+      required: ['@context', 'type'],
+      properties: { '@context': context, type }
+    }
+  ]
+}
+
+export const issueCredentialRequestSchema = {
+  type: 'object',
+  required: ['credential'],
+  properties: {
+    credential: {
+      type: 'object',
+      required: ['@context', 'type', 'credentialSubject'],
+      properties: {
+        '@context': context,
+        type: { type: 'array', minItems: 1, items: { type: 'string' } },
+        issuer,
+        validFrom: { type: 'string', format: 'date-time' },
+        validUntil: { type: 'string', format: 'date-time' },
+        credentialSubject: { type: 'object' }
+      }
+    },
+    options: { type: 'object' }
+  }
+}
+
+export const verifyCredentialRequestSchema = {
+  type: 'object',
+  required: ['verifiableCredential'],
+  properties: {
+    verifiableCredential,
+    options: { type: 'object', properties: { checks } }
+  }
+}
+
+export const verifyPresentationRequestSchema = {
+  type: 'object',
+  required: ['verifiablePresentation', 'options'],
+  properties: {
+    verifiablePresentation,
+    options: {
+      type: 'object',
+      required: ['challenge', 'domain'],
+      properties: { challenge: { type: 'string' }, domain: { type: 'string' }, checks }
+    }
+  }
+}
+
+export const updateStatusRequestSchema = {
+  type: 'object',
+  required: ['credentialId', 'credentialStatus'],
+  properties: {
+    credentialId: { type: 'string', minLength: 1 },
+    credentialStatus: {
+      type: 'array',
+      minItems: 1,
+      items: {
+        type: 'object',
+        required: ['type', 'status'],
+        properties: {
+          type: { const: 'BitstringStatusListEntry' },
+          status: { enum: ['revoked', 'suspended', 'active'] }
+        }
+      }
+    }
+  }
+}
+
+export const participateInExchangeRequestSchema = {
+  type: 'object',
+  required: ['verifiablePresentation'],
+  properties: { verifiablePresentation }
+}
@@ -1,2 +1,6 @@
 declare module '@digitalbazaar/ed25519-signature-2020';
-declare module '@digitalbazaar/data-integrity'; 
\ No newline at end of file
+declare module '@digitalbazaar/data-integrity';
+declare module 'jsonld';
+declare module '@digitalbazaar/bbs-2023-cryptosuite';
+declare module '@digitalbazaar/bls12-381-multikey';
+declare module 'jsonld-signatures';
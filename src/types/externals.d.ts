@@ -5,6 +5,28 @@ declare module 'qrcode' {
   }
 }
 
+declare module 'ws' {
+  import type { Server } from 'http'
+
+  export class WebSocketServer {
+    constructor(options: { server?: Server; port?: number; path?: string; noServer?: boolean })
+    on(event: 'connection', listener: (socket: WebSocket) => void): this
+    close(callback?: (error?: Error) => void): void
+  }
+
+  export default class WebSocket {
+    static readonly OPEN: number
+    readonly readyState: number
+    constructor(address: string)
+    send(data: string, callback?: (error?: Error) => void): void
+    close(code?: number, reason?: string): void
+    on(event: 'message', listener: (data: Buffer, isBinary: boolean) => void): this
+    on(event: 'open' | 'close', listener: () => void): this
+    on(event: 'error', listener: (error: Error) => void): this
+    addEventListener(type: 'open' | 'message' | 'close' | 'error', listener: (event: any) => void): void
+  }
+}
+
 declare module 'pako' {
   const deflate: (input: string | Uint8Array) => Uint8Array
   const inflate: (input: Uint8Array | Buffer) => Uint8Array
@@ -29,6 +29,7 @@ import {
 } from '@veramo/core-types';
 // import { ICheqd } from '@cheqd/did-provider-cheqd';
 import { CreateResourceParams, ResourceMetadata, UpdateResourceParams, ResourceListResult } from '../core/resource/types';
+import { PresentationOptions, PresentationVerificationOptions, PresentationVerificationResult } from '../core/presentation/types';
 
 // Re-export Veramo types as our base types
 export type IIdentifier = VeramoIdentifier;
@@ -61,6 +62,14 @@ export interface JwtProof {
   jwt: string;
 }
 
+/**
+ * SD-JWT VC in compact form (issuer JWT plus the disclosures held by the wallet)
+ */
+export interface SdJwtProof {
+  type: 'SdJwtVc';
+  sdJwt: string;
+}
+
 export interface IssuerObject {
   id: string;
   name?: string;
@@ -89,7 +98,7 @@ export interface VerifiableCredential {
   validUntil?: string;
   credentialSubject: CredentialSubject;
   credentialSchema?: CredentialSchema;
-  proof?: JwtProof | DataIntegrityProof;
+  proof?: JwtProof | DataIntegrityProof | SdJwtProof;
   [key: string]: any;
 }
 
@@ -770,6 +779,10 @@ export interface OpenVerifiableAgent {
   // Credential verification
   verifyCredential(credential: any): Promise<ValidationResult>;
   
+  // Presentation operations (holder binding via challenge and domain)
+  createPresentation(credentials: VerifiableCredential[], options: PresentationOptions): Promise<VerifiablePresentation>;
+  verifyPresentation(presentation: VerifiablePresentation | string, options: PresentationVerificationOptions): Promise<PresentationVerificationResult>;
+  
   // Resource management (our custom functionality)
   publishResource(params: Omit<CreateResourceParams, 'did'>): Promise<ResourceMetadata>;
   getResource(resourceId: string): Promise<ResourceMetadata | null>;
@@ -113,6 +113,11 @@ export async function createDevicePairingQR(deviceInfo: {
   deviceName: string
   capabilities: string[]
   bluetoothService?: string
+  // Pairing session and ephemeral X25519 key of a DevicePairingManager invitation
+  pairingId?: string
+  ephemeralKey?: string
+  method?: string
+  expiresAt?: string
 }): Promise<string> {
   const data = {
     type: 'device-pairing',
@@ -144,6 +149,8 @@ export async function createCredentialTransferQR(request: {
   transferMethod: string
   deviceId: string
   expiresAt: string
+  // OID4VCI credential offer URI the receiving wallet should redeem
+  credentialOffer?: string
 }): Promise<string> {
   const data = {
     type: 'credential-transfer-request',
@@ -0,0 +1,61 @@
+/**
+ * Test Helper for Protocol Flows
+ *
+ * Utilities for exercising HTTP protocol endpoints (OID4VCI, OID4VP, ...)
+ * against an in-process Express server with real did:key keys.
+ */
+
+import http from 'http';
+import crypto from 'crypto';
+import { EdDSASigner } from 'did-jwt';
+import { Resolver } from 'did-resolver';
+import { getDidKeyResolver } from '@veramo/did-provider-key';
+import { base58btc } from 'multiformats/bases/base58';
+
+/**
+ * fetch implementation over node:http; the global fetch is mocked in vitest.setup.ts
+ */
+export function httpFetch(url: string, init: RequestInit = {}): Promise<Response> {
+  return new Promise<Response>((resolve, reject) => {
+    const req = http.request(url, { method: init.method || 'GET', headers: init.headers as Record<string, string> }, res => {
+      const chunks: Buffer[] = [];
+      res.on('data', chunk => chunks.push(chunk));
+      res.on('end', () => resolve(new Response(res.statusCode === 204 || res.statusCode === 304 ? null : Buffer.concat(chunks), {
+        status: res.statusCode,
+        headers: Object.entries(res.headers).flatMap(([name, value]) =>
+          value === undefined ? [] : (Array.isArray(value) ? value : [value]).map(item => [name, item] as [string, string]))
+      })));
+    });
+    req.on('error', reject);
+    req.end(init.body as string | undefined);
+  });
+}
+
+/**
+ * Generate an Ed25519 did:key with a did-jwt signer and the ProofJwtSigner shape used by the protocol modules
+ */
+export function createDidKeyFixture() {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+  const pub = Buffer.from(publicKey.export({ format: 'jwk' }).x as string, 'base64url');
+  const secret = Buffer.from(privateKey.export({ format: 'jwk' }).d as string, 'base64url');
+  const multibase = base58btc.encode(Uint8Array.from([0xed, 0x01, ...pub]));
+  const did = `did:key:${multibase}`;
+  const signer = EdDSASigner(secret);
+
+  return {
+    did,
+    kid: `${did}#${multibase}`,
+    signer,
+    jwtSigner: {
+      kid: `${did}#${multibase}`,
+      alg: 'EdDSA',
+      sign: (data: string | Uint8Array) => signer(data) as Promise<string>
+    },
+    dataIntegritySigner: {
+      verificationMethod: `${did}#${multibase}`,
+      sign: async (data: Uint8Array) => Buffer.from(await signer(data) as string, 'base64url')
+    }
+  };
+}
+
+export const didKeyResolver = new Resolver({ ...getDidKeyResolver() });
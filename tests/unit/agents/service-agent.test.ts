@@ -1,5 +1,6 @@
-import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
 import { ServiceAgent } from '../../../src/core/agents/service-agent'
+import { BaseAgent } from '../../../src/core/agents/base'
 import { AgentType, CredentialTemplate, VerifiableCredential_2_0 } from '../../../src/types'
 import { createTestServiceAgent, cleanupTestAgent, TestUtils } from '../../setup/agent-test-helper'
 
@@ -165,6 +166,61 @@ describe('ServiceAgent', () => {
     })
   })
 
+  describe('verifyExternalPresentation', () => {
+    it('runs the requested checks on embedded credentials and fails on a revoked one', async () => {
+      const verifier = await createTestServiceAgent('revocation-checking-service', {
+        revocationEndpoint: 'https://status.example.com'
+      })
+      try {
+        const holder = await verifier.createDID('key')
+        // The base agent's issuance produces the JWT credentials presentations embed
+        const credential = await BaseAgent.prototype.issueCredential.call(verifier, TestUtils.createTestCredentialTemplate({
+          issuer: holder.did,
+          credentialSubject: { id: holder.did }
+        }))
+        const presentation = await verifier.createPresentation([credential], {
+          holder: holder.did,
+          challenge: 'challenge-1',
+          domain: 'verifier.example.com'
+        })
+        vi.spyOn(verifier as any, 'checkRevocationStatus').mockResolvedValue({ isRevoked: true, reason: 'revoked' })
+        const options = { challenge: 'challenge-1', domain: 'verifier.example.com' }
+
+        expect((await verifier.verifyExternalPresentation(presentation, options)).isValid).toBe(true)
+        const result = await verifier.verifyExternalPresentation(presentation, { ...options, checkRevocation: true })
+        expect(result.isValid).toBe(false)
+        expect(result.validationErrors).toContain(`Credential ${credential.id}: Credential revoked: revoked`)
+      } finally {
+        await cleanupTestAgent(verifier)
+      }
+    })
+
+    it('rejects credentials about someone other than the holder unless allowed', async () => {
+      const verifier = await createTestServiceAgent('subject-binding-service', {})
+      try {
+        const holder = await verifier.createDID('key')
+        const subject = await verifier.createDID('key')
+        const credential = await BaseAgent.prototype.issueCredential.call(verifier, TestUtils.createTestCredentialTemplate({
+          issuer: holder.did,
+          credentialSubject: { id: subject.did }
+        }))
+        const presentation = await verifier.createPresentation([credential], {
+          holder: holder.did,
+          challenge: 'challenge-2',
+          domain: 'verifier.example.com'
+        })
+        const options = { challenge: 'challenge-2', domain: 'verifier.example.com' }
+
+        const result = await verifier.verifyExternalPresentation(presentation, options)
+        expect(result.isValid).toBe(false)
+        expect(result.validationErrors).toContain(`Credential ${credential.id} subject ${subject.did} is not the holder ${holder.did}`)
+        expect((await verifier.verifyExternalPresentation(presentation, { ...options, allowThirdPartyCredentials: true })).isValid).toBe(true)
+      } finally {
+        await cleanupTestAgent(verifier)
+      }
+    })
+  })
+
   describe('Service-specific functionality', () => {
     it('should create service DID', async () => {
       const did = await serviceAgent.createServiceDID()
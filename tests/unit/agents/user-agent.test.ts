@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest'
 import { UserAgent } from '../../../src/core/agents/user-agent'
+import { DIDPeerPlugin, SecureStorageDIDPeerLongFormStore } from '../../../src/core/plugins/did-methods/did-peer-plugin'
 import { AgentType, CreateDIDOptions, CredentialTemplate, VerifiableCredential_2_0, DIDCreationResult, TrustStatus } from '../../../src/types'
 import { createTestUserAgent, cleanupTestAgent, TestUtils } from '../../setup/agent-test-helper'
 
@@ -64,6 +65,31 @@ describe('UserAgent', () => {
       const primaryDID = await userAgent.getPrimaryDID()
       expect(primaryDID).toBe(did.did)
     })
+    it('should mint a distinct peer DID per relationship and resolve it locally', async () => {
+      const alice = await userAgent.createPairwiseDID({ label: 'alice', serviceEndpoint: 'https://mediator.example/didcomm' })
+      const bob = await userAgent.createPairwiseDID({ label: 'bob', numalgo: 4 })
+
+      expect(alice.did).toMatch(/^did:peer:2\./)
+      expect(bob.did).toMatch(/^did:peer:4/)
+      expect((await userAgent.listPairwiseDIDs()).map(entry => entry.label)).toEqual(['alice', 'bob'])
+
+      const resolved = await userAgent.resolveDID(alice.did)
+      expect((resolved as any).service[0].serviceEndpoint).toMatchObject({ uri: 'https://mediator.example/didcomm' })
+      expect(await userAgent.secureStorage.retrieveKey(alice.document.keyAgreement![0] as string)).not.toBeNull()
+    })
+
+    it('lists pairwise DIDs and resolves short-form peer DIDs again after a restart', async () => {
+      const bob = await userAgent.createPairwiseDID({ label: 'bob', numalgo: 4 })
+
+      // A restart: nothing but the secure storage is kept
+      const restarted = new UserAgent({ userId: testUserId, encryptionKey: testEncryptionKey })
+      restarted.secureStorage = userAgent.secureStorage
+      ;(restarted as any).didPeer = new DIDPeerPlugin({ store: new SecureStorageDIDPeerLongFormStore(userAgent.secureStorage) })
+      await restarted.initialize()
+
+      expect((await restarted.listPairwiseDIDs()).map(entry => entry.did)).toEqual([bob.did])
+      expect((await restarted.resolveDID(bob.shortFormDid!) as any).alsoKnownAs).toEqual([bob.did])
+    })
   })
 
   describe('Credential Operations', () => {
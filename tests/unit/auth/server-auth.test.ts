@@ -0,0 +1,259 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import * as crypto from 'crypto'
+import express from 'express'
+import { AddressInfo } from 'net'
+import { Server } from 'http'
+import { AuthClient, AuthErrorCode, loopbackOnly, ServerAuth } from '../../../src/server/auth'
+import { httpFetch } from '../../setup/protocol-test-helper'
+
+const clients: AuthClient[] = [
+  { clientId: 'issuer-service', clientSecret: 's3cret', scopes: ['things:read', 'things:write'] },
+  { clientId: 'bound-service', clientSecret: 'b0und', scopes: ['things:read'], requireDPoP: true },
+  { clientId: 'chatty-service', clientSecret: 'ch4tty', scopes: ['things:read'], rateLimit: 2 }
+]
+
+const apiKeys = new Map([['reporting', 'api_reporting-key']])
+
+function createDPoPKey() {
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('ed25519')
+  const jwk = publicKey.export({ format: 'jwk' })
+  return (htm: string, htu: string, options: { accessToken?: string; jti?: string; iat?: number } = {}) => {
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url')
+    const input = `${encode({ typ: 'dpop+jwt', alg: 'EdDSA', jwk })}.${encode({
+      jti: options.jti || crypto.randomUUID(),
+      htm,
+      htu,
+      iat: options.iat ?? Math.floor(Date.now() / 1000),
+      ...(options.accessToken ? { ath: crypto.createHash('sha256').update(options.accessToken).digest('base64url') } : {})
+    })}`
+    return `${input}.${crypto.sign(null, Buffer.from(input), privateKey).toString('base64url')}`
+  }
+}
+
+describe('ServerAuth', () => {
+  let server: Server
+  let baseUrl: string
+
+  const requestToken = async (form: Record<string, string>, headers: Record<string, string> = {}) => {
+    const response = await httpFetch(`${baseUrl}/oauth/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', ...headers },
+      body: new URLSearchParams(form).toString()
+    })
+    return { status: response.status, headers: response.headers, body: await response.json() }
+  }
+  const basic = (clientId: string, secret: string) => ({ Authorization: `Basic ${Buffer.from(`${clientId}:${secret}`).toString('base64')}` })
+  const get = async (path: string, headers: Record<string, string> = {}, method = 'GET') => {
+    const response = await httpFetch(`${baseUrl}${path}`, { method, headers })
+    return { status: response.status, headers: response.headers, body: await response.json() }
+  }
+
+  beforeAll(() => {
+    const app = express()
+    server = app.listen(0)
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    const auth = new ServerAuth({
+      clients,
+      apiKeys: {
+        agent: { validateServiceAccess: async (apiKey: string, service: string) => apiKeys.get(service) === apiKey },
+        services: { reporting: ['things:read'] }
+      }
+    })
+    app.use('/oauth/token', auth.createTokenRouter())
+    app.get('/things', auth.authorize('things:read'), (req, res) => res.json(res.locals.auth))
+    app.post('/things', auth.authorize('things:write'), (req, res) => res.json(res.locals.auth))
+  })
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())))
+
+  it('grants bearer tokens with the client credentials grant and checks scopes per route', async () => {
+    const token = await requestToken({ grant_type: 'client_credentials', scope: 'things:read' }, basic('issuer-service', 's3cret'))
+    expect(token).toMatchObject({ status: 200, body: { token_type: 'Bearer', expires_in: 300, scope: 'things:read' } })
+    expect(token.headers.get('cache-control')).toBe('no-store')
+
+    const authorization = { Authorization: `Bearer ${token.body.access_token}` }
+    expect(await get('/things', authorization)).toMatchObject({ status: 200, body: { clientId: 'issuer-service', scopes: ['things:read'], method: 'bearer' } })
+    expect(await get('/things', authorization, 'POST')).toMatchObject({ status: 403, body: { error: AuthErrorCode.INSUFFICIENT_SCOPE } })
+
+    // Without a scope the client gets all of its scopes; secrets may go in the form body
+    const full = await requestToken({ grant_type: 'client_credentials', client_id: 'issuer-service', client_secret: 's3cret' })
+    expect(await get('/things', { Authorization: `Bearer ${full.body.access_token}` }, 'POST')).toMatchObject({ status: 200 })
+  })
+
+  it('rejects bad clients, grants, scopes and tokens', async () => {
+    const wrongSecret = await requestToken({ grant_type: 'client_credentials' }, basic('issuer-service', 'guess'))
+    expect(wrongSecret).toMatchObject({ status: 401, body: { error: AuthErrorCode.INVALID_CLIENT } })
+    expect(wrongSecret.headers.get('www-authenticate')).toBe('Basic')
+    expect(await requestToken({ grant_type: 'password' }, basic('issuer-service', 's3cret'))).toMatchObject({ status: 400, body: { error: AuthErrorCode.UNSUPPORTED_GRANT_TYPE } })
+    expect(await requestToken({ grant_type: 'client_credentials', scope: 'things:admin' }, basic('issuer-service', 's3cret'))).toMatchObject({ status: 400, body: { error: AuthErrorCode.INVALID_SCOPE } })
+    expect(await requestToken({ grant_type: 'client_credentials' }, basic('bound-service', 'b0und'))).toMatchObject({ status: 400, body: { error: AuthErrorCode.INVALID_DPOP_PROOF } })
+
+    const anonymous = await get('/things')
+    expect(anonymous).toMatchObject({ status: 401, body: { error: AuthErrorCode.INVALID_TOKEN } })
+    expect(anonymous.headers.get('www-authenticate')).toBe('Bearer error="invalid_token"')
+    expect(await get('/things', { Authorization: 'Bearer made-up' })).toMatchObject({ status: 401 })
+
+    const malformed = { Authorization: `Basic ${Buffer.from('issuer-service:%E0%A4%A').toString('base64')}` }
+    expect(await requestToken({ grant_type: 'client_credentials' }, malformed)).toMatchObject({ status: 401, body: { error: AuthErrorCode.INVALID_CLIENT } })
+  })
+
+  it('binds tokens to a DPoP key and checks a fresh proof on every request', async () => {
+    const proof = createDPoPKey()
+    const token = await requestToken({ grant_type: 'client_credentials' }, { ...basic('bound-service', 'b0und'), DPoP: proof('POST', `${baseUrl}/oauth/token`) })
+    expect(token).toMatchObject({ status: 200, body: { token_type: 'DPoP' } })
+    const accessToken = token.body.access_token
+
+    const fresh = proof('GET', `${baseUrl}/things`, { accessToken, jti: 'proof-1' })
+    expect(await get('/things', { Authorization: `DPoP ${accessToken}`, DPoP: fresh })).toMatchObject({ status: 200, body: { clientId: 'bound-service', method: 'dpop' } })
+
+    // Replayed, for another URL or token, stale, from another key, or as a bearer token
+    expect(await get('/things', { Authorization: `DPoP ${accessToken}`, DPoP: fresh })).toMatchObject({ status: 401, body: { error: AuthErrorCode.INVALID_DPOP_PROOF } })
+    expect(await get('/things', { Authorization: `DPoP ${accessToken}`, DPoP: proof('GET', `${baseUrl}/other`, { accessToken }) })).toMatchObject({ status: 401 })
+    expect(await get('/things', { Authorization: `DPoP ${accessToken}`, DPoP: proof('GET', `${baseUrl}/things`, { accessToken: 'other' }) })).toMatchObject({ status: 401 })
+    expect(await get('/things', { Authorization: `DPoP ${accessToken}`, DPoP: proof('GET', `${baseUrl}/things`, { accessToken, iat: Math.floor(Date.now() / 1000) - 3600 }) })).toMatchObject({ status: 401 })
+    const stolen = await get('/things', { Authorization: `DPoP ${accessToken}`, DPoP: createDPoPKey()('GET', `${baseUrl}/things`, { accessToken }) })
+    expect(stolen).toMatchObject({ status: 401, body: { error: AuthErrorCode.INVALID_TOKEN } })
+    expect(stolen.headers.get('www-authenticate')).toBe('DPoP error="invalid_token"')
+    expect(await get('/things', { Authorization: `Bearer ${accessToken}` })).toMatchObject({ status: 401, body: { error: AuthErrorCode.INVALID_TOKEN } })
+  })
+
+  it('only accepts DPoP keys of the type the proof alg names', async () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })
+    const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url')
+    const input = `${encode({ typ: 'dpop+jwt', alg: 'ES256', jwk: publicKey.export({ format: 'jwk' }) })}.${encode({
+      jti: crypto.randomUUID(),
+      htm: 'POST',
+      htu: `${baseUrl}/oauth/token`,
+      iat: Math.floor(Date.now() / 1000)
+    })}`
+    const rsaProof = `${input}.${crypto.sign('sha256', Buffer.from(input), privateKey).toString('base64url')}`
+
+    const token = await requestToken({ grant_type: 'client_credentials' }, { ...basic('bound-service', 'b0und'), DPoP: rsaProof })
+    expect(token).toMatchObject({ status: 400, body: { error: AuthErrorCode.INVALID_DPOP_PROOF, error_description: 'DPoP proofs with ES256 need a P-256 jwk' } })
+  })
+
+  it('accepts API keys minted by a ServiceAgent with the scopes of their service', async () => {
+    expect(await get('/things', { 'X-API-Key': 'api_reporting-key' })).toMatchObject({ status: 200, body: { clientId: 'api-key:reporting', method: 'api-key' } })
+    expect(await get('/things', { 'X-API-Key': 'api_reporting-key' }, 'POST')).toMatchObject({ status: 403 })
+
+    apiKeys.delete('reporting')
+    expect(await get('/things', { 'X-API-Key': 'api_reporting-key' })).toMatchObject({ status: 401, body: { error: AuthErrorCode.INVALID_TOKEN } })
+  })
+
+  it('rate limits each client', async () => {
+    const token = await requestToken({ grant_type: 'client_credentials' }, basic('chatty-service', 'ch4tty'))
+    const authorization = { Authorization: `Bearer ${token.body.access_token}` }
+
+    // The token request counts against the window too
+    const allowed = await get('/things', authorization)
+    expect(allowed.status).toBe(200)
+    expect(allowed.headers.get('ratelimit-remaining')).toBe('0')
+    const limited = await get('/things', authorization)
+    expect(limited).toMatchObject({ status: 429, body: { error: AuthErrorCode.RATE_LIMITED } })
+    expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0)
+
+    // Other clients have their own windows
+    const other = await requestToken({ grant_type: 'client_credentials' }, basic('issuer-service', 's3cret'))
+    expect((await get('/things', { Authorization: `Bearer ${other.body.access_token}` })).status).toBe(200)
+  })
+})
+
+describe('ServerAuth lockout', () => {
+  let server: Server
+  let baseUrl: string
+
+  const post = async (path: string, form: Record<string, string>) => {
+    const response = await httpFetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams(form).toString()
+    })
+    return { status: response.status, headers: response.headers, body: await response.json() }
+  }
+  const get = async (path: string, headers: Record<string, string> = {}) => {
+    const response = await httpFetch(`${baseUrl}${path}`, { headers })
+    return { status: response.status, body: await response.json() }
+  }
+
+  beforeAll(() => {
+    const app = express()
+    server = app.listen(0)
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    const auth = new ServerAuth({
+      clients,
+      apiKeys: { agent: { validateServiceAccess: async () => false }, services: { reporting: ['things:read'] } },
+      rateLimit: { limit: 2, windowMs: 60000 },
+      failureLimit: { limit: 3, windowMs: 60000 }
+    })
+    app.use('/oauth/token', auth.createTokenRouter())
+    app.get('/things', auth.authorize('things:read'), (req, res) => res.json(res.locals.auth))
+    app.get('/public', auth.throttle, (req, res) => res.json({}))
+  })
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())))
+
+  it('locks out an address that keeps failing to authenticate, even with the right secret', async () => {
+    const grant = { grant_type: 'client_credentials', client_id: 'issuer-service' }
+    expect(await post('/oauth/token', { ...grant, client_secret: 'guess-1' })).toMatchObject({ status: 401 })
+    expect(await post('/oauth/token', { ...grant, client_secret: 'guess-2' })).toMatchObject({ status: 401 })
+    expect(await get('/things', { 'X-API-Key': 'api_guess' })).toMatchObject({ status: 401 })
+
+    const locked = await post('/oauth/token', { ...grant, client_secret: 's3cret' })
+    expect(locked).toMatchObject({ status: 429, body: { error: AuthErrorCode.RATE_LIMITED } })
+    expect(Number(locked.headers.get('retry-after'))).toBeGreaterThan(0)
+    expect(await get('/things', { 'X-API-Key': 'api_guess' })).toMatchObject({ status: 429 })
+  })
+
+  it('rate limits public routes per address', async () => {
+    expect((await get('/public')).status).toBe(200)
+    expect((await get('/public')).status).toBe(200)
+    expect(await get('/public')).toMatchObject({ status: 429, body: { error: AuthErrorCode.RATE_LIMITED } })
+  })
+
+  it('locks a client ID out only at the address that guessed its secret, and forgets ended windows', async () => {
+    const auth = new ServerAuth({ clients, rateLimit: { limit: 100, windowMs: 60000 }, failureLimit: { limit: 3, windowMs: 60000 } })
+    const app = express()
+    app.set('trust proxy', true)
+    app.use('/oauth/token', auth.createTokenRouter())
+    app.get('/public', auth.throttle, (req, res) => res.json({}))
+    const proxied = app.listen(0)
+    const url = `http://127.0.0.1:${(proxied.address() as AddressInfo).port}`
+    const token = async (from: string, secret: string) => (await httpFetch(`${url}/oauth/token`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', 'X-Forwarded-For': from },
+      body: new URLSearchParams({ grant_type: 'client_credentials', client_id: 'issuer-service', client_secret: secret }).toString()
+    })).status
+
+    try {
+      for (const guess of ['guess-1', 'guess-2', 'guess-3']) {
+        expect(await token('203.0.113.7', guess)).toBe(401)
+      }
+      expect(await token('203.0.113.7', 's3cret')).toBe(429)
+      expect(await token('198.51.100.1', 's3cret')).toBe(200)
+
+      await httpFetch(`${url}/public`, { headers: { 'X-Forwarded-For': '192.0.2.1' } })
+      expect((auth as any).windows.size).toBeGreaterThan(0)
+      vi.useFakeTimers({ toFake: ['Date'] })
+      vi.setSystemTime(Date.now() + 61000)
+      await httpFetch(`${url}/public`, { headers: { 'X-Forwarded-For': '192.0.2.2' } })
+      expect(Array.from((auth as any).windows.keys())).toEqual(['address:192.0.2.2'])
+    } finally {
+      vi.useRealTimers()
+      await new Promise<void>(resolve => proxied.close(() => resolve()))
+    }
+  })
+})
+
+describe('loopbackOnly', () => {
+  it('only lets requests from this host through', () => {
+    const next = vi.fn()
+    const res = { status: vi.fn().mockReturnThis(), json: vi.fn() }
+    const middleware = loopbackOnly('anything')
+
+    middleware({ socket: { remoteAddress: '::ffff:127.0.0.1' } } as any, res as any, next)
+    expect(next).toHaveBeenCalledTimes(1)
+    middleware({ socket: { remoteAddress: '203.0.113.7' } } as any, res as any, next)
+    expect(next).toHaveBeenCalledTimes(1)
+    expect(res.status).toHaveBeenCalledWith(403)
+  })
+})
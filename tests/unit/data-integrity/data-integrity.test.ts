@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DataIntegrityClient,
+  DataIntegrityError,
+  DataIntegrityErrorCode,
+  createDocumentLoader
+} from '../../../src/core/data-integrity'
+import { createDidKeyFixture, didKeyResolver } from '../../setup/protocol-test-helper'
+
+const issuerKey = createDidKeyFixture()
+const client = new DataIntegrityClient()
+const signer = issuerKey.dataIntegritySigner
+
+const credential = {
+  '@context': ['https://www.w3.org/ns/credentials/v2'],
+  id: 'urn:uuid:58172aac-d8ba-11ed-83dd-0b3aef56cc33',
+  type: ['VerifiableCredential'],
+  issuer: issuerKey.did,
+  validFrom: '2024-01-01T00:00:00Z',
+  credentialSubject: { id: 'did:example:subject', name: 'Alice' }
+}
+
+describe('Data Integrity EdDSA cryptosuites', () => {
+  it.each(['eddsa-rdfc-2022', 'eddsa-jcs-2022'] as const)('creates and verifies %s proofs', async cryptosuite => {
+    const secured = await client.addProof(credential, { cryptosuite, signer })
+
+    expect(secured.proof).toMatchObject({
+      type: 'DataIntegrityProof',
+      cryptosuite,
+      verificationMethod: issuerKey.kid,
+      proofPurpose: 'assertionMethod'
+    })
+    expect(secured.proof.proofValue).toMatch(/^z/)
+
+    const result = await client.verifyProof(secured, { resolver: didKeyResolver })
+    expect(result.errors).toEqual([])
+    expect(result.verified).toBe(true)
+  })
+
+  it.each(['eddsa-rdfc-2022', 'eddsa-jcs-2022'] as const)('detects a modified %s credential', async cryptosuite => {
+    const secured = await client.addProof(credential, { cryptosuite, signer })
+    const tampered = { ...secured, credentialSubject: { ...secured.credentialSubject, name: 'Mallory' } }
+
+    const result = await client.verifyProof(tampered, { resolver: didKeyResolver })
+    expect(result.verified).toBe(false)
+    expect(result.errors).toContain('Proof signature is invalid')
+  })
+
+  it('binds challenge and domain into the signed proof', async () => {
+    const secured = await client.addProof(credential, {
+      cryptosuite: 'eddsa-rdfc-2022',
+      signer,
+      proofPurpose: 'authentication',
+      challenge: 'abc',
+      domain: 'verifier.example'
+    })
+
+    const ok = await client.verifyProof(secured, {
+      resolver: didKeyResolver,
+      expectedProofPurpose: 'authentication',
+      challenge: 'abc',
+      domain: 'verifier.example'
+    })
+    expect(ok.verified).toBe(true)
+
+    const replayed = await client.verifyProof(secured, { resolver: didKeyResolver, expectedProofPurpose: 'authentication', challenge: 'other' })
+    expect(replayed.errors).toContain('Proof challenge does not match')
+
+    const wrongPurpose = await client.verifyProof(secured, { resolver: didKeyResolver })
+    expect(wrongPurpose.errors).toContain('Proof purpose authentication does not match expected assertionMethod')
+  })
+
+  it('adds the Data Integrity context to VC 1.1 documents signed with eddsa-rdfc-2022', async () => {
+    const { validFrom: _validFrom, ...v1Credential } = credential
+    const secured = await client.addProof(
+      {
+        ...v1Credential,
+        '@context': ['https://www.w3.org/2018/credentials/v1'],
+        issuanceDate: '2024-01-01T00:00:00Z',
+        credentialSubject: { id: 'did:example:subject' }
+      },
+      { cryptosuite: 'eddsa-rdfc-2022', signer }
+    )
+
+    expect(secured['@context']).toEqual([
+      'https://www.w3.org/2018/credentials/v1',
+      'https://w3id.org/security/data-integrity/v2'
+    ])
+    expect((await client.verifyProof(secured, { resolver: didKeyResolver })).verified).toBe(true)
+  })
+
+  it('rejects verification methods that are not authorized for the proof purpose', async () => {
+    const secured = await client.addProof(credential, { cryptosuite: 'eddsa-jcs-2022', signer })
+    const { didDocument } = await didKeyResolver.resolve(issuerKey.did)
+    const resolver = { resolve: async () => ({ didDocument: { ...didDocument!, assertionMethod: [] }, didResolutionMetadata: {}, didDocumentMetadata: {} }) }
+
+    const result = await client.verifyProof(secured, { resolver })
+    expect(result.errors).toEqual([`Verification method ${issuerKey.kid} is not authorized for assertionMethod`])
+  })
+
+  it('never loads unpinned contexts', async () => {
+    const document = { ...credential, '@context': [...credential['@context'], 'https://example.com/remote/v1'] }
+
+    await expect(client.addProof(document, { cryptosuite: 'eddsa-rdfc-2022', signer }))
+      .rejects.toMatchObject({ code: DataIntegrityErrorCode.CONTEXT_NOT_ALLOWED })
+
+    const withContext = new DataIntegrityClient({
+      documentLoader: createDocumentLoader({
+        contexts: { 'https://example.com/remote/v1': { '@context': { nickname: 'https://example.com/vocab#nickname' } } }
+      })
+    })
+    const secured = await withContext.addProof({ ...document, nickname: 'Al' }, { cryptosuite: 'eddsa-rdfc-2022', signer })
+    expect((await withContext.verifyProof(secured, { resolver: didKeyResolver })).verified).toBe(true)
+
+    const result = await client.verifyProof(secured, { resolver: didKeyResolver })
+    expect(result.verified).toBe(false)
+    expect(result.errors[0]).toMatch(/not pinned/)
+  })
+
+  it('refuses to sign terms that the contexts do not define', async () => {
+    const document = { ...credential, '@context': ['https://www.w3.org/2018/credentials/v1'], issuanceDate: '2024-01-01T00:00:00Z' }
+
+    await expect(client.addProof(document, { cryptosuite: 'eddsa-rdfc-2022', signer }))
+      .rejects.toMatchObject({ code: DataIntegrityErrorCode.CANONICALIZATION_FAILED })
+  })
+
+  it('rejects unsupported cryptosuites', async () => {
+    await expect(client.addProof(credential, { cryptosuite: 'ecdsa-rdfc-2019' as any, signer }))
+      .rejects.toBeInstanceOf(DataIntegrityError)
+  })
+})
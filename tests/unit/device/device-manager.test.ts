@@ -0,0 +1,139 @@
+import { describe, it, expect, vi } from 'vitest'
+import { DeviceManager } from '../../../src/core/device/manager'
+import { DeviceInfo } from '../../../src/core/device/types'
+import { KeyManager } from '../../../src/core/key-management/manager'
+import { KeyAlgorithm } from '../../../src/core/key-management/types'
+import { DIDKeyPlugin } from '../../../src/core/plugins/did-methods/did-key-plugin'
+import { InMemoryStorage } from '../../../src/core/storage/memory'
+import { RuntimePlatform } from '../../../src/types'
+
+const USER_DID = 'did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK'
+
+function deviceInfo(overrides: Partial<DeviceInfo['identifiers']> = {}): DeviceInfo {
+  return {
+    platform: RuntimePlatform.REACT_NATIVE,
+    identifiers: { hardwareId: 'A1B2-C3D4', deviceId: 'phone-1', bluetoothId: 'AA:BB:CC:DD:EE:FF', timestamp: '2025-01-01T00:00:00Z', ...overrides },
+    capabilities: { bluetooth: true, nfc: true, hsm: true, biometric: true, secureStorage: true, network: true },
+    metadata: { manufacturer: 'Example', model: 'Phone 1', os: 'Android', name: "Alice's phone" }
+  }
+}
+
+function createManager() {
+  const keyManager = new KeyManager()
+  const issueCredential = vi.fn(async (template: any) => ({ ...template, id: 'urn:uuid:attestation', proof: { type: 'JwtProof2020', jwt: 'header.payload.signature' } }))
+  return { keyManager, issueCredential, devices: new DeviceManager({ keyManager, issueCredential }) }
+}
+
+describe('DeviceManager', () => {
+  it('creates a did:key device DID that is stable for the same identifiers and key algorithm', async () => {
+    const { keyManager, devices } = createManager()
+
+    const phone = await devices.createDeviceDID({ method: 'hardware', deviceInfo: deviceInfo(), encryptionKey: 'secret' })
+    expect(phone.did).toMatch(/^did:key:z6Mk/)
+    expect(phone.document.id).toBe(phone.did)
+    expect(await new DIDKeyPlugin().resolveDID(phone.did)).toEqual(phone.document)
+
+    // Case and whitespace of identifiers do not matter; other identifiers are not used by the method
+    const again = await devices.createDeviceDID({ method: 'hardware', deviceInfo: deviceInfo({ hardwareId: ' a1b2-c3d4 ', deviceId: 'other' }), encryptionKey: 'secret' })
+    expect(again.did).toBe(phone.did)
+    expect(again.keyId).toBe(phone.keyId)
+    expect(await keyManager.listKeys()).toHaveLength(1)
+
+    const otherKey = await devices.createDeviceDID({ method: 'hardware', deviceInfo: deviceInfo(), encryptionKey: 'other secret' })
+    const laptop = await devices.createDeviceDID({ method: 'hardware', deviceInfo: deviceInfo({ hardwareId: 'LAPTOP' }), encryptionKey: 'secret' })
+    expect(new Set([phone.did, otherKey.did, laptop.did]).size).toBe(3)
+
+    await expect(devices.createDeviceDID({ method: 'bluetooth', deviceInfo: deviceInfo({ bluetoothId: undefined }) })).rejects.toThrow('No bluetoothId identifier')
+  })
+
+  it('gives a device the same DID after a restart, from the seed in storage', async () => {
+    const storage = new InMemoryStorage()
+    const options = { method: 'hardware' as const, deviceInfo: deviceInfo(), encryptionKey: 'secret' }
+    const before = await new DeviceManager({ keyManager: new KeyManager(), storage }).createDeviceDID(options)
+
+    const devices = new DeviceManager({ keyManager: new KeyManager(), storage })
+    const after = await devices.createDeviceDID(options)
+    expect(after.did).toBe(before.did)
+    const data = new TextEncoder().encode('challenge')
+    expect(await new DIDKeyPlugin().verifySignature(after.did, data, await devices.sign(after.did, data))).toBe(true)
+
+    const p256 = { ...options, keyAlgorithm: KeyAlgorithm.P256 }
+    const ecBefore = await devices.createDeviceDID(p256)
+    expect(ecBefore.did).toMatch(/^did:key:zDn/)
+    expect((await new DeviceManager({ keyManager: new KeyManager(), storage }).createDeviceDID(p256)).did).toBe(ecBefore.did)
+
+    const elsewhere = await new DeviceManager({ keyManager: new KeyManager(), storage: new InMemoryStorage() }).createDeviceDID(options)
+    expect(elsewhere.did).not.toBe(before.did)
+  })
+
+  it('keeps only a fingerprint of the device identifiers in the registry', async () => {
+    const { devices } = createManager()
+    const { did } = await devices.createDeviceDID({ method: 'composite', deviceInfo: deviceInfo() })
+
+    const entry = devices.getDevice(did)!
+    expect(entry).toMatchObject({ did, status: 'active', trustLevel: 'verified', associatedKeys: [expect.any(String)] })
+    expect(entry.fingerprint).toMatch(/^[0-9a-f]{64}$/)
+    expect(JSON.stringify(entry)).not.toContain('AA:BB:CC:DD:EE:FF')
+    expect(entry.deviceInfo.identifiers).toEqual({ timestamp: '2025-01-01T00:00:00Z' })
+    expect(devices.listDevices({ status: 'active' }).map(device => device.did)).toEqual([did])
+  })
+
+  it('issues attestations from the user DID without device identifiers', async () => {
+    const { devices, issueCredential } = createManager()
+    const hidden = await devices.createDeviceDID({ method: 'device', deviceInfo: deviceInfo() })
+    const disclosed = await devices.createDeviceDID({ method: 'hardware', deviceInfo: deviceInfo(), includeDeviceMetadata: true })
+
+    const attestation = await devices.issueAttestation(hidden.did, { issuer: USER_DID, validUntil: '2030-01-01T00:00:00Z' })
+    const template = issueCredential.mock.calls[0][0]
+    expect(template).toMatchObject({
+      type: ['VerifiableCredential', 'DeviceAttestationCredential'],
+      issuer: USER_DID,
+      validUntil: '2030-01-01T00:00:00Z',
+      credentialSubject: { id: hidden.did, controller: USER_DID, platform: RuntimePlatform.REACT_NATIVE }
+    })
+    expect(template.credentialSubject.metadata).toBeUndefined()
+    expect(JSON.stringify(template)).not.toContain('phone-1')
+    expect(devices.getDevice(hidden.did)).toMatchObject({ controller: USER_DID, trustLevel: 'trusted', attestation })
+
+    await devices.issueAttestation(disclosed.did, { issuer: USER_DID })
+    expect(issueCredential.mock.calls[1][0].credentialSubject.metadata).toEqual(deviceInfo().metadata)
+    expect(devices.listDevices({ controller: USER_DID })).toHaveLength(2)
+  })
+
+  it('maps keys to devices and enforces their permissions', async () => {
+    const { keyManager, devices } = createManager()
+    const { did, keyId } = await devices.createDeviceDID({ method: 'device', deviceInfo: deviceInfo() })
+    const backupKey = await keyManager.generateKey('Ed25519')
+
+    expect(devices.addKeyMapping(did, backupKey, 'backup').permissions).toEqual({ sign: false, encrypt: true, decrypt: true, export: true, rotate: false })
+    expect(() => devices.addKeyMapping(did, backupKey, 'session')).toThrow('already mapped')
+    expect(devices.getKeyMappings(did).map(mapping => [mapping.keyId, mapping.keyType])).toEqual([[keyId, 'master'], [backupKey, 'backup']])
+    expect(devices.findDeviceByKey(backupKey)?.did).toBe(did)
+
+    const data = new TextEncoder().encode('hello')
+    const signature = await devices.sign(did, data)
+    expect(await new DIDKeyPlugin().verifySignature(did, data, signature)).toBe(true)
+    await expect(devices.sign(did, data, backupKey)).rejects.toThrow('may not sign')
+
+    expect(() => devices.removeKeyMapping(did, keyId)).toThrow('cannot be unmapped')
+    devices.removeKeyMapping(did, backupKey)
+    expect(devices.getDevice(did)!.associatedKeys).toEqual([keyId])
+  })
+
+  it('blocks and removes devices', async () => {
+    const { keyManager, devices } = createManager()
+    const options = { method: 'device' as const, deviceInfo: deviceInfo() }
+    const { did, keyId } = await devices.createDeviceDID(options)
+
+    devices.setDeviceStatus(did, 'blocked')
+    expect(devices.getDevice(did)!.trustLevel).toBe('blocked')
+    await expect(devices.createDeviceDID(options)).rejects.toThrow('is blocked')
+    await expect(devices.sign(did, new Uint8Array([1]))).rejects.toThrow('is blocked')
+    await expect(devices.issueAttestation(did, { issuer: USER_DID })).rejects.toThrow('is blocked')
+
+    await devices.removeDevice(did)
+    expect(devices.getDevice(did)).toBeUndefined()
+    expect(await keyManager.getKeyMetadata(keyId)).toBeNull()
+    expect((await devices.createDeviceDID(options)).did).not.toBe(did)
+  })
+})
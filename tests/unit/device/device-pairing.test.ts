@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest'
+import { DeviceManager } from '../../../src/core/device/manager'
+import { DevicePairingManager, parseDevicePairingInvitation } from '../../../src/core/device/pairing'
+import { DeviceInfo, DevicePairingMessage, DevicePairingTransport } from '../../../src/core/device/types'
+import { KeyManager } from '../../../src/core/key-management/manager'
+import { RuntimePlatform } from '../../../src/types'
+
+function deviceInfo(name: string): DeviceInfo {
+  return {
+    platform: RuntimePlatform.NODE,
+    identifiers: { hardwareId: `${name}-hardware`, timestamp: '2025-01-01T00:00:00Z' },
+    capabilities: { bluetooth: true, nfc: false, hsm: false, biometric: false, secureStorage: true, network: true },
+    metadata: { name }
+  }
+}
+
+async function createDevice(name: string) {
+  const devices = new DeviceManager({ keyManager: new KeyManager() })
+  const { did } = await devices.createDeviceDID({ method: 'hardware', deviceInfo: deviceInfo(name), includeDeviceMetadata: true })
+  return { devices, did, pairing: new DevicePairingManager({ devices }) }
+}
+
+/**
+ * Two connected in-memory transports; `intercept` may rewrite messages from the responder
+ */
+function transportPair(intercept: (message: DevicePairingMessage) => DevicePairingMessage = message => message) {
+  const queues: DevicePairingMessage[][] = [[], []]
+  const waiting: ((message: DevicePairingMessage) => void)[][] = [[], []]
+  const endpoint = (inbox: number, outbox: number, rewrite: typeof intercept): DevicePairingTransport => ({
+    async send(message) {
+      const copy = rewrite(JSON.parse(JSON.stringify(message)))
+      const waiter = waiting[outbox].shift()
+      if (waiter) {
+        waiter(copy)
+      } else {
+        queues[outbox].push(copy)
+      }
+    },
+    receive() {
+      const message = queues[inbox].shift()
+      return message ? Promise.resolve(message) : new Promise(resolve => waiting[inbox].push(resolve))
+    }
+  })
+  return { initiator: endpoint(0, 1, message => message), responder: endpoint(1, 0, intercept) }
+}
+
+describe('DevicePairingManager', () => {
+  it('pairs two devices over a QR invitation after both users confirm the same SAS', async () => {
+    const phone = await createDevice('phone')
+    const laptop = await createDevice('laptop')
+    const { initiator, responder } = transportPair()
+
+    const { invitation, qrCode } = await laptop.pairing.createInvitation({ localDeviceDID: laptop.did, method: 'qr', requireAuth: true, timeout: 5000 })
+    expect(qrCode).toMatch(/^data:image\/png;base64,/)
+    expect(invitation).toMatchObject({ type: 'device-pairing', deviceId: laptop.did, deviceName: 'laptop', capabilities: ['bluetooth', 'secureStorage', 'network'] })
+
+    const shown: string[] = []
+    const [laptopResult, phoneResult] = await Promise.all([
+      laptop.pairing.initiate(invitation.pairingId, initiator, async sas => { shown.push(sas); return true }),
+      phone.pairing.respond(JSON.stringify(invitation), responder, { localDeviceDID: phone.did }, async sas => { shown.push(sas); return true })
+    ])
+
+    expect(shown[0]).toMatch(/^\d{6}$/)
+    expect(shown[1]).toBe(shown[0])
+    expect(laptopResult.status).toBe('paired')
+    expect(phoneResult.status).toBe('paired')
+    expect(Buffer.from(laptopResult.sharedSecret).toString('hex')).toBe(Buffer.from(phoneResult.sharedSecret).toString('hex'))
+    expect(laptopResult.sharedSecret).toHaveLength(32)
+    expect(laptopResult.remoteDevice.did).toBe(phone.did)
+    expect(JSON.stringify(phoneResult.remoteDevice)).not.toContain('laptop-hardware')
+
+    // Each device verifies the token the other one signed
+    const payload = await phone.pairing.verifyPairingToken(laptopResult.pairingToken, { subject: phone.did })
+    expect(payload).toMatchObject({ iss: laptop.did, sub: phone.did, jti: invitation.pairingId })
+    expect(payload.exp * 1000).toBe(Date.parse(laptopResult.expiresAt))
+    await expect(laptop.pairing.verifyPairingToken(phoneResult.pairingToken, { subject: phone.did })).rejects.toThrow('is not for')
+    const [header, body] = laptopResult.pairingToken.split('.')
+    await expect(phone.pairing.verifyPairingToken(`${header}.${body}.${phoneResult.pairingToken.split('.')[2]}`)).rejects.toThrow()
+
+    expect(laptop.devices.getDevice(phone.did)).toMatchObject({ trustLevel: 'verified', associatedKeys: [] })
+    expect(laptop.pairing.getPairing(phone.did)).toBe(laptopResult)
+    expect(phone.pairing.listPairings()).toEqual([phoneResult])
+  })
+
+  it('fails on both devices when one user rejects the SAS', async () => {
+    const phone = await createDevice('phone')
+    const laptop = await createDevice('laptop')
+    const { initiator, responder } = transportPair()
+    const { invitation } = await laptop.pairing.createInvitation({ localDeviceDID: laptop.did, method: 'bluetooth', requireAuth: true, timeout: 5000 })
+
+    const [laptopResult, phoneResult] = await Promise.all([
+      laptop.pairing.initiate(invitation.pairingId, initiator, async () => true),
+      phone.pairing.respond(invitation, responder, { localDeviceDID: phone.did }, async () => false)
+    ])
+
+    expect(laptopResult).toMatchObject({ status: 'failed', pairingToken: '' })
+    expect(phoneResult.status).toBe('failed')
+    expect(phoneResult.sharedSecret).toHaveLength(0)
+    expect(laptop.pairing.getPairing(phone.did)).toBeUndefined()
+    expect(laptop.devices.getDevice(phone.did)).toBeUndefined()
+  })
+
+  it('rejects a responder that does not open its commitment', async () => {
+    const phone = await createDevice('phone')
+    const laptop = await createDevice('laptop')
+    const { initiator, responder } = transportPair(message =>
+      message.type === 'device-pairing-reveal' ? { ...message, nonce: Buffer.alloc(16).toString('base64url') } : message
+    )
+    const { invitation } = await laptop.pairing.createInvitation({ localDeviceDID: laptop.did, method: 'qr', requireAuth: true, timeout: 500 })
+
+    const results = await Promise.allSettled([
+      laptop.pairing.initiate(invitation.pairingId, initiator, async () => true),
+      phone.pairing.respond(invitation, responder, { localDeviceDID: phone.did }, async () => true)
+    ])
+
+    expect(results[0]).toMatchObject({ status: 'rejected', reason: new Error('Pairing commitment does not match the revealed nonce') })
+    // The responder never hears back
+    expect(results[1]).toMatchObject({ status: 'rejected', reason: new Error(`Pairing ${invitation.pairingId} timed out`) })
+  })
+
+  it('refuses expired invitations, blocked devices and other input', async () => {
+    const phone = await createDevice('phone')
+    const laptop = await createDevice('laptop')
+    const { responder } = transportPair()
+    const { invitation } = await laptop.pairing.createInvitation({ localDeviceDID: laptop.did, method: 'qr', requireAuth: true, timeout: 5000 })
+
+    await expect(phone.pairing.respond({ ...invitation, expiresAt: '2020-01-01T00:00:00Z' }, responder, { localDeviceDID: phone.did }, async () => true))
+      .rejects.toThrow('has expired')
+    expect(() => parseDevicePairingInvitation('{"type":"device-pairing"}')).toThrow('Not a device pairing invitation')
+    await expect(laptop.pairing.initiate('unknown', responder, async () => true)).rejects.toThrow('Unknown pairing')
+
+    phone.devices.registerRemoteDevice({ ...deviceInfo('laptop'), did: laptop.did })
+    phone.devices.setDeviceStatus(laptop.did, 'blocked')
+    await expect(phone.pairing.respond(invitation, responder, { localDeviceDID: phone.did }, async () => true)).rejects.toThrow('is blocked')
+  })
+})
@@ -0,0 +1,208 @@
+import { describe, it, expect } from 'vitest'
+import { DeviceManager } from '../../../src/core/device/manager'
+import { DevicePairingManager } from '../../../src/core/device/pairing'
+import { DeviceSyncManager } from '../../../src/core/device/sync'
+import { DeviceInfo, DevicePairingMessage, DevicePairingTransport, SyncEnvelope } from '../../../src/core/device/types'
+import { KeyManager } from '../../../src/core/key-management/manager'
+import { InMemoryStorage } from '../../../src/core/storage/memory'
+import { RuntimePlatform } from '../../../src/types'
+
+function deviceInfo(name: string): DeviceInfo {
+  return {
+    platform: RuntimePlatform.NODE,
+    identifiers: { hardwareId: `${name}-hardware`, timestamp: '2025-01-01T00:00:00Z' },
+    capabilities: { bluetooth: true, nfc: false, hsm: false, biometric: false, secureStorage: true, network: true },
+    metadata: { name }
+  }
+}
+
+async function createDevice(name: string, chunkSize?: number) {
+  const devices = new DeviceManager({ keyManager: new KeyManager() })
+  const { did } = await devices.createDeviceDID({ method: 'hardware', deviceInfo: deviceInfo(name) })
+  const pairing = new DevicePairingManager({ devices })
+  const storage = new InMemoryStorage()
+  return { did, devices, pairing, storage, sync: new DeviceSyncManager({ localDeviceDID: did, devices, pairing, storage, chunkSize }) }
+}
+
+function transportPair() {
+  const queues: DevicePairingMessage[][] = [[], []]
+  const waiting: ((message: DevicePairingMessage) => void)[][] = [[], []]
+  const endpoint = (inbox: number, outbox: number): DevicePairingTransport => ({
+    async send(message) {
+      const copy = JSON.parse(JSON.stringify(message))
+      const waiter = waiting[outbox].shift()
+      if (waiter) {
+        waiter(copy)
+      } else {
+        queues[outbox].push(copy)
+      }
+    },
+    receive() {
+      const message = queues[inbox].shift()
+      return message ? Promise.resolve(message) : new Promise(resolve => waiting[inbox].push(resolve))
+    }
+  })
+  return { initiator: endpoint(0, 1), responder: endpoint(1, 0) }
+}
+
+async function pairedDevices(chunkSize?: number) {
+  const phone = await createDevice('phone', chunkSize)
+  const laptop = await createDevice('laptop', chunkSize)
+  const { initiator, responder } = transportPair()
+  const { invitation } = await laptop.pairing.createInvitation({ localDeviceDID: laptop.did, method: 'qr', requireAuth: true, timeout: 5000 })
+  await Promise.all([
+    laptop.pairing.initiate(invitation.pairingId, initiator, async () => true),
+    phone.pairing.respond(invitation, responder, { localDeviceDID: phone.did }, async () => true)
+  ])
+  return { phone, laptop }
+}
+
+function credential(id: string, name: string) {
+  return {
+    '@context': ['https://www.w3.org/ns/credentials/v2'],
+    id,
+    type: ['VerifiableCredential'],
+    issuer: 'did:example:issuer',
+    validFrom: '2025-01-01T00:00:00Z',
+    credentialSubject: { id: 'did:example:alice', name }
+  } as any
+}
+
+type Device = Awaited<ReturnType<typeof createDevice>>
+
+function deliverTo(device: Device) {
+  return (chunk: SyncEnvelope) => device.sync.receiveChunk(JSON.parse(JSON.stringify(chunk)))
+}
+
+describe('DeviceSyncManager', () => {
+  it('sends credentials and keys encrypted to the paired device, then only what changed', async () => {
+    const { phone, laptop } = await pairedDevices()
+    await phone.storage.storeCredential('urn:uuid:1', credential('urn:uuid:1', 'Alice'))
+    await phone.storage.storeKey('key-1', new Uint8Array([1, 2, 3]))
+
+    const { chunks } = await phone.sync.createTransfer(laptop.did)
+    expect(chunks).toHaveLength(1)
+    expect(JSON.stringify(chunks)).not.toContain('Alice')
+    const header = JSON.parse(Buffer.from(chunks[0].protected, 'base64url').toString())
+    expect(header).toMatchObject({ alg: 'ECDH-ES+HKDF', enc: 'A256GCM', skid: phone.did, kid: expect.stringMatching(`^${laptop.did}#`) })
+
+    // Only the laptop can open it, and not once the ciphertext was touched
+    const stranger = await createDevice('stranger')
+    await expect(stranger.sync.receiveChunk(chunks[0])).rejects.toThrow('not this device')
+    const tampered = { ...chunks[0], ciphertext: Buffer.from('x' + chunks[0].ciphertext).toString('base64url') }
+    await expect(laptop.sync.receiveChunk(tampered)).rejects.toThrow('Could not decrypt')
+
+    const receipt = await laptop.sync.receiveChunk(chunks[0])
+    await phone.sync.handleReceipt(laptop.did, receipt)
+    expect(receipt.result).toMatchObject({ from: phone.did, applied: 2, deleted: 0, skipped: 0, conflicts: [] })
+    expect(await laptop.storage.retrieveCredential('urn:uuid:1')).toEqual(credential('urn:uuid:1', 'Alice'))
+    expect(await laptop.storage.retrieveKey('key-1')).toEqual(new Uint8Array([1, 2, 3]))
+
+    // Nothing new, then only the changed credential
+    expect(await phone.sync.syncTo(laptop.did, deliverTo(laptop))).toBeUndefined()
+    await phone.storage.storeCredential('urn:uuid:1', credential('urn:uuid:1', 'Alice Smith'))
+    const second = await phone.sync.syncTo(laptop.did, deliverTo(laptop))
+    expect(second?.result).toMatchObject({ applied: 1, skipped: 0 })
+    expect((await laptop.storage.retrieveCredential('urn:uuid:1'))!.credentialSubject).toMatchObject({ name: 'Alice Smith' })
+
+    // Changes applied from the phone are not applied back to it
+    expect((await laptop.sync.syncTo(phone.did, deliverTo(phone)))?.result).toMatchObject({ applied: 0, skipped: 2 })
+  })
+
+  it('propagates deletes as tombstones', async () => {
+    const { phone, laptop } = await pairedDevices()
+    await phone.storage.storeCredential('urn:uuid:1', credential('urn:uuid:1', 'Alice'))
+    await phone.sync.syncTo(laptop.did, deliverTo(laptop))
+
+    await laptop.storage.deleteCredential('urn:uuid:1')
+    const receipt = await laptop.sync.syncTo(phone.did, deliverTo(phone))
+    expect(receipt?.result).toMatchObject({ deleted: 1, conflicts: [] })
+    expect(await phone.storage.listCredentials()).toEqual([])
+
+    // The phone does not bring the credential back
+    expect((await phone.sync.syncTo(laptop.did, deliverTo(laptop)))?.result).toMatchObject({ applied: 0, skipped: 1 })
+    expect(await laptop.storage.listCredentials()).toEqual([])
+  })
+
+  it('reports items changed on both devices as conflicts until resolved', async () => {
+    const { phone, laptop } = await pairedDevices()
+    await phone.storage.storeCredential('urn:uuid:1', credential('urn:uuid:1', 'Alice'))
+    await phone.sync.syncTo(laptop.did, deliverTo(laptop))
+
+    await phone.storage.storeCredential('urn:uuid:1', credential('urn:uuid:1', 'Alice (phone)'))
+    await laptop.storage.storeCredential('urn:uuid:1', credential('urn:uuid:1', 'Alice (laptop)'))
+    const receipt = await phone.sync.syncTo(laptop.did, deliverTo(laptop))
+
+    expect(receipt?.result?.conflicts).toHaveLength(1)
+    const [conflict] = await laptop.sync.getConflicts()
+    expect(conflict).toMatchObject({ kind: 'credential', id: 'urn:uuid:1', local: { data: { credentialSubject: { name: 'Alice (laptop)' } } }, remote: { data: { credentialSubject: { name: 'Alice (phone)' } } } })
+    expect((await laptop.storage.retrieveCredential('urn:uuid:1'))!.credentialSubject).toMatchObject({ name: 'Alice (laptop)' })
+
+    await laptop.sync.resolveConflict('credential', 'urn:uuid:1', 'remote')
+    expect(await laptop.sync.getConflicts()).toEqual([])
+    expect((await laptop.storage.retrieveCredential('urn:uuid:1'))!.credentialSubject).toMatchObject({ name: 'Alice (phone)' })
+
+    // The resolution supersedes both versions
+    expect((await laptop.sync.syncTo(phone.did, deliverTo(phone)))?.result).toMatchObject({ applied: 1, conflicts: [] })
+    await expect(laptop.sync.resolveConflict('credential', 'urn:uuid:1', 'local')).rejects.toThrow('No conflict')
+  })
+
+  it('resumes an interrupted transfer with the chunks the peer misses', async () => {
+    const { phone, laptop } = await pairedDevices(200)
+    for (let i = 0; i < 3; i++) {
+      await phone.storage.storeCredential(`urn:uuid:${i}`, credential(`urn:uuid:${i}`, `Credential ${i}`))
+    }
+
+    let delivered = 0
+    const flaky = (chunk: SyncEnvelope) => {
+      if (delivered++ === 2) {
+        throw new Error('Connection lost')
+      }
+      return deliverTo(laptop)(chunk)
+    }
+    await expect(phone.sync.syncTo(laptop.did, flaky)).rejects.toThrow('Connection lost')
+
+    const { transferId, chunks } = await phone.sync.createTransfer(laptop.did)
+    const state = laptop.sync.getTransferState(transferId)!
+    expect(state.missing.length).toBeGreaterThan(0)
+    expect(chunks).toHaveLength(state.missing.length)
+
+    const receipt = await phone.sync.syncTo(laptop.did, deliverTo(laptop))
+    expect(receipt?.result).toMatchObject({ applied: 3 })
+    expect(await laptop.storage.listCredentials()).toHaveLength(3)
+    expect(await phone.sync.createTransfer(laptop.did)).toMatchObject({ chunks: [] })
+  })
+
+  it('keeps its journal, cursors and conflicts across restarts', async () => {
+    const { phone, laptop } = await pairedDevices()
+    await phone.storage.storeCredential('urn:uuid:1', credential('urn:uuid:1', 'Alice'))
+    await phone.storage.storeKey('key-1', new Uint8Array([1, 2, 3]))
+    await phone.sync.syncTo(laptop.did, deliverTo(laptop))
+    await phone.storage.storeCredential('urn:uuid:1', credential('urn:uuid:1', 'Alice (phone)'))
+    await laptop.storage.storeCredential('urn:uuid:1', credential('urn:uuid:1', 'Alice (laptop)'))
+    await phone.sync.syncTo(laptop.did, deliverTo(laptop))
+
+    const restart = (device: Device) => new DeviceSyncManager({ localDeviceDID: device.did, devices: device.devices, pairing: device.pairing, storage: device.storage })
+    const restartedPhone = restart(phone)
+    const restartedLaptop = restart(laptop)
+
+    // Nothing is resent, and the state itself is not synced as a key
+    expect(await restartedPhone.createTransfer(laptop.did)).toMatchObject({ chunks: [] })
+    expect(await restartedLaptop.getConflicts()).toMatchObject([{ kind: 'credential', id: 'urn:uuid:1' }])
+
+    await restartedLaptop.resolveConflict('credential', 'urn:uuid:1', 'local')
+    await phone.storage.deleteKey('key-1')
+    const receipt = await restartedPhone.syncTo(laptop.did, (chunk: SyncEnvelope) => restartedLaptop.receiveChunk(JSON.parse(JSON.stringify(chunk))))
+    expect(receipt?.result).toMatchObject({ applied: 0, deleted: 1, conflicts: [] })
+    expect(await laptop.storage.listKeys()).toEqual([expect.stringMatching(/^device-sync:/)])
+  })
+
+  it('only syncs with paired devices', async () => {
+    const { phone, laptop } = await pairedDevices()
+    const stranger = await createDevice('stranger')
+    await expect(phone.sync.createTransfer(stranger.did)).rejects.toThrow('is not paired')
+
+    phone.devices.setDeviceStatus(laptop.did, 'blocked')
+    await expect(phone.sync.createTransfer(laptop.did)).rejects.toThrow('is blocked')
+  })
+})
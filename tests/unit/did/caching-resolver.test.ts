@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import type { DIDResolutionResult, DIDResolver } from 'did-resolver'
+import { CachingDIDResolver } from '../../../src/core/did/resolver'
+import { DIDKeyPlugin } from '../../../src/core/plugins/did-methods'
+
+const ED25519_DID = 'did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK'
+
+const found = (did: string, metadata: Record<string, any> = {}): DIDResolutionResult => ({
+  didResolutionMetadata: { contentType: 'application/did+json' },
+  didDocument: { id: did },
+  didDocumentMetadata: metadata
+})
+
+const notFound: DIDResolutionResult = {
+  didResolutionMetadata: { error: 'notFound' },
+  didDocument: null,
+  didDocumentMetadata: {}
+}
+
+describe('CachingDIDResolver', () => {
+  afterEach(() => vi.useRealTimers())
+
+  it('routes by method to registered resolvers', async () => {
+    const resolver = new CachingDIDResolver({ methods: { key: new DIDKeyPlugin().getResolver().key } })
+
+    const { didDocument } = await resolver.resolve(`${ED25519_DID}#z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK`)
+    expect(didDocument?.id).toBe(ED25519_DID)
+    expect((await resolver.resolve('did:example:123')).didResolutionMetadata.error).toBe('unsupportedDidMethod')
+    expect((await resolver.resolve('not-a-did')).didResolutionMetadata.error).toBe('invalidDid')
+    expect(resolver.getMethods()).toEqual(['key'])
+  })
+
+  it('caches documents per method TTL and shares concurrent resolutions', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    const web = vi.fn<Parameters<DIDResolver>, ReturnType<DIDResolver>>(async did => found(did))
+    const resolver = new CachingDIDResolver({ methods: { web: { resolver: web, ttl: 1000 } } })
+
+    await Promise.all([resolver.resolve('did:web:example.com'), resolver.resolve('did:web:example.com#key-1')])
+    await resolver.resolve('did:web:example.com')
+    expect(web).toHaveBeenCalledTimes(1)
+
+    vi.advanceTimersByTime(1001)
+    await resolver.resolve('did:web:example.com')
+    expect(web).toHaveBeenCalledTimes(2)
+
+    await resolver.resolve('did:web:example.com', { noCache: true })
+    expect(web).toHaveBeenCalledTimes(3)
+  })
+
+  it('returns copies so callers cannot alter cached documents', async () => {
+    const resolver = new CachingDIDResolver({ methods: { web: async did => found(did) } })
+
+    const first = await resolver.resolve('did:web:example.com')
+    first.didDocument!.id = 'did:web:mallory.example'
+    expect((await resolver.resolve('did:web:example.com')).didDocument!.id).toBe('did:web:example.com')
+  })
+
+  it('caches notFound briefly and does not cache other errors', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    const missing = vi.fn(async () => notFound)
+    const failing = vi.fn(async (): Promise<DIDResolutionResult> => { throw new Error('connection reset') })
+    const resolver = new CachingDIDResolver({ methods: { web: missing, cheqd: failing }, negativeTtl: 500 })
+
+    await resolver.resolve('did:web:gone.example')
+    await resolver.resolve('did:web:gone.example')
+    expect(missing).toHaveBeenCalledTimes(1)
+    vi.advanceTimersByTime(501)
+    await resolver.resolve('did:web:gone.example')
+    expect(missing).toHaveBeenCalledTimes(2)
+
+    const result = await resolver.resolve('did:cheqd:testnet:abc')
+    expect(result.didResolutionMetadata).toEqual({ error: 'internalError', message: 'connection reset' })
+    await resolver.resolve('did:cheqd:testnet:abc')
+    expect(failing).toHaveBeenCalledTimes(2)
+  })
+
+  it('forwards versionTime and versionId to versioned methods and keeps document metadata', async () => {
+    const cheqd = vi.fn<Parameters<DIDResolver>, ReturnType<DIDResolver>>(async (didUrl, parsed) => {
+      const params = new URLSearchParams(parsed.query)
+      return found(parsed.did, {
+        versionId: params.get('versionId') || (params.has('versionTime') ? 'v1' : 'v2'),
+        updated: '2024-03-01T00:00:00Z',
+        deactivated: !parsed.query
+      })
+    })
+    const resolver = new CachingDIDResolver({ methods: { cheqd: { resolver: cheqd, versioned: true } } })
+    const did = 'did:cheqd:testnet:55dbc8bf-fba3-4117-855c-1e0dc1d3bb47'
+
+    const current = await resolver.resolve(did)
+    expect(current.didDocumentMetadata).toMatchObject({ versionId: 'v2', deactivated: true })
+
+    const historical = await resolver.resolve(did, { versionTime: new Date('2023-01-01T10:00:00.000Z') })
+    expect(cheqd).toHaveBeenLastCalledWith(`${did}?versionTime=2023-01-01T10:00:00Z`, expect.anything(), resolver, expect.anything())
+    expect(historical.didDocumentMetadata).toMatchObject({ versionId: 'v1', deactivated: false })
+
+    await resolver.resolve(`${did}?versionTime=2023-01-01T10:00:00Z`)
+    expect(cheqd).toHaveBeenCalledTimes(2)
+
+    expect((await resolver.resolve(did, { versionTime: 'yesterday' })).didResolutionMetadata.error).toBe('invalidOptions')
+  })
+
+  it('ignores version parameters for methods without history', async () => {
+    const key = vi.fn(new DIDKeyPlugin().getResolver().key)
+    const resolver = new CachingDIDResolver({ methods: { key: { resolver: key, ttl: Infinity } } })
+
+    await resolver.resolve(ED25519_DID)
+    const { didDocument } = await resolver.resolve(ED25519_DID, { versionTime: '2020-01-01T00:00:00Z' })
+    expect(didDocument?.id).toBe(ED25519_DID)
+    expect(key).toHaveBeenCalledTimes(1)
+  })
+
+  it('invalidates single DIDs and evicts the oldest entries', async () => {
+    const web = vi.fn<Parameters<DIDResolver>, ReturnType<DIDResolver>>(async did => found(did))
+    const resolver = new CachingDIDResolver({ methods: { web }, maxEntries: 2 })
+
+    await resolver.resolve('did:web:a.example')
+    await resolver.resolve('did:web:b.example')
+    await resolver.resolve('did:web:c.example')
+    await resolver.resolve('did:web:a.example')
+    expect(web).toHaveBeenCalledTimes(4)
+
+    resolver.invalidate('did:web:c.example')
+    await resolver.resolve('did:web:c.example')
+    expect(web).toHaveBeenCalledTimes(5)
+  })
+})
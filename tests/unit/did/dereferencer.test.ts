@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import type { DIDDocument } from 'did-resolver'
+import { CachingDIDResolver } from '../../../src/core/did/resolver'
+import { DIDUrlDereferencer } from '../../../src/core/did/dereferencer'
+import { DIDLinkedResourceClientImpl } from '../../../src/core/resource/resource-client'
+import { ResourceVisibility } from '../../../src/core/resource/types'
+import { DIDKeyPlugin } from '../../../src/core/plugins/did-methods'
+
+const DID = 'did:cheqd:testnet:55dbc8bf-fba3-4117-855c-1e0dc1d3bb47'
+
+const document: DIDDocument = {
+  id: DID,
+  verificationMethod: [{ id: `${DID}#key-1`, type: 'Ed25519VerificationKey2020', controller: DID, publicKeyMultibase: 'z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK' }],
+  authentication: [`${DID}#key-1`],
+  service: [
+    { id: `${DID}#files`, type: 'LinkedDomains', serviceEndpoint: 'https://files.example.com/store/' },
+    { id: '#messaging', type: 'DIDCommMessaging', serviceEndpoint: [{ uri: 'https://mediator.example.com' }] }
+  ]
+}
+
+describe('DIDUrlDereferencer', () => {
+  let resources: DIDLinkedResourceClientImpl
+  let dereferencer: DIDUrlDereferencer
+
+  beforeEach(() => {
+    resources = new DIDLinkedResourceClientImpl()
+    const resolver = new CachingDIDResolver({
+      methods: {
+        cheqd: async did => ({ didResolutionMetadata: {}, didDocument: did === DID ? document : null, didDocumentMetadata: { versionId: 'v1' } }),
+        key: new DIDKeyPlugin().getResolver().key
+      }
+    })
+    dereferencer = new DIDUrlDereferencer({ resolver, resources })
+  })
+
+  it('dereferences DIDs to documents and fragments to verification methods and services', async () => {
+    const whole = await dereferencer.dereference(DID)
+    expect(whole.contentStream).toEqual(document)
+    expect(whole.contentMetadata).toEqual({ versionId: 'v1' })
+
+    const method = await dereferencer.dereference(`${DID}#key-1`)
+    expect(method.dereferencingMetadata.contentType).toBe('application/did+json')
+    expect(method.contentStream).toEqual(document.verificationMethod![0])
+    expect((await dereferencer.dereference(`${DID}#messaging`)).contentStream.type).toBe('DIDCommMessaging')
+
+    expect((await dereferencer.dereference(`${DID}#key-2`)).dereferencingMetadata.error).toBe('notFound')
+    expect((await dereferencer.dereference('did:cheqd:testnet:unknown#key-1')).dereferencingMetadata.error).toBeDefined()
+    expect((await dereferencer.dereference('not a did')).dereferencingMetadata.error).toBe('invalidDidUrl')
+  })
+
+  it('dereferences verification method IDs of did:key credentials', async () => {
+    const did = 'did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK'
+    const method = await dereferencer.dereferenceVerificationMethod(`${did}#z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK`)
+
+    expect(method).toMatchObject({ controller: did, type: 'Multikey' })
+    await expect(dereferencer.dereferenceVerificationMethod(`${DID}#files`)).rejects.toThrow('is not a verification method')
+  })
+
+  it('selects service endpoints and resolves relativeRef against them', async () => {
+    const files = await dereferencer.dereference(`${DID}?service=files&relativeRef=/a.json`)
+    expect(files.dereferencingMetadata.contentType).toBe('text/uri-list')
+    expect(files.contentStream).toBe('https://files.example.com/a.json')
+
+    expect((await dereferencer.dereference(`${DID}?service=files&relativeRef=docs/a.json`)).contentStream)
+      .toBe('https://files.example.com/store/docs/a.json')
+    expect((await dereferencer.dereference(`${DID}?service=messaging`)).contentStream).toBe('https://mediator.example.com')
+    expect((await dereferencer.dereference(`${DID}?service=missing`)).dereferencingMetadata.error).toBe('notFound')
+  })
+
+  it('fetches DID-linked resources by path, metadata path and name', async () => {
+    const schema = await resources.createResource({
+      did: DID, name: 'EmployeeSchema', type: 'JsonSchema', data: { title: 'Employee' }, visibility: ResourceVisibility.PUBLIC
+    })
+    const hidden = await resources.createResource({ did: DID, name: 'Notes', type: 'Text', data: 'private notes' })
+
+    const byPath = await dereferencer.dereference(`${DID}/resources/${schema.resourceId}`)
+    expect(byPath.contentStream).toEqual({ title: 'Employee' })
+    expect(byPath.contentMetadata).toMatchObject({ resourceId: schema.resourceId, name: 'EmployeeSchema' })
+    expect(byPath.contentMetadata).not.toHaveProperty('data')
+
+    const metadata = await dereferencer.dereference(`${DID}/resources/${schema.resourceId}/metadata`)
+    expect(metadata.contentStream).toMatchObject({ type: 'JsonSchema', did: DID })
+
+    const byName = await dereferencer.dereference(`${DID}?resourceName=EmployeeSchema&resourceType=JsonSchema`)
+    expect(byName.contentStream).toEqual({ title: 'Employee' })
+
+    // Private resources are only returned to the owner, and never under another DID
+    expect((await dereferencer.dereference(`${DID}/resources/${hidden.resourceId}`)).dereferencingMetadata.error).toBe('notFound')
+    expect((await dereferencer.dereference(`${DID}/resources/${hidden.resourceId}`, { requestingDid: DID })).contentStream).toBe('private notes')
+    expect((await dereferencer.dereference(`did:cheqd:testnet:other/resources/${schema.resourceId}`)).dereferencingMetadata.error).toBe('notFound')
+  })
+
+  it('serves DID URLs through fetch for status list and schema loaders', async () => {
+    const list = await resources.createResource({
+      did: DID, name: 'StatusList', type: 'BitstringStatusListCredential', data: { type: ['VerifiableCredential'] }, visibility: ResourceVisibility.PUBLIC
+    })
+
+    const res = await dereferencer.fetch(`${DID}/resources/${list.resourceId}`)
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({ type: ['VerifiableCredential'] })
+    expect((await dereferencer.fetch(`${DID}/resources/00000000-0000-0000-0000-000000000000`)).status).toBe(404)
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import type { DIDDocument } from 'did-resolver'
+import { applyDIDDocumentUpdate, rotateVerificationMethod, DIDVersionHistory } from '../../../src/core/did/lifecycle'
+
+const DID = 'did:web:issuer.example.com'
+
+const document: DIDDocument = {
+  id: DID,
+  verificationMethod: [
+    { id: `${DID}#key-1`, type: 'JsonWebKey2020', controller: DID, publicKeyJwk: { kty: 'OKP', crv: 'Ed25519', x: 'a' } },
+    { id: '#key-2', type: 'JsonWebKey2020', controller: DID, publicKeyJwk: { kty: 'OKP', crv: 'X25519', x: 'b' } }
+  ],
+  authentication: [`${DID}#key-1`],
+  assertionMethod: [`${DID}#key-1`],
+  keyAgreement: ['#key-2'],
+  service: [{ id: `${DID}#vc-api`, type: 'VerifiableCredentialService', serviceEndpoint: 'https://issuer.example.com/vc' }]
+}
+
+const newKey = { id: `${DID}#key-3`, type: 'JsonWebKey2020', controller: DID, publicKeyJwk: { kty: 'OKP', crv: 'Ed25519', x: 'c' } }
+
+describe('DID document updates', () => {
+  it('adds and removes verification methods and services', () => {
+    const updated = applyDIDDocumentUpdate(document, {
+      removeVerificationMethods: ['#key-2'],
+      addVerificationMethods: [{ method: { ...newKey, id: '#key-3' }, relationships: ['capabilityInvocation'] }],
+      removeServices: ['#vc-api'],
+      addServices: [{ id: '#files', type: 'LinkedDomains', serviceEndpoint: 'https://files.example.com' }]
+    })
+
+    expect(updated.verificationMethod!.map(vm => vm.id)).toEqual([`${DID}#key-1`, `${DID}#key-3`])
+    expect(updated.keyAgreement).toBeUndefined()
+    expect(updated.capabilityInvocation).toEqual([`${DID}#key-3`])
+    expect(updated.service).toEqual([{ id: `${DID}#files`, type: 'LinkedDomains', serviceEndpoint: 'https://files.example.com' }])
+    expect(document.verificationMethod).toHaveLength(2)
+  })
+
+  it('rejects removing unknown and adding duplicate verification methods', () => {
+    expect(() => applyDIDDocumentUpdate(document, { removeVerificationMethods: ['#key-9'] })).toThrow('is not in the DID document')
+    expect(() => applyDIDDocumentUpdate(document, { addVerificationMethods: [{ method: { ...newKey, id: '#key-1' } }] })).toThrow('already')
+  })
+
+  it('rotates a key into its relationships and keeps the previous key for verification', () => {
+    const rotated = rotateVerificationMethod(document, '#key-1', newKey)
+
+    expect(rotated.authentication).toEqual([`${DID}#key-3`])
+    expect(rotated.assertionMethod).toEqual([`${DID}#key-3`])
+    expect(rotated.verificationMethod!.map(vm => vm.id)).toEqual(['#key-2', `${DID}#key-3`, `${DID}#key-1`])
+
+    const dropped = rotateVerificationMethod(document, '#key-1', newKey, { retainPreviousKey: false })
+    expect(dropped.verificationMethod!.map(vm => vm.id)).not.toContain(`${DID}#key-1`)
+  })
+})
+
+describe('DIDVersionHistory', () => {
+  afterEach(() => vi.useRealTimers())
+
+  it('numbers versions and finds the version current at a time', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    const history = new DIDVersionHistory()
+
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'))
+    await history.record(document)
+    vi.setSystemTime(new Date('2024-06-01T00:00:00Z'))
+    await history.record(rotateVerificationMethod(document, '#key-1', newKey))
+    vi.setSystemTime(new Date('2024-09-01T00:00:00Z'))
+    await history.record(document, { deactivated: true })
+
+    expect(history.list(DID).map(version => version.versionId)).toEqual(['1', '2', '3'])
+    expect(history.get(DID, { versionTime: '2024-03-01T00:00:00Z' })?.versionId).toBe('1')
+    expect(history.get(DID, { versionTime: '2024-07-01T00:00:00Z' })?.document.authentication).toEqual([`${DID}#key-3`])
+    expect(history.get(DID, { versionTime: '2023-01-01T00:00:00Z' })).toBeUndefined()
+    expect(history.latest(DID)?.deactivated).toBe(true)
+
+    expect(history.metadata(DID, '2')).toEqual({
+      created: '2024-01-01T00:00:00Z',
+      updated: '2024-06-01T00:00:00Z',
+      versionId: '2',
+      nextUpdate: '2024-09-01T00:00:00Z',
+      nextVersionId: '3'
+    })
+  })
+})
@@ -0,0 +1,202 @@
+import { describe, it, expect, vi } from 'vitest'
+import { DIDCommClient } from '../../../src/core/didcomm/client'
+import { encryptJWE } from '../../../src/core/didcomm/crypto'
+import { DIDCommMessenger } from '../../../src/core/didcomm/messenger'
+import { createDIDCommAttachment, createDIDCommMessage, getDIDCommAttachmentData } from '../../../src/core/didcomm/messages'
+import { HttpDIDCommTransport, InMemoryDIDCommTransport } from '../../../src/core/didcomm/transports'
+import { DIDCOMM_ENCRYPTED_MEDIA_TYPE, DIDCommErrorCode } from '../../../src/core/didcomm/types'
+import { DIDPeerPlugin } from '../../../src/core/plugins/did-methods/did-peer-plugin'
+
+const PING = 'https://didcomm.org/trust-ping/2.0/ping'
+const PING_RESPONSE = 'https://didcomm.org/trust-ping/2.0/ping-response'
+
+const peer = new DIDPeerPlugin()
+const resolveDID = async (did: string) => (await peer.resolveDID(did)).didDocument!
+
+async function createParty(endpoint: string) {
+  const { did, keys } = await peer.createDID({ services: [{ uri: endpoint }] })
+  const secrets = new Map(keys.map(key => [key.id, key.privateKeyJwk]))
+  const options = { resolveDID, secrets: async (kid: string) => secrets.get(kid) || null }
+  return { did, keys, client: new DIDCommClient(options), options }
+}
+
+function expectCode(code: DIDCommErrorCode) {
+  return expect.objectContaining({ name: 'DIDCommError', code })
+}
+
+describe('DIDCommClient', () => {
+  it('authcrypts so only the recipient can read it and knows the sender', async () => {
+    const alice = await createParty('memory://alice')
+    const bob = await createParty('memory://bob')
+    const eve = await createParty('memory://eve')
+    const message = createDIDCommMessage({ type: PING, from: alice.did, to: bob.did, body: { response_requested: true } })
+
+    const packed = await alice.client.packEncrypted(message, bob.did, { from: alice.did })
+    const jwe = JSON.parse(packed)
+    const header = JSON.parse(Buffer.from(jwe.protected, 'base64url').toString())
+    expect(header).toMatchObject({ typ: DIDCOMM_ENCRYPTED_MEDIA_TYPE, alg: 'ECDH-1PU+A256KW', enc: 'A256CBC-HS512', skid: alice.keys[0].id })
+    expect(jwe.recipients.map((recipient: any) => recipient.header.kid)).toEqual([bob.keys[0].id])
+    expect(packed).not.toContain('response_requested')
+
+    const { message: received, metadata } = await bob.client.unpack(packed)
+    expect(received).toEqual(message)
+    expect(metadata).toMatchObject({ encrypted: true, authenticated: true, nonRepudiation: false, anonymousSender: false, encryptedFrom: alice.keys[0].id, encryptedTo: bob.keys[0].id })
+
+    await expect(eve.client.unpack(packed)).rejects.toEqual(expectCode(DIDCommErrorCode.KEY_NOT_FOUND))
+    const tampered = JSON.stringify({ ...jwe, ciphertext: Buffer.from('tampered').toString('base64url') })
+    await expect(bob.client.unpack(tampered)).rejects.toEqual(expectCode(DIDCommErrorCode.DECRYPTION_FAILED))
+  })
+
+  it('anoncrypts with either content encryption and hides the sender', async () => {
+    const alice = await createParty('memory://alice')
+    const bob = await createParty('memory://bob')
+    const message = createDIDCommMessage({ type: PING, to: bob.did })
+
+    for (const enc of ['A256CBC-HS512', 'A256GCM'] as const) {
+      const packed = await alice.client.packEncrypted(message, bob.keys[0].id, { enc })
+      expect(JSON.parse(Buffer.from(JSON.parse(packed).protected, 'base64url').toString())).toMatchObject({ alg: 'ECDH-ES+A256KW', enc })
+      const { metadata } = await bob.client.unpack(packed)
+      expect(metadata).toMatchObject({ encrypted: true, authenticated: false, anonymousSender: true })
+      expect(metadata.encryptedFrom).toBeUndefined()
+    }
+  })
+
+  it('signs, authcrypts and protects the sender in nested envelopes', async () => {
+    const alice = await createParty('memory://alice')
+    const bob = await createParty('memory://bob')
+    const message = createDIDCommMessage({ type: PING, from: alice.did, to: bob.did })
+
+    const packed = await alice.client.packEncrypted(message, bob.did, { from: alice.did, signFrom: alice.did, protectSender: true })
+    expect(JSON.parse(Buffer.from(JSON.parse(packed).protected, 'base64url').toString()).skid).toBeUndefined()
+    const { message: received, metadata } = await bob.client.unpack(packed)
+    expect(received.id).toBe(message.id)
+    expect(metadata).toMatchObject({ authenticated: true, nonRepudiation: true, anonymousSender: true, encryptedFrom: alice.keys[0].id, signFrom: alice.keys[1].id })
+
+    // The signed envelope verifies on its own
+    expect((await bob.client.unpack(metadata.signedMessage!)).message.id).toBe(message.id)
+    const jws = JSON.parse(metadata.signedMessage!)
+    jws.payload = Buffer.from(JSON.stringify({ ...message, body: { forged: true } })).toString('base64url')
+    await expect(bob.client.unpack(jws)).rejects.toEqual(expectCode(DIDCommErrorCode.INVALID_SIGNATURE))
+  })
+
+  it('rejects messages whose sender, recipient or lifetime does not fit the envelope', async () => {
+    const alice = await createParty('memory://alice')
+    const bob = await createParty('memory://bob')
+    const carol = await createParty('memory://carol')
+
+    const fromCarol = createDIDCommMessage({ type: PING, from: carol.did, to: bob.did })
+    await expect(alice.client.packEncrypted(fromCarol, bob.did, { from: alice.did })).rejects.toEqual(expectCode(DIDCommErrorCode.SENDER_MISMATCH))
+    const forged = encryptJWE(Buffer.from(JSON.stringify(fromCarol)), [{ kid: bob.keys[0].id, publicKeyJwk: publicJwk(bob.keys[0].privateKeyJwk) }], {
+      typ: DIDCOMM_ENCRYPTED_MEDIA_TYPE,
+      enc: 'A256CBC-HS512',
+      sender: { kid: alice.keys[0].id, privateKeyJwk: alice.keys[0].privateKeyJwk }
+    })
+    await expect(bob.client.unpack(JSON.stringify(forged))).rejects.toEqual(expectCode(DIDCommErrorCode.SENDER_MISMATCH))
+
+    const forCarol = createDIDCommMessage({ type: PING, from: alice.did, to: carol.did })
+    await expect(bob.client.unpack(await alice.client.packEncrypted(forCarol, bob.did, { from: alice.did }))).rejects.toEqual(expectCode(DIDCommErrorCode.MALFORMED))
+
+    const expired = { ...createDIDCommMessage({ type: PING, from: alice.did, to: bob.did }), expires_time: Math.floor(Date.now() / 1000) - 1 }
+    await expect(bob.client.unpack(await alice.client.packEncrypted(expired, bob.did))).rejects.toEqual(expectCode(DIDCommErrorCode.EXPIRED))
+    await expect(bob.client.unpack('{"id":"1"}')).rejects.toEqual(expectCode(DIDCommErrorCode.MALFORMED))
+  })
+})
+
+describe('DIDCommMessenger', () => {
+  it('exchanges messages in a thread with attachments over a transport', async () => {
+    const transport = new InMemoryDIDCommTransport()
+    const alice = await createParty('memory://alice')
+    const bob = await createParty('memory://bob')
+    const aliceMessenger = new DIDCommMessenger({ ...alice.options, transports: [transport] })
+    const bobMessenger = new DIDCommMessenger({ ...bob.options, transports: [transport] })
+    transport.listen('memory://alice', packed => aliceMessenger.receive(packed))
+    transport.listen('memory://bob', packed => bobMessenger.receive(packed))
+
+    bobMessenger.on(PING, async (message, { metadata, reply }) => {
+      expect(metadata.encryptedFrom).toBe(alice.keys[0].id)
+      expect(getDIDCommAttachmentData(message.attachments![0])).toEqual(new Uint8Array([1, 2, 3]))
+      await reply(PING_RESPONSE, { received: message.body.comment }, [createDIDCommAttachment({ ok: true }, { format: 'example' })])
+    })
+    const responses: any[] = []
+    aliceMessenger.on(PING_RESPONSE, async (message, { metadata }) => {
+      responses.push({ message, metadata })
+    })
+
+    const ping = createDIDCommMessage({
+      type: PING,
+      from: alice.did,
+      to: bob.did,
+      pthid: 'urn:uuid:parent',
+      body: { comment: 'hello' },
+      attachments: [createDIDCommAttachment(new Uint8Array([1, 2, 3]), { filename: 'data.bin' })]
+    })
+    await aliceMessenger.send(ping)
+
+    expect(responses).toHaveLength(1)
+    const [{ message: response, metadata }] = responses
+    expect(response).toMatchObject({ type: PING_RESPONSE, from: bob.did, to: [alice.did], thid: ping.id, pthid: 'urn:uuid:parent', body: { received: 'hello' } })
+    expect(getDIDCommAttachmentData(response.attachments[0])).toEqual({ ok: true })
+    expect(metadata).toMatchObject({ authenticated: true, encryptedFrom: bob.keys[0].id })
+    expect(aliceMessenger.getThread(ping.id).map(message => message.type)).toEqual([PING, PING_RESPONSE])
+    expect(bobMessenger.getThread(ping.id).map(message => message.type)).toEqual([PING, PING_RESPONSE])
+  })
+
+  it('reports recipients it cannot deliver to', async () => {
+    const alice = await createParty('memory://alice')
+    const bob = await createParty('ws://bob.example/didcomm')
+    const messenger = new DIDCommMessenger({ ...alice.options, transports: [new InMemoryDIDCommTransport()] })
+
+    await expect(messenger.send(createDIDCommMessage({ type: PING, from: alice.did, to: bob.did })))
+      .rejects.toThrow('no transport for ws://bob.example/didcomm')
+    await expect(messenger.send(createDIDCommMessage({ type: PING, from: alice.did })))
+      .rejects.toEqual(expectCode(DIDCommErrorCode.MALFORMED))
+  })
+
+  it('keeps a bounded, expiring history of authenticated threads only', async () => {
+    const transport = new InMemoryDIDCommTransport()
+    const alice = await createParty('memory://alice')
+    const bob = await createParty('memory://bob')
+    const aliceMessenger = new DIDCommMessenger({ ...alice.options, transports: [transport] })
+    const bobMessenger = new DIDCommMessenger({ ...bob.options, transports: [transport], maxThreads: 2, threadTtl: 1000 })
+    transport.listen('memory://bob', packed => bobMessenger.receive(packed))
+
+    const pings = [1, 2, 3].map(() => createDIDCommMessage({ type: PING, from: alice.did, to: bob.did }))
+    for (const ping of pings) {
+      await aliceMessenger.send(ping)
+    }
+    expect(bobMessenger.getThread(pings[0].id)).toEqual([])
+    expect(bobMessenger.getThread(pings[1].id)).toHaveLength(1)
+    expect(bobMessenger.getThread(pings[2].id)).toHaveLength(1)
+
+    const anonymous = createDIDCommMessage({ type: PING, from: alice.did, to: bob.did })
+    await aliceMessenger.send(anonymous, { anonymous: true })
+    expect(bobMessenger.getThread(anonymous.id)).toEqual([])
+
+    const now = Date.now()
+    vi.spyOn(Date, 'now').mockReturnValue(now + 1001)
+    try {
+      expect(bobMessenger.getThread(pings[2].id)).toEqual([])
+    } finally {
+      vi.restoreAllMocks()
+    }
+  })
+})
+
+describe('HttpDIDCommTransport', () => {
+  it('posts the packed message and returns a DIDComm answer', async () => {
+    const fetch = vi.fn(async () => new Response('{"protected":"..."}', { status: 200, headers: { 'Content-Type': DIDCOMM_ENCRYPTED_MEDIA_TYPE } }))
+    const transport = new HttpDIDCommTransport(fetch)
+
+    expect(await transport.send('https://bob.example/didcomm', '{}')).toBe('{"protected":"..."}')
+    expect(fetch).toHaveBeenCalledWith('https://bob.example/didcomm', { method: 'POST', headers: { 'Content-Type': DIDCOMM_ENCRYPTED_MEDIA_TYPE }, body: '{}' })
+
+    fetch.mockResolvedValueOnce(new Response(null, { status: 202 }))
+    expect(await transport.send('https://bob.example/didcomm', '{}')).toBeUndefined()
+    fetch.mockResolvedValueOnce(new Response(null, { status: 500 }))
+    await expect(transport.send('https://bob.example/didcomm', '{}')).rejects.toThrow('HTTP 500')
+  })
+})
+
+function publicJwk({ d: _d, ...jwk }: JsonWebKey): JsonWebKey {
+  return jwk
+}
@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import express from 'express'
+import { AddressInfo } from 'net'
+import { Server } from 'http'
+import WebSocket from 'ws'
+import type { WebSocketServer } from 'ws'
+import { DIDCommMessenger } from '../../../src/core/didcomm/messenger'
+import { createDIDCommMessage } from '../../../src/core/didcomm/messages'
+import { MediationClient } from '../../../src/core/didcomm/mediation'
+import { HttpDIDCommTransport, WebSocketDIDCommTransport } from '../../../src/core/didcomm/transports'
+import { DIDCommErrorCode, DIDCommMessage, DIDCommTransport } from '../../../src/core/didcomm/types'
+import { DIDPeerPlugin } from '../../../src/core/plugins/did-methods/did-peer-plugin'
+import { DIDCommMediator } from '../../../src/server/didcomm-mediator'
+import { attachDIDCommWebSocket, createDIDCommRouter } from '../../../src/server/didcomm-router'
+import { httpFetch } from '../../setup/protocol-test-helper'
+
+const peer = new DIDPeerPlugin()
+const resolveDID = async (did: string) => (await peer.resolveDID(did)).didDocument!
+const PING = 'https://didcomm.org/trust-ping/2.0/ping'
+
+/**
+ * An agent whose DIDs share one secrets map
+ */
+function createAgent(transports: (messenger: () => DIDCommMessenger) => DIDCommTransport[]) {
+  const secrets = new Map<string, any>()
+  const messenger: DIDCommMessenger = new DIDCommMessenger({
+    resolveDID,
+    secrets: async (kid: string) => secrets.get(kid) || null,
+    transports: transports(() => messenger)
+  })
+  const createDID = async (services: { uri: string }[] = []) => {
+    const { did, keys } = await peer.createDID({ services })
+    keys.forEach(key => secrets.set(key.id, key.privateKeyJwk))
+    return did
+  }
+  return { messenger, createDID }
+}
+
+describe('DIDCommMediator', () => {
+  let server: Server
+  let wss: WebSocketServer
+  let mediator: DIDCommMediator
+  const sockets: WebSocketDIDCommTransport[] = []
+
+  /**
+   * A mobile agent without an endpoint of its own, granted mediation
+   */
+  async function createMobile(options: { webSocket?: boolean; mediatorDid?: string } = {}) {
+    const agent = createAgent(messenger => {
+      const transports: DIDCommTransport[] = [new HttpDIDCommTransport(httpFetch)]
+      if (options.webSocket) {
+        const socket = new WebSocketDIDCommTransport({ receive: packed => messenger().receive(packed), connect: url => new WebSocket(url) })
+        sockets.push(socket)
+        transports.unshift(socket)
+      }
+      return transports
+    })
+    const did = await agent.createDID()
+    const client = new MediationClient({ messenger: agent.messenger, did, mediatorDid: options.mediatorDid || mediator.did, timeout: 5000 })
+    const grant = await client.requestMediation()
+    // The DID others message us at routes through the mediator
+    const mediatedDid = await agent.createDID(grant.routingDids.map(uri => ({ uri })))
+    expect(await client.updateKeylist({ add: [mediatedDid] })).toEqual([{ recipientDid: mediatedDid, action: 'add', result: 'success' }])
+    const received: DIDCommMessage[] = []
+    agent.messenger.on(PING, async message => { received.push(message) })
+    return { ...agent, did, client, mediatedDid, received }
+  }
+
+  beforeAll(async () => {
+    const app = express()
+    server = app.listen(0)
+    const port = (server.address() as AddressInfo).port
+    const agent = createAgent(() => [new HttpDIDCommTransport(httpFetch)])
+    const did = await agent.createDID([{ uri: `ws://127.0.0.1:${port}/didcomm/ws` }, { uri: `http://127.0.0.1:${port}/didcomm` }])
+    mediator = new DIDCommMediator({ messenger: agent.messenger, did })
+    app.use('/didcomm', createDIDCommRouter(mediator.messenger))
+    wss = attachDIDCommWebSocket(server, mediator.messenger)
+  })
+
+  afterAll(async () => {
+    sockets.forEach(socket => socket.close())
+    await new Promise<void>(resolve => wss.close(() => resolve()))
+    await new Promise<void>(resolve => server.close(() => resolve()))
+  })
+
+  it('queues messages forwarded to a mediated DID until they are picked up', async () => {
+    const mobile = await createMobile()
+    const alice = createAgent(() => [new HttpDIDCommTransport(httpFetch)])
+    const aliceDid = await alice.createDID()
+
+    expect(await mobile.client.queryKeylist()).toEqual([mobile.mediatedDid])
+    await alice.messenger.send(createDIDCommMessage({ type: PING, from: aliceDid, to: mobile.mediatedDid, body: { n: 1 } }))
+    await alice.messenger.send(createDIDCommMessage({ type: PING, from: aliceDid, to: mobile.mediatedDid, body: { n: 2 } }))
+    expect(mobile.received).toHaveLength(0)
+    expect(await mobile.client.getStatus()).toEqual({ messageCount: 2, liveDelivery: false })
+
+    expect(await mobile.client.pickup(1)).toBe(1)
+    expect(await mobile.client.pickup()).toBe(1)
+    expect(mobile.received.map(message => [message.from, message.body.n])).toEqual([[aliceDid, 1], [aliceDid, 2]])
+    expect(await mobile.client.getStatus(mobile.mediatedDid)).toEqual({ recipientDid: mobile.mediatedDid, messageCount: 0, liveDelivery: false })
+    expect(await mobile.client.pickup()).toBe(0)
+  })
+
+  it('keeps each DID with one client and refuses forwards for unknown DIDs', async () => {
+    const mobile = await createMobile()
+    const other = await createMobile()
+    const alice = createAgent(() => [new HttpDIDCommTransport(httpFetch)])
+    const aliceDid = await alice.createDID()
+
+    expect(await other.client.updateKeylist({ add: [mobile.mediatedDid, 'not-a-did'], remove: [other.mediatedDid] })).toEqual([
+      { recipientDid: mobile.mediatedDid, action: 'add', result: 'client_error' },
+      { recipientDid: 'not-a-did', action: 'add', result: 'client_error' },
+      { recipientDid: other.mediatedDid, action: 'remove', result: 'success' }
+    ])
+    await expect(alice.messenger.send(createDIDCommMessage({ type: PING, from: aliceDid, to: other.mediatedDid }))).rejects.toThrow()
+    expect(await other.client.getStatus()).toMatchObject({ messageCount: 0 })
+  })
+
+  it('pushes messages live over a WebSocket and removes them once acknowledged', async () => {
+    const mobile = await createMobile({ webSocket: true })
+    const alice = createAgent(() => [new HttpDIDCommTransport(httpFetch)])
+    const aliceDid = await alice.createDID()
+
+    // Waiting messages are pushed as soon as live delivery starts
+    await alice.messenger.send(createDIDCommMessage({ type: PING, from: aliceDid, to: mobile.mediatedDid, body: { n: 1 } }))
+    expect(await mobile.client.setLiveDelivery(true)).toMatchObject({ liveDelivery: true })
+    await vi.waitFor(() => expect(mobile.received).toHaveLength(1))
+
+    await alice.messenger.send(createDIDCommMessage({ type: PING, from: aliceDid, to: mobile.mediatedDid, body: { n: 2 } }))
+    await vi.waitFor(() => expect(mobile.received).toHaveLength(2))
+    expect(mobile.received.map(message => message.body.n)).toEqual([1, 2])
+    await vi.waitFor(async () => expect(await mobile.client.getStatus()).toEqual({ messageCount: 0, liveDelivery: true }))
+  })
+
+  it('reports problems for requests without mediation and live delivery without a WebSocket', async () => {
+    const mobile = await createMobile()
+    await expect(mobile.client.setLiveDelivery(true)).rejects.toMatchObject({
+      code: DIDCommErrorCode.REJECTED,
+      message: expect.stringContaining('e.m.live-mode-not-supported')
+    })
+
+    const stranger = createAgent(() => [new HttpDIDCommTransport(httpFetch)])
+    const client = new MediationClient({ messenger: stranger.messenger, did: await stranger.createDID(), mediatorDid: mediator.did, timeout: 5000 })
+    await expect(client.pickup()).rejects.toThrow('e.p.req.not-granted')
+  })
+
+  it('refuses forwards once a queue is full and drops messages nobody picked up in time', async () => {
+    const app = express()
+    const limitedServer = app.listen(0)
+    const agent = createAgent(() => [new HttpDIDCommTransport(httpFetch)])
+    const mediatorDid = await agent.createDID([{ uri: `http://127.0.0.1:${(limitedServer.address() as AddressInfo).port}/didcomm` }])
+    const limited = new DIDCommMediator({ messenger: agent.messenger, did: mediatorDid, queueLimit: { messages: 2, bytes: 1024 * 1024 }, messageTtl: 1000 })
+    app.use('/didcomm', createDIDCommRouter(limited.messenger))
+
+    try {
+      const mobile = await createMobile({ mediatorDid })
+      const alice = createAgent(() => [new HttpDIDCommTransport(httpFetch)])
+      const aliceDid = await alice.createDID()
+      const ping = (n: number) => alice.messenger.send(createDIDCommMessage({ type: PING, from: aliceDid, to: mobile.mediatedDid, body: { n } }))
+
+      await ping(1)
+      await ping(2)
+      await expect(ping(3)).rejects.toThrow()
+      expect(await mobile.client.getStatus()).toMatchObject({ messageCount: 2 })
+
+      await new Promise(resolve => setTimeout(resolve, 1100))
+      expect(await mobile.client.getStatus()).toMatchObject({ messageCount: 0 })
+      await ping(4)
+      expect(await mobile.client.pickup()).toBe(1)
+      expect(mobile.received.map(message => message.body.n)).toEqual([4])
+    } finally {
+      await new Promise<void>(resolve => limitedServer.close(() => resolve()))
+    }
+  })
+
+  it('denies mediation the mediator does not grant', async () => {
+    const app = express()
+    const denyingServer = app.listen(0)
+    const agent = createAgent(() => [new HttpDIDCommTransport(httpFetch)])
+    const mediatorDid = await agent.createDID([{ uri: `http://127.0.0.1:${(denyingServer.address() as AddressInfo).port}/didcomm` }])
+    const denying = new DIDCommMediator({ messenger: agent.messenger, did: mediatorDid, grantMediation: async () => false })
+    app.use('/didcomm', createDIDCommRouter(denying.messenger))
+
+    const mobile = createAgent(() => [new HttpDIDCommTransport(httpFetch)])
+    const client = new MediationClient({ messenger: mobile.messenger, did: await mobile.createDID(), mediatorDid, timeout: 5000 })
+    try {
+      await expect(client.requestMediation()).rejects.toMatchObject({ code: DIDCommErrorCode.REJECTED })
+    } finally {
+      await new Promise<void>(resolve => denyingServer.close(() => resolve()))
+    }
+  })
+})
@@ -0,0 +1,205 @@
+import { describe, it, expect } from 'vitest'
+import { DIDCommMessenger } from '../../../src/core/didcomm/messenger'
+import { createDIDCommMessage } from '../../../src/core/didcomm/messages'
+import { IssueCredentialProtocol } from '../../../src/core/didcomm/protocols/issue-credential'
+import { PresentProofProtocol } from '../../../src/core/didcomm/protocols/present-proof'
+import { InMemoryExchangeRecordStore, SecureStorageExchangeRecordStore } from '../../../src/core/didcomm/protocols/store'
+import { CredentialDetail, IssueCredentialMessageType, PROBLEM_REPORT_TYPE, ProblemReportCode } from '../../../src/core/didcomm/protocols/types'
+import { InMemoryDIDCommTransport } from '../../../src/core/didcomm/transports'
+import { DIDPeerPlugin } from '../../../src/core/plugins/did-methods/did-peer-plugin'
+import { InMemoryStorage } from '../../../src/core/storage/memory'
+import { PresentationDefinition } from '../../../src/core/presentation-exchange/types'
+
+const peer = new DIDPeerPlugin()
+const resolveDID = async (did: string) => (await peer.resolveDID(did)).didDocument!
+
+async function createParties() {
+  const transport = new InMemoryDIDCommTransport()
+  const party = async (name: string) => {
+    const { did, keys } = await peer.createDID({ services: [{ uri: `memory://${name}` }] })
+    const secrets = new Map(keys.map(key => [key.id, key.privateKeyJwk]))
+    // A new messenger takes over the endpoint, as after a restart
+    const connect = () => {
+      const messenger = new DIDCommMessenger({ resolveDID, secrets: async (kid: string) => secrets.get(kid) || null, transports: [transport] })
+      transport.listen(`memory://${name}`, packed => messenger.receive(packed))
+      return messenger
+    }
+    return { did, messenger: connect(), store: new InMemoryExchangeRecordStore(), connect }
+  }
+  return { issuer: await party('issuer'), holder: await party('holder') }
+}
+
+const detail: CredentialDetail = {
+  credential: {
+    '@context': ['https://www.w3.org/ns/credentials/v2'],
+    type: ['VerifiableCredential', 'MembershipCredential'],
+    credentialSubject: { member: 'gold' }
+  },
+  options: { proofType: 'Ed25519Signature2020' }
+}
+
+const definition: PresentationDefinition = {
+  id: 'membership',
+  input_descriptors: [{ id: 'member', constraints: { fields: [{ path: ['$.credentialSubject.member'] }] } }]
+}
+
+// Signs as the issuer's side of the exchange
+const sign = async (template: any, record: any) => ({ ...template, id: 'urn:uuid:1', issuer: record.myDid, proof: { type: 'Ed25519Signature2020' } })
+
+describe('IssueCredentialProtocol', () => {
+  it('runs propose, offer, request, issue and ack with every step persisted', async () => {
+    const { issuer, holder } = await createParties()
+    const issuerStates: string[] = []
+    const holderStates: string[] = []
+    const received: any[] = []
+    const issuing = new IssueCredentialProtocol({ ...issuer, issueCredential: sign, onStateChanged: record => issuerStates.push(record.state) })
+    const holding = new IssueCredentialProtocol({
+      ...holder,
+      acceptCredential: async credential => { received.push(credential) },
+      onStateChanged: record => holderStates.push(record.state)
+    })
+
+    const proposal = await holding.proposeCredential({ from: holder.did, to: issuer.did, credential: detail, goalCode: 'membership' })
+    expect((await issuing.getRecord(proposal.id))).toMatchObject({ role: 'issuer', state: 'proposal-received', theirDid: holder.did, goalCode: 'membership', credentialDetail: detail })
+
+    await issuing.offerCredential({ recordId: proposal.id })
+    expect(await holding.getRecord(proposal.id)).toMatchObject({ state: 'offer-received', offeredDetail: detail })
+    await holding.requestCredential(proposal.id)
+    expect((await issuing.getRecord(proposal.id))!.credentialDetail!.credential.credentialSubject.id).toBe(holder.did)
+    await issuing.issue(proposal.id)
+
+    expect(received).toHaveLength(1)
+    expect(received[0].credentialSubject).toEqual({ member: 'gold', id: holder.did })
+    expect(await holding.getRecord(proposal.id)).toMatchObject({ state: 'done', credential: received[0] })
+    expect(await issuing.getRecord(proposal.id)).toMatchObject({ state: 'done', credential: received[0] })
+    expect(holderStates).toEqual(['proposal-sent', 'offer-received', 'request-sent', 'credential-received', 'done'])
+    expect(issuerStates).toEqual(['proposal-received', 'offer-sent', 'request-received', 'credential-issued', 'done'])
+    expect(holder.messenger.getThread(proposal.id).map(message => message.type.split('/').pop()))
+      .toEqual(['propose-credential', 'offer-credential', 'request-credential', 'issue-credential', 'ack'])
+  })
+
+  it('resumes an exchange after a restart from the stored records', async () => {
+    const { issuer, holder } = await createParties()
+    const storage = new InMemoryStorage()
+    const holderStore = new SecureStorageExchangeRecordStore(storage)
+    new IssueCredentialProtocol({ ...holder, store: holderStore })
+    const issuing = new IssueCredentialProtocol({ ...issuer, issueCredential: sign, autoAccept: true })
+
+    const offer = await issuing.offerCredential({ from: issuer.did, to: holder.did, credential: detail })
+    expect(await holderStore.get(offer.id)).toMatchObject({ role: 'holder', state: 'offer-received' })
+
+    // A new agent on the same storage picks the exchange up
+    const restarted = new IssueCredentialProtocol({ messenger: holder.connect(), store: new SecureStorageExchangeRecordStore(storage) })
+
+    expect(await restarted.listRecords()).toHaveLength(1)
+    await restarted.requestCredential(offer.id)
+    expect(await restarted.getRecord(offer.id)).toMatchObject({ state: 'done', credential: { id: 'urn:uuid:1' } })
+    expect(await issuing.getRecord(offer.id)).toMatchObject({ state: 'done' })
+  })
+
+  it('answers unexpected and rejected messages with problem reports that abandon the exchange', async () => {
+    const { issuer, holder } = await createParties()
+    const issuing = new IssueCredentialProtocol({ ...issuer, issueCredential: sign })
+    const holding = new IssueCredentialProtocol({ ...holder, autoAccept: true, acceptCredential: async () => { throw new Error('Not the credential I asked for') } })
+    const reports: any[] = []
+    holder.messenger.on(PROBLEM_REPORT_TYPE, async message => { reports.push(message) })
+
+    // A request out of nowhere
+    const request = createDIDCommMessage({ type: IssueCredentialMessageType.REQUEST, from: holder.did, to: issuer.did })
+    await holder.messenger.send(request)
+    expect(reports[0]).toMatchObject({ pthid: request.id, body: { code: ProblemReportCode.UNEXPECTED_MESSAGE } })
+    expect(await issuing.getRecord(request.id)).toBeNull()
+
+    const offer = await issuing.offerCredential({ from: issuer.did, to: holder.did, credential: detail })
+    await issuing.issue(offer.id)
+    expect(await holding.getRecord(offer.id)).toMatchObject({ state: 'abandoned', error: { code: ProblemReportCode.REJECTED, comment: 'Not the credential I asked for' } })
+    expect(await issuing.getRecord(offer.id)).toMatchObject({ state: 'abandoned', error: { code: ProblemReportCode.REJECTED } })
+    await expect(issuing.abandon(offer.id)).rejects.toThrow('already abandoned')
+  })
+
+  it('rejects credentials from another issuer, with other claims or without a valid proof', async () => {
+    const { issuer, holder } = await createParties()
+    const received: any[] = []
+    const holding = new IssueCredentialProtocol({
+      ...holder,
+      autoAccept: true,
+      verifyCredential: async credential => ({ isValid: !!credential.proof, validationErrors: credential.proof ? [] : ['No proof'] }) as any,
+      acceptCredential: async credential => { received.push(credential) }
+    })
+    let issueCredential = sign
+    const issuing = new IssueCredentialProtocol({ ...issuer, issueCredential: (template, record) => issueCredential(template, record) })
+    const attempt = async (issue: typeof sign) => {
+      issueCredential = issue
+      const offer = await issuing.offerCredential({ from: issuer.did, to: holder.did, credential: detail })
+      await issuing.issue(offer.id)
+      return (await holding.getRecord(offer.id))!.error?.comment
+    }
+
+    expect(await attempt(async (template, record) => ({ ...(await sign(template, record)), issuer: 'did:example:someone-else' })))
+      .toBe(`Credential was issued by did:example:someone-else, not ${issuer.did}`)
+    expect(await attempt(async (template, record) => {
+      const credential = await sign(template, record)
+      return { ...credential, credentialSubject: { ...credential.credentialSubject, member: 'platinum' } }
+    })).toBe('Credential claims differ from the offer')
+    expect(await attempt(async (template, record) => ({ ...(await sign(template, record)), proof: undefined })))
+      .toBe('Credential does not verify: No proof')
+    expect(received).toHaveLength(0)
+
+    expect(await attempt(sign)).toBeUndefined()
+    expect(received).toHaveLength(1)
+  })
+})
+
+describe('PresentProofProtocol', () => {
+  it('requests, presents and confirms a presentation bound to the challenge', async () => {
+    const { issuer: verifier, holder: prover } = await createParties()
+    const presenting = new PresentProofProtocol({
+      ...prover,
+      autoAccept: true,
+      createPresentation: async (presentationDefinition, { challenge, domain }) => ({
+        presentation: { '@context': ['https://www.w3.org/ns/credentials/v2'], type: ['VerifiablePresentation'], holder: prover.did, proof: { challenge, domain } } as any,
+        presentationSubmission: { id: 'submission', definition_id: presentationDefinition.id, descriptor_map: [] }
+      })
+    })
+    const verifying = new PresentProofProtocol({
+      ...verifier,
+      verifyPresentation: async (presentation: any, submission, { challenge, presentationDefinition }) => {
+        const isValid = presentation.proof.challenge === challenge && submission.definition_id === presentationDefinition.id
+        return { isValid, validationErrors: isValid ? [] : ['Challenge mismatch'], warnings: [], credentialResults: [] }
+      }
+    })
+
+    const request = await verifying.requestPresentation({ from: verifier.did, to: prover.did, presentationDefinition: definition, challenge: 'nonce-1' })
+    expect(request).toMatchObject({ state: 'request-sent', challenge: 'nonce-1', domain: verifier.did })
+    expect(await verifying.getRecord(request.id)).toMatchObject({
+      state: 'done',
+      verified: true,
+      presentation: { holder: prover.did, proof: { challenge: 'nonce-1' } },
+      presentationSubmission: { definition_id: 'membership' }
+    })
+    expect(await presenting.getRecord(request.id)).toMatchObject({ role: 'prover', state: 'done', presentationDefinition: definition })
+  })
+
+  it('abandons the exchange when the presentation does not verify', async () => {
+    const { issuer: verifier, holder: prover } = await createParties()
+    const presenting = new PresentProofProtocol({
+      ...prover,
+      createPresentation: async () => ({ presentation: { proof: { challenge: 'stale' } } as any, presentationSubmission: { id: 's', definition_id: 'membership', descriptor_map: [] } })
+    })
+    const verifying = new PresentProofProtocol({
+      ...verifier,
+      verifyPresentation: async () => ({ isValid: false, validationErrors: ['Challenge mismatch'], warnings: [], credentialResults: [] })
+    })
+
+    const proposal = await presenting.proposePresentation({ from: prover.did, to: verifier.did, presentationDefinition: definition })
+    expect(await verifying.getRecord(proposal.id)).toMatchObject({ state: 'proposal-received', presentationDefinition: definition })
+    await verifying.requestPresentation({ recordId: proposal.id })
+    await presenting.sendPresentation(proposal.id)
+
+    expect(await verifying.getRecord(proposal.id)).toMatchObject({ state: 'abandoned', verified: false, verificationErrors: ['Challenge mismatch'] })
+    expect(await presenting.getRecord(proposal.id)).toMatchObject({
+      state: 'abandoned',
+      error: { code: ProblemReportCode.INVALID_PRESENTATION, comment: 'Challenge mismatch' }
+    })
+  })
+})
@@ -0,0 +1,212 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest'
+import express from 'express'
+import { AddressInfo } from 'net'
+import { Server } from 'http'
+import { createJWT, decodeJWT } from 'did-jwt'
+import {
+  OID4VCIIssuer,
+  OID4VCIClient,
+  OID4VCIError,
+  PRE_AUTHORIZED_CODE_GRANT,
+  createProofJwt,
+  parseCredentialOfferInput
+} from '../../../src/core/oid4vci'
+import { createOID4VCIRouter } from '../../../src/server/oid4vci-router'
+import { httpFetch, createDidKeyFixture, didKeyResolver } from '../../setup/protocol-test-helper'
+
+const resolver = didKeyResolver
+const issuerKey = createDidKeyFixture()
+const holderKey = createDidKeyFixture()
+const holderSigner = holderKey.jwtSigner
+
+// Lets tests make the issuer misbehave: sign with another key or rewrite the JWT payload
+let signingKey = issuerKey
+let rewritePayload = (payload: Record<string, any>) => payload
+
+describe('OID4VCI pre-authorized code flow', () => {
+  let server: Server
+  let issuer: OID4VCIIssuer
+
+  beforeAll(async () => {
+    const app = express()
+    server = app.listen(0)
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/oid4vci`
+
+    issuer = new OID4VCIIssuer({
+      credentialIssuer: baseUrl,
+      issuerDid: issuerKey.did,
+      resolver,
+      credentialConfigurations: {
+        UniversityDegree_jwt: {
+          format: 'jwt_vc_json',
+          credential_definition: { type: ['VerifiableCredential', 'UniversityDegreeCredential'] }
+        }
+      },
+      issueCredential: async template => {
+        const jwt = await createJWT(
+          rewritePayload({ sub: template.credentialSubject.id, vc: { ...template, credentialSubject: { degree: template.credentialSubject.degree } } }),
+          { issuer: template.issuer, signer: signingKey.signer },
+          { alg: 'EdDSA' }
+        )
+        return { ...template, id: '', validFrom: new Date().toISOString(), proof: { type: 'JsonWebSignature2020', jwt } } as any
+      }
+    })
+    app.use('/oid4vci', createOID4VCIRouter(issuer))
+  })
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())))
+
+  afterEach(() => {
+    signingKey = issuerKey
+    rewritePayload = payload => payload
+  })
+
+  it('serves issuer and authorization server metadata', async () => {
+    const client = new OID4VCIClient(resolver, httpFetch)
+    const metadata = await client.getIssuerMetadata(issuer.credentialIssuer)
+    expect(metadata.credential_endpoint).toBe(`${issuer.credentialIssuer}/credential`)
+    expect(metadata.credential_configurations_supported.UniversityDegree_jwt.format).toBe('jwt_vc_json')
+
+    const as = await client.getAuthorizationServerMetadata(issuer.credentialIssuer)
+    expect(as.grant_types_supported).toContain(PRE_AUTHORIZED_CODE_GRANT)
+  })
+
+  it('issues a holder-bound credential for an offer URI', async () => {
+    const { offerUri } = issuer.createCredentialOffer({
+      credentialConfigurationId: 'UniversityDegree_jwt',
+      claims: { degree: 'BSc' }
+    })
+
+    const received = await new OID4VCIClient(resolver, httpFetch).acceptCredentialOffer(offerUri, { signer: holderSigner })
+
+    expect(received.credential.issuer).toBe(issuerKey.did)
+    expect(received.credential.credentialSubject).toEqual({ id: holderKey.did, degree: 'BSc' })
+    expect(decodeJWT(received.jwt).payload.sub).toBe(holderKey.did)
+  })
+
+  it('accepts offers by reference and from a credential transfer QR payload', async () => {
+    const { offerUri } = issuer.createCredentialOfferByReference({
+      credentialConfigurationId: 'UniversityDegree_jwt',
+      claims: { degree: 'MSc' },
+      txCode: '1234'
+    })
+    const qrPayload = JSON.stringify({ type: 'credential-transfer-request', requestId: 'req-1', credentialOffer: offerUri })
+
+    const client = new OID4VCIClient(resolver, httpFetch)
+    await expect(client.acceptCredentialOffer(qrPayload, { signer: holderSigner })).rejects.toThrow('transaction code')
+
+    const received = await client.acceptCredentialOffer(qrPayload, { signer: holderSigner, txCode: '1234' })
+    expect(received.credential.credentialSubject.degree).toBe('MSc')
+  })
+
+  it('rejects a reused pre-authorized code and a wrong transaction code', async () => {
+    const { preAuthorizedCode } = issuer.createCredentialOffer({
+      credentialConfigurationId: 'UniversityDegree_jwt',
+      claims: { degree: 'PhD' },
+      txCode: '9999'
+    })
+    const request = { grant_type: PRE_AUTHORIZED_CODE_GRANT, 'pre-authorized_code': preAuthorizedCode }
+
+    await expect(issuer.handleTokenRequest({ ...request, tx_code: '0000' })).rejects.toMatchObject({ code: 'invalid_grant' })
+    await issuer.handleTokenRequest({ ...request, tx_code: '9999' })
+    await expect(issuer.handleTokenRequest({ ...request, tx_code: '9999' })).rejects.toThrow('invalid or expired')
+  })
+
+  it('invalidates the pre-authorized code after too many wrong transaction codes', async () => {
+    const { preAuthorizedCode } = issuer.createCredentialOffer({
+      credentialConfigurationId: 'UniversityDegree_jwt',
+      claims: { degree: 'PhD' },
+      txCode: '4321'
+    })
+    const request = { grant_type: PRE_AUTHORIZED_CODE_GRANT, 'pre-authorized_code': preAuthorizedCode }
+
+    await expect(issuer.handleTokenRequest({ ...request, tx_code: '0000' })).rejects.toThrow('Transaction code is invalid')
+    await expect(issuer.handleTokenRequest({ ...request, tx_code: '0001' })).rejects.toThrow('Transaction code is invalid')
+    await expect(issuer.handleTokenRequest({ ...request, tx_code: '0002' })).rejects.toThrow('too many attempts')
+    await expect(issuer.handleTokenRequest({ ...request, tx_code: '4321' })).rejects.toThrow('invalid or expired')
+  })
+
+  it('rejects proofs with a wrong nonce, audience or signer', async () => {
+    const redeem = async () => {
+      const { preAuthorizedCode } = issuer.createCredentialOffer({ credentialConfigurationId: 'UniversityDegree_jwt', claims: {} })
+      return issuer.handleTokenRequest({ grant_type: PRE_AUTHORIZED_CODE_GRANT, 'pre-authorized_code': preAuthorizedCode })
+    }
+    const request = (jwt: string) => ({
+      format: 'jwt_vc_json',
+      credential_definition: { type: ['VerifiableCredential', 'UniversityDegreeCredential'] },
+      proof: { proof_type: 'jwt' as const, jwt }
+    })
+
+    let token = await redeem()
+    const wrongNonce = await createProofJwt(holderSigner, { audience: issuer.credentialIssuer, nonce: 'stale' })
+    const nonceError = await issuer.handleCredentialRequest(token.access_token, request(wrongNonce)).catch(e => e)
+    expect(nonceError).toBeInstanceOf(OID4VCIError)
+    expect(nonceError.toResponse()).toMatchObject({ error: 'invalid_nonce', c_nonce: expect.any(String) })
+
+    token = await redeem()
+    const wrongAudience = await createProofJwt(holderSigner, { audience: 'https://other.example', nonce: token.c_nonce })
+    await expect(issuer.handleCredentialRequest(token.access_token, request(wrongAudience))).rejects.toMatchObject({ code: 'invalid_proof' })
+
+    const impostor = { ...holderSigner, sign: (data: string | Uint8Array) => issuerKey.signer(data) as Promise<string> }
+    const forged = await createProofJwt(impostor, { audience: issuer.credentialIssuer, nonce: token.c_nonce })
+    await expect(issuer.handleCredentialRequest(token.access_token, request(forged))).rejects.toThrow('signature is invalid')
+
+    await expect(issuer.handleCredentialRequest('unknown', request(forged))).rejects.toMatchObject({ status: 401 })
+  })
+
+  it('issues one credential per access token, even to concurrent requests', async () => {
+    const { preAuthorizedCode } = issuer.createCredentialOffer({ credentialConfigurationId: 'UniversityDegree_jwt', claims: {} })
+    const token = await issuer.handleTokenRequest({ grant_type: PRE_AUTHORIZED_CODE_GRANT, 'pre-authorized_code': preAuthorizedCode })
+    const proof = await createProofJwt(holderSigner, { audience: issuer.credentialIssuer, nonce: token.c_nonce })
+    const request = {
+      format: 'jwt_vc_json',
+      credential_definition: { type: ['VerifiableCredential', 'UniversityDegreeCredential'] },
+      proof: { proof_type: 'jwt' as const, jwt: proof }
+    }
+
+    const results = await Promise.allSettled([
+      issuer.handleCredentialRequest(token.access_token, request),
+      issuer.handleCredentialRequest(token.access_token, request)
+    ])
+
+    const issued = results.filter(result => result.status === 'fulfilled')
+    expect(issued).toHaveLength(1)
+    expect((issued[0] as PromiseFulfilledResult<any>).value.c_nonce).toBeUndefined()
+    expect(results.find(result => result.status === 'rejected')).toMatchObject({ reason: { status: 401 } })
+  })
+
+  it('rejects metadata for another issuer than the offer names', async () => {
+    const { offer } = issuer.createCredentialOffer({ credentialConfigurationId: 'UniversityDegree_jwt', claims: {} })
+    const lookalike = JSON.stringify({ ...offer, credential_issuer: `${issuer.credentialIssuer}/` })
+
+    await expect(new OID4VCIClient(resolver, httpFetch).acceptCredentialOffer(lookalike, { signer: holderSigner }))
+      .rejects.toThrow(`Issuer metadata is for ${issuer.credentialIssuer}`)
+  })
+
+  it('rejects received credentials with a bad signature, a mismatched issuer or another subject', async () => {
+    const client = new OID4VCIClient(resolver, httpFetch)
+    const accept = () => client.acceptCredentialOffer(
+      issuer.createCredentialOffer({ credentialConfigurationId: 'UniversityDegree_jwt', claims: { degree: 'BSc' } }).offerUri,
+      { signer: holderSigner }
+    )
+
+    signingKey = holderKey
+    await expect(accept()).rejects.toThrow('failed verification')
+
+    signingKey = issuerKey
+    rewritePayload = payload => ({ ...payload, vc: { ...payload.vc, issuer: holderKey.did } })
+    await expect(accept()).rejects.toThrow(`names issuer ${holderKey.did}`)
+
+    rewritePayload = payload => ({ ...payload, sub: issuerKey.did })
+    await expect(accept()).rejects.toThrow(`issued to ${issuerKey.did}`)
+  })
+
+  it('parses offers by value and by reference', () => {
+    const offer = { credential_issuer: 'https://issuer.example', credential_configuration_ids: ['x'] }
+    const byValue = `openid-credential-offer://?credential_offer=${encodeURIComponent(JSON.stringify(offer))}`
+    expect(parseCredentialOfferInput(byValue).offer).toEqual(offer)
+    expect(parseCredentialOfferInput('openid-credential-offer://?credential_offer_uri=https%3A%2F%2Fissuer.example%2Fo%2F1').offerUri)
+      .toBe('https://issuer.example/o/1')
+    expect(() => parseCredentialOfferInput('{"type":"device-pairing"}')).toThrow('does not contain a credential offer')
+  })
+})
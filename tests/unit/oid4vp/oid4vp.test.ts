@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest'
+import express from 'express'
+import { AddressInfo } from 'net'
+import { Server } from 'http'
+import { createJWT } from 'did-jwt'
+import { OID4VPVerifier, OID4VPClient, OID4VPError } from '../../../src/core/oid4vp'
+import { PresentationExchangeClient, PresentationDefinition } from '../../../src/core/presentation-exchange'
+import { decodePresentationJwt, checkPresentationBinding, normalizeEmbeddedCredential } from '../../../src/core/presentation'
+import { createOID4VPRouter } from '../../../src/server/oid4vp-router'
+import { httpFetch, createDidKeyFixture, didKeyResolver } from '../../setup/protocol-test-helper'
+
+const verifierKey = createDidKeyFixture()
+const issuerKey = createDidKeyFixture()
+const holderKey = createDidKeyFixture()
+const pex = new PresentationExchangeClient()
+
+const definition: PresentationDefinition = {
+  id: 'employment-check',
+  input_descriptors: [{
+    id: 'employment',
+    constraints: { fields: [{ path: ['$.type'], filter: { type: 'array', contains: { const: 'EmploymentCredential' } } }] }
+  }]
+}
+
+async function createCredential() {
+  const jwt = await createJWT(
+    {
+      sub: holderKey.did,
+      vc: {
+        '@context': ['https://www.w3.org/2018/credentials/v1'],
+        type: ['VerifiableCredential', 'EmploymentCredential'],
+        credentialSubject: { employer: 'ACME' }
+      }
+    },
+    { issuer: issuerKey.did, signer: issuerKey.signer },
+    { alg: 'EdDSA' }
+  )
+  return normalizeEmbeddedCredential(jwt)
+}
+
+async function createVpToken(nonce: string, audience: string) {
+  const { presentationSubmission, credentials } = pex.createSubmission(definition, { employment: await createCredential() })
+  const vpToken = await createJWT(
+    {
+      aud: audience,
+      nonce,
+      vp: {
+        '@context': ['https://www.w3.org/2018/credentials/v1'],
+        type: ['VerifiablePresentation'],
+        verifiableCredential: credentials.map(c => (c.proof as any).jwt)
+      }
+    },
+    { issuer: holderKey.did, signer: holderKey.signer },
+    { alg: 'EdDSA' }
+  )
+  return { vpToken, presentationSubmission }
+}
+
+describe('OID4VP direct_post flow', () => {
+  let server: Server
+  let verifier: OID4VPVerifier
+  const holder = new OID4VPClient(didKeyResolver, httpFetch)
+
+  beforeAll(() => {
+    const app = express()
+    server = app.listen(0)
+    verifier = new OID4VPVerifier({
+      baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}/oid4vp`,
+      clientId: verifierKey.did,
+      signer: verifierKey.jwtSigner,
+      // Binding and definition checks only; signature checks live in the agents
+      verifyPresentation: async (presentation, submission, { challenge, domain, presentationDefinition }) => {
+        const { payload } = decodePresentationJwt(presentation as string)
+        const errors = [
+          ...checkPresentationBinding(payload, { challenge, domain }),
+          ...pex.validateSubmission(presentationDefinition, submission, payload.vp).errors
+        ]
+        return { isValid: errors.length === 0, validationErrors: errors, warnings: [], credentialResults: [] }
+      }
+    })
+    app.use('/oid4vp', createOID4VPRouter(verifier))
+  })
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())))
+
+  it('resolves a request by reference and verifies the posted VP token', async () => {
+    const { requestUri, state } = await verifier.createAuthorizationRequest({ presentationDefinition: definition })
+    expect(requestUri.startsWith('openid4vp://?')).toBe(true)
+
+    const request = await holder.parseAuthorizationRequest(requestUri)
+    expect(request.client_id).toBe(verifierKey.did)
+    expect(request.presentation_definition).toEqual(definition)
+
+    const { vpToken, presentationSubmission } = await createVpToken(request.nonce, request.client_id)
+    await holder.submitAuthorizationResponse(request, vpToken, presentationSubmission)
+
+    expect(verifier.getSession(state)?.status).toBe('verified')
+    // Request objects are no longer served once answered
+    expect(verifier.getRequestObject(state)).toBeUndefined()
+  })
+
+  it('rejects a VP token bound to a different nonce and refuses replays', async () => {
+    const { requestUri, state } = await verifier.createAuthorizationRequest({ presentationDefinition: definition, byValue: true })
+    const request = await holder.parseAuthorizationRequest(requestUri)
+    const { vpToken, presentationSubmission } = await createVpToken('another-nonce', request.client_id)
+
+    await expect(holder.submitAuthorizationResponse(request, vpToken, presentationSubmission)).rejects.toThrow('challenge')
+    expect(verifier.getSession(state)?.status).toBe('failed')
+
+    const replay = await createVpToken(request.nonce, request.client_id)
+    await expect(holder.submitAuthorizationResponse(request, replay.vpToken, replay.presentationSubmission))
+      .rejects.toThrow('Authorization request is failed')
+  })
+
+  it('rejects request objects that are not signed by the client_id DID', async () => {
+    const { requestObject } = await verifier.createAuthorizationRequest({ presentationDefinition: definition })
+
+    await expect(holder.verifyRequestObject(requestObject, holderKey.did)).rejects.toThrow('client_id does not match')
+
+    const [header, payload] = requestObject.split('.')
+    const forged = `${header}.${payload}.${requestObject.split('.')[2].split('').reverse().join('')}`
+    const error = await holder.verifyRequestObject(forged).catch(e => e)
+    expect(error).toBeInstanceOf(OID4VPError)
+    expect(error.code).toBe('invalid_request_object')
+  })
+
+  it('expires sessions and forgets them after the retention period', async () => {
+    const shortLived = new OID4VPVerifier({
+      baseUrl: 'https://verifier.example/oid4vp',
+      clientId: verifierKey.did,
+      signer: verifierKey.jwtSigner,
+      verifyPresentation: async () => ({ isValid: true, validationErrors: [], warnings: [], credentialResults: [] }),
+      requestTtl: 60,
+      sessionRetention: 60
+    })
+    const { state } = await shortLived.createAuthorizationRequest({ presentationDefinition: definition })
+
+    vi.useFakeTimers({ toFake: ['Date'] })
+    try {
+      vi.setSystemTime(Date.now() + 90 * 1000)
+      expect(shortLived.getSession(state)?.status).toBe('expired')
+      vi.setSystemTime(Date.now() + 60 * 1000)
+      expect(shortLived.getSession(state)).toBeUndefined()
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+})
@@ -0,0 +1,119 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { webcrypto } from 'crypto'
+import { TextDecoder, TextEncoder } from 'util'
+import { Bbs2023Plugin, Bbs2023KeyPair } from '../../../src/core/plugins/crypto-suites/bbs-2023-plugin'
+import { KeyAlgorithm } from '../../../src/core/key-management/types'
+import { KeyManager } from '../../../src/core/key-management/manager'
+
+const keyManager = new KeyManager()
+const plugin = new Bbs2023Plugin({ keyManager })
+let keyPair: Bbs2023KeyPair
+let credential: Record<string, any>
+
+// The BBS libraries hash and draw randomness through Web Crypto, which the global setup mocks
+const mockedGlobals = { crypto: globalThis.crypto, TextEncoder: globalThis.TextEncoder, TextDecoder: globalThis.TextDecoder }
+
+describe('Bbs2023Plugin', () => {
+  beforeAll(async () => {
+    Object.assign(globalThis, { crypto: webcrypto, TextEncoder, TextDecoder })
+    keyPair = await plugin.generateKeyPair()
+    credential = {
+      '@context': [
+        'https://www.w3.org/ns/credentials/v2',
+        { birthDate: 'https://schema.org/birthDate', nationality: 'https://schema.org/nationality' }
+      ],
+      id: 'urn:uuid:58172aac-d8ba-11ed-83dd-0b3aef56cc33',
+      type: ['VerifiableCredential'],
+      issuer: keyPair.controller,
+      validFrom: '2024-01-01T00:00:00Z',
+      credentialSubject: {
+        id: 'did:example:subject',
+        name: 'Alice',
+        birthDate: '1990-01-01',
+        nationality: 'NL'
+      }
+    }
+  })
+
+  afterAll(() => {
+    Object.assign(globalThis, mockedGlobals)
+  })
+
+  it('generates BLS12-381 keys bound to a did:key', () => {
+    expect(keyPair.algorithm).toBe(KeyAlgorithm.BLS12_381)
+    expect(keyPair.controller).toBe(`did:key:${keyPair.publicKeyMultibase}`)
+    expect(keyPair.publicKeyMultibase).toMatch(/^zUC7/)
+    expect(plugin.getVerificationMethod(keyPair)).toMatchObject({ id: keyPair.id, type: 'Multikey' })
+  })
+
+  it('keeps the secret key in the KeyManager and signs by key ID', async () => {
+    expect(keyPair).not.toHaveProperty('secretKeyMultibase')
+    expect(await keyManager.getKeyMetadata(keyPair.keyId)).toMatchObject({ algorithm: KeyAlgorithm.BLS12_381 })
+    expect(await keyManager.getPublicKeyJwk(keyPair.keyId)).toMatchObject({ kty: 'OKP', crv: 'Bls12381G2' })
+    expect(await keyManager.getPublicKeyJwk(keyPair.keyId)).not.toHaveProperty('d')
+
+    const other = await plugin.generateKeyPair()
+    await keyManager.deleteKey(other.keyId)
+    await expect(plugin.createBaseProof(credential, { keyPair: other })).rejects.toThrow('Key not found')
+  })
+
+  it('derives and verifies a proof that reveals only the selected pointers', async () => {
+    const secured = await plugin.createBaseProof(credential, { keyPair, mandatoryPointers: ['/issuer'] })
+    expect(secured.proof).toMatchObject({ type: 'DataIntegrityProof', cryptosuite: 'bbs-2023', verificationMethod: keyPair.id })
+
+    const derived = await plugin.deriveProof(secured, { selectivePointers: ['/credentialSubject/nationality'] })
+    expect(derived.issuer).toBe(keyPair.controller)
+    expect(derived.credentialSubject).toEqual({ id: 'did:example:subject', nationality: 'NL' })
+
+    const result = await plugin.verifyProof(derived)
+    expect(result.errors).toEqual([])
+    expect(result.verified).toBe(true)
+  })
+
+  it('produces unlinkable derived proofs', async () => {
+    const secured = await plugin.createBaseProof(credential, { keyPair })
+    const first = await plugin.deriveProof(secured, { selectivePointers: ['/credentialSubject/name'] })
+    const second = await plugin.deriveProof(secured, { selectivePointers: ['/credentialSubject/name'] })
+
+    expect(first.credentialSubject).toEqual(second.credentialSubject)
+    expect(first.proof.proofValue).not.toBe(second.proof.proofValue)
+    expect(first.proof.proofValue).not.toBe(secured.proof.proofValue)
+  })
+
+  it('rejects a derived credential with altered disclosed values', async () => {
+    const secured = await plugin.createBaseProof(credential, { keyPair })
+    const derived = await plugin.deriveProof(secured, { selectivePointers: ['/credentialSubject/birthDate'] })
+    derived.credentialSubject.birthDate = '2000-01-01'
+
+    const result = await plugin.verifyProof(derived)
+    expect(result.verified).toBe(false)
+    expect(result.errors.length).toBeGreaterThan(0)
+  })
+
+  it('requires a resolver for controllers other than BLS12-381 did:key', async () => {
+    const issuer = await plugin.generateKeyPair({ controller: 'did:example:issuer' })
+    const secured = await plugin.createBaseProof({ ...credential, issuer: issuer.controller }, { keyPair: issuer })
+    const derived = await plugin.deriveProof(secured, { selectivePointers: ['/issuer'] })
+
+    expect((await plugin.verifyProof(derived)).verified).toBe(false)
+
+    const method = plugin.getVerificationMethod(issuer)
+    const resolver = {
+      resolve: async () => ({
+        didDocument: {
+          '@context': ['https://www.w3.org/ns/did/v1', 'https://w3id.org/security/multikey/v1'],
+          id: issuer.controller,
+          verificationMethod: [method],
+          assertionMethod: [method.id]
+        },
+        didResolutionMetadata: {},
+        didDocumentMetadata: {}
+      })
+    }
+    expect((await plugin.verifyProof(derived, { resolver })).verified).toBe(true)
+  })
+
+  it('refuses to derive from credentials without a bbs-2023 base proof', async () => {
+    await expect(plugin.deriveProof(credential, { selectivePointers: [] })).rejects.toThrow('bbs-2023 base proof')
+  })
+})
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest'
+import crypto from 'crypto'
+import { Resolver } from 'did-resolver'
+import { createJWT, ES256Signer, verifyJWT } from 'did-jwt'
+import { DIDJWKPlugin } from '../../../src/core/plugins/did-methods'
+import { KeyManager } from '../../../src/core/key-management/manager'
+import { KeyAlgorithm } from '../../../src/core/key-management/types'
+
+const signJwt = async (signer: { kid: string; alg: string; sign: (data: string) => Promise<string> }, payload: object) => {
+  const header = Buffer.from(JSON.stringify({ alg: signer.alg, typ: 'JWT', kid: signer.kid })).toString('base64url')
+  const body = Buffer.from(JSON.stringify(payload)).toString('base64url')
+  return `${header}.${body}.${await signer.sign(`${header}.${body}`)}`
+}
+
+describe('DIDJWKPlugin', () => {
+  const plugin = new DIDJWKPlugin()
+  const keyManager = new KeyManager()
+
+  it.each([
+    [KeyAlgorithm.ED25519, 'EdDSA'],
+    [KeyAlgorithm.SECP256K1, 'ES256K'],
+    [KeyAlgorithm.P256, 'ES256']
+  ])('derives, resolves and signs with %s keys from KeyManager', async (algorithm, alg) => {
+    const keyPair = await keyManager.generateKeyPair(algorithm)
+    const { did, kid, document } = plugin.createDID(keyPair.publicKey)
+
+    expect(did).toMatch(/^did:jwk:[A-Za-z0-9_-]+$/)
+    expect(JSON.parse(Buffer.from(did.slice('did:jwk:'.length), 'base64url').toString())).not.toHaveProperty('d')
+
+    const { didDocument } = await new Resolver({ ...plugin.getResolver() }).resolve(kid)
+    expect(didDocument).toEqual(document)
+    expect(didDocument!.verificationMethod![0]).toMatchObject({ id: kid, type: 'JsonWebKey2020', controller: did })
+    expect(didDocument!.assertionMethod).toEqual([kid])
+
+    const signer = plugin.createSigner(keyPair.privateKey)
+    expect(signer).toMatchObject({ kid, alg })
+    const result = await plugin.verifyJWT(await signJwt(signer, { iss: did, nonce: 'n-0S6_WzA2Mj' }))
+    expect(result).toMatchObject({ verified: true, did, payload: { nonce: 'n-0S6_WzA2Mj' } })
+  })
+
+  it('verifies JWTs from other did:jwk implementations, and they verify ours', async () => {
+    const { privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' })
+    const privateJwk = privateKey.export({ format: 'jwk' })
+    const { did, kid } = plugin.createDID(privateJwk)
+
+    const walletJwt = await createJWT(
+      { aud: 'https://issuer.example', nonce: 'c_nonce' },
+      { issuer: did, signer: ES256Signer(Buffer.from(privateJwk.d!, 'base64url')) },
+      { alg: 'ES256', kid, typ: 'openid4vci-proof+jwt' }
+    )
+    expect(await plugin.verifyJWT(walletJwt)).toMatchObject({ verified: true, did })
+
+    const ours = await signJwt(plugin.createSigner(privateJwk), { iss: did })
+    const { issuer } = await verifyJWT(ours, { resolver: new Resolver({ ...plugin.getResolver() }) })
+    expect(issuer).toBe(did)
+  })
+
+  it('rejects bad signatures, mismatched algorithms and expired JWTs', async () => {
+    const keyPair = await keyManager.generateKeyPair(KeyAlgorithm.ED25519)
+    const signer = plugin.createSigner(keyPair.privateKey)
+    const other = plugin.createSigner(crypto.generateKeyPairSync('ed25519').privateKey.export({ format: 'jwk' }))
+
+    const forged = await signJwt({ ...other, kid: signer.kid }, { sub: 'x' })
+    expect(await plugin.verifyJWT(forged)).toMatchObject({ verified: false, error: 'JWT signature is invalid' })
+
+    const wrongAlg = await signJwt({ ...signer, alg: 'ES256' }, { sub: 'x' })
+    expect((await plugin.verifyJWT(wrongAlg)).error).toMatch(/does not match/)
+
+    const expired = await signJwt(signer, { exp: Math.floor(Date.now() / 1000) - 60 })
+    expect(await plugin.verifyJWT(expired)).toMatchObject({ verified: false, error: 'JWT has expired' })
+  })
+
+  it('does not resolve identifiers that carry private keys or are not JWKs', async () => {
+    const privateJwk = crypto.generateKeyPairSync('ed25519').privateKey.export({ format: 'jwk' })
+    const leaked = `did:jwk:${Buffer.from(JSON.stringify(privateJwk)).toString('base64url')}`
+
+    expect((await plugin.resolveDID(leaked)).didResolutionMetadata.error).toBe('invalidDid')
+    expect((await plugin.resolveDID(`did:jwk:${Buffer.from('{"a":1}').toString('base64url')}`)).didDocument).toBeNull()
+  })
+
+  it('publishes encryption-only keys for key agreement only', () => {
+    const jwk = crypto.generateKeyPairSync('x25519').publicKey.export({ format: 'jwk' })
+    const { document, kid } = plugin.createDID({ ...jwk, use: 'enc' })
+
+    expect(document.keyAgreement).toEqual([kid])
+    expect(document.assertionMethod).toBeUndefined()
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest'
+import crypto from 'crypto'
+import { Resolver } from 'did-resolver'
+import { DIDKeyPlugin } from '../../../src/core/plugins/did-methods'
+
+// https://w3c-ccg.github.io/did-method-key/#test-vectors
+const VECTORS = {
+  Ed25519: 'did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK',
+  Secp256k1: 'did:key:zQ3shokFTS3brHcDQrn82RUDfCZESWL1ZdCEJwekUDPQiYBme',
+  'P-256': 'did:key:zDnaerDaTF5BXEavCrfRZEk316dpbLsfPDZ3WJ5hRTPFU2169',
+  'P-384': 'did:key:z82Lm1MpAkeJcix9K8TMiLd5NMAhnwkjjCBeWHXyu3U4oT2MVJJKXkcVBgjGhnLBn2Kaau9'
+}
+
+describe('DIDKeyPlugin', () => {
+  const plugin = new DIDKeyPlugin()
+
+  it('resolves Ed25519 keys with a derived X25519 key agreement key', async () => {
+    const did = VECTORS.Ed25519
+    const document = await plugin.resolveDID(did)
+    const signing = `${did}#z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK`
+    const agreement = `${did}#z6LSj72tK8brWgZja8NLRwPigth2T9QRiG1uH9oKZuKjdh9p`
+
+    expect(document['@context']).toEqual(['https://www.w3.org/ns/did/v1', 'https://w3id.org/security/multikey/v1'])
+    expect(document.verificationMethod).toEqual([
+      { id: signing, type: 'Multikey', controller: did, publicKeyMultibase: 'z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK' },
+      { id: agreement, type: 'Multikey', controller: did, publicKeyMultibase: 'z6LSj72tK8brWgZja8NLRwPigth2T9QRiG1uH9oKZuKjdh9p' }
+    ])
+    expect(document.assertionMethod).toEqual([signing])
+    expect(document.keyAgreement).toEqual([agreement])
+
+    const withoutDerivation = await plugin.resolveDID(did, { enableEncryptionKeyDerivation: false })
+    expect(withoutDerivation.verificationMethod).toHaveLength(1)
+    expect(withoutDerivation.keyAgreement).toBeUndefined()
+  })
+
+  it.each([
+    ['Secp256k1', 'secp256k1', 'h0wVx_2iDlOcblulc8E5iEw1EYh5n1RYtLQfeSTyNc0', 'O2EATIGbu6DezKFptj5scAIRntgfecanVNXxat1rnwE'],
+    ['P-256', 'P-256', 'fyNYMN0976ci7xqiSdag3buk-ZCwgXU4kz9XNkBlNUI', 'hW2ojTNfH7Jbi8--CJUo3OCbH3y5n91g-IMA9MLMbTU'],
+    ['P-384', 'P-384', 'lInTxl8fjLKp_UCrxI0WDklahi-7-_6JbtiHjiRvMvhedhKVdHBfi2HCY8t_QJyc', 'y6N1IC-2mXxHreETBW7K3mBcw0qGr3CWHCs-yl09yCQRLcyfGv7XhqAngHOu51Zv']
+  ] as const)('decompresses %s keys into publicKeyJwk verification methods', async (algorithm, crv, x, y) => {
+    const did = VECTORS[algorithm]
+    const document = await plugin.resolveDID(did, { publicKeyFormat: 'JsonWebKey2020' })
+
+    expect(document['@context']).toContain('https://w3id.org/security/suites/jws-2020/v1')
+    expect(document.verificationMethod).toEqual([{
+      id: `${did}#${did.slice('did:key:'.length)}`,
+      type: 'JsonWebKey2020',
+      controller: did,
+      publicKeyJwk: { kty: 'EC', crv, x, y }
+    }])
+    expect(document.keyAgreement).toBeUndefined()
+  })
+
+  it.each(['Ed25519', 'Secp256k1', 'P-256', 'P-384'] as const)('creates %s DIDs that round-trip through the JWK export and sign', async algorithm => {
+    const { did, privateKey, publicKey, keyId } = await plugin.createDID({ algorithm, includePrivateKey: true })
+
+    expect(keyId).toBe(`${did}#${publicKey}`)
+    expect(did.slice(0, 12)).toBe(VECTORS[algorithm].slice(0, 12))
+
+    const imported = await plugin.importDID(privateKey!, 'jwk', algorithm)
+    expect(imported.did).toBe(did)
+    expect(JSON.parse(await plugin.exportDID(did, 'jwk'))).toEqual(
+      (await plugin.resolveDID(did, { publicKeyFormat: 'JsonWebKey2020' })).verificationMethod![0].publicKeyJwk
+    )
+
+    const data = new TextEncoder().encode('did:key test payload')
+    const signature = await plugin.signWithDID(did, data, privateKey!)
+    expect(await plugin.verifySignature(did, data, signature)).toBe(true)
+    expect(await plugin.verifySignature(did, new TextEncoder().encode('tampered'), signature)).toBe(false)
+  })
+
+  it('creates X25519 DIDs for key agreement only', async () => {
+    const { did, document } = await plugin.createDID({ algorithm: 'X25519' })
+
+    expect(did).toMatch(/^did:key:z6LS/)
+    expect(document.keyAgreement).toEqual([document.verificationMethod![0].id])
+    expect(document.authentication).toBeUndefined()
+  })
+
+  it('imports raw private keys and matches keys generated elsewhere', async () => {
+    const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'prime256v1' })
+    const { did } = await plugin.importDID(Buffer.from(privateKey.export({ format: 'jwk' }).d!, 'base64url').toString('hex'), 'hex', 'P-256')
+
+    expect(JSON.parse(await plugin.exportDID(did, 'jwk'))).toEqual(publicKey.export({ format: 'jwk' }))
+  })
+
+  it('rejects unknown multicodecs and signing keys of another DID', async () => {
+    const resolver = new Resolver({ ...plugin.getResolver() })
+    expect((await resolver.resolve(VECTORS['P-256'])).didDocument?.id).toBe(VECTORS['P-256'])
+    expect((await resolver.resolve('did:key:z2J9gaYxrKVpdoG9A4gRnmpnRCcxU6agDtFVVBVdn1JedouoZN7SzcyREXXzWgt3gGiwpoHq7K68X4m32D8HgzG8wv3sY5j7')).didResolutionMetadata.error).toBe('invalidDid')
+
+    const { privateKey } = await plugin.createDID({ algorithm: 'Ed25519', includePrivateKey: true })
+    await expect(plugin.signWithDID(VECTORS.Ed25519, new Uint8Array([1]), privateKey!)).rejects.toThrow('Private key does not belong to this DID')
+  })
+})
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { Resolver } from 'did-resolver'
+import { DIDPeerPlugin, SecureStorageDIDPeerLongFormStore } from '../../../src/core/plugins/did-methods'
+import { InMemoryStorage } from '../../../src/core/storage/memory'
+
+describe('DIDPeerPlugin', () => {
+  const plugin = new DIDPeerPlugin()
+
+  it('creates numalgo 2 DIDs with key agreement, authentication and a DIDComm service', async () => {
+    const { did, document, keys } = await plugin.createDID({
+      services: [{ uri: 'https://mediator.example/didcomm', routingKeys: ['did:example:mediator#key-1'] }]
+    })
+
+    expect(did).toMatch(/^did:peer:2\.Ez6LS[1-9A-HJ-NP-Za-km-z]+\.Vz6Mk[1-9A-HJ-NP-Za-km-z]+\.S[A-Za-z0-9_-]+$/)
+    expect(document.keyAgreement).toEqual([`${did}#key-1`])
+    expect(document.authentication).toEqual([`${did}#key-2`])
+    expect(document.service).toEqual([{
+      id: `${did}#service`,
+      type: 'DIDCommMessaging',
+      serviceEndpoint: { uri: 'https://mediator.example/didcomm', accept: ['didcomm/v2'], routingKeys: ['did:example:mediator#key-1'] }
+    }])
+    expect(keys.map(key => [key.id, key.purpose, key.privateKeyJwk.crv])).toEqual([
+      [`${did}#key-1`, 'keyAgreement', 'X25519'],
+      [`${did}#key-2`, 'authentication', 'Ed25519']
+    ])
+  })
+
+  it('mints a different DID every time', async () => {
+    const first = await plugin.createDID()
+    const second = await plugin.createDID()
+    expect(first.did).not.toBe(second.did)
+  })
+
+  it('resolves numalgo 2 DIDs from other implementations without any network', async () => {
+    // Example from the peer DID method specification
+    const did = 'did:peer:2.Vz6Mkj3PUd1WjvaDhNZhhhXQdz5UnZXmS7ehtx8bsPpD47kKc.Ez6LSg8zQom395jKLrGiBNruB9MM6V8PWuf2FpEy4uRFiqQBR.SeyJ0IjoiZG0iLCJzIjp7InVyaSI6Imh0dHA6Ly9leGFtcGxlLmNvbS9kaWRjb21tIiwiYSI6WyJkaWRjb21tL3YyIl0sInIiOlsiZGlkOmV4YW1wbGU6MTIzNDU2Nzg5YWJjZGVmZ2hpI2tleS0xIl19fQ'
+    const { didDocument, didResolutionMetadata } = await new Resolver({ ...plugin.getResolver() }).resolve(did)
+
+    expect(didResolutionMetadata.error).toBeUndefined()
+    expect(didDocument!.authentication).toEqual([`${did}#key-1`])
+    expect(didDocument!.keyAgreement).toEqual([`${did}#key-2`])
+    expect(didDocument!.service![0]).toMatchObject({
+      type: 'DIDCommMessaging',
+      serviceEndpoint: { uri: 'http://example.com/didcomm', accept: ['didcomm/v2'], routingKeys: ['did:example:123456789abcdefghi#key-1'] }
+    })
+  })
+
+  it('creates numalgo 4 DIDs that resolve in long form and, once seen, in short form', async () => {
+    const { did, shortFormDid, document } = await plugin.createDID({ numalgo: 4, services: [{ uri: 'https://agent.example/didcomm' }] })
+
+    expect(did.startsWith(`${shortFormDid}:z`)).toBe(true)
+    expect(document.alsoKnownAs).toEqual([shortFormDid])
+    expect(document.keyAgreement).toEqual([`${did}#key-1`])
+
+    const verifier = new DIDPeerPlugin()
+    expect((await verifier.resolveDID(shortFormDid!)).didResolutionMetadata.error).toBe('notFound')
+    expect((await verifier.resolveDID(did)).didDocument!.id).toBe(did)
+
+    const short = await verifier.resolveDID(shortFormDid!)
+    expect(short.didDocument).toMatchObject({ id: shortFormDid, alsoKnownAs: [did], authentication: [`${shortFormDid}#key-2`] })
+    expect(short.didDocument!.service![0].id).toBe(`${shortFormDid}#service`)
+  })
+
+  it('keeps long forms created or resolved in its store across restarts', async () => {
+    const store = new SecureStorageDIDPeerLongFormStore(new InMemoryStorage())
+    const own = await new DIDPeerPlugin({ store }).createDID({ numalgo: 4 })
+    const theirs = await plugin.createDID({ numalgo: 4 })
+    await new DIDPeerPlugin({ store }).resolveDID(theirs.did)
+
+    const restarted = new DIDPeerPlugin({ store })
+    expect((await restarted.resolveDID(own.shortFormDid!)).didDocument!.alsoKnownAs).toEqual([own.did])
+    expect((await restarted.resolveDID(theirs.shortFormDid!)).didDocument!.alsoKnownAs).toEqual([theirs.did])
+    expect(await store.list()).toEqual([own.did, theirs.did])
+  })
+
+  it('rejects tampered or malformed peer DIDs', async () => {
+    const { did } = await plugin.createDID({ numalgo: 4 })
+    const [, , hash] = did.split(':')
+    const tampered = `did:peer:${hash}:${(await plugin.createDID({ numalgo: 4 })).did.split(':')[3]}`
+
+    expect((await plugin.resolveDID(tampered)).didResolutionMetadata.error).toBe('invalidDid')
+    expect((await plugin.resolveDID('did:peer:2.Vz6LSg8zQom395jKLrGiBNruB9MM6V8PWuf2FpEy4uRFiqQBR')).didResolutionMetadata.error).toBe('invalidDid')
+    expect((await plugin.resolveDID('did:peer:0z6Mkj3PUd1WjvaDhNZhhhXQdz5UnZXmS7ehtx8bsPpD47kKc')).didResolutionMetadata.error).toBe('invalidDid')
+  })
+})
@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import express from 'express'
+import { AddressInfo } from 'net'
+import { Server } from 'http'
+import { Resolver } from 'did-resolver'
+import { CachingDIDResolver } from '../../../src/core/did/resolver'
+import { SecureStorageDIDVersionStore } from '../../../src/core/did/lifecycle'
+import { DIDWebPlugin, createDidWeb, didWebToUrl } from '../../../src/core/plugins/did-methods'
+import { KeyManager } from '../../../src/core/key-management/manager'
+import { KeyAlgorithm } from '../../../src/core/key-management/types'
+import { InMemoryStorage } from '../../../src/core/storage/memory'
+import { createDIDWebRouter } from '../../../src/server/did-web-router'
+import { httpFetch } from '../../setup/protocol-test-helper'
+
+describe('did:web identifiers', () => {
+  it('maps identifiers to document URLs', () => {
+    expect(didWebToUrl('did:web:w3c-ccg.github.io')).toBe('https://w3c-ccg.github.io/.well-known/did.json')
+    expect(didWebToUrl('did:web:w3c-ccg.github.io:user:alice')).toBe('https://w3c-ccg.github.io/user/alice/did.json')
+    expect(didWebToUrl('did:web:example.com%3A3000:user:alice')).toBe('https://example.com:3000/user/alice/did.json')
+  })
+
+  it('builds identifiers from a domain, port and path', () => {
+    expect(createDidWeb('Issuer.Example.com')).toBe('did:web:issuer.example.com')
+    expect(createDidWeb('example.com', { port: 3000, path: '/users/alice/' })).toBe('did:web:example.com%3A3000:users:alice')
+    expect(() => createDidWeb('example.com/evil')).toThrow('Invalid did:web domain')
+    expect(() => didWebToUrl('did:web:')).toThrow('Invalid did:web identifier')
+  })
+})
+
+describe('DIDWebPlugin', () => {
+  let server: Server
+  let origin: string
+  let keyManager: KeyManager
+  let plugin: DIDWebPlugin
+
+  // Documents are requested at https://<domain>/...; route them to the local server
+  const localFetch = (url: string, init?: RequestInit) => {
+    const { pathname, search } = new URL(url)
+    return httpFetch(`${origin}${pathname}${search}`, init)
+  }
+
+  beforeAll(async () => {
+    keyManager = new KeyManager()
+    plugin = new DIDWebPlugin({ keyManager, fetch: localFetch })
+
+    const app = express()
+    app.use(createDIDWebRouter(plugin))
+    server = app.listen(0)
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+  })
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())))
+
+  it('creates a did.json with the public keys of KeyManager keys', async () => {
+    const ed25519 = await keyManager.generateKey(KeyAlgorithm.ED25519)
+    const secp256k1 = await keyManager.generateKey(KeyAlgorithm.SECP256K1)
+
+    const { did, document, url } = await plugin.createDID({
+      domain: 'issuer.example.com',
+      keyIds: [ed25519, secp256k1],
+      services: [{ id: 'did:web:issuer.example.com#vc-api', type: 'VerifiableCredentialService', serviceEndpoint: 'https://issuer.example.com/vc' }]
+    })
+
+    expect(did).toBe('did:web:issuer.example.com')
+    expect(url).toBe('https://issuer.example.com/.well-known/did.json')
+    expect(document.verificationMethod).toEqual([
+      expect.objectContaining({ id: `${did}#${ed25519}`, type: 'JsonWebKey2020', publicKeyJwk: expect.objectContaining({ kty: 'OKP', crv: 'Ed25519' }) }),
+      expect.objectContaining({ id: `${did}#${secp256k1}`, publicKeyJwk: expect.objectContaining({ kty: 'EC', crv: 'secp256k1' }) })
+    ])
+    expect(document.verificationMethod!.every(method => !('d' in method.publicKeyJwk!))).toBe(true)
+    expect(document.assertionMethod).toEqual([`${did}#${ed25519}`, `${did}#${secp256k1}`])
+    expect(document.service).toHaveLength(1)
+  })
+
+  it('serves documents at /.well-known/did.json and /<path>/did.json', async () => {
+    const keyId = await keyManager.generateKey(KeyAlgorithm.ED25519)
+    const { did } = await plugin.createDID({ domain: 'issuer.example.com', path: 'issuers/acme', keyIds: [keyId] })
+
+    const res = await httpFetch(`${origin}/issuers/acme/did.json`)
+    expect(res.status).toBe(200)
+    expect(res.headers.get('content-type')).toContain('application/did+json')
+    expect((await res.json()).id).toBe(did)
+
+    expect((await httpFetch(`${origin}/.well-known/did.json`)).status).toBe(200)
+    expect((await httpFetch(`${origin}/unknown/did.json`)).status).toBe(404)
+  })
+
+  it('resolves did:web identifiers through the fetcher and a did-resolver Resolver', async () => {
+    const keyId = await keyManager.generateKey(KeyAlgorithm.ED25519)
+    const { did, document } = await plugin.createDID({ domain: 'issuer.example.com', path: ['people', 'alice'], keyIds: [keyId] })
+
+    const resolver = new Resolver({ ...plugin.getResolver() })
+    const result = await resolver.resolve(did)
+    expect(result.didResolutionMetadata.error).toBeUndefined()
+    expect(result.didDocument).toEqual(document)
+
+    expect((await resolver.resolve('did:web:issuer.example.com:people:bob')).didResolutionMetadata.error).toBe('notFound')
+  })
+
+  it('reports outages as internalError, which the caching resolver does not keep', async () => {
+    const keyId = await keyManager.generateKey(KeyAlgorithm.ED25519)
+    const { did } = await plugin.createDID({ domain: 'issuer.example.com', path: 'flaky', keyIds: [keyId] })
+    let outage: 'network' | 'server' | undefined = 'network'
+    const flaky = new DIDWebPlugin({
+      fetch: async (url, init) => {
+        if (outage === 'network') throw new Error('ECONNRESET')
+        if (outage === 'server') return new Response('', { status: 503 })
+        return localFetch(url, init)
+      }
+    })
+    const resolver = new CachingDIDResolver({ methods: { web: { resolver: flaky.getResolver().web } } })
+
+    expect((await resolver.resolve(did)).didResolutionMetadata.error).toBe('internalError')
+    outage = 'server'
+    expect((await resolver.resolve(did)).didResolutionMetadata.error).toBe('internalError')
+    outage = undefined
+    expect((await resolver.resolve(did)).didDocument?.id).toBe(did)
+    expect((await flaky.resolveDID('did:web:issuer.example.com:nobody')).didResolutionMetadata.error).toBe('notFound')
+  })
+
+  it('rejects documents that describe a different DID', async () => {
+    const keyId = await keyManager.generateKey(KeyAlgorithm.ED25519)
+    const { document } = await plugin.createDID({ domain: 'issuer.example.com', path: 'mallory', keyIds: [keyId] })
+    await plugin.hostDocument({ ...document, id: 'did:web:issuer.example.com:mallory' })
+    const impostor = new DIDWebPlugin({ fetch: async url => localFetch(url.replace('/eve/', '/mallory/')) })
+
+    const result = await impostor.resolveDID('did:web:issuer.example.com:eve')
+    expect(result.didResolutionMetadata.error).toBe('invalidDidDocument')
+    expect(result.didDocument).toBeNull()
+  })
+
+  it('updates hosted documents and follows KeyManager key rotation, keeping versions resolvable', async () => {
+    const keyId = await keyManager.generateKey(KeyAlgorithm.ED25519)
+    const { did } = await plugin.createDID({ domain: 'issuer.example.com', path: 'rotating', keyIds: [keyId] })
+    await plugin.updateDID(did, { addServices: [{ id: '#files', type: 'LinkedDomains', serviceEndpoint: 'https://files.example.com' }] })
+    const beforeRotation = new Date().toISOString()
+    // Version times are kept to the second
+    await new Promise(resolve => setTimeout(resolve, 1005 - (Date.now() % 1000)))
+
+    const rotation = await keyManager.rotateKey(keyId)
+    expect(rotation.rotated).toBe(true)
+    expect((await plugin.getVersions(did)).map(version => version.versionId)).toEqual(['1', '2', '3'])
+
+    const resolver = new CachingDIDResolver({ methods: { web: { resolver: plugin.getResolver().web, versioned: true } } })
+    const current = await resolver.resolve(did)
+    expect(current.didDocument!.assertionMethod).toEqual([`${did}#${rotation.newKeyId}`])
+    expect(current.didDocument!.verificationMethod!.map(vm => vm.id)).toContain(`${did}#${keyId}`)
+    expect(current.didDocument!.service).toHaveLength(1)
+    expect(current.didDocumentMetadata.versionId).toBe('3')
+
+    const historical = await resolver.resolve(did, { versionTime: beforeRotation })
+    expect(historical.didDocument!.assertionMethod).toEqual([`${did}#${keyId}`])
+    expect(historical.didDocumentMetadata.versionId).toBe('2')
+  })
+
+  it('serves deactivated documents with 410 and resolves them as deactivated', async () => {
+    const keyId = await keyManager.generateKey(KeyAlgorithm.ED25519)
+    const { did } = await plugin.createDID({ domain: 'issuer.example.com', path: 'retired', keyIds: [keyId] })
+    await plugin.deactivateDID(did)
+
+    expect((await httpFetch(`${origin}/retired/did.json`)).status).toBe(410)
+    const result = await plugin.resolveDID(did)
+    expect(result.didDocumentMetadata).toMatchObject({ deactivated: true, versionId: '2' })
+    await expect(plugin.updateDID(did, { removeServices: [] })).rejects.toThrow('is deactivated')
+  })
+
+  it('keeps hosted versions and deactivation in its store across restarts', async () => {
+    const store = new SecureStorageDIDVersionStore(new InMemoryStorage())
+    const hosting = new DIDWebPlugin({ keyManager, store })
+    const keyId = await keyManager.generateKey(KeyAlgorithm.ED25519)
+    const { did, path } = await hosting.createDID({ domain: 'issuer.example.com', path: 'kept', keyIds: [keyId] })
+    await hosting.updateDID(did, { addServices: [{ id: '#files', type: 'LinkedDomains', serviceEndpoint: 'https://files.example.com' }] })
+    await hosting.deactivateDID(did)
+
+    const restarted = new DIDWebPlugin({ keyManager, store })
+    expect((await restarted.getVersions(did)).map(version => version.versionId)).toEqual(['1', '2', '3'])
+    expect(await restarted.getHostedVersion(path)).toMatchObject({ versionId: '3', deactivated: true })
+    expect((await restarted.getHostedVersion(path, { versionId: '1' }))?.document.service).toBeUndefined()
+    await expect(restarted.updateDID(did, { removeServices: [] })).rejects.toThrow('is deactivated')
+
+    await restarted.removeDocument(did)
+    expect(await new DIDWebPlugin({ store }).getHostedDocument(path)).toBeUndefined()
+  })
+})
@@ -0,0 +1,232 @@
+import { describe, it, expect } from 'vitest'
+import { createJWT, EdDSASigner } from 'did-jwt'
+import crypto from 'crypto'
+import {
+  PresentationExchangeClient,
+  PresentationDefinition,
+  queryJsonPath
+} from '../../../src/core/presentation-exchange'
+import { normalizeEmbeddedCredential } from '../../../src/core/presentation'
+
+const holder = 'did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK'
+const issuer = 'did:key:z6MkjchhfUsD6mmvni8mCdXHw216Xrm9bQe2mBH1P5RDjVJG'
+
+const driversLicense: any = {
+  '@context': ['https://www.w3.org/ns/credentials/v2'],
+  id: 'urn:uuid:license',
+  type: ['VerifiableCredential', 'DriversLicense'],
+  issuer,
+  validFrom: '2024-01-01T00:00:00Z',
+  credentialSubject: { id: holder, birthDate: '1990-05-01', licenseClass: 'B' },
+  proof: { type: 'DataIntegrityProof', verificationMethod: `${issuer}#key-1` }
+}
+
+const employment: any = {
+  '@context': ['https://www.w3.org/ns/credentials/v2'],
+  id: 'urn:uuid:employment',
+  type: ['VerifiableCredential', 'EmploymentCredential'],
+  issuer,
+  validFrom: '2024-01-01T00:00:00Z',
+  credentialSubject: { id: holder, employer: 'ACME', salary: 50000 },
+  proof: { type: 'DataIntegrityProof', verificationMethod: `${issuer}#key-1` }
+}
+
+const typeField = (type: string) => ({
+  path: ['$.type'],
+  filter: { type: 'array', contains: { const: type } }
+})
+
+describe('queryJsonPath', () => {
+  const doc = { a: { b: [{ c: 1 }, { c: 2 }] }, 'odd-key': { c: 3 } }
+
+  it('supports child, index, wildcard, bracket and recursive descent selectors', () => {
+    expect(queryJsonPath(doc, '$.a.b[1].c')).toEqual([2])
+    expect(queryJsonPath(doc, '$.a.b[*].c')).toEqual([1, 2])
+    expect(queryJsonPath(doc, "$['odd-key'].c")).toEqual([3])
+    expect(queryJsonPath(doc, '$..c')).toEqual([1, 2, 3])
+    expect(queryJsonPath(doc, '$.missing')).toEqual([])
+  })
+
+  it('supports existence and comparison filters', () => {
+    const credential = {
+      type: ['VerifiableCredential', 'ContactCredential'],
+      credentialSubject: { contacts: [{ type: 'Email', value: 'erika@example.com' }, { type: 'Phone', priority: 2 }] }
+    }
+    expect(queryJsonPath(doc, '$.a.b[?(@.c)].c')).toEqual([1, 2])
+    expect(queryJsonPath(doc, '$.a.b[?(@.c > 1)]')).toEqual([{ c: 2 }])
+    expect(queryJsonPath(credential, "$.credentialSubject.contacts[?(@.type == 'Email')].value")).toEqual(['erika@example.com'])
+    expect(queryJsonPath(credential, '$.credentialSubject.contacts[?(@.priority >= 2)].type')).toEqual(['Phone'])
+    expect(queryJsonPath(credential, "$.type[?(@ == 'ContactCredential')]")).toEqual(['ContactCredential'])
+    expect(queryJsonPath(credential, '$.credentialSubject.contacts[?(@.priority < "3")]')).toEqual([])
+  })
+
+  it('rejects unsupported expressions', () => {
+    expect(() => queryJsonPath(doc, 'a.b')).toThrow('must start with $')
+    expect(() => queryJsonPath(doc, '$.a[0:2]')).toThrow('Unsupported')
+    expect(() => queryJsonPath(doc, '$.a.b[?(@.c == 1 && @.d)]')).toThrow('Unsupported JSONPath filter literal')
+    expect(() => queryJsonPath(doc, '$.a.b[?(length(@) > 1)]')).toThrow('must test a path starting with @')
+  })
+})
+
+describe('PresentationExchangeClient', () => {
+  const client = new PresentationExchangeClient()
+
+  const definition: PresentationDefinition = {
+    id: 'age-and-employment',
+    input_descriptors: [
+      {
+        id: 'license',
+        constraints: {
+          fields: [
+            typeField('DriversLicense'),
+            {
+              path: ['$.credentialSubject.birthDate', '$.vc.credentialSubject.birthDate'],
+              filter: { type: 'string', format: 'date', formatMaximum: '2006-01-01' }
+            }
+          ]
+        }
+      },
+      {
+        id: 'employment',
+        constraints: { fields: [typeField('EmploymentCredential')] }
+      }
+    ]
+  }
+
+  it('finds candidates per input descriptor', () => {
+    const evaluation = client.evaluate(definition, [driversLicense, employment])
+
+    expect(evaluation.satisfiable).toBe(true)
+    expect(evaluation.matches.find(m => m.descriptorId === 'license')!.candidates).toEqual([driversLicense])
+    expect(evaluation.matches.find(m => m.descriptorId === 'employment')!.candidates).toEqual([employment])
+  })
+
+  it('reports unsatisfiable definitions when a filter does not match', () => {
+    const minor = { ...driversLicense, credentialSubject: { ...driversLicense.credentialSubject, birthDate: '2015-01-01' } }
+    const evaluation = client.evaluate(definition, [minor, employment])
+
+    expect(evaluation.satisfiable).toBe(false)
+    expect(evaluation.errors).toContain('No credential satisfies input descriptor license')
+    expect(evaluation.matches[0].errors[0]).toContain('not satisfied')
+  })
+
+  it('ignores unmatched optional fields', () => {
+    const optionalDefinition: PresentationDefinition = {
+      id: 'optional',
+      input_descriptors: [{
+        id: 'employment',
+        constraints: { fields: [typeField('EmploymentCredential'), { path: ['$.credentialSubject.title'], optional: true }] }
+      }]
+    }
+    expect(client.evaluate(optionalDefinition, [employment]).satisfiable).toBe(true)
+  })
+
+  it('evaluates pick and nested submission requirements', () => {
+    const grouped: PresentationDefinition = {
+      id: 'grouped',
+      submission_requirements: [
+        {
+          rule: 'pick',
+          count: 1,
+          from_nested: [
+            { rule: 'all', from: 'A' },
+            { rule: 'pick', min: 1, from: 'B' }
+          ]
+        }
+      ],
+      input_descriptors: [
+        { id: 'passport', group: ['A'], constraints: { fields: [typeField('Passport')] } },
+        { id: 'license', group: ['B'], constraints: { fields: [typeField('DriversLicense')] } },
+        { id: 'employment', group: ['B'], constraints: { fields: [typeField('EmploymentCredential')] } }
+      ]
+    }
+
+    expect(client.evaluate(grouped, [driversLicense]).satisfiable).toBe(true)
+    expect(client.evaluate(grouped, [employment]).satisfiable).toBe(true)
+    expect(client.evaluate(grouped, []).satisfiable).toBe(false)
+  })
+
+  it('enforces pick upper bounds on submissions', () => {
+    const pickOne: PresentationDefinition = {
+      id: 'pick-one',
+      submission_requirements: [{ rule: 'pick', max: 1, from: 'B' }],
+      input_descriptors: [
+        { id: 'license', group: ['B'], constraints: { fields: [typeField('DriversLicense')] } },
+        { id: 'employment', group: ['B'], constraints: { fields: [typeField('EmploymentCredential')] } }
+      ]
+    }
+
+    expect(client.evaluate(pickOne, [driversLicense, employment]).satisfiable).toBe(true)
+    expect(() => client.createSubmission(pickOne, { license: driversLicense, employment })).toThrow('at most 1')
+    expect(client.createSubmission(pickOne, { license: driversLicense }).credentials).toEqual([driversLicense])
+  })
+
+  it('detects invalid definitions', () => {
+    const errors = client.validateDefinition({
+      id: 'bad',
+      submission_requirements: [{ rule: 'all', from: 'missing' }],
+      input_descriptors: [{ id: 'dup' }, { id: 'dup' }, { id: 'sliced', constraints: { fields: [{ path: ['$.type[0:2]'] }] } }]
+    })
+    expect(errors).toContain('Duplicate input descriptor id: dup')
+    expect(errors).toContain('Submission requirement references unknown group: missing')
+    expect(errors).toContain('Input descriptor sliced has an unsupported path: Unsupported JSONPath selector [0:2]: $.type[0:2]')
+  })
+
+  it('creates a submission that validates against the definition', () => {
+    const evaluation = client.evaluate(definition, [driversLicense, employment])
+    const { presentationSubmission, credentials } = client.createSubmissionFromEvaluation(definition, evaluation)
+
+    expect(presentationSubmission.definition_id).toBe('age-and-employment')
+    expect(presentationSubmission.descriptor_map).toEqual([
+      { id: 'license', format: 'ldp_vc', path: '$.verifiableCredential[0]' },
+      { id: 'employment', format: 'ldp_vc', path: '$.verifiableCredential[1]' }
+    ])
+
+    const presentation = { type: ['VerifiablePresentation'], verifiableCredential: credentials }
+    const result = client.validateSubmission(definition, presentationSubmission, presentation)
+    expect(result.isValid).toBe(true)
+    expect(result.fulfilledDescriptors).toEqual(['license', 'employment'])
+  })
+
+  it('rejects submissions whose credentials do not meet the definition', () => {
+    const { presentationSubmission } = client.createSubmission(definition, { license: driversLicense, employment })
+    const swapped = { verifiableCredential: [employment, driversLicense] }
+
+    const result = client.validateSubmission(definition, presentationSubmission, swapped)
+    expect(result.isValid).toBe(false)
+    expect(result.errors.some(e => e.includes('Credential for license'))).toBe(true)
+
+    const wrongDefinition = client.validateSubmission(definition, { ...presentationSubmission, definition_id: 'other' }, swapped)
+    expect(wrongDefinition.errors[0]).toContain('expected age-and-employment')
+  })
+
+  it('matches JWT credentials against the raw vc claim', async () => {
+    const jwt = await createJWT(
+      {
+        sub: holder,
+        jti: 'urn:uuid:jwt-license',
+        vc: {
+          '@context': ['https://www.w3.org/2018/credentials/v1'],
+          type: ['VerifiableCredential', 'DriversLicense'],
+          credentialSubject: { birthDate: '1985-01-01' }
+        }
+      },
+      { issuer, signer: EdDSASigner(crypto.randomBytes(32)) },
+      { alg: 'EdDSA' }
+    )
+    const vcClaimDefinition: PresentationDefinition = {
+      id: 'vc-claim',
+      input_descriptors: [{
+        id: 'license',
+        constraints: { fields: [{ path: ['$.vc.credentialSubject.birthDate'], filter: { type: 'string' } }] }
+      }]
+    }
+    const credential = normalizeEmbeddedCredential(jwt)
+
+    const { presentationSubmission } = client.createSubmission(vcClaimDefinition, { license: credential })
+    expect(presentationSubmission.descriptor_map[0].format).toBe('jwt_vc')
+
+    const result = client.validateSubmission(vcClaimDefinition, presentationSubmission, { verifiableCredential: [jwt] })
+    expect(result.isValid).toBe(true)
+  })
+})
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest'
+import { createJWT, EdDSASigner } from 'did-jwt'
+import crypto from 'crypto'
+import {
+  getPresentationJwt,
+  decodePresentationJwt,
+  checkPresentationBinding,
+  getEmbeddedCredentials
+} from '../../../src/core/presentation'
+
+const holder = 'did:key:z6MkhaXgBZDvotDkL5257faiztiGiC2QtKLGpbnnEGta2doK'
+const issuer = 'did:key:z6MkjchhfUsD6mmvni8mCdXHw216Xrm9bQe2mBH1P5RDjVJG'
+const signer = EdDSASigner(crypto.randomBytes(32))
+
+async function createCredentialJwt(): Promise<string> {
+  return createJWT(
+    {
+      sub: holder,
+      jti: 'urn:uuid:credential-1',
+      nbf: Math.floor(Date.now() / 1000),
+      vc: {
+        '@context': ['https://www.w3.org/2018/credentials/v1'],
+        type: ['VerifiableCredential', 'AgeCredential'],
+        credentialSubject: { over18: true }
+      }
+    },
+    { issuer, signer },
+    { alg: 'EdDSA' }
+  )
+}
+
+async function createPresentationJwt(overrides: Record<string, any> = {}): Promise<string> {
+  return createJWT(
+    {
+      aud: ['https://verifier.example.com'],
+      nonce: 'challenge-123',
+      vp: {
+        '@context': ['https://www.w3.org/2018/credentials/v1'],
+        type: ['VerifiablePresentation'],
+        verifiableCredential: [await createCredentialJwt()]
+      },
+      ...overrides
+    },
+    { issuer: holder, signer },
+    { alg: 'EdDSA' }
+  )
+}
+
+describe('Presentation utilities', () => {
+  it('extracts the JWT from a presentation object or string', async () => {
+    const jwt = await createPresentationJwt()
+    expect(getPresentationJwt(jwt)).toBe(jwt)
+    expect(getPresentationJwt({ proof: { jwt } } as any)).toBe(jwt)
+    expect(getPresentationJwt({ proof: { type: 'DataIntegrityProof' } } as any)).toBeNull()
+  })
+
+  it('accepts a presentation bound to the expected challenge and domain', async () => {
+    const { payload } = decodePresentationJwt(await createPresentationJwt())
+    const errors = checkPresentationBinding(payload, {
+      challenge: 'challenge-123',
+      domain: 'https://verifier.example.com',
+      holder
+    })
+    expect(errors).toEqual([])
+  })
+
+  it('rejects a replayed challenge, wrong domain and wrong holder', async () => {
+    const { payload } = decodePresentationJwt(await createPresentationJwt())
+    const errors = checkPresentationBinding(payload, {
+      challenge: 'other-challenge',
+      domain: 'https://attacker.example.com',
+      holder: issuer
+    })
+    expect(errors).toHaveLength(3)
+    expect(errors.join(' ')).toContain('challenge')
+    expect(errors.join(' ')).toContain('domain')
+    expect(errors.join(' ')).toContain('holder mismatch')
+  })
+
+  it('rejects an expired presentation', async () => {
+    const { payload } = decodePresentationJwt(
+      await createPresentationJwt({ exp: Math.floor(Date.now() / 1000) - 60 })
+    )
+    const errors = checkPresentationBinding(payload, {
+      challenge: 'challenge-123',
+      domain: 'https://verifier.example.com'
+    })
+    expect(errors).toContain('Presentation has expired')
+  })
+
+  it('throws when the JWT does not carry a vp claim', async () => {
+    const jwt = await createCredentialJwt()
+    expect(() => decodePresentationJwt(jwt)).toThrow('missing vp claim')
+  })
+
+  it('normalizes embedded JWT credentials', async () => {
+    const { payload } = decodePresentationJwt(await createPresentationJwt())
+    const [credential] = getEmbeddedCredentials(payload.vp)
+
+    expect(credential.id).toBe('urn:uuid:credential-1')
+    expect(credential.issuer).toBe(issuer)
+    expect(credential.credentialSubject).toEqual({ id: holder, over18: true })
+    expect(credential.type).toContain('AgeCredential')
+    expect((credential.proof as any).jwt).toBeDefined()
+  })
+})
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import {
+  StatusListCache,
+  StatusListProvider,
+  StatusListService,
+  SecureStorageSnapshotStore,
+  StatusListErrorCode
+} from '../../../src/core/revocation'
+import { SecureStorageImpl } from '../../../src/core/storage/secure-storage'
+import { DataIntegrityClient } from '../../../src/core/data-integrity'
+import { createDidKeyFixture, didKeyResolver } from '../../setup/protocol-test-helper'
+
+const URL = 'https://issuer.example/status/1'
+const MINUTE = 60 * 1000
+
+const listBody = (subject: Record<string, any> = {}, extra: Record<string, any> = {}) => JSON.stringify({
+  id: URL,
+  type: ['VerifiableCredential', 'BitstringStatusListCredential'],
+  ...extra,
+  credentialSubject: { type: 'BitstringStatusList', statusPurpose: 'revocation', encodedList: 'u', ...subject }
+})
+
+describe('StatusListCache', () => {
+  let fetchFn: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+    fetchFn = vi.fn(async () => new Response(listBody()))
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('fetches a list once for concurrent and repeated checks', async () => {
+    const cache = new StatusListCache({ fetch: fetchFn })
+
+    const results = await Promise.all(Array.from({ length: 10 }, () => cache.get(URL)))
+    await cache.get(URL)
+
+    expect(fetchFn).toHaveBeenCalledTimes(1)
+    expect(results.every(result => result.body === listBody() && !result.stale)).toBe(true)
+  })
+
+  it('takes freshness from max-age, then the list ttl, then the default', async () => {
+    fetchFn.mockResolvedValueOnce(new Response(listBody({ ttl: 10 * MINUTE }), { headers: { 'Cache-Control': 'max-age=60' } }))
+    const cache = new StatusListCache({ fetch: fetchFn, defaultTtl: 30 * MINUTE })
+
+    await cache.get(URL)
+    expect((await cache.getSnapshot(URL))!.expiresAt).toBe('2025-01-01T00:01:00.000Z')
+
+    vi.setSystemTime(new Date('2025-01-01T00:01:00Z'))
+    fetchFn.mockResolvedValueOnce(new Response(listBody({ ttl: 10 * MINUTE })))
+    await cache.get(URL)
+    expect(fetchFn).toHaveBeenCalledTimes(2)
+    expect((await cache.getSnapshot(URL))!.expiresAt).toBe('2025-01-01T00:11:00.000Z')
+
+    vi.setSystemTime(new Date('2025-01-01T00:11:00Z'))
+    await cache.get(URL)
+    expect((await cache.getSnapshot(URL))!.expiresAt).toBe('2025-01-01T00:41:00.000Z')
+  })
+
+  it('never keeps a list past its validUntil', async () => {
+    fetchFn.mockResolvedValueOnce(new Response(listBody({}, { validUntil: '2025-01-01T00:02:00Z' })))
+    const cache = new StatusListCache({ fetch: fetchFn })
+
+    await cache.get(URL)
+    expect((await cache.getSnapshot(URL))!.expiresAt).toBe('2025-01-01T00:02:00.000Z')
+  })
+
+  it('revalidates with If-None-Match and reuses the body on 304', async () => {
+    fetchFn.mockResolvedValueOnce(new Response(listBody(), { headers: { ETag: '"v1"', 'Cache-Control': 'no-cache' } }))
+    fetchFn.mockResolvedValueOnce(new Response(null, { status: 304 }))
+    const cache = new StatusListCache({ fetch: fetchFn })
+
+    await cache.get(URL)
+    const revalidated = await cache.get(URL)
+
+    expect(fetchFn.mock.calls[1][1]).toMatchObject({ headers: { 'If-None-Match': '"v1"' } })
+    expect(revalidated.body).toBe(listBody())
+  })
+
+  it('does not keep lists served with no-store', async () => {
+    fetchFn.mockImplementation(async () => new Response(listBody(), { headers: { 'Cache-Control': 'no-store' } }))
+    const cache = new StatusListCache({ fetch: fetchFn })
+
+    await cache.get(URL)
+    await cache.get(URL)
+
+    expect(fetchFn).toHaveBeenCalledTimes(2)
+    expect(await cache.getSnapshot(URL)).toBeNull()
+  })
+
+  it('serves persisted snapshots offline and reports staleness', async () => {
+    const store = new SecureStorageSnapshotStore(new SecureStorageImpl('passphrase'))
+    await new StatusListCache({ fetch: fetchFn, store }).get(URL)
+
+    const offline = new StatusListCache({ fetch: fetchFn, store })
+    expect(await offline.get(URL, { offline: true })).toMatchObject({ fetchedAt: '2025-01-01T00:00:00.000Z', stale: false })
+
+    vi.setSystemTime(new Date('2025-01-02T00:00:00Z'))
+    expect(await offline.get(URL, { offline: true })).toMatchObject({ stale: true })
+    expect(fetchFn).toHaveBeenCalledTimes(1)
+
+    await expect(offline.get('https://issuer.example/status/2', { offline: true }))
+      .rejects.toMatchObject({ code: StatusListErrorCode.STATUS_RETRIEVAL_ERROR })
+  })
+})
+
+describe('StatusListProvider offline checks', () => {
+  it('checks revocation against the last snapshot and flags it as stale', async () => {
+    const issuerKey = createDidKeyFixture()
+    const dataIntegrity = new DataIntegrityClient()
+    const published = new Map<string, any>()
+    const service = new StatusListService({
+      signer: credential => dataIntegrity.addProof(credential, { cryptosuite: 'eddsa-rdfc-2022', signer: issuerKey.dataIntegritySigner }),
+      baseUrl: 'https://issuer.example/status',
+      publisher: { publish: async (credential, list) => { published.set(list.url, credential) } }
+    })
+    const fetchFn = vi.fn(async (url: string) => new Response(JSON.stringify(published.get(url))))
+    const cache = new StatusListCache({ fetch: fetchFn, defaultTtl: 0 })
+    const provider = new StatusListProvider({ resolver: didKeyResolver, cache })
+
+    const list = await service.createList({ issuer: issuerKey.did, length: 64 })
+    const credential = { issuer: issuerKey.did, credentialStatus: await service.allocateEntry(list.id) }
+    await service.revoke(credential as any)
+
+    const online = await provider.getRevocationStatus(credential)
+    expect(online).toMatchObject({ isRevoked: true, offline: false, stale: false })
+
+    const offline = await provider.getRevocationStatus(credential, { offline: true })
+    expect(offline).toMatchObject({ isRevoked: true, offline: true, stale: true, statusListFetchedAt: online.statusListFetchedAt })
+    expect(fetchFn).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { gunzipSync } from 'zlib'
+import {
+  StatusListService,
+  DIDLinkedResourceStatusListPublisher,
+  SecureStorageStatusListStore,
+  StatusListErrorCode,
+  MIN_STATUS_LIST_LENGTH
+} from '../../../src/core/revocation'
+import { DataIntegrityClient } from '../../../src/core/data-integrity'
+import { DIDLinkedResourceClientImpl } from '../../../src/core/resource'
+import { InMemoryStorage } from '../../../src/core/storage/memory'
+import { createDidKeyFixture, didKeyResolver } from '../../setup/protocol-test-helper'
+
+const issuerKey = createDidKeyFixture()
+const dataIntegrity = new DataIntegrityClient()
+const signer = (credential: any) =>
+  dataIntegrity.addProof(credential, { cryptosuite: 'eddsa-rdfc-2022', signer: issuerKey.dataIntegritySigner })
+
+const decodeBits = (encodedList: string) => {
+  expect(encodedList.startsWith('u')).toBe(true)
+  return gunzipSync(Buffer.from(encodedList.slice(1), 'base64url'))
+}
+const bitAt = (bits: Buffer, index: number) => (bits[index >> 3] >> (7 - (index % 8))) & 1
+
+describe('StatusListService', () => {
+  let service: StatusListService
+
+  beforeEach(() => {
+    service = new StatusListService({ signer, baseUrl: 'https://issuer.example/status/' })
+  })
+
+  it('creates a signed, empty status list credential', async () => {
+    const list = await service.createList({ issuer: issuerKey.did })
+
+    expect(list.url).toBe(`https://issuer.example/status/${list.id}`)
+    expect(list.length).toBe(MIN_STATUS_LIST_LENGTH)
+    expect(list.credential).toMatchObject({
+      id: list.url,
+      type: ['VerifiableCredential', 'BitstringStatusListCredential'],
+      issuer: issuerKey.did,
+      credentialSubject: { type: 'BitstringStatusList', statusPurpose: 'revocation' }
+    })
+
+    const bits = decodeBits(list.credential!.credentialSubject.encodedList)
+    expect(bits.length).toBe(MIN_STATUS_LIST_LENGTH / 8)
+    expect(bits.every(byte => byte === 0)).toBe(true)
+    expect((await dataIntegrity.verifyProof(list.credential!, { resolver: didKeyResolver })).verified).toBe(true)
+  })
+
+  it('allocates distinct random indices', async () => {
+    const list = await service.createList({ issuer: issuerKey.did, length: 64 })
+    const entries = await Promise.all(Array.from({ length: 64 }, () => service.allocateEntry(list.id)))
+
+    expect(entries[0]).toMatchObject({
+      type: 'BitstringStatusListEntry',
+      statusPurpose: 'revocation',
+      statusListCredential: list.url
+    })
+    expect(new Set(entries.map(entry => entry.statusListIndex)).size).toBe(64)
+    await expect(service.allocateEntry(list.id)).rejects.toMatchObject({ code: StatusListErrorCode.LIST_FULL })
+  })
+
+  it('revokes a credential by flipping its bit and re-signing the list', async () => {
+    const list = await service.createList({ issuer: issuerKey.did, length: 1024 })
+    const entry = await service.allocateEntry(list.id)
+    const credential: any = { id: 'urn:uuid:1', type: ['VerifiableCredential'], credentialStatus: entry }
+
+    const updated = await service.revoke(credential)
+    const bits = decodeBits(updated.credential!.credentialSubject.encodedList)
+
+    expect(bitAt(bits, Number(entry.statusListIndex))).toBe(1)
+    expect(bits.reduce((count, byte) => count + byte.toString(2).split('1').length - 1, 0)).toBe(1)
+    expect(await service.getStatus(entry)).toBe(true)
+    expect((await dataIntegrity.verifyProof(updated.credential!, { resolver: didKeyResolver })).verified).toBe(true)
+  })
+
+  it('suspends and reinstates, but never un-revokes', async () => {
+    const revocation = await service.createList({ issuer: issuerKey.did, length: 64 })
+    const suspension = await service.createList({ issuer: issuerKey.did, length: 64, statusPurpose: 'suspension' })
+    const credential: any = {
+      credentialStatus: [await service.allocateEntry(revocation.id), await service.allocateEntry(suspension.id)]
+    }
+
+    await service.suspend(credential)
+    expect(await service.getStatus(credential.credentialStatus[1])).toBe(true)
+    expect(await service.getStatus(credential.credentialStatus[0])).toBe(false)
+
+    await service.reinstate(credential)
+    expect(await service.getStatus(credential.credentialStatus[1])).toBe(false)
+
+    await service.revoke(credential)
+    await expect(service.revoke(credential)).resolves.toBeDefined()
+    expect(await service.getStatus(credential.credentialStatus[0])).toBe(true)
+  })
+
+  it('keeps its lists, bits and allocated indices across restarts', async () => {
+    const storage = new InMemoryStorage()
+    const options = { signer, baseUrl: 'https://issuer.example/status/' }
+    const before = new StatusListService({ ...options, store: new SecureStorageStatusListStore(storage) })
+    const list = await before.createList({ issuer: issuerKey.did, length: 64 })
+    const revoked = await before.allocateEntry(list.id)
+    const kept = await before.allocateEntry(list.id)
+    await before.revoke(revoked)
+
+    const after = new StatusListService({ ...options, store: new SecureStorageStatusListStore(storage) })
+    expect(await after.listLists()).toMatchObject([{ id: list.id, url: list.url, allocated: 2 }])
+    expect(await after.getStatus(revoked)).toBe(true)
+    expect(await after.getStatus(kept)).toBe(false)
+
+    const next = await after.allocateEntry(list.id)
+    expect([revoked.statusListIndex, kept.statusListIndex]).not.toContain(next.statusListIndex)
+    const updated = await after.revoke(kept)
+    const bits = decodeBits(updated.credential!.credentialSubject.encodedList)
+    expect(bitAt(bits, Number(revoked.statusListIndex))).toBe(1)
+    expect(bitAt(bits, Number(kept.statusListIndex))).toBe(1)
+  })
+
+  it('rejects credentials without an entry in a managed list', async () => {
+    await service.createList({ issuer: issuerKey.did, length: 64 })
+    const foreign = {
+      type: 'BitstringStatusListEntry' as const,
+      statusPurpose: 'revocation' as const,
+      statusListIndex: '3',
+      statusListCredential: 'https://other.example/status/1'
+    }
+
+    await expect(service.revoke(foreign)).rejects.toMatchObject({ code: StatusListErrorCode.STATUS_ENTRY_NOT_FOUND })
+    await expect(service.suspend({ credentialStatus: foreign } as any))
+      .rejects.toMatchObject({ code: StatusListErrorCode.STATUS_ENTRY_NOT_FOUND })
+  })
+
+  it('requires somewhere to publish the list', async () => {
+    await expect(new StatusListService({ signer }).createList({ issuer: issuerKey.did }))
+      .rejects.toMatchObject({ code: StatusListErrorCode.INVALID_OPTIONS })
+    await expect(service.createList({ issuer: issuerKey.did, length: 100 }))
+      .rejects.toMatchObject({ code: StatusListErrorCode.INVALID_OPTIONS })
+  })
+
+  it('publishes lists as public DID-Linked Resources', async () => {
+    const resources = new DIDLinkedResourceClientImpl({ enableCache: false })
+    const published = new StatusListService({ signer, publisher: new DIDLinkedResourceStatusListPublisher(resources) })
+
+    const list = await published.createList({ issuer: issuerKey.did, length: 64 })
+    const entry = await published.allocateEntry(list.id)
+    await published.revoke(entry)
+
+    const resourceId = list.url.split('/').pop()!
+    const resource = await resources.getPublicResource(resourceId)
+    expect(resource).toMatchObject({ did: issuerKey.did, type: 'BitstringStatusListCredential', resourceUrl: list.url })
+    expect(resource!.data.id).toBe(list.url)
+    expect(bitAt(decodeBits(resource!.data.credentialSubject.encodedList), Number(entry.statusListIndex))).toBe(1)
+  })
+})
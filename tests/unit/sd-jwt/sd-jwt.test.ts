@@ -0,0 +1,154 @@
+import { describe, it, expect } from 'vitest'
+import { SdJwtVcClient, parseSdJwt, decodeDisclosure, serializeSdJwt, createDisclosure } from '../../../src/core/sd-jwt'
+import { PresentationExchangeClient } from '../../../src/core/presentation-exchange'
+import { W3CVC20Plugin } from '../../../src/core/plugins/credential-types/w3c-vc-2-0-plugin'
+import { createDidKeyFixture, didKeyResolver } from '../../setup/protocol-test-helper'
+
+const issuerKey = createDidKeyFixture()
+const holderKey = createDidKeyFixture()
+const client = new SdJwtVcClient()
+
+const audience = 'did:web:verifier.example'
+const nonce = 'n-0S6_WzA2Mj'
+
+function issue(overrides: Record<string, any> = {}) {
+  return client.issue({
+    vct: 'https://credentials.example.com/identity_credential',
+    issuer: issuerKey.did,
+    claims: {
+      given_name: 'Erika',
+      family_name: 'Mustermann',
+      email: 'erika@example.com',
+      address: { locality: 'Berlin', country: 'DE' }
+    },
+    disclosable: ['given_name', 'family_name', 'email', 'address', 'address.locality'],
+    holder: { kid: holderKey.kid },
+    decoys: 2,
+    signer: issuerKey.jwtSigner,
+    ...overrides
+  })
+}
+
+function present(sdJwt: string, disclose: string[], kbNonce = nonce) {
+  return client.present(sdJwt, {
+    disclose,
+    keyBinding: { signer: holderKey.jwtSigner, nonce: kbNonce, audience }
+  })
+}
+
+describe('SD-JWT VC', () => {
+  it('issues selectively disclosable claims as digests with one disclosure each', async () => {
+    const sdJwt = await issue()
+    const { issuerJwt, disclosures, kbJwt } = parseSdJwt(sdJwt)
+    const payload = JSON.parse(Buffer.from(issuerJwt.split('.')[1], 'base64url').toString())
+
+    expect(sdJwt.endsWith('~')).toBe(true)
+    expect(kbJwt).toBeUndefined()
+    expect(disclosures).toHaveLength(5)
+    expect(payload.email).toBeUndefined()
+    expect(payload._sd).toHaveLength(4 + 2)
+    expect(payload._sd_alg).toBe('sha-256')
+    expect(payload.cnf).toEqual({ kid: holderKey.kid })
+    expect(disclosures.map(d => decodeDisclosure(d).name).sort())
+      .toEqual(['address', 'email', 'family_name', 'given_name', 'locality'])
+  })
+
+  it('reveals only the requested claims and verifies the key-binding JWT', async () => {
+    const presentation = await present(await issue(), ['email', 'address.locality'])
+    expect(parseSdJwt(presentation).disclosures).toHaveLength(3)
+
+    const result = await client.verify(presentation, { resolver: didKeyResolver, nonce, audience })
+    expect(result.errors).toEqual([])
+    expect(result.isValid).toBe(true)
+    expect(result.keyBindingVerified).toBe(true)
+    expect(result.issuer).toBe(issuerKey.did)
+    expect(result.claims.email).toBe('erika@example.com')
+    expect(result.claims.address).toEqual({ locality: 'Berlin', country: 'DE' })
+    expect(result.claims.given_name).toBeUndefined()
+    expect(result.disclosedClaims.sort()).toEqual(['address', 'address.locality', 'email'])
+  })
+
+  it('rejects key binding for another nonce or audience, and a missing key-binding JWT', async () => {
+    const sdJwt = await issue()
+    const replayed = await present(sdJwt, ['email'], 'old-nonce')
+    const result = await client.verify(replayed, { resolver: didKeyResolver, nonce, audience: 'did:web:other.example' })
+    expect(result.isValid).toBe(false)
+    expect(result.errors).toContain('Key-binding JWT nonce does not match')
+    expect(result.errors).toContain('Key-binding JWT audience does not match')
+
+    const withoutKb = await client.verify(sdJwt, { resolver: didKeyResolver, nonce, audience })
+    expect(withoutKb.errors).toContain('Key-binding JWT is required')
+  })
+
+  it('rejects disclosures that are not in the signed digests and tampered issuer JWTs', async () => {
+    const presentation = await present(await issue(), ['email'])
+    const { issuerJwt, disclosures, kbJwt } = parseSdJwt(presentation)
+
+    const injected = serializeSdJwt({ issuerJwt, disclosures: [...disclosures, createDisclosure('age_over_18', true).encoded], kbJwt })
+    const injectedResult = await client.verify(injected, { resolver: didKeyResolver })
+    expect(injectedResult.isValid).toBe(false)
+    expect(injectedResult.errors.some(error => error.startsWith('Invalid disclosures'))).toBe(true)
+    expect(injectedResult.errors).toContain('Key-binding JWT sd_hash does not match the presentation')
+
+    const [header, payload, signature] = issuerJwt.split('.')
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString())
+    const forged = [header, Buffer.from(JSON.stringify({ ...claims, _sd_alg: 'sha-512' })).toString('base64url'), signature].join('.')
+    const forgedResult = await client.verify(serializeSdJwt({ issuerJwt: forged, disclosures }), { resolver: didKeyResolver })
+    expect(forgedResult.errors).toContain('Issuer signature is invalid')
+    expect(forgedResult.errors).toContain('Unsupported _sd_alg: sha-512')
+  })
+
+  it('requires a key-binding JWT signed by a key the cnf claim resolves to', async () => {
+    const sdJwt = await issue()
+    const withoutKb = await client.verify(sdJwt, { resolver: didKeyResolver })
+    expect(withoutKb.isValid).toBe(false)
+    expect(withoutKb.errors).toContain('Key-binding JWT is required')
+
+    const unresolvable = await present(await issue({ holder: { kid: 'did:example:unknown#key-1' } }), ['email'])
+    const result = await client.verify(unresolvable, { resolver: didKeyResolver, nonce, audience })
+    expect(result.isValid).toBe(false)
+    expect(result.keyBindingVerified).toBe(false)
+    expect(result.errors).toContain('No holder key found for the cnf claim')
+  })
+
+  it('rejects issuer keys of a lookalike DID that merely starts with the issuer DID', async () => {
+    const attacker = createDidKeyFixture()
+    const lookalike = 'did:web:issuer.example.evil.net'
+    const resolver = {
+      resolve: async (did: string) => {
+        const result = await didKeyResolver.resolve(did.startsWith(lookalike) ? attacker.did : did)
+        return JSON.parse(JSON.stringify(result).replaceAll(attacker.did, lookalike))
+      }
+    }
+    const sdJwt = await issue({
+      issuer: 'did:web:issuer.example',
+      holder: undefined,
+      signer: { ...attacker.jwtSigner, kid: `${lookalike}#${attacker.kid.split('#')[1]}` }
+    })
+
+    const result = await client.verify(sdJwt, { resolver })
+    expect(result.isValid).toBe(false)
+    expect(result.errors).toContain(`Issuer key ${lookalike}#${attacker.kid.split('#')[1]} does not belong to did:web:issuer.example`)
+  })
+
+  it('requires key binding when presenting a holder-bound credential', async () => {
+    await expect(client.present(await issue(), { disclose: ['email'] })).rejects.toThrow('key-binding JWT is required')
+    await expect(present(await issue(), ['birthdate'])).rejects.toThrow('No disclosure available for claim birthdate')
+  })
+
+  it('stores as a credential that exports back to its SD-JWT and matches PE definitions as vc+sd-jwt', async () => {
+    const sdJwt = await issue()
+    const plugin = new W3CVC20Plugin()
+    const credential = await plugin.importCredential(sdJwt, 'sd-jwt')
+
+    expect(credential.credentialSubject).toMatchObject({ id: holderKey.did, email: 'erika@example.com' })
+    expect(credential.type).toContain('https://credentials.example.com/identity_credential')
+    expect(await plugin.exportCredential(credential, 'sd-jwt')).toBe(sdJwt)
+
+    const submission = new PresentationExchangeClient().createSubmission(
+      { id: 'email', input_descriptors: [{ id: 'email', constraints: { fields: [{ path: ['$.credentialSubject.email'] }] } }] },
+      { email: credential }
+    )
+    expect(submission.presentationSubmission.descriptor_map[0].format).toBe('vc+sd-jwt')
+  })
+})
@@ -1,72 +1,165 @@
-import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { StatusListProvider } from '../../src/core/revocation/status-list-provider';
-
-const mockStatusListUrl = 'https://example.com/status-list/1';
-const bitstring = '00010000'; // Only index 3 is revoked (1-based)
-const encodedList = Buffer.from(bitstring, 'binary').toString('base64');
-
-const mockStatusListVC = {
-  credentialSubject: {
-    encodedList,
-  },
-};
-
-describe('StatusListProvider', () => {
-  let provider: StatusListProvider;
-  let fetchSpy: any;
-
-  beforeEach(() => {
-    provider = new StatusListProvider();
-    fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async (input: any) => {
-      // Accept string | URL | Request
-      const url = typeof input === 'string' ? input : input?.url || String(input);
-      expect(url).toBe(mockStatusListUrl);
-      return {
-        ok: true,
-        json: async () => mockStatusListVC,
-      } as any;
-    });
-  });
-
-  afterEach(() => {
-    fetchSpy.mockRestore();
-  });
-
-  it('returns false for non-revoked index', async () => {
-    const credential = {
-      status: {
-        statusListCredential: mockStatusListUrl,
-        statusListIndex: '0', // bitstring[0] === '0'
-      },
-    };
-    const result = await provider.checkRevocation(credential);
-    expect(result).toBe(false);
-  });
-
-  it('returns true for revoked index', async () => {
-    const credential = {
-      status: {
-        statusListCredential: mockStatusListUrl,
-        statusListIndex: '3', // bitstring[3] === '1'
-      },
-    };
-    const result = await provider.checkRevocation(credential);
-    expect(result).toBe(true);
-  });
-
-  it('throws if statusListCredential or index missing', async () => {
-    const credential = { status: {} };
-    await expect(provider.checkRevocation(credential)).rejects.toThrow();
-  });
-
-  it('throws if fetch fails', async () => {
-    fetchSpy.mockImplementationOnce(async () => ({ ok: false, status: 404 }));
-    const credential = {
-      status: {
-        statusListCredential: mockStatusListUrl,
-        statusListIndex: '0',
-      },
-    };
-    await expect(provider.checkRevocation(credential)).rejects.toThrow('Failed to fetch status list VC: 404');
-  });
-}); 
\ No newline at end of file
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { StatusListProvider } from '../../src/core/revocation/status-list-provider';
+import { StatusListService } from '../../src/core/revocation/status-list-service';
+import { StatusListCache } from '../../src/core/revocation/status-list-cache';
+import { RevocationClient } from '../../src/core/revocation/client';
+import { createBitstring, encodeBitstring, setBit } from '../../src/core/revocation/bitstring';
+import { StatusListErrorCode } from '../../src/core/revocation/types';
+import { DataIntegrityClient } from '../../src/core/data-integrity';
+import { createDidKeyFixture, didKeyResolver } from '../setup/protocol-test-helper';
+
+const issuerKey = createDidKeyFixture();
+const otherKey = createDidKeyFixture();
+const dataIntegrity = new DataIntegrityClient();
+const signWith = (key: ReturnType<typeof createDidKeyFixture>) => (credential: any) =>
+  dataIntegrity.addProof(credential, { cryptosuite: 'eddsa-rdfc-2022', signer: key.dataIntegritySigner });
+
+describe('StatusListProvider', () => {
+  let provider: StatusListProvider;
+  let service: StatusListService;
+  let published: Map<string, any>;
+  let fetchSpy: any;
+
+  const issueWithStatus = (credentialStatus: any, issuer = issuerKey.did) => ({
+    id: 'urn:uuid:credential',
+    type: ['VerifiableCredential'],
+    issuer,
+    credentialStatus
+  });
+
+  beforeEach(() => {
+    published = new Map();
+    service = new StatusListService({
+      signer: signWith(issuerKey),
+      baseUrl: 'https://issuer.example/status',
+      publisher: { publish: async (credential, list) => { published.set(list.url, credential); } }
+    });
+    // Lists are re-published mid-test, so always revalidate
+    provider = new StatusListProvider({ resolver: didKeyResolver, cache: new StatusListCache({ defaultTtl: 0 }) });
+    fetchSpy = vi.spyOn(globalThis, 'fetch').mockImplementation(async (input: any) => {
+      const url = typeof input === 'string' ? input : input?.url || String(input);
+      const credential = published.get(url);
+      return credential ? new Response(JSON.stringify(credential)) : new Response('not found', { status: 404 });
+    });
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+  });
+
+  it('reads revocation bits from a GZIP-compressed, signed list', async () => {
+    const list = await service.createList({ issuer: issuerKey.did, length: 1024 });
+    const active = issueWithStatus(await service.allocateEntry(list.id));
+    const revoked = issueWithStatus(await service.allocateEntry(list.id));
+    await service.revoke(revoked);
+
+    expect(await provider.checkRevocation(active)).toBe(false);
+    expect(await provider.checkRevocation(revoked)).toBe(true);
+    expect(await provider.getMetadata(revoked)).toMatchObject({ issuerDID: issuerKey.did, reason: 'revoked', source: list.url });
+  });
+
+  it('distinguishes suspension from revocation', async () => {
+    const revocation = await service.createList({ issuer: issuerKey.did, length: 64 });
+    const suspension = await service.createList({ issuer: issuerKey.did, length: 64, statusPurpose: 'suspension' });
+    const credential = issueWithStatus([await service.allocateEntry(revocation.id), await service.allocateEntry(suspension.id)]);
+    await service.suspend(credential as any);
+
+    const status = await provider.getRevocationStatus(credential);
+    expect(status).toMatchObject({ isRevoked: false, isSuspended: true, statusPurpose: 'suspension', reason: 'suspended' });
+    expect(await provider.checkRevocation(credential)).toBe(false);
+  });
+
+  it('honors statusSize and statusMessage for message lists', async () => {
+    const url = 'https://issuer.example/status/messages';
+    const bitstring = createBitstring(64);
+    setBit(bitstring, 10, true); // entry 5 with statusSize 2 covers bits 10-11: 0b10
+    published.set(url, await signWith(issuerKey)({
+      '@context': ['https://www.w3.org/ns/credentials/v2'],
+      id: url,
+      type: ['VerifiableCredential', 'BitstringStatusListCredential'],
+      issuer: issuerKey.did,
+      validFrom: '2024-01-01T00:00:00Z',
+      credentialSubject: { id: `${url}#list`, type: 'BitstringStatusList', statusPurpose: 'message', encodedList: encodeBitstring(bitstring) }
+    }));
+    const entry = {
+      type: 'BitstringStatusListEntry',
+      statusPurpose: 'message',
+      statusListIndex: '5',
+      statusListCredential: url,
+      statusSize: 2,
+      statusMessage: [
+        { status: '0x0', message: 'pending_review' },
+        { status: '0x1', message: 'accepted' },
+        { status: '0x2', message: 'rejected' }
+      ]
+    };
+
+    const [result] = await provider.checkStatus(issueWithStatus(entry));
+    expect(result).toMatchObject({ statusPurpose: 'message', statusListIndex: 5, status: 2, message: 'rejected' });
+    expect(await provider.getRevocationStatus(issueWithStatus(entry))).toMatchObject({
+      isRevoked: false,
+      statusPurpose: 'message',
+      statusMessage: 'rejected'
+    });
+
+    await expect(provider.checkStatus(issueWithStatus({ ...entry, statusMessage: undefined })))
+      .rejects.toMatchObject({ code: StatusListErrorCode.MALFORMED_VALUE_ERROR });
+  });
+
+  it('rejects lists issued by someone other than the credential issuer', async () => {
+    const list = await service.createList({ issuer: issuerKey.did, length: 64 });
+    const credential = issueWithStatus(await service.allocateEntry(list.id), otherKey.did);
+
+    await expect(provider.checkRevocation(credential)).rejects.toMatchObject({ code: StatusListErrorCode.STATUS_VERIFICATION_ERROR });
+  });
+
+  it('rejects lists whose proof does not verify', async () => {
+    const list = await service.createList({ issuer: issuerKey.did, length: 64 });
+    const entry = await service.allocateEntry(list.id);
+    const tampered = structuredClone(published.get(list.url));
+    tampered.credentialSubject.encodedList = encodeBitstring(createBitstring(64).fill(0xff));
+    published.set(list.url, tampered);
+
+    await expect(provider.checkRevocation(issueWithStatus(entry))).rejects.toThrow(/proof is invalid/);
+  });
+
+  it('rejects expired lists and entries beyond the end of the list', async () => {
+    const list = await service.createList({ issuer: issuerKey.did, length: 64 });
+    const entry = await service.allocateEntry(list.id);
+
+    await expect(provider.checkRevocation(issueWithStatus({ ...entry, statusListIndex: '64' })))
+      .rejects.toMatchObject({ code: StatusListErrorCode.STATUS_LIST_LENGTH_ERROR });
+
+    const { proof: _proof, ...unsigned } = published.get(list.url);
+    published.set(list.url, await signWith(issuerKey)({ ...unsigned, validUntil: '2020-01-01T00:00:00Z' }));
+    await expect(provider.checkRevocation(issueWithStatus(entry))).rejects.toThrow('Status list credential has expired');
+  });
+
+  it('throws if statusListCredential or index missing', async () => {
+    const credential = { credentialStatus: {} };
+    await expect(provider.checkRevocation(credential)).rejects.toThrow();
+  });
+
+  it('throws if fetch fails', async () => {
+    const credential = issueWithStatus({
+      statusPurpose: 'revocation',
+      statusListCredential: 'https://issuer.example/status/missing',
+      statusListIndex: '0'
+    });
+    await expect(provider.checkRevocation(credential)).rejects.toMatchObject({ code: StatusListErrorCode.STATUS_RETRIEVAL_ERROR });
+  });
+
+  it('lets RevocationClient reject suspended credentials', async () => {
+    const list = await service.createList({ issuer: issuerKey.did, length: 64, statusPurpose: 'suspension' });
+    const credential = issueWithStatus(await service.allocateEntry(list.id));
+    const client = new RevocationClient();
+    await client.registerRevocationProvider(provider);
+
+    expect((await client.validateCredential(credential)).isValid).toBe(true);
+
+    await service.suspend(credential as any);
+    const result = await client.validateCredential(credential);
+    expect(result.isValid).toBe(false);
+    expect(result.warnings).toContain('Credential is suspended');
+  });
+});
@@ -0,0 +1,239 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import express from 'express'
+import { AddressInfo } from 'net'
+import { Server } from 'http'
+import { createVCAPIRouter, VCAPIAgent } from '../../../src/server/vc-api-router'
+import { ServerAuth } from '../../../src/server/auth'
+import { StatusListError, StatusListErrorCode } from '../../../src/core/revocation/types'
+import { TrustStatus } from '../../../src/types'
+import { httpFetch } from '../../setup/protocol-test-helper'
+
+const result = (errors: string[]) => ({
+  isValid: errors.length === 0,
+  trustStatus: { status: errors.length ? TrustStatus.UNTRUSTED : TrustStatus.TRUSTED, lastChecked: new Date().toISOString(), source: 'test' },
+  validationErrors: errors,
+  warnings: []
+})
+
+/**
+ * A ServiceAgent stand-in: signs with a marker proof and keeps status updates
+ */
+function createAgent() {
+  const stored = new Map<string, any>()
+  const statusUpdates: string[] = []
+  const revoked = new Set<string>()
+  let issued = 0
+  const agent = {
+    statusUpdates,
+    verifyOptions: [] as any[],
+    presentationOptions: [] as any[],
+    getServiceDID: async () => 'did:example:service',
+    issueCredential: async (template: any) => ({
+      ...template,
+      id: `urn:uuid:${++issued}`,
+      validFrom: new Date().toISOString(),
+      credentialStatus: { id: `https://example.com/status#${issued}`, type: 'BitstringStatusListEntry', statusPurpose: 'revocation' },
+      proof: { type: 'DataIntegrityProof', proofValue: 'signed' }
+    }),
+    verifyExternalCredential: async (credential: any, options: any) => {
+      agent.verifyOptions.push(options)
+      return result(credential.proof.proofValue === 'signed' ? [] : ['Invalid signature'])
+    },
+    verifyExternalPresentation: async (presentation: any, options: any) => {
+      agent.presentationOptions.push(options)
+      // Verification takes a while, as it does when DIDs are resolved
+      await new Promise(resolve => setTimeout(resolve, 20))
+      return {
+        ...result(presentation.proof?.challenge === options.challenge && presentation.proof?.domain === options.domain ? [] : ['Challenge or domain mismatch']),
+        holder: presentation.holder,
+        credentialResults: []
+      }
+    },
+    // No trust registry is configured
+    supportsVerificationOption: (option: string) => option !== 'checkTrustRegistry',
+    storeCredential: async (credential: any) => { stored.set(credential.id, credential) },
+    getCredential: async (id: string) => stored.get(id) || null,
+    revokeCredential: async (credential: any) => {
+      statusUpdates.push(`revoked ${credential.id}`)
+      revoked.add(credential.id)
+    },
+    suspendCredential: async (credential: any) => { statusUpdates.push(`suspended ${credential.id}`) },
+    reinstateCredential: async (credential: any) => {
+      if (revoked.has(credential.id)) {
+        throw new StatusListError(StatusListErrorCode.IRREVERSIBLE_STATUS, 'A revoked credential cannot be reinstated')
+      }
+      statusUpdates.push(`reinstated ${credential.id}`)
+    }
+  }
+  return agent
+}
+
+const credential = {
+  '@context': ['https://www.w3.org/ns/credentials/v2'],
+  type: ['VerifiableCredential', 'MembershipCredential'],
+  credentialSubject: { id: 'did:example:holder', member: 'gold' }
+}
+
+describe('VC-API router', () => {
+  let server: Server
+  let baseUrl: string
+  const agent = createAgent()
+  let throttled = 0
+
+  const post = async (path: string, body: unknown, method = 'POST') => {
+    const response = await httpFetch(`${baseUrl}${path}`, { method, headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) })
+    return { status: response.status, body: await response.json() }
+  }
+
+  beforeAll(() => {
+    const app = express()
+    server = app.listen(0)
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/vc`
+    app.use('/vc', createVCAPIRouter(agent as unknown as VCAPIAgent, {
+      baseUrl,
+      exchanges: {
+        membership: {
+          query: [{ type: 'DIDAuthentication' }],
+          issue: async (presentation: any) => [{ ...credential, issuer: 'did:example:service', credentialSubject: { id: presentation.holder, member: 'silver' } }]
+        }
+      }
+    }))
+    app.use('/capped', createVCAPIRouter(agent as unknown as VCAPIAgent, {
+      baseUrl: baseUrl.replace(/\/vc$/, '/capped'),
+      exchanges: { membership: { query: [{ type: 'DIDAuthentication' }] } },
+      throttle: (req, res, next) => (++throttled, next()),
+      maxOpenTransactions: 1
+    }))
+  })
+
+  afterAll(() => new Promise<void>(resolve => server.close(() => resolve())))
+
+  it('requires the scope of each issuer and verifier route', async () => {
+    const auth = new ServerAuth({ apiKeys: { agent: { validateServiceAccess: async key => key === 'api_verifier' }, services: { verifier: ['credentials:verify'] } } })
+    const app = express()
+    const secured = app.listen(0)
+    const securedUrl = `http://127.0.0.1:${(secured.address() as AddressInfo).port}`
+    app.use(createVCAPIRouter(agent as unknown as VCAPIAgent, { baseUrl: securedUrl, authorize: auth.authorize }))
+    const call = (path: string, headers: Record<string, string>) =>
+      httpFetch(`${securedUrl}${path}`, { method: 'POST', headers: { 'Content-Type': 'application/json', ...headers }, body: JSON.stringify({ credential }) })
+
+    try {
+      expect((await call('/credentials/issue', {})).status).toBe(401)
+      expect((await call('/credentials/issue', { 'X-API-Key': 'api_verifier' })).status).toBe(403)
+      // Scopes are checked before the body, which is not a verify request
+      expect((await call('/credentials/verify', { 'X-API-Key': 'api_verifier' })).status).toBe(400)
+    } finally {
+      await new Promise<void>(resolve => secured.close(() => resolve()))
+    }
+  })
+
+  it('issues credentials with the service DID and updates their status', async () => {
+    const issued = await post('/credentials/issue', { credential })
+    expect(issued.status).toBe(201)
+    expect(issued.body.verifiableCredential).toMatchObject({ issuer: 'did:example:service', credentialSubject: { member: 'gold' }, proof: { type: 'DataIntegrityProof' } })
+
+    const id = issued.body.verifiableCredential.id
+    const update = (status: string) => post('/credentials/status', { credentialId: id, credentialStatus: [{ type: 'BitstringStatusListEntry', status }] })
+    expect((await update('suspended')).status).toBe(200)
+    expect((await update('active')).status).toBe(200)
+    expect((await update('revoked')).status).toBe(200)
+    expect(await update('active')).toEqual({ status: 400, body: { error: StatusListErrorCode.IRREVERSIBLE_STATUS, error_description: 'A revoked credential cannot be reinstated' } })
+    expect(agent.statusUpdates).toEqual([`suspended ${id}`, `reinstated ${id}`, `revoked ${id}`])
+
+    expect((await post('/credentials/status', { credentialId: 'urn:uuid:unknown', credentialStatus: [{ type: 'BitstringStatusListEntry', status: 'revoked' }] })).status).toBe(404)
+  })
+
+  it('rejects requests that do not match the schemas', async () => {
+    const missing = await post('/credentials/issue', { credential: { ...credential, credentialSubject: undefined } })
+    expect(missing.status).toBe(400)
+    expect(missing.body).toMatchObject({ error: 'invalid_request', error_description: expect.stringContaining('credentialSubject') })
+
+    expect((await post('/credentials/issue', { credential: { ...credential, validFrom: 'yesterday' } })).status).toBe(400)
+    expect((await post('/credentials/status', { credentialId: 'urn:uuid:1', credentialStatus: [{ type: 'BitstringStatusListEntry', status: 'lost' }] })).status).toBe(400)
+    expect((await post('/presentations/verify', { verifiablePresentation: {}, options: { challenge: 'nonce' } })).status).toBe(400)
+  })
+
+  it('verifies credentials with the requested checks', async () => {
+    const { body: { verifiableCredential } } = await post('/credentials/issue', { credential })
+
+    const verified = await post('/credentials/verify', { verifiableCredential, options: { checks: ['proof', 'credentialStatus', 'expiration'] } })
+    expect(verified).toEqual({ status: 200, body: { verified: true, checks: ['proof', 'credentialStatus', 'expiration'], warnings: [], errors: [] } })
+    expect(agent.verifyOptions.pop()).toEqual({ checkRevocation: true, validateExpiry: true })
+
+    const tampered = await post('/credentials/verify', { verifiableCredential: { ...verifiableCredential, proof: { type: 'DataIntegrityProof', proofValue: 'forged' } } })
+    expect(tampered).toMatchObject({ status: 400, body: { verified: false, errors: ['Invalid signature'] } })
+
+    const unsupported = await post('/credentials/verify', { verifiableCredential, options: { checks: ['astrology'] } })
+    expect(unsupported).toMatchObject({ status: 400, body: { error: 'invalid_request', error_description: 'Unsupported checks: astrology' } })
+  })
+
+  it('verifies presentations against the challenge and domain', async () => {
+    const verifiablePresentation = { '@context': ['https://www.w3.org/ns/credentials/v2'], type: ['VerifiablePresentation'], holder: 'did:example:holder', proof: { challenge: 'nonce', domain: 'example.com' } }
+
+    const verified = await post('/presentations/verify', { verifiablePresentation, options: { challenge: 'nonce', domain: 'example.com' } })
+    expect(verified).toMatchObject({ status: 200, body: { verified: true, holder: 'did:example:holder' } })
+    const replayed = await post('/presentations/verify', { verifiablePresentation, options: { challenge: 'other', domain: 'example.com' } })
+    expect(replayed).toMatchObject({ status: 400, body: { verified: false, errors: ['Challenge or domain mismatch'] } })
+  })
+
+  it('runs the requested presentation checks and refuses checks the agent cannot run', async () => {
+    const verifiablePresentation = { '@context': ['https://www.w3.org/ns/credentials/v2'], type: ['VerifiablePresentation'], holder: 'did:example:holder', proof: { challenge: 'nonce', domain: 'example.com' } }
+
+    const checked = await post('/presentations/verify', { verifiablePresentation, options: { challenge: 'nonce', domain: 'example.com', checks: ['credentialStatus'] } })
+    expect(checked).toMatchObject({ status: 200, body: { verified: true, checks: ['proof', 'credentialStatus'] } })
+    expect(agent.presentationOptions.pop()).toEqual({ checkRevocation: true, challenge: 'nonce', domain: 'example.com' })
+
+    const unsupported = await post('/presentations/verify', { verifiablePresentation, options: { challenge: 'nonce', domain: 'example.com', checks: ['trustRegistry'] } })
+    expect(unsupported).toMatchObject({ status: 400, body: { error: 'invalid_request', error_description: 'Unsupported checks: trustRegistry' } })
+  })
+
+  it('runs an exchange from presentation request to issued credentials', async () => {
+    expect((await httpFetch(`${baseUrl}/exchanges`).then(response => response.json()))).toEqual({ exchanges: ['membership'] })
+    expect((await post('/exchanges/unknown', {})).status).toBe(404)
+
+    const { body: { verifiablePresentationRequest: request } } = await post('/exchanges/membership', {})
+    expect(request).toMatchObject({ query: [{ type: 'DIDAuthentication' }], domain: new URL(baseUrl).host })
+    const endpoint = request.interact.service[0].serviceEndpoint
+    expect(endpoint.startsWith(`${baseUrl}/exchanges/membership/`)).toBe(true)
+
+    const presentation = { '@context': ['https://www.w3.org/ns/credentials/v2'], type: ['VerifiablePresentation'], holder: 'did:example:holder', proof: { challenge: request.challenge, domain: request.domain } }
+    const answer = await post(endpoint.slice(baseUrl.length), { verifiablePresentation: presentation }, 'PUT')
+    expect(answer.status).toBe(200)
+    expect(answer.body.verifiablePresentation.verifiableCredential).toEqual([
+      expect.objectContaining({ issuer: 'did:example:service', credentialSubject: { id: 'did:example:holder', member: 'silver' } })
+    ])
+
+    const status = await httpFetch(endpoint).then(response => response.json())
+    expect(status).toMatchObject({ exchangeId: 'membership', state: 'complete' })
+    expect((await post(endpoint.slice(baseUrl.length), { verifiablePresentation: presentation }, 'PUT')).status).toBe(409)
+  })
+
+  it('answers concurrent presentations for one transaction only once', async () => {
+    const { body: { verifiablePresentationRequest: request } } = await post('/exchanges/membership', {})
+    const path = request.interact.service[0].serviceEndpoint.slice(baseUrl.length)
+    const presentation = { '@context': ['https://www.w3.org/ns/credentials/v2'], type: ['VerifiablePresentation'], holder: 'did:example:holder', proof: { challenge: request.challenge, domain: request.domain } }
+
+    const answers = await Promise.all([1, 2, 3].map(() => post(path, { verifiablePresentation: presentation }, 'PUT')))
+    expect(answers.map(answer => answer.status).sort()).toEqual([200, 409, 409])
+  })
+
+  it('throttles starting exchanges and caps open transactions per exchange', async () => {
+    const cappedUrl = baseUrl.replace(/\/vc$/, '/capped')
+    const start = () => httpFetch(`${cappedUrl}/exchanges/membership`, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: '{}' })
+
+    expect((await start()).status).toBe(200)
+    const refused = await start()
+    expect(refused.status).toBe(503)
+    expect(await refused.json()).toMatchObject({ error: 'temporarily_unavailable' })
+    expect(throttled).toBe(2)
+  })
+
+  it('fails the exchange transaction on a presentation for another challenge', async () => {
+    const { body: { verifiablePresentationRequest: request } } = await post('/exchanges/membership', {})
+    const path = request.interact.service[0].serviceEndpoint.slice(baseUrl.length)
+    const presentation = { '@context': ['https://www.w3.org/ns/credentials/v2'], type: ['VerifiablePresentation'], proof: { challenge: 'stale', domain: request.domain } }
+
+    expect(await post(path, { verifiablePresentation: presentation }, 'PUT')).toMatchObject({ status: 400, body: { verified: false } })
+    expect(await httpFetch(`${baseUrl}${path}`).then(response => response.json())).toMatchObject({ state: 'failed', errors: ['Challenge or domain mismatch'] })
+  })
+})